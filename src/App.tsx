@@ -30,6 +30,9 @@ import { useAppStore } from './store/useAppStore';
 import { onAuthStateChanged } from 'firebase/auth';
 import { auth } from './config/firebase';
 import { logoutUser, ensureUserProfile } from './services/authService';
+import { agentScheduler } from './services/agentScheduler';
+import { thresholdMonitor } from './services/agentThresholds';
+import { stepUpAuthService } from './services/stepUpAuthService';
 import { useTranslation } from './hooks/useTranslation';
 
 
@@ -51,6 +54,7 @@ import RiskAutoSellAgentSetup from './components/RiskAutoSellAgentSetup';
 import DynamicAgentsHub from './components/DynamicAgentsHub';
 import StockMonitoringDashboard from './components/StockMonitoringDashboard';
 import RiskMonitoringDashboard from './components/RiskMonitoringDashboard';
+import ApprovalsInbox from './components/ApprovalsInbox';
 import EnhancedProfile from './components/EnhancedProfile';
 import FinancialReport from './components/FinancialReport';
 import Login from './components/Login';
@@ -187,9 +191,24 @@ function AppLayout() {
     return () => unsubscribe();
   }, []);
 
+  // Run custom agent time and threshold triggers while a user is signed in
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    agentScheduler.start(userId);
+    thresholdMonitor.start(userId);
+    return () => {
+      agentScheduler.stop();
+      thresholdMonitor.stop();
+    };
+  }, [userId]);
+
   const handleLogout = async () => {
     try {
-      if (user) await logoutUser(user.id);
+      if (user) {
+        stepUpAuthService.clearVerification(user.id);
+        await logoutUser(user.id);
+      }
       setUser(null);
     } catch (error) {
       console.error('Error signing out:', error);
@@ -210,6 +229,7 @@ function AppLayout() {
     { label: t('agents'), path: '/dynamic-agents-hub' },
     { label: t('stocks'), path: '/stock-monitor' },
     { label: t('risk'), path: '/risk-monitor' },
+    { label: t('approvals'), path: '/approvals' },
   ];
 
 
@@ -393,6 +413,7 @@ function AppLayout() {
               <Route path="/dynamic-agents-hub" element={user ? <PageWrapper><DynamicAgentsHub /></PageWrapper> : <Navigate to="/" replace />} />
               <Route path="/stock-monitor" element={user ? <PageWrapper><StockMonitoringDashboard /></PageWrapper> : <Navigate to="/" replace />} />
               <Route path="/risk-monitor" element={user ? <PageWrapper><RiskMonitoringDashboard /></PageWrapper> : <Navigate to="/" replace />} />
+              <Route path="/approvals" element={user ? <PageWrapper><ApprovalsInbox /></PageWrapper> : <Navigate to="/" replace />} />
               <Route path="/profile" element={user ? <PageWrapper><EnhancedProfile /></PageWrapper> : <Navigate to="/" replace />} />
               <Route path="*" element={<Navigate to="/" replace />} />
             </Routes>
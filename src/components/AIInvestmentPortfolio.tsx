@@ -85,6 +85,8 @@ import {
   type AIInvestmentStrategy,
 } from '../services/aiPortfolioService';
 import { userProfileService } from '../services/userProfileService';
+import { stepUpAuthService } from '../services/stepUpAuthService';
+import StepUpDialog from './StepUpDialog';
 
 const CHART_COLORS = ['#1976d2', '#2e7d32', '#ed6c02', '#d32f2f', '#9c27b0', '#0288d1'];
 
@@ -138,7 +140,7 @@ const AIInvestmentPortfolio: React.FC = () => {
     bankName: 'HDFC Bank',
   });
   const [paymentGateway, setPaymentGateway] = useState<'UPI' | 'Net Banking' | 'Debit Card'>('UPI');
-  const [password, setPassword] = useState('');
+  const [stepUpOpen, setStepUpOpen] = useState(false);
   const [processingPayment, setProcessingPayment] = useState(false);
   
   // Notifications
@@ -281,6 +283,12 @@ const AIInvestmentPortfolio: React.FC = () => {
 
   const handleAuthorizePayment = async () => {
     if (!selectedInvestment || !user) return;
+
+    // Payments need step-up verification first, with whichever method the account has
+    if (!stepUpAuthService.hasRecentVerification(user.id)) {
+      setStepUpOpen(true);
+      return;
+    }
     
     setProcessingPayment(true);
     
@@ -303,8 +311,8 @@ const AIInvestmentPortfolio: React.FC = () => {
         paymentGateway
       );
       
-      // Authorize payment with password
-      const result = await aiPortfolioService.authorizePayment(paymentRequest.requestId, password);
+      // Authorize payment under the step-up grant
+      const result = await aiPortfolioService.authorizePayment(paymentRequest.requestId);
       
       if (result.status === 'success') {
         // Add to portfolio
@@ -325,7 +333,6 @@ const AIInvestmentPortfolio: React.FC = () => {
         // Reset state
         setPaymentDialogOpen(false);
         setSelectedInvestment(null);
-        setPassword('');
         setBankAccount({ accountNumber: '', ifscCode: '', bankName: 'HDFC Bank' });
       } else {
         showSnackbar(result.message, 'error');
@@ -1139,14 +1146,9 @@ const AIInvestmentPortfolio: React.FC = () => {
             sx={{ mb: 2 }}
           />
 
-          <TextField
-            fullWidth
-            type="password"
-            label="Enter Password to Authorize"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            helperText="Your password is required for security"
-          />
+          <Typography variant="caption" color="text.secondary">
+            You will be asked to verify your identity before the payment is authorized.
+          </Typography>
 
           {processingPayment && (
             <Box sx={{ display: 'flex', justifyContent: 'center', mt: 3 }}>
@@ -1163,13 +1165,26 @@ const AIInvestmentPortfolio: React.FC = () => {
             color="success"
             onClick={handleAuthorizePayment}
             startIcon={processingPayment ? <CircularProgress size={20} color="inherit" /> : <Lock />}
-            disabled={!password || !bankAccount.accountNumber || !bankAccount.ifscCode || processingPayment}
+            disabled={!bankAccount.accountNumber || !bankAccount.ifscCode || processingPayment}
           >
             Authorize Payment
           </Button>
         </DialogActions>
       </Dialog>
 
+      {user && selectedInvestment && (
+        <StepUpDialog
+          open={stepUpOpen}
+          userId={user.id}
+          purpose={`authorize ${formatCurrency(customInvestmentAmount)}`}
+          onClose={() => setStepUpOpen(false)}
+          onVerified={() => {
+            setStepUpOpen(false);
+            handleAuthorizePayment();
+          }}
+        />
+      )}
+
       {/* Snackbar for notifications */}
       <Snackbar
         open={snackbar.open}
@@ -0,0 +1,318 @@
+/**
+ * Approvals Inbox Component
+ * Every pending agent approval in one list, with bulk actions, urgency filter and countdowns
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Checkbox,
+  Chip,
+  Button,
+  IconButton,
+  Tooltip,
+  Alert,
+  CircularProgress,
+  LinearProgress,
+  Stack,
+} from '@mui/material';
+import {
+  Refresh,
+  Check as CheckIcon,
+  Close as CloseIcon,
+  Timer as TimerIcon,
+} from '@mui/icons-material';
+import { approvalsService, type ApprovalResult, type ApprovalUrgency, type PendingApproval } from '../services/approvalsService';
+import { stepUpAuthService } from '../services/stepUpAuthService';
+import { useAppStore } from '../store/useAppStore';
+import StepUpDialog from './StepUpDialog';
+
+const URGENCY_COLORS: Record<ApprovalUrgency, 'error' | 'warning' | 'info' | 'default'> = {
+  critical: 'error',
+  high: 'warning',
+  normal: 'info',
+  low: 'default',
+};
+
+const URGENCIES: ApprovalUrgency[] = ['critical', 'high', 'normal', 'low'];
+
+const formatCountdown = (remainingMs: number) => {
+  if (remainingMs <= 0) return 'due now';
+  const totalSeconds = Math.floor(remainingMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours >= 24) return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+};
+
+const ApprovalsInbox: React.FC = () => {
+  const { user } = useAppStore();
+  const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [urgencyFilter, setUrgencyFilter] = useState<ApprovalUrgency[]>([]);
+  const [results, setResults] = useState<ApprovalResult[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [stepUpFor, setStepUpFor] = useState<PendingApproval[] | null>(null);
+
+  const loadApprovals = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const pending = await approvalsService.getPendingApprovals(user.id);
+      setApprovals(pending);
+      setSelected(prev => new Set([...prev].filter(id => pending.some(a => a.id === id))));
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadApprovals();
+  }, [loadApprovals]);
+
+  // Tick once a second for the countdowns
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const visible = approvals.filter(a => urgencyFilter.length === 0 || urgencyFilter.includes(a.urgency));
+  const selectedApprovals = visible.filter(a => selected.has(a.id));
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(selectedApprovals.length === visible.length ? new Set() : new Set(visible.map(a => a.id)));
+  };
+
+  const toggleUrgency = (urgency: ApprovalUrgency) => {
+    setUrgencyFilter(prev => (prev.includes(urgency) ? prev.filter(u => u !== urgency) : [...prev, urgency]));
+  };
+
+  const runBulk = async (action: 'approve' | 'reject', items: PendingApproval[]) => {
+    if (!user || items.length === 0) return;
+
+    setProcessing(true);
+    try {
+      const outcome =
+        action === 'approve'
+          ? await approvalsService.bulkApprove(user.id, items)
+          : await approvalsService.bulkReject(user.id, items);
+      setResults(outcome);
+      await loadApprovals();
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleApprove = (items: PendingApproval[]) => {
+    if (!user) return;
+
+    // One step-up verification covers every high-value item in the batch
+    if (items.some(a => a.requiresStepUp) && !stepUpAuthService.hasRecentVerification(user.id)) {
+      setStepUpFor(items);
+      return;
+    }
+    runBulk('approve', items);
+  };
+
+  const failed = results.filter(r => !r.success);
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Box>
+          <Typography variant="h4" gutterBottom>
+            ✅ Approvals
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Everything your agents are waiting on you for, in one place
+          </Typography>
+        </Box>
+        <Tooltip title="Refresh">
+          <IconButton onClick={loadApprovals} disabled={loading || processing}>
+            <Refresh />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+          <Typography variant="body2" color="text.secondary" sx={{ mr: 1 }}>
+            Urgency:
+          </Typography>
+          {URGENCIES.map(urgency => (
+            <Chip
+              key={urgency}
+              label={`${urgency} (${approvals.filter(a => a.urgency === urgency).length})`}
+              color={urgencyFilter.includes(urgency) ? URGENCY_COLORS[urgency] : 'default'}
+              variant={urgencyFilter.includes(urgency) ? 'filled' : 'outlined'}
+              onClick={() => toggleUrgency(urgency)}
+              size="small"
+            />
+          ))}
+          <Box sx={{ flexGrow: 1 }} />
+          <Button
+            variant="contained"
+            color="success"
+            size="small"
+            startIcon={<CheckIcon />}
+            disabled={processing || selectedApprovals.length === 0}
+            onClick={() => handleApprove(selectedApprovals)}
+          >
+            Approve ({selectedApprovals.length})
+          </Button>
+          <Button
+            variant="outlined"
+            color="error"
+            size="small"
+            startIcon={<CloseIcon />}
+            disabled={processing || selectedApprovals.length === 0}
+            onClick={() => runBulk('reject', selectedApprovals)}
+          >
+            Reject ({selectedApprovals.length})
+          </Button>
+        </Stack>
+      </Paper>
+
+      {results.length > 0 && (
+        <Alert
+          severity={failed.length === 0 ? 'success' : 'warning'}
+          onClose={() => setResults([])}
+          sx={{ mb: 2 }}
+        >
+          {results.length - failed.length} of {results.length} done.
+          {failed.map(r => (
+            <div key={r.approvalId}>
+              {approvals.find(a => a.id === r.approvalId)?.title || r.approvalId}: {r.message}
+            </div>
+          ))}
+        </Alert>
+      )}
+
+      <Paper>
+        {processing && <LinearProgress />}
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : visible.length === 0 ? (
+          <Alert severity="info" sx={{ m: 2 }}>
+            Nothing is waiting for your approval.
+          </Alert>
+        ) : (
+          <List>
+            <ListItem dense>
+              <ListItemIcon>
+                <Checkbox
+                  edge="start"
+                  checked={selectedApprovals.length === visible.length}
+                  indeterminate={selectedApprovals.length > 0 && selectedApprovals.length < visible.length}
+                  onChange={toggleAll}
+                />
+              </ListItemIcon>
+              <ListItemText primary={`${visible.length} pending`} />
+            </ListItem>
+            {visible.map(approval => {
+              const remaining = approval.deadline ? approval.deadline.getTime() - now : null;
+              return (
+                <ListItem
+                  key={approval.id}
+                  divider
+                  alignItems="flex-start"
+                  secondaryAction={
+                    <Stack direction="row" spacing={1}>
+                      <Tooltip title="Approve">
+                        <span>
+                          <IconButton color="success" disabled={processing} onClick={() => handleApprove([approval])}>
+                            <CheckIcon />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title="Reject">
+                        <span>
+                          <IconButton color="error" disabled={processing} onClick={() => runBulk('reject', [approval])}>
+                            <CloseIcon />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </Stack>
+                  }
+                >
+                  <ListItemIcon>
+                    <Checkbox edge="start" checked={selected.has(approval.id)} onChange={() => toggleSelected(approval.id)} />
+                  </ListItemIcon>
+                  <ListItemText
+                    sx={{ pr: 12 }}
+                    primary={
+                      <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+                        <Typography variant="subtitle1">{approval.title}</Typography>
+                        <Chip label={approval.urgency} color={URGENCY_COLORS[approval.urgency]} size="small" />
+                        <Chip label={approval.sourceLabel} variant="outlined" size="small" />
+                        {approval.amount !== null && (
+                          <Chip label={`₹${approval.amount.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`} size="small" />
+                        )}
+                        {remaining !== null && (
+                          <Chip
+                            icon={<TimerIcon />}
+                            label={`${approval.autoExecutes ? 'Auto-executes in' : 'Expires in'} ${formatCountdown(remaining)}`}
+                            color={approval.autoExecutes ? 'error' : 'default'}
+                            variant="outlined"
+                            size="small"
+                          />
+                        )}
+                      </Stack>
+                    }
+                    secondary={
+                      <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'pre-line', mt: 0.5 }}>
+                        {approval.explanation}
+                      </Typography>
+                    }
+                    secondaryTypographyProps={{ component: 'div' }}
+                  />
+                </ListItem>
+              );
+            })}
+          </List>
+        )}
+      </Paper>
+
+      {user && stepUpFor && (
+        <StepUpDialog
+          open
+          userId={user.id}
+          purpose={`approve ${stepUpFor.length} item(s)`}
+          onClose={() => setStepUpFor(null)}
+          onVerified={() => {
+            const items = stepUpFor;
+            setStepUpFor(null);
+            runBulk('approve', items);
+          }}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default ApprovalsInbox;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   Container,
   Grid,
@@ -17,6 +17,21 @@ import {
   ListItemIcon,
   ListItemText,
   Divider,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
 } from '@mui/material';
 import {
   TrendingUp,
@@ -28,6 +43,8 @@ import {
   Assessment,
   Lightbulb,
   EmojiEvents,
+  UploadFile,
+  TrendingDown,
 } from '@mui/icons-material';
 import {
   RadialBarChart,
@@ -42,10 +59,89 @@ import {
   Area,
 } from 'recharts';
 import { useAppStore } from '../store/useAppStore';
+import {
+  creditScoreEngine,
+  improvementTimeline,
+  simulateWhatIf,
+  type CreditFactorKey,
+  type CreditSummary,
+  type WhatIfResult,
+} from '../services/creditScoreEngine';
+import { CreditReportError } from '../services/creditReportImport';
+
+const FACTOR_ICONS: Record<CreditFactorKey, React.ReactElement> = {
+  payment_history: <Timer />,
+  utilization: <CreditCard />,
+  credit_age: <Assessment />,
+  credit_mix: <AccountBalance />,
+  enquiries: <TrendingUp />,
+};
 
 const CreditScoreMonitor: React.FC = () => {
-  const { language } = useAppStore();
-  const [creditScore] = useState(720);
+  const { language, user } = useAppStore();
+  const [summary, setSummary] = useState<CreditSummary | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [reportText, setReportText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [whatIf, setWhatIf] = useState({ accountId: '', percent: '30' });
+  const [whatIfResult, setWhatIfResult] = useState<WhatIfResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadSummary = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setSummary(await creditScoreEngine.getSummary(user.id));
+    } catch (error) {
+      console.error('Error loading credit report:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setReportText(await file.text());
+    setImportError(null);
+  };
+
+  const handleImport = async () => {
+    if (!user) return;
+
+    try {
+      setSummary(await creditScoreEngine.importReport(user.id, reportText));
+      setImportOpen(false);
+      setReportText('');
+      setImportError(null);
+      setWhatIfResult(null);
+    } catch (error) {
+      if (error instanceof CreditReportError) {
+        setImportError(error.message);
+      } else {
+        console.error('Error importing credit report:', error);
+        setImportError('Failed to import the credit report');
+      }
+    }
+  };
+
+  const handleSimulate = () => {
+    if (!summary?.report || !whatIf.accountId) return;
+
+    setWhatIfResult(
+      simulateWhatIf(summary.report, {
+        kind: 'pay_down_card',
+        accountId: whatIf.accountId,
+        targetUtilizationPercent: Math.max(0, Math.min(100, parseFloat(whatIf.percent) || 0)),
+      })
+    );
+  };
+
+  const estimate = summary?.estimate ?? null;
+  const creditScore = estimate?.score ?? 0;
 
   const content = {
     en: {
@@ -55,6 +151,12 @@ const CreditScoreMonitor: React.FC = () => {
       factors: 'Score Factors',
       history: 'Score History',
       recommendations: 'AI Recommendations',
+      importReport: 'Import Credit Report',
+      noReport: 'Import your CIBIL, Experian, Equifax or CRIF report (JSON or text) to see your estimated score and what moves it.',
+      estimated: 'Estimated',
+      bureau: 'Bureau',
+      accounts: 'Accounts & Enquiries',
+      whatIf: 'What-if Simulator',
       excellent: 'Excellent',
       good: 'Good',
       fair: 'Fair',
@@ -67,6 +169,12 @@ const CreditScoreMonitor: React.FC = () => {
       factors: 'स्कोर कारक',
       history: 'स्कोर इतिहास',
       recommendations: 'AI सिफारिशें',
+      importReport: 'क्रेडिट रिपोर्ट आयात करें',
+      noReport: 'अपना अनुमानित स्कोर और उसे प्रभावित करने वाले कारक देखने के लिए अपनी CIBIL, Experian, Equifax या CRIF रिपोर्ट (JSON या टेक्स्ट) आयात करें।',
+      estimated: 'अनुमानित',
+      bureau: 'ब्यूरो',
+      accounts: 'खाते और पूछताछ',
+      whatIf: 'क्या-होगा-अगर सिम्युलेटर',
       excellent: 'उत्कृष्ट',
       good: 'अच्छा',
       fair: 'औसत',
@@ -87,53 +195,19 @@ const CreditScoreMonitor: React.FC = () => {
   const category = getScoreCategory(creditScore);
 
   // Score factors
-  const scoreFactors = [
-    {
-      name: language === 'en' ? 'Payment History' : 'भुगतान इतिहास',
-      weight: 35,
-      score: 85,
-      status: 'good',
-      icon: <Timer />,
-    },
-    {
-      name: language === 'en' ? 'Credit Utilization' : 'क्रेडिट उपयोग',
-      weight: 30,
-      score: 72,
-      status: 'fair',
-      icon: <CreditCard />,
-    },
-    {
-      name: language === 'en' ? 'Credit History Length' : 'क्रेडिट इतिहास की लंबाई',
-      weight: 15,
-      score: 90,
-      status: 'good',
-      icon: <Assessment />,
-    },
-    {
-      name: language === 'en' ? 'Credit Mix' : 'क्रेडिट मिश्रण',
-      weight: 10,
-      score: 65,
-      status: 'fair',
-      icon: <AccountBalance />,
-    },
-    {
-      name: language === 'en' ? 'New Credit' : 'नया क्रेडिट',
-      weight: 10,
-      score: 80,
-      status: 'good',
-      icon: <TrendingUp />,
-    },
-  ];
+  const scoreFactors = (estimate?.factors ?? []).map(factor => ({
+    ...factor,
+    icon: FACTOR_ICONS[factor.key],
+  }));
 
   // Historical data
-  const historyData = [
-    { month: 'Jan', score: 680 },
-    { month: 'Feb', score: 690 },
-    { month: 'Mar', score: 695 },
-    { month: 'Apr', score: 700 },
-    { month: 'May', score: 710 },
-    { month: 'Jun', score: 720 },
-  ];
+  const historyData = (summary?.history ?? []).map(snapshot => ({
+    month: snapshot.date.toLocaleDateString('en-IN', { month: 'short', year: '2-digit' }),
+    score: snapshot.estimatedScore,
+    bureau: snapshot.bureauScore,
+  }));
+  const firstSnapshot = summary?.history[0];
+  const scoreChange = firstSnapshot ? creditScore - firstSnapshot.estimatedScore : 0;
 
   // Radial chart data
   const radialData = [
@@ -145,44 +219,21 @@ const CreditScoreMonitor: React.FC = () => {
   ];
 
   // AI Recommendations
-  const recommendations = [
-    {
-      priority: 'high',
-      title: language === 'en' ? 'Reduce Credit Utilization to < 30%' : 'क्रेडिट उपयोग को < 30% तक कम करें',
-      description: language === 'en'
-        ? 'Your current utilization is 45%. Pay down ₹25,000 to reach optimal level.'
-        : 'आपका वर्तमान उपयोग 45% है। इष्टतम स्तर तक पहुंचने के लिए ₹25,000 का भुगतान करें।',
-      impact: '+15 points',
-      icon: <CreditCard />,
-    },
-    {
-      priority: 'high',
-      title: language === 'en' ? 'Never Miss Payment Deadlines' : 'भुगतान की समय सीमा कभी न चूकें',
-      description: language === 'en'
-        ? 'Set up auto-pay for minimum dues. Payment history is 35% of your score.'
-        : 'न्यूनतम बकाया के लिए ऑटो-पे सेट करें। भुगतान इतिहास आपके स्कोर का 35% है।',
-      impact: '+30 points',
-      icon: <Timer />,
-    },
-    {
-      priority: 'medium',
-      title: language === 'en' ? 'Diversify Credit Mix' : 'क्रेडिट मिश्रण में विविधता लाएं',
-      description: language === 'en'
-        ? 'Add a personal loan or EMI to your credit profile for better mix.'
-        : 'बेहतर मिश्रण के लिए अपनी क्रेडिट प्रोफ़ाइल में व्यक्तिगत ऋण या EMI जोड़ें।',
-      impact: '+10 points',
-      icon: <AccountBalance />,
-    },
-    {
-      priority: 'low',
-      title: language === 'en' ? 'Avoid New Credit Inquiries' : 'नई क्रेडिट पूछताछ से बचें',
-      description: language === 'en'
-        ? 'Multiple credit applications in short time hurt your score.'
-        : 'कम समय में कई क्रेडिट आवेदन आपके स्कोर को नुकसान पहुंचाते हैं।',
-      impact: '+5 points',
-      icon: <Warning />,
-    },
-  ];
+  const recommendations = (summary?.simulations ?? []).map(sim => ({
+    priority: sim.change >= 20 ? 'high' : sim.change >= 5 ? 'medium' : 'low',
+    title: sim.label,
+    description: [
+      ...(sim.paymentRequired > 0 ? [`Requires paying ₹${sim.paymentRequired.toLocaleString('en-IN')}.`] : []),
+      ...sim.factorChanges.map(f => `${f.label}: ${f.before} → ${f.after}.`),
+    ].join(' '),
+    impact: `${sim.change >= 0 ? '+' : ''}${sim.change} ${language === 'en' ? 'points' : 'अंक'}`,
+    icon: sim.change >= 0 ? <CreditCard /> : <Warning />,
+  }));
+
+  // Expected score with on-time payments
+  const timeline = summary?.report ? improvementTimeline(summary.report) : [];
+
+  const cards = summary?.report?.accounts.filter(a => a.type === 'credit_card' && a.status === 'active' && a.creditLimit) ?? [];
 
   const getPriorityColor = (priority: string) => {
     if (priority === 'high') return 'error';
@@ -201,198 +252,349 @@ const CreditScoreMonitor: React.FC = () => {
         <Typography variant="h6" color="text.secondary">
           {t.subtitle}
         </Typography>
+        <Button variant="contained" startIcon={<UploadFile />} sx={{ mt: 2 }} onClick={() => setImportOpen(true)}>
+          {t.importReport}
+        </Button>
       </Box>
 
-      {/* Credit Score Display */}
-      <Grid container spacing={3} sx={{ mb: 4 }}>
-        <Grid item xs={12} md={6}>
-          <Card sx={{ height: '100%' }}>
-            <CardContent>
-              <Typography variant="h6" gutterBottom fontWeight="bold">
-                {t.score}
-              </Typography>
-              <Box sx={{ display: 'flex', justifyContent: 'center', my: 3 }}>
-                <ResponsiveContainer width="100%" height={250}>
-                  <RadialBarChart
-                    cx="50%"
-                    cy="50%"
-                    innerRadius="60%"
-                    outerRadius="90%"
-                    barSize={20}
-                    data={radialData}
-                    startAngle={180}
-                    endAngle={0}
-                  >
-                    <RadialBar
-                      background
-                      dataKey="value"
-                      cornerRadius={10}
-                    />
-                    <Legend
-                      iconSize={0}
-                      width={120}
-                      height={140}
-                      layout="vertical"
-                      verticalAlign="middle"
-                      content={() => (
-                        <Box sx={{ textAlign: 'center' }}>
-                          <Typography variant="h2" fontWeight="bold" color={category.color}>
-                            {creditScore}
-                          </Typography>
-                          <Chip
-                            label={category.label}
-                            sx={{ bgcolor: category.color, color: 'white', fontWeight: 'bold' }}
-                          />
-                        </Box>
-                      )}
-                    />
-                  </RadialBarChart>
-                </ResponsiveContainer>
-              </Box>
-              <Stack direction="row" spacing={2} justifyContent="center">
-                <Box sx={{ textAlign: 'center' }}>
-                  <TrendingUp sx={{ color: 'success.main', fontSize: 32 }} />
-                  <Typography variant="body2" color="success.main" fontWeight="bold">
-                    +40 {language === 'en' ? 'points' : 'अंक'}
-                  </Typography>
-                  <Typography variant="caption" color="text.secondary">
-                    {language === 'en' ? 'Last 6 months' : 'पिछले 6 महीने'}
-                  </Typography>
-                </Box>
-              </Stack>
-            </CardContent>
-          </Card>
-        </Grid>
-
-        <Grid item xs={12} md={6}>
-          <Card sx={{ height: '100%' }}>
-            <CardContent>
-              <Typography variant="h6" gutterBottom fontWeight="bold">
-                {t.history}
-              </Typography>
-              <ResponsiveContainer width="100%" height={280}>
-                <AreaChart data={historyData}>
-                  <defs>
-                    <linearGradient id="colorScore" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="5%" stopColor={category.color} stopOpacity={0.8} />
-                      <stop offset="95%" stopColor={category.color} stopOpacity={0} />
-                    </linearGradient>
-                  </defs>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="month" />
-                  <YAxis domain={[600, 800]} />
-                  <RechartsTooltip />
-                  <Area
-                    type="monotone"
-                    dataKey="score"
-                    stroke={category.color}
-                    fillOpacity={1}
-                    fill="url(#colorScore)"
-                  />
-                </AreaChart>
-              </ResponsiveContainer>
-            </CardContent>
-          </Card>
-        </Grid>
-      </Grid>
+      {!estimate && (
+        <Alert severity="info" sx={{ mb: 4 }}>
+          {t.noReport}
+        </Alert>
+      )}
 
-      {/* Score Factors */}
-      <Box sx={{ mb: 4 }}>
-        <Typography variant="h4" gutterBottom fontWeight="bold" sx={{ mb: 3 }}>
-          <Assessment sx={{ verticalAlign: 'middle', mr: 1 }} />
-          {t.factors}
-        </Typography>
-        <Grid container spacing={2}>
-          {scoreFactors.map((factor, index) => (
-            <Grid item xs={12} md={6} key={index}>
-              <Card>
-                <CardContent>
-                  <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
-                    <Avatar
-                      sx={{
-                        bgcolor:
-                          factor.status === 'good'
-                            ? 'success.main'
-                            : factor.status === 'fair'
-                            ? 'warning.main'
-                            : 'error.main',
-                      }}
+      {estimate && (
+        <>
+        {/* Credit Score Display */}
+        <Grid container spacing={3} sx={{ mb: 4 }}>
+          <Grid item xs={12} md={6}>
+            <Card sx={{ height: '100%' }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom fontWeight="bold">
+                  {t.score}
+                </Typography>
+                <Box sx={{ display: 'flex', justifyContent: 'center', my: 3 }}>
+                  <ResponsiveContainer width="100%" height={250}>
+                    <RadialBarChart
+                      cx="50%"
+                      cy="50%"
+                      innerRadius="60%"
+                      outerRadius="90%"
+                      barSize={20}
+                      data={radialData}
+                      startAngle={180}
+                      endAngle={0}
+                    >
+                      <RadialBar
+                        background
+                        dataKey="value"
+                        cornerRadius={10}
+                      />
+                      <Legend
+                        iconSize={0}
+                        width={120}
+                        height={140}
+                        layout="vertical"
+                        verticalAlign="middle"
+                        content={() => (
+                          <Box sx={{ textAlign: 'center' }}>
+                            <Typography variant="h2" fontWeight="bold" color={category.color}>
+                              {creditScore}
+                            </Typography>
+                            <Chip
+                              label={category.label}
+                              sx={{ bgcolor: category.color, color: 'white', fontWeight: 'bold' }}
+                            />
+                          </Box>
+                        )}
+                      />
+                    </RadialBarChart>
+                  </ResponsiveContainer>
+                </Box>
+                <Stack direction="row" spacing={4} justifyContent="center">
+                  <Box sx={{ textAlign: 'center' }}>
+                    {scoreChange >= 0 ? (
+                      <TrendingUp sx={{ color: 'success.main', fontSize: 32 }} />
+                    ) : (
+                      <TrendingDown sx={{ color: 'error.main', fontSize: 32 }} />
+                    )}
+                    <Typography
+                      variant="body2"
+                      color={scoreChange >= 0 ? 'success.main' : 'error.main'}
+                      fontWeight="bold"
                     >
-                      {factor.icon}
-                    </Avatar>
-                    <Box sx={{ flexGrow: 1 }}>
-                      <Typography variant="body1" fontWeight="bold">
-                        {factor.name}
+                      {scoreChange >= 0 ? '+' : ''}{scoreChange} {language === 'en' ? 'points' : 'अंक'}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {firstSnapshot &&
+                        `${language === 'en' ? 'Since' : 'से'} ${firstSnapshot.date.toLocaleDateString('en-IN', { month: 'short', year: 'numeric' })}`}
+                    </Typography>
+                  </Box>
+                  {estimate.bureauScore !== null && (
+                    <Box sx={{ textAlign: 'center' }}>
+                      <Typography variant="h5" fontWeight="bold">
+                        {estimate.bureauScore}
                       </Typography>
                       <Typography variant="caption" color="text.secondary">
-                        {factor.weight}% {language === 'en' ? 'of score' : 'स्कोर का'}
+                        {t.bureau} ({summary?.report?.bureau})
                       </Typography>
                     </Box>
-                    <Typography variant="h6" fontWeight="bold">
-                      {factor.score}%
-                    </Typography>
-                  </Stack>
-                  <LinearProgress
-                    variant="determinate"
-                    value={factor.score}
-                    color={
-                      factor.status === 'good' ? 'success' : factor.status === 'fair' ? 'warning' : 'error'
-                    }
-                    sx={{ height: 8, borderRadius: 4 }}
-                  />
-                </CardContent>
-              </Card>
-            </Grid>
-          ))}
+                  )}
+                </Stack>
+                <Typography variant="caption" color="text.secondary" display="block" textAlign="center" sx={{ mt: 2 }}>
+                  300 + {estimate.factors.map(f => `${f.points}`).join(' + ')} = {creditScore}
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+
+          <Grid item xs={12} md={6}>
+            <Card sx={{ height: '100%' }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom fontWeight="bold">
+                  {t.history}
+                </Typography>
+                <ResponsiveContainer width="100%" height={280}>
+                  <AreaChart data={historyData}>
+                    <defs>
+                      <linearGradient id="colorScore" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor={category.color} stopOpacity={0.8} />
+                        <stop offset="95%" stopColor={category.color} stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="month" />
+                    <YAxis domain={[300, 900]} />
+                    <RechartsTooltip />
+                    <Area
+                      type="monotone"
+                      dataKey="score"
+                      name={t.estimated}
+                      stroke={category.color}
+                      fillOpacity={1}
+                      fill="url(#colorScore)"
+                    />
+                    <Area
+                      type="monotone"
+                      dataKey="bureau"
+                      name={t.bureau}
+                      stroke="#6b7280"
+                      fill="none"
+                      connectNulls
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </Grid>
         </Grid>
-      </Box>
 
-      {/* AI Recommendations */}
-      <Box>
-        <Typography variant="h4" gutterBottom fontWeight="bold" sx={{ mb: 3 }}>
-          <Lightbulb sx={{ verticalAlign: 'middle', mr: 1 }} />
-          {t.recommendations}
-        </Typography>
-        <Grid container spacing={3}>
-          {recommendations.map((rec, index) => (
-            <Grid item xs={12} md={6} key={index}>
-              <Card sx={{ height: '100%' }}>
-                <CardContent>
-                  <Stack direction="row" spacing={2} alignItems="flex-start">
-                    <Avatar sx={{ bgcolor: 'primary.main', width: 56, height: 56 }}>
-                      {rec.icon}
-                    </Avatar>
-                    <Box sx={{ flexGrow: 1 }}>
-                      <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
-                        <Chip
-                          label={rec.priority.toUpperCase()}
-                          color={getPriorityColor(rec.priority) as any}
-                          size="small"
-                        />
+        {/* Score Factors */}
+        <Box sx={{ mb: 4 }}>
+          <Typography variant="h4" gutterBottom fontWeight="bold" sx={{ mb: 3 }}>
+            <Assessment sx={{ verticalAlign: 'middle', mr: 1 }} />
+            {t.factors}
+          </Typography>
+          <Grid container spacing={2}>
+            {scoreFactors.map((factor, index) => (
+              <Grid item xs={12} md={6} key={index}>
+                <Card>
+                  <CardContent>
+                    <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+                      <Avatar
+                        sx={{
+                          bgcolor:
+                            factor.status === 'good'
+                              ? 'success.main'
+                              : factor.status === 'fair'
+                              ? 'warning.main'
+                              : 'error.main',
+                        }}
+                      >
+                        {factor.icon}
+                      </Avatar>
+                      <Box sx={{ flexGrow: 1 }}>
+                        <Typography variant="body1" fontWeight="bold">
+                          {factor.label}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {factor.weight}% {language === 'en' ? 'of score' : 'स्कोर का'} · {factor.points}{' '}
+                          {language === 'en' ? 'points' : 'अंक'}
+                        </Typography>
+                      </Box>
+                      <Typography variant="h6" fontWeight="bold">
+                        {factor.score}%
+                      </Typography>
+                    </Stack>
+                    <LinearProgress
+                      variant="determinate"
+                      value={factor.score}
+                      color={
+                        factor.status === 'good' ? 'success' : factor.status === 'fair' ? 'warning' : 'error'
+                      }
+                      sx={{ height: 8, borderRadius: 4 }}
+                    />
+                    <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                      {factor.detail}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+            ))}
+          </Grid>
+        </Box>
+
+        {/* AI Recommendations */}
+        <Box>
+          <Typography variant="h4" gutterBottom fontWeight="bold" sx={{ mb: 3 }}>
+            <Lightbulb sx={{ verticalAlign: 'middle', mr: 1 }} />
+            {t.recommendations}
+          </Typography>
+          <Grid container spacing={3}>
+            {recommendations.map((rec, index) => (
+              <Grid item xs={12} md={6} key={index}>
+                <Card sx={{ height: '100%' }}>
+                  <CardContent>
+                    <Stack direction="row" spacing={2} alignItems="flex-start">
+                      <Avatar sx={{ bgcolor: 'primary.main', width: 56, height: 56 }}>
+                        {rec.icon}
+                      </Avatar>
+                      <Box sx={{ flexGrow: 1 }}>
+                        <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
+                          <Chip
+                            label={rec.priority.toUpperCase()}
+                            color={getPriorityColor(rec.priority) as any}
+                            size="small"
+                          />
+                          <Chip
+                            label={rec.impact}
+                            color="success"
+                            size="small"
+                            variant="outlined"
+                          />
+                        </Stack>
+                        <Typography variant="h6" fontWeight="bold" gutterBottom>
+                          {rec.title}
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary" paragraph>
+                          {rec.description}
+                        </Typography>
+                        <Button variant="outlined" size="small">
+                          {language === 'en' ? 'Learn More' : 'और जानें'}
+                        </Button>
+                      </Box>
+                    </Stack>
+                  </CardContent>
+                </Card>
+              </Grid>
+            ))}
+          </Grid>
+        </Box>
+
+        {/* Accounts & Enquiries */}
+        <Card sx={{ mt: 4 }}>
+          <CardContent>
+            <Typography variant="h6" gutterBottom fontWeight="bold">
+              {t.accounts}
+            </Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{language === 'en' ? 'Lender' : 'ऋणदाता'}</TableCell>
+                    <TableCell>{language === 'en' ? 'Type' : 'प्रकार'}</TableCell>
+                    <TableCell align="right">{language === 'en' ? 'Balance' : 'शेष'}</TableCell>
+                    <TableCell align="right">{language === 'en' ? 'Limit / Sanctioned' : 'सीमा / स्वीकृत'}</TableCell>
+                    <TableCell align="right">{language === 'en' ? 'Late Payments' : 'देर से भुगतान'}</TableCell>
+                    <TableCell>{language === 'en' ? 'Status' : 'स्थिति'}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {summary?.report?.accounts.map(account => (
+                    <TableRow key={account.id}>
+                      <TableCell>{account.lender}</TableCell>
+                      <TableCell>{account.type.replace(/_/g, ' ')}</TableCell>
+                      <TableCell align="right">₹{account.currentBalance.toLocaleString('en-IN')}</TableCell>
+                      <TableCell align="right">
+                        ₹{(account.creditLimit ?? account.sanctionedAmount).toLocaleString('en-IN')}
+                      </TableCell>
+                      <TableCell align="right">{account.payments.filter(p => p.daysPastDue > 0).length}</TableCell>
+                      <TableCell>
                         <Chip
-                          label={rec.impact}
-                          color="success"
+                          label={account.status.replace(/_/g, ' ')}
                           size="small"
-                          variant="outlined"
+                          color={account.status === 'active' ? 'success' : account.status === 'closed' ? 'default' : 'error'}
                         />
-                      </Stack>
-                      <Typography variant="h6" fontWeight="bold" gutterBottom>
-                        {rec.title}
-                      </Typography>
-                      <Typography variant="body2" color="text.secondary" paragraph>
-                        {rec.description}
-                      </Typography>
-                      <Button variant="outlined" size="small">
-                        {language === 'en' ? 'Learn More' : 'और जानें'}
-                      </Button>
-                    </Box>
-                  </Stack>
-                </CardContent>
-              </Card>
-            </Grid>
-          ))}
-        </Grid>
-      </Box>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              {language === 'en' ? 'Enquiries' : 'पूछताछ'}:{' '}
+              {summary?.report?.enquiries.length
+                ? summary.report.enquiries
+                    .map(e => `${e.lender} (${e.purpose}, ${e.date.toLocaleDateString('en-IN', { month: 'short', year: 'numeric' })})`)
+                    .join(' · ')
+                : '—'}
+            </Typography>
+          </CardContent>
+        </Card>
+
+        {/* What-if Simulator */}
+        {cards.length > 0 && (
+          <Card sx={{ mt: 4 }}>
+            <CardContent>
+              <Typography variant="h6" gutterBottom fontWeight="bold">
+                {t.whatIf}
+              </Typography>
+              <Grid container spacing={2} alignItems="center">
+                <Grid item xs={12} md={5}>
+                  <FormControl fullWidth size="small">
+                    <InputLabel>{language === 'en' ? 'Card' : 'कार्ड'}</InputLabel>
+                    <Select
+                      value={whatIf.accountId}
+                      label={language === 'en' ? 'Card' : 'कार्ड'}
+                      onChange={(e) => setWhatIf({ ...whatIf, accountId: e.target.value })}
+                    >
+                      {cards.map(card => (
+                        <MenuItem key={card.id} value={card.id}>
+                          {card.lender} · {Math.round((card.currentBalance / (card.creditLimit ?? 1)) * 100)}%
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Grid>
+                <Grid item xs={12} md={4}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label={language === 'en' ? 'Pay down to utilization (%)' : 'उपयोग तक भुगतान करें (%)'}
+                    type="number"
+                    value={whatIf.percent}
+                    onChange={(e) => setWhatIf({ ...whatIf, percent: e.target.value })}
+                  />
+                </Grid>
+                <Grid item xs={12} md={3}>
+                  <Button fullWidth variant="outlined" disabled={!whatIf.accountId} onClick={handleSimulate}>
+                    {language === 'en' ? 'Simulate' : 'सिम्युलेट करें'}
+                  </Button>
+                </Grid>
+              </Grid>
+              {whatIfResult && (
+                <Alert severity={whatIfResult.change >= 0 ? 'success' : 'warning'} sx={{ mt: 2 }}>
+                  {whatIfResult.label}: {whatIfResult.before} → {whatIfResult.after} (
+                  {whatIfResult.change >= 0 ? '+' : ''}
+                  {whatIfResult.change}). {language === 'en' ? 'Payment needed' : 'आवश्यक भुगतान'}: ₹
+                  {whatIfResult.paymentRequired.toLocaleString('en-IN')}
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
+        )}
+        </>
+      )}
 
       {/* Credit Report Notice */}
       <Alert severity="info" sx={{ mt: 4 }}>
@@ -407,44 +609,75 @@ const CreditScoreMonitor: React.FC = () => {
       </Alert>
 
       {/* Score Improvement Timeline */}
-      <Card sx={{ mt: 4 }}>
-        <CardContent>
-          <Typography variant="h6" gutterBottom fontWeight="bold">
-            {language === 'en' ? '⏱️ Expected Score Improvement Timeline' : '⏱️ अपेक्षित स्कोर सुधार समयरेखा'}
+      {timeline.length > 0 && (
+        <Card sx={{ mt: 4 }}>
+          <CardContent>
+            <Typography variant="h6" gutterBottom fontWeight="bold">
+              {language === 'en' ? '⏱️ Expected Score Improvement Timeline' : '⏱️ अपेक्षित स्कोर सुधार समयरेखा'}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {language === 'en'
+                ? 'Estimated score if every active account is paid on time, from your imported report'
+                : 'यदि हर सक्रिय खाते का भुगतान समय पर हो, तो आपकी आयातित रिपोर्ट से अनुमानित स्कोर'}
+            </Typography>
+            <List>
+              {timeline.map((point, index) => (
+                <React.Fragment key={point.months}>
+                  {index > 0 && <Divider />}
+                  <ListItem>
+                    <ListItemIcon>
+                      <CheckCircle color={point.change > 0 ? 'success' : 'disabled'} />
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={language === 'en'
+                        ? `${point.months} ${point.months === 1 ? 'Month' : 'Months'}`
+                        : `${point.months} ${point.months === 1 ? 'महीना' : 'महीने'}`}
+                      secondary={`${point.score} (${point.change >= 0 ? '+' : ''}${point.change} ${language === 'en' ? 'points' : 'अंक'})`}
+                    />
+                  </ListItem>
+                </React.Fragment>
+              ))}
+            </List>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Import Credit Report Dialog */}
+      <Dialog open={importOpen} onClose={() => setImportOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>{t.importReport}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {t.noReport}
           </Typography>
-          <List>
-            <ListItem>
-              <ListItemIcon>
-                <CheckCircle color="success" />
-              </ListItemIcon>
-              <ListItemText
-                primary={language === 'en' ? '1 Month' : '1 महीना'}
-                secondary={language === 'en' ? 'Reduce credit utilization: +10-15 points' : 'क्रेडिट उपयोग कम करें: +10-15 अंक'}
-              />
-            </ListItem>
-            <Divider />
-            <ListItem>
-              <ListItemIcon>
-                <CheckCircle color="success" />
-              </ListItemIcon>
-              <ListItemText
-                primary={language === 'en' ? '3 Months' : '3 महीने'}
-                secondary={language === 'en' ? 'Consistent payments: +20-30 points' : 'लगातार भुगतान: +20-30 अंक'}
-              />
-            </ListItem>
-            <Divider />
-            <ListItem>
-              <ListItemIcon>
-                <CheckCircle color="success" />
-              </ListItemIcon>
-              <ListItemText
-                primary={language === 'en' ? '6 Months' : '6 महीने'}
-                secondary={language === 'en' ? 'All recommendations: +40-50 points' : 'सभी सिफारिशें: +40-50 अंक'}
-              />
-            </ListItem>
-          </List>
-        </CardContent>
-      </Card>
+          <input ref={fileInputRef} type="file" accept=".json,.txt" hidden onChange={handleFileSelected} />
+          <Button variant="outlined" startIcon={<UploadFile />} sx={{ mb: 2 }} onClick={() => fileInputRef.current?.click()}>
+            {language === 'en' ? 'Choose File' : 'फ़ाइल चुनें'}
+          </Button>
+          <TextField
+            fullWidth
+            multiline
+            minRows={8}
+            maxRows={16}
+            placeholder={'CIBIL TRANSUNION SCORE: 742\nDATE: 15-09-2026\n\nACCOUNT\nMEMBER NAME: HDFC BANK\nACCOUNT TYPE: CREDIT CARD\n...'}
+            value={reportText}
+            onChange={(e) => {
+              setReportText(e.target.value);
+              setImportError(null);
+            }}
+          />
+          {importError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {importError}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setImportOpen(false)}>{language === 'en' ? 'Cancel' : 'रद्द करें'}</Button>
+          <Button variant="contained" disabled={!reportText.trim()} onClick={handleImport}>
+            {language === 'en' ? 'Import' : 'आयात करें'}
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Container>
   );
 };
@@ -48,11 +48,21 @@ import {
   Info as InfoIcon,
   TrendingUp as TrendingUpIcon,
   SmartToy as BotIcon,
+  Replay as ReplayIcon,
+  Check as CheckIcon,
+  Close as CloseIcon,
+  Science as ScienceIcon,
+  Pause as PauseIcon,
 } from '@mui/icons-material';
 import { dynamicAgentFactory, DYNAMIC_AGENT_TEMPLATES } from '../services/dynamicAgents';
-import type { AgentTemplate, CustomAgent } from '../services/customAgentBuilder';
+import { customAgentBuilder } from '../services/customAgentBuilder';
+import type { AgentTemplate, CustomAgent, DeadLetterEntry, PendingTransfer } from '../services/customAgentBuilder';
 import { getUserAgents, activateAgent, deactivateAgent, deleteAgent, type Agent } from '../services/agentMarketplace';
+import { agentSimulator } from '../services/agentSimulator';
+import type { SimulationSummary } from '../services/agentSimulator';
+import { stepUpAuthService } from '../services/stepUpAuthService';
 import { useAppStore } from '../store/useAppStore';
+import StepUpDialog from './StepUpDialog';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -80,6 +90,13 @@ export const DynamicAgentsHub: React.FC = () => {
   const [activeTab, setActiveTab] = useState(0);
   const [searchQuery, setSearchQuery] = useState('');
   const [myAgents, setMyAgents] = useState<Agent[]>([]);
+  const [customAgents, setCustomAgents] = useState<CustomAgent[]>([]);
+  const [dryRunAgent, setDryRunAgent] = useState<CustomAgent | null>(null);
+  const [deadLetters, setDeadLetters] = useState<DeadLetterEntry[]>([]);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [pendingTransfers, setPendingTransfers] = useState<PendingTransfer[]>([]);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [stepUpTransfer, setStepUpTransfer] = useState<PendingTransfer | null>(null);
   const [selectedTemplate, setSelectedTemplate] = useState<AgentTemplate | null>(null);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -98,6 +115,9 @@ export const DynamicAgentsHub: React.FC = () => {
     try {
       const agents = await getUserAgents(user.id);
       setMyAgents(agents);
+      setCustomAgents(await customAgentBuilder.getAllAgents(user.id));
+      setDeadLetters(await customAgentBuilder.getDeadLetters(user.id));
+      setPendingTransfers(await customAgentBuilder.getPendingTransfers(user.id));
       console.log('✅ Loaded agents:', agents);
     } catch (error) {
       console.error('Error loading agents:', error);
@@ -128,6 +148,13 @@ export const DynamicAgentsHub: React.FC = () => {
     }
   };
 
+  const handlePauseCustomAgent = async (agentId: string) => {
+    if (!user) return;
+
+    await customAgentBuilder.disableAgent(agentId);
+    setCustomAgents(await customAgentBuilder.getAllAgents(user.id));
+  };
+
   const handleDeleteAgent = async (agentId: string) => {
     if (!user) return;
     
@@ -143,6 +170,65 @@ export const DynamicAgentsHub: React.FC = () => {
     }
   };
 
+  const handleRetryDeadLetter = async (entryId: string) => {
+    if (!user) return;
+
+    setRetryingId(entryId);
+    try {
+      const execution = await customAgentBuilder.retryDeadLetter(user.id, entryId);
+      if (execution.status === 'pending_confirmation') {
+        setPendingTransfers(await customAgentBuilder.getPendingTransfers(user.id));
+        alert('The transfer is now waiting for your confirmation.');
+      } else if (execution.status !== 'success') {
+        alert(`Action failed again: ${execution.actionsExecuted[0]?.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error re-running action:', error);
+      alert('Failed to re-run action. Please try again.');
+    } finally {
+      setRetryingId(null);
+      setDeadLetters(await customAgentBuilder.getDeadLetters(user.id));
+    }
+  };
+
+  const handleResolveTransfer = async (transfer: PendingTransfer, approve: boolean) => {
+    if (!user) return;
+
+    // High-value transfers need step-up verification before approval
+    if (approve && stepUpAuthService.isHighValue(transfer.amount) && !stepUpAuthService.hasRecentVerification(user.id)) {
+      setStepUpTransfer(transfer);
+      return;
+    }
+
+    setResolvingId(transfer.id);
+    try {
+      if (approve) {
+        await customAgentBuilder.approvePendingTransfer(user.id, transfer.id);
+      } else {
+        await customAgentBuilder.rejectPendingTransfer(user.id, transfer.id);
+      }
+    } catch (error) {
+      console.error('Error resolving transfer:', error);
+      alert(error instanceof Error ? error.message : 'Failed to resolve transfer. Please try again.');
+    } finally {
+      setResolvingId(null);
+      setPendingTransfers(await customAgentBuilder.getPendingTransfers(user.id));
+      setDeadLetters(await customAgentBuilder.getDeadLetters(user.id));
+    }
+  };
+
+  const formatExpiry = (expiresAt: Date) => {
+    const minutes = Math.max(0, Math.round((new Date(expiresAt).getTime() - Date.now()) / 60000));
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m left` : `${minutes}m left`;
+  };
+
+  const handleDiscardDeadLetter = async (entryId: string) => {
+    if (!user) return;
+
+    await customAgentBuilder.discardDeadLetter(user.id, entryId);
+    setDeadLetters(await customAgentBuilder.getDeadLetters(user.id));
+  };
+
   const filteredTemplates = DYNAMIC_AGENT_TEMPLATES.filter(template =>
     template.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     template.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -185,6 +271,136 @@ export const DynamicAgentsHub: React.FC = () => {
 
       {/* Tab 1: My Agents */}
       <TabPanel value={activeTab} index={0}>
+        {/* Transfers awaiting confirmation */}
+        {pendingTransfers.length > 0 && (
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <Alert severity="info" sx={{ mb: 1 }}>
+              {pendingTransfers.length} agent transfer{pendingTransfers.length > 1 ? 's' : ''} awaiting your confirmation
+            </Alert>
+            <List dense>
+              {pendingTransfers.map((transfer) => (
+                <ListItem
+                  key={transfer.id}
+                  secondaryAction={
+                    <Box sx={{ display: 'flex', gap: 1 }}>
+                      <Button
+                        size="small"
+                        variant="contained"
+                        color="success"
+                        startIcon={<CheckIcon />}
+                        disabled={resolvingId === transfer.id}
+                        onClick={() => handleResolveTransfer(transfer, true)}
+                      >
+                        Approve
+                      </Button>
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        color="error"
+                        startIcon={<CloseIcon />}
+                        disabled={resolvingId === transfer.id}
+                        onClick={() => handleResolveTransfer(transfer, false)}
+                      >
+                        Reject
+                      </Button>
+                    </Box>
+                  }
+                >
+                  <ListItemText
+                    primary={`${transfer.agentName}: ₹${transfer.amount.toLocaleString('en-IN')} from ${transfer.from} to ${transfer.to}`}
+                    secondary={`${transfer.memo || 'Agent transfer'} · ${formatExpiry(transfer.expiresAt)}${transfer.remainingActions.length > 0 ? ` · ${transfer.remainingActions.length} action(s) waiting` : ''}`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+            {resolvingId && <LinearProgress />}
+          </Paper>
+        )}
+
+        {/* Failed actions (dead-letter list) */}
+        {deadLetters.length > 0 && (
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <Alert severity="warning" sx={{ mb: 1 }}>
+              {deadLetters.length} agent action{deadLetters.length > 1 ? 's' : ''} failed after all retries
+            </Alert>
+            <List dense>
+              {deadLetters.map((entry) => (
+                <ListItem
+                  key={entry.id}
+                  secondaryAction={
+                    <Box sx={{ display: 'flex', gap: 1 }}>
+                      <Tooltip title="Re-run action">
+                        <span>
+                          <IconButton
+                            size="small"
+                            disabled={retryingId === entry.id}
+                            onClick={() => handleRetryDeadLetter(entry.id)}
+                          >
+                            <ReplayIcon />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title="Discard">
+                        <IconButton size="small" onClick={() => handleDiscardDeadLetter(entry.id)}>
+                          <DeleteIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </Box>
+                  }
+                >
+                  <ListItemText
+                    primary={`${entry.agentName}: ${entry.action.type} (${entry.action.id})`}
+                    secondary={`${entry.lastError} · ${entry.attempts} attempt${entry.attempts > 1 ? 's' : ''} · ${new Date(entry.failedAt).toLocaleString()}`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+            {retryingId && <LinearProgress />}
+          </Paper>
+        )}
+
+        {/* Custom agents are dry-run before they can be activated */}
+        {customAgents.length > 0 && (
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              Custom Agents
+            </Typography>
+            <List dense>
+              {customAgents.map((agent) => (
+                <ListItem
+                  key={agent.id}
+                  secondaryAction={
+                    agent.status === 'active' ? (
+                      <Button size="small" startIcon={<PauseIcon />} onClick={() => handlePauseCustomAgent(agent.id)}>
+                        Pause
+                      </Button>
+                    ) : (
+                      <Button size="small" startIcon={<ScienceIcon />} onClick={() => setDryRunAgent(agent)}>
+                        Dry Run & Activate
+                      </Button>
+                    )
+                  }
+                >
+                  <ListItemIcon>
+                    <Typography variant="h6">{agent.icon}</Typography>
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={agent.name}
+                    secondary={
+                      <Chip
+                        label={agent.status}
+                        size="small"
+                        color={agent.status === 'active' ? 'success' : 'default'}
+                        component="span"
+                      />
+                    }
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </Paper>
+        )}
+
         {loading ? (
           <LinearProgress />
         ) : myAgents.length === 0 ? (
@@ -435,11 +651,37 @@ export const DynamicAgentsHub: React.FC = () => {
             setShowCreateDialog(false);
             setSelectedTemplate(null);
           }}
-          onSuccess={async () => {
+          onSuccess={async (agent) => {
             setShowCreateDialog(false);
             setSelectedTemplate(null);
             await loadMyAgents();
             setActiveTab(0); // Switch to My Agents tab
+            setDryRunAgent(agent); // New agents start as drafts; offer a dry run before activating
+          }}
+        />
+      )}
+
+      {dryRunAgent && (
+        <AgentDryRunDialog
+          agent={dryRunAgent}
+          onClose={() => setDryRunAgent(null)}
+          onActivated={async () => {
+            setDryRunAgent(null);
+            await loadMyAgents();
+          }}
+        />
+      )}
+
+      {user && stepUpTransfer && (
+        <StepUpDialog
+          open
+          userId={user.id}
+          purpose={`approve a ₹${stepUpTransfer.amount.toLocaleString('en-IN')} transfer`}
+          onClose={() => setStepUpTransfer(null)}
+          onVerified={() => {
+            const transfer = stepUpTransfer;
+            setStepUpTransfer(null);
+            handleResolveTransfer(transfer, true);
           }}
         />
       )}
@@ -453,7 +695,7 @@ interface CreateAgentDialogProps {
   template: AgentTemplate;
   open: boolean;
   onClose: () => void;
-  onSuccess: () => void;
+  onSuccess: (agent: CustomAgent) => void;
 }
 
 const CreateAgentDialog: React.FC<CreateAgentDialogProps> = ({
@@ -535,7 +777,7 @@ const CreateAgentDialog: React.FC<CreateAgentDialogProps> = ({
       }
 
       console.log('✅ Agent created successfully:', customAgent.id);
-      onSuccess();
+      onSuccess(customAgent);
     } catch (err) {
       console.error('Error creating agent:', err);
       setError(err instanceof Error ? err.message : 'Failed to create agent');
@@ -597,4 +839,128 @@ const CreateAgentDialog: React.FC<CreateAgentDialogProps> = ({
   );
 };
 
+// ==================== DRY RUN DIALOG ====================
+
+interface AgentDryRunDialogProps {
+  agent: CustomAgent;
+  onClose: () => void;
+  onActivated: () => void;
+}
+
+const DRY_RUN_MONTHS = 3;
+
+/**
+ * Replays a custom agent against recent history and only then offers activation
+ */
+const AgentDryRunDialog: React.FC<AgentDryRunDialogProps> = ({ agent, onClose, onActivated }) => {
+  const [summary, setSummary] = useState<SimulationSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activating, setActivating] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    agentSimulator
+      .simulate(agent.id, { months: DRY_RUN_MONTHS })
+      .then(result => {
+        if (!cancelled) setSummary(result.summary);
+      })
+      .catch(err => {
+        console.error('Error simulating agent:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Dry run failed');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [agent.id]);
+
+  const handleActivate = async () => {
+    setActivating(true);
+    try {
+      await customAgentBuilder.enableAgent(agent.id);
+      onActivated();
+    } catch (err) {
+      console.error('Error activating agent:', err);
+      setError(err instanceof Error ? err.message : 'Failed to activate agent');
+    } finally {
+      setActivating(false);
+    }
+  };
+
+  const rows: Array<[string, string | number]> = summary
+    ? [
+        ['Trigger firings', summary.triggerFirings],
+        ['Times actions would run', summary.timesFired],
+        ['Conditions not met', summary.conditionsNotMet],
+        ['Transfers', summary.transferCount],
+        ['Transfer volume', `₹${summary.transferVolume.toLocaleString('en-IN')}`],
+        ['Transfers needing confirmation', summary.pendingConfirmations],
+        ['Actions that would fail', summary.failedActions],
+      ]
+    : [];
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {agent.icon} Dry Run: {agent.name}
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          What this agent would have done over the last {DRY_RUN_MONTHS} months. Nothing is transferred or sent.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!summary && !error && <LinearProgress />}
+
+        {summary && (
+          <>
+            <List dense>
+              {rows.map(([label, value]) => (
+                <ListItem key={label} secondaryAction={<Typography variant="body2"><strong>{value}</strong></Typography>}>
+                  <ListItemText primary={label} />
+                </ListItem>
+              ))}
+            </List>
+
+            {summary.limitHits.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 1 }}>
+                {summary.limitHits.length} transfer(s) would exceed the ₹{summary.limitHits[0].limit.toLocaleString('en-IN')} transaction limit
+              </Alert>
+            )}
+            {summary.unsupportedTriggers.length > 0 && (
+              <Alert severity="info" sx={{ mt: 1 }}>
+                No history to replay for: {summary.unsupportedTriggers.join(', ')}
+              </Alert>
+            )}
+            {summary.truncated && (
+              <Alert severity="info" sx={{ mt: 1 }}>
+                Replay stopped early; the agent fires more often than the simulation covers.
+              </Alert>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={activating}>
+          Keep as {agent.status}
+        </Button>
+        <Button
+          onClick={handleActivate}
+          variant="contained"
+          disabled={!summary || activating}
+          startIcon={<CheckIcon />}
+        >
+          {activating ? 'Activating...' : 'Activate Agent'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
 export default DynamicAgentsHub;
@@ -66,6 +66,7 @@ import {
   Savings,
   ShowChart,
   AttachMoney,
+  Security,
 } from '@mui/icons-material';
 import { useAppStore } from '../store/useAppStore';
 import {
@@ -78,6 +79,7 @@ import {
   type FuturePlan,
   type ActiveAgent,
 } from '../services/profileService';
+import TwoFactorSettings from './TwoFactorSettings';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -415,6 +417,7 @@ const EnhancedProfile: React.FC = () => {
           <Tab label="Tax History" icon={<Receipt />} iconPosition="start" />
           <Tab label="Future Plans" icon={<CalendarMonth />} iconPosition="start" />
           <Tab label="AI Agents" icon={<SmartToy />} iconPosition="start" />
+          <Tab label="Security" icon={<Security />} iconPosition="start" />
         </Tabs>
 
         {/* Tab 1: Portfolio & Investments */}
@@ -760,6 +763,11 @@ const EnhancedProfile: React.FC = () => {
             </Grid>
           )}
         </TabPanel>
+
+        {/* Tab 5: Security */}
+        <TabPanel value={activeTab} index={4}>
+          <TwoFactorSettings />
+        </TabPanel>
       </Paper>
 
       {/* Add Investment Dialog */}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import {
   Box,
   Container,
@@ -19,6 +19,17 @@ import {
   MenuItem,
   IconButton,
   Tooltip,
+  Paper,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
 } from '@mui/material';
 import Grid from '@mui/material/Grid2';
 import {
@@ -33,7 +44,33 @@ import {
   School,
   BeachAccess,
   Celebration,
+  CreditCard,
+  ArrowUpward,
+  ArrowDownward,
+  ExpandMore,
+  SwapHoriz,
 } from '@mui/icons-material';
+import { useAppStore } from '../store/useAppStore';
+import { userProfileService } from '../services/userProfileService';
+import {
+  debtPayoffPlanner,
+  comparePayoffStrategies,
+  buildDebtFreeGoal,
+  orderDebts,
+  cardMinimumPayment,
+  type PayoffComparison,
+  type PayoffSettings,
+  type PayoffStrategy,
+} from '../services/debtPayoffPlanner';
+import { refinanceAnalyzer, type RefinanceAnalysis } from '../services/refinanceAnalyzer';
+import {
+  loanEligibilityEngine,
+  checkAffordability,
+  checkTopUpAffordability,
+  type AffordabilityCheck,
+  type EligibilityReport,
+} from '../services/loanEligibility';
+import type { OfferLoanType } from '../config/lenderOffers';
 
 interface FinancialGoal {
   id: string;
@@ -42,7 +79,7 @@ interface FinancialGoal {
   targetAmount: number;
   currentAmount: number;
   deadline: string;
-  category: 'retirement' | 'house' | 'car' | 'education' | 'vacation' | 'wedding' | 'emergency' | 'other';
+  category: 'retirement' | 'house' | 'car' | 'education' | 'vacation' | 'wedding' | 'emergency' | 'debt' | 'other';
   priority: 'high' | 'medium' | 'low';
   monthlyContribution: number;
 }
@@ -96,6 +133,132 @@ const FinancialGoals: React.FC = () => {
   ]);
 
   const [addDialogOpen, setAddDialogOpen] = useState(false);
+  const { user } = useAppStore();
+  const [payoff, setPayoff] = useState<PayoffComparison | null>(null);
+  const [cardDialogOpen, setCardDialogOpen] = useState(false);
+  const [cardForm, setCardForm] = useState({ issuer: '', outstanding: '', annualRate: '42', minimumPayment: '' });
+  const [refinance, setRefinance] = useState<RefinanceAnalysis | null>(null);
+  const [topUpAmount, setTopUpAmount] = useState('');
+  const [topUpCheck, setTopUpCheck] = useState<AffordabilityCheck | null>(null);
+  const [eligibility, setEligibility] = useState<EligibilityReport | null>(null);
+  const [eligibilityForm, setEligibilityForm] = useState({ loanType: 'Home Loan' as OfferLoanType, amount: '', tenure: '' });
+  const [amountCheck, setAmountCheck] = useState<AffordabilityCheck | null>(null);
+
+  const loadEligibility = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setEligibility(await loanEligibilityEngine.getReport(user.id));
+    } catch (error) {
+      console.error('Error assessing loan eligibility:', error);
+    }
+  }, [user]);
+
+  const loadDebtPayoff = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setPayoff(await debtPayoffPlanner.getPlan(user.id));
+    } catch (error) {
+      console.error('Error planning debt payoff:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadDebtPayoff();
+    loadEligibility();
+  }, [loadDebtPayoff, loadEligibility]);
+
+  const handleCheckAmount = () => {
+    if (!eligibility) return;
+
+    const tenure = parseInt(eligibilityForm.tenure) || undefined;
+    setAmountCheck(
+      checkAffordability(eligibility, eligibilityForm.loanType, parseFloat(eligibilityForm.amount) || 0, tenure)
+    );
+  };
+
+  const updatePayoffSettings = (changes: Partial<PayoffSettings>) => {
+    if (!user || !payoff) return;
+
+    const settings = { ...payoff.settings, ...changes };
+    debtPayoffPlanner.saveSettings(user.id, settings);
+    setPayoff(comparePayoffStrategies(payoff.debts, settings));
+  };
+
+  const moveDebt = (debtId: string, direction: -1 | 1) => {
+    if (!payoff) return;
+
+    const order = orderDebts(payoff.debts, 'custom', payoff.settings.customOrder).map(d => d.id);
+    const index = order.indexOf(debtId);
+    const target = index + direction;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    updatePayoffSettings({ strategy: 'custom', customOrder: order });
+  };
+
+  const openRefinance = async (loanId: string, topUp = 0) => {
+    if (!user) return;
+
+    try {
+      setRefinance(await refinanceAnalyzer.analyzeLoan(user.id, loanId, { topUpAmount: topUp }));
+    } catch (error) {
+      console.error('Error comparing refinance offers:', error);
+      alert('Failed to compare refinance offers');
+    }
+  };
+
+  const quoteTopUp = async () => {
+    if (!refinance) return;
+
+    const amount = Math.max(0, parseFloat(topUpAmount) || 0);
+    const check = eligibility && amount > 0
+      ? checkTopUpAffordability(eligibility, amount, refinance.remainingMonths)
+      : null;
+    setTopUpCheck(check);
+    await openRefinance(refinance.loanId, check && !check.feasible ? 0 : amount);
+  };
+
+  const closeRefinance = () => {
+    setRefinance(null);
+    setTopUpAmount('');
+    setTopUpCheck(null);
+  };
+
+  const handleAddCreditCard = async () => {
+    if (!user) return;
+
+    const outstanding = parseFloat(cardForm.outstanding);
+    if (!cardForm.issuer || !outstanding || outstanding <= 0) {
+      alert('Please enter the card name and outstanding balance');
+      return;
+    }
+
+    try {
+      const profile = await userProfileService.getProfile(user.id);
+      await userProfileService.updateCreditCards(user.id, [
+        ...(profile?.creditCards ?? []),
+        {
+          id: Date.now().toString(),
+          issuer: cardForm.issuer,
+          outstanding,
+          annualRate: parseFloat(cardForm.annualRate) || 42,
+          minimumPayment: parseFloat(cardForm.minimumPayment) || cardMinimumPayment(outstanding),
+        },
+      ]);
+      setCardDialogOpen(false);
+      setCardForm({ issuer: '', outstanding: '', annualRate: '42', minimumPayment: '' });
+      await loadDebtPayoff();
+      await loadEligibility();
+    } catch (error) {
+      console.error('Error adding credit card:', error);
+      alert('Failed to add credit card');
+    }
+  };
+
+  const debtFreeGoal = payoff ? buildDebtFreeGoal(payoff) : null;
+  const allGoals: FinancialGoal[] = debtFreeGoal ? [debtFreeGoal, ...goals] : goals;
+  const debtNames = new Map(payoff?.debts.map(d => [d.id, d.name]) ?? []);
 
   const getGoalIcon = (category: string) => {
     switch (category) {
@@ -111,6 +274,8 @@ const FinancialGoals: React.FC = () => {
         return <Celebration />;
       case 'retirement':
         return <TrendingUp />;
+      case 'debt':
+        return <CreditCard />;
       default:
         return <Flag />;
     }
@@ -144,10 +309,10 @@ const FinancialGoals: React.FC = () => {
     return Math.ceil(remaining / monthly);
   };
 
-  const totalTargetAmount = goals.reduce((sum, goal) => sum + goal.targetAmount, 0);
-  const totalCurrentAmount = goals.reduce((sum, goal) => sum + goal.currentAmount, 0);
+  const totalTargetAmount = allGoals.reduce((sum, goal) => sum + goal.targetAmount, 0);
+  const totalCurrentAmount = allGoals.reduce((sum, goal) => sum + goal.currentAmount, 0);
   const totalProgress = (totalCurrentAmount / totalTargetAmount) * 100;
-  const completedGoals = goals.filter((g) => calculateProgress(g.currentAmount, g.targetAmount) >= 100).length;
+  const completedGoals = allGoals.filter((g) => calculateProgress(g.currentAmount, g.targetAmount) >= 100).length;
 
   return (
     <Container maxWidth="xl" sx={{ py: 4 }}>
@@ -180,7 +345,7 @@ const FinancialGoals: React.FC = () => {
                 Active Goals
               </Typography>
               <Typography variant="h3" fontWeight="bold" color="primary">
-                {goals.length}
+                {allGoals.length}
               </Typography>
               <Typography variant="caption" color="text.secondary">
                 {completedGoals} completed
@@ -235,9 +400,303 @@ const FinancialGoals: React.FC = () => {
         </Grid>
       </Grid>
 
+      {/* Debt Payoff Planner */}
+      {payoff && (
+        <Paper elevation={3} sx={{ p: 3, mb: 4 }}>
+          <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+            <Box>
+              <Typography variant="h6" fontWeight="bold">
+                Debt Payoff Planner
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Minimums on every debt, with the extra budget and freed-up EMIs going to one debt at a time
+              </Typography>
+            </Box>
+            <Button variant="outlined" startIcon={<CreditCard />} onClick={() => setCardDialogOpen(true)}>
+              Add Credit Card
+            </Button>
+          </Box>
+
+          {payoff.debts.length === 0 ? (
+            <Alert severity="success">No loans or card balances to pay off.</Alert>
+          ) : (
+            <>
+              <Grid container spacing={2} sx={{ mb: 2 }}>
+                <Grid size={{ xs: 12, md: 4 }}>
+                  <FormControl fullWidth size="small">
+                    <InputLabel>Strategy</InputLabel>
+                    <Select
+                      value={payoff.settings.strategy}
+                      label="Strategy"
+                      onChange={(e) => updatePayoffSettings({ strategy: e.target.value as PayoffStrategy })}
+                    >
+                      <MenuItem value="avalanche">Avalanche (highest rate first)</MenuItem>
+                      <MenuItem value="snowball">Snowball (smallest balance first)</MenuItem>
+                      <MenuItem value="custom">Custom order</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Grid>
+                <Grid size={{ xs: 12, md: 4 }}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label="Extra payment per month (₹)"
+                    type="number"
+                    value={payoff.settings.extraPayment || ''}
+                    onChange={(e) => updatePayoffSettings({ extraPayment: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, md: 4 }}>
+                  <Typography variant="body2" color="text.secondary">
+                    Monthly budget ₹{payoff.selected.monthlyBudget.toLocaleString('en-IN')} · Debt-free by{' '}
+                    {payoff.selected.debtFreeDate.toLocaleDateString('en-IN', { month: 'short', year: 'numeric' })}
+                  </Typography>
+                </Grid>
+              </Grid>
+
+              <TableContainer sx={{ mb: 2 }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Plan</TableCell>
+                      <TableCell align="right">Total Interest</TableCell>
+                      <TableCell align="right">Debt-Free By</TableCell>
+                      <TableCell align="right">Interest Saved</TableCell>
+                      <TableCell align="right">Months Saved</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {[
+                      { name: 'Minimums only', plan: payoff.minimumOnly },
+                      { name: 'Avalanche', plan: payoff.avalanche },
+                      { name: 'Snowball', plan: payoff.snowball },
+                      { name: 'Custom order', plan: payoff.custom },
+                    ].map(({ name, plan }) => (
+                      <TableRow key={name} selected={plan === payoff.selected}>
+                        <TableCell>{name}</TableCell>
+                        <TableCell align="right">₹{plan.totalInterest.toLocaleString('en-IN')}</TableCell>
+                        <TableCell align="right">
+                          {plan.debtFreeDate.toLocaleDateString('en-IN', { month: 'short', year: 'numeric' })}
+                        </TableCell>
+                        <TableCell align="right">₹{plan.interestSaved.toLocaleString('en-IN')}</TableCell>
+                        <TableCell align="right">{plan.monthsSaved}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+
+              <TableContainer sx={{ mb: 2 }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Payoff Order</TableCell>
+                      <TableCell align="right">Balance</TableCell>
+                      <TableCell align="right">Rate</TableCell>
+                      <TableCell align="right">Minimum</TableCell>
+                      <TableCell align="right">Paid Off</TableCell>
+                      <TableCell align="right">Interest</TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {payoff.selected.order.map((debtId, index) => {
+                      const debt = payoff.debts.find(d => d.id === debtId);
+                      const result = payoff.selected.debts.find(d => d.debtId === debtId);
+                      if (!debt || !result) return null;
+                      return (
+                        <TableRow key={debtId}>
+                          <TableCell>{debt.name}</TableCell>
+                          <TableCell align="right">₹{Math.round(debt.balance).toLocaleString('en-IN')}</TableCell>
+                          <TableCell align="right">{debt.annualRate}%</TableCell>
+                          <TableCell align="right">₹{debt.minimumPayment.toLocaleString('en-IN')}</TableCell>
+                          <TableCell align="right">
+                            {result.payoffDate.toLocaleDateString('en-IN', { month: 'short', year: 'numeric' })}
+                          </TableCell>
+                          <TableCell align="right">₹{result.interestPaid.toLocaleString('en-IN')}</TableCell>
+                          <TableCell align="right">
+                            {debt.kind === 'loan' && (
+                              <Tooltip title="Compare refinance offers">
+                                <IconButton size="small" onClick={() => openRefinance(debtId.replace(/^loan-/, ''))}>
+                                  <SwapHoriz fontSize="small" />
+                                </IconButton>
+                              </Tooltip>
+                            )}
+                            <IconButton size="small" disabled={index === 0} onClick={() => moveDebt(debtId, -1)}>
+                              <ArrowUpward fontSize="small" />
+                            </IconButton>
+                            <IconButton
+                              size="small"
+                              disabled={index === payoff.selected.order.length - 1}
+                              onClick={() => moveDebt(debtId, 1)}
+                            >
+                              <ArrowDownward fontSize="small" />
+                            </IconButton>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+
+              <Accordion>
+                <AccordionSummary expandIcon={<ExpandMore />}>
+                  <Typography fontWeight="bold">
+                    Month-by-month plan ({payoff.selected.monthsToDebtFree} months)
+                  </Typography>
+                </AccordionSummary>
+                <AccordionDetails>
+                  <TableContainer sx={{ maxHeight: 400 }}>
+                    <Table size="small" stickyHeader>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Month</TableCell>
+                          <TableCell>Payments</TableCell>
+                          <TableCell align="right">Extra</TableCell>
+                          <TableCell align="right">Total Balance</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {payoff.selected.months.map(month => (
+                          <TableRow key={month.month}>
+                            <TableCell>
+                              {month.date.toLocaleDateString('en-IN', { month: 'short', year: 'numeric' })}
+                            </TableCell>
+                            <TableCell>
+                              {month.payments
+                                .map(p => `${debtNames.get(p.debtId)} ₹${p.payment.toLocaleString('en-IN')}`)
+                                .join(' · ')}
+                            </TableCell>
+                            <TableCell align="right">₹{month.extraApplied.toLocaleString('en-IN')}</TableCell>
+                            <TableCell align="right">₹{month.totalBalance.toLocaleString('en-IN')}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                </AccordionDetails>
+              </Accordion>
+            </>
+          )}
+        </Paper>
+      )}
+
+      {/* Loan Eligibility */}
+      {eligibility && (
+        <Paper elevation={3} sx={{ p: 3, mb: 4 }}>
+          <Box mb={2}>
+            <Typography variant="h6" fontWeight="bold">
+              Loan Eligibility
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              FOIR {eligibility.foir.foirPercent}% · Income ₹{eligibility.foir.monthlyIncome.toLocaleString('en-IN')}/month ·
+              EMIs ₹{eligibility.foir.loanEmis.toLocaleString('en-IN')} · Card minimums ₹
+              {eligibility.foir.cardMinimums.toLocaleString('en-IN')} · Other obligations ₹
+              {eligibility.foir.recurringObligations.toLocaleString('en-IN')}
+            </Typography>
+          </Box>
+
+          {eligibility.obligations.length > 0 && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Recurring payments counted from your transactions:{' '}
+              {eligibility.obligations
+                .map(o => `${o.description} ₹${o.monthlyAmount.toLocaleString('en-IN')}`)
+                .join(' · ')}
+            </Alert>
+          )}
+
+          <TableContainer sx={{ mb: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Loan Type</TableCell>
+                  <TableCell align="right">Max Amount</TableCell>
+                  <TableCell align="right">Max Tenure</TableCell>
+                  <TableCell align="right">Max EMI</TableCell>
+                  <TableCell>Best Lender</TableCell>
+                  <TableCell>Notes</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {eligibility.loans.map(loan => (
+                  <TableRow key={loan.loanType}>
+                    <TableCell>{loan.loanType}</TableCell>
+                    <TableCell align="right">
+                      {loan.eligible ? `₹${loan.maxAmount.toLocaleString('en-IN')}` : '—'}
+                    </TableCell>
+                    <TableCell align="right">{loan.eligible ? `${loan.maxTenureMonths} months` : '—'}</TableCell>
+                    <TableCell align="right">₹{loan.maxEmi.toLocaleString('en-IN')}</TableCell>
+                    <TableCell>{loan.lender ? `${loan.lender} · ${loan.rate}%` : '—'}</TableCell>
+                    <TableCell>
+                      <Typography variant="caption" color={loan.eligible ? 'text.secondary' : 'error'}>
+                        {loan.reason}
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <Grid container spacing={2} alignItems="center">
+            <Grid size={{ xs: 12, md: 3 }}>
+              <FormControl fullWidth size="small">
+                <InputLabel>Loan Type</InputLabel>
+                <Select
+                  value={eligibilityForm.loanType}
+                  label="Loan Type"
+                  onChange={(e) => setEligibilityForm({ ...eligibilityForm, loanType: e.target.value as OfferLoanType })}
+                >
+                  {eligibility.loans.map(loan => (
+                    <MenuItem key={loan.loanType} value={loan.loanType}>
+                      {loan.loanType}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid size={{ xs: 12, md: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Amount (₹)"
+                type="number"
+                value={eligibilityForm.amount}
+                onChange={(e) => setEligibilityForm({ ...eligibilityForm, amount: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Tenure (months)"
+                type="number"
+                placeholder="Longest allowed"
+                value={eligibilityForm.tenure}
+                onChange={(e) => setEligibilityForm({ ...eligibilityForm, tenure: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 3 }}>
+              <Button fullWidth variant="outlined" onClick={handleCheckAmount}>
+                Check Amount
+              </Button>
+            </Grid>
+          </Grid>
+
+          {amountCheck && (
+            <Alert severity={amountCheck.feasible ? 'success' : 'error'} sx={{ mt: 2 }}>
+              {amountCheck.reason}
+              {amountCheck.feasible &&
+                ` · EMI ₹${amountCheck.emi.toLocaleString('en-IN')} · FOIR after ${amountCheck.foirAfterPercent}%`}
+            </Alert>
+          )}
+        </Paper>
+      )}
+
       {/* Goals List */}
       <Grid container spacing={3}>
-        {goals.map((goal) => {
+        {allGoals.map((goal) => {
           const progress = calculateProgress(goal.currentAmount, goal.targetAmount);
           const monthsToGoal = calculateMonthsToGoal(
             goal.currentAmount,
@@ -409,6 +868,157 @@ const FinancialGoals: React.FC = () => {
         })}
       </Grid>
 
+      {/* Add Credit Card Dialog */}
+      <Dialog open={cardDialogOpen} onClose={() => setCardDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Add Credit Card Balance</DialogTitle>
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 0.5 }}>
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                fullWidth
+                label="Card"
+                placeholder="e.g., HDFC Regalia"
+                value={cardForm.issuer}
+                onChange={(e) => setCardForm({ ...cardForm, issuer: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                fullWidth
+                label="Outstanding (₹)"
+                type="number"
+                value={cardForm.outstanding}
+                onChange={(e) => setCardForm({ ...cardForm, outstanding: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 6 }}>
+              <TextField
+                fullWidth
+                label="Interest (% a year)"
+                type="number"
+                value={cardForm.annualRate}
+                onChange={(e) => setCardForm({ ...cardForm, annualRate: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 6 }}>
+              <TextField
+                fullWidth
+                label="Minimum due (₹)"
+                type="number"
+                placeholder="5% of balance"
+                value={cardForm.minimumPayment}
+                onChange={(e) => setCardForm({ ...cardForm, minimumPayment: e.target.value })}
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCardDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleAddCreditCard}>
+            Add
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Refinance Dialog */}
+      <Dialog open={!!refinance} onClose={closeRefinance} maxWidth="md" fullWidth>
+        <DialogTitle>Refinance {refinance?.loanName}</DialogTitle>
+        {refinance && (
+          <DialogContent>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Outstanding ₹{refinance.outstanding.toLocaleString('en-IN')} at {refinance.currentRate}% · EMI ₹
+              {refinance.currentEmi.toLocaleString('en-IN')} · {refinance.remainingMonths} months left · ₹
+              {refinance.remainingInterest.toLocaleString('en-IN')} interest to go
+            </Typography>
+
+            {refinance.best ? (
+              <Alert severity="success" sx={{ mb: 2 }}>
+                Switch to {refinance.best.lender}: {refinance.best.reason}
+              </Alert>
+            ) : (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                None of the offers is worth switching to right now
+              </Alert>
+            )}
+
+            <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+              <TextField
+                size="small"
+                label="Top-up amount (₹)"
+                type="number"
+                value={topUpAmount}
+                onChange={(e) => setTopUpAmount(e.target.value)}
+              />
+              <Button variant="outlined" onClick={quoteTopUp}>
+                Quote Top-up
+              </Button>
+            </Box>
+            {topUpCheck && !topUpCheck.feasible && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                Top-up not possible: {topUpCheck.reason}
+              </Alert>
+            )}
+
+            {refinance.options.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No lender offers for this loan type
+              </Typography>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Lender</TableCell>
+                      <TableCell align="right">Rate</TableCell>
+                      <TableCell align="right">New EMI</TableCell>
+                      <TableCell align="right">Fees</TableCell>
+                      <TableCell align="right">Interest Saved</TableCell>
+                      <TableCell align="right">Tax Change</TableCell>
+                      <TableCell align="right">Net Savings</TableCell>
+                      <TableCell align="right">Break-even</TableCell>
+                      <TableCell>Top-up</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {refinance.options.map(option => (
+                      <TableRow key={option.lender} selected={option === refinance.best}>
+                        <TableCell>
+                          <Tooltip title={option.reason}>
+                            <Box>
+                              {option.lender}
+                              {option.worthSwitching && (
+                                <Chip label="Switch" color="success" size="small" sx={{ ml: 1 }} />
+                              )}
+                            </Box>
+                          </Tooltip>
+                        </TableCell>
+                        <TableCell align="right">{option.rate}%</TableCell>
+                        <TableCell align="right">₹{option.newEmi.toLocaleString('en-IN')}</TableCell>
+                        <TableCell align="right">₹{option.costs.total.toLocaleString('en-IN')}</TableCell>
+                        <TableCell align="right">₹{option.interestSaved.toLocaleString('en-IN')}</TableCell>
+                        <TableCell align="right">₹{option.taxBenefitChange.toLocaleString('en-IN')}</TableCell>
+                        <TableCell align="right">₹{option.netSavings.toLocaleString('en-IN')}</TableCell>
+                        <TableCell align="right">
+                          {option.breakEvenMonth !== null ? `${option.breakEvenMonth} mo` : 'Never'}
+                        </TableCell>
+                        <TableCell>
+                          {option.topUp
+                            ? `₹${option.topUp.amount.toLocaleString('en-IN')} at ${option.topUp.rate}% · EMI ₹${option.topUp.emi.toLocaleString('en-IN')}`
+                            : '—'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={closeRefinance}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Add Goal Dialog */}
       <Dialog open={addDialogOpen} onClose={() => setAddDialogOpen(false)} maxWidth="sm" fullWidth>
         <DialogTitle>
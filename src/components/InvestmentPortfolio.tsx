@@ -17,12 +17,16 @@ import {
   DialogActions,
   TextField,
   MenuItem,
+  Alert,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import {
   AddCircle,
   TrendingUp,
   TrendingDown,
   Delete,
+  Sell,
 } from '@mui/icons-material';
 import {
   AreaChart,
@@ -39,12 +43,18 @@ import {
 } from 'recharts';
 import { useAppStore } from '../store/useAppStore';
 import type { Investment, AssetType } from '../services/portfolioService';
+import { checkAndExecuteSmartRebalancingAgent } from '../services/smartRebalancingAgent';
+import { corporateActionsService } from '../services/corporateActionsService';
+import type { Lot, RealizedTrade } from '../services/holdingsLedger';
 import { useTranslation } from '../hooks/useTranslation';
 import {
   addInvestment,
   getUserInvestments,
   deleteInvestment,
+  sellInvestment,
+  getInvestmentLots,
   calculatePortfolioSummary,
+  requiresSymbol,
 } from '../services/portfolioService';
 
 interface PortfolioPerformance {
@@ -64,6 +74,10 @@ const ASSET_TYPES: { value: AssetType; label: string }[] = [
   { value: 'etf', label: 'ETF' },
 ];
 
+type LotMatching = 'fifo' | 'specific';
+
+const toDateInput = (date: Date) => new Date(date).toISOString().slice(0, 10);
+
 const InvestmentPortfolio: React.FC = () => {
   const { user } = useAppStore();
   const { t } = useTranslation();
@@ -74,13 +88,23 @@ const InvestmentPortfolio: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [newInvestment, setNewInvestment] = useState<Partial<Investment>>({
+    symbol: '',
     name: '',
     type: 'stocks',
     quantity: 0,
     buyPrice: 0,
     amount: 0,
+    fees: 0,
     purchaseDate: new Date(),
   });
+  const [sellTarget, setSellTarget] = useState<Investment | null>(null);
+  const [sellLots, setSellLots] = useState<Lot[]>([]);
+  const [sellForm, setSellForm] = useState({ quantity: 0, price: 0, fees: 0, date: new Date() });
+  const [lotMatching, setLotMatching] = useState<LotMatching>('fifo');
+  const [lotQuantities, setLotQuantities] = useState<Record<string, number>>({});
+  const [sellResult, setSellResult] = useState<RealizedTrade | null>(null);
+  const [sellError, setSellError] = useState<string | null>(null);
+  const [addError, setAddError] = useState<string | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -92,6 +116,8 @@ const InvestmentPortfolio: React.FC = () => {
     if (!user) return;
     setLoading(true);
     try {
+      // Apply dividends, splits and bonuses before valuing holdings
+      await corporateActionsService.syncCorporateActions(user.id);
       const data = await getUserInvestments(user.id);
       setInvestments(data);
       
@@ -110,6 +136,9 @@ const InvestmentPortfolio: React.FC = () => {
         };
       });
       setPerformance(performanceData);
+
+      // Let an active rebalancing agent check the refreshed weights
+      checkAndExecuteSmartRebalancingAgent(user.id);
     } catch (error) {
       console.error('Error loading portfolio:', error);
     } finally {
@@ -122,28 +151,83 @@ const InvestmentPortfolio: React.FC = () => {
 
     try {
       const investmentToAdd = {
+        symbol: newInvestment.symbol,
         name: newInvestment.name,
         type: newInvestment.type as AssetType,
         quantity: Number(newInvestment.quantity),
         buyPrice: Number(newInvestment.buyPrice),
         amount: Number(newInvestment.quantity) * Number(newInvestment.buyPrice),
+        fees: Number(newInvestment.fees) || 0,
         purchaseDate: newInvestment.purchaseDate || new Date(),
       };
 
       await addInvestment(user.id, investmentToAdd);
+      setAddError(null);
       setAddDialogOpen(false);
       loadPortfolioData();
       // Reset form
       setNewInvestment({
+        symbol: '',
         name: '',
         type: 'stocks',
         quantity: 0,
         buyPrice: 0,
         amount: 0,
+        fees: 0,
         purchaseDate: new Date(),
       });
     } catch (error) {
       console.error('Error adding investment:', error);
+      setAddError(error instanceof Error ? error.message : 'Failed to add investment');
+    }
+  };
+
+  const openSellDialog = async (investment: Investment) => {
+    if (!user) return;
+    setSellTarget(investment);
+    setSellForm({ quantity: investment.quantity, price: Number((investment.currentPrice ?? investment.buyPrice).toFixed(2)), fees: 0, date: new Date() });
+    setLotMatching('fifo');
+    setLotQuantities({});
+    setSellResult(null);
+    setSellError(null);
+    try {
+      setSellLots(await getInvestmentLots(user.id, investment.id));
+    } catch (error) {
+      console.error('Error loading lots:', error);
+      setSellLots([]);
+    }
+  };
+
+  const closeSellDialog = () => {
+    setSellTarget(null);
+    setSellLots([]);
+  };
+
+  const selectedLotQuantity = Object.values(lotQuantities).reduce((sum, q) => sum + (q || 0), 0);
+
+  const handleSell = async () => {
+    if (!user || !sellTarget) return;
+    const lotSelections = lotMatching === 'specific'
+      ? Object.entries(lotQuantities)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([lotId, quantity]) => ({ lotId, quantity }))
+      : undefined;
+    const quantity = lotSelections ? selectedLotQuantity : Number(sellForm.quantity);
+
+    try {
+      setSellError(null);
+      const trade = await sellInvestment(user.id, sellTarget.id, {
+        quantity,
+        price: Number(sellForm.price),
+        fees: Number(sellForm.fees) || 0,
+        date: sellForm.date,
+        lotSelections,
+      });
+      setSellResult(trade);
+      loadPortfolioData();
+    } catch (error) {
+      console.error('Error selling investment:', error);
+      setSellError(error instanceof Error ? error.message : 'Failed to record sale');
     }
   };
 
@@ -367,9 +451,14 @@ const InvestmentPortfolio: React.FC = () => {
                             {investment.type.replace('_', ' ')}
                           </Typography>
                         </Box>
-                        <IconButton size="small" onClick={() => handleDelete(investment.id)} color="error">
-                          <Delete size-small="true" />
-                        </IconButton>
+                        <Box>
+                          <IconButton size="small" onClick={() => openSellDialog(investment)} color="primary" title="Sell">
+                            <Sell size-small="true" />
+                          </IconButton>
+                          <IconButton size="small" onClick={() => handleDelete(investment.id)} color="error">
+                            <Delete size-small="true" />
+                          </IconButton>
+                        </Box>
                       </Box>
                       
                       <Grid container spacing={2}>
@@ -388,6 +477,11 @@ const InvestmentPortfolio: React.FC = () => {
                           </Typography>
                         </Grid>
                       </Grid>
+                      {!!investment.realizedReturns && (
+                        <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
+                          Realized P&L: <Box component="span" fontWeight="bold" color={investment.realizedReturns >= 0 ? 'success.main' : 'error.main'}>{formatValue(investment.realizedReturns)}</Box>
+                        </Typography>
+                      )}
                     </CardContent>
                   </Card>
                 </Grid>
@@ -398,10 +492,20 @@ const InvestmentPortfolio: React.FC = () => {
       )}
 
       {/* Add Dialog */}
-      <Dialog open={addDialogOpen} onClose={() => setAddDialogOpen(false)} maxWidth="sm" fullWidth>
+      <Dialog open={addDialogOpen} onClose={() => { setAddDialogOpen(false); setAddError(null); }} maxWidth="sm" fullWidth>
         <DialogTitle>{t('portfolioData.addInvestment')}</DialogTitle>
         <DialogContent>
           <Box sx={{ pt: 1, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {addError && <Alert severity="error">{addError}</Alert>}
+            <TextField
+              fullWidth
+              label="Symbol"
+              value={newInvestment.symbol}
+              onChange={(e) => setNewInvestment({ ...newInvestment, symbol: e.target.value.toUpperCase() })}
+              placeholder="e.g., RELIANCE, BTC"
+              required={requiresSymbol(newInvestment.type as AssetType)}
+              helperText={requiresSymbol(newInvestment.type as AssetType) ? undefined : 'Optional; the name is used when left blank'}
+            />
             <TextField
               fullWidth
               label="Asset Name"
@@ -436,13 +540,132 @@ const InvestmentPortfolio: React.FC = () => {
                 onChange={(e) => setNewInvestment({ ...newInvestment, buyPrice: Number(e.target.value) })}
               />
             </Box>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                fullWidth
+                label="Purchase Date"
+                type="date"
+                value={toDateInput(newInvestment.purchaseDate || new Date())}
+                onChange={(e) => setNewInvestment({ ...newInvestment, purchaseDate: e.target.value ? new Date(e.target.value) : new Date() })}
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                fullWidth
+                label="Fees & Charges"
+                type="number"
+                value={newInvestment.fees}
+                onChange={(e) => setNewInvestment({ ...newInvestment, fees: Number(e.target.value) })}
+              />
+            </Box>
           </Box>
         </DialogContent>
         <DialogActions sx={{ p: 3 }}>
-          <Button onClick={() => setAddDialogOpen(false)}>Cancel</Button>
+          <Button onClick={() => { setAddDialogOpen(false); setAddError(null); }}>Cancel</Button>
           <Button variant="contained" onClick={handleAddInvestment}>Add</Button>
         </DialogActions>
       </Dialog>
+
+      {/* Sell Dialog */}
+      <Dialog open={!!sellTarget} onClose={closeSellDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>Sell {sellTarget?.name}</DialogTitle>
+        <DialogContent>
+          {sellResult ? (
+            <Box sx={{ pt: 1 }}>
+              <Alert severity={sellResult.realizedPnl >= 0 ? 'success' : 'warning'} sx={{ mb: 2 }}>
+                Sold {sellResult.quantity} @ ₹{sellResult.price.toLocaleString('en-IN')}. Realized P&L: {formatValue(sellResult.realizedPnl)}
+              </Alert>
+              {sellResult.matches.map((match) => (
+                <Box key={match.lotId} display="flex" justifyContent="space-between" mb={1}>
+                  <Typography variant="body2">
+                    {match.quantity} from lot bought {new Date(match.acquiredAt).toLocaleDateString('en-IN')} @ ₹{match.buyPrice.toLocaleString('en-IN')}
+                  </Typography>
+                  <Typography variant="body2" fontWeight="bold" color={match.realizedPnl >= 0 ? 'success.main' : 'error.main'}>
+                    {formatValue(match.realizedPnl)}
+                  </Typography>
+                </Box>
+              ))}
+            </Box>
+          ) : (
+            <Box sx={{ pt: 1, display: 'flex', flexDirection: 'column', gap: 2 }}>
+              {sellError && <Alert severity="error">{sellError}</Alert>}
+              <ToggleButtonGroup
+                exclusive
+                size="small"
+                value={lotMatching}
+                onChange={(_, value: LotMatching | null) => value && setLotMatching(value)}
+              >
+                <ToggleButton value="fifo">FIFO</ToggleButton>
+                <ToggleButton value="specific">Choose Lots</ToggleButton>
+              </ToggleButtonGroup>
+              {lotMatching === 'fifo' ? (
+                <TextField
+                  fullWidth
+                  label={t('portfolioData.quantity')}
+                  type="number"
+                  value={sellForm.quantity}
+                  onChange={(e) => setSellForm({ ...sellForm, quantity: Number(e.target.value) })}
+                  helperText={`Held: ${sellTarget?.quantity ?? 0}. Oldest lots are sold first.`}
+                />
+              ) : (
+                <Box>
+                  {sellLots.map((lot) => (
+                    <Box key={lot.id} display="flex" alignItems="center" justifyContent="space-between" gap={2} mb={1}>
+                      <Typography variant="body2">
+                        {lot.acquiredAtUnknown ? 'Date unknown' : new Date(lot.acquiredAt).toLocaleDateString('en-IN')}: {lot.remaining} @ ₹{lot.price.toLocaleString('en-IN')}
+                      </Typography>
+                      <TextField
+                        size="small"
+                        type="number"
+                        label="Sell"
+                        value={lotQuantities[lot.id] ?? 0}
+                        onChange={(e) => setLotQuantities({ ...lotQuantities, [lot.id]: Math.min(Number(e.target.value), lot.remaining) })}
+                        sx={{ width: 110 }}
+                      />
+                    </Box>
+                  ))}
+                  <Typography variant="caption" color="text.secondary">Selling {selectedLotQuantity} in total</Typography>
+                </Box>
+              )}
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <TextField
+                  fullWidth
+                  label="Sell Price"
+                  type="number"
+                  value={sellForm.price}
+                  onChange={(e) => setSellForm({ ...sellForm, price: Number(e.target.value) })}
+                />
+                <TextField
+                  fullWidth
+                  label="Fees & Charges"
+                  type="number"
+                  value={sellForm.fees}
+                  onChange={(e) => setSellForm({ ...sellForm, fees: Number(e.target.value) })}
+                />
+              </Box>
+              <TextField
+                fullWidth
+                label="Sale Date"
+                type="date"
+                value={toDateInput(sellForm.date)}
+                onChange={(e) => setSellForm({ ...sellForm, date: e.target.value ? new Date(e.target.value) : new Date() })}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ p: 3 }}>
+          <Button onClick={closeSellDialog}>{sellResult ? 'Close' : 'Cancel'}</Button>
+          {!sellResult && (
+            <Button
+              variant="contained"
+              onClick={handleSell}
+              disabled={lotMatching === 'specific' ? selectedLotQuantity <= 0 : sellForm.quantity <= 0}
+            >
+              Sell
+            </Button>
+          )}
+        </DialogActions>
+      </Dialog>
     </Container>
   );
 };
@@ -43,7 +43,7 @@ const ManualTransactionModal: React.FC<Props> = ({ open, onClose, type: initialT
 
   const categories = {
     expense: ['Food', 'Rent', 'Utilities', 'Transport', 'Entertainment', 'Shopping', 'Health', 'Other'],
-    income: ['Salary', 'Freelance', 'Investment Return', 'Gift', 'Rental', 'Other'],
+    income: ['Salary', 'Freelance', 'Investment Return', 'Dividend', 'Gift', 'Rental', 'Other'],
     investment: ['Stocks', 'Mutual Funds', 'Fixed Deposit', 'Real Estate', 'Crypto', 'Other'],
   };
 
@@ -53,7 +53,7 @@ const ManualTransactionModal: React.FC<Props> = ({ open, onClose, type: initialT
 
     try {
       setLoading(true);
-      // We'll implement addTransaction in userProfileService
+      // Publishes a transaction event, so uncategorized entries reach classification agents
       await userProfileService.addTransaction(user.id, {
         ...formData,
         amount: parseFloat(formData.amount),
@@ -123,10 +123,12 @@ const ManualTransactionModal: React.FC<Props> = ({ open, onClose, type: initialT
               <TextField
                 select
                 fullWidth
-                required
                 label="Category"
                 value={formData.category}
                 onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                helperText={formData.category ? undefined : 'Your classification agent will categorize it'}
+                SelectProps={{ displayEmpty: true }}
+                InputLabelProps={{ shrink: true }}
                 InputProps={{
                   startAdornment: (
                     <InputAdornment position="start">
@@ -135,6 +137,9 @@ const ManualTransactionModal: React.FC<Props> = ({ open, onClose, type: initialT
                   ),
                 }}
               >
+                <MenuItem value="">
+                  <em>Auto-classify</em>
+                </MenuItem>
                 {categories[formData.type].map((cat) => (
                   <MenuItem key={cat} value={cat}>{cat}</MenuItem>
                 ))}
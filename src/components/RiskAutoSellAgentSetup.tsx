@@ -70,6 +70,8 @@ import {
   type Holding,
   type StopLossConfig,
 } from '../services/riskAutoSellAgent';
+import { stepUpAuthService } from '../services/stepUpAuthService';
+import StepUpDialog from './StepUpDialog';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -109,6 +111,7 @@ const RiskAutoSellAgentSetup: React.FC = () => {
   const [stopLossPrice, setStopLossPrice] = useState<number>(0);
   const [stopLossPercent, setStopLossPercent] = useState<number>(5);
   const [usePercent, setUsePercent] = useState(true);
+  const [stepUpOrder, setStepUpOrder] = useState<PendingSellOrder | null>(null);
   const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' | 'info' | 'warning' });
 
   // Load data on mount
@@ -339,12 +342,20 @@ const RiskAutoSellAgentSetup: React.FC = () => {
     }
   };
 
-  const handleConfirmOrder = async (orderId: string) => {
+  const handleConfirmOrder = async (order: PendingSellOrder) => {
     if (!user) return;
+
+    // High-value sells need step-up verification first
+    const needsStepUp =
+      order.requiresTwoStepConfirmation || stepUpAuthService.isHighValue(order.quantity * order.currentPrice);
+    if (needsStepUp && !stepUpAuthService.hasRecentVerification(user.id)) {
+      setStepUpOrder(order);
+      return;
+    }
     
     setLoading(true);
     try {
-      const result = await riskAutoSellAgent.confirmSellOrder(orderId, user.id);
+      const result = await riskAutoSellAgent.confirmSellOrder(order.id, user.id);
       if (result.success) {
         showSnackbar(result.message, 'success');
         await loadAgentData();
@@ -847,7 +858,7 @@ const RiskAutoSellAgentSetup: React.FC = () => {
                       variant="contained"
                       color="success"
                       startIcon={<CheckCircle />}
-                      onClick={() => handleConfirmOrder(order.id)}
+                      onClick={() => handleConfirmOrder(order)}
                     >
                       Confirm Sell
                     </Button>
@@ -989,6 +1000,20 @@ const RiskAutoSellAgentSetup: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {user && stepUpOrder && (
+        <StepUpDialog
+          open
+          userId={user.id}
+          purpose={`sell ${stepUpOrder.quantity} ${stepUpOrder.ticker}`}
+          onClose={() => setStepUpOrder(null)}
+          onVerified={() => {
+            const order = stepUpOrder;
+            setStepUpOrder(null);
+            handleConfirmOrder(order);
+          }}
+        />
+      )}
+
       {/* Snackbar */}
       <Snackbar
         open={snackbar.open}
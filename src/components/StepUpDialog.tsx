@@ -0,0 +1,168 @@
+/**
+ * Step-Up Verification Dialog
+ * Asks the user to re-verify (authenticator code, password or Google) before money moves
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  Alert,
+  ToggleButton,
+  ToggleButtonGroup,
+  CircularProgress,
+} from '@mui/material';
+import { stepUpAuthService, type StepUpCredential, type StepUpMethod } from '../services/stepUpAuthService';
+
+interface StepUpDialogProps {
+  open: boolean;
+  userId: string;
+  purpose: string; // e.g. "approve 3 items"
+  onClose: () => void;
+  onVerified: () => void;
+}
+
+const METHOD_LABELS: Record<StepUpMethod, string> = {
+  totp: 'Authenticator',
+  password: 'Password',
+  google: 'Google',
+};
+
+const StepUpDialog: React.FC<StepUpDialogProps> = ({ open, userId, purpose, onClose, onVerified }) => {
+  const [methods, setMethods] = useState<StepUpMethod[]>([]);
+  const [method, setMethod] = useState<StepUpMethod | null>(null);
+  const [secret, setSecret] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setSecret('');
+    setError(null);
+    setLockedUntil(stepUpAuthService.getLockout(userId));
+    stepUpAuthService.getAvailableMethods(userId).then(available => {
+      setMethods(available);
+      setMethod(available[0] ?? null);
+    });
+  }, [open, userId]);
+
+  const handleVerify = async () => {
+    if (!method) return;
+
+    const credential: StepUpCredential =
+      method === 'totp'
+        ? { method, code: secret }
+        : method === 'password'
+          ? { method, password: secret }
+          : { method };
+
+    setVerifying(true);
+    setError(null);
+    try {
+      const result = await stepUpAuthService.verify(userId, credential, purpose);
+      if (result.success) {
+        setSecret('');
+        onVerified();
+        return;
+      }
+      setError(result.message);
+      setLockedUntil(result.lockedUntil ?? null);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>🔐 Verify it's you</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Confirm your identity to {purpose}.
+        </Typography>
+
+        {lockedUntil ? (
+          <Alert severity="error">
+            Too many failed attempts. Verification is locked until {lockedUntil.toLocaleTimeString()}.
+          </Alert>
+        ) : methods.length === 0 ? (
+          <Alert severity="warning">
+            No verification method is available. Sign in again or enable an authenticator app in your profile.
+          </Alert>
+        ) : (
+          <>
+            {methods.length > 1 && (
+              <ToggleButtonGroup
+                value={method}
+                exclusive
+                size="small"
+                onChange={(_, value: StepUpMethod | null) => {
+                  if (value) {
+                    setMethod(value);
+                    setSecret('');
+                  }
+                }}
+                sx={{ mb: 2 }}
+              >
+                {methods.map(m => (
+                  <ToggleButton key={m} value={m}>
+                    {METHOD_LABELS[m]}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            )}
+
+            {method === 'totp' && (
+              <TextField
+                autoFocus
+                fullWidth
+                label="6-digit code"
+                value={secret}
+                onChange={e => setSecret(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                inputProps={{ inputMode: 'numeric', autoComplete: 'one-time-code' }}
+              />
+            )}
+            {method === 'password' && (
+              <TextField
+                autoFocus
+                fullWidth
+                type="password"
+                label="Account password"
+                value={secret}
+                onChange={e => setSecret(e.target.value)}
+              />
+            )}
+            {method === 'google' && (
+              <Typography variant="body2">A Google sign-in window will open to confirm your account.</Typography>
+            )}
+
+            {error && (
+              <Alert severity="error" sx={{ mt: 2 }}>
+                {error}
+              </Alert>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleVerify}
+          disabled={verifying || !method || !!lockedUntil || (method !== 'google' && !secret)}
+          startIcon={verifying ? <CircularProgress size={16} /> : undefined}
+        >
+          Verify
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default StepUpDialog;
@@ -41,6 +41,7 @@ import {
   Switch,
   FormControlLabel,
   Snackbar,
+  Checkbox,
 } from '@mui/material';
 import Grid from '@mui/material/Grid2';
 import {
@@ -54,6 +55,8 @@ import {
   Edit,
   Save,
   CompareArrows,
+  Download,
+  UploadFile,
 } from '@mui/icons-material';
 import { useAppStore } from '../store/useAppStore';
 import {
@@ -66,6 +69,21 @@ import {
   generateAITaxRecommendations, 
   type TaxAdvisorReport 
 } from '../services/aiTaxAdvisor';
+import { checkAndExecuteTaxLossHarvestingAgent } from '../services/taxLossHarvestingAgent';
+import { advanceTaxPlanner, type AdvanceTaxPlan } from '../services/advanceTaxPlanner';
+import { hraExemptionService, type HraComputation } from '../services/hraExemption';
+import { userProfileService } from '../services/userProfileService';
+import {
+  salaryDocumentImportService,
+  type SalaryDocumentType,
+  type SalaryImportPreview,
+} from '../services/salaryDocumentImport';
+import {
+  itrExportService,
+  ItrValidationError,
+  type ItrExportBundle,
+  type ItrValidationIssue,
+} from '../services/itrExportService';
 
 const TaxOptimization: React.FC = () => {
   const { user } = useAppStore();
@@ -78,6 +96,40 @@ const TaxOptimization: React.FC = () => {
   const [loadingAI, setLoadingAI] = useState(false);
   const [snackbarOpen, setSnackbarOpen] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
+  const [advanceTaxPlan, setAdvanceTaxPlan] = useState<AdvanceTaxPlan | null>(null);
+  const [hraComputation, setHraComputation] = useState<HraComputation | null>(null);
+  const [salaryDialogOpen, setSalaryDialogOpen] = useState(false);
+  const [salaryForm, setSalaryForm] = useState({
+    effectiveFrom: new Date().toISOString().slice(0, 7),
+    basicMonthly: '',
+    daMonthly: '',
+    hraMonthly: '',
+    isMetro: true,
+  });
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importType, setImportType] = useState<SalaryDocumentType | 'auto'>('auto');
+  const [importPreview, setImportPreview] = useState<SalaryImportPreview | null>(null);
+  const [importError, setImportError] = useState('');
+  const [itrDialogOpen, setItrDialogOpen] = useState(false);
+  const [itrForm, setItrForm] = useState({
+    dateOfBirth: '',
+    email: '',
+    mobile: '',
+    line1: '',
+    city: '',
+    state: '',
+    pinCode: '',
+  });
+  const [itrIssues, setItrIssues] = useState<ItrValidationIssue[]>([]);
+  const [itrBundle, setItrBundle] = useState<ItrExportBundle | null>(null);
+  const [generatingItr, setGeneratingItr] = useState(false);
+  const [paymentDialogOpen, setPaymentDialogOpen] = useState(false);
+  const [paymentForm, setPaymentForm] = useState({
+    amount: '',
+    paidOn: new Date().toISOString().slice(0, 10),
+    challanNumber: '',
+  });
   
   // Form state
   const [formData, setFormData] = useState({
@@ -142,6 +194,12 @@ const TaxOptimization: React.FC = () => {
           } catch (error) {
             console.error('Error generating AI recommendations:', error);
           }
+
+          // Let an active harvesting agent act on the same year-to-date gains
+          checkAndExecuteTaxLossHarvestingAgent(user.id);
+
+          await loadHraExemption();
+          await loadAdvanceTaxPlan();
         } else {
           console.log('No salary found, skipping report generation');
         }
@@ -201,6 +259,205 @@ const TaxOptimization: React.FC = () => {
     }
   };
 
+  const loadAdvanceTaxPlan = async () => {
+    if (!user) return;
+
+    try {
+      const plan = await advanceTaxPlanner.getPlan(user.id);
+      setAdvanceTaxPlan(plan);
+      if (plan) {
+        advanceTaxPlanner.sendReminders(user.id, plan);
+      }
+    } catch (error) {
+      console.error('Error planning advance tax:', error);
+    }
+  };
+
+  const loadHraExemption = async () => {
+    if (!user) return;
+
+    try {
+      setHraComputation(await hraExemptionService.getHraExemption(user.id));
+    } catch (error) {
+      console.error('Error computing HRA exemption:', error);
+    }
+  };
+
+  const handleSaveSalaryStructure = async () => {
+    if (!user) return;
+
+    const basicMonthly = parseFloat(salaryForm.basicMonthly);
+    const hraMonthly = parseFloat(salaryForm.hraMonthly);
+    if (!basicMonthly || basicMonthly <= 0 || hraMonthly < 0 || isNaN(hraMonthly)) {
+      alert('Please enter your monthly basic pay and HRA');
+      return;
+    }
+
+    try {
+      await userProfileService.updateSalaryStructure(user.id, {
+        effectiveFrom: new Date(`${salaryForm.effectiveFrom}-01`),
+        basicMonthly,
+        daMonthly: parseFloat(salaryForm.daMonthly) || 0,
+        hraMonthly,
+        isMetro: salaryForm.isMetro,
+      });
+      setSalaryDialogOpen(false);
+      await loadHraExemption();
+      await loadAdvanceTaxPlan();
+      setSnackbarMessage('Salary structure saved');
+      setSnackbarOpen(true);
+    } catch (error) {
+      console.error('Error saving salary structure:', error);
+      setSnackbarMessage(`Failed to save: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setSnackbarOpen(true);
+    }
+  };
+
+  const handleRecordTaxPayment = async () => {
+    if (!user) return;
+
+    const amount = parseFloat(paymentForm.amount);
+    if (!amount || amount <= 0) {
+      alert('Please enter a valid payment amount');
+      return;
+    }
+
+    try {
+      await advanceTaxPlanner.recordPayment(user.id, {
+        amount,
+        paidOn: new Date(paymentForm.paidOn),
+        challanNumber: paymentForm.challanNumber || undefined,
+        financialYear: advanceTaxPlan?.financialYear,
+      });
+      setPaymentDialogOpen(false);
+      setPaymentForm({ amount: '', paidOn: new Date().toISOString().slice(0, 10), challanNumber: '' });
+      await loadAdvanceTaxPlan();
+      setSnackbarMessage('Tax payment recorded');
+      setSnackbarOpen(true);
+    } catch (error) {
+      console.error('Error recording tax payment:', error);
+      setSnackbarMessage(`Failed to record payment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setSnackbarOpen(true);
+    }
+  };
+
+  const handleOpenImportDialog = () => {
+    setImportText('');
+    setImportType('auto');
+    setImportPreview(null);
+    setImportError('');
+    setImportDialogOpen(true);
+  };
+
+  const handleImportFile = async (file?: File) => {
+    if (!file) return;
+
+    try {
+      setImportText(await salaryDocumentImportService.readFile(file));
+      setImportError('');
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not read file');
+    }
+  };
+
+  const handlePreviewImport = async () => {
+    if (!user) return;
+
+    try {
+      setImportError('');
+      setImportPreview(await salaryDocumentImportService.previewImport(
+        user.id,
+        importText,
+        importType === 'auto' ? undefined : importType
+      ));
+    } catch (error) {
+      console.error('Error parsing salary document:', error);
+      setImportPreview(null);
+      setImportError(error instanceof Error ? error.message : 'Could not read this document');
+    }
+  };
+
+  const handleToggleImportChange = (index: number) => {
+    if (!importPreview) return;
+
+    setImportPreview({
+      ...importPreview,
+      changes: importPreview.changes.map((change, i) => (i === index ? { ...change, apply: !change.apply } : change)),
+    });
+  };
+
+  const handleApplyImport = async () => {
+    if (!user || !importPreview) return;
+
+    try {
+      const applied = await salaryDocumentImportService.applyImport(
+        user.id,
+        importPreview.parsed,
+        importPreview.changes
+      );
+      setImportDialogOpen(false);
+      await loadHraExemption();
+      await loadAdvanceTaxPlan();
+      setSnackbarMessage(
+        applied.length > 0 ? `Profile updated with ${applied.length} imported change(s)` : 'No changes applied'
+      );
+      setSnackbarOpen(true);
+    } catch (error) {
+      console.error('Error applying salary import:', error);
+      setSnackbarMessage(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setSnackbarOpen(true);
+    }
+  };
+
+  const handleOpenItrDialog = async () => {
+    if (!user) return;
+
+    setItrIssues([]);
+    setItrBundle(null);
+    setItrDialogOpen(true);
+    const known = await itrExportService.getKnownPersonalDetails(user.id);
+    setItrForm(form => ({ ...form, email: form.email || known.email || '', mobile: form.mobile || known.mobile || '' }));
+  };
+
+  const handleGenerateItr = async () => {
+    if (!user) return;
+
+    try {
+      setGeneratingItr(true);
+      setItrIssues([]);
+      const bundle = await itrExportService.generateExport(user.id, {
+        dateOfBirth: itrForm.dateOfBirth,
+        email: itrForm.email,
+        mobile: itrForm.mobile,
+        address: { line1: itrForm.line1, city: itrForm.city, state: itrForm.state, pinCode: itrForm.pinCode },
+      });
+      setItrBundle(bundle);
+
+      const baseName = `${bundle.form}_${bundle.assessmentYear}`;
+      downloadFile(`${baseName}.json`, JSON.stringify(bundle.json, null, 2), 'application/json');
+      downloadFile(`${baseName}_summary.txt`, bundle.summary, 'text/plain');
+    } catch (error) {
+      if (error instanceof ItrValidationError) {
+        setItrIssues(error.issues);
+      } else {
+        console.error('Error generating ITR export:', error);
+        setSnackbarMessage(`Failed to generate ITR export: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        setSnackbarOpen(true);
+      }
+    } finally {
+      setGeneratingItr(false);
+    }
+  };
+
+  const downloadFile = (fileName: string, content: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleGenerateAIRecommendations = async () => {
     if (!user) return;
 
@@ -285,6 +542,21 @@ const TaxOptimization: React.FC = () => {
           >
             Compare Regimes
           </Button>
+          <Button
+            variant="outlined"
+            startIcon={<UploadFile />}
+            onClick={handleOpenImportDialog}
+          >
+            Import Form 16
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<Download />}
+            onClick={handleOpenItrDialog}
+            disabled={!taxReport}
+          >
+            Export ITR
+          </Button>
           <Button
             variant="contained"
             startIcon={<Edit />}
@@ -464,6 +736,169 @@ const TaxOptimization: React.FC = () => {
             </Grid>
           </Paper>
 
+          {/* Capital Gains */}
+          {taxReport.capitalGains.lotCount > 0 && (
+            <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
+              <Typography variant="h6" fontWeight="bold" gutterBottom>
+                📈 Capital Gains ({taxReport.capitalGains.financialYear})
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {taxReport.capitalGains.lotCount} sale(s) this year · Short-term ₹
+                {Math.round(taxReport.capitalGains.shortTermGain).toLocaleString('en-IN')} · Long-term ₹
+                {Math.round(taxReport.capitalGains.longTermGain).toLocaleString('en-IN')}
+              </Typography>
+              <List dense>
+                {taxReport.capitalGains.buckets.map(bucket => (
+                  <ListItem key={`${bucket.term}-${bucket.section}-${bucket.rate}`}>
+                    <ListItemText
+                      primary={`${bucket.term === 'short' ? 'STCG' : 'LTCG'} · Section ${bucket.section} @ ${
+                        bucket.rate === 'slab' ? 'slab rate' : `${bucket.rate}%`
+                      }`}
+                      secondary={`Gains ₹${Math.round(bucket.gains).toLocaleString('en-IN')} · Set-off ₹${Math.round(
+                        bucket.lossSetOff
+                      ).toLocaleString('en-IN')} · Exempt ₹${Math.round(bucket.exemption).toLocaleString(
+                        'en-IN'
+                      )} · Taxable ₹${Math.round(bucket.taxable).toLocaleString('en-IN')} · Tax ₹${bucket.tax.toLocaleString('en-IN')}`}
+                    />
+                  </ListItem>
+                ))}
+                <Divider />
+                <ListItem>
+                  <ListItemText
+                    primary={<strong>Capital Gains Tax</strong>}
+                    secondary={`₹${taxReport.capitalGains.totalTax.toLocaleString('en-IN')} · Total with salary tax: ₹${taxReport.totalTaxWithCapitalGains.toLocaleString('en-IN')}`}
+                  />
+                </ListItem>
+              </List>
+              {(taxReport.capitalGains.lossCarriedForward.shortTerm > 0 ||
+                taxReport.capitalGains.lossCarriedForward.longTerm > 0) && (
+                <Alert severity="info" sx={{ mt: 1 }}>
+                  Losses to carry forward (up to 8 years): short-term ₹
+                  {Math.round(taxReport.capitalGains.lossCarriedForward.shortTerm).toLocaleString('en-IN')}, long-term ₹
+                  {Math.round(taxReport.capitalGains.lossCarriedForward.longTerm).toLocaleString('en-IN')}
+                </Alert>
+              )}
+              {taxReport.capitalGains.disallowedLosses > 0 && (
+                <Alert severity="warning" sx={{ mt: 1 }}>
+                  Crypto losses of ₹{Math.round(taxReport.capitalGains.disallowedLosses).toLocaleString('en-IN')} cannot be
+                  set off or carried forward.
+                </Alert>
+              )}
+            </Paper>
+          )}
+
+          {/* Advance Tax */}
+          {advanceTaxPlan && (
+            <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
+              <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+                <Typography variant="h6" fontWeight="bold">
+                  🗓️ Advance Tax ({advanceTaxPlan.financialYear})
+                </Typography>
+                <Button size="small" variant="outlined" onClick={() => setPaymentDialogOpen(true)}>
+                  Record Payment
+                </Button>
+              </Box>
+              <Typography variant="body2" color="text.secondary">
+                Estimated liability ₹{advanceTaxPlan.totalLiability.toLocaleString('en-IN')} · TDS ₹
+                {(advanceTaxPlan.tdsOnSalary + advanceTaxPlan.tdsOnDividends).toLocaleString('en-IN')} · Payable ₹
+                {advanceTaxPlan.assessedTax.toLocaleString('en-IN')} · Paid ₹
+                {(advanceTaxPlan.advanceTaxPaid + advanceTaxPlan.selfAssessmentPaid).toLocaleString('en-IN')}
+              </Typography>
+              {!advanceTaxPlan.advanceTaxRequired ? (
+                <Alert severity="success" sx={{ mt: 2 }}>
+                  No advance tax due. {advanceTaxPlan.exemptionReason}.
+                </Alert>
+              ) : (
+                <List dense>
+                  {advanceTaxPlan.installments.map(installment => (
+                    <ListItem
+                      key={installment.dueDate.toISOString()}
+                      secondaryAction={
+                        <Chip
+                          size="small"
+                          label={installment.status.replace('_', ' ')}
+                          color={
+                            installment.status === 'paid'
+                              ? 'success'
+                              : installment.status === 'short'
+                                ? 'error'
+                                : installment.status === 'due_soon'
+                                  ? 'warning'
+                                  : 'default'
+                          }
+                        />
+                      }
+                    >
+                      <ListItemText
+                        primary={`${installment.dueDate.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })} · ${installment.cumulativePercent}% · ₹${installment.requiredByDueDate.toLocaleString('en-IN')}`}
+                        secondary={
+                          `Paid ₹${installment.paidByDueDate.toLocaleString('en-IN')}` +
+                          (installment.amountDue > 0 ? ` · Due ₹${installment.amountDue.toLocaleString('en-IN')}` : '') +
+                          (installment.interest234C > 0 ? ` · 234C interest ₹${installment.interest234C.toLocaleString('en-IN')}` : '')
+                        }
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              )}
+              {advanceTaxPlan.totalInterest > 0 && (
+                <Alert severity="warning" sx={{ mt: 1 }}>
+                  Interest so far: ₹{advanceTaxPlan.interest234C.toLocaleString('en-IN')} under section 234C
+                  {advanceTaxPlan.interest234B > 0 &&
+                    ` and ₹${advanceTaxPlan.interest234B.toLocaleString('en-IN')} under section 234B`}
+                  . Balance payable ₹{advanceTaxPlan.balancePayable.toLocaleString('en-IN')}.
+                </Alert>
+              )}
+            </Paper>
+          )}
+
+          {/* HRA Exemption */}
+          {hraComputation && (
+            <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
+              <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+                <Typography variant="h6" fontWeight="bold">
+                  🏠 HRA Exemption ({hraComputation.financialYear})
+                </Typography>
+                <Button size="small" variant="outlined" onClick={() => setSalaryDialogOpen(true)}>
+                  Update Salary Structure
+                </Button>
+              </Box>
+              {!hraComputation.hasSalaryStructure ? (
+                <Alert severity="info">
+                  Add your basic pay and HRA to work out the Section 10(13A) exemption from your rent payments.
+                </Alert>
+              ) : (
+                <>
+                  <Typography variant="body2" color="text.secondary">
+                    HRA received ₹{hraComputation.totalHraReceived.toLocaleString('en-IN')} · Rent paid ₹
+                    {hraComputation.totalRentPaid.toLocaleString('en-IN')} · Exempt ₹
+                    {hraComputation.totalExempt.toLocaleString('en-IN')} · Taxable ₹
+                    {hraComputation.totalTaxable.toLocaleString('en-IN')}
+                  </Typography>
+                  {hraComputation.totalRentPaid === 0 && (
+                    <Alert severity="warning" sx={{ mt: 1 }}>
+                      No rent payments found this year. Record rent as an expense in the Rent category to claim HRA.
+                    </Alert>
+                  )}
+                  <List dense>
+                    {hraComputation.months.map(month => (
+                      <ListItem key={month.month}>
+                        <ListItemText
+                          primary={`${month.month} · Exempt ₹${month.exempt.toLocaleString('en-IN')}`}
+                          secondary={
+                            `HRA ₹${month.hraReceived.toLocaleString('en-IN')} · ` +
+                            `Rent − 10% of basic ₹${Math.round(month.limits.rentOverTenPercent).toLocaleString('en-IN')} · ` +
+                            `${month.isMetro ? '50' : '40'}% of basic ₹${Math.round(month.limits.percentOfSalary).toLocaleString('en-IN')}`
+                          }
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                </>
+              )}
+            </Paper>
+          )}
+
           {/* Tax-Saving Recommendations */}
           <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
             <Typography variant="h6" fontWeight="bold" gutterBottom>
@@ -855,6 +1290,327 @@ const TaxOptimization: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {/* Salary Structure Dialog */}
+      <Dialog open={salaryDialogOpen} onClose={() => setSalaryDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Salary Structure</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Monthly amounts from your payslip. Add a new entry from the month your salary or city changes.
+          </Typography>
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                fullWidth
+                label="Effective From"
+                type="month"
+                value={salaryForm.effectiveFrom}
+                onChange={(e) => setSalaryForm({ ...salaryForm, effectiveFrom: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <TextField
+                fullWidth
+                label="Basic (₹/month)"
+                type="number"
+                value={salaryForm.basicMonthly}
+                onChange={(e) => setSalaryForm({ ...salaryForm, basicMonthly: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <TextField
+                fullWidth
+                label="DA (₹/month)"
+                type="number"
+                value={salaryForm.daMonthly}
+                onChange={(e) => setSalaryForm({ ...salaryForm, daMonthly: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                fullWidth
+                label="HRA (₹/month)"
+                type="number"
+                value={salaryForm.hraMonthly}
+                onChange={(e) => setSalaryForm({ ...salaryForm, hraMonthly: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12 }}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={salaryForm.isMetro}
+                    onChange={(e) => setSalaryForm({ ...salaryForm, isMetro: e.target.checked })}
+                  />
+                }
+                label="I live in Delhi, Mumbai, Kolkata or Chennai"
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSalaryDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" startIcon={<Save />} onClick={handleSaveSalaryStructure}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Record Tax Payment Dialog */}
+      <Dialog open={paymentDialogOpen} onClose={() => setPaymentDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Record Tax Payment</DialogTitle>
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 1 }}>
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                fullWidth
+                label="Amount (₹)"
+                type="number"
+                value={paymentForm.amount}
+                onChange={(e) => setPaymentForm({ ...paymentForm, amount: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                fullWidth
+                label="Paid On"
+                type="date"
+                value={paymentForm.paidOn}
+                onChange={(e) => setPaymentForm({ ...paymentForm, paidOn: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                fullWidth
+                label="Challan Number (optional)"
+                value={paymentForm.challanNumber}
+                onChange={(e) => setPaymentForm({ ...paymentForm, challanNumber: e.target.value })}
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPaymentDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleRecordTaxPayment}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Form 16 / Salary Slip Import Dialog */}
+      <Dialog open={importDialogOpen} onClose={() => setImportDialogOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>Import Form 16 or Salary Slip</DialogTitle>
+        <DialogContent>
+          {!importPreview ? (
+            <>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Paste the text of your Form 16 Part B or a monthly salary slip (copy it from the PDF), or upload a
+                text file. You can review every change before your profile is updated.
+              </Typography>
+              <Box display="flex" gap={2} alignItems="center" mb={2}>
+                <FormControl size="small" sx={{ minWidth: 180 }}>
+                  <InputLabel>Document</InputLabel>
+                  <Select
+                    value={importType}
+                    label="Document"
+                    onChange={(e) => setImportType(e.target.value as SalaryDocumentType | 'auto')}
+                  >
+                    <MenuItem value="auto">Detect automatically</MenuItem>
+                    <MenuItem value="form16">Form 16 Part B</MenuItem>
+                    <MenuItem value="salary_slip">Salary slip</MenuItem>
+                  </Select>
+                </FormControl>
+                <Button component="label" variant="outlined" startIcon={<UploadFile />}>
+                  Upload Text File
+                  <input
+                    type="file"
+                    hidden
+                    accept=".txt,text/plain"
+                    onChange={(e) => handleImportFile(e.target.files?.[0])}
+                  />
+                </Button>
+              </Box>
+              <TextField
+                fullWidth
+                multiline
+                minRows={10}
+                maxRows={20}
+                label="Document text"
+                value={importText}
+                onChange={(e) => setImportText(e.target.value)}
+              />
+            </>
+          ) : (
+            <>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                {importPreview.parsed.documentType === 'form16' ? 'Form 16' : 'Salary slip'}
+                {importPreview.parsed.employer && ` from ${importPreview.parsed.employer}`} ·{' '}
+                {importPreview.parsed.financialYear}. Tick the changes to apply; deductions are added on top of
+                what is already in your profile.
+              </Typography>
+              {importPreview.parsed.warnings.map(warning => (
+                <Alert key={warning} severity="warning" sx={{ mb: 1 }}>
+                  {warning}
+                </Alert>
+              ))}
+              <List dense>
+                {importPreview.changes.map((change, index) => (
+                  <ListItem key={change.key}>
+                    <ListItemIcon>
+                      <Checkbox
+                        edge="start"
+                        checked={change.apply}
+                        disabled={!change.writable || !change.changed}
+                        onChange={() => handleToggleImportChange(index)}
+                      />
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={
+                        `${change.label}: ₹${Math.round(change.current).toLocaleString('en-IN')} → ` +
+                        `₹${Math.round(change.imported).toLocaleString('en-IN')}` +
+                        (change.changed ? '' : ' (no change)')
+                      }
+                      secondary={change.note}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </>
+          )}
+          {importError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {importError}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setImportDialogOpen(false)}>Cancel</Button>
+          {importPreview ? (
+            <>
+              <Button onClick={() => setImportPreview(null)}>Back</Button>
+              <Button
+                variant="contained"
+                startIcon={<Save />}
+                onClick={handleApplyImport}
+                disabled={!importPreview.changes.some(c => c.apply)}
+              >
+                Apply Changes
+              </Button>
+            </>
+          ) : (
+            <Button variant="contained" onClick={handlePreviewImport} disabled={!importText.trim()}>
+              Preview Changes
+            </Button>
+          )}
+        </DialogActions>
+      </Dialog>
+
+      {/* ITR Export Dialog */}
+      <Dialog open={itrDialogOpen} onClose={() => setItrDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Export ITR</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Builds an ITR-1 or ITR-2 JSON for last financial year from your profile, capital gains and tax
+            payments, with a readable summary. These details are needed for filing and are not saved.
+          </Typography>
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <TextField
+                fullWidth
+                label="Date of Birth"
+                type="date"
+                value={itrForm.dateOfBirth}
+                onChange={(e) => setItrForm({ ...itrForm, dateOfBirth: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <TextField
+                fullWidth
+                label="Mobile"
+                value={itrForm.mobile}
+                onChange={(e) => setItrForm({ ...itrForm, mobile: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                fullWidth
+                label="Email"
+                value={itrForm.email}
+                onChange={(e) => setItrForm({ ...itrForm, email: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                fullWidth
+                label="Address"
+                value={itrForm.line1}
+                onChange={(e) => setItrForm({ ...itrForm, line1: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 4 }}>
+              <TextField
+                fullWidth
+                label="City"
+                value={itrForm.city}
+                onChange={(e) => setItrForm({ ...itrForm, city: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 4 }}>
+              <TextField
+                fullWidth
+                label="State"
+                value={itrForm.state}
+                onChange={(e) => setItrForm({ ...itrForm, state: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 4 }}>
+              <TextField
+                fullWidth
+                label="PIN Code"
+                value={itrForm.pinCode}
+                onChange={(e) => setItrForm({ ...itrForm, pinCode: e.target.value })}
+                inputProps={{ maxLength: 6 }}
+              />
+            </Grid>
+          </Grid>
+          {itrIssues.length > 0 && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              <Typography variant="subtitle2" fontWeight="bold">
+                Fix these before exporting:
+              </Typography>
+              {itrIssues.map(issue => (
+                <Typography key={issue.field} variant="body2">
+                  • {issue.message} ({issue.field})
+                </Typography>
+              ))}
+            </Alert>
+          )}
+          {itrBundle && (
+            <Alert severity="success" sx={{ mt: 2 }}>
+              <Typography variant="subtitle2" fontWeight="bold">
+                {itrBundle.form} for {itrBundle.assessmentYear} downloaded
+              </Typography>
+              <Box component="pre" sx={{ whiteSpace: 'pre-wrap', fontSize: 12, m: 0 }}>
+                {itrBundle.summary}
+              </Box>
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setItrDialogOpen(false)}>Close</Button>
+          <Button
+            variant="contained"
+            startIcon={generatingItr ? <CircularProgress size={20} /> : <Download />}
+            onClick={handleGenerateItr}
+            disabled={generatingItr}
+          >
+            Generate
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Success/Error Snackbar */}
       <Snackbar
         open={snackbarOpen}
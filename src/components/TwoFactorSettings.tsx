@@ -0,0 +1,133 @@
+/**
+ * Two-Factor Settings Component
+ * Enroll or remove an authenticator app used for step-up verification
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Alert,
+  Chip,
+  Stack,
+  CircularProgress,
+} from '@mui/material';
+import { Security } from '@mui/icons-material';
+import { stepUpAuthService, type TotpEnrollment } from '../services/stepUpAuthService';
+import { useAppStore } from '../store/useAppStore';
+import StepUpDialog from './StepUpDialog';
+
+const TwoFactorSettings: React.FC = () => {
+  const { user } = useAppStore();
+  const [enabled, setEnabled] = useState<boolean | null>(null);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [disableOpen, setDisableOpen] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    stepUpAuthService.isTotpEnabled(user.id).then(setEnabled);
+  }, [user]);
+
+  if (!user) return null;
+
+  const handleStart = () => {
+    setMessage(null);
+    setCode('');
+    setEnrollment(stepUpAuthService.beginTotpEnrollment(user.id, user.email));
+  };
+
+  const handleConfirm = async () => {
+    setConfirming(true);
+    try {
+      const result = await stepUpAuthService.confirmTotpEnrollment(user.id, code);
+      setMessage({ severity: result.success ? 'success' : 'error', text: result.message });
+      if (result.success) {
+        setEnrollment(null);
+        setEnabled(true);
+      }
+    } finally {
+      setConfirming(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={1} alignItems="center" mb={1}>
+        <Security color="primary" />
+        <Typography variant="h6" fontWeight="bold">
+          Two-Factor Authentication
+        </Typography>
+        {enabled !== null && (
+          <Chip label={enabled ? 'Enabled' : 'Disabled'} color={enabled ? 'success' : 'default'} size="small" />
+        )}
+      </Stack>
+      <Typography variant="body2" color="text.secondary" mb={2}>
+        Approvals that move ₹50,000 or more (sell orders, loan confirmations, savings and agent transfers) ask you to
+        verify again. With an authenticator app you can use a 6-digit code instead of your password.
+      </Typography>
+
+      {message && (
+        <Alert severity={message.severity} sx={{ mb: 2 }} onClose={() => setMessage(null)}>
+          {message.text}
+        </Alert>
+      )}
+
+      {enabled === null ? (
+        <CircularProgress size={24} />
+      ) : enabled ? (
+        <Button variant="outlined" color="error" onClick={() => setDisableOpen(true)}>
+          Disable authenticator
+        </Button>
+      ) : enrollment ? (
+        <Box>
+          <Typography variant="body2" mb={1}>
+            Add this key to Google Authenticator, Authy or a similar app, then enter the code it shows.
+          </Typography>
+          <Typography variant="body1" fontFamily="monospace" sx={{ wordBreak: 'break-all', mb: 1 }}>
+            {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+          </Typography>
+          <Typography variant="caption" color="text.secondary" display="block" sx={{ wordBreak: 'break-all', mb: 2 }}>
+            {enrollment.otpauthUri}
+          </Typography>
+          <Stack direction="row" spacing={1}>
+            <TextField
+              size="small"
+              label="6-digit code"
+              value={code}
+              onChange={e => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+              inputProps={{ inputMode: 'numeric', autoComplete: 'one-time-code' }}
+            />
+            <Button variant="contained" onClick={handleConfirm} disabled={code.length !== 6 || confirming}>
+              Confirm
+            </Button>
+            <Button onClick={() => setEnrollment(null)}>Cancel</Button>
+          </Stack>
+        </Box>
+      ) : (
+        <Button variant="contained" onClick={handleStart}>
+          Set up authenticator app
+        </Button>
+      )}
+
+      <StepUpDialog
+        open={disableOpen}
+        userId={user.id}
+        purpose="disable two-factor authentication"
+        onClose={() => setDisableOpen(false)}
+        onVerified={async () => {
+          setDisableOpen(false);
+          await stepUpAuthService.disableTotp(user.id);
+          setEnabled(false);
+          setMessage({ severity: 'success', text: 'Two-factor authentication disabled' });
+        }}
+      />
+    </Box>
+  );
+};
+
+export default TwoFactorSettings;
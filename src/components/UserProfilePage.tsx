@@ -55,9 +55,8 @@ import {
 } from '@mui/icons-material';
 import { getCurrentUser, getUserProfile, type UserProfile } from '../services/authService';
 import { getUserAgents, type Agent } from '../services/agentMarketplace';
-import { getPortfolioPositions } from '../services/watchlistService';
 import ActivityLogViewer from './ActivityLogViewer';
-import type { PortfolioPosition } from '../services/stockMonitoringAgent';
+import { stockMonitoringAgent, type PortfolioPosition } from '../services/stockMonitoringAgent';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -124,7 +123,7 @@ export const UserProfilePage: React.FC = () => {
       const [userProfile, userAgents, userPortfolio] = await Promise.all([
         getUserProfile(userId),
         getUserAgents(userId),
-        getPortfolioPositions(userId),
+        stockMonitoringAgent.getPortfolio(userId),
       ]);
 
       setProfile(userProfile);
@@ -150,7 +149,7 @@ export const UserProfilePage: React.FC = () => {
       // Reload all data
       const [userAgents, userPortfolio] = await Promise.all([
         getUserAgents(userId),
-        getPortfolioPositions(userId),
+        stockMonitoringAgent.getPortfolio(userId),
       ]);
 
       setAgents(userAgents);
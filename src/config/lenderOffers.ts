@@ -0,0 +1,217 @@
+/**
+ * Lender Offers - Refinance and balance-transfer terms per lender
+ *
+ * Indicative rates and charges used to compare switching an existing loan.
+ * Update the table when lenders revise their rates. Foreclosure charges are
+ * what the lender charges when a loan with it is closed early; RBI does not
+ * allow them on floating-rate loans to individuals, so home and education
+ * loans carry none. Eligibility terms are each lender's FOIR (fixed
+ * obligations to income ratio) ceiling and income multiple.
+ */
+
+export type OfferLoanType = 'Home Loan' | 'Education Loan' | 'Personal Loan' | 'Car Loan' | 'Business Loan';
+
+export interface TopUpTerms {
+  rate: number; // percent
+  maxAmount: number;
+}
+
+export interface LenderOffer {
+  lender: string;
+  loanType: OfferLoanType;
+  rate: number; // percent, balance transfer rate
+  processingFeePercent: number; // of the amount transferred
+  processingFeeCap: number | null; // rupees
+  foreclosureChargePercent: number; // charged when leaving this lender
+  maxTenureMonths: number;
+  maxFoirPercent: number; // EMIs and obligations as a share of monthly income
+  incomeMultiplier: number | null; // Largest loan as a multiple of monthly income
+  topUp: TopUpTerms | null;
+  features: string[];
+}
+
+export const LENDER_OFFERS: LenderOffer[] = [
+  // Home loans
+  {
+    lender: 'SBI',
+    loanType: 'Home Loan',
+    rate: 8.25,
+    processingFeePercent: 0.35,
+    processingFeeCap: 10000,
+    foreclosureChargePercent: 0,
+    maxTenureMonths: 360,
+    maxFoirPercent: 55,
+    incomeMultiplier: 72,
+    topUp: { rate: 8.75, maxAmount: 5000000 },
+    features: ['Lowest interest rate', 'Flexible prepayment'],
+  },
+  {
+    lender: 'HDFC',
+    loanType: 'Home Loan',
+    rate: 8.4,
+    processingFeePercent: 0.5,
+    processingFeeCap: 15000,
+    foreclosureChargePercent: 0,
+    maxTenureMonths: 360,
+    maxFoirPercent: 50,
+    incomeMultiplier: 60,
+    topUp: { rate: 9.1, maxAmount: 5000000 },
+    features: ['Quick approval', 'Digital process'],
+  },
+  {
+    lender: 'ICICI',
+    loanType: 'Home Loan',
+    rate: 8.5,
+    processingFeePercent: 0.5,
+    processingFeeCap: null,
+    foreclosureChargePercent: 0,
+    maxTenureMonths: 360,
+    maxFoirPercent: 50,
+    incomeMultiplier: 60,
+    topUp: { rate: 9.25, maxAmount: 3000000 },
+    features: ['Doorstep service', 'Top-up facility'],
+  },
+  {
+    lender: 'Bank of Baroda',
+    loanType: 'Home Loan',
+    rate: 8.15,
+    processingFeePercent: 0.25,
+    processingFeeCap: 25000,
+    foreclosureChargePercent: 0,
+    maxTenureMonths: 360,
+    maxFoirPercent: 55,
+    incomeMultiplier: 72,
+    topUp: null,
+    features: ['Low processing fee'],
+  },
+
+  // Education loans
+  {
+    lender: 'SBI',
+    loanType: 'Education Loan',
+    rate: 9.15,
+    processingFeePercent: 0,
+    processingFeeCap: null,
+    foreclosureChargePercent: 0,
+    maxTenureMonths: 180,
+    maxFoirPercent: 60,
+    incomeMultiplier: null,
+    topUp: null,
+    features: ['No processing fee', 'Section 80E benefit'],
+  },
+  {
+    lender: 'Axis Bank',
+    loanType: 'Education Loan',
+    rate: 9.7,
+    processingFeePercent: 1,
+    processingFeeCap: 15000,
+    foreclosureChargePercent: 0,
+    maxTenureMonths: 180,
+    maxFoirPercent: 55,
+    incomeMultiplier: null,
+    topUp: null,
+    features: ['Covers all expenses'],
+  },
+
+  // Personal loans
+  {
+    lender: 'HDFC',
+    loanType: 'Personal Loan',
+    rate: 10.75,
+    processingFeePercent: 1.5,
+    processingFeeCap: 6500,
+    foreclosureChargePercent: 4,
+    maxTenureMonths: 72,
+    maxFoirPercent: 50,
+    incomeMultiplier: 24,
+    topUp: { rate: 11.25, maxAmount: 1000000 },
+    features: ['Instant disbursal'],
+  },
+  {
+    lender: 'ICICI',
+    loanType: 'Personal Loan',
+    rate: 10.85,
+    processingFeePercent: 2,
+    processingFeeCap: null,
+    foreclosureChargePercent: 5,
+    maxTenureMonths: 72,
+    maxFoirPercent: 50,
+    incomeMultiplier: 20,
+    topUp: { rate: 11.5, maxAmount: 1000000 },
+    features: ['Pre-approved offers'],
+  },
+  {
+    lender: 'Bajaj Finserv',
+    loanType: 'Personal Loan',
+    rate: 11.5,
+    processingFeePercent: 2.5,
+    processingFeeCap: null,
+    foreclosureChargePercent: 4.72,
+    maxTenureMonths: 84,
+    maxFoirPercent: 55,
+    incomeMultiplier: 30,
+    topUp: { rate: 12, maxAmount: 1500000 },
+    features: ['Flexi loan facility'],
+  },
+
+  // Car loans
+  {
+    lender: 'SBI',
+    loanType: 'Car Loan',
+    rate: 9.1,
+    processingFeePercent: 0.5,
+    processingFeeCap: 10000,
+    foreclosureChargePercent: 3,
+    maxTenureMonths: 84,
+    maxFoirPercent: 55,
+    incomeMultiplier: 36,
+    topUp: null,
+    features: ['On-road price funding'],
+  },
+  {
+    lender: 'HDFC',
+    loanType: 'Car Loan',
+    rate: 9.4,
+    processingFeePercent: 0.5,
+    processingFeeCap: 7500,
+    foreclosureChargePercent: 5,
+    maxTenureMonths: 84,
+    maxFoirPercent: 50,
+    incomeMultiplier: 36,
+    topUp: null,
+    features: ['Quick approval'],
+  },
+
+  // Business loans
+  {
+    lender: 'Axis Bank',
+    loanType: 'Business Loan',
+    rate: 13.5,
+    processingFeePercent: 2,
+    processingFeeCap: null,
+    foreclosureChargePercent: 4,
+    maxTenureMonths: 60,
+    maxFoirPercent: 50,
+    incomeMultiplier: 24,
+    topUp: null,
+    features: ['Collateral-free'],
+  },
+];
+
+// Charged by lenders not in the table when a loan is closed early
+export const DEFAULT_FORECLOSURE_CHARGE_PERCENT: Record<OfferLoanType, number> = {
+  'Home Loan': 0,
+  'Education Loan': 0,
+  'Personal Loan': 4,
+  'Car Loan': 5,
+  'Business Loan': 4,
+};
+
+// Age by which each kind of loan must be repaid
+export const MAX_AGE_AT_MATURITY: Record<OfferLoanType, number> = {
+  'Home Loan': 70,
+  'Education Loan': 65,
+  'Personal Loan': 60,
+  'Car Loan': 65,
+  'Business Loan': 65,
+};
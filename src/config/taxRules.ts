@@ -0,0 +1,399 @@
+/**
+ * Income Tax Rules - Versioned slab tables per financial year
+ *
+ * Each financial year carries its own slabs, standard deduction, Section 87A
+ * rebate, surcharge bands and cess for both regimes, plus the Section 194
+ * dividend TDS threshold. Add a new entry here when
+ * the Finance Act changes; the tax engine picks the table by financial year.
+ *
+ * Capital gains rules are keyed by transfer date instead, since rates can
+ * change mid-year, and come with the Cost Inflation Index used for indexation.
+ */
+
+export type TaxRegime = 'old' | 'new';
+
+export type AgeCategory = 'below60' | 'senior' | 'superSenior';
+
+export interface TaxSlabRule {
+  upTo: number | null; // upper bound of the slab, null for the top slab
+  rate: number; // percent
+}
+
+export interface RebateRule {
+  incomeLimit: number; // rebate applies while taxable income is at or below this
+  maxRebate: number;
+  marginalRelief: boolean; // tax just above the limit cannot exceed the excess income
+}
+
+export interface SurchargeBand {
+  above: number; // taxable income threshold
+  rate: number; // percent of income tax
+}
+
+export interface RegimeRules {
+  slabs: Record<AgeCategory, TaxSlabRule[]>;
+  standardDeduction: number;
+  rebate: RebateRule;
+  surcharge: SurchargeBand[];
+  allowsChapterVIA: boolean; // 80C, 80D, 24(b) etc.
+}
+
+export interface DeductionLimits {
+  section80C: number;
+  section80D: number;
+  section80DSenior: number;
+  section80CCD1B: number;
+  section24b: number;
+  section80TTA: number;
+  section80TTB: number;
+}
+
+export interface DividendTdsRule {
+  threshold: number; // Section 194: TDS once a company's dividends to a resident exceed this in the year
+  rate: number; // percent
+}
+
+export interface FinancialYearTaxRules {
+  financialYear: string; // e.g. 'FY2024-25'
+  assessmentYear: string; // e.g. 'AY2025-26'
+  old: RegimeRules;
+  new: RegimeRules;
+  cessRate: number; // percent
+  deductionLimits: DeductionLimits;
+  dividendTds: DividendTdsRule;
+}
+
+// ==================== Shared Tables ====================
+
+const OLD_REGIME_SLABS: Record<AgeCategory, TaxSlabRule[]> = {
+  below60: [
+    { upTo: 250000, rate: 0 },
+    { upTo: 500000, rate: 5 },
+    { upTo: 1000000, rate: 20 },
+    { upTo: null, rate: 30 },
+  ],
+  senior: [
+    { upTo: 300000, rate: 0 },
+    { upTo: 500000, rate: 5 },
+    { upTo: 1000000, rate: 20 },
+    { upTo: null, rate: 30 },
+  ],
+  superSenior: [
+    { upTo: 500000, rate: 0 },
+    { upTo: 1000000, rate: 20 },
+    { upTo: null, rate: 30 },
+  ],
+};
+
+const OLD_REGIME: RegimeRules = {
+  slabs: OLD_REGIME_SLABS,
+  standardDeduction: 50000,
+  rebate: { incomeLimit: 500000, maxRebate: 12500, marginalRelief: false },
+  surcharge: [
+    { above: 5000000, rate: 10 },
+    { above: 10000000, rate: 15 },
+    { above: 20000000, rate: 25 },
+    { above: 50000000, rate: 37 },
+  ],
+  allowsChapterVIA: true,
+};
+
+// The new regime caps surcharge at 25% from FY2023-24
+const NEW_REGIME_SURCHARGE: SurchargeBand[] = [
+  { above: 5000000, rate: 10 },
+  { above: 10000000, rate: 15 },
+  { above: 20000000, rate: 25 },
+];
+
+const DEDUCTION_LIMITS: DeductionLimits = {
+  section80C: 150000,
+  section80D: 25000,
+  section80DSenior: 50000,
+  section80CCD1B: 50000,
+  section24b: 200000,
+  section80TTA: 10000,
+  section80TTB: 50000,
+};
+
+// New regime slabs do not vary by age
+const sameForAllAges = (slabs: TaxSlabRule[]): Record<AgeCategory, TaxSlabRule[]> => ({
+  below60: slabs,
+  senior: slabs,
+  superSenior: slabs,
+});
+
+// ==================== Financial Years ====================
+
+export const TAX_RULES: FinancialYearTaxRules[] = [
+  {
+    financialYear: 'FY2023-24',
+    assessmentYear: 'AY2024-25',
+    old: OLD_REGIME,
+    new: {
+      slabs: sameForAllAges([
+        { upTo: 300000, rate: 0 },
+        { upTo: 600000, rate: 5 },
+        { upTo: 900000, rate: 10 },
+        { upTo: 1200000, rate: 15 },
+        { upTo: 1500000, rate: 20 },
+        { upTo: null, rate: 30 },
+      ]),
+      standardDeduction: 50000,
+      rebate: { incomeLimit: 700000, maxRebate: 25000, marginalRelief: true },
+      surcharge: NEW_REGIME_SURCHARGE,
+      allowsChapterVIA: false,
+    },
+    cessRate: 4,
+    deductionLimits: DEDUCTION_LIMITS,
+    dividendTds: { threshold: 5000, rate: 10 },
+  },
+  {
+    financialYear: 'FY2024-25',
+    assessmentYear: 'AY2025-26',
+    old: OLD_REGIME,
+    new: {
+      slabs: sameForAllAges([
+        { upTo: 300000, rate: 0 },
+        { upTo: 700000, rate: 5 },
+        { upTo: 1000000, rate: 10 },
+        { upTo: 1200000, rate: 15 },
+        { upTo: 1500000, rate: 20 },
+        { upTo: null, rate: 30 },
+      ]),
+      standardDeduction: 75000,
+      rebate: { incomeLimit: 700000, maxRebate: 25000, marginalRelief: true },
+      surcharge: NEW_REGIME_SURCHARGE,
+      allowsChapterVIA: false,
+    },
+    cessRate: 4,
+    deductionLimits: DEDUCTION_LIMITS,
+    dividendTds: { threshold: 5000, rate: 10 },
+  },
+  {
+    financialYear: 'FY2025-26',
+    assessmentYear: 'AY2026-27',
+    old: OLD_REGIME,
+    new: {
+      slabs: sameForAllAges([
+        { upTo: 400000, rate: 0 },
+        { upTo: 800000, rate: 5 },
+        { upTo: 1200000, rate: 10 },
+        { upTo: 1600000, rate: 15 },
+        { upTo: 2000000, rate: 20 },
+        { upTo: 2400000, rate: 25 },
+        { upTo: null, rate: 30 },
+      ]),
+      standardDeduction: 75000,
+      rebate: { incomeLimit: 1200000, maxRebate: 60000, marginalRelief: true },
+      surcharge: NEW_REGIME_SURCHARGE,
+      allowsChapterVIA: false,
+    },
+    cessRate: 4,
+    deductionLimits: DEDUCTION_LIMITS,
+    dividendTds: { threshold: 10000, rate: 10 },
+  },
+];
+
+// ==================== Capital Gains ====================
+
+export type CapitalAssetClass =
+  | 'listed_equity'
+  | 'equity_mf'
+  | 'debt_mf'
+  | 'gold'
+  | 'real_estate'
+  | 'unlisted_equity' // Unlisted and foreign shares
+  | 'crypto';
+
+export type GainsRate = number | 'slab'; // percent, or taxed with other income at slab rates
+
+export interface AssetClassGainsRule {
+  longTermAfterMonths: number; // held for more than this many months
+  shortTermRate: GainsRate;
+  longTermRate: GainsRate;
+  indexation: boolean; // long-term gains use CII-indexed cost
+  shortTermSection: string;
+  longTermSection: string;
+  slabIfAcquiredFrom?: string; // Section 50AA: units bought on/after this date are always slab-rate
+  indexationOptionBefore?: string; // Assets bought before this date may pick indexed cost at indexationOptionRate
+  indexationOptionRate?: number;
+  lossSetOff: boolean; // false for crypto (Section 115BBH)
+}
+
+export interface CapitalGainsRules {
+  effectiveFrom: string; // transfer (sale) date from which these rules apply
+  ltcgExemption: number; // Section 112A, per financial year
+  exemptSection: string;
+  assetClasses: Record<CapitalAssetClass, AssetClassGainsRule>;
+}
+
+const CRYPTO_RULE: AssetClassGainsRule = {
+  longTermAfterMonths: 36,
+  shortTermRate: 30,
+  longTermRate: 30,
+  indexation: false,
+  shortTermSection: '115BBH',
+  longTermSection: '115BBH',
+  lossSetOff: false,
+};
+
+export const CAPITAL_GAINS_RULES: CapitalGainsRules[] = [
+  {
+    effectiveFrom: '2023-04-01',
+    ltcgExemption: 100000,
+    exemptSection: '112A',
+    assetClasses: {
+      listed_equity: {
+        longTermAfterMonths: 12,
+        shortTermRate: 15,
+        longTermRate: 10,
+        indexation: false,
+        shortTermSection: '111A',
+        longTermSection: '112A',
+        lossSetOff: true,
+      },
+      equity_mf: {
+        longTermAfterMonths: 12,
+        shortTermRate: 15,
+        longTermRate: 10,
+        indexation: false,
+        shortTermSection: '111A',
+        longTermSection: '112A',
+        lossSetOff: true,
+      },
+      debt_mf: {
+        longTermAfterMonths: 36,
+        shortTermRate: 'slab',
+        longTermRate: 20,
+        indexation: true,
+        shortTermSection: 'Slab',
+        longTermSection: '112',
+        slabIfAcquiredFrom: '2023-04-01',
+        lossSetOff: true,
+      },
+      gold: {
+        longTermAfterMonths: 36,
+        shortTermRate: 'slab',
+        longTermRate: 20,
+        indexation: true,
+        shortTermSection: 'Slab',
+        longTermSection: '112',
+        lossSetOff: true,
+      },
+      real_estate: {
+        longTermAfterMonths: 24,
+        shortTermRate: 'slab',
+        longTermRate: 20,
+        indexation: true,
+        shortTermSection: 'Slab',
+        longTermSection: '112',
+        lossSetOff: true,
+      },
+      unlisted_equity: {
+        longTermAfterMonths: 24,
+        shortTermRate: 'slab',
+        longTermRate: 20,
+        indexation: true,
+        shortTermSection: 'Slab',
+        longTermSection: '112',
+        lossSetOff: true,
+      },
+      crypto: CRYPTO_RULE,
+    },
+  },
+  {
+    // Finance (No. 2) Act 2024: new rates for transfers from 23 July 2024
+    effectiveFrom: '2024-07-23',
+    ltcgExemption: 125000,
+    exemptSection: '112A',
+    assetClasses: {
+      listed_equity: {
+        longTermAfterMonths: 12,
+        shortTermRate: 20,
+        longTermRate: 12.5,
+        indexation: false,
+        shortTermSection: '111A',
+        longTermSection: '112A',
+        lossSetOff: true,
+      },
+      equity_mf: {
+        longTermAfterMonths: 12,
+        shortTermRate: 20,
+        longTermRate: 12.5,
+        indexation: false,
+        shortTermSection: '111A',
+        longTermSection: '112A',
+        lossSetOff: true,
+      },
+      debt_mf: {
+        longTermAfterMonths: 24,
+        shortTermRate: 'slab',
+        longTermRate: 12.5,
+        indexation: false,
+        shortTermSection: 'Slab',
+        longTermSection: '112',
+        slabIfAcquiredFrom: '2023-04-01',
+        lossSetOff: true,
+      },
+      gold: {
+        longTermAfterMonths: 24,
+        shortTermRate: 'slab',
+        longTermRate: 12.5,
+        indexation: false,
+        shortTermSection: 'Slab',
+        longTermSection: '112',
+        lossSetOff: true,
+      },
+      real_estate: {
+        longTermAfterMonths: 24,
+        shortTermRate: 'slab',
+        longTermRate: 12.5,
+        indexation: false,
+        shortTermSection: 'Slab',
+        longTermSection: '112',
+        indexationOptionBefore: '2024-07-23',
+        indexationOptionRate: 20,
+        lossSetOff: true,
+      },
+      unlisted_equity: {
+        longTermAfterMonths: 24,
+        shortTermRate: 'slab',
+        longTermRate: 12.5,
+        indexation: false,
+        shortTermSection: 'Slab',
+        longTermSection: '112',
+        lossSetOff: true,
+      },
+      crypto: CRYPTO_RULE,
+    },
+  },
+];
+
+// Cost Inflation Index (base year FY2001-02 = 100)
+export const COST_INFLATION_INDEX: Record<string, number> = {
+  'FY2001-02': 100,
+  'FY2002-03': 105,
+  'FY2003-04': 109,
+  'FY2004-05': 113,
+  'FY2005-06': 117,
+  'FY2006-07': 122,
+  'FY2007-08': 129,
+  'FY2008-09': 137,
+  'FY2009-10': 148,
+  'FY2010-11': 167,
+  'FY2011-12': 184,
+  'FY2012-13': 200,
+  'FY2013-14': 220,
+  'FY2014-15': 240,
+  'FY2015-16': 254,
+  'FY2016-17': 264,
+  'FY2017-18': 272,
+  'FY2018-19': 280,
+  'FY2019-20': 289,
+  'FY2020-21': 301,
+  'FY2021-22': 317,
+  'FY2022-23': 331,
+  'FY2023-24': 348,
+  'FY2024-25': 363,
+  'FY2025-26': 376,
+};
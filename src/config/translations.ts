@@ -7,6 +7,7 @@ export const translations = {
     agents: "AI Agents Hub",
     stocks: "Stock Monitor",
     risk: "Risk Analysis",
+    approvals: "Approvals",
     welcome: "Welcome back",
     netWorth: "Net Worth",
     assets: "Total Assets",
@@ -88,6 +89,7 @@ export const translations = {
     agents: "एआई एजेंट हब",
     stocks: "स्टॉक मॉनिटर",
     risk: "जोखिम विश्लेषण",
+    approvals: "अनुमोदन",
     welcome: "वापसी पर स्वागत है",
     netWorth: "कुल संपत्ति",
     assets: "कुल संपत्ति",
@@ -169,6 +171,7 @@ export const translations = {
     agents: "AI ఏజెంట్స్ హబ్",
     stocks: "స్టాక్ మానిటర్",
     risk: "రిస్క్ విశ్లేషణ",
+    approvals: "ఆమోదాలు",
     welcome: "తిరిగి స్వాగతం",
     netWorth: "నికర విలువ",
     assets: "మొత్తం ఆస్తులు",
@@ -250,6 +253,7 @@ export const translations = {
     agents: "AI ஏஜெண்ட்ஸ் హబ్",
     stocks: "பங்கு கண்காணிப்பு",
     risk: "ஆபத்து பகுப்பாய்வு",
+    approvals: "ஒப்புதல்கள்",
     welcome: "மீண்டும் வருக",
     netWorth: "நிகர மதிப்பு",
     assets: "மொத்த சொத்துக்கள்",
@@ -331,6 +335,7 @@ export const translations = {
     agents: "AI ഏജന്റ്സ് ഹബ്",
     stocks: "സ്റ്റോക്ക് മോണിറ്റർ",
     risk: "റിസ്ക് അനാലിസിസ്",
+    approvals: "അംഗീകാരങ്ങൾ",
     welcome: "വീണ്ടും സ്വാഗതം",
     netWorth: "നെറ്റ് വർത്ത്",
     assets: "ആകെ ആസ്തികൾ",
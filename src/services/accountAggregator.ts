@@ -2,6 +2,7 @@ import axios from 'axios';
 import { db } from '../config/firebase';
 import { collection, addDoc, query, where, getDocs, Timestamp } from 'firebase/firestore';
 import type { FinancialAccount, Transaction } from '../types';
+import { agentEventBus } from './agentEventBus';
 
 const AA_API_BASE_URL = import.meta.env.VITE_AA_BASE_URL;
 const AA_API_KEY = import.meta.env.VITE_AA_API_KEY;
@@ -121,7 +122,8 @@ export class AccountAggregatorService {
   async fetchTransactions(
     accountId: string,
     fromDate: Date,
-    toDate: Date
+    toDate: Date,
+    userId?: string // Owner; when given, new transactions are published to agents
   ): Promise<Transaction[]> {
     try {
       const response = await axios.post(
@@ -157,6 +159,10 @@ export class AccountAggregatorService {
           date: Timestamp.fromDate(transaction.date),
         });
       }
+
+      if (userId) {
+        await this.publishNewTransactions(userId, accountId, transactions);
+      }
       
       return transactions;
     } catch (error) {
@@ -165,6 +171,47 @@ export class AccountAggregatorService {
     }
   }
 
+  /**
+   * Publish transactions newer than the last sync to the agent event bus.
+   * The first sync only records a marker so a 90-day backfill doesn't wake every agent.
+   */
+  private async publishNewTransactions(
+    userId: string,
+    accountId: string,
+    transactions: Transaction[]
+  ): Promise<void> {
+    const markerKey = `aa_last_published_${accountId}`;
+    const marker = localStorage.getItem(markerKey);
+    const latest = transactions.reduce((max, t) => Math.max(max, t.date.getTime()), 0);
+
+    if (marker) {
+      const since = new Date(marker).getTime();
+      const fresh = transactions
+        .filter(t => t.date.getTime() > since)
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+      for (const transaction of fresh) {
+        const uncategorized = transaction.category === 'Uncategorized';
+        await agentEventBus.publish(
+          'transaction',
+          userId,
+          {
+            transaction: {
+              ...transaction,
+              category: uncategorized ? null : transaction.category,
+              status: uncategorized ? 'pending_classification' : 'classified',
+            },
+          },
+          'accountAggregatorService.fetchTransactions'
+        );
+      }
+    }
+
+    if (latest > 0 && (!marker || latest > new Date(marker).getTime())) {
+      localStorage.setItem(markerKey, new Date(latest).toISOString());
+    }
+  }
+
   /**
    * Get all active accounts for a user
    */
@@ -280,7 +327,7 @@ export class AccountAggregatorService {
       fromDate.setDate(fromDate.getDate() - 90);
       
       for (const account of accounts) {
-        await this.fetchTransactions(account.id, fromDate, toDate);
+        await this.fetchTransactions(account.id, fromDate, toDate, userId);
       }
     } catch (error) {
       console.error('Error syncing accounts:', error);
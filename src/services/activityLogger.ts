@@ -41,6 +41,7 @@ export const ActivityType = {
   AGENT_EXECUTED: 'AGENT_EXECUTED',
   AGENT_DISABLED: 'AGENT_DISABLED',
   TAX_OPTIMIZATION_GENERATED: 'TAX_OPTIMIZATION_GENERATED',
+  TAX_REMINDER_SENT: 'TAX_REMINDER_SENT',
   
   // Security activities
   SUSPICIOUS_ACTIVITY_DETECTED: 'SUSPICIOUS_ACTIVITY_DETECTED',
@@ -0,0 +1,478 @@
+/**
+ * Advance Tax Planner
+ *
+ * Projects the year's tax liability from the financial profile and plans
+ * advance-tax installments under sections 208-211
+ *
+ * Features:
+ * - Liability on salary, other, rental, business and dividend income plus realized capital gains
+ * - TDS on salary (employer's projection) and dividends subtracted
+ * - 15 Jun / 15 Sep / 15 Dec / 15 Mar schedule (15% / 45% / 75% / 100%)
+ * - Section 234C interest on deferred installments, with the 12% / 36% relaxation
+ *   and the capital gains proviso
+ * - Section 234B interest when less than 90% is paid by 31 March
+ * - Installment reminders as in-app notifications and email
+ * - Firestore persistence of tax payments with LocalStorage fallback
+ */
+
+import { collection, doc, setDoc, getDocs, query, where, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { userProfileService } from './userProfileService';
+import { calculateIncomeTax, getFinancialYear, getFinancialYearDates, type TaxRegime } from './taxEngine';
+import { capitalGainsService, summarizeCapitalGains } from './capitalGainsService';
+import { corporateActionsService } from './corporateActionsService';
+import { hraExemptionService } from './hraExemption';
+import { sendEmail } from './emailService';
+import { logActivity, ActivityType } from './activityLogger';
+
+// ==================== TYPES ====================
+
+export type InstallmentStatus = 'paid' | 'short' | 'due_soon' | 'upcoming';
+
+export interface TaxPayment {
+  id: string;
+  userId: string;
+  financialYear: string;
+  amount: number;
+  paidOn: Date; // On or before 31 March: advance tax; after: self-assessment tax
+  challanNumber?: string;
+  createdAt: Date;
+}
+
+export interface AdvanceTaxInstallment {
+  dueDate: Date;
+  cumulativePercent: number;
+  requiredByDueDate: number; // cumulative
+  paidByDueDate: number; // cumulative, payments up to the due date (or to date)
+  amountDue: number; // still to pay for this installment
+  shortfall: number; // amount 234C interest is charged on
+  interestMonths: number;
+  interest234C: number;
+  status: InstallmentStatus;
+}
+
+export interface IncomeProjection {
+  salary: number;
+  otherIncome: number;
+  rentalIncome: number; // after the 30% standard deduction under section 24(a)
+  businessIncome: number;
+  dividendIncome: number;
+  capitalGains: number; // net realized gains this year
+}
+
+export interface AdvanceTaxPlan {
+  financialYear: string;
+  regime: TaxRegime;
+  income: IncomeProjection;
+  incomeTax: number; // on slab-rate income
+  capitalGainsTax: number;
+  totalLiability: number;
+  tdsOnSalary: number;
+  tdsOnDividends: number;
+  assessedTax: number; // liability after TDS
+  advanceTaxRequired: boolean;
+  exemptionReason?: string;
+  installments: AdvanceTaxInstallment[];
+  advanceTaxPaid: number; // by 31 March
+  selfAssessmentPaid: number; // after 31 March
+  balancePayable: number;
+  interest234B: number;
+  interest234C: number;
+  totalInterest: number;
+  nextInstallment: AdvanceTaxInstallment | null;
+  asOf: Date;
+}
+
+export interface ScheduleInput {
+  financialYear: string;
+  /** Assessed tax each installment is measured against; tax on capital gains counts once realized */
+  installmentBases: [number, number, number, number];
+  payments: Array<Pick<TaxPayment, 'amount' | 'paidOn'>>;
+  asOf?: Date;
+}
+
+// ==================== CONSTANTS ====================
+
+const PAYMENTS_COLLECTION = 'advance_tax_payments';
+
+const ADVANCE_TAX_THRESHOLD = 10000; // Section 208
+const SENIOR_CITIZEN_AGE = 60; // Section 207: no advance tax without business income
+const HOUSE_PROPERTY_STANDARD_DEDUCTION = 0.3; // Section 24(a)
+const INTEREST_RATE_PER_MONTH = 1; // percent, sections 234B and 234C
+const MIN_ADVANCE_TAX_PAID = 0.9; // Section 234B
+const REMINDER_DAYS = 7;
+
+// Day and month of each installment, with relaxation and 234C interest months
+const INSTALLMENTS = [
+  { month: 5, day: 15, percent: 15, relaxedPercent: 12, interestMonths: 3 },
+  { month: 8, day: 15, percent: 45, relaxedPercent: 36, interestMonths: 3 },
+  { month: 11, day: 15, percent: 75, relaxedPercent: 75, interestMonths: 3 },
+  { month: 2, day: 15, percent: 100, relaxedPercent: 100, interestMonths: 1 },
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==================== CALCULATIONS ====================
+
+/**
+ * Installment due dates for a financial year
+ */
+export function getInstallmentDueDates(financialYear: string): Date[] {
+  const startYear = getFinancialYearDates(financialYear).start.getFullYear();
+  return INSTALLMENTS.map(i => new Date(i.month < 3 ? startYear + 1 : startYear, i.month, i.day, 23, 59, 59));
+}
+
+// Rule 119A: interest is computed on amounts rounded down to the nearest hundred
+function roundDownToHundred(amount: number): number {
+  return Math.floor(Math.max(0, amount) / 100) * 100;
+}
+
+// Whole or part months from `from` to `to`
+function monthsBetween(from: Date, to: Date): number {
+  if (to < from) return 0;
+  const months = (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth());
+  return months + 1;
+}
+
+/**
+ * Installment schedule with section 234C interest
+ */
+export function buildInstallmentSchedule(input: ScheduleInput): AdvanceTaxInstallment[] {
+  const asOf = input.asOf ?? new Date();
+  const dueDates = getInstallmentDueDates(input.financialYear);
+  const paidBy = (date: Date) =>
+    input.payments.filter(p => p.paidOn <= date).reduce((sum, p) => sum + p.amount, 0);
+
+  return INSTALLMENTS.map((installment, i) => {
+    const dueDate = dueDates[i];
+    const base = Math.max(0, input.installmentBases[i]);
+    const requiredByDueDate = Math.round((base * installment.percent) / 100);
+    const isPast = dueDate < asOf;
+    const paidByDueDate = paidBy(isPast ? dueDate : asOf);
+    const amountDue = Math.max(0, requiredByDueDate - paidByDueDate);
+
+    // No interest while the relaxed share is paid on time
+    const relaxedRequirement = (base * installment.relaxedPercent) / 100;
+    const shortfall = isPast && paidByDueDate < relaxedRequirement
+      ? roundDownToHundred(requiredByDueDate - paidByDueDate)
+      : 0;
+    const interest234C = Math.round((shortfall * INTEREST_RATE_PER_MONTH * installment.interestMonths) / 100);
+
+    let status: InstallmentStatus;
+    if (amountDue === 0) status = 'paid';
+    else if (isPast) status = 'short';
+    else if (dueDate.getTime() - asOf.getTime() <= REMINDER_DAYS * DAY_MS) status = 'due_soon';
+    else status = 'upcoming';
+
+    return {
+      dueDate,
+      cumulativePercent: installment.percent,
+      requiredByDueDate,
+      paidByDueDate,
+      amountDue: isPast && i < INSTALLMENTS.length - 1 ? 0 : amountDue, // Missed amounts roll into the next installment
+      shortfall,
+      interestMonths: installment.interestMonths,
+      interest234C,
+      status,
+    };
+  });
+}
+
+/**
+ * Section 234B interest from 1 April of the assessment year until the
+ * balance is paid, or until `asOf`
+ */
+export function calculateInterest234B(
+  financialYear: string,
+  assessedTax: number,
+  payments: Array<Pick<TaxPayment, 'amount' | 'paidOn'>>,
+  asOf: Date = new Date()
+): number {
+  const yearEnd = getFinancialYearDates(financialYear).end;
+  const advancePaid = payments.filter(p => p.paidOn <= yearEnd).reduce((sum, p) => sum + p.amount, 0);
+  if (assessedTax < ADVANCE_TAX_THRESHOLD || advancePaid >= assessedTax * MIN_ADVANCE_TAX_PAID) return 0;
+
+  const assessmentYearStart = new Date(yearEnd.getFullYear(), 3, 1);
+  const months = monthsBetween(assessmentYearStart, asOf);
+  const selfAssessment = payments
+    .filter(p => p.paidOn > yearEnd)
+    .sort((a, b) => a.paidOn.getTime() - b.paidOn.getTime());
+
+  // Each month's interest is on the balance left unpaid before that month
+  let interest = 0;
+  for (let month = 0; month < months; month++) {
+    const monthStart = new Date(assessmentYearStart.getFullYear(), assessmentYearStart.getMonth() + month, 1);
+    const paidBefore = selfAssessment.filter(p => p.paidOn < monthStart).reduce((sum, p) => sum + p.amount, 0);
+    const outstanding = roundDownToHundred(assessedTax - advancePaid - paidBefore);
+    if (outstanding === 0) break;
+    interest += (outstanding * INTEREST_RATE_PER_MONTH) / 100;
+  }
+
+  return Math.round(interest);
+}
+
+// ==================== SERVICE CLASS ====================
+
+export class AdvanceTaxPlanner {
+  /**
+   * Plan advance tax for a financial year from the user's profile, realized
+   * gains, dividends and recorded payments
+   */
+  async getPlan(
+    userId: string,
+    financialYear: string = getFinancialYear(),
+    asOf: Date = new Date()
+  ): Promise<AdvanceTaxPlan | null> {
+    const profile = await userProfileService.getProfile(userId);
+    if (!profile) return null;
+
+    const regime = profile.taxRegime;
+    const age = profile.personalInfo.age;
+    const totals = userProfileService.getTotalDeductions(profile, financialYear);
+    const hra = await hraExemptionService.getHraExemption(userId, financialYear);
+    const deductions = {
+      section80C: totals.section80C,
+      section80D: totals.section80D,
+      section80CCD1B: totals.section80CCD1B,
+      homeLoanInterest: totals.homeLoanInterest,
+      educationLoanInterest: totals.educationLoanInterest,
+      hra: hra.totalExempt,
+    };
+
+    const dividends = await corporateActionsService.getDividendIncome(userId, financialYear);
+    const income: IncomeProjection = {
+      salary: profile.income.annualSalary,
+      otherIncome: profile.income.otherIncome,
+      rentalIncome: Math.round(profile.income.rentalIncome * (1 - HOUSE_PROPERTY_STANDARD_DEDUCTION)),
+      businessIncome: profile.income.businessIncome,
+      dividendIncome: dividends.gross,
+      capitalGains: 0,
+    };
+    const slabIncome =
+      income.salary + income.otherIncome + income.rentalIncome + income.businessIncome + income.dividendIncome;
+
+    const incomeTax = calculateIncomeTax({
+      grossIncome: slabIncome,
+      regime,
+      financialYear,
+      age,
+      salaried: income.salary > 0,
+      deductions,
+    }).totalTax;
+
+    // Employers deduct TDS on salary as if it were the only income; an
+    // imported Form 16 replaces the estimate
+    const tdsOnSalary = userProfileService.getReportedSalaryTds(profile, financialYear) ?? (income.salary > 0
+      ? calculateIncomeTax({ grossIncome: income.salary, regime, financialYear, age, deductions }).totalTax
+      : 0);
+
+    const lots = await capitalGainsService.getRealizedGains(userId, financialYear);
+    const summaryOptions = { regime, baseIncome: slabIncome, age };
+    const gains = summarizeCapitalGains(lots, financialYear, summaryOptions);
+    income.capitalGains = Math.round(gains.shortTermGain + gains.longTermGain);
+
+    const totalLiability = incomeTax + gains.totalTax;
+    const tdsOnDividends = dividends.tds;
+    const assessedTax = Math.max(0, totalLiability - tdsOnSalary - tdsOnDividends);
+
+    let exemptionReason: string | undefined;
+    if (age >= SENIOR_CITIZEN_AGE && income.businessIncome <= 0) {
+      exemptionReason = 'Resident senior citizens without business income do not pay advance tax (section 207)';
+    } else if (assessedTax < ADVANCE_TAX_THRESHOLD) {
+      exemptionReason = `Tax after TDS is below ₹${ADVANCE_TAX_THRESHOLD.toLocaleString('en-IN')} (section 208)`;
+    }
+    const advanceTaxRequired = !exemptionReason;
+
+    // Tax on gains only counts towards installments falling after the sale
+    const baseWithoutGains = Math.max(0, assessedTax - gains.totalTax);
+    const installmentBases = getInstallmentDueDates(financialYear).map(dueDate => {
+      const realizedBy = lots.filter(lot => lot.soldAt <= dueDate);
+      return baseWithoutGains + summarizeCapitalGains(realizedBy, financialYear, summaryOptions).totalTax;
+    }) as ScheduleInput['installmentBases'];
+
+    const payments = await this.getPayments(userId, financialYear);
+    const installments = advanceTaxRequired
+      ? buildInstallmentSchedule({ financialYear, installmentBases, payments, asOf })
+      : [];
+
+    const yearEnd = getFinancialYearDates(financialYear).end;
+    const advanceTaxPaid = payments.filter(p => p.paidOn <= yearEnd).reduce((sum, p) => sum + p.amount, 0);
+    const selfAssessmentPaid = payments.filter(p => p.paidOn > yearEnd).reduce((sum, p) => sum + p.amount, 0);
+    const interest234B = advanceTaxRequired ? calculateInterest234B(financialYear, assessedTax, payments, asOf) : 0;
+    const interest234C = installments.reduce((sum, i) => sum + i.interest234C, 0);
+
+    return {
+      financialYear,
+      regime,
+      income,
+      incomeTax,
+      capitalGainsTax: gains.totalTax,
+      totalLiability,
+      tdsOnSalary,
+      tdsOnDividends,
+      assessedTax,
+      advanceTaxRequired,
+      exemptionReason,
+      installments,
+      advanceTaxPaid,
+      selfAssessmentPaid,
+      balancePayable: Math.max(0, assessedTax - advanceTaxPaid - selfAssessmentPaid),
+      interest234B,
+      interest234C,
+      totalInterest: interest234B + interest234C,
+      nextInstallment: installments.find(i => i.dueDate >= asOf && i.amountDue > 0) ?? null,
+      asOf,
+    };
+  }
+
+  /**
+   * Record an advance-tax or self-assessment tax payment
+   */
+  async recordPayment(
+    userId: string,
+    payment: { amount: number; paidOn: Date; challanNumber?: string; financialYear?: string }
+  ): Promise<TaxPayment> {
+    if (!(payment.amount > 0)) {
+      throw new Error('Payment amount must be positive');
+    }
+
+    const record: TaxPayment = {
+      id: `${userId}_tax_${Date.now()}`,
+      userId,
+      financialYear: payment.financialYear ?? getFinancialYear(payment.paidOn),
+      amount: payment.amount,
+      paidOn: payment.paidOn,
+      ...(payment.challanNumber ? { challanNumber: payment.challanNumber } : {}),
+      createdAt: new Date(),
+    };
+
+    // 1. Save to LocalStorage first
+    const localKey = `advance_tax_payments_${userId}`;
+    const local: TaxPayment[] = JSON.parse(localStorage.getItem(localKey) || '[]');
+    local.push(record);
+    localStorage.setItem(localKey, JSON.stringify(local));
+
+    // 2. Try Firestore
+    try {
+      await setDoc(doc(db, PAYMENTS_COLLECTION, record.id), {
+        ...record,
+        paidOn: Timestamp.fromDate(record.paidOn),
+        createdAt: Timestamp.fromDate(record.createdAt),
+      });
+    } catch (error) {
+      console.warn('Firestore tax payment save failed, but saved locally:', error);
+    }
+
+    return record;
+  }
+
+  /**
+   * Tax payments for a financial year, oldest first
+   */
+  async getPayments(userId: string, financialYear?: string): Promise<TaxPayment[]> {
+    let payments: TaxPayment[] | null = null;
+
+    try {
+      const q = query(collection(db, PAYMENTS_COLLECTION), where('userId', '==', userId));
+      const snapshot = await getDocs(q);
+      if (!snapshot.empty) {
+        payments = snapshot.docs.map(d => {
+          const data = d.data();
+          return {
+            ...data,
+            id: d.id,
+            paidOn: data.paidOn?.toDate() || new Date(),
+            createdAt: data.createdAt?.toDate() || new Date(),
+          } as TaxPayment;
+        });
+        // Sync local storage
+        localStorage.setItem(`advance_tax_payments_${userId}`, JSON.stringify(payments));
+      }
+    } catch (error) {
+      console.warn('Firestore tax payments fetch failed, using local fallback:', error);
+    }
+
+    if (!payments) {
+      const local: TaxPayment[] = JSON.parse(localStorage.getItem(`advance_tax_payments_${userId}`) || '[]');
+      payments = local.map(p => ({ ...p, paidOn: new Date(p.paidOn), createdAt: new Date(p.createdAt) }));
+    }
+
+    return payments
+      .filter(p => !financialYear || p.financialYear === financialYear)
+      .sort((a, b) => a.paidOn.getTime() - b.paidOn.getTime());
+  }
+
+  /**
+   * Remind the user of installments due within a week and of missed ones.
+   * Each reminder is sent once.
+   */
+  async sendReminders(userId: string, plan: AdvanceTaxPlan): Promise<number> {
+    const sentKey = `advance_tax_reminders_${userId}`;
+    const sent: string[] = JSON.parse(localStorage.getItem(sentKey) || '[]');
+    let count = 0;
+
+    for (const installment of plan.installments) {
+      const reminderId = `${plan.financialYear}_${installment.dueDate.toISOString().slice(0, 10)}_${installment.status}`;
+      if (sent.includes(reminderId)) continue;
+
+      const dueOn = installment.dueDate.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+      let title: string;
+      let message: string;
+      if (installment.status === 'due_soon') {
+        title = `Advance tax due on ${dueOn}`;
+        message =
+          `Pay ₹${installment.amountDue.toLocaleString('en-IN')} by ${dueOn} to reach ` +
+          `${installment.cumulativePercent}% of your estimated ₹${plan.assessedTax.toLocaleString('en-IN')} ` +
+          `advance tax for ${plan.financialYear}.`;
+      } else if (installment.status === 'short' && installment.interest234C > 0) {
+        title = `Advance tax installment of ${dueOn} was short`;
+        message =
+          `₹${installment.shortfall.toLocaleString('en-IN')} was unpaid on ${dueOn}, attracting ` +
+          `₹${installment.interest234C.toLocaleString('en-IN')} interest under section 234C. ` +
+          `Pay it with the next installment to stop further interest.`;
+      } else {
+        continue;
+      }
+
+      await this.notify(userId, title, message, installment.status === 'short' ? 'high' : 'medium');
+      sent.push(reminderId);
+      count++;
+    }
+
+    localStorage.setItem(sentKey, JSON.stringify(sent));
+    return count;
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  private async notify(userId: string, title: string, message: string, priority: 'medium' | 'high'): Promise<void> {
+    const notifications = JSON.parse(localStorage.getItem(`notifications_${userId}`) || '[]');
+    notifications.push({
+      id: `NOTIF${Date.now()}`,
+      title,
+      message,
+      priority,
+      timestamp: new Date().toISOString(),
+      read: false,
+    });
+    localStorage.setItem(`notifications_${userId}`, JSON.stringify(notifications));
+
+    try {
+      await sendEmail(userId, `🧾 ${title}`, message);
+    } catch (error) {
+      console.warn('Advance tax reminder email failed:', error);
+    }
+
+    await logActivity({
+      userId,
+      type: ActivityType.TAX_REMINDER_SENT,
+      description: title,
+      severity: priority,
+    });
+
+    console.log('🔔 Advance tax reminder sent:', title);
+  }
+}
+
+// Export singleton instance
+export const advanceTaxPlanner = new AdvanceTaxPlanner();
@@ -0,0 +1,203 @@
+/**
+ * Agent Event Bus
+ *
+ * In-app pub/sub for financial activity. Publishers (transactions, account syncs,
+ * price moves, goal progress) emit events; the bus wakes every active CustomAgent
+ * whose event trigger matches, and notifies any UI subscribers.
+ *
+ * Filter matching (AgentTrigger.event.filters):
+ * - Each filter key must match; keys are looked up on the payload and its nested objects
+ *   (e.g. "category" finds payload.transaction.category), dotted keys are explicit paths
+ * - Array filter values match if the event value is one of them
+ * - Strings compare case-insensitively; null matches null/undefined/''
+ */
+
+import { customAgentBuilder } from './customAgentBuilder';
+import type { AgentExecution, AgentTrigger, CustomAgent } from './customAgentBuilder';
+
+// ==================== TYPES ====================
+
+export type AgentEventType = NonNullable<AgentTrigger['event']>['type'];
+
+export interface AgentEvent {
+  type: AgentEventType;
+  userId: string;
+  source: string; // Publisher, e.g. 'userProfileService.addTransaction'
+  payload: Record<string, unknown>; // { transaction }, { account }, { market }, { goal } ...
+  timestamp: Date;
+}
+
+/**
+ * Data handed to executeAgent when an event trigger fires
+ */
+export interface EventTriggerPayload extends Record<string, unknown> {
+  type: 'event';
+  id: string; // Trigger ID
+  eventType: AgentEventType;
+  source: string;
+  timestamp: Date;
+}
+
+export type AgentEventListener = (event: AgentEvent) => void;
+
+/**
+ * Filter keys used by existing agents that name a different payload field
+ */
+const FILTER_ALIASES: Record<string, string[]> = {
+  symbols: ['symbol'],
+  account: ['accountId', 'account.id', 'account'],
+  category: ['category', 'type'], // Income is recorded as type 'income' with a category like 'Salary'
+};
+
+// ==================== EVENT BUS ====================
+
+export class AgentEventBus {
+  private listeners = new Map<AgentEventType | '*', Set<AgentEventListener>>();
+
+  /**
+   * Listen for events of one type (or '*' for all). Returns an unsubscribe function.
+   */
+  subscribe(type: AgentEventType | '*', listener: AgentEventListener): () => void {
+    const set = this.listeners.get(type) || new Set<AgentEventListener>();
+    set.add(listener);
+    this.listeners.set(type, set);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  /**
+   * Publish an event: notify listeners, then run every matching agent.
+   * Never throws — a failing agent must not break the publisher.
+   */
+  async publish(
+    type: AgentEventType,
+    userId: string,
+    payload: Record<string, unknown>,
+    source: string
+  ): Promise<AgentExecution[]> {
+    const event: AgentEvent = { type, userId, source, payload, timestamp: new Date() };
+
+    [...(this.listeners.get(type) || []), ...(this.listeners.get('*') || [])].forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Agent event listener failed:', error);
+      }
+    });
+
+    const executions: AgentExecution[] = [];
+
+    let agents: CustomAgent[] = [];
+    try {
+      agents = await customAgentBuilder.getAllAgents(userId);
+    } catch (error) {
+      console.error('Error loading agents for event:', error);
+      return executions;
+    }
+
+    for (const agent of agents) {
+      if (agent.status !== 'active') continue;
+
+      const trigger = this.findMatchingTrigger(agent, event);
+      if (!trigger) continue;
+
+      console.log(`📣 ${type} event from ${source} wakes agent: ${agent.name}`);
+
+      const triggerData: EventTriggerPayload = {
+        ...payload,
+        type: 'event',
+        id: trigger.id,
+        eventType: type,
+        source,
+        timestamp: event.timestamp,
+      };
+
+      try {
+        executions.push(await customAgentBuilder.executeAgent(agent.id, triggerData));
+      } catch (error) {
+        console.error(`Error executing agent ${agent.id} for ${type} event:`, error);
+      }
+    }
+
+    return executions;
+  }
+
+  /**
+   * First enabled event trigger on the agent that matches the event
+   */
+  findMatchingTrigger(agent: CustomAgent, event: AgentEvent): AgentTrigger | null {
+    return (
+      agent.triggers.find(
+        trigger =>
+          trigger.enabled &&
+          trigger.type === 'event' &&
+          trigger.event?.type === event.type &&
+          this.matchesFilters(trigger.event.filters || {}, event.payload)
+      ) || null
+    );
+  }
+
+  matchesFilters(filters: Record<string, unknown>, payload: Record<string, unknown>): boolean {
+    return Object.entries(filters).every(([key, expected]) => {
+      if (expected === undefined) return true;
+
+      const candidates = this.lookup(payload, key);
+      return candidates.some(actual => this.valueMatches(actual, expected));
+    });
+  }
+
+  // ==================== HELPER METHODS ====================
+
+  /**
+   * Every value the payload has for a filter key (own field, nested objects, aliases)
+   */
+  private lookup(payload: Record<string, unknown>, key: string): unknown[] {
+    const keys = FILTER_ALIASES[key] ? [key, ...FILTER_ALIASES[key]] : [key];
+    const nested = Object.values(payload).filter(
+      (value): value is Record<string, unknown> => value !== null && typeof value === 'object' && !Array.isArray(value)
+    );
+
+    const values: unknown[] = [];
+    for (const candidate of keys) {
+      if (candidate.includes('.')) {
+        values.push(this.getPath(payload, candidate));
+        continue;
+      }
+      for (const source of [payload, ...nested]) {
+        if (Object.prototype.hasOwnProperty.call(source, candidate)) {
+          values.push(source[candidate]);
+        }
+      }
+    }
+
+    return values.length > 0 ? values : [undefined];
+  }
+
+  private getPath(obj: Record<string, unknown>, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+      (current, key) =>
+        current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined,
+      obj
+    );
+  }
+
+  private valueMatches(actual: unknown, expected: unknown): boolean {
+    if (Array.isArray(expected)) {
+      return expected.some(option => this.valueMatches(actual, option));
+    }
+    if (Array.isArray(actual)) {
+      return actual.some(item => this.valueMatches(item, expected));
+    }
+    if (expected === null) {
+      return actual === null || actual === undefined || actual === '';
+    }
+    if (typeof expected === 'string' && typeof actual === 'string') {
+      return expected.toLowerCase() === actual.toLowerCase();
+    }
+    return actual === expected;
+  }
+}
+
+// Export singleton instance
+export const agentEventBus = new AgentEventBus();
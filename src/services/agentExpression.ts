@@ -0,0 +1,614 @@
+/**
+ * Agent Expression Language
+ *
+ * Small sandboxed arithmetic/boolean language for CustomAgent calculated transfers and conditions.
+ * Replaces eval(): expressions can only read whitelisted variables and call whitelisted functions.
+ *
+ * Syntax:
+ * - Numbers, 'strings', true, false, null
+ * - Variables: transaction.amount, account.balance, accounts.savings.balance, accounts["acc-1"].balance, income.monthlySalary
+ * - Arithmetic: + - * / %    Comparison: > < >= <= == !=    Logic: && || ! (or and, or, not)
+ * - Conditional: cond ? a : b
+ * - Functions: min, max, round, floor, ceil, abs, clamp, percent
+ *
+ * Example: min(percent(transaction.amount, 10), accounts.checking.balance - 5000)
+ */
+
+// ==================== TYPES ====================
+
+export type ExpressionErrorKind =
+  | 'syntax'
+  | 'unknown_variable'
+  | 'unknown_function'
+  | 'arity'
+  | 'type'
+  | 'runtime';
+
+export type ExpressionValueType = 'number' | 'boolean' | 'string' | 'null' | 'any';
+
+export type ExpressionValue = number | boolean | string | null;
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: ExpressionValue; position: number }
+  | { kind: 'variable'; path: string[]; position: number }
+  | { kind: 'unary'; operator: '-' | '!'; operand: ExpressionNode; position: number }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { kind: 'logical'; operator: '&&' | '||'; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { kind: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode; position: number }
+  | { kind: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '>' | '<' | '>=' | '<=' | '==' | '!=';
+
+/**
+ * Values an expression can read. Only these root names are resolvable.
+ */
+export interface ExpressionScope {
+  transaction: unknown; // Triggering transaction
+  account: unknown; // Account the trigger fired on
+  accounts: unknown; // Account balances keyed by account ID/type
+  income: unknown; // User income (monthlySalary, annualSalary, ...)
+}
+
+export class ExpressionError extends Error {
+  kind: ExpressionErrorKind;
+  source: string;
+  position?: number; // Character offset into source
+  location?: string; // Where in an agent the expression lives (set at save time)
+
+  constructor(kind: ExpressionErrorKind, message: string, source: string, position?: number) {
+    super(position !== undefined ? `${message} (at position ${position + 1})` : message);
+    this.name = 'ExpressionError';
+    this.kind = kind;
+    this.source = source;
+    this.position = position;
+  }
+}
+
+// ==================== WHITELISTS ====================
+
+export const EXPRESSION_VARIABLES: ReadonlyArray<keyof ExpressionScope> = ['transaction', 'account', 'accounts', 'income'];
+
+interface FunctionSpec {
+  minArgs: number;
+  maxArgs: number;
+  apply: (args: number[]) => number;
+}
+
+const FUNCTIONS = new Map<string, FunctionSpec>(Object.entries({
+  min: { minArgs: 1, maxArgs: Infinity, apply: args => Math.min(...args) },
+  max: { minArgs: 1, maxArgs: Infinity, apply: args => Math.max(...args) },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: ([value, digits = 0]) => {
+      const factor = Math.pow(10, digits);
+      return Math.round(value * factor) / factor;
+    },
+  },
+  floor: { minArgs: 1, maxArgs: 1, apply: ([value]) => Math.floor(value) },
+  ceil: { minArgs: 1, maxArgs: 1, apply: ([value]) => Math.ceil(value) },
+  abs: { minArgs: 1, maxArgs: 1, apply: ([value]) => Math.abs(value) },
+  clamp: { minArgs: 3, maxArgs: 3, apply: ([value, low, high]) => Math.min(Math.max(value, low), high) },
+  percent: { minArgs: 2, maxArgs: 2, apply: ([value, pct]) => (value * pct) / 100 },
+} satisfies Record<string, FunctionSpec>));
+
+export const EXPRESSION_FUNCTIONS = [...FUNCTIONS.keys()];
+
+const MAX_SOURCE_LENGTH = 500;
+const MAX_DEPTH = 32;
+
+// ==================== TOKENIZER ====================
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['>=', '<=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '>', '<', '!'];
+const PUNCTUATION = ['(', ')', ',', '.', '?', ':', '[', ']'];
+const WORD_OPERATORS = new Map([['and', '&&'], ['or', '||'], ['not', '!']]);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = source.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/)!;
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let j = i + 1;
+      let value = '';
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) j++;
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) {
+        throw new ExpressionError('syntax', 'Unterminated string', source, i);
+      }
+      tokens.push({ type: 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      const word = match[0];
+      const wordOperator = WORD_OPERATORS.get(word);
+      if (wordOperator) {
+        tokens.push({ type: 'operator', value: wordOperator, position: i });
+      } else {
+        tokens.push({ type: 'identifier', value: word, position: i });
+      }
+      i += word.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError('syntax', `Unexpected character "${char}"`, source, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+// ==================== PARSER ====================
+
+/**
+ * Recursive-descent parser. Precedence (low → high):
+ * ?:  ||  &&  == !=  > < >= <=  + -  * / %  unary  primary
+ */
+class Parser {
+  private tokens: Token[];
+  private source: string;
+  private index = 0;
+  private depth = 0;
+
+  constructor(source: string) {
+    this.source = source;
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseConditional();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw this.error(`Unexpected "${token.value}"`, token);
+    }
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    this.enter();
+    const test = this.parseBinaryLevel(0);
+    if (this.matchPunctuation('?')) {
+      const consequent = this.parseConditional();
+      this.expectPunctuation(':');
+      const alternate = this.parseConditional();
+      this.depth--;
+      return { kind: 'conditional', test, consequent, alternate, position: test.position };
+    }
+    this.depth--;
+    return test;
+  }
+
+  private static readonly LEVELS: string[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['>', '<', '>=', '<='],
+    ['+', '-'],
+    ['*', '/', '%'],
+  ];
+
+  private parseBinaryLevel(level: number): ExpressionNode {
+    if (level >= Parser.LEVELS.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinaryLevel(level + 1);
+    while (this.peek().type === 'operator' && Parser.LEVELS[level].includes(this.peek().value)) {
+      const token = this.next();
+      const right = this.parseBinaryLevel(level + 1);
+      if (token.value === '&&' || token.value === '||') {
+        left = { kind: 'logical', operator: token.value, left, right, position: token.position };
+      } else {
+        left = { kind: 'binary', operator: token.value as BinaryOperator, left, right, position: token.position };
+      }
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '-' || token.value === '!')) {
+      this.next();
+      this.enter();
+      const operand = this.parseUnary();
+      this.depth--;
+      return { kind: 'unary', operator: token.value, operand, position: token.position };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { kind: 'literal', value: Number(token.value), position: token.position };
+    }
+
+    if (token.type === 'string') {
+      return { kind: 'literal', value: token.value, position: token.position };
+    }
+
+    if (token.type === 'punctuation' && token.value === '(') {
+      const node = this.parseConditional();
+      this.expectPunctuation(')');
+      return node;
+    }
+
+    if (token.type === 'identifier') {
+      if (token.value === 'true' || token.value === 'false') {
+        return { kind: 'literal', value: token.value === 'true', position: token.position };
+      }
+      if (token.value === 'null') {
+        return { kind: 'literal', value: null, position: token.position };
+      }
+
+      if (this.matchPunctuation('(')) {
+        const args: ExpressionNode[] = [];
+        if (!this.matchPunctuation(')')) {
+          do {
+            args.push(this.parseConditional());
+          } while (this.matchPunctuation(','));
+          this.expectPunctuation(')');
+        }
+        return { kind: 'call', name: token.value, args, position: token.position };
+      }
+
+      const path = [token.value];
+      for (;;) {
+        if (this.matchPunctuation('.')) {
+          const property = this.next();
+          if (property.type !== 'identifier') {
+            throw this.error('Expected property name after "."', property);
+          }
+          path.push(property.value);
+        } else if (this.matchPunctuation('[')) {
+          const key = this.next();
+          if (key.type !== 'string' && key.type !== 'number') {
+            throw this.error('Expected a string or number key inside [ ]', key);
+          }
+          path.push(key.value);
+          this.expectPunctuation(']');
+        } else {
+          break;
+        }
+      }
+      return { kind: 'variable', path, position: token.position };
+    }
+
+    if (token.type === 'eof') {
+      throw this.error('Unexpected end of expression', token);
+    }
+    throw this.error(`Unexpected "${token.value}"`, token);
+  }
+
+  private enter(): void {
+    this.depth++;
+    if (this.depth > MAX_DEPTH) {
+      throw new ExpressionError('syntax', 'Expression is nested too deeply', this.source, this.peek().position);
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuation' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.matchPunctuation(value)) {
+      const token = this.peek();
+      throw this.error(`Expected "${value}" but found "${token.value || 'end of expression'}"`, token);
+    }
+  }
+
+  private error(message: string, token: Token): ExpressionError {
+    return new ExpressionError('syntax', message, this.source, token.position);
+  }
+}
+
+// ==================== STATIC CHECKS ====================
+
+function inferType(node: ExpressionNode, source: string): ExpressionValueType {
+  const expect = (child: ExpressionNode, allowed: ExpressionValueType[], what: string) => {
+    const type = inferType(child, source);
+    if (type !== 'any' && !allowed.includes(type)) {
+      throw new ExpressionError('type', `${what} expects ${allowed.join(' or ')}, got ${type}`, source, child.position);
+    }
+  };
+
+  switch (node.kind) {
+    case 'literal':
+      return node.value === null ? 'null' : (typeof node.value as ExpressionValueType);
+
+    case 'variable':
+      if (!(EXPRESSION_VARIABLES as readonly string[]).includes(node.path[0])) {
+        throw new ExpressionError(
+          'unknown_variable',
+          `Unknown variable "${node.path[0]}". Allowed: ${EXPRESSION_VARIABLES.join(', ')}`,
+          source,
+          node.position
+        );
+      }
+      return 'any';
+
+    case 'unary':
+      if (node.operator === '-') {
+        expect(node.operand, ['number'], 'Unary "-"');
+        return 'number';
+      }
+      expect(node.operand, ['boolean'], 'Operator "!"');
+      return 'boolean';
+
+    case 'binary':
+      if (node.operator === '==' || node.operator === '!=') {
+        inferType(node.left, source);
+        inferType(node.right, source);
+        return 'boolean';
+      }
+      if (['>', '<', '>=', '<='].includes(node.operator)) {
+        expect(node.left, ['number', 'string'], `Operator "${node.operator}"`);
+        expect(node.right, ['number', 'string'], `Operator "${node.operator}"`);
+        return 'boolean';
+      }
+      expect(node.left, ['number'], `Operator "${node.operator}"`);
+      expect(node.right, ['number'], `Operator "${node.operator}"`);
+      return 'number';
+
+    case 'logical':
+      expect(node.left, ['boolean'], `Operator "${node.operator}"`);
+      expect(node.right, ['boolean'], `Operator "${node.operator}"`);
+      return 'boolean';
+
+    case 'conditional': {
+      expect(node.test, ['boolean'], 'Condition of "?:"');
+      const consequent = inferType(node.consequent, source);
+      const alternate = inferType(node.alternate, source);
+      return consequent === alternate ? consequent : 'any';
+    }
+
+    case 'call': {
+      const spec = FUNCTIONS.get(node.name);
+      if (!spec) {
+        throw new ExpressionError(
+          'unknown_function',
+          `Unknown function "${node.name}". Allowed: ${EXPRESSION_FUNCTIONS.join(', ')}`,
+          source,
+          node.position
+        );
+      }
+      if (node.args.length < spec.minArgs || node.args.length > spec.maxArgs) {
+        const expected = spec.maxArgs === Infinity
+          ? `at least ${spec.minArgs}`
+          : spec.minArgs === spec.maxArgs ? `${spec.minArgs}` : `${spec.minArgs}-${spec.maxArgs}`;
+        throw new ExpressionError(
+          'arity',
+          `${node.name}() takes ${expected} argument(s), got ${node.args.length}`,
+          source,
+          node.position
+        );
+      }
+      node.args.forEach(arg => expect(arg, ['number'], `${node.name}()`));
+      return 'number';
+    }
+  }
+}
+
+// ==================== EVALUATOR ====================
+
+function resolveVariable(path: string[], scope: ExpressionScope): ExpressionValue {
+  let current: unknown = scope;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, key)) {
+      return null; // Missing data reads as null, like an absent trigger field
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  if (current === undefined || current === null) return null;
+  if (current instanceof Date) return current.getTime();
+  if (typeof current === 'number' || typeof current === 'boolean' || typeof current === 'string') {
+    return current;
+  }
+  return null; // Objects and arrays are not values in this language
+}
+
+function evaluateNode(node: ExpressionNode, scope: ExpressionScope, source: string): ExpressionValue {
+  const number = (child: ExpressionNode, what: string): number => {
+    const value = evaluateNode(child, scope, source);
+    if (typeof value !== 'number' || !isFinite(value)) {
+      throw new ExpressionError('type', `${what} expects a number, got ${value === null ? 'null' : typeof value}`, source, child.position);
+    }
+    return value;
+  };
+  const boolean = (child: ExpressionNode, what: string): boolean => {
+    const value = evaluateNode(child, scope, source);
+    if (typeof value !== 'boolean') {
+      throw new ExpressionError('type', `${what} expects a boolean, got ${value === null ? 'null' : typeof value}`, source, child.position);
+    }
+    return value;
+  };
+
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'variable':
+      return resolveVariable(node.path, scope);
+
+    case 'unary':
+      return node.operator === '-' ? -number(node.operand, 'Unary "-"') : !boolean(node.operand, 'Operator "!"');
+
+    case 'logical':
+      if (node.operator === '&&') {
+        return boolean(node.left, 'Operator "&&"') && boolean(node.right, 'Operator "&&"');
+      }
+      return boolean(node.left, 'Operator "||"') || boolean(node.right, 'Operator "||"');
+
+    case 'conditional':
+      return boolean(node.test, 'Condition of "?:"')
+        ? evaluateNode(node.consequent, scope, source)
+        : evaluateNode(node.alternate, scope, source);
+
+    case 'binary': {
+      if (node.operator === '==' || node.operator === '!=') {
+        const equal = evaluateNode(node.left, scope, source) === evaluateNode(node.right, scope, source);
+        return node.operator === '==' ? equal : !equal;
+      }
+
+      if (['>', '<', '>=', '<='].includes(node.operator)) {
+        const left = evaluateNode(node.left, scope, source);
+        const right = evaluateNode(node.right, scope, source);
+        const comparable =
+          (typeof left === 'number' && typeof right === 'number') ||
+          (typeof left === 'string' && typeof right === 'string');
+        if (!comparable) {
+          throw new ExpressionError('type', `Cannot compare ${left === null ? 'null' : typeof left} with ${right === null ? 'null' : typeof right}`, source, node.position);
+        }
+        switch (node.operator) {
+          case '>': return left > right;
+          case '<': return left < right;
+          case '>=': return left >= right;
+          default: return left <= right;
+        }
+      }
+
+      const left = number(node.left, `Operator "${node.operator}"`);
+      const right = number(node.right, `Operator "${node.operator}"`);
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        default:
+          if (right === 0) {
+            throw new ExpressionError('runtime', 'Division by zero', source, node.position);
+          }
+          return node.operator === '/' ? left / right : left % right;
+      }
+    }
+
+    case 'call': {
+      const spec = FUNCTIONS.get(node.name)!;
+      const args = node.args.map(arg => number(arg, `${node.name}()`));
+      return spec.apply(args);
+    }
+  }
+}
+
+// ==================== PUBLIC API ====================
+
+export interface CompiledExpression {
+  source: string;
+  ast: ExpressionNode;
+  type: ExpressionValueType; // Statically inferred result type
+  evaluate(scope: ExpressionScope): ExpressionValue;
+}
+
+/**
+ * Parse and statically check an expression. Throws ExpressionError on any problem.
+ */
+export function compileExpression(source: string, expectedType: ExpressionValueType = 'any'): CompiledExpression {
+  if (typeof source !== 'string' || source.trim() === '') {
+    throw new ExpressionError('syntax', 'Expression is empty', String(source ?? ''));
+  }
+  if (source.length > MAX_SOURCE_LENGTH) {
+    throw new ExpressionError('syntax', `Expression is longer than ${MAX_SOURCE_LENGTH} characters`, source);
+  }
+
+  const ast = new Parser(source).parse();
+  const type = inferType(ast, source);
+
+  if (expectedType !== 'any' && type !== 'any' && type !== expectedType) {
+    throw new ExpressionError('type', `Expression must produce a ${expectedType}, but produces a ${type}`, source, 0);
+  }
+
+  return {
+    source,
+    ast,
+    type,
+    evaluate(scope: ExpressionScope): ExpressionValue {
+      const value = evaluateNode(ast, scope, source);
+      if (expectedType !== 'any' && value !== null && typeof value !== expectedType) {
+        throw new ExpressionError('type', `Expression must produce a ${expectedType}, got ${typeof value}`, source, 0);
+      }
+      return value;
+    },
+  };
+}
+
+/**
+ * Check an expression without evaluating it; returns the error instead of throwing
+ */
+export function validateExpression(source: string, expectedType: ExpressionValueType = 'any'): ExpressionError | null {
+  try {
+    compileExpression(source, expectedType);
+    return null;
+  } catch (error) {
+    if (error instanceof ExpressionError) return error;
+    throw error;
+  }
+}
+
+/**
+ * Compile and evaluate in one step
+ */
+export function evaluateExpression(
+  source: string,
+  scope: ExpressionScope,
+  expectedType: ExpressionValueType = 'any'
+): ExpressionValue {
+  return compileExpression(source, expectedType).evaluate(scope);
+}
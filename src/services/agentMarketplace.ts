@@ -8,6 +8,7 @@
  * - Tax Loss Harvesting Agent - Optimize taxes
  * - Dividend Reinvestment Agent - Auto-reinvest dividends
  * - Agent execution engine with user consent
+ * - Step-up verification before approving executions that place orders
  */
 
 import { 
@@ -25,6 +26,7 @@ import {
 import { db } from '../config/firebase';
 import { logActivity, ActivityType } from './activityLogger';
 import { sendEmail } from './emailService';
+import { stepUpAuthService, StepUpError } from './stepUpAuthService';
 
 export type AgentType = 
   | 'risk_and_sell'
@@ -47,10 +49,16 @@ export interface AgentConfig {
   // Smart Rebalancing Agent
   targetAllocation?: Record<string, number>; // Symbol -> target %
   rebalanceThreshold?: number; // Rebalance if drift > %
+  newCashAmount?: number; // Cash to invest before selling anything
+  avoidShortTermGains?: boolean; // Never sell lots with short-term gains
   
   // Tax Loss Harvesting Agent
   minLossForHarvest?: number; // Min loss % to harvest
   reinvestInSimilar?: boolean; // Reinvest in similar asset
+  harvestWindowDays?: number; // Only harvest this many days before financial year end
+  
+  // Dividend Reinvestment Agent
+  reinvestMinAmount?: number; // Only reinvest dividends of at least this amount
   
   // Stop Loss / Take Profit
   stopLossPercent?: number;
@@ -96,6 +104,16 @@ export interface AgentExecution {
 const AGENTS_COLLECTION = 'agents';
 const EXECUTIONS_COLLECTION = 'agent_executions';
 
+// Agents whose approved executions buy or sell holdings
+const ORDER_PLACING_AGENTS: AgentType[] = ['risk_and_sell', 'smart_rebalancing', 'tax_loss_harvesting', 'dividend_reinvestment'];
+
+/**
+ * Whether approving the execution lets the agent place orders
+ */
+export function placesOrders(execution: Pick<AgentExecution, 'agentType'>): boolean {
+  return ORDER_PLACING_AGENTS.includes(execution.agentType);
+}
+
 /**
  * Create a new agent
  */
@@ -426,6 +444,10 @@ export async function approveExecution(userId: string, executionId: string): Pro
       throw new Error('Unauthorized');
     }
 
+    if (placesOrders(execution)) {
+      stepUpAuthService.requireStepUp(userId, `approve "${execution.action}"`);
+    }
+
     await updateDoc(execRef, {
       status: 'executing',
       approvedAt: serverTimestamp(),
@@ -434,10 +456,64 @@ export async function approveExecution(userId: string, executionId: string): Pro
     console.log(`✅ Approved execution: ${execution.action}`);
   } catch (error) {
     console.error('Error approving execution:', error);
+    if (error instanceof StepUpError) throw error;
     throw new Error('Failed to approve execution');
   }
 }
 
+/**
+ * Get approved executions of an agent type that have not run yet
+ */
+export async function getApprovedExecutions(userId: string, agentType: AgentType): Promise<AgentExecution[]> {
+  try {
+    const q = query(
+      collection(db, EXECUTIONS_COLLECTION),
+      where('userId', '==', userId),
+      where('status', '==', 'executing')
+    );
+
+    const querySnapshot = await getDocs(q);
+    const executions: AgentExecution[] = [];
+
+    querySnapshot.forEach((doc) => {
+      const data = doc.data();
+      if (data.agentType !== agentType || !data.requiresApproval || !data.approvedAt) return;
+      executions.push({
+        ...data,
+        createdAt: data.createdAt?.toDate() || new Date(),
+        approvedAt: data.approvedAt?.toDate(),
+        executedAt: data.executedAt?.toDate(),
+      } as AgentExecution);
+    });
+
+    return executions;
+  } catch (error) {
+    console.error('Error getting approved executions:', error);
+    return [];
+  }
+}
+
+/**
+ * Record the outcome of an agent execution
+ */
+export async function completeExecution(
+  executionId: string,
+  status: 'completed' | 'failed',
+  result?: Record<string, unknown>,
+  error?: string
+): Promise<void> {
+  try {
+    await updateDoc(doc(db, EXECUTIONS_COLLECTION, executionId), {
+      status,
+      executedAt: serverTimestamp(),
+      ...(result ? { result } : {}),
+      ...(error ? { error } : {}),
+    });
+  } catch (err) {
+    console.error('Error completing execution:', err);
+  }
+}
+
 /**
  * Cancel an agent execution
  */
@@ -514,6 +590,7 @@ export function getAgentTemplates(): Array<{
       defaultConfig: {
         targetAllocation: {},
         rebalanceThreshold: 5,
+        avoidShortTermGains: true,
       },
     },
     {
@@ -524,6 +601,7 @@ export function getAgentTemplates(): Array<{
       defaultConfig: {
         minLossForHarvest: 3,
         reinvestInSimilar: true,
+        harvestWindowDays: 90,
       },
     },
     {
@@ -531,7 +609,9 @@ export function getAgentTemplates(): Array<{
       name: 'Dividend Reinvestment',
       description: 'Auto-reinvest dividends for compound growth',
       icon: '📈',
-      defaultConfig: {},
+      defaultConfig: {
+        reinvestMinAmount: 500,
+      },
     },
     {
       type: 'stop_loss',
@@ -0,0 +1,532 @@
+/**
+ * Custom Agent Scheduler
+ *
+ * Runs CustomAgent time triggers on their schedules
+ *
+ * Features:
+ * - Cron expression parsing (5 fields, ranges, steps, lists, month/day names, @daily-style macros)
+ * - daily ("HH:MM"), weekly ("MON 09:00") and monthly ("1" or "15 18:30") schedules
+ * - Next-run calculation for every active agent
+ * - Persisted per-trigger lastRunAt so runs survive reloads
+ * - Catch-up of runs missed while the app was closed
+ * - Calls executeAgent with a `time` trigger payload
+ * - Runs queued action retries once their backoff has passed
+ */
+
+import { customAgentBuilder } from './customAgentBuilder';
+import type { AgentTrigger, CustomAgent } from './customAgentBuilder';
+
+// ==================== TYPES ====================
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday = 0
+  domRestricted: boolean; // Day-of-month field was not "*"
+  dowRestricted: boolean; // Day-of-week field was not "*"
+}
+
+/**
+ * How runs missed while the app was closed are handled:
+ * - latest: run once, reporting how many slots were missed
+ * - all: run once per missed slot (capped at MAX_CATCH_UP_RUNS)
+ * - none: skip missed slots and wait for the next one
+ */
+export type CatchUpPolicy = 'latest' | 'all' | 'none';
+
+export interface TimeTriggerPayload {
+  type: 'time';
+  id: string; // Trigger ID
+  schedule: NonNullable<AgentTrigger['schedule']>;
+  scheduledFor: Date;
+  firedAt: Date;
+  catchUp: boolean; // True when the slot was missed while the app was closed
+  missedRuns: number; // Earlier slots folded into this run ('latest' catch-up policy)
+}
+
+export interface ScheduledRun {
+  agentId: string;
+  agentName: string;
+  triggerId: string;
+  schedule: NonNullable<AgentTrigger['schedule']>;
+  lastRunAt: Date;
+  nextRunAt: Date | null;
+  error?: string; // Schedule could not be parsed
+}
+
+// ==================== CONSTANTS ====================
+
+const TICK_INTERVAL_MS = 30000; // Check schedules every 30 seconds
+const MAX_CATCH_UP_RUNS = 10; // Upper bound for the 'all' catch-up policy
+const MAX_MISSED_SCAN = 1000; // Stop counting missed slots after this many
+const MAX_SEARCH_YEARS = 5; // Give up looking for a next run after this long (e.g. "0 0 30 2 *")
+const DEFAULT_TIME = '09:00';
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// ==================== CRON PARSING ====================
+
+function parseCronValue(token: string, min: number, max: number, names?: string[]): number {
+  const upper = token.toUpperCase();
+  if (names) {
+    const index = names.indexOf(upper.slice(0, 3));
+    if (index >= 0 && /^[A-Z]+$/.test(upper)) return index + min;
+  }
+  if (!/^\d+$/.test(token)) {
+    throw new Error(`Invalid cron value "${token}"`);
+  }
+  const value = parseInt(token, 10);
+  if (value < min || value > max) {
+    throw new Error(`Cron value ${value} out of range ${min}-${max}`);
+  }
+  return value;
+}
+
+function parseCronField(field: string, min: number, max: number, names?: string[]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10);
+    if (!(step > 0)) {
+      throw new Error(`Invalid cron step in "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseCronValue(from, min, max, names);
+      end = parseCronValue(to, min, max, names);
+      if (start > end) {
+        throw new Error(`Invalid cron range "${rangePart}"`);
+      }
+    } else {
+      start = parseCronValue(rangePart, min, max, names);
+      end = stepPart === undefined ? start : max; // "5/15" means every 15 starting at 5
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a standard 5-field cron expression: minute hour day-of-month month day-of-week
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = CRON_MACROS[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minuteField, hourField, domField, monthField, dowField] = fields;
+
+  // Day-of-week accepts 0-7 where 7 is also Sunday
+  const daysOfWeek = new Set(
+    Array.from(parseCronField(dowField, 0, 7, DAY_NAMES)).map(day => day % 7)
+  );
+
+  return {
+    expression,
+    minutes: parseCronField(minuteField, 0, 59),
+    hours: parseCronField(hourField, 0, 23),
+    daysOfMonth: parseCronField(domField, 1, 31),
+    months: parseCronField(monthField, 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    domRestricted: domField !== '*',
+    dowRestricted: dowField !== '*',
+  };
+}
+
+function parseTimeOfDay(value: string): { hour: number; minute: number } {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    throw new Error(`Invalid time "${value}", expected HH:MM`);
+  }
+  const hour = parseInt(match[1], 10);
+  const minute = parseInt(match[2], 10);
+  if (hour > 23 || minute > 59) {
+    throw new Error(`Invalid time "${value}", expected HH:MM`);
+  }
+  return { hour, minute };
+}
+
+/**
+ * Convert an AgentTrigger schedule into a cron schedule
+ *
+ * - daily:   "HH:MM"                  e.g. "09:00"
+ * - weekly:  "<day>[ HH:MM]"          e.g. "MON", "1 18:30" (0 = Sunday)
+ * - monthly: "<day-of-month>[ HH:MM]" e.g. "1", "15 09:30"
+ * - cron:    5-field cron expression  e.g. "0 9 * * 1-5"
+ */
+export function parseSchedule(schedule: NonNullable<AgentTrigger['schedule']>): CronSchedule {
+  const value = (schedule.value || '').trim();
+
+  switch (schedule.type) {
+    case 'cron':
+      return parseCronExpression(value);
+    case 'daily': {
+      const { hour, minute } = parseTimeOfDay(value || DEFAULT_TIME);
+      return parseCronExpression(`${minute} ${hour} * * *`);
+    }
+    case 'weekly': {
+      const [day, time] = value.split(/\s+/);
+      const { hour, minute } = parseTimeOfDay(time || DEFAULT_TIME);
+      const dayOfWeek = parseCronValue(day || 'MON', 0, 7, DAY_NAMES) % 7;
+      return parseCronExpression(`${minute} ${hour} * * ${dayOfWeek}`);
+    }
+    case 'monthly': {
+      const [day, time] = value.split(/\s+/);
+      const { hour, minute } = parseTimeOfDay(time || DEFAULT_TIME);
+      const dayOfMonth = parseCronValue(day || '1', 1, 31);
+      return parseCronExpression(`${minute} ${hour} ${dayOfMonth} * *`);
+    }
+    default:
+      throw new Error(`Unsupported schedule type "${schedule.type}"`);
+  }
+}
+
+function matchesDay(cron: CronSchedule, date: Date): boolean {
+  const domMatch = cron.daysOfMonth.has(date.getDate());
+  const dowMatch = cron.daysOfWeek.has(date.getDay());
+
+  // Standard cron semantics: when both fields are restricted, either may match
+  if (cron.domRestricted && cron.dowRestricted) return domMatch || dowMatch;
+  if (cron.domRestricted) return domMatch;
+  if (cron.dowRestricted) return dowMatch;
+  return true;
+}
+
+/**
+ * Next time strictly after `after` that matches the schedule (local time), or null if none
+ */
+export function getNextRun(cron: CronSchedule, after: Date): Date | null {
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  while (candidate <= limit) {
+    if (!cron.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return new Date(candidate.getTime());
+  }
+
+  return null;
+}
+
+/**
+ * Latest time at or before `atOrBefore` that matches the schedule (local time), or null if none
+ */
+export function getPreviousRun(cron: CronSchedule, atOrBefore: Date): Date | null {
+  const candidate = new Date(atOrBefore.getTime());
+  candidate.setSeconds(0, 0);
+
+  const limit = new Date(atOrBefore.getTime());
+  limit.setFullYear(limit.getFullYear() - MAX_SEARCH_YEARS);
+
+  while (candidate >= limit) {
+    if (!cron.months.has(candidate.getMonth() + 1)) {
+      candidate.setDate(0); // Last day of the previous month
+      candidate.setHours(23, 59, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, candidate)) {
+      candidate.setDate(candidate.getDate() - 1);
+      candidate.setHours(23, 59, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() - 1, 59, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() - 1, 0, 0);
+      continue;
+    }
+    return new Date(candidate.getTime());
+  }
+
+  return null;
+}
+
+/**
+ * The most recent scheduled slots in (after, until], oldest first, at most `max`
+ */
+export function getLatestRunsBetween(cron: CronSchedule, after: Date, until: Date, max: number): Date[] {
+  const runs: Date[] = [];
+  let cursor: Date | null = getPreviousRun(cron, until);
+
+  while (cursor && cursor > after && runs.length < max) {
+    runs.unshift(cursor);
+    cursor = getPreviousRun(cron, new Date(cursor.getTime() - 60000));
+  }
+
+  return runs;
+}
+
+/**
+ * All scheduled slots in (after, until], capped at `max`
+ */
+export function getRunsBetween(cron: CronSchedule, after: Date, until: Date, max: number = MAX_MISSED_SCAN): Date[] {
+  const runs: Date[] = [];
+  let cursor: Date | null = getNextRun(cron, after);
+
+  while (cursor && cursor <= until && runs.length < max) {
+    runs.push(cursor);
+    cursor = getNextRun(cron, cursor);
+  }
+
+  return runs;
+}
+
+// ==================== SCHEDULER ====================
+
+export class AgentScheduler {
+  private tickInterval: ReturnType<typeof setInterval> | null = null;
+  private activeUserId: string | null = null;
+  private catchUpPolicy: CatchUpPolicy = 'latest';
+  private ticking = false;
+
+  /**
+   * Start running time triggers for a user's agents
+   */
+  start(userId: string, options: { catchUpPolicy?: CatchUpPolicy } = {}): void {
+    if (this.tickInterval && this.activeUserId === userId) {
+      return;
+    }
+
+    this.stop();
+    this.activeUserId = userId;
+    this.catchUpPolicy = options.catchUpPolicy || 'latest';
+
+    console.log(`⏰ Starting agent scheduler for user: ${userId}`);
+
+    // Initial tick catches up on anything missed while the app was closed
+    this.tick();
+
+    this.tickInterval = setInterval(() => {
+      this.tick();
+    }, TICK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+      console.log('⏹️ Agent scheduler stopped');
+    }
+    this.activeUserId = null;
+  }
+
+  isRunning(): boolean {
+    return this.tickInterval !== null;
+  }
+
+  /**
+   * Upcoming runs for every enabled time trigger of the user's active agents
+   */
+  async getUpcomingRuns(userId: string, now: Date = new Date()): Promise<ScheduledRun[]> {
+    const agents = await customAgentBuilder.getAllAgents(userId);
+    const state = this.loadState(userId);
+    const runs: ScheduledRun[] = [];
+
+    for (const agent of agents.filter(a => a.status === 'active')) {
+      for (const trigger of this.getTimeTriggers(agent)) {
+        const schedule = trigger.schedule!;
+        const lastRunAt = this.getLastRunAt(state, agent, trigger);
+        try {
+          const cron = parseSchedule(schedule);
+          runs.push({
+            agentId: agent.id,
+            agentName: agent.name,
+            triggerId: trigger.id,
+            schedule,
+            lastRunAt,
+            nextRunAt: getNextRun(cron, lastRunAt > now ? lastRunAt : now),
+          });
+        } catch (error) {
+          runs.push({
+            agentId: agent.id,
+            agentName: agent.name,
+            triggerId: trigger.id,
+            schedule,
+            lastRunAt,
+            nextRunAt: null,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+
+    return runs.sort((a, b) => (a.nextRunAt?.getTime() ?? Infinity) - (b.nextRunAt?.getTime() ?? Infinity));
+  }
+
+  /**
+   * Check every active agent's time triggers and run the ones that are due
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    const userId = this.activeUserId;
+    if (!userId || this.ticking) return;
+
+    this.ticking = true;
+    try {
+      const agents = await customAgentBuilder.getAllAgents(userId);
+      const state = this.loadState(userId);
+
+      for (const agent of agents.filter(a => a.status === 'active')) {
+        for (const trigger of this.getTimeTriggers(agent)) {
+          await this.runIfDue(userId, agent, trigger, state, now);
+        }
+      }
+
+      // Action retries that came due, including ones queued before a reload
+      await customAgentBuilder.processDueRetries(userId, now);
+    } catch (error) {
+      console.error('Error in agent scheduler tick:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runIfDue(
+    userId: string,
+    agent: CustomAgent,
+    trigger: AgentTrigger,
+    state: Record<string, string>,
+    now: Date
+  ): Promise<void> {
+    const schedule = trigger.schedule!;
+
+    let cron: CronSchedule;
+    try {
+      cron = parseSchedule(schedule);
+    } catch (error) {
+      console.warn(`⚠️ Skipping trigger ${trigger.id} of ${agent.name}:`, error instanceof Error ? error.message : error);
+      return;
+    }
+
+    const lastRunAt = this.getLastRunAt(state, agent, trigger);
+
+    // Walk back from now so a long-idle agent still gets its latest slots
+    const dueRuns = getLatestRunsBetween(cron, lastRunAt, now, MAX_CATCH_UP_RUNS);
+    if (dueRuns.length === 0) return;
+
+    // Only scan forward for the full count when more slots were due than were collected
+    const dueCount = dueRuns.length < MAX_CATCH_UP_RUNS
+      ? dueRuns.length
+      : Math.max(dueRuns.length, getRunsBetween(cron, lastRunAt, now).length);
+
+    // Anything older than a couple of ticks was missed while the app was closed
+    const isMissed = (run: Date) => now.getTime() - run.getTime() > TICK_INTERVAL_MS * 2;
+    const missedCount = dueCount - dueRuns.filter(run => !isMissed(run)).length;
+
+    let runsToExecute: Date[];
+    if (this.catchUpPolicy === 'all') {
+      runsToExecute = dueRuns;
+    } else if (this.catchUpPolicy === 'none') {
+      runsToExecute = dueRuns.filter(run => !isMissed(run)).slice(-1);
+      if (missedCount > 0) {
+        console.log(`⏭️ Skipping ${missedCount} missed run(s) of ${agent.name}`);
+      }
+    } else {
+      runsToExecute = dueRuns.slice(-1);
+    }
+
+    // Persist before executing so an overlapping tick or reload cannot double-run
+    state[this.stateKey(agent.id, trigger.id)] = now.toISOString();
+    this.saveState(userId, state);
+    await customAgentBuilder.updateAgent(agent.id, { lastRunAt: now });
+
+    for (const scheduledFor of runsToExecute) {
+      const catchUp = isMissed(scheduledFor);
+      const payload: TimeTriggerPayload = {
+        type: 'time',
+        id: trigger.id,
+        schedule,
+        scheduledFor,
+        firedAt: new Date(),
+        catchUp,
+        missedRuns: this.catchUpPolicy === 'latest' ? dueCount - 1 : 0,
+      };
+
+      console.log(`⏰ Running ${agent.name} (${trigger.id}) scheduled for ${scheduledFor.toLocaleString()}${catchUp ? ' [catch-up]' : ''}`);
+
+      try {
+        await customAgentBuilder.executeAgent(agent.id, payload);
+      } catch (error) {
+        console.error(`Error running scheduled agent ${agent.name}:`, error);
+      }
+    }
+  }
+
+  private getTimeTriggers(agent: CustomAgent): AgentTrigger[] {
+    return agent.triggers.filter(trigger => trigger.enabled && trigger.type === 'time' && trigger.schedule);
+  }
+
+  private getLastRunAt(state: Record<string, string>, agent: CustomAgent, trigger: AgentTrigger): Date {
+    const stored = state[this.stateKey(agent.id, trigger.id)];
+    return new Date(stored || agent.lastRunAt || agent.createdAt);
+  }
+
+  // ==================== STORAGE METHODS ====================
+
+  private stateKey(agentId: string, triggerId: string): string {
+    return `${agentId}:${triggerId}`;
+  }
+
+  private loadState(userId: string): Record<string, string> {
+    return JSON.parse(localStorage.getItem(`agent_schedule_state_${userId}`) || '{}');
+  }
+
+  private saveState(userId: string, state: Record<string, string>): void {
+    localStorage.setItem(`agent_schedule_state_${userId}`, JSON.stringify(state));
+  }
+}
+
+// Export singleton instance
+export const agentScheduler = new AgentScheduler();
@@ -0,0 +1,360 @@
+/**
+ * Agent Simulator
+ *
+ * Dry-runs a CustomAgent against recorded history before it is activated
+ *
+ * Features:
+ * - Replays the last N months of time, transaction, market and threshold triggers
+ * - Uses executeAgent in dry-run mode: no transfers, notifications or stored executions
+ * - Produces the same AgentExecution records, flagged as simulated
+ * - Summary: fire count, transfer volume, confirmations, maxTransactionAmount limit hits
+ */
+
+import { customAgentBuilder } from './customAgentBuilder';
+import type { AgentExecution, AgentTrigger, CustomAgent } from './customAgentBuilder';
+import { agentEventBus } from './agentEventBus';
+import { getRunsBetween, parseSchedule } from './agentScheduler';
+import { stepThreshold, thresholdMonitor } from './agentThresholds';
+import type { ThresholdState, ThresholdTriggerPayload } from './agentThresholds';
+import { marketDataService } from './marketDataProvider';
+import { userProfileService } from './userProfileService';
+import type { RecordedTransaction } from './userProfileService';
+import type { AssetType } from './stockMonitoringAgent';
+
+// ==================== TYPES ====================
+
+export interface SimulationOptions {
+  months?: number; // How far back to replay (default 3)
+  until?: Date; // End of the replay window (default now)
+  marketMovePercent?: number; // Daily move that counts as a market_change event (default 2%)
+  simulateAI?: boolean; // Call Gemini for AI conditions/actions (default false)
+  maxFirings?: number; // Safety cap on replayed trigger firings (default 500)
+}
+
+export interface SimulatedFiring {
+  at: Date;
+  triggerId: string;
+  triggerType: AgentTrigger['type'];
+  payload: Record<string, unknown>;
+}
+
+export interface LimitHit {
+  executionId: string;
+  actionId: string;
+  at: Date;
+  amount: number;
+  limit: number;
+}
+
+export interface SimulationSummary {
+  agentId: string;
+  agentName: string;
+  from: Date;
+  to: Date;
+  triggerFirings: number; // Times a trigger woke the agent
+  timesFired: number; // Firings where conditions passed and actions ran
+  conditionsNotMet: number;
+  transferCount: number;
+  transferVolume: number; // ₹ across completed and pending-confirmation transfers
+  pendingConfirmations: number;
+  limitHits: LimitHit[];
+  failedActions: number;
+  firingsByTrigger: Record<string, number>;
+  unsupportedTriggers: string[]; // Trigger IDs with no history to replay
+  truncated: boolean; // maxFirings was reached
+}
+
+export interface SimulationResult {
+  executions: AgentExecution[];
+  summary: SimulationSummary;
+}
+
+// ==================== CONSTANTS ====================
+
+const DEFAULT_MONTHS = 3;
+const DEFAULT_MARKET_MOVE_PERCENT = 2;
+const DEFAULT_MAX_FIRINGS = 500;
+const DAY_MS = 86400000;
+
+// ==================== AGENT SIMULATOR ====================
+
+export class AgentSimulator {
+  /**
+   * Replay an agent (draft or active) against the last N months
+   */
+  async simulate(agentId: string, options: SimulationOptions = {}): Promise<SimulationResult> {
+    const agent = await customAgentBuilder.getAgent(agentId);
+    if (!agent) {
+      throw new Error('Agent not found');
+    }
+
+    const to = options.until || new Date();
+    const from = new Date(to);
+    from.setMonth(from.getMonth() - (options.months ?? DEFAULT_MONTHS));
+    const maxFirings = options.maxFirings ?? DEFAULT_MAX_FIRINGS;
+
+    console.log(`🧪 Simulating ${agent.name} from ${from.toLocaleDateString()} to ${to.toLocaleDateString()}`);
+
+    const transactions = await userProfileService.getTransactions(agent.userId);
+    const profile = await userProfileService.getProfile(agent.userId).catch(() => null);
+    const income = profile?.income ?? null; // Loaded once instead of per execution
+
+    const unsupportedTriggers: string[] = [];
+    const firings: SimulatedFiring[] = [];
+
+    for (const trigger of agent.triggers.filter(t => t.enabled)) {
+      const triggerFirings = await this.collectFirings(agent, trigger, from, to, transactions, options);
+      if (triggerFirings === null) {
+        unsupportedTriggers.push(trigger.id);
+      } else {
+        firings.push(...triggerFirings);
+      }
+    }
+
+    firings.sort((a, b) => a.at.getTime() - b.at.getTime());
+    const truncated = firings.length > maxFirings;
+    const replayed = firings.slice(0, maxFirings);
+
+    const executions: AgentExecution[] = [];
+    for (const firing of replayed) {
+      const execution = await customAgentBuilder.executeAgent(
+        agent.id,
+        { income, ...firing.payload },
+        { dryRun: true, now: firing.at, simulateAI: options.simulateAI }
+      );
+      executions.push(execution);
+    }
+
+    const summary = this.summarize(agent, executions, replayed, from, to, unsupportedTriggers, truncated);
+
+    console.log(`🧪 ${agent.name} would have fired ${summary.timesFired} time(s), moving ₹${summary.transferVolume.toLocaleString('en-IN')}`);
+
+    return { executions, summary };
+  }
+
+  /**
+   * Trigger firings within the window, or null when the trigger type has no replayable history
+   */
+  private async collectFirings(
+    agent: CustomAgent,
+    trigger: AgentTrigger,
+    from: Date,
+    to: Date,
+    transactions: RecordedTransaction[],
+    options: SimulationOptions
+  ): Promise<SimulatedFiring[] | null> {
+    const maxFirings = options.maxFirings ?? DEFAULT_MAX_FIRINGS;
+
+    if (trigger.type === 'time' && trigger.schedule) {
+      try {
+        const runs = getRunsBetween(parseSchedule(trigger.schedule), from, to, maxFirings + 1);
+        return runs.map(at => ({
+          at,
+          triggerId: trigger.id,
+          triggerType: trigger.type,
+          payload: { type: 'time', id: trigger.id, schedule: trigger.schedule, scheduledFor: at, firedAt: at, catchUp: false, missedRuns: 0 },
+        }));
+      } catch (error) {
+        console.warn(`⚠️ Cannot simulate trigger ${trigger.id}:`, error instanceof Error ? error.message : error);
+        return null;
+      }
+    }
+
+    if (trigger.type === 'event' && trigger.event?.type === 'transaction') {
+      return transactions
+        .filter(t => {
+          const time = new Date(t.date).getTime();
+          return time > from.getTime() && time <= to.getTime();
+        })
+        .filter(t => agentEventBus.matchesFilters(trigger.event!.filters || {}, { transaction: t }))
+        .map(t => ({
+          at: new Date(t.date),
+          triggerId: trigger.id,
+          triggerType: trigger.type,
+          payload: { transaction: t, type: 'event', id: trigger.id, eventType: 'transaction', source: 'simulation' },
+        }));
+    }
+
+    if (trigger.type === 'event' && trigger.event?.type === 'market_change') {
+      return this.collectMarketFirings(trigger, from, to, options.marketMovePercent ?? DEFAULT_MARKET_MOVE_PERCENT);
+    }
+
+    if (trigger.type === 'threshold' && trigger.threshold) {
+      return this.collectThresholdFirings(agent, trigger, from, to, transactions);
+    }
+
+    return null;
+  }
+
+  /**
+   * Daily closes for the filtered symbols; a move of at least movePercent is a market_change event
+   */
+  private async collectMarketFirings(
+    trigger: AgentTrigger,
+    from: Date,
+    to: Date,
+    movePercent: number
+  ): Promise<SimulatedFiring[] | null> {
+    const filters = trigger.event?.filters || {};
+    const symbols: string[] = [].concat(filters.symbols ?? filters.symbol ?? []);
+    if (symbols.length === 0) return null;
+
+    const firings: SimulatedFiring[] = [];
+    for (const symbol of symbols) {
+      const assetType: AssetType = filters.assetType || (/USDT?$/.test(symbol) ? 'crypto' : 'stock');
+      const candles = await marketDataService.getCandles(symbol, assetType, '1d', from, to);
+
+      for (let i = 1; i < candles.length; i++) {
+        const oldPrice = candles[i - 1].close;
+        const newPrice = candles[i].close;
+        if (!oldPrice) continue;
+
+        const changePercent = ((newPrice - oldPrice) / oldPrice) * 100;
+        if (Math.abs(changePercent) < movePercent) continue;
+
+        const market = {
+          symbol,
+          assetType,
+          oldPrice,
+          newPrice,
+          changePercent,
+          direction: changePercent > 0 ? 'up' : 'down',
+          timestamp: candles[i].timestamp,
+        };
+        if (!agentEventBus.matchesFilters(filters, { symbol, assetType, market })) continue;
+
+        firings.push({
+          at: new Date(candles[i].timestamp),
+          triggerId: trigger.id,
+          triggerType: trigger.type,
+          payload: { symbol, assetType, market, type: 'event', id: trigger.id, eventType: 'market_change', source: 'simulation' },
+        });
+      }
+    }
+
+    return firings;
+  }
+
+  /**
+   * Evaluate the metric once per day with the same edge/hysteresis rules as the live monitor
+   */
+  private async collectThresholdFirings(
+    agent: CustomAgent,
+    trigger: AgentTrigger,
+    from: Date,
+    to: Date,
+    transactions: RecordedTransaction[]
+  ): Promise<SimulatedFiring[] | null> {
+    const threshold = trigger.threshold!;
+    const metric = threshold.metric === 'custom' ? threshold.customMetric : threshold.metric;
+
+    // Balances have no history, only the current value
+    if (!metric || metric === 'balance' || !thresholdMonitor.getMetricNames().includes(metric)) {
+      return null;
+    }
+
+    const firings: SimulatedFiring[] = [];
+    let state: ThresholdState | undefined;
+
+    for (let time = from.getTime() + DAY_MS; time <= to.getTime(); time += DAY_MS) {
+      const day = new Date(time);
+      const value = await thresholdMonitor.getMetric(agent.userId, metric, {
+        windowDays: threshold.windowDays,
+        now: day,
+        transactions,
+      });
+      if (value === null || !isFinite(value)) continue;
+
+      const previousValue = state?.lastValue ?? null;
+      const step = stepThreshold(state, value, threshold, day);
+      state = step.state;
+      if (!step.fire) continue;
+
+      const payload: ThresholdTriggerPayload = {
+        type: 'threshold',
+        id: trigger.id,
+        metric,
+        operator: threshold.operator,
+        threshold: threshold.value,
+        value,
+        previousValue,
+        windowDays: threshold.windowDays ?? 30,
+        crossedAt: day,
+      };
+      firings.push({ at: day, triggerId: trigger.id, triggerType: trigger.type, payload: { ...payload } });
+    }
+
+    return firings;
+  }
+
+  private summarize(
+    agent: CustomAgent,
+    executions: AgentExecution[],
+    firings: SimulatedFiring[],
+    from: Date,
+    to: Date,
+    unsupportedTriggers: string[],
+    truncated: boolean
+  ): SimulationSummary {
+    const transferActionIds = new Set(agent.actions.filter(a => a.type === 'transfer').map(a => a.id));
+    const summary: SimulationSummary = {
+      agentId: agent.id,
+      agentName: agent.name,
+      from,
+      to,
+      triggerFirings: firings.length,
+      timesFired: 0,
+      conditionsNotMet: 0,
+      transferCount: 0,
+      transferVolume: 0,
+      pendingConfirmations: 0,
+      limitHits: [],
+      failedActions: 0,
+      firingsByTrigger: {},
+      unsupportedTriggers,
+      truncated,
+    };
+
+    firings.forEach(firing => {
+      summary.firingsByTrigger[firing.triggerId] = (summary.firingsByTrigger[firing.triggerId] || 0) + 1;
+    });
+
+    for (const execution of executions) {
+      if (execution.conditionsEvaluated.some(c => !c.result)) {
+        summary.conditionsNotMet++;
+        continue;
+      }
+      summary.timesFired++;
+
+      for (const action of execution.actionsExecuted) {
+        if (action.status === 'failed') {
+          summary.failedActions++;
+          if (action.result?.limit !== undefined) {
+            summary.limitHits.push({
+              executionId: execution.id,
+              actionId: action.actionId,
+              at: new Date(action.timestamp),
+              amount: action.result.amount,
+              limit: action.result.limit,
+            });
+          }
+          continue;
+        }
+
+        if (action.status === 'success' && transferActionIds.has(action.actionId) && action.result) {
+          summary.transferCount++;
+          summary.transferVolume += action.result.amount || 0;
+          if (action.result.status === 'pending_confirmation') {
+            summary.pendingConfirmations++;
+          }
+        }
+      }
+    }
+
+    summary.transferVolume = Math.round(summary.transferVolume * 100) / 100;
+    return summary;
+  }
+}
+
+// Export singleton instance
+export const agentSimulator = new AgentSimulator();
@@ -0,0 +1,378 @@
+/**
+ * Threshold Trigger Monitor
+ *
+ * Evaluates CustomAgent threshold triggers against live metrics
+ *
+ * Features:
+ * - Metric-provider registry (balance, spending, income, savings_rate + custom providers)
+ * - Flow metrics computed over a configurable look-back window from stored transactions
+ * - Periodic re-evaluation for the signed-in user
+ * - Fires only when the metric crosses the line (edge-triggered)
+ * - Hysteresis: after firing, the metric must move back past the line by a margin to re-arm
+ * - Persisted per-trigger state so reloads don't re-fire
+ */
+
+import { customAgentBuilder } from './customAgentBuilder';
+import type { AgentTrigger, CustomAgent } from './customAgentBuilder';
+import { accountAggregatorService } from './accountAggregator';
+import { userProfileService } from './userProfileService';
+import type { RecordedTransaction } from './userProfileService';
+
+// ==================== TYPES ====================
+
+export type ThresholdConfig = NonNullable<AgentTrigger['threshold']>;
+
+export interface MetricContext {
+  userId: string;
+  windowDays: number;
+  now: Date;
+  accountId?: string;
+  transactions?: RecordedTransaction[]; // Preloaded history (simulations); fetched when omitted
+}
+
+/**
+ * Computes a metric value; null means "not enough data" and leaves the trigger untouched
+ */
+export type MetricProvider = (context: MetricContext) => Promise<number | null>;
+
+export interface ThresholdTriggerPayload {
+  type: 'threshold';
+  id: string; // Trigger ID
+  metric: string;
+  operator: ThresholdConfig['operator'];
+  threshold: number;
+  value: number;
+  previousValue: number | null;
+  windowDays: number;
+  crossedAt: Date;
+  account?: { id: string; balance: number }; // Balance metric, so conditions can read account.balance
+}
+
+export interface ThresholdState {
+  armed: boolean; // Ready to fire on the next crossing
+  lastValue: number | null;
+  lastEvaluatedAt: string;
+  lastFiredAt?: string;
+}
+
+export interface ThresholdStatus {
+  agentId: string;
+  agentName: string;
+  triggerId: string;
+  threshold: ThresholdConfig;
+  state: ThresholdState | null;
+}
+
+// ==================== CONSTANTS ====================
+
+const EVALUATION_INTERVAL_MS = 60000; // Re-evaluate thresholds every minute
+const DEFAULT_WINDOW_DAYS = 30;
+const DEFAULT_HYSTERESIS_RATIO = 0.05; // 5% of the threshold value when none is configured
+const DAY_MS = 86400000;
+
+// ==================== BUILT-IN METRICS ====================
+
+async function getWindowTransactions(context: MetricContext): Promise<RecordedTransaction[]> {
+  const transactions = context.transactions ?? (await userProfileService.getTransactions(context.userId));
+  const from = context.now.getTime() - context.windowDays * DAY_MS;
+  return transactions.filter(t => {
+    const time = new Date(t.date).getTime();
+    return time > from && time <= context.now.getTime();
+  });
+}
+
+function sumByType(transactions: RecordedTransaction[], types: string[]): number {
+  return transactions
+    .filter(t => types.includes(t.type))
+    .reduce((sum, t) => sum + Math.abs(Number(t.amount) || 0), 0);
+}
+
+// Manual entries use income/expense; bank-style credit/debit is accepted too
+const INCOME_TYPES = ['income', 'credit'];
+const SPENDING_TYPES = ['expense', 'debit'];
+
+const balanceMetric: MetricProvider = async ({ userId, accountId }) => {
+  const accounts = await accountAggregatorService.getUserAccounts(userId);
+  const relevant = accounts.filter(a => (accountId ? a.id === accountId : a.accountType === 'bank'));
+  if (relevant.length === 0) return null;
+  return relevant.reduce((sum, a) => sum + (a.balance || 0), 0);
+};
+
+const spendingMetric: MetricProvider = async context => {
+  return sumByType(await getWindowTransactions(context), SPENDING_TYPES);
+};
+
+const incomeMetric: MetricProvider = async context => {
+  return sumByType(await getWindowTransactions(context), INCOME_TYPES);
+};
+
+const savingsRateMetric: MetricProvider = async context => {
+  const transactions = await getWindowTransactions(context);
+  const income = sumByType(transactions, INCOME_TYPES);
+  if (income === 0) return null;
+  const spending = sumByType(transactions, SPENDING_TYPES);
+  return ((income - spending) / income) * 100;
+};
+
+// ==================== HELPERS ====================
+
+function compare(value: number, operator: ThresholdConfig['operator'], threshold: number): boolean {
+  switch (operator) {
+    case '>': return value > threshold;
+    case '<': return value < threshold;
+    case '>=': return value >= threshold;
+    case '<=': return value <= threshold;
+    case '==': return value === threshold;
+    case '!=': return value !== threshold;
+  }
+}
+
+/**
+ * Whether a fired trigger has moved far enough back across the line to fire again
+ */
+function isRearmed(value: number, threshold: ThresholdConfig): boolean {
+  const band = threshold.hysteresis ?? Math.abs(threshold.value) * DEFAULT_HYSTERESIS_RATIO;
+
+  switch (threshold.operator) {
+    case '>':
+    case '>=':
+      return value < threshold.value - band;
+    case '<':
+    case '<=':
+      return value > threshold.value + band;
+    default:
+      return !compare(value, threshold.operator, threshold.value);
+  }
+}
+
+/**
+ * Advance one trigger's edge/hysteresis state with a new metric value.
+ * Unknown state counts as armed, so a trigger already past the line fires once.
+ */
+export function stepThreshold(
+  previous: ThresholdState | undefined,
+  value: number,
+  threshold: ThresholdConfig,
+  now: Date
+): { fire: boolean; state: ThresholdState } {
+  const armed = previous ? previous.armed || isRearmed(value, threshold) : true;
+  const fire = armed && compare(value, threshold.operator, threshold.value);
+
+  return {
+    fire,
+    state: {
+      armed: !fire && armed,
+      lastValue: value,
+      lastEvaluatedAt: now.toISOString(),
+      lastFiredAt: fire ? now.toISOString() : previous?.lastFiredAt,
+    },
+  };
+}
+
+// ==================== THRESHOLD MONITOR ====================
+
+export class ThresholdMonitor {
+  private providers = new Map<string, MetricProvider>([
+    ['balance', balanceMetric],
+    ['spending', spendingMetric],
+    ['income', incomeMetric],
+    ['savings_rate', savingsRateMetric],
+  ]);
+  private evaluationInterval: ReturnType<typeof setInterval> | null = null;
+  private activeUserId: string | null = null;
+  private evaluating = false;
+
+  /**
+   * Register (or replace) a metric provider. Custom metrics are referenced by
+   * threshold.customMetric when threshold.metric is 'custom'.
+   */
+  registerMetricProvider(name: string, provider: MetricProvider): void {
+    this.providers.set(name, provider);
+  }
+
+  getMetricNames(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Compute one metric for a user
+   */
+  async getMetric(
+    userId: string,
+    metric: string,
+    options: { windowDays?: number; accountId?: string; now?: Date; transactions?: RecordedTransaction[] } = {}
+  ): Promise<number | null> {
+    const provider = this.providers.get(metric);
+    if (!provider) {
+      throw new Error(`Unknown metric: ${metric}`);
+    }
+
+    return provider({
+      userId,
+      windowDays: options.windowDays ?? DEFAULT_WINDOW_DAYS,
+      accountId: options.accountId,
+      now: options.now ?? new Date(),
+      transactions: options.transactions,
+    });
+  }
+
+  /**
+   * Start evaluating threshold triggers for a user's agents
+   */
+  start(userId: string, intervalMs: number = EVALUATION_INTERVAL_MS): void {
+    if (this.evaluationInterval && this.activeUserId === userId) {
+      return;
+    }
+
+    this.stop();
+    this.activeUserId = userId;
+
+    console.log(`📏 Starting threshold monitor for user: ${userId}`);
+
+    this.evaluate();
+
+    this.evaluationInterval = setInterval(() => {
+      this.evaluate();
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.evaluationInterval) {
+      clearInterval(this.evaluationInterval);
+      this.evaluationInterval = null;
+      console.log('⏹️ Threshold monitor stopped');
+    }
+    this.activeUserId = null;
+  }
+
+  isRunning(): boolean {
+    return this.evaluationInterval !== null;
+  }
+
+  /**
+   * Current state of every threshold trigger of the user's active agents
+   */
+  async getStatus(userId: string): Promise<ThresholdStatus[]> {
+    const agents = await customAgentBuilder.getAllAgents(userId);
+    const state = this.loadState(userId);
+
+    return agents
+      .filter(a => a.status === 'active')
+      .flatMap(agent =>
+        this.getThresholdTriggers(agent).map(trigger => ({
+          agentId: agent.id,
+          agentName: agent.name,
+          triggerId: trigger.id,
+          threshold: trigger.threshold!,
+          state: state[this.stateKey(agent.id, trigger.id)] || null,
+        }))
+      );
+  }
+
+  /**
+   * Evaluate every threshold trigger once and fire the ones that crossed
+   */
+  async evaluate(now: Date = new Date()): Promise<void> {
+    const userId = this.activeUserId;
+    if (!userId || this.evaluating) return;
+
+    this.evaluating = true;
+    try {
+      const agents = await customAgentBuilder.getAllAgents(userId);
+      const state = this.loadState(userId);
+      const metricCache = new Map<string, Promise<number | null>>(); // One computation per metric/window per pass
+
+      for (const agent of agents.filter(a => a.status === 'active')) {
+        for (const trigger of this.getThresholdTriggers(agent)) {
+          await this.evaluateTrigger(userId, agent, trigger, state, metricCache, now);
+        }
+      }
+    } catch (error) {
+      console.error('Error evaluating threshold triggers:', error);
+    } finally {
+      this.evaluating = false;
+    }
+  }
+
+  private async evaluateTrigger(
+    userId: string,
+    agent: CustomAgent,
+    trigger: AgentTrigger,
+    state: Record<string, ThresholdState>,
+    metricCache: Map<string, Promise<number | null>>,
+    now: Date
+  ): Promise<void> {
+    const threshold = trigger.threshold!;
+    const metric = threshold.metric === 'custom' ? threshold.customMetric : threshold.metric;
+    if (!metric || !this.providers.has(metric)) {
+      console.warn(`⚠️ Skipping trigger ${trigger.id} of ${agent.name}: no provider for metric "${metric}"`);
+      return;
+    }
+
+    const windowDays = threshold.windowDays ?? DEFAULT_WINDOW_DAYS;
+    const cacheKey = `${metric}:${windowDays}:${threshold.accountId || ''}`;
+    if (!metricCache.has(cacheKey)) {
+      metricCache.set(cacheKey, this.getMetric(userId, metric, { windowDays, accountId: threshold.accountId, now }));
+    }
+
+    let value: number | null;
+    try {
+      value = await metricCache.get(cacheKey)!;
+    } catch (error) {
+      console.error(`Error computing ${metric} for ${agent.name}:`, error);
+      return;
+    }
+    if (value === null || !isFinite(value)) return;
+
+    const key = this.stateKey(agent.id, trigger.id);
+    const previous = state[key];
+    const { fire, state: next } = stepThreshold(previous, value, threshold, now);
+    state[key] = next;
+    // Persist before executing so an overlapping pass or reload cannot double-fire
+    this.saveState(userId, state);
+
+    if (!fire) return;
+
+    const payload: ThresholdTriggerPayload = {
+      type: 'threshold',
+      id: trigger.id,
+      metric,
+      operator: threshold.operator,
+      threshold: threshold.value,
+      value,
+      previousValue: previous?.lastValue ?? null,
+      windowDays,
+      crossedAt: now,
+      ...(metric === 'balance' ? { account: { id: threshold.accountId || 'all', balance: value } } : {}),
+    };
+
+    console.log(`📏 ${agent.name}: ${metric} ${value.toFixed(2)} ${threshold.operator} ${threshold.value}, firing ${trigger.id}`);
+
+    try {
+      await customAgentBuilder.executeAgent(agent.id, payload);
+    } catch (error) {
+      console.error(`Error running threshold agent ${agent.name}:`, error);
+    }
+  }
+
+  private getThresholdTriggers(agent: CustomAgent): AgentTrigger[] {
+    return agent.triggers.filter(trigger => trigger.enabled && trigger.type === 'threshold' && trigger.threshold);
+  }
+
+  // ==================== STORAGE METHODS ====================
+
+  private stateKey(agentId: string, triggerId: string): string {
+    return `${agentId}:${triggerId}`;
+  }
+
+  private loadState(userId: string): Record<string, ThresholdState> {
+    return JSON.parse(localStorage.getItem(`agent_threshold_state_${userId}`) || '{}');
+  }
+
+  private saveState(userId: string, state: Record<string, ThresholdState>): void {
+    localStorage.setItem(`agent_threshold_state_${userId}`, JSON.stringify(state));
+  }
+}
+
+// Export singleton instance
+export const thresholdMonitor = new ThresholdMonitor();
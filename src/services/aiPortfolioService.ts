@@ -7,6 +7,9 @@ import axios from 'axios';
 import { collection, addDoc, query, where, getDocs, updateDoc, doc, Timestamp } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import type { UserFinancialProfile } from './userProfileService';
+import { marketDataService } from './marketDataProvider';
+import { stepUpAuthService, StepUpError } from './stepUpAuthService';
+import type { StepUpCredential } from './stepUpAuthService';
 
 const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
 const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta2/models/text-bison-001:generateText';
@@ -107,7 +110,7 @@ export interface BankPaymentRequest {
     bankName: string;
   };
   paymentGateway: 'UPI' | 'Net Banking' | 'Debit Card';
-  status: 'Pending Authorization' | 'Authorized' | 'Processing' | 'Completed' | 'Failed';
+  status: 'Pending Authorization' | 'Authorized' | 'Processing' | 'Completed' | 'Failed' | 'Rejected';
   permissionGranted: boolean;
   timestamp: Date;
   notification: {
@@ -766,23 +769,15 @@ Provide a 3-sentence personalized investment strategy summary.
   }
 
   /**
-   * Authorize bank payment
+   * Authorize bank payment. Needs step-up: pass a credential, or verify beforehand
+   * through stepUpAuthService (e.g. once for a batch of approvals).
    */
-  async authorizePayment(requestId: string, password: string): Promise<{
+  async authorizePayment(requestId: string, credential?: StepUpCredential): Promise<{
     status: 'success' | 'error';
     message: string;
     transactionId?: string;
   }> {
     try {
-      // Verify password (in production, use proper authentication)
-      if (password.length < 6) {
-        return {
-          status: 'error',
-          message: 'Invalid password',
-        };
-      }
-
-      // Update payment request status
       const requests = JSON.parse(localStorage.getItem('payment_requests') || '[]');
       const requestIndex = requests.findIndex((r: BankPaymentRequest) => r.requestId === requestId);
 
@@ -793,6 +788,22 @@ Provide a 3-sentence personalized investment strategy summary.
         };
       }
 
+      const request: BankPaymentRequest = requests[requestIndex];
+      const purpose = `authorize ₹${request.amount.toLocaleString('en-IN')} for ${request.symbol}`;
+
+      if (credential) {
+        const verification = await stepUpAuthService.verify(request.userId, credential, purpose);
+        if (!verification.success) {
+          return {
+            status: 'error',
+            message: verification.message,
+          };
+        }
+      }
+      stepUpAuthService.requireStepUp(request.userId, purpose);
+
+      // Update payment request status
+
       requests[requestIndex].status = 'Authorized';
       requests[requestIndex].permissionGranted = true;
       localStorage.setItem('payment_requests', JSON.stringify(requests));
@@ -815,6 +826,12 @@ Provide a 3-sentence personalized investment strategy summary.
         transactionId,
       };
     } catch (error) {
+      if (error instanceof StepUpError) {
+        return {
+          status: 'error',
+          message: error.message,
+        };
+      }
       console.error('Error authorizing payment:', error);
       return {
         status: 'error',
@@ -823,6 +840,22 @@ Provide a 3-sentence personalized investment strategy summary.
     }
   }
 
+  /**
+   * Reject bank payment request
+   */
+  async rejectPaymentRequest(requestId: string): Promise<void> {
+    const requests = JSON.parse(localStorage.getItem('payment_requests') || '[]');
+    const requestIndex = requests.findIndex((r: BankPaymentRequest) => r.requestId === requestId);
+
+    if (requestIndex >= 0) {
+      requests[requestIndex].status = 'Rejected';
+      requests[requestIndex].permissionGranted = false;
+      requests[requestIndex].notification.requiresAction = false;
+      localStorage.setItem('payment_requests', JSON.stringify(requests));
+      console.log('❌ Payment request rejected:', requestId);
+    }
+  }
+
   /**
    * Get pending payment requests for user
    */
@@ -1028,8 +1061,8 @@ Provide a 3-sentence personalized investment strategy summary.
     for (const investment of portfolio) {
       if (!investment.autoTrackingEnabled) continue;
 
-      // Fetch current price (mock - integrate with real API)
-      const currentPrice = await this.fetchCurrentPrice(investment.symbol);
+      // Fetch current price from the shared market data providers
+      const currentPrice = await this.fetchCurrentPrice(investment.symbol, investment.currentPrice);
       const currentValue = investment.quantity * currentPrice;
       const profitLoss = currentValue - investment.investmentAmount;
       const profitLossPercent = (profitLoss / investment.investmentAmount) * 100;
@@ -1088,21 +1121,11 @@ Provide a 3-sentence personalized investment strategy summary.
   }
 
   /**
-   * Fetch current price (mock - integrate with real API)
+   * Fetch current price from the market data providers, keeping the last known price if unavailable
    */
-  private async fetchCurrentPrice(symbol: string): Promise<number> {
-    // In production, integrate with NSE/BSE real-time API
-    // For now, simulate price change
-    const priceChanges: Record<string, number> = {
-      'RELIANCE': 2450 + (Math.random() * 100 - 50),
-      'TCS': 3650 + (Math.random() * 100 - 50),
-      'INFY': 1580 + (Math.random() * 50 - 25),
-      'HDFCBANK': 1650 + (Math.random() * 50 - 25),
-      'TATAMOTORS': 750 + (Math.random() * 50 - 25),
-      'BHARTIARTL': 1250 + (Math.random() * 50 - 25),
-    };
-
-    return priceChanges[symbol] || 1000;
+  private async fetchCurrentPrice(symbol: string, lastKnownPrice: number): Promise<number> {
+    const price = await marketDataService.getPrice(symbol, 'stock');
+    return price ?? lastKnownPrice;
   }
 }
 
@@ -9,6 +9,9 @@ import { getUserProfile } from './authService';
 import { generateTaxOptimizationReport } from './taxOptimizationService';
 import { getUserInvestments } from './portfolioService';
 import { logActivity, ActivityType } from './activityLogger';
+import { planTaxLossHarvest } from './taxLossHarvestingAgent';
+import { estimateDeductionSaving, getFinancialYear, getFinancialYearDates, type TaxDeductions } from './taxEngine';
+import { calculateHraExemption, hraExemptionService } from './hraExemption';
 
 export interface AITaxRecommendation {
   id: string;
@@ -58,6 +61,15 @@ export async function generateAITaxRecommendations(userId: string): Promise<TaxA
 
     const recommendations: AITaxRecommendation[] = [];
 
+    // Deductions only count under the old regime, so savings are measured there
+    const savingFor = (additional: TaxDeductions) =>
+      estimateDeductionSaving({ grossIncome: salary, regime: 'old', age }, additional);
+    const formatINR = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+    const financialYear = getFinancialYear();
+    const financialYearEnd = getFinancialYearDates(financialYear).end;
+    const yearEndDeadline = financialYearEnd.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
     // Calculate current investment in 80C instruments
     const current80CInvestment = investments
       .filter(inv => ['mutual_funds', 'fixed_deposit'].includes(inv.type))
@@ -66,11 +78,12 @@ export async function generateAITaxRecommendations(userId: string): Promise<TaxA
     // Recommendation 1: Maximize 80C if not at limit
     if (current80CInvestment < 150000 && salary >= 500000) {
       const remaining80C = 150000 - current80CInvestment;
+      const saving80C = savingFor({ section80C: remaining80C });
       recommendations.push({
         id: 'max_80c',
         title: 'Maximize Section 80C Deductions',
         priority: 'high',
-        potentialSaving: remaining80C * 0.30, // Assuming 30% tax bracket
+        potentialSaving: saving80C,
         description: `You can still invest ₹${remaining80C.toLocaleString('en-IN')} under Section 80C to maximize tax savings`,
         actionSteps: [
           `Invest remaining ₹${remaining80C.toLocaleString('en-IN')} before March 31`,
@@ -78,9 +91,9 @@ export async function generateAITaxRecommendations(userId: string): Promise<TaxA
           'PPF for long-term, safe returns with 15-year lock-in',
           'Tax-saving FDs if you prefer low-risk options',
         ],
-        deadline: 'March 31, 2025',
+        deadline: yearEndDeadline,
         relatedSchemes: ['80C ELSS', '80C PPF', '80C Tax-saving FD'],
-        reasoning: `With ₹${remaining80C.toLocaleString('en-IN')} uninvested, you're potentially losing ₹${(remaining80C * 0.30).toLocaleString('en-IN')} in tax savings. Acting now can reduce your tax burden significantly.`,
+        reasoning: `With ₹${remaining80C.toLocaleString('en-IN')} uninvested, you're potentially losing ${formatINR(saving80C)} in tax savings. Acting now can reduce your tax burden significantly.`,
         impact: 'immediate',
       });
     }
@@ -88,11 +101,12 @@ export async function generateAITaxRecommendations(userId: string): Promise<TaxA
     // Recommendation 2: NPS for additional 50K deduction
     if (salary >= 800000 && age < 55) {
       const npsDeduction = 50000;
+      const npsSaving = savingFor({ section80CCD1B: npsDeduction });
       recommendations.push({
         id: 'nps_80ccd1b',
         title: 'Invest in NPS for Extra ₹50,000 Deduction',
         priority: 'high',
-        potentialSaving: npsDeduction * 0.30,
+        potentialSaving: npsSaving,
         description: 'Get an additional ₹50,000 tax deduction over and above Section 80C limit',
         actionSteps: [
           'Open NPS Tier-1 account online (takes 10 minutes)',
@@ -100,9 +114,9 @@ export async function generateAITaxRecommendations(userId: string): Promise<TaxA
           'Choose investment mix: 75% equity for higher returns (if under 40)',
           'Set up auto-debit for regular contributions',
         ],
-        deadline: 'March 31, 2025',
+        deadline: yearEndDeadline,
         relatedSchemes: ['80CCD(1B) NPS'],
-        reasoning: `At your income level, NPS provides the best tax-to-return ratio with an additional ₹15,000 tax saving. The retirement corpus will grow tax-efficiently.`,
+        reasoning: `At your income level, NPS provides the best tax-to-return ratio with an additional ${formatINR(npsSaving)} tax saving. The retirement corpus will grow tax-efficiently.`,
         impact: 'long-term',
       });
     }
@@ -110,11 +124,12 @@ export async function generateAITaxRecommendations(userId: string): Promise<TaxA
     // Recommendation 3: Health Insurance
     const healthInsuranceLimit = age >= 60 ? 50000 : 25000;
     if (!userProfile.financialInfo.hasHealthInsurance && salary >= 400000) {
+      const healthInsuranceSaving = savingFor({ section80D: healthInsuranceLimit });
       recommendations.push({
         id: 'health_insurance_80d',
         title: 'Buy Health Insurance for 80D Benefits',
         priority: 'high',
-        potentialSaving: healthInsuranceLimit * 0.30,
+        potentialSaving: healthInsuranceSaving,
         description: `Get tax deduction up to ₹${healthInsuranceLimit.toLocaleString('en-IN')} plus medical coverage`,
         actionSteps: [
           `Buy family floater health insurance (₹5-10 lakh coverage)`,
@@ -124,18 +139,19 @@ export async function generateAITaxRecommendations(userId: string): Promise<TaxA
         ],
         deadline: 'As soon as possible',
         relatedSchemes: ['80D Health Insurance'],
-        reasoning: `Health insurance is a win-win: you get ₹${(healthInsuranceLimit * 0.30).toLocaleString('en-IN')} tax savings PLUS financial protection against medical emergencies. This is a critical gap in your financial planning.`,
+        reasoning: `Health insurance is a win-win: you get ${formatINR(healthInsuranceSaving)} tax savings PLUS financial protection against medical emergencies. This is a critical gap in your financial planning.`,
         impact: 'immediate',
       });
     }
 
     // Recommendation 4: Home Loan Tax Benefits
     if (!hasHomeLoan && salary >= 800000 && age < 45) {
+      const homeLoanSaving = savingFor({ homeLoanInterest: 200000, section80C: 150000 });
       recommendations.push({
         id: 'home_loan_benefits',
         title: 'Consider Home Loan for Tax Benefits',
         priority: 'medium',
-        potentialSaving: (200000 + 150000) * 0.30, // Interest + Principal
+        potentialSaving: homeLoanSaving, // Interest + Principal
         description: 'Home loan provides dual tax benefits under Section 24(b) and 80C',
         actionSteps: [
           'If planning to buy property, consider home loan benefits',
@@ -145,31 +161,64 @@ export async function generateAITaxRecommendations(userId: string): Promise<TaxA
         ],
         deadline: 'Long-term planning',
         relatedSchemes: ['24(b) Home Loan Interest', '80C Home Loan Principal'],
-        reasoning: `At your income and age, a home loan can provide up to ₹1,05,000 in annual tax savings while building an appreciating asset. This is particularly beneficial if you're paying rent.`,
+        reasoning: `At your income and age, a home loan can provide up to ${formatINR(homeLoanSaving)} in annual tax savings while building an appreciating asset. This is particularly beneficial if you're paying rent.`,
         impact: 'long-term',
       });
     }
 
-    // Recommendation 5: HRA Optimization (for salaried)
+    // Recommendation 5: HRA exemption (for salaried)
     if (employmentType === 'salaried' && salary >= 600000) {
-      const hraExemption = salary * 0.40; // Estimated 40% of basic as HRA
-      recommendations.push({
-        id: 'hra_optimization',
-        title: 'Optimize House Rent Allowance (HRA)',
-        priority: 'high',
-        potentialSaving: hraExemption * 0.30,
-        description: 'Maximize HRA exemption by proper rent arrangement',
-        actionSteps: [
-          'Ensure rent receipts are maintained monthly',
-          'Get rental agreement notarized',
-          'Provide landlord PAN if annual rent > ₹1 lakh',
-          'Submit HRA declaration to employer',
-        ],
-        deadline: 'Before January for TDS adjustment',
-        relatedSchemes: ['Section 10(13A) HRA'],
-        reasoning: `Many salaried employees miss out on HRA benefits worth ₹${(hraExemption * 0.30 / 1000).toFixed(0)}K+ annually. Proper documentation can significantly reduce your tax liability.`,
-        impact: 'immediate',
-      });
+      const hra = await hraExemptionService.getHraExemption(userId, financialYear);
+      const rentMonths = hra.months.filter(m => m.rentPaid > 0).length;
+
+      // Without a salary structure, assume basic at 40% of salary and HRA at half of basic
+      const estimate = hra.hasSalaryStructure
+        ? hra
+        : calculateHraExemption(
+            [{
+              effectiveFrom: getFinancialYearDates(financialYear).start,
+              basicMonthly: (salary * 0.4) / 12,
+              hraMonthly: (salary * 0.2) / 12,
+              isMetro: false,
+            }],
+            {},
+            financialYear
+          );
+      // Most HRA that could be exempt if rent covers it
+      const maxExempt = estimate.months.reduce(
+        (sum, m) => sum + Math.min(m.limits.actualHra, m.limits.percentOfSalary),
+        0
+      );
+      const claimable = rentMonths > 0 ? hra.totalExempt : maxExempt;
+      const hraSaving = savingFor({ hra: claimable });
+
+      if (hraSaving > 0) {
+        recommendations.push({
+          id: 'hra_optimization',
+          title: rentMonths > 0 ? 'Claim Your HRA Exemption' : 'Optimize House Rent Allowance (HRA)',
+          priority: 'high',
+          potentialSaving: hraSaving,
+          description: rentMonths > 0
+            ? `${formatINR(hra.totalExempt)} of your ${formatINR(hra.totalHraReceived)} HRA is exempt under Section 10(13A) on rent of ${formatINR(hra.totalRentPaid)}`
+            : `Up to ${formatINR(claimable)} of HRA can be exempt if you pay rent`,
+          actionSteps: [
+            ...(hra.hasSalaryStructure ? [] : ['Add your basic pay and HRA to your profile for an exact figure']),
+            ...(rentMonths > 0 && rentMonths < hra.months.length
+              ? [`Record rent for the ${hra.months.length - rentMonths} month(s) with no Rent transaction`]
+              : []),
+            'Ensure rent receipts are maintained monthly',
+            'Get rental agreement notarized',
+            'Provide landlord PAN if annual rent > ₹1 lakh',
+            'Submit HRA declaration to employer',
+          ],
+          deadline: 'Before January for TDS adjustment',
+          relatedSchemes: ['Section 10(13A) HRA'],
+          reasoning: rentMonths > 0
+            ? `The exemption is the least of actual HRA, rent minus 10% of basic, and ${hra.months.some(m => m.isMetro) ? '50' : '40'}% of basic, worked out for each month. Declaring it to your employer saves ${formatINR(hraSaving)} in tax.`
+            : `Many salaried employees miss out on HRA benefits worth ₹${(hraSaving / 1000).toFixed(0)}K+ annually. Proper documentation can significantly reduce your tax liability.`,
+          impact: 'immediate',
+        });
+      }
     }
 
     // Recommendation 6: Regime Optimization
@@ -193,36 +242,38 @@ export async function generateAITaxRecommendations(userId: string): Promise<TaxA
       });
     }
 
-    // Recommendation 7: Tax-loss Harvesting
+    // Recommendation 7: Tax-loss Harvesting (open lots in loss against this year's realized gains)
     const losingInvestments = investments.filter(inv => (inv.returns || 0) < 0);
-    if (losingInvestments.length > 0 && salary >= 1000000) {
-      const totalLoss = losingInvestments.reduce((sum, inv) => sum + Math.abs(inv.returns || 0), 0);
+    const harvest = await planTaxLossHarvest(userId, {}, { regime, baseIncome: salary, age });
+    if (harvest.candidates.length > 0) {
+      const harvestSymbols = [...new Set(harvest.candidates.map(c => c.symbol))];
       recommendations.push({
         id: 'tax_loss_harvesting',
         title: 'Harvest Tax Losses from Investments',
-        priority: 'medium',
-        potentialSaving: totalLoss * 0.30,
+        priority: harvest.estimatedTaxSaved >= 10000 ? 'high' : 'medium',
+        potentialSaving: harvest.estimatedTaxSaved,
         description: 'Offset capital gains by booking losses strategically',
         actionSteps: [
-          `You have ₹${totalLoss.toLocaleString('en-IN')} in unrealized losses`,
-          'Book losses before March 31 to offset gains',
-          'Can carry forward losses for 8 years',
-          'Rebuy fundamentally strong stocks after booking loss',
+          `Book ${formatINR(harvest.totalHarvestableLoss)} of losses in ${harvestSymbols.join(', ')}`,
+          `Capital gains tax drops from ${formatINR(harvest.taxBefore)} to ${formatINR(harvest.taxAfter)}`,
+          'Reinvest the proceeds in a similar asset to stay invested',
+          'Losses not used this year can be carried forward for 8 years',
         ],
-        deadline: 'March 31, 2025',
+        deadline: yearEndDeadline,
         relatedSchemes: ['Capital Gains Tax Optimization'],
-        reasoning: `Strategic loss booking can save taxes on your capital gains. With ₹${totalLoss.toLocaleString('en-IN')} in losses, this is a smart tax strategy.`,
+        reasoning: `You have realized gains taxable this year and lots trading below cost. Selling those lots before year end sets the losses off against the gains.`,
         impact: 'short-term',
       });
     }
 
     // Recommendation 8: Parent's Health Insurance
     if (age < 50 && salary >= 1000000) {
+      const parentsSaving = savingFor({ other: 50000 }); // Separate 80D limit for senior parents
       recommendations.push({
         id: 'parent_health_insurance',
         title: 'Cover Parents Under Health Insurance',
         priority: 'medium',
-        potentialSaving: 50000 * 0.30,
+        potentialSaving: parentsSaving,
         description: 'Get additional ₹50,000 deduction for parents\' health insurance',
         actionSteps: [
           'Buy health insurance for parents (senior citizen plans)',
@@ -232,18 +283,22 @@ export async function generateAITaxRecommendations(userId: string): Promise<TaxA
         ],
         deadline: 'Financial year-end',
         relatedSchemes: ['80D Health Insurance (Parents)'],
-        reasoning: `This is a dual benefit: financial protection for parents + ₹15,000 tax savings. It's a socially responsible investment with tax benefits.`,
+        reasoning: `This is a dual benefit: financial protection for parents + ${formatINR(parentsSaving)} tax savings. It's a socially responsible investment with tax benefits.`,
         impact: 'immediate',
       });
     }
 
     // Recommendation 9: LTA (Leave Travel Allowance)
     if (employmentType === 'salaried' && salary >= 500000) {
+      const ltaSaving = savingFor({ lta: 30000 });
+      // LTA runs in four-calendar-year blocks (2022-2025, 2026-2029, ...)
+      const currentYear = new Date().getFullYear();
+      const ltaBlockEnd = currentYear + 3 - ((((currentYear - 2022) % 4) + 4) % 4);
       recommendations.push({
         id: 'lta_utilization',
         title: 'Utilize Leave Travel Allowance (LTA)',
         priority: 'low',
-        potentialSaving: 30000 * 0.30,
+        potentialSaving: ltaSaving,
         description: 'Claim tax exemption on domestic travel',
         actionSteps: [
           'Plan domestic travel with family',
@@ -251,20 +306,21 @@ export async function generateAITaxRecommendations(userId: string): Promise<TaxA
           'Claimable twice in 4-year block',
           'Submit to employer for exemption',
         ],
-        deadline: 'Current block ends: Dec 2025',
+        deadline: `Current block ends: Dec ${ltaBlockEnd}`,
         relatedSchemes: ['Section 10(5) LTA'],
-        reasoning: `LTA is an often-ignored benefit that can save ₹9,000+ in taxes while enabling family travel. Plan a domestic trip before the block expires.`,
+        reasoning: `LTA is an often-ignored benefit that can save ${formatINR(ltaSaving)} in taxes while enabling family travel. Plan a domestic trip before the block expires.`,
         impact: 'short-term',
       });
     }
 
     // Recommendation 10: Donations (for high earners)
     if (salary >= 1500000) {
+      const donationSaving = savingFor({ other: 50000 * 0.50 }); // 50% qualifying amount for most NGOs
       recommendations.push({
         id: 'charitable_donations',
         title: 'Tax-efficient Charitable Giving',
         priority: 'low',
-        potentialSaving: 50000 * 0.50, // 50% or 100% deduction
+        potentialSaving: donationSaving, // 50% or 100% deduction
         description: 'Support causes you care about while saving taxes',
         actionSteps: [
           'Donate to PM Relief Fund (100% deduction)',
@@ -274,7 +330,7 @@ export async function generateAITaxRecommendations(userId: string): Promise<TaxA
         ],
         deadline: 'Before March 31',
         relatedSchemes: ['80G Donations'],
-        reasoning: `At your income level, strategic charitable giving combines social impact with tax optimization. A ₹50,000 donation can save ₹25,000 in taxes.`,
+        reasoning: `At your income level, strategic charitable giving combines social impact with tax optimization. A ₹50,000 donation can save ${formatINR(donationSaving)} in taxes.`,
         impact: 'immediate',
       });
     }
@@ -290,11 +346,10 @@ export async function generateAITaxRecommendations(userId: string): Promise<TaxA
 
     // Generate urgent actions
     const urgentActions: string[] = [];
-    const financialYearEnd = new Date('2025-03-31');
     const daysRemaining = Math.ceil((financialYearEnd.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
     
     if (daysRemaining <= 60) {
-      urgentActions.push(`⏰ Only ${daysRemaining} days left for FY 2024-25 tax planning!`);
+      urgentActions.push(`⏰ Only ${daysRemaining} days left for ${financialYear} tax planning!`);
     }
     
     if (current80CInvestment < 150000) {
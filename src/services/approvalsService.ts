@@ -0,0 +1,416 @@
+/**
+ * Unified Approvals Service
+ *
+ * One inbox for everything an agent is waiting on the user for
+ *
+ * Features:
+ * - Aggregates the approval queues of every agent subsystem into one PendingApproval model
+ * - Source, amount, deadline and explanation on every item
+ * - Urgency from the deadline and amount, with filtering
+ * - Flags items that execute by themselves when their deadline passes
+ * - Bulk approve/reject with per-item results
+ * - Marks items that need step-up verification; one verification covers a bulk approval
+ */
+
+import { approveExecution, cancelExecution, getPendingExecutions, placesOrders } from './agentMarketplace';
+import { riskAutoSellAgent } from './riskAutoSellAgent';
+import { autoSavingsAgent } from './autoSavingsAgent';
+import { loanTaxAgentService } from './loanTaxAgentService';
+import { aiPortfolioService } from './aiPortfolioService';
+import { autonomousAgentService } from './autonomousAgents';
+import { customAgentBuilder } from './customAgentBuilder';
+import { stepUpAuthService } from './stepUpAuthService';
+
+// ==================== TYPES ====================
+
+export type ApprovalSource =
+  | 'agent_marketplace'
+  | 'risk_auto_sell'
+  | 'auto_savings'
+  | 'loan_payment'
+  | 'investment_payment'
+  | 'autonomous_agent'
+  | 'custom_agent';
+
+export type ApprovalUrgency = 'critical' | 'high' | 'normal' | 'low';
+
+export interface PendingApproval {
+  id: string; // `${source}:${sourceId}`, unique across sources
+  source: ApprovalSource;
+  sourceId: string; // ID in the owning subsystem
+  sourceLabel: string;
+  title: string;
+  explanation: string;
+  amount: number | null; // ₹, null when the action has no money attached
+  deadline: Date | null;
+  autoExecutes: boolean; // Goes ahead by itself at the deadline unless rejected
+  urgency: ApprovalUrgency;
+  requiresStepUp: boolean; // Approval needs a recent stepUpAuthService verification
+  createdAt: Date;
+}
+
+export interface ApprovalFilter {
+  urgency?: ApprovalUrgency[];
+  sources?: ApprovalSource[];
+  now?: Date;
+}
+
+export interface ApprovalResult {
+  approvalId: string;
+  success: boolean;
+  message: string;
+}
+
+// ==================== CONSTANTS ====================
+
+export const APPROVAL_SOURCE_LABELS: Record<ApprovalSource, string> = {
+  agent_marketplace: 'Marketplace Agent',
+  risk_auto_sell: 'Risk Auto-Sell',
+  auto_savings: 'Auto Savings',
+  loan_payment: 'Loan Application',
+  investment_payment: 'Investment Payment',
+  autonomous_agent: 'Autonomous Agent',
+  custom_agent: 'Custom Agent',
+};
+
+const URGENCY_ORDER: ApprovalUrgency[] = ['critical', 'high', 'normal', 'low'];
+const CRITICAL_WINDOW_MS = 60 * 60 * 1000; // Deadline within the hour
+const HIGH_WINDOW_MS = 24 * 60 * 60 * 1000; // Deadline within a day
+const HIGH_URGENCY_AMOUNT = 100000; // ₹1 lakh and above is always high urgency (step-up uses its own threshold)
+// Sources whose approve path enforces step-up above stepUpAuthService's amount threshold
+const STEP_UP_SOURCES: ApprovalSource[] = ['risk_auto_sell', 'auto_savings', 'loan_payment', 'custom_agent'];
+
+// ==================== APPROVALS SERVICE ====================
+
+export class ApprovalsService {
+  /**
+   * Every pending approval for the user, most urgent first.
+   * A source that fails to load is skipped so the rest of the inbox still shows.
+   */
+  async getPendingApprovals(userId: string, filter: ApprovalFilter = {}): Promise<PendingApproval[]> {
+    const now = filter.now ?? new Date();
+
+    const loaders: Record<ApprovalSource, () => Promise<PendingApproval[]>> = {
+      agent_marketplace: () => this.loadMarketplaceExecutions(userId, now),
+      risk_auto_sell: () => this.loadSellOrders(userId, now),
+      auto_savings: () => this.loadSavingsTransactions(userId, now),
+      loan_payment: () => this.loadLoanConfirmations(userId, now),
+      investment_payment: () => this.loadPaymentRequests(userId, now),
+      autonomous_agent: () => this.loadAutonomousActions(userId, now),
+      custom_agent: () => this.loadCustomAgentTransfers(userId, now),
+    };
+
+    const sources = (Object.keys(loaders) as ApprovalSource[]).filter(
+      source => !filter.sources || filter.sources.includes(source)
+    );
+    const results = await Promise.allSettled(sources.map(source => loaders[source]()));
+
+    const approvals: PendingApproval[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        approvals.push(...result.value);
+      } else {
+        console.warn(`⚠️ Could not load approvals from ${sources[index]}:`, result.reason);
+      }
+    });
+
+    return approvals
+      .filter(approval => !filter.urgency || filter.urgency.includes(approval.urgency))
+      .sort((a, b) => this.compareApprovals(a, b));
+  }
+
+  /**
+   * Approve one item in its owning subsystem. Items that require step-up fail
+   * unless the user verified through stepUpAuthService beforehand.
+   */
+  async approve(userId: string, approval: PendingApproval): Promise<ApprovalResult> {
+    try {
+      switch (approval.source) {
+        case 'agent_marketplace':
+          await approveExecution(userId, approval.sourceId);
+          return this.result(approval, true, 'Agent action approved');
+
+        case 'risk_auto_sell': {
+          const outcome = await riskAutoSellAgent.confirmSellOrder(approval.sourceId, userId);
+          return this.result(approval, outcome.success, outcome.message);
+        }
+
+        case 'auto_savings': {
+          const outcome = await autoSavingsAgent.confirmTransaction(approval.sourceId, userId);
+          return this.result(approval, outcome.success, outcome.message);
+        }
+
+        case 'loan_payment': {
+          const outcome = await loanTaxAgentService.confirmPayment(approval.sourceId);
+          return this.result(approval, outcome.status === 'success', outcome.message);
+        }
+
+        case 'investment_payment': {
+          const outcome = await aiPortfolioService.authorizePayment(approval.sourceId);
+          return this.result(approval, outcome.status === 'success', outcome.message);
+        }
+
+        case 'autonomous_agent':
+          await autonomousAgentService.grantConsent(approval.sourceId);
+          return this.result(approval, true, 'Consent granted');
+
+        case 'custom_agent': {
+          const execution = await customAgentBuilder.approvePendingTransfer(userId, approval.sourceId);
+          return this.result(approval, execution.status !== 'failed', `Transfer approved, agent run ${execution.status}`);
+        }
+      }
+    } catch (error) {
+      console.error(`Error approving ${approval.id}:`, error);
+      return this.result(approval, false, error instanceof Error ? error.message : 'Approval failed');
+    }
+  }
+
+  /**
+   * Reject (cancel) one item in its owning subsystem
+   */
+  async reject(userId: string, approval: PendingApproval): Promise<ApprovalResult> {
+    try {
+      switch (approval.source) {
+        case 'agent_marketplace':
+          await cancelExecution(userId, approval.sourceId);
+          return this.result(approval, true, 'Agent action cancelled');
+
+        case 'risk_auto_sell': {
+          const outcome = await riskAutoSellAgent.cancelSellOrder(approval.sourceId, userId);
+          return this.result(approval, outcome.success, outcome.message);
+        }
+
+        case 'auto_savings': {
+          const outcome = await autoSavingsAgent.cancelTransaction(approval.sourceId);
+          return this.result(approval, outcome.success, outcome.message);
+        }
+
+        case 'loan_payment':
+          await loanTaxAgentService.rejectPayment(approval.sourceId);
+          return this.result(approval, true, 'Loan application rejected');
+
+        case 'investment_payment':
+          await aiPortfolioService.rejectPaymentRequest(approval.sourceId);
+          return this.result(approval, true, 'Payment request rejected');
+
+        case 'autonomous_agent':
+          await autonomousAgentService.denyConsent(approval.sourceId);
+          return this.result(approval, true, 'Consent denied');
+
+        case 'custom_agent':
+          await customAgentBuilder.rejectPendingTransfer(userId, approval.sourceId);
+          return this.result(approval, true, 'Transfer rejected');
+      }
+    } catch (error) {
+      console.error(`Error rejecting ${approval.id}:`, error);
+      return this.result(approval, false, error instanceof Error ? error.message : 'Rejection failed');
+    }
+  }
+
+  /**
+   * Approve several items one after another; one failure does not stop the rest
+   */
+  async bulkApprove(userId: string, approvals: PendingApproval[]): Promise<ApprovalResult[]> {
+    const results: ApprovalResult[] = [];
+    for (const approval of approvals) {
+      results.push(await this.approve(userId, approval));
+    }
+    return results;
+  }
+
+  async bulkReject(userId: string, approvals: PendingApproval[]): Promise<ApprovalResult[]> {
+    const results: ApprovalResult[] = [];
+    for (const approval of approvals) {
+      results.push(await this.reject(userId, approval));
+    }
+    return results;
+  }
+
+  /**
+   * Milliseconds until an item's deadline (negative once passed), or null without one
+   */
+  getTimeRemaining(approval: PendingApproval, now: Date = new Date()): number | null {
+    return approval.deadline ? approval.deadline.getTime() - now.getTime() : null;
+  }
+
+  getUrgency(amount: number | null, deadline: Date | null, now: Date = new Date()): ApprovalUrgency {
+    if (deadline) {
+      const remaining = deadline.getTime() - now.getTime();
+      if (remaining <= CRITICAL_WINDOW_MS) return 'critical';
+      if (remaining <= HIGH_WINDOW_MS) return 'high';
+    }
+    if (amount !== null && amount >= HIGH_URGENCY_AMOUNT) return 'high';
+    if (deadline || amount !== null) return 'normal';
+    return 'low';
+  }
+
+  // ==================== SOURCE ADAPTERS ====================
+
+  private async loadMarketplaceExecutions(userId: string, now: Date): Promise<PendingApproval[]> {
+    const executions = await getPendingExecutions(userId);
+    return executions
+      .filter(execution => execution.requiresApproval)
+      .map(execution => {
+        const amount = typeof execution.metadata?.amount === 'number' ? execution.metadata.amount : null;
+        return this.build({
+          source: 'agent_marketplace',
+          sourceId: execution.id,
+          title: execution.action,
+          explanation: [execution.details, execution.recommendation].filter(Boolean).join('\n\n'),
+          amount,
+          deadline: null,
+          autoExecutes: false,
+          requiresStepUp: placesOrders(execution),
+          createdAt: execution.createdAt,
+        }, now);
+      });
+  }
+
+  private async loadSellOrders(userId: string, now: Date): Promise<PendingApproval[]> {
+    const orders = await riskAutoSellAgent.getPendingSellOrders(userId);
+    return orders.map(order =>
+      this.build({
+        source: 'risk_auto_sell',
+        sourceId: order.id,
+        title: `Sell ${order.quantity} × ${order.ticker}`,
+        explanation:
+          `${order.companyName} is down ${Math.abs(order.percentChange).toFixed(2)}% at ₹${order.currentPrice.toLocaleString('en-IN')}, ` +
+          `below the stop-loss of ₹${order.stopLossPrice.toLocaleString('en-IN')}. ` +
+          `The position is ${order.portfolioValuePercent.toFixed(1)}% of your portfolio.` +
+          (order.requiresTwoStepConfirmation ? ' High-value order: it will not sell without your confirmation.' : ''),
+        amount: order.quantity * order.currentPrice,
+        deadline: new Date(order.expiresAt),
+        // Two-step orders are never auto-executed by the agent
+        autoExecutes: !order.requiresTwoStepConfirmation,
+        requiresStepUp: order.requiresTwoStepConfirmation || undefined,
+        createdAt: new Date(order.createdAt),
+      }, now)
+    );
+  }
+
+  private async loadSavingsTransactions(userId: string, now: Date): Promise<PendingApproval[]> {
+    const transactions = await autoSavingsAgent.getPendingTransactions(userId);
+    return transactions.map(transaction =>
+      this.build({
+        source: 'auto_savings',
+        sourceId: transaction.id,
+        title: `Save ₹${transaction.amount.toLocaleString('en-IN')} (${transaction.ruleName})`,
+        explanation: `${transaction.reason}. From ${transaction.sourceAccount.name} to ${transaction.destinationAccount.name}.`,
+        amount: transaction.amount,
+        deadline: null,
+        autoExecutes: false,
+        createdAt: new Date(transaction.createdAt),
+      }, now)
+    );
+  }
+
+  private async loadLoanConfirmations(userId: string, now: Date): Promise<PendingApproval[]> {
+    const confirmations = await loanTaxAgentService.getPendingConfirmations(userId);
+    return confirmations.map(confirmation =>
+      this.build({
+        source: 'loan_payment',
+        sourceId: confirmation.confirmationId,
+        title: `${confirmation.loanType} from ${confirmation.bankName}`,
+        explanation:
+          `${confirmation.notification.message}\nEMI ₹${confirmation.emi.toLocaleString('en-IN')}, ` +
+          `estimated tax saving ₹${confirmation.taxBenefitSummary.annualSaving.toLocaleString('en-IN')}/year.`,
+        amount: confirmation.amount,
+        deadline: null,
+        autoExecutes: false,
+        createdAt: new Date(confirmation.notification.timestamp),
+      }, now)
+    );
+  }
+
+  private async loadPaymentRequests(userId: string, now: Date): Promise<PendingApproval[]> {
+    const requests = await aiPortfolioService.getPendingPaymentRequests(userId);
+    return requests.map(request =>
+      this.build({
+        source: 'investment_payment',
+        sourceId: request.requestId,
+        title: `Invest ₹${request.amount.toLocaleString('en-IN')} in ${request.symbol}`,
+        explanation:
+          `${request.notification.message}\nPaid via ${request.paymentGateway} from ${request.bankAccount.bankName}.`,
+        amount: request.amount,
+        deadline: null,
+        autoExecutes: false,
+        requiresStepUp: true,
+        createdAt: new Date(request.timestamp),
+      }, now)
+    );
+  }
+
+  private async loadAutonomousActions(userId: string, now: Date): Promise<PendingApproval[]> {
+    const actions = await autonomousAgentService.getPendingActions(userId);
+    return actions.map(action =>
+      this.build({
+        source: 'autonomous_agent',
+        sourceId: action.id,
+        title: action.description,
+        explanation: action.explanation,
+        amount: action.amount ?? null,
+        deadline: null,
+        autoExecutes: false,
+        createdAt: new Date(action.timestamp),
+      }, now)
+    );
+  }
+
+  private async loadCustomAgentTransfers(userId: string, now: Date): Promise<PendingApproval[]> {
+    const transfers = await customAgentBuilder.getPendingTransfers(userId);
+    return transfers
+      .filter(transfer => transfer.status === 'pending')
+      .map(transfer =>
+        this.build({
+          source: 'custom_agent',
+          sourceId: transfer.id,
+          title: `Transfer ₹${transfer.amount.toLocaleString('en-IN')} (${transfer.agentName})`,
+          explanation:
+            `${transfer.memo || 'Agent transfer'}. From ${transfer.from} to ${transfer.to}. ` +
+            'Expires without transferring if not approved.',
+          amount: transfer.amount,
+          deadline: new Date(transfer.expiresAt),
+          autoExecutes: false,
+          createdAt: new Date(transfer.createdAt),
+        }, now)
+      );
+  }
+
+  // ==================== HELPER METHODS ====================
+
+  private build(
+    item: Omit<PendingApproval, 'id' | 'sourceLabel' | 'urgency' | 'requiresStepUp'> & { requiresStepUp?: boolean },
+    now: Date
+  ): PendingApproval {
+    return {
+      ...item,
+      id: `${item.source}:${item.sourceId}`,
+      sourceLabel: APPROVAL_SOURCE_LABELS[item.source],
+      urgency: this.getUrgency(item.amount, item.deadline, now),
+      requiresStepUp:
+        item.requiresStepUp ??
+        (STEP_UP_SOURCES.includes(item.source) && item.amount !== null && stepUpAuthService.isHighValue(item.amount)),
+    };
+  }
+
+  /**
+   * Urgency first, then nearest deadline, then newest
+   */
+  private compareApprovals(a: PendingApproval, b: PendingApproval): number {
+    const byUrgency = URGENCY_ORDER.indexOf(a.urgency) - URGENCY_ORDER.indexOf(b.urgency);
+    if (byUrgency !== 0) return byUrgency;
+
+    const aDeadline = a.deadline?.getTime() ?? Infinity;
+    const bDeadline = b.deadline?.getTime() ?? Infinity;
+    if (aDeadline !== bDeadline) return aDeadline - bDeadline;
+
+    return b.createdAt.getTime() - a.createdAt.getTime();
+  }
+
+  private result(approval: PendingApproval, success: boolean, message: string): ApprovalResult {
+    return { approvalId: approval.id, success, message };
+  }
+}
+
+// Export singleton instance
+export const approvalsService = new ApprovalsService();
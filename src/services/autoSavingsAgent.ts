@@ -12,6 +12,9 @@
  * - Comprehensive audit trail
  */
 
+import { agentEventBus } from './agentEventBus';
+import { stepUpAuthService } from './stepUpAuthService';
+
 // Firebase imports (for future integration)
 // import { collection, addDoc, query, where, getDocs, Timestamp, updateDoc, doc } from 'firebase/firestore';
 // import { db } from '../config/firebase';
@@ -154,7 +157,7 @@ export interface SavingsAnalytics {
 // ==================== SERVICE CLASS ====================
 
 export class AutoSavingsAgentService {
-  private monitoringInterval: number | null = null;
+  private monitoringInterval: ReturnType<typeof setInterval> | null = null;
   private readonly CHECK_INTERVAL_MS = 3600000; // Check every hour
 
   /**
@@ -475,10 +478,12 @@ export class AutoSavingsAgentService {
 
         // Check milestones
         const progress = (goalsData[goalIdx].currentAmount / goalsData[goalIdx].targetAmount) * 100;
+        const reachedMilestones: number[] = [];
         goalsData[goalIdx].milestones.forEach((milestone: any) => {
           if (!milestone.reached && progress >= milestone.percentage) {
             milestone.reached = true;
             milestone.reachedAt = new Date();
+            reachedMilestones.push(milestone.percentage);
           }
         });
 
@@ -488,6 +493,21 @@ export class AutoSavingsAgentService {
         }
 
         localStorage.setItem('savings_goals', JSON.stringify(goalsData));
+
+        // Wake goal_milestone agents when a milestone is crossed
+        if (reachedMilestones.length > 0) {
+          const goal: SavingsGoal = goalsData[goalIdx];
+          await agentEventBus.publish(
+            'goal_milestone',
+            goal.userId,
+            {
+              goal: { ...goal, progress },
+              milestone: Math.max(...reachedMilestones),
+              completed: goal.status === 'completed',
+            },
+            'autoSavingsAgent.updateGoalProgress'
+          );
+        }
       }
 
     } catch (error) {
@@ -542,6 +562,8 @@ export class AutoSavingsAgentService {
         return { success: false, message: 'Transaction is not pending' };
       }
 
+      stepUpAuthService.requireStepUp(userId, `move ₹${transaction.amount.toLocaleString('en-IN')} to savings`, transaction.amount);
+
       // Execute transfer
       await this.executeTransfer(transaction, userId);
 
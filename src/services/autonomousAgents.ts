@@ -1,6 +1,7 @@
 import { collection, addDoc, query, where, getDocs, updateDoc, doc, Timestamp } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import type { FinancialAgent, AgentAction, Transaction } from '../types';
+import { detectDrift } from './smartRebalancingAgent';
 
 /**
  * Autonomous Financial Agent Service
@@ -203,12 +204,9 @@ export class AutonomousAgentService {
     currentAllocation: Record<string, number>,
     targetAllocation: Record<string, number>
   ): Promise<AgentAction> {
-    const changes = Object.keys(targetAllocation).map(asset => {
-      const current = currentAllocation[asset] || 0;
-      const target = targetAllocation[asset];
-      const diff = target - current;
-      return { asset, diff };
-    }).filter(c => Math.abs(c.diff) > 5); // Only if difference > 5%
+    const changes = detectDrift(currentAllocation, targetAllocation, 5) // Only if difference > 5%
+      .filter(d => d.outOfBand && d.symbol in targetAllocation)
+      .map(d => ({ asset: d.symbol, diff: -d.drift }));
 
     const action: Omit<AgentAction, 'id'> = {
       agentId: 'rebalancing',
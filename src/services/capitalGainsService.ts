@@ -0,0 +1,449 @@
+/**
+ * Capital Gains Service
+ *
+ * Computes STCG/LTCG on every sale and keeps the realized gain lots that
+ * feed the yearly tax report
+ *
+ * Features:
+ * - Asset classes: listed equity, equity/debt mutual funds, gold, real estate,
+ *   unlisted/foreign shares and crypto (flat-rate VDA)
+ * - Holding-period rules and rates by sale date (pre/post 23 July 2024)
+ * - CII indexation, Section 50AA debt funds, real estate indexation option
+ * - Loss set-off (short-term against both, long-term against long-term only)
+ * - Section 112A exemption, slab-rate gains taxed through the income tax engine
+ * - Realized gain lots persisted to Firestore with LocalStorage fallback
+ */
+
+import { collection, doc, setDoc, getDocs, query, where, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import {
+  CAPITAL_GAINS_RULES,
+  COST_INFLATION_INDEX,
+  type AssetClassGainsRule,
+  type CapitalAssetClass,
+  type CapitalGainsRules,
+  type GainsRate,
+} from '../config/taxRules';
+import { calculateIncomeTax, getFinancialYear, getTaxRules, type TaxInput } from './taxEngine';
+import type { AssetType } from './portfolioService';
+
+export type { CapitalAssetClass, GainsRate } from '../config/taxRules';
+
+// ==================== TYPES ====================
+
+export type GainTerm = 'short' | 'long';
+
+export type SaleSource = 'risk_auto_sell' | 'tax_loss_harvest' | 'rebalance' | 'manual';
+
+export interface SaleInput {
+  assetName: string;
+  ticker?: string;
+  assetClass: CapitalAssetClass;
+  quantity: number;
+  buyPrice: number; // per unit
+  sellPrice: number; // per unit
+  acquiredAt: Date;
+  soldAt: Date;
+  buyFees?: number; // brokerage, stamp duty etc. on purchase
+  sellFees?: number; // brokerage etc. on sale
+}
+
+export interface GainComputation {
+  term: GainTerm;
+  holdingDays: number;
+  costBasis: number; // purchase cost incl. fees
+  indexedCost: number | null; // set when indexed cost was used
+  saleProceeds: number; // net of sale fees
+  gain: number; // saleProceeds - costBasis
+  taxableGain: number; // after indexation
+  rate: GainsRate;
+  section: string;
+}
+
+export interface RealizedGainLot extends SaleInput, GainComputation {
+  id: string;
+  userId: string;
+  financialYear: string;
+  source: SaleSource;
+  tradeId?: string;
+  createdAt: Date;
+}
+
+export interface GainsBucket {
+  term: GainTerm;
+  section: string;
+  rate: GainsRate;
+  gains: number; // positive gains before set-off
+  lossSetOff: number;
+  exemption: number; // Section 112A exemption used
+  taxable: number;
+  tax: number; // incl. cess
+}
+
+export interface CapitalGainsSummary {
+  financialYear: string;
+  lotCount: number;
+  byClass: Partial<Record<CapitalAssetClass, { shortTerm: number; longTerm: number }>>;
+  buckets: GainsBucket[];
+  shortTermGain: number; // net, before exemption
+  longTermGain: number; // net, before exemption
+  ltcgExemptionUsed: number;
+  lossCarriedForward: { shortTerm: number; longTerm: number };
+  disallowedLosses: number; // crypto losses cannot be set off or carried forward
+  specialRateTax: number;
+  slabRateTax: number; // extra income tax from slab-rate gains
+  totalTax: number;
+}
+
+export interface SummaryOptions {
+  regime?: TaxInput['regime'];
+  baseIncome?: number; // other income, for slab-rate gains
+  age?: number;
+}
+
+// ==================== CONSTANTS ====================
+
+const REALIZED_GAINS_COLLECTION = 'realized_gains';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ASSET_TYPE_CLASSES: Record<AssetType, CapitalAssetClass | null> = {
+  stocks: 'listed_equity',
+  mutual_funds: 'equity_mf',
+  etf: 'equity_mf',
+  bonds: 'debt_mf',
+  gold: 'gold',
+  crypto: 'crypto',
+  real_estate: 'real_estate',
+  fixed_deposit: null, // Interest income, not a capital asset sale
+};
+
+// ==================== RULES ====================
+
+/**
+ * Capital gains class for a portfolio asset type, or null when sales do not
+ * produce capital gains
+ */
+export function classifyAsset(type: AssetType): CapitalAssetClass | null {
+  return ASSET_TYPE_CLASSES[type];
+}
+
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Rules in force on a sale date
+ */
+export function getCapitalGainsRules(soldAt: Date): CapitalGainsRules {
+  const key = toDateKey(soldAt);
+  let active = CAPITAL_GAINS_RULES[0];
+  for (const rules of CAPITAL_GAINS_RULES) {
+    if (rules.effectiveFrom <= key) active = rules;
+  }
+  return active;
+}
+
+/**
+ * Cost Inflation Index for a financial year. Years before the base year use
+ * the base; years after the latest notified index use the latest.
+ */
+export function getCostInflationIndex(financialYear: string): number {
+  const years = Object.keys(COST_INFLATION_INDEX).sort();
+  if (financialYear < years[0]) return COST_INFLATION_INDEX[years[0]];
+  return COST_INFLATION_INDEX[financialYear] ?? COST_INFLATION_INDEX[years[years.length - 1]];
+}
+
+function isLongTerm(acquiredAt: Date, soldAt: Date, rule: AssetClassGainsRule): boolean {
+  const threshold = new Date(acquiredAt);
+  threshold.setMonth(threshold.getMonth() + rule.longTermAfterMonths);
+  return soldAt.getTime() > threshold.getTime();
+}
+
+function taxAt(amount: number, rate: number): number {
+  return (Math.max(0, amount) * rate) / 100;
+}
+
+// ==================== COMPUTATION ====================
+
+/**
+ * Gain, term, rate and section for a single sale
+ */
+export function computeGain(sale: SaleInput): GainComputation {
+  const acquiredAt = new Date(sale.acquiredAt);
+  const soldAt = new Date(sale.soldAt);
+  const rule = getCapitalGainsRules(soldAt).assetClasses[sale.assetClass];
+
+  const costBasis = sale.quantity * sale.buyPrice + (sale.buyFees ?? 0);
+  const saleProceeds = sale.quantity * sale.sellPrice - (sale.sellFees ?? 0);
+  const gain = saleProceeds - costBasis;
+  const holdingDays = Math.max(0, Math.floor((soldAt.getTime() - acquiredAt.getTime()) / DAY_MS));
+  const term: GainTerm = isLongTerm(acquiredAt, soldAt, rule) ? 'long' : 'short';
+
+  const base = { term, holdingDays, costBasis, saleProceeds, gain };
+
+  // Section 50AA: debt fund units bought after the cut-off are always slab-rate short-term
+  if (rule.slabIfAcquiredFrom && toDateKey(acquiredAt) >= rule.slabIfAcquiredFrom) {
+    return { ...base, term: 'short', indexedCost: null, taxableGain: gain, rate: 'slab', section: '50AA' };
+  }
+
+  if (term === 'short') {
+    return { ...base, indexedCost: null, taxableGain: gain, rate: rule.shortTermRate, section: rule.shortTermSection };
+  }
+
+  const indexedCost =
+    costBasis * (getCostInflationIndex(getFinancialYear(soldAt)) / getCostInflationIndex(getFinancialYear(acquiredAt)));
+
+  if (rule.indexation) {
+    return { ...base, indexedCost, taxableGain: saleProceeds - indexedCost, rate: rule.longTermRate, section: rule.longTermSection };
+  }
+
+  // Grandfathered assets may pick the lower of the new flat rate and the old indexed rate
+  if (
+    rule.indexationOptionBefore &&
+    rule.indexationOptionRate !== undefined &&
+    typeof rule.longTermRate === 'number' &&
+    toDateKey(acquiredAt) < rule.indexationOptionBefore
+  ) {
+    const indexedGain = saleProceeds - indexedCost;
+    if (taxAt(indexedGain, rule.indexationOptionRate) < taxAt(gain, rule.longTermRate)) {
+      return { ...base, indexedCost, taxableGain: indexedGain, rate: rule.indexationOptionRate, section: rule.longTermSection };
+    }
+  }
+
+  return { ...base, indexedCost: null, taxableGain: gain, rate: rule.longTermRate, section: rule.longTermSection };
+}
+
+// Slab-rate gains are set off first, then the highest flat rates
+function setOffOrder(a: GainsBucket, b: GainsBucket): number {
+  const rank = (bucket: GainsBucket) => (bucket.rate === 'slab' ? Infinity : bucket.rate);
+  return rank(b) - rank(a);
+}
+
+function applyLosses(buckets: GainsBucket[], loss: number): number {
+  let remaining = loss;
+  for (const bucket of [...buckets].sort(setOffOrder)) {
+    if (remaining <= 0) break;
+    const used = Math.min(remaining, bucket.gains - bucket.lossSetOff);
+    bucket.lossSetOff += used;
+    remaining -= used;
+  }
+  return remaining;
+}
+
+/**
+ * Net the realized lots of one financial year into taxable buckets and tax
+ */
+export function summarizeCapitalGains(
+  lots: RealizedGainLot[],
+  financialYear: string,
+  options: SummaryOptions = {}
+): CapitalGainsSummary {
+  const yearLots = lots.filter(lot => lot.financialYear === financialYear);
+  const { rules: taxRules } = getTaxRules(financialYear);
+  const yearEndRules = getCapitalGainsRules(new Date(Number(financialYear.slice(2, 6)) + 1, 2, 31));
+
+  const byClass: CapitalGainsSummary['byClass'] = {};
+  const bucketMap = new Map<string, GainsBucket>();
+  let shortTermLoss = 0;
+  let longTermLoss = 0;
+  let disallowedLosses = 0;
+
+  for (const lot of yearLots) {
+    const classTotals = byClass[lot.assetClass] ?? { shortTerm: 0, longTerm: 0 };
+    classTotals[lot.term === 'short' ? 'shortTerm' : 'longTerm'] += lot.taxableGain;
+    byClass[lot.assetClass] = classTotals;
+
+    if (lot.taxableGain < 0) {
+      const rule = getCapitalGainsRules(new Date(lot.soldAt)).assetClasses[lot.assetClass];
+      if (!rule.lossSetOff) disallowedLosses += -lot.taxableGain;
+      else if (lot.term === 'short') shortTermLoss += -lot.taxableGain;
+      else longTermLoss += -lot.taxableGain;
+      continue;
+    }
+
+    const key = `${lot.term}|${lot.section}|${lot.rate}`;
+    const bucket = bucketMap.get(key) ?? {
+      term: lot.term,
+      section: lot.section,
+      rate: lot.rate,
+      gains: 0,
+      lossSetOff: 0,
+      exemption: 0,
+      taxable: 0,
+      tax: 0,
+    };
+    bucket.gains += lot.taxableGain;
+    bucketMap.set(key, bucket);
+  }
+
+  const buckets = [...bucketMap.values()];
+  const offsettable = buckets.filter(b => b.section !== '115BBH');
+  const shortBuckets = offsettable.filter(b => b.term === 'short');
+  const longBuckets = offsettable.filter(b => b.term === 'long');
+
+  // Long-term losses only against long-term gains; short-term losses against either
+  const longTermCarry = applyLosses(longBuckets, longTermLoss);
+  const shortTermCarry = applyLosses(longBuckets, applyLosses(shortBuckets, shortTermLoss));
+
+  // Section 112A exemption, used against the highest-rate gains first
+  let exemptionLeft = yearEndRules.ltcgExemption;
+  for (const bucket of longBuckets.filter(b => b.section === yearEndRules.exemptSection).sort(setOffOrder)) {
+    bucket.exemption = Math.min(exemptionLeft, bucket.gains - bucket.lossSetOff);
+    exemptionLeft -= bucket.exemption;
+  }
+
+  let slabGains = 0;
+  for (const bucket of buckets) {
+    bucket.taxable = Math.max(0, bucket.gains - bucket.lossSetOff - bucket.exemption);
+    if (bucket.rate === 'slab') {
+      slabGains += bucket.taxable;
+    } else {
+      bucket.tax = taxAt(bucket.taxable, bucket.rate) * (1 + taxRules.cessRate / 100);
+    }
+  }
+
+  // Slab-rate gains are taxed as extra income on top of the other income
+  let slabRateTax = 0;
+  if (slabGains > 0) {
+    const baseInput: TaxInput = {
+      grossIncome: options.baseIncome ?? 0,
+      regime: options.regime ?? 'new',
+      financialYear,
+      age: options.age,
+      salaried: (options.baseIncome ?? 0) > 0,
+    };
+    const withoutGains = calculateIncomeTax(baseInput);
+    const withGains = calculateIncomeTax({ ...baseInput, grossIncome: baseInput.grossIncome + slabGains });
+    slabRateTax = withGains.totalTax - withoutGains.totalTax;
+    for (const bucket of buckets.filter(b => b.rate === 'slab')) {
+      bucket.tax = slabRateTax * (bucket.taxable / slabGains);
+    }
+  }
+
+  const specialRateTax = buckets.filter(b => b.rate !== 'slab').reduce((sum, b) => sum + b.tax, 0);
+  const net = (term: GainTerm) =>
+    buckets.filter(b => b.term === term).reduce((sum, b) => sum + b.gains - b.lossSetOff, 0);
+
+  return {
+    financialYear,
+    lotCount: yearLots.length,
+    byClass,
+    buckets: buckets.map(b => ({ ...b, tax: Math.round(b.tax) })),
+    shortTermGain: net('short'),
+    longTermGain: net('long'),
+    ltcgExemptionUsed: yearEndRules.ltcgExemption - exemptionLeft,
+    lossCarriedForward: { shortTerm: shortTermCarry, longTerm: longTermCarry },
+    disallowedLosses,
+    specialRateTax: Math.round(specialRateTax),
+    slabRateTax: Math.round(slabRateTax),
+    totalTax: Math.round(specialRateTax + slabRateTax),
+  };
+}
+
+// ==================== SERVICE CLASS ====================
+
+export class CapitalGainsService {
+  /**
+   * Compute and store the realized gain for a sale
+   */
+  async recordSale(
+    userId: string,
+    sale: SaleInput,
+    source: SaleSource,
+    tradeId?: string
+  ): Promise<RealizedGainLot> {
+    const soldAt = new Date(sale.soldAt);
+    const lot: RealizedGainLot = {
+      ...sale,
+      ...computeGain(sale),
+      acquiredAt: new Date(sale.acquiredAt),
+      soldAt,
+      id: `cg_${userId}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      userId,
+      financialYear: getFinancialYear(soldAt),
+      source,
+      ...(tradeId ? { tradeId } : {}),
+      createdAt: new Date(),
+    };
+
+    // 1. Save to LocalStorage first
+    const localKey = `realized_gains_${userId}`;
+    const localLots: RealizedGainLot[] = JSON.parse(localStorage.getItem(localKey) || '[]');
+    localLots.push(lot);
+    localStorage.setItem(localKey, JSON.stringify(localLots));
+
+    // 2. Try Firestore
+    try {
+      await setDoc(doc(db, REALIZED_GAINS_COLLECTION, lot.id), {
+        ...lot,
+        acquiredAt: Timestamp.fromDate(lot.acquiredAt),
+        soldAt: Timestamp.fromDate(lot.soldAt),
+        createdAt: Timestamp.fromDate(lot.createdAt),
+      });
+    } catch (error) {
+      console.warn('Firestore realized gain save failed, but saved locally:', error);
+    }
+
+    console.log(
+      `📒 Realized ${lot.term}-term ${lot.gain >= 0 ? 'gain' : 'loss'} of ₹${Math.round(lot.gain).toLocaleString('en-IN')} on ${lot.assetName}`
+    );
+    return lot;
+  }
+
+  /**
+   * Realized gain lots, optionally for one financial year
+   */
+  async getRealizedGains(userId: string, financialYear?: string): Promise<RealizedGainLot[]> {
+    let lots: RealizedGainLot[] | null = null;
+
+    try {
+      const q = query(collection(db, REALIZED_GAINS_COLLECTION), where('userId', '==', userId));
+      const snapshot = await getDocs(q);
+      if (!snapshot.empty) {
+        lots = snapshot.docs.map(d => {
+          const data = d.data();
+          return {
+            ...data,
+            id: d.id,
+            acquiredAt: data.acquiredAt?.toDate() || new Date(),
+            soldAt: data.soldAt?.toDate() || new Date(),
+            createdAt: data.createdAt?.toDate() || new Date(),
+          } as RealizedGainLot;
+        });
+      }
+    } catch (error) {
+      console.warn('Firestore realized gains fetch failed, using local fallback:', error);
+    }
+
+    if (!lots) {
+      const localLots: RealizedGainLot[] = JSON.parse(localStorage.getItem(`realized_gains_${userId}`) || '[]');
+      lots = localLots.map(lot => ({
+        ...lot,
+        acquiredAt: new Date(lot.acquiredAt),
+        soldAt: new Date(lot.soldAt),
+        createdAt: new Date(lot.createdAt),
+      }));
+    }
+
+    return lots
+      .filter(lot => !financialYear || lot.financialYear === financialYear)
+      .sort((a, b) => a.soldAt.getTime() - b.soldAt.getTime());
+  }
+
+  /**
+   * Capital gains tax summary for a financial year
+   */
+  async getYearlySummary(
+    userId: string,
+    financialYear: string = getFinancialYear(),
+    options: SummaryOptions = {}
+  ): Promise<CapitalGainsSummary> {
+    const lots = await this.getRealizedGains(userId, financialYear);
+    return summarizeCapitalGains(lots, financialYear, options);
+  }
+}
+
+// Export singleton instance
+export const capitalGainsService = new CapitalGainsService();
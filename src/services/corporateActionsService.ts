@@ -0,0 +1,464 @@
+/**
+ * Corporate Actions Service
+ *
+ * Dividends, splits and bonus issues for ledger holdings
+ *
+ * Features:
+ * - Events from a local CSV/JSON file or Finnhub
+ * - Splits and bonuses adjust lot quantities and cost basis in the ledger
+ * - Dividend income recorded as profile transactions, with TDS under Section 194
+ * - Processed actions are kept so each applies once
+ * - Hands new dividends to the dividend reinvestment agent
+ * - Firestore persistence with LocalStorage fallback
+ */
+
+import axios from 'axios';
+import { collection, doc, setDoc, getDocs, query, where, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { holdingsLedger, normalizeSymbol, quantityHeldBefore } from './holdingsLedger';
+import { userProfileService } from './userProfileService';
+import { getFinancialYear, getTaxRules } from './taxEngine';
+import { TAX_RULES, type DividendTdsRule } from '../config/taxRules';
+import { checkAndExecuteDividendReinvestmentAgent } from './dividendReinvestmentAgent';
+import type { AssetType } from './portfolioService';
+
+// ==================== TYPES ====================
+
+export type CorporateActionType = 'dividend' | 'split' | 'bonus';
+
+export interface CorporateAction {
+  id: string; // `${symbol}_${type}_${exDate}`
+  symbol: string;
+  type: CorporateActionType;
+  exDate: Date;
+  paymentDate?: Date; // dividends
+  amountPerShare?: number; // dividends
+  ratio?: number; // split: new units per old unit; bonus: bonus units per unit held
+  description?: string;
+  source: string;
+}
+
+export interface CorporateActionProvider {
+  readonly name: string;
+  getActions(symbols: string[], from: Date, to: Date): Promise<CorporateAction[]>;
+}
+
+export interface CorporateActionRecord {
+  id: string;
+  userId: string;
+  actionId: string;
+  symbol: string;
+  assetType: AssetType;
+  type: CorporateActionType;
+  exDate: Date;
+  quantityHeld: number;
+  unitsAdded?: number; // splits and bonuses
+  grossAmount?: number; // dividends
+  tdsDeducted?: number;
+  netAmount?: number;
+  financialYear: string;
+  processedAt: Date;
+}
+
+// ==================== CONFIGURATION ====================
+
+const CORPORATE_ACTIONS_SOURCE = import.meta.env.VITE_CORPORATE_ACTIONS_SOURCE || 'file'; // 'file' | 'finnhub'
+const CORPORATE_ACTIONS_URL = import.meta.env.VITE_CORPORATE_ACTIONS_URL || '/market-data/corporate-actions.csv';
+const FINNHUB_API_KEY = import.meta.env.VITE_FINNHUB_API_KEY || 'demo';
+const FINNHUB_BASE_URL = 'https://finnhub.io/api/v1';
+const REQUEST_TIMEOUT = 5000;
+
+const RECORDS_COLLECTION = 'corporate_action_records';
+
+/**
+ * Section 194 TDS rule for the year; years before the first rules table use
+ * its threshold, which applied from FY2020-21
+ */
+function dividendTdsRule(financialYear: string): DividendTdsRule {
+  try {
+    return getTaxRules(financialYear).rules.dividendTds;
+  } catch {
+    return TAX_RULES[0].dividendTds;
+  }
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function corporateActionId(symbol: string, type: CorporateActionType, exDate: Date): string {
+  return `${normalizeSymbol(symbol)}_${type}_${toDateKey(exDate)}`;
+}
+
+// ==================== PROVIDERS ====================
+
+/**
+ * Corporate actions from a CSV or JSON file (under /public or picked by the user).
+ * CSV columns: symbol, type, exDate, paymentDate, amount, ratio, description
+ */
+export class FileCorporateActionProvider implements CorporateActionProvider {
+  readonly name = 'file';
+
+  private url: string;
+  private actions: CorporateAction[] | null = null;
+
+  constructor(url: string = CORPORATE_ACTIONS_URL) {
+    this.url = url;
+  }
+
+  async getActions(symbols: string[], from: Date, to: Date): Promise<CorporateAction[]> {
+    if (!this.actions) {
+      try {
+        const response = await fetch(this.url);
+        if (!response.ok) throw new Error(`${response.status}`);
+        this.loadFromText(await response.text(), this.url.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+      } catch (error) {
+        console.warn(`Corporate actions file ${this.url} could not be loaded:`, error);
+        this.actions = [];
+      }
+    }
+
+    const wanted = new Set(symbols.map(normalizeSymbol));
+    return (this.actions ?? []).filter(a => wanted.has(a.symbol) && a.exDate >= from && a.exDate <= to);
+  }
+
+  /**
+   * Load actions from a user-selected file
+   */
+  async loadFromFile(file: File): Promise<CorporateAction[]> {
+    this.loadFromText(await file.text(), file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+    return this.actions ?? [];
+  }
+
+  loadFromText(text: string, format: 'csv' | 'json'): void {
+    const rows: Record<string, unknown>[] = format === 'json' ? JSON.parse(text) : this.parseCsv(text);
+    this.actions = rows.flatMap(row => {
+      const action = this.toAction(row);
+      return action ? [action] : [];
+    });
+  }
+
+  private toAction(row: Record<string, unknown>): CorporateAction | null {
+    const symbol = normalizeSymbol(String(row.symbol ?? ''));
+    const type = String(row.type ?? '').toLowerCase() as CorporateActionType;
+    const exDate = new Date(String(row.exDate ?? row.exdate ?? ''));
+    if (!symbol || !['dividend', 'split', 'bonus'].includes(type) || isNaN(exDate.getTime())) return null;
+
+    const amount = Number(row.amount ?? row.amountPerShare);
+    const ratio = Number(row.ratio);
+    if (type === 'dividend' ? !(amount > 0) : !(ratio > 0)) return null;
+
+    const paymentDate = row.paymentDate ?? row.paymentdate;
+    return {
+      id: corporateActionId(symbol, type, exDate),
+      symbol,
+      type,
+      exDate,
+      ...(paymentDate ? { paymentDate: new Date(String(paymentDate)) } : {}),
+      ...(type === 'dividend' ? { amountPerShare: amount } : { ratio }),
+      ...(row.description ? { description: String(row.description) } : {}),
+      source: this.name,
+    };
+  }
+
+  private parseCsv(text: string): Record<string, string>[] {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+    if (lines.length < 2) return [];
+
+    const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+    return lines.slice(1).map(line => {
+      const cells = line.split(',').map(cell => cell.trim());
+      return Object.fromEntries(header.map((name, i) => [name, cells[i] ?? '']));
+    });
+  }
+}
+
+/**
+ * Finnhub dividends and splits. Finnhub reports bonus issues as splits.
+ */
+export class FinnhubCorporateActionProvider implements CorporateActionProvider {
+  readonly name = 'finnhub';
+
+  async getActions(symbols: string[], from: Date, to: Date): Promise<CorporateAction[]> {
+    const params = (symbol: string) => ({ symbol, from: toDateKey(from), to: toDateKey(to), token: FINNHUB_API_KEY });
+    const actions: CorporateAction[] = [];
+
+    for (const symbol of symbols.map(normalizeSymbol)) {
+      try {
+        const [dividends, splits] = await Promise.all([
+          axios.get(`${FINNHUB_BASE_URL}/stock/dividend`, { params: params(symbol), timeout: REQUEST_TIMEOUT }),
+          axios.get(`${FINNHUB_BASE_URL}/stock/split`, { params: params(symbol), timeout: REQUEST_TIMEOUT }),
+        ]);
+
+        // Dividends: [{ symbol, date (ex-date), amount, payDate }]
+        for (const d of Array.isArray(dividends.data) ? dividends.data : []) {
+          if (!(d.amount > 0) || !d.date) continue;
+          const exDate = new Date(d.date);
+          actions.push({
+            id: corporateActionId(symbol, 'dividend', exDate),
+            symbol,
+            type: 'dividend',
+            exDate,
+            ...(d.payDate ? { paymentDate: new Date(d.payDate) } : {}),
+            amountPerShare: d.amount,
+            source: this.name,
+          });
+        }
+
+        // Splits: [{ symbol, date, fromFactor, toFactor }]
+        for (const s of Array.isArray(splits.data) ? splits.data : []) {
+          if (!(s.fromFactor > 0) || !(s.toFactor > 0) || !s.date) continue;
+          const exDate = new Date(s.date);
+          actions.push({
+            id: corporateActionId(symbol, 'split', exDate),
+            symbol,
+            type: 'split',
+            exDate,
+            ratio: s.toFactor / s.fromFactor,
+            source: this.name,
+          });
+        }
+      } catch (error) {
+        if (axios.isAxiosError(error)) {
+          console.error(`❌ Finnhub corporate actions failed for ${symbol}:`, error.message);
+        }
+      }
+    }
+
+    return actions;
+  }
+}
+
+// ==================== SERVICE CLASS ====================
+
+export class CorporateActionsService {
+  private provider: CorporateActionProvider =
+    CORPORATE_ACTIONS_SOURCE === 'finnhub' ? new FinnhubCorporateActionProvider() : new FileCorporateActionProvider();
+
+  setProvider(provider: CorporateActionProvider): void {
+    this.provider = provider;
+  }
+
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Fetch and apply every action for the user's symbols since their first trade
+   */
+  async syncCorporateActions(userId: string): Promise<CorporateActionRecord[]> {
+    const transactions = await holdingsLedger.getTransactions(userId);
+    if (transactions.length === 0) return [];
+
+    const symbols = [...new Set(transactions.map(t => t.symbol))];
+    const from = transactions[0].date;
+    const actions = await this.provider.getActions(symbols, from, new Date());
+    return this.processActions(userId, actions);
+  }
+
+  /**
+   * Apply actions from a user-selected file
+   */
+  async importFromFile(userId: string, file: File): Promise<CorporateActionRecord[]> {
+    const provider = new FileCorporateActionProvider();
+    const actions = await provider.loadFromFile(file);
+    return this.processActions(userId, actions);
+  }
+
+  /**
+   * Apply actions in ex-date order. Actions already processed, not yet
+   * effective, or on symbols not held at the ex-date are skipped.
+   */
+  async processActions(userId: string, actions: CorporateAction[]): Promise<CorporateActionRecord[]> {
+    const existing = await this.getRecords(userId);
+    const done = new Set(existing.map(r => r.actionId));
+    const now = new Date();
+    const records: CorporateActionRecord[] = [];
+
+    const ordered = [...actions].sort((a, b) => a.exDate.getTime() - b.exDate.getTime());
+    for (const action of ordered) {
+      if (done.has(action.id)) continue;
+      const effectiveAt = action.type === 'dividend' ? action.paymentDate ?? action.exDate : action.exDate;
+      if (effectiveAt > now) continue;
+
+      try {
+        const record = action.type === 'dividend'
+          ? await this.applyDividend(userId, action, [...existing, ...records])
+          : await this.applyLotAdjustment(userId, action);
+        if (record) {
+          await this.saveRecord(record);
+          records.push(record);
+          done.add(action.id);
+        }
+      } catch (error) {
+        console.error(`Error applying corporate action ${action.id}:`, error);
+      }
+    }
+
+    // Also resumes reinvestments approved since the last sync
+    await checkAndExecuteDividendReinvestmentAgent(userId, records.filter(r => r.type === 'dividend'));
+
+    if (records.length > 0) {
+      console.log(`🏛️ Applied ${records.length} corporate action(s) for user ${userId}`);
+    }
+    return records;
+  }
+
+  /**
+   * Processed corporate actions, newest first
+   */
+  async getRecords(userId: string): Promise<CorporateActionRecord[]> {
+    let records: CorporateActionRecord[] | null = null;
+
+    try {
+      const q = query(collection(db, RECORDS_COLLECTION), where('userId', '==', userId));
+      const snapshot = await getDocs(q);
+      if (!snapshot.empty) {
+        records = snapshot.docs.map(d => {
+          const data = d.data();
+          return {
+            ...data,
+            id: d.id,
+            exDate: data.exDate?.toDate() || new Date(),
+            processedAt: data.processedAt?.toDate() || new Date(),
+          } as CorporateActionRecord;
+        });
+        // Sync local storage
+        localStorage.setItem(`corporate_actions_${userId}`, JSON.stringify(records));
+      }
+    } catch (error) {
+      console.warn('Firestore corporate actions fetch failed, using local fallback:', error);
+    }
+
+    if (!records) {
+      const local: CorporateActionRecord[] = JSON.parse(localStorage.getItem(`corporate_actions_${userId}`) || '[]');
+      records = local.map(r => ({ ...r, exDate: new Date(r.exDate), processedAt: new Date(r.processedAt) }));
+    }
+
+    return records.sort((a, b) => b.exDate.getTime() - a.exDate.getTime());
+  }
+
+  /**
+   * Gross dividend income and TDS for a financial year
+   */
+  async getDividendIncome(
+    userId: string,
+    financialYear: string = getFinancialYear()
+  ): Promise<{ gross: number; tds: number; net: number; bySymbol: Record<string, number> }> {
+    const dividends = (await this.getRecords(userId)).filter(
+      r => r.type === 'dividend' && r.financialYear === financialYear
+    );
+    const bySymbol: Record<string, number> = {};
+    for (const r of dividends) bySymbol[r.symbol] = (bySymbol[r.symbol] ?? 0) + (r.grossAmount ?? 0);
+
+    return {
+      gross: dividends.reduce((sum, r) => sum + (r.grossAmount ?? 0), 0),
+      tds: dividends.reduce((sum, r) => sum + (r.tdsDeducted ?? 0), 0),
+      net: dividends.reduce((sum, r) => sum + (r.netAmount ?? 0), 0),
+      bySymbol,
+    };
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  private async applyLotAdjustment(userId: string, action: CorporateAction): Promise<CorporateActionRecord | null> {
+    const transactions = await holdingsLedger.getTransactions(userId);
+    const quantityHeld = quantityHeldBefore(transactions, action.symbol, action.exDate);
+
+    const tx = await holdingsLedger.recordCorporateAction(userId, {
+      symbol: action.symbol,
+      kind: action.type === 'split' ? 'split' : 'bonus',
+      ratio: action.ratio ?? 1,
+      date: action.exDate,
+      corporateActionId: action.id,
+    });
+    if (!tx) return null;
+
+    return this.createRecord(userId, action, tx.assetType, quantityHeld, { unitsAdded: tx.quantity });
+  }
+
+  private async applyDividend(
+    userId: string,
+    action: CorporateAction,
+    earlier: CorporateActionRecord[]
+  ): Promise<CorporateActionRecord | null> {
+    const transactions = await holdingsLedger.getTransactions(userId);
+    const quantityHeld = quantityHeldBefore(transactions, action.symbol, action.exDate);
+    if (quantityHeld <= 0) return null;
+
+    const assetType = transactions.find(t => t.symbol === action.symbol)?.assetType ?? 'stocks';
+    const paidOn = action.paymentDate ?? action.exDate;
+    const financialYear = getFinancialYear(paidOn);
+    const grossAmount = Math.round(quantityHeld * (action.amountPerShare ?? 0) * 100) / 100;
+
+    // TDS applies to the whole payment once the year's dividends from the company cross the threshold
+    const paidThisYear = earlier
+      .filter(r => r.type === 'dividend' && r.symbol === action.symbol && r.financialYear === financialYear)
+      .reduce((sum, r) => sum + (r.grossAmount ?? 0), 0);
+    const tdsRule = dividendTdsRule(financialYear);
+    const tdsDeducted = paidThisYear + grossAmount > tdsRule.threshold
+      ? Math.round(grossAmount * tdsRule.rate) / 100
+      : 0;
+    const netAmount = grossAmount - tdsDeducted;
+
+    try {
+      await userProfileService.addTransaction(userId, {
+        amount: netAmount,
+        type: 'income',
+        category: 'Dividend',
+        description:
+          `Dividend from ${action.symbol}: ${quantityHeld} × ₹${action.amountPerShare}` +
+          (tdsDeducted > 0 ? ` (TDS ₹${tdsDeducted.toLocaleString('en-IN')})` : ''),
+        date: paidOn.toISOString(),
+      });
+    } catch (error) {
+      console.warn('Dividend transaction not recorded on profile:', error);
+    }
+
+    return this.createRecord(userId, action, assetType, quantityHeld, { grossAmount, tdsDeducted, netAmount });
+  }
+
+  private createRecord(
+    userId: string,
+    action: CorporateAction,
+    assetType: AssetType,
+    quantityHeld: number,
+    amounts: Pick<CorporateActionRecord, 'unitsAdded' | 'grossAmount' | 'tdsDeducted' | 'netAmount'>
+  ): CorporateActionRecord {
+    return {
+      id: `${userId}_${action.id}`,
+      userId,
+      actionId: action.id,
+      symbol: action.symbol,
+      assetType,
+      type: action.type,
+      exDate: action.exDate,
+      quantityHeld,
+      ...amounts,
+      financialYear: getFinancialYear(action.paymentDate ?? action.exDate),
+      processedAt: new Date(),
+    };
+  }
+
+  private async saveRecord(record: CorporateActionRecord): Promise<void> {
+    // 1. Save to LocalStorage first
+    const localKey = `corporate_actions_${record.userId}`;
+    const local: CorporateActionRecord[] = JSON.parse(localStorage.getItem(localKey) || '[]');
+    local.push(record);
+    localStorage.setItem(localKey, JSON.stringify(local));
+
+    // 2. Try Firestore
+    try {
+      await setDoc(doc(db, RECORDS_COLLECTION, record.id), {
+        ...record,
+        exDate: Timestamp.fromDate(record.exDate),
+        processedAt: Timestamp.fromDate(record.processedAt),
+      });
+    } catch (error) {
+      console.warn('Firestore corporate action save failed, but saved locally:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const corporateActionsService = new CorporateActionsService();
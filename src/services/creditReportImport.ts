@@ -0,0 +1,336 @@
+/**
+ * Credit Report Import
+ *
+ * Reads a credit bureau report (CIBIL-style JSON or text export) into typed
+ * accounts, enquiries and month-by-month payment history
+ *
+ * Features:
+ * - JSON exports with any of the common field names bureaus and aggregators use
+ * - Text exports made of "KEY: value" lines grouped under ACCOUNT and ENQUIRY headings
+ * - Days-past-due strings ("000|030|XXX", "000030STD") and asset classifications (STD, SMA, SUB, DBT, LSS)
+ * - Account types, ownership and written-off or settled status
+ */
+
+// ==================== TYPES ====================
+
+export type CreditAccountType =
+  | 'credit_card'
+  | 'home_loan'
+  | 'auto_loan'
+  | 'personal_loan'
+  | 'education_loan'
+  | 'gold_loan'
+  | 'business_loan'
+  | 'consumer_loan'
+  | 'other';
+
+export type CreditAccountStatus = 'active' | 'closed' | 'written_off' | 'settled';
+
+export interface PaymentRecord {
+  month: string; // 'YYYY-MM'
+  daysPastDue: number;
+}
+
+export interface CreditAccount {
+  id: string;
+  lender: string;
+  type: CreditAccountType;
+  ownership: 'individual' | 'joint' | 'guarantor';
+  opened: Date;
+  closed: Date | null;
+  sanctionedAmount: number;
+  creditLimit: number | null; // Cards and overdrafts
+  currentBalance: number;
+  overdue: number;
+  status: CreditAccountStatus;
+  payments: PaymentRecord[]; // Most recent first
+}
+
+export interface CreditEnquiry {
+  date: Date;
+  lender: string;
+  purpose: string;
+  amount: number | null;
+}
+
+export interface CreditReport {
+  bureau: string;
+  reportDate: Date;
+  bureauScore: number | null;
+  accounts: CreditAccount[];
+  enquiries: CreditEnquiry[];
+}
+
+export class CreditReportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CreditReportError';
+  }
+}
+
+// ==================== CONSTANTS ====================
+
+// Days past due assumed for RBI asset classifications
+const ASSET_CLASS_DPD: Record<string, number> = {
+  STD: 0,
+  SMA: 45,
+  SUB: 90,
+  DBT: 180,
+  LSS: 360,
+};
+
+const NO_DATA_TOKENS = new Set(['XXX', '---', 'NA', 'N/A', '']);
+
+const ACCOUNT_TYPE_PATTERNS: Array<[RegExp, CreditAccountType]> = [
+  [/card/, 'credit_card'],
+  [/home|housing|property/, 'home_loan'],
+  [/auto|car|two.?wheeler|vehicle/, 'auto_loan'],
+  [/education/, 'education_loan'],
+  [/gold/, 'gold_loan'],
+  [/business|commercial|msme/, 'business_loan'],
+  [/consumer|durable/, 'consumer_loan'],
+  [/personal/, 'personal_loan'],
+];
+
+// Field names seen in bureau and aggregator exports, compared without case or punctuation
+const FIELDS = {
+  bureau: ['bureau', 'creditBureau', 'source'],
+  score: ['score', 'cibilScore', 'creditScore', 'bureauScore', 'cibilTransunionScore'],
+  reportDate: ['reportDate', 'dateOfReport', 'generatedOn', 'date'],
+  accounts: ['accounts', 'tradelines', 'creditAccounts', 'accountDetails'],
+  enquiries: ['enquiries', 'inquiries', 'enquiryDetails'],
+  lender: ['memberName', 'lender', 'institution', 'subscriberName', 'bank'],
+  accountType: ['accountType', 'type'],
+  ownership: ['ownership', 'ownershipType'],
+  opened: ['dateOpened', 'dateOpenedDisbursed', 'openDate', 'opened'],
+  closed: ['dateClosed', 'closeDate', 'closed'],
+  sanctioned: ['sanctionedAmount', 'highCreditSanctionedAmount', 'highCredit', 'sanctioned'],
+  limit: ['creditLimit', 'limit'],
+  balance: ['currentBalance', 'balance', 'outstanding'],
+  overdue: ['amountOverdue', 'overdueAmount', 'overdue'],
+  paymentHistory: ['paymentHistory', 'daysPastDue', 'dpd'],
+  historyStart: ['paymentHistoryStartDate', 'paymentHistoryStart', 'lastReported', 'dateReported'],
+  status: ['accountStatus', 'writtenOffSettledStatus', 'suitFiledWilfulDefault', 'status'],
+  enquiryDate: ['dateOfEnquiry', 'enquiryDate', 'date'],
+  purpose: ['enquiryPurpose', 'purpose'],
+  enquiryAmount: ['enquiryAmount', 'amount'],
+};
+
+// ==================== PARSING HELPERS ====================
+
+type RawRecord = Record<string, unknown>;
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function pick(record: RawRecord, aliases: string[]): unknown {
+  const keys = new Map(Object.keys(record).map(k => [normalizeKey(k), k]));
+  for (const alias of aliases) {
+    const key = keys.get(normalizeKey(alias));
+    if (key !== undefined && record[key] !== null && record[key] !== '') return record[key];
+  }
+  return undefined;
+}
+
+function parseAmount(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const cleaned = value.replace(/₹|rs\.?|inr|,|\s/gi, '');
+  if (!cleaned || isNaN(Number(cleaned))) return null;
+  return Number(cleaned);
+}
+
+function parseDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  const dmy = value.trim().match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (dmy) return new Date(Number(dmy[3]), Number(dmy[2]) - 1, Number(dmy[1]));
+
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function accountTypeFor(value: unknown): CreditAccountType {
+  const text = String(value ?? '').toLowerCase();
+  return ACCOUNT_TYPE_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? 'other';
+}
+
+function ownershipFor(value: unknown): CreditAccount['ownership'] {
+  const text = String(value ?? '').toLowerCase();
+  if (text.includes('joint')) return 'joint';
+  if (text.includes('guarant')) return 'guarantor';
+  return 'individual';
+}
+
+function statusFor(value: unknown, closed: Date | null): CreditAccountStatus {
+  const text = String(value ?? '').toLowerCase();
+  if (/written.?off|\bwo\b/.test(text)) return 'written_off';
+  if (/settled/.test(text)) return 'settled';
+  if (closed || /closed/.test(text)) return 'closed';
+  return 'active';
+}
+
+/**
+ * Days past due for one history token, or null when the month has no data
+ */
+function dpdFor(token: string): number | null {
+  const value = token.trim().toUpperCase();
+  if (NO_DATA_TOKENS.has(value)) return null;
+  if (/^\d{1,3}$/.test(value)) return Number(value);
+  const assetClass = Object.keys(ASSET_CLASS_DPD).find(code => value.startsWith(code));
+  return assetClass ? ASSET_CLASS_DPD[assetClass] : null;
+}
+
+/**
+ * Payment history, most recent month first. Strings list one token per month
+ * counting back from the start month; arrays may carry their own months.
+ */
+export function parsePaymentHistory(value: unknown, startMonth: Date): PaymentRecord[] {
+  const monthBack = (i: number) => monthKey(new Date(startMonth.getFullYear(), startMonth.getMonth() - i, 1));
+
+  if (Array.isArray(value)) {
+    const records = value.flatMap((entry, i): PaymentRecord[] => {
+      if (entry && typeof entry === 'object') {
+        const record = entry as RawRecord;
+        const dpd = dpdFor(String(pick(record, ['daysPastDue', 'dpd', 'status']) ?? ''));
+        const month = parseDate(pick(record, ['month', 'date']));
+        return dpd === null ? [] : [{ month: month ? monthKey(month) : monthBack(i), daysPastDue: dpd }];
+      }
+      const dpd = dpdFor(String(entry));
+      return dpd === null ? [] : [{ month: monthBack(i), daysPastDue: dpd }];
+    });
+    return records.sort((a, b) => b.month.localeCompare(a.month));
+  }
+
+  if (typeof value !== 'string') return [];
+  const text = value.trim();
+  const tokens = /[\s|,]/.test(text) ? text.split(/[\s|,]+/) : text.match(/.{1,3}/g) ?? [];
+
+  return tokens.flatMap((token, i) => {
+    const dpd = dpdFor(token);
+    return dpd === null ? [] : [{ month: monthBack(i), daysPastDue: dpd }];
+  });
+}
+
+function accountFrom(record: RawRecord, index: number, reportDate: Date): CreditAccount {
+  const opened = parseDate(pick(record, FIELDS.opened)) ?? reportDate;
+  const closed = parseDate(pick(record, FIELDS.closed));
+  const historyStart = parseDate(pick(record, FIELDS.historyStart)) ?? closed ?? reportDate;
+  const type = accountTypeFor(pick(record, FIELDS.accountType));
+  const limit = parseAmount(pick(record, FIELDS.limit));
+  const sanctioned = parseAmount(pick(record, FIELDS.sanctioned));
+
+  return {
+    id: `acc-${index + 1}`,
+    lender: String(pick(record, FIELDS.lender) ?? 'Unknown lender').trim(),
+    type,
+    ownership: ownershipFor(pick(record, FIELDS.ownership)),
+    opened,
+    closed,
+    sanctionedAmount: sanctioned ?? limit ?? 0,
+    creditLimit: limit ?? (type === 'credit_card' ? sanctioned : null),
+    currentBalance: Math.max(0, parseAmount(pick(record, FIELDS.balance)) ?? 0),
+    overdue: Math.max(0, parseAmount(pick(record, FIELDS.overdue)) ?? 0),
+    status: statusFor(pick(record, FIELDS.status), closed),
+    payments: parsePaymentHistory(pick(record, FIELDS.paymentHistory), historyStart),
+  };
+}
+
+function enquiryFrom(record: RawRecord, reportDate: Date): CreditEnquiry {
+  return {
+    date: parseDate(pick(record, FIELDS.enquiryDate)) ?? reportDate,
+    lender: String(pick(record, FIELDS.lender) ?? 'Unknown lender').trim(),
+    purpose: String(pick(record, FIELDS.purpose) ?? 'Not stated').trim(),
+    amount: parseAmount(pick(record, FIELDS.enquiryAmount)),
+  };
+}
+
+function reportFrom(
+  header: RawRecord,
+  accountRecords: RawRecord[],
+  enquiryRecords: RawRecord[],
+  fallbackBureau: string
+): CreditReport {
+  const reportDate = parseDate(pick(header, FIELDS.reportDate)) ?? new Date();
+  const score = parseAmount(pick(header, FIELDS.score));
+
+  const report: CreditReport = {
+    bureau: String(pick(header, FIELDS.bureau) ?? fallbackBureau),
+    reportDate,
+    bureauScore: score !== null && score >= 300 && score <= 900 ? score : null,
+    accounts: accountRecords.map((record, i) => accountFrom(record, i, reportDate)),
+    enquiries: enquiryRecords.map(record => enquiryFrom(record, reportDate)),
+  };
+
+  if (report.accounts.length === 0 && report.enquiries.length === 0) {
+    throw new CreditReportError('No accounts or enquiries found in the credit report');
+  }
+  return report;
+}
+
+// ==================== PARSERS ====================
+
+/**
+ * Parse a JSON export
+ */
+export function parseCreditReportJson(json: string): CreditReport {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new CreditReportError('The credit report is not valid JSON');
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new CreditReportError('The credit report JSON should be an object');
+  }
+
+  const root = data as RawRecord;
+  const list = (aliases: string[]) => {
+    const value = pick(root, aliases);
+    return Array.isArray(value) ? value.filter((v): v is RawRecord => !!v && typeof v === 'object') : [];
+  };
+
+  return reportFrom(root, list(FIELDS.accounts), list(FIELDS.enquiries), 'CIBIL');
+}
+
+/**
+ * Parse a text export: header lines, then one block of "KEY: value" lines
+ * per ACCOUNT or ENQUIRY heading
+ */
+export function parseCreditReportText(text: string): CreditReport {
+  const header: RawRecord = {};
+  const accounts: RawRecord[] = [];
+  const enquiries: RawRecord[] = [];
+  let current: RawRecord = header;
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = line.trim().match(/^(ACCOUNT|ENQUIRY|INQUIRY)\b[^:]*$/i);
+    if (heading) {
+      current = {};
+      (heading[1].toUpperCase() === 'ACCOUNT' ? accounts : enquiries).push(current);
+      continue;
+    }
+
+    const field = line.match(/^\s*([A-Za-z][A-Za-z0-9 /()&.-]*?)\s*:\s*(.*)$/);
+    if (field) current[field[1]] = field[2].trim();
+  }
+
+  const bureau = /experian/i.test(text) ? 'Experian' : /equifax/i.test(text) ? 'Equifax' : /crif/i.test(text) ? 'CRIF High Mark' : 'CIBIL';
+  const filled = (records: RawRecord[]) => records.filter(r => Object.keys(r).length > 0);
+  return reportFrom(header, filled(accounts), filled(enquiries), bureau);
+}
+
+/**
+ * Parse either format, going by the first character
+ */
+export function parseCreditReport(content: string): CreditReport {
+  const trimmed = content.trim();
+  if (!trimmed) throw new CreditReportError('The credit report is empty');
+  return trimmed.startsWith('{') ? parseCreditReportJson(trimmed) : parseCreditReportText(trimmed);
+}
@@ -0,0 +1,551 @@
+/**
+ * Credit Score Engine
+ *
+ * Transparent estimate of a bureau-style credit score (300-900) from an
+ * imported credit report, with score history and what-if simulations
+ *
+ * Features:
+ * - Factor scores for payment history, utilization, credit age, credit mix and enquiries
+ * - Estimated score as 300 plus each factor's weighted points, so every point is explained
+ * - Score history from each imported report, stored per user
+ * - What-if simulations: paying cards down, closing accounts, new enquiries, missed or on-time payments
+ * - Expected score after one, three and six months of on-time payments
+ */
+
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import {
+  parseCreditReport,
+  type CreditAccount,
+  type CreditAccountType,
+  type CreditReport,
+} from './creditReportImport';
+import { addMonths } from './loanAmortization';
+
+// ==================== TYPES ====================
+
+export type CreditFactorKey = 'payment_history' | 'utilization' | 'credit_age' | 'credit_mix' | 'enquiries';
+
+export interface CreditFactor {
+  key: CreditFactorKey;
+  label: string;
+  weight: number; // percent of the score
+  score: number; // 0-100
+  points: number; // Contribution above the 300 floor
+  status: 'good' | 'fair' | 'poor';
+  detail: string;
+}
+
+export interface CreditScoreEstimate {
+  score: number;
+  asOf: Date;
+  bureauScore: number | null;
+  utilizationPercent: number | null; // Across active cards
+  factors: CreditFactor[];
+}
+
+export interface ScoreSnapshot {
+  date: Date;
+  estimatedScore: number;
+  bureauScore: number | null;
+  bureau: string;
+}
+
+export type WhatIfScenario =
+  | { kind: 'pay_down_card'; accountId: string; targetUtilizationPercent: number }
+  | { kind: 'pay_down_cards'; targetUtilizationPercent: number }
+  | { kind: 'close_account'; accountId: string }
+  | { kind: 'new_enquiries'; count: number }
+  | { kind: 'missed_payment'; accountId: string; daysPastDue: number }
+  | { kind: 'on_time_months'; months: number };
+
+export interface WhatIfResult {
+  scenario: WhatIfScenario;
+  label: string;
+  paymentRequired: number; // Rupees to pay for the scenario, 0 if none
+  before: number;
+  after: number;
+  change: number;
+  factorChanges: Array<{ key: CreditFactorKey; label: string; before: number; after: number }>;
+}
+
+export interface CreditData {
+  report: CreditReport | null;
+  history: ScoreSnapshot[]; // Oldest first
+}
+
+export interface ScoreTimelinePoint {
+  months: number;
+  score: number;
+  change: number; // Against the current estimate
+}
+
+export interface CreditSummary extends CreditData {
+  estimate: CreditScoreEstimate | null;
+  simulations: WhatIfResult[]; // Largest gain first
+}
+
+// ==================== CONSTANTS ====================
+
+const SCORE_MIN = 300;
+const SCORE_MAX = 900;
+const TIMELINE_MONTHS = [1, 3, 6];
+const CREDIT_COLLECTION = 'credit_reports';
+const MAX_HISTORY = 36;
+
+const FACTOR_WEIGHTS: Record<CreditFactorKey, number> = {
+  payment_history: 35,
+  utilization: 30,
+  credit_age: 15,
+  credit_mix: 10,
+  enquiries: 10,
+};
+
+const FACTOR_LABELS: Record<CreditFactorKey, string> = {
+  payment_history: 'Payment History',
+  utilization: 'Credit Utilization',
+  credit_age: 'Credit History Length',
+  credit_mix: 'Credit Mix',
+  enquiries: 'New Credit',
+};
+
+const SECURED_TYPES: CreditAccountType[] = ['home_loan', 'auto_loan', 'gold_loan', 'business_loan'];
+const ENQUIRY_PENALTY = [0, 10, 25, 40, 55]; // By enquiries in the last 6 months
+
+// ==================== HELPERS ====================
+
+function monthsBetween(from: Date, to: Date): number {
+  return (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth());
+}
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+function statusFor(score: number): CreditFactor['status'] {
+  if (score >= 75) return 'good';
+  if (score >= 50) return 'fair';
+  return 'poor';
+}
+
+function activeCards(report: CreditReport): CreditAccount[] {
+  return report.accounts.filter(a => a.type === 'credit_card' && a.status === 'active' && (a.creditLimit ?? 0) > 0);
+}
+
+/**
+ * Share of card limits in use, or null without active cards
+ */
+export function cardUtilization(report: CreditReport): number | null {
+  const cards = activeCards(report);
+  const limit = cards.reduce((sum, c) => sum + (c.creditLimit ?? 0), 0);
+  if (limit <= 0) return null;
+  return cards.reduce((sum, c) => sum + c.currentBalance, 0) / limit;
+}
+
+function utilizationScore(utilization: number): number {
+  if (utilization <= 0.1) return 100;
+  if (utilization <= 0.3) return 100 - (utilization - 0.1) * 50; // 90 at 30%
+  if (utilization <= 0.5) return 90 - (utilization - 0.3) * 150; // 60 at 50%
+  if (utilization <= 0.75) return 60 - (utilization - 0.5) * 120; // 30 at 75%
+  return 30 - (utilization - 0.75) * 120;
+}
+
+function latePenalty(daysPastDue: number): number {
+  if (daysPastDue <= 0) return 0;
+  if (daysPastDue <= 30) return 4;
+  if (daysPastDue <= 60) return 8;
+  if (daysPastDue <= 90) return 15;
+  return 25;
+}
+
+// ==================== FACTORS ====================
+
+function factor(key: CreditFactorKey, score: number, detail: string): CreditFactor {
+  const weight = FACTOR_WEIGHTS[key];
+  return {
+    key,
+    label: FACTOR_LABELS[key],
+    weight,
+    score,
+    points: Math.round(((SCORE_MAX - SCORE_MIN) * weight * score) / 10000),
+    status: statusFor(score),
+    detail,
+  };
+}
+
+/**
+ * Late payments in the last three years, weighted up in the last year, and
+ * accounts written off or settled
+ */
+function paymentHistoryFactor(report: CreditReport, asOf: Date): CreditFactor {
+  const derogatory = report.accounts.filter(a => a.status === 'written_off' || a.status === 'settled');
+  const overdue = report.accounts.filter(a => a.status === 'active' && a.overdue > 0);
+  let reported = 0;
+  let late = 0;
+  let penalty = 0;
+
+  for (const account of report.accounts) {
+    for (const record of account.payments) {
+      const age = monthsBetween(new Date(`${record.month}-01T00:00:00`), asOf);
+      if (age < 0 || age >= 36) continue;
+      reported++;
+      if (record.daysPastDue <= 0) continue;
+      late++;
+      penalty += latePenalty(record.daysPastDue) * (age < 12 ? 1.5 : 1);
+    }
+  }
+  penalty += derogatory.length * 30 + overdue.length * 10;
+
+  if (reported === 0 && penalty === 0) {
+    return factor('payment_history', 50, 'No repayment history reported yet');
+  }
+
+  const notes = [
+    late > 0 ? `${late} late payment${late > 1 ? 's' : ''} in the last 3 years` : `All ${reported} reported payments on time`,
+    ...(derogatory.length > 0 ? [`${derogatory.length} account${derogatory.length > 1 ? 's' : ''} written off or settled`] : []),
+    ...(overdue.length > 0 ? [`${overdue.length} account${overdue.length > 1 ? 's' : ''} overdue now`] : []),
+  ];
+  return factor('payment_history', clamp(100 - penalty), notes.join('; '));
+}
+
+/**
+ * Card balances against card limits, with a further penalty for each card
+ * that is nearly maxed out
+ */
+function utilizationFactor(report: CreditReport): CreditFactor {
+  const utilization = cardUtilization(report);
+  if (utilization === null) {
+    return factor('utilization', 60, 'No active credit cards, so revolving credit use cannot be shown');
+  }
+
+  const cards = activeCards(report);
+  const limit = cards.reduce((sum, c) => sum + (c.creditLimit ?? 0), 0);
+  const maxedOut = cards.filter(c => c.currentBalance > (c.creditLimit ?? 0) * 0.75).length;
+  const detail = `Using ${Math.round(utilization * 100)}% of ₹${limit.toLocaleString('en-IN')} total card limit` +
+    (maxedOut > 0 ? `; ${maxedOut} card${maxedOut > 1 ? 's' : ''} above 75%` : '');
+
+  return factor('utilization', clamp(utilizationScore(utilization) - maxedOut * 5), detail);
+}
+
+/**
+ * Average and oldest account age; closed accounts still count
+ */
+function creditAgeFactor(report: CreditReport, asOf: Date): CreditFactor {
+  const ages = report.accounts.map(a => Math.max(0, monthsBetween(a.opened, asOf)) / 12);
+  if (ages.length === 0) return factor('credit_age', 0, 'No credit accounts yet');
+
+  const oldest = Math.max(...ages);
+  const average = ages.reduce((sum, a) => sum + a, 0) / ages.length;
+  const score = 100 * (0.6 * Math.min(1, average / 7) + 0.4 * Math.min(1, oldest / 15));
+
+  return factor('credit_age', clamp(score), `Oldest account ${oldest.toFixed(1)} years, average ${average.toFixed(1)} years`);
+}
+
+/**
+ * Cards, secured loans and unsecured loans on file; mostly-unsecured credit
+ * counts against the mix
+ */
+function creditMixFactor(report: CreditReport): CreditFactor {
+  const kinds = new Set(
+    report.accounts.map(a =>
+      a.type === 'credit_card' ? 'Credit cards' : SECURED_TYPES.includes(a.type) ? 'Secured loans' : 'Unsecured loans'
+    )
+  );
+  const active = report.accounts.filter(a => a.status === 'active');
+  const unsecured = active.filter(a => a.type !== 'credit_card' && !SECURED_TYPES.includes(a.type)).length;
+  const unsecuredHeavy = active.length >= 3 && unsecured / active.length > 0.7;
+  const score = [0, 45, 75, 100][kinds.size] - (unsecuredHeavy ? 15 : 0);
+
+  const detail = kinds.size > 0 ? [...kinds].join(', ') : 'No credit accounts yet';
+  return factor('credit_mix', clamp(score), unsecuredHeavy ? `${detail}; mostly unsecured loans` : detail);
+}
+
+/**
+ * Hard enquiries in the last six months, and lightly those in the six before
+ */
+function enquiryFactor(report: CreditReport, asOf: Date): CreditFactor {
+  const ages = report.enquiries.map(e => monthsBetween(e.date, asOf)).filter(m => m >= 0);
+  const recent = ages.filter(m => m < 6).length;
+  const earlier = ages.filter(m => m >= 6 && m < 12).length;
+  const penalty = ENQUIRY_PENALTY[Math.min(recent, 4)] + Math.max(0, recent - 4) * 15 + earlier * 3;
+
+  return factor('enquiries', clamp(100 - penalty), `${recent} enquir${recent === 1 ? 'y' : 'ies'} in the last 6 months, ${earlier} in the 6 before`);
+}
+
+// ==================== ESTIMATE ====================
+
+/**
+ * Estimated score: 300 plus each factor's rounded points, where a factor at
+ * 100 contributes its full weight of the 600-point range. Summing the rounded
+ * points keeps the score equal to the breakdown shown to the user.
+ */
+export function estimateCreditScore(report: CreditReport, asOf: Date = report.reportDate): CreditScoreEstimate {
+  const factors = [
+    paymentHistoryFactor(report, asOf),
+    utilizationFactor(report),
+    creditAgeFactor(report, asOf),
+    creditMixFactor(report),
+    enquiryFactor(report, asOf),
+  ];
+  const utilization = cardUtilization(report);
+
+  return {
+    score: SCORE_MIN + factors.reduce((sum, f) => sum + f.points, 0),
+    asOf,
+    bureauScore: report.bureauScore,
+    utilizationPercent: utilization !== null ? Math.round(utilization * 1000) / 10 : null,
+    factors,
+  };
+}
+
+// ==================== WHAT-IF ====================
+
+function cloneReport(report: CreditReport): CreditReport {
+  return {
+    ...report,
+    accounts: report.accounts.map(a => ({ ...a, payments: [...a.payments] })),
+    enquiries: [...report.enquiries],
+  };
+}
+
+function accountName(report: CreditReport, accountId: string): string {
+  const account = report.accounts.find(a => a.id === accountId);
+  return account ? `${account.lender} ${account.type === 'credit_card' ? 'card' : 'loan'}` : 'account';
+}
+
+/**
+ * The report as it would look after the scenario, the date to score it at,
+ * and what the user would have to pay
+ */
+function applyScenario(
+  report: CreditReport,
+  scenario: WhatIfScenario
+): { report: CreditReport; asOf: Date; label: string; paymentRequired: number } {
+  const next = cloneReport(report);
+  let asOf = report.reportDate;
+  let paymentRequired = 0;
+  let label = '';
+
+  const payDown = (card: CreditAccount, percent: number) => {
+    const target = ((card.creditLimit ?? 0) * percent) / 100;
+    const payment = Math.max(0, card.currentBalance - target);
+    card.currentBalance -= payment;
+    paymentRequired += payment;
+  };
+
+  switch (scenario.kind) {
+    case 'pay_down_card': {
+      const card = next.accounts.find(a => a.id === scenario.accountId);
+      if (card?.creditLimit) payDown(card, scenario.targetUtilizationPercent);
+      label = `Pay ${accountName(report, scenario.accountId)} down to ${scenario.targetUtilizationPercent}% utilization`;
+      break;
+    }
+    case 'pay_down_cards':
+      activeCards(next).forEach(card => payDown(card, scenario.targetUtilizationPercent));
+      label = `Pay every card down to ${scenario.targetUtilizationPercent}% utilization`;
+      break;
+    case 'close_account': {
+      const account = next.accounts.find(a => a.id === scenario.accountId);
+      if (account) {
+        paymentRequired = account.currentBalance;
+        Object.assign(account, { status: 'closed', closed: asOf, currentBalance: 0, overdue: 0 });
+      }
+      label = `Close the ${accountName(report, scenario.accountId)}`;
+      break;
+    }
+    case 'new_enquiries':
+      for (let i = 0; i < scenario.count; i++) {
+        next.enquiries.push({ date: asOf, lender: 'New application', purpose: 'Simulated', amount: null });
+      }
+      label = `Apply for credit ${scenario.count} more time${scenario.count > 1 ? 's' : ''}`;
+      break;
+    case 'missed_payment': {
+      const account = next.accounts.find(a => a.id === scenario.accountId);
+      asOf = addMonths(report.reportDate, 1);
+      account?.payments.unshift({ month: monthKey(asOf), daysPastDue: scenario.daysPastDue });
+      label = `Pay the ${accountName(report, scenario.accountId)} ${scenario.daysPastDue} days late`;
+      break;
+    }
+    case 'on_time_months':
+      asOf = addMonths(report.reportDate, scenario.months);
+      for (const account of next.accounts.filter(a => a.status === 'active')) {
+        const onTime = Array.from({ length: scenario.months }, (_, i) => ({
+          month: monthKey(addMonths(report.reportDate, scenario.months - i)),
+          daysPastDue: 0,
+        }));
+        account.payments.unshift(...onTime);
+      }
+      label = `Pay everything on time for ${scenario.months} months`;
+      break;
+  }
+
+  return { report: next, asOf, label, paymentRequired: Math.round(paymentRequired) };
+}
+
+/**
+ * Estimated score before and after a scenario, with each factor's change
+ */
+export function simulateWhatIf(report: CreditReport, scenario: WhatIfScenario): WhatIfResult {
+  const before = estimateCreditScore(report);
+  const applied = applyScenario(report, scenario);
+  const after = estimateCreditScore(applied.report, applied.asOf);
+
+  return {
+    scenario,
+    label: applied.label,
+    paymentRequired: applied.paymentRequired,
+    before: before.score,
+    after: after.score,
+    change: after.score - before.score,
+    factorChanges: before.factors
+      .map((f, i) => ({ key: f.key, label: f.label, before: f.score, after: after.factors[i].score }))
+      .filter(f => f.before !== f.after),
+  };
+}
+
+/**
+ * Scenarios worth showing for this report: paying high-use cards down to
+ * 30%, all cards to 10%, a year of on-time payments, and the cost of new
+ * applications
+ */
+export function suggestedSimulations(report: CreditReport): WhatIfResult[] {
+  const scenarios: WhatIfScenario[] = activeCards(report)
+    .filter(card => card.currentBalance > (card.creditLimit ?? 0) * 0.3)
+    .map(card => ({ kind: 'pay_down_card' as const, accountId: card.id, targetUtilizationPercent: 30 }));
+
+  if ((cardUtilization(report) ?? 0) > 0.1) {
+    scenarios.push({ kind: 'pay_down_cards', targetUtilizationPercent: 10 });
+  }
+  if (report.accounts.some(a => a.status === 'active')) {
+    scenarios.push({ kind: 'on_time_months', months: 12 });
+  }
+  scenarios.push({ kind: 'new_enquiries', count: 2 });
+
+  return scenarios.map(s => simulateWhatIf(report, s)).sort((a, b) => b.change - a.change);
+}
+
+/**
+ * Estimated score after each number of months of paying every active
+ * account on time, as the history grows and accounts age
+ */
+export function improvementTimeline(report: CreditReport, horizons: number[] = TIMELINE_MONTHS): ScoreTimelinePoint[] {
+  if (!report.accounts.some(a => a.status === 'active')) return [];
+
+  return horizons.map(months => {
+    const result = simulateWhatIf(report, { kind: 'on_time_months', months });
+    return { months, score: result.after, change: result.change };
+  });
+}
+
+// ==================== STORAGE ====================
+
+// Dates are stored as ISO strings, so Firestore and localStorage read back the same way
+function reviveCreditData(raw: Partial<CreditData> | null | undefined): CreditData {
+  const report = raw?.report
+    ? {
+        ...raw.report,
+        reportDate: new Date(raw.report.reportDate),
+        accounts: raw.report.accounts.map(a => ({
+          ...a,
+          opened: new Date(a.opened),
+          closed: a.closed ? new Date(a.closed) : null,
+        })),
+        enquiries: raw.report.enquiries.map(e => ({ ...e, date: new Date(e.date) })),
+      }
+    : null;
+
+  return {
+    report,
+    history: (raw?.history ?? []).map(s => ({ ...s, date: new Date(s.date) })),
+  };
+}
+
+// ==================== SERVICE CLASS ====================
+
+export class CreditScoreEngine {
+  /**
+   * Latest imported report and score history
+   */
+  async getCreditData(userId: string): Promise<CreditData> {
+    try {
+      const snapshot = await getDoc(doc(db, CREDIT_COLLECTION, userId));
+      if (snapshot.exists()) {
+        const data = reviveCreditData(snapshot.data() as Partial<CreditData>);
+        localStorage.setItem(`credit_report_${userId}`, JSON.stringify(data));
+        return data;
+      }
+    } catch (error) {
+      console.warn('Firestore credit report fetch failed, using local fallback:', error);
+    }
+
+    return reviveCreditData(JSON.parse(localStorage.getItem(`credit_report_${userId}`) || 'null'));
+  }
+
+  /**
+   * Report, estimated score, history and suggested what-ifs
+   */
+  async getSummary(userId: string): Promise<CreditSummary> {
+    const data = await this.getCreditData(userId);
+    return {
+      ...data,
+      estimate: data.report ? estimateCreditScore(data.report) : null,
+      simulations: data.report ? suggestedSimulations(data.report) : [],
+    };
+  }
+
+  /**
+   * Import a bureau report (JSON or text), replacing the previous one and
+   * adding its score to the history
+   */
+  async importReport(userId: string, content: string): Promise<CreditSummary> {
+    const report = parseCreditReport(content);
+    const estimate = estimateCreditScore(report);
+    const existing = await this.getCreditData(userId);
+
+    const snapshot: ScoreSnapshot = {
+      date: report.reportDate,
+      estimatedScore: estimate.score,
+      bureauScore: report.bureauScore,
+      bureau: report.bureau,
+    };
+    const history = [
+      ...existing.history.filter(s => monthKey(s.date) !== monthKey(snapshot.date)),
+      snapshot,
+    ]
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .slice(-MAX_HISTORY);
+
+    await this.saveCreditData(userId, { report, history });
+    return { report, history, estimate, simulations: suggestedSimulations(report) };
+  }
+
+  /**
+   * Run one what-if against the stored report
+   */
+  async simulate(userId: string, scenario: WhatIfScenario): Promise<WhatIfResult> {
+    const { report } = await this.getCreditData(userId);
+    if (!report) throw new Error('Import a credit report first');
+    return simulateWhatIf(report, scenario);
+  }
+
+  private async saveCreditData(userId: string, data: CreditData): Promise<void> {
+    const stored = JSON.parse(JSON.stringify(data));
+
+    try {
+      await setDoc(doc(db, CREDIT_COLLECTION, userId), { ...stored, userId, updatedAt: new Date() });
+      console.log('✅ Credit report saved');
+    } catch (error) {
+      console.error('Error saving credit report:', error);
+    }
+
+    // Local copy for offline reads
+    localStorage.setItem(`credit_report_${userId}`, JSON.stringify(stored));
+  }
+}
+
+// Export singleton instance
+export const creditScoreEngine = new CreditScoreEngine();
@@ -13,6 +13,14 @@
  */
 
 import { geminiService } from './gemini';
+import { userProfileService } from './userProfileService';
+import { stepUpAuthService } from './stepUpAuthService';
+import {
+  compileExpression,
+  ExpressionError,
+  type ExpressionScope,
+  type ExpressionValueType,
+} from './agentExpression';
 
 // ==================== TYPES ====================
 
@@ -96,6 +104,10 @@ export interface AgentTrigger {
     metric: 'balance' | 'spending' | 'income' | 'savings_rate' | 'custom';
     operator: '>' | '<' | '>=' | '<=' | '==' | '!=';
     value: number;
+    windowDays?: number; // Look-back window for flow metrics (default 30)
+    hysteresis?: number; // How far back across the line the metric must go to re-arm
+    accountId?: string; // Limit the balance metric to one account
+    customMetric?: string; // Registered provider name when metric is 'custom'
   };
   
   // AI-detected patterns
@@ -113,9 +125,10 @@ export interface AgentCondition {
   
   // Simple condition
   simple?: {
-    field: string; // e.g., "account.balance", "transaction.amount"
+    field: string; // Expression, e.g., "account.balance", "transaction.amount", "income.monthlySalary * 0.2"
     operator: '>' | '<' | '>=' | '<=' | '==' | '!=' | 'contains' | 'matches';
     value: any;
+    valueExpression?: string; // Compare against a computed value instead of `value`
   };
   
   // Compound condition (AND/OR logic)
@@ -143,7 +156,7 @@ export interface AgentAction {
     amountType: 'fixed' | 'percentage' | 'calculated' | 'ai_determined';
     amount?: number;
     percentage?: number;
-    calculation?: string; // JavaScript expression
+    calculation?: string; // Agent expression (see agentExpression.ts), e.g. "min(percent(transaction.amount, 10), 20000)"
     memo: string;
   };
   
@@ -207,8 +220,11 @@ export interface AgentExecution {
     result: any;
     error?: string;
     timestamp: Date;
+    attempt?: number; // 1-based; one entry per attempt when retries are configured
+    deadLettered?: boolean; // Final failed attempt, moved to the dead-letter list
   }[];
-  status: 'success' | 'partial_success' | 'failed';
+  status: 'success' | 'partial_success' | 'failed' | 'pending_confirmation';
+  simulated?: boolean; // Dry run: no money moved, nothing sent or stored
   executionTime: number; // milliseconds
   impact: number; // Financial impact
   aiInteractions: {
@@ -219,6 +235,64 @@ export interface AgentExecution {
   createdAt: Date;
 }
 
+export type ActionResult = AgentExecution['actionsExecuted'][number];
+
+/**
+ * A transfer held for user confirmation. The rest of the execution's actions
+ * wait on it and resume once it is approved or rejected.
+ */
+export interface PendingTransfer {
+  id: string;
+  userId: string;
+  agentId: string;
+  agentName: string;
+  executionId: string;
+  actionId: string;
+  amount: number;
+  from: string;
+  to: string;
+  memo: string;
+  triggerData: unknown;
+  action: AgentAction; // The held transfer, as configured when it was queued
+  remainingActions: AgentAction[]; // Actions after the transfer, in execution order
+  status: 'pending' | 'approved' | 'rejected' | 'expired';
+  createdAt: Date;
+  expiresAt: Date;
+  resolvedAt?: Date;
+}
+
+/**
+ * An action that failed every retry attempt, kept for manual re-run
+ */
+export interface DeadLetterEntry {
+  id: string;
+  userId: string;
+  agentId: string;
+  agentName: string;
+  executionId: string;
+  action: AgentAction;
+  triggerData: unknown; // Payload of the original execution, replayed on re-run
+  attempts: number; // Attempts so far, including manual re-runs
+  lastError: string;
+  failedAt: Date;
+}
+
+/**
+ * A failed action waiting for its next attempt. Retries run from the queue
+ * (scheduler tick or timer) so the failing execution does not block on backoff.
+ */
+export interface ScheduledRetry {
+  id: string;
+  userId: string;
+  agentId: string;
+  executionId: string;
+  action: AgentAction;
+  triggerData: unknown;
+  attempt: number; // 1-based number of the attempt to run
+  lastError: string;
+  dueAt: Date;
+}
+
 export interface AgentTemplate {
   id: string;
   name: string;
@@ -234,13 +308,52 @@ export interface AgentTemplate {
   tags: string[];
 }
 
+/**
+ * Options for executeAgent
+ */
+export interface ExecutionOptions {
+  dryRun?: boolean; // Simulate: no transfers, notifications, stats or stored executions; drafts allowed
+  now?: Date; // Clock for execution timestamps (simulated time in dry runs)
+  simulateAI?: boolean; // Call Gemini during dry runs (default: AI conditions pass, AI actions are skipped)
+}
+
+/**
+ * Thrown when a transfer exceeds permissions.maxTransactionAmount
+ */
+export class TransferLimitError extends Error {
+  amount: number;
+  limit: number;
+
+  constructor(amount: number, limit: number) {
+    super(`Transfer amount (₹${amount}) exceeds agent limit (₹${limit})`);
+    this.name = 'TransferLimitError';
+    this.amount = amount;
+    this.limit = limit;
+  }
+}
+
+const CONFIRMATION_EXPIRY_HOURS = 24; // Pending transfers expire after a day
+const MAX_TRANSFER_LOG = 200; // Completed transfers remembered for idempotency
+
+/**
+ * Context for running actions outside a fresh execution
+ */
+interface ActionRunContext {
+  attempt?: number; // Attempt number for scheduled retries (default 1)
+  idempotencyScope?: string; // Execution the transfers belong to (default: the execution passed in)
+}
+
 // ==================== CUSTOM AGENT BUILDER SERVICE ====================
 
 export class CustomAgentBuilderService {
+  private agentIndexBackfilled = false;
+
   /**
    * Create a new custom agent from scratch
    */
   async createAgent(userId: string, config: Partial<CustomAgent>): Promise<CustomAgent> {
+    this.assertValidExpressions(config);
+
     const agent: CustomAgent = {
       id: `AGENT_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       userId,
@@ -353,6 +466,9 @@ Now generate for: "${description}"
       return await this.createAgent(userId, parsedConfig);
 
     } catch (error) {
+      // Invalid expressions in the generated config should surface, not be papered over
+      if (error instanceof ExpressionError) throw error;
+
       console.error('Error creating agent from NL:', error);
       
       // Fallback: create basic agent
@@ -369,20 +485,24 @@ Now generate for: "${description}"
    */
   async executeAgent(
     agentId: string,
-    triggerData: any
+    triggerData: any,
+    options: ExecutionOptions = {}
   ): Promise<AgentExecution> {
     const startTime = Date.now();
+    const now = () => options.now || new Date();
     
     const agent = await this.getAgent(agentId);
     if (!agent) {
       throw new Error('Agent not found');
     }
 
-    if (agent.status !== 'active') {
+    if (agent.status !== 'active' && !options.dryRun) {
       throw new Error('Agent is not active');
     }
 
-    console.log(`🚀 Executing agent: ${agent.name}`);
+    if (!options.dryRun) {
+      console.log(`🚀 Executing agent: ${agent.name}`);
+    }
 
     const execution: AgentExecution = {
       id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -391,26 +511,27 @@ Now generate for: "${description}"
       triggeredBy: {
         triggerType: triggerData.type || 'manual',
         triggerId: triggerData.id || 'manual',
-        timestamp: new Date(),
+        timestamp: now(),
         data: triggerData,
       },
       conditionsEvaluated: [],
       actionsExecuted: [],
       status: 'success',
+      ...(options.dryRun ? { simulated: true } : {}),
       executionTime: 0,
       impact: 0,
       aiInteractions: [],
-      createdAt: new Date(),
+      createdAt: now(),
     };
 
     try {
       // Step 1: Evaluate all conditions
-      console.log('📋 Evaluating conditions...');
       const conditionResults = await this.evaluateConditions(
         agent.conditions,
         triggerData,
         agent,
-        execution
+        execution,
+        options
       );
 
       execution.conditionsEvaluated = conditionResults;
@@ -419,40 +540,38 @@ Now generate for: "${description}"
       const allConditionsPassed = conditionResults.every(c => c.result);
 
       if (!allConditionsPassed) {
-        console.log('❌ Conditions not met, skipping actions');
         execution.status = 'failed';
-        await this.saveExecution(execution);
+        if (!options.dryRun) {
+          console.log('❌ Conditions not met, skipping actions');
+          await this.saveExecution(execution);
+        }
         return execution;
       }
 
       // Step 2: Execute actions
-      console.log('⚡ Executing actions...');
       const actionResults = await this.executeActions(
         agent.actions,
         triggerData,
         agent,
-        execution
+        execution,
+        options
       );
 
       execution.actionsExecuted = actionResults;
 
-      // Determine overall status
-      const successfulActions = actionResults.filter(a => a.status === 'success').length;
-      const failedActions = actionResults.filter(a => a.status === 'failed').length;
-
-      if (failedActions === 0) {
-        execution.status = 'success';
-      } else if (successfulActions > 0) {
-        execution.status = 'partial_success';
-      } else {
-        execution.status = 'failed';
-      }
+      execution.status = this.getExecutionStatus(actionResults);
 
       // Calculate impact
       execution.impact = this.calculateImpact(actionResults);
 
+      if (!options.dryRun) {
+        await this.deadLetterExhaustedActions(agent, execution, actionResults, triggerData);
+      }
+
       // Update agent stats
-      await this.updateAgentStats(agent, execution);
+      if (!options.dryRun) {
+        await this.updateAgentStats(agent, execution);
+      }
 
     } catch (error: any) {
       console.error('Error executing agent:', error);
@@ -462,12 +581,16 @@ Now generate for: "${description}"
         status: 'failed',
         result: null,
         error: error.message,
-        timestamp: new Date(),
+        timestamp: now(),
       });
     }
 
     execution.executionTime = Date.now() - startTime;
 
+    if (options.dryRun) {
+      return execution;
+    }
+
     // Save execution log
     await this.saveExecution(execution);
 
@@ -483,7 +606,8 @@ Now generate for: "${description}"
     conditions: AgentCondition[],
     triggerData: any,
     agent: CustomAgent,
-    execution: AgentExecution
+    execution: AgentExecution,
+    options: ExecutionOptions = {}
   ): Promise<Array<{ conditionId: string; result: boolean; reason: string }>> {
     const results: Array<{ conditionId: string; result: boolean; reason: string }> = [];
 
@@ -494,9 +618,13 @@ Now generate for: "${description}"
 
         if (condition.type === 'simple' && condition.simple) {
           // Evaluate simple condition
-          const value = this.getFieldValue(triggerData, condition.simple.field);
-          result = this.evaluateOperator(value, condition.simple.operator, condition.simple.value);
-          reason = `${condition.simple.field} ${condition.simple.operator} ${condition.simple.value} => ${result}`;
+          const scope = await this.buildExpressionScope(agent, triggerData);
+          const value = compileExpression(condition.simple.field).evaluate(scope);
+          const compareValue = condition.simple.valueExpression
+            ? compileExpression(condition.simple.valueExpression).evaluate(scope)
+            : condition.simple.value;
+          result = this.evaluateOperator(value, condition.simple.operator, compareValue);
+          reason = `${condition.simple.field} ${condition.simple.operator} ${condition.simple.valueExpression || compareValue} => ${result}`;
         } 
         else if (condition.type === 'compound' && condition.compound) {
           // Evaluate compound condition (recursive)
@@ -504,7 +632,8 @@ Now generate for: "${description}"
             condition.compound.conditions,
             triggerData,
             agent,
-            execution
+            execution,
+            options
           );
 
           if (condition.compound.operator === 'AND') {
@@ -517,6 +646,11 @@ Now generate for: "${description}"
 
           reason = `${condition.compound.operator}(${subResults.map(r => r.result).join(', ')}) => ${result}`;
         }
+        else if (condition.type === 'ai_evaluated' && condition.aiEvaluation && options.dryRun && !options.simulateAI) {
+          // Dry runs don't call the AI; assume the condition passes so the summary is an upper bound
+          result = true;
+          reason = 'AI condition not evaluated in dry run (assumed true)';
+        }
         else if (condition.type === 'ai_evaluated' && condition.aiEvaluation) {
           // Let AI evaluate the condition
           const aiPrompt = `
@@ -536,7 +670,7 @@ Respond with ONLY "${condition.aiEvaluation.expectedOutput}" or "false".
           execution.aiInteractions.push({
             prompt: aiPrompt,
             response: aiResponse,
-            timestamp: new Date(),
+            timestamp: options.now || new Date(),
           });
 
           result = aiResponse.toLowerCase().includes(condition.aiEvaluation.expectedOutput.toLowerCase());
@@ -569,72 +703,146 @@ Respond with ONLY "${condition.aiEvaluation.expectedOutput}" or "false".
     actions: AgentAction[],
     triggerData: any,
     agent: CustomAgent,
-    execution: AgentExecution
-  ): Promise<Array<{ actionId: string; status: 'success' | 'failed' | 'skipped'; result: any; error?: string; timestamp: Date }>> {
-    const results: Array<{ actionId: string; status: 'success' | 'failed' | 'skipped'; result: any; error?: string; timestamp: Date }> = [];
+    execution: AgentExecution,
+    options: ExecutionOptions = {},
+    context: ActionRunContext = {}
+  ): Promise<ActionResult[]> {
+    const results: ActionResult[] = [];
+    const now = () => options.now || new Date();
+
+    // Transfers are keyed by execution and action, so a retry of a transfer that
+    // actually went through is recognised instead of being sent again
+    const transferKey = (action: AgentAction) => `${context.idempotencyScope ?? execution.id}:${action.id}`;
 
     // Sort by priority
     const sortedActions = [...actions].sort((a, b) => a.priority - b.priority);
 
-    for (const action of sortedActions) {
+    for (const [index, action] of sortedActions.entries()) {
       if (!action.enabled) {
         results.push({
           actionId: action.id,
           status: 'skipped',
           result: null,
-          timestamp: new Date(),
+          timestamp: now(),
         });
         continue;
       }
 
-      try {
-        let result: any = null;
+      const usesAI = action.type === 'ai_decision' || (action.type === 'recommend' && action.recommend?.generateUsing === 'ai');
+      if (options.dryRun && !options.simulateAI && usesAI) {
+        results.push({
+          actionId: action.id,
+          status: 'skipped',
+          result: { simulated: true, reason: 'AI action not run in dry run' },
+          timestamp: now(),
+        });
+        continue;
+      }
 
-        if (action.type === 'notify' && action.notify) {
-          // Send notification
-          result = await this.sendNotification(action.notify, agent);
-        }
-        else if (action.type === 'transfer' && action.transfer) {
-          // Execute transfer (with safety checks)
-          result = await this.executeTransfer(action.transfer, agent, triggerData);
-        }
-        else if (action.type === 'ai_decision' && action.aiDecision) {
-          // Let AI decide what to do
-          result = await this.executeAIDecision(action.aiDecision, agent, triggerData, execution);
-        }
-        else if (action.type === 'recommend' && action.recommend) {
-          // Generate recommendations
-          result = await this.generateRecommendation(action.recommend, agent, triggerData);
+      // Dry runs make a single attempt; retries only apply to real executions
+      const maxAttempts = action.retry?.enabled && !options.dryRun ? Math.max(1, action.retry.maxAttempts) : 1;
+      const attempt = context.attempt ?? 1;
+
+      try {
+        const result = await this.runAction(action, triggerData, agent, execution, options, transferKey(action));
+
+        // Hold the transfer (and everything after it) for user confirmation
+        if (result?.status === 'pending_confirmation' && !options.dryRun) {
+          const remaining = sortedActions.slice(index + 1);
+          const pending = await this.queuePendingTransfer(agent, execution, action, result, triggerData, remaining);
+          result.pendingTransferId = pending.id;
+          result.expiresAt = pending.expiresAt;
+
+          results.push({ actionId: action.id, status: 'success', result, timestamp: now() });
+          remaining.forEach(waiting => {
+            results.push({
+              actionId: waiting.id,
+              status: 'skipped',
+              result: { reason: 'awaiting_confirmation', pendingTransferId: pending.id },
+              timestamp: now(),
+            });
+          });
+          return results;
         }
 
         results.push({
           actionId: action.id,
           status: 'success',
           result,
-          timestamp: new Date(),
+          timestamp: now(),
+          ...(maxAttempts > 1 ? { attempt } : {}),
         });
 
-      } catch (error: any) {
-        console.error(`Error executing action ${action.id}:`, error);
-        
+      } catch (error) {
+        if (!options.dryRun) {
+          console.error(`Error executing action ${action.id} (attempt ${attempt}/${maxAttempts}):`, error);
+        }
+
+        // Limit violations fail the same way every time, so don't retry them
+        const retryable = !(error instanceof TransferLimitError);
+        const finalAttempt = attempt >= maxAttempts || !retryable;
+        const message = error instanceof Error ? error.message : String(error);
+
+        // Later attempts are queued, not awaited, so the caller (scheduler, event bus) is not held up
+        const retry = finalAttempt
+          ? null
+          : this.scheduleRetry(agent, context.idempotencyScope ?? execution.id, action, triggerData, attempt, message);
+
         results.push({
           actionId: action.id,
           status: 'failed',
-          result: null,
-          error: error.message,
-          timestamp: new Date(),
+          result: error instanceof TransferLimitError
+            ? { amount: error.amount, limit: error.limit }
+            : retry ? { reason: 'retry_scheduled', retryId: retry.id, retryAt: retry.dueAt } : null,
+          error: message,
+          timestamp: now(),
+          ...(maxAttempts > 1 ? { attempt } : {}),
+          ...(finalAttempt && !options.dryRun && action.retry?.enabled ? { deadLettered: true } : {}),
         });
-
-        // Retry if configured
-        if (action.retry?.enabled) {
-          // TODO: Implement retry logic
-        }
       }
     }
 
     return results;
   }
 
+  /**
+   * Run a single action once
+   */
+  private async runAction(
+    action: AgentAction,
+    triggerData: any,
+    agent: CustomAgent,
+    execution: AgentExecution,
+    options: ExecutionOptions,
+    idempotencyKey: string
+  ): Promise<any> {
+    if (action.type === 'notify' && action.notify) {
+      // Send notification
+      return await this.sendNotification(action.notify, agent, options);
+    }
+    if (action.type === 'transfer' && action.transfer) {
+      // Execute transfer (with safety checks)
+      return await this.executeTransfer(action.transfer, agent, triggerData, options, idempotencyKey);
+    }
+    if (action.type === 'ai_decision' && action.aiDecision) {
+      // Let AI decide what to do
+      return await this.executeAIDecision(action.aiDecision, agent, triggerData, execution);
+    }
+    if (action.type === 'recommend' && action.recommend) {
+      // Generate recommendations
+      return await this.generateRecommendation(action.recommend, agent, triggerData);
+    }
+    return null;
+  }
+
+  /**
+   * Exponential backoff: backoffSeconds, then 2x, 4x, ...
+   */
+  private getRetryDelayMs(action: AgentAction, attempt: number): number {
+    const baseSeconds = Math.max(0, action.retry?.backoffSeconds || 0);
+    return baseSeconds * 1000 * Math.pow(2, attempt - 1);
+  }
+
   /**
    * Execute AI decision action
    */
@@ -735,9 +943,7 @@ Return JSON with:
   /**
    * Send notification
    */
-  private async sendNotification(notify: any, agent: CustomAgent): Promise<any> {
-    console.log(`📧 Sending notification: ${notify.title}`);
-    
+  private async sendNotification(notify: any, agent: CustomAgent, options: ExecutionOptions = {}): Promise<any> {
     // TODO: Integrate with actual notification service
     const notification = {
       channels: notify.channels,
@@ -746,9 +952,15 @@ Return JSON with:
       priority: notify.priority,
       agentId: agent.id,
       agentName: agent.name,
-      timestamp: new Date(),
+      timestamp: options.now || new Date(),
     };
 
+    if (options.dryRun) {
+      return { ...notification, simulated: true };
+    }
+
+    console.log(`📧 Sending notification: ${notify.title}`);
+
     // Save to localStorage for demo
     const notifications = JSON.parse(localStorage.getItem(`notifications_${agent.userId}`) || '[]');
     notifications.unshift(notification);
@@ -760,7 +972,13 @@ Return JSON with:
   /**
    * Execute transfer
    */
-  private async executeTransfer(transfer: any, agent: CustomAgent, triggerData: any): Promise<any> {
+  private async executeTransfer(
+    transfer: any,
+    agent: CustomAgent,
+    triggerData: any,
+    options: ExecutionOptions,
+    idempotencyKey: string
+  ): Promise<any> {
     // Safety checks
     if (!agent.permissions.canTransferMoney) {
       throw new Error('Agent does not have permission to transfer money');
@@ -774,12 +992,20 @@ Return JSON with:
       const baseAmount = triggerData.transaction?.amount || 0;
       amount = (baseAmount * (transfer.percentage || 0)) / 100;
     } else if (transfer.amountType === 'calculated') {
-      // Evaluate calculation (simple eval, be careful in production!)
-      amount = eval(transfer.calculation);
+      const scope = await this.buildExpressionScope(agent, triggerData);
+      const value = compileExpression(transfer.calculation, 'number').evaluate(scope);
+      if (typeof value !== 'number' || !isFinite(value)) {
+        throw new Error(`Calculation "${transfer.calculation}" did not produce an amount`);
+      }
+      amount = Math.round(value * 100) / 100;
+    }
+
+    if (amount < 0) {
+      throw new Error(`Transfer amount (₹${amount}) cannot be negative`);
     }
 
     if (amount > agent.permissions.maxTransactionAmount) {
-      throw new Error(`Transfer amount (₹${amount}) exceeds agent limit (₹${agent.permissions.maxTransactionAmount})`);
+      throw new TransferLimitError(amount, agent.permissions.maxTransactionAmount);
     }
 
     if (agent.permissions.requiresConfirmation && amount >= agent.permissions.confirmationThreshold) {
@@ -790,21 +1016,56 @@ Return JSON with:
         from: transfer.fromAccount,
         to: transfer.toAccount,
         memo: transfer.memo,
+        ...(options.dryRun ? { simulated: true } : {}),
+      };
+    }
+
+    if (options.dryRun) {
+      return {
+        status: 'completed',
+        amount,
+        from: transfer.fromAccount,
+        to: transfer.toAccount,
+        memo: transfer.memo,
+        timestamp: options.now || new Date(),
+        simulated: true,
       };
     }
 
+    const previous = this.findCompletedTransfer(agent.userId, idempotencyKey);
+    if (previous) {
+      console.log(`↩️ Transfer ${idempotencyKey} already completed, not sending again`);
+      return { ...previous, duplicate: true };
+    }
+
     // Execute transfer
     console.log(`💸 Executing transfer: ₹${amount} from ${transfer.fromAccount} to ${transfer.toAccount}`);
     
-    // TODO: Integrate with actual transfer service
-    return {
+    // TODO: Integrate with actual transfer service (send idempotencyKey so it drops repeats)
+    const result = {
       status: 'completed',
       amount,
       from: transfer.fromAccount,
       to: transfer.toAccount,
       memo: transfer.memo,
       timestamp: new Date(),
+      idempotencyKey,
     };
+    this.recordCompletedTransfer(agent.userId, idempotencyKey, result);
+    return result;
+  }
+
+  private findCompletedTransfer(userId: string, idempotencyKey: string): Record<string, unknown> | null {
+    const log: Array<{ key: string; result: Record<string, unknown> }> =
+      JSON.parse(localStorage.getItem(`agent_transfer_log_${userId}`) || '[]');
+    return log.find(entry => entry.key === idempotencyKey)?.result ?? null;
+  }
+
+  private recordCompletedTransfer(userId: string, idempotencyKey: string, result: Record<string, unknown>): void {
+    const log: Array<{ key: string; result: Record<string, unknown> }> =
+      JSON.parse(localStorage.getItem(`agent_transfer_log_${userId}`) || '[]');
+    log.unshift({ key: idempotencyKey, result });
+    localStorage.setItem(`agent_transfer_log_${userId}`, JSON.stringify(log.slice(0, MAX_TRANSFER_LOG)));
   }
 
   // ==================== HELPER METHODS ====================
@@ -822,8 +1083,80 @@ Return JSON with:
     return prompts[category] || prompts.custom;
   }
 
-  private getFieldValue(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => current?.[key], obj);
+  /**
+   * Variables visible to agent expressions. Income falls back to the user's profile
+   * when the trigger does not carry it.
+   */
+  private async buildExpressionScope(agent: CustomAgent, triggerData: any): Promise<ExpressionScope> {
+    const account = triggerData?.account ?? null;
+    const accounts = triggerData?.accounts ?? (account?.id ? { [account.id]: account } : {});
+
+    let income = triggerData?.income ?? null;
+    if (!income) {
+      try {
+        const profile = await userProfileService.getProfile(agent.userId);
+        income = profile?.income ?? null;
+      } catch (error) {
+        console.warn('Could not load income for agent expression:', error);
+      }
+    }
+
+    return {
+      transaction: triggerData?.transaction ?? null,
+      account,
+      accounts,
+      income,
+    };
+  }
+
+  /**
+   * Statically check every expression in an agent config.
+   * Returns the errors found, each tagged with where it lives in the agent.
+   */
+  validateAgent(config: Partial<CustomAgent>): ExpressionError[] {
+    const errors: ExpressionError[] = [];
+
+    const check = (source: string | undefined, expectedType: ExpressionValueType, location: string) => {
+      try {
+        compileExpression(source ?? '', expectedType);
+      } catch (error) {
+        if (!(error instanceof ExpressionError)) throw error;
+        error.location = location;
+        error.message = `${location}: ${error.message}`;
+        errors.push(error);
+      }
+    };
+
+    const checkConditions = (conditions: AgentCondition[], path: string) => {
+      conditions.forEach((condition, index) => {
+        const location = `${path}[${condition.id || index}]`;
+        if (condition.type === 'simple' && condition.simple) {
+          check(condition.simple.field, 'any', `${location}.simple.field`);
+          if (condition.simple.valueExpression) {
+            check(condition.simple.valueExpression, 'any', `${location}.simple.valueExpression`);
+          }
+        } else if (condition.type === 'compound' && condition.compound) {
+          checkConditions(condition.compound.conditions || [], `${location}.compound.conditions`);
+        }
+      });
+    };
+
+    checkConditions(config.conditions || [], 'conditions');
+
+    (config.actions || []).forEach((action, index) => {
+      if (action.type === 'transfer' && action.transfer?.amountType === 'calculated') {
+        check(action.transfer.calculation, 'number', `actions[${action.id || index}].transfer.calculation`);
+      }
+    });
+
+    return errors;
+  }
+
+  private assertValidExpressions(config: Partial<CustomAgent>): void {
+    const errors = this.validateAgent(config);
+    if (errors.length > 0) {
+      throw errors[0];
+    }
   }
 
   private evaluateOperator(value: any, operator: string, compareValue: any): boolean {
@@ -840,11 +1173,30 @@ Return JSON with:
     }
   }
 
+  /**
+   * Overall status from each action's final attempt
+   */
+  private getExecutionStatus(actionResults: ActionResult[]): AgentExecution['status'] {
+    const finalResults = [...new Map(actionResults.map(a => [a.actionId, a])).values()];
+
+    if (finalResults.some(a => a.result?.reason === 'awaiting_confirmation' || a.result?.status === 'pending_confirmation')) {
+      return 'pending_confirmation';
+    }
+
+    const successfulActions = finalResults.filter(a => a.status === 'success').length;
+    const failedActions = finalResults.filter(a => a.status === 'failed').length;
+
+    if (failedActions === 0) return 'success';
+    if (successfulActions > 0) return 'partial_success';
+    return 'failed';
+  }
+
   private calculateImpact(actionResults: any[]): number {
     let totalImpact = 0;
 
     for (const result of actionResults) {
-      if (result.status === 'success' && result.result) {
+      // Held transfers haven't moved money yet
+      if (result.status === 'success' && result.result && result.result.status !== 'pending_confirmation') {
         if (result.result.amount) {
           totalImpact += result.result.amount;
         }
@@ -859,7 +1211,7 @@ Return JSON with:
     
     if (execution.status === 'success') {
       agent.stats.successfulExecutions++;
-    } else {
+    } else if (execution.status !== 'pending_confirmation') {
       agent.stats.failedExecutions++;
     }
 
@@ -886,21 +1238,89 @@ Return JSON with:
     }
 
     localStorage.setItem(`custom_agents_${agent.userId}`, JSON.stringify(agents));
+
+    // Keep the cross-user index used by getAgent() in sync
+    const allAgents: CustomAgent[] = JSON.parse(localStorage.getItem('custom_agents') || '[]');
+    const indexPosition = allAgents.findIndex(a => a.id === agent.id);
+    if (indexPosition >= 0) {
+      allAgents[indexPosition] = agent;
+    } else {
+      allAgents.push(agent);
+    }
+    localStorage.setItem('custom_agents', JSON.stringify(allAgents));
   }
 
   async getAgent(agentId: string): Promise<CustomAgent | null> {
+    this.backfillAgentIndex();
     const allAgents = JSON.parse(localStorage.getItem('custom_agents') || '[]');
     return allAgents.find((a: CustomAgent) => a.id === agentId) || null;
   }
 
+  /**
+   * Apply partial updates to a stored agent
+   */
+  async updateAgent(agentId: string, updates: Partial<CustomAgent>): Promise<CustomAgent | null> {
+    const agent = await this.getAgent(agentId);
+    if (!agent) return null;
+
+    this.assertValidExpressions(updates);
+
+    const updated: CustomAgent = { ...agent, ...updates, updatedAt: new Date() };
+    await this.saveAgent(updated);
+    return updated;
+  }
+
   async getAllAgents(userId: string): Promise<CustomAgent[]> {
+    this.backfillAgentIndex();
     return JSON.parse(localStorage.getItem(`custom_agents_${userId}`) || '[]');
   }
 
+  /**
+   * Add agents saved before the cross-user index existed (per-user lists only)
+   * to the index, once per session
+   */
+  private backfillAgentIndex(): void {
+    if (this.agentIndexBackfilled) return;
+    this.agentIndexBackfilled = true;
+
+    try {
+      const allAgents: CustomAgent[] = JSON.parse(localStorage.getItem('custom_agents') || '[]');
+      const indexed = new Set(allAgents.map(a => a.id));
+      let added = 0;
+
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key?.startsWith('custom_agents_')) continue;
+
+        const stored = JSON.parse(localStorage.getItem(key) || '[]');
+        if (!Array.isArray(stored)) continue;
+
+        // Only per-user lists, whose agents carry that user's ID
+        const userId = key.slice('custom_agents_'.length);
+        for (const agent of stored as CustomAgent[]) {
+          if (!agent?.id || agent.userId !== userId || indexed.has(agent.id)) continue;
+          allAgents.push(agent);
+          indexed.add(agent.id);
+          added++;
+        }
+      }
+
+      if (added > 0) {
+        localStorage.setItem('custom_agents', JSON.stringify(allAgents));
+        console.log(`📇 Added ${added} existing agent(s) to the agent index`);
+      }
+    } catch (error) {
+      console.error('Error backfilling agent index:', error);
+    }
+  }
+
   async deleteAgent(agentId: string, userId: string): Promise<void> {
     const agents = await this.getAllAgents(userId);
     const filtered = agents.filter(a => a.id !== agentId);
     localStorage.setItem(`custom_agents_${userId}`, JSON.stringify(filtered));
+
+    const allAgents: CustomAgent[] = JSON.parse(localStorage.getItem('custom_agents') || '[]');
+    localStorage.setItem('custom_agents', JSON.stringify(allAgents.filter(a => a.id !== agentId)));
   }
 
   // Get all agents for a user
@@ -910,44 +1330,12 @@ Return JSON with:
 
   // Enable an agent
   async enableAgent(agentId: string): Promise<void> {
-    const agents = JSON.parse(localStorage.getItem(`custom_agents_all`) || '[]');
-    const agent = agents.find((a: CustomAgent) => a.id === agentId);
-    if (agent) {
-      agent.status = 'active';
-      agent.updatedAt = new Date();
-      localStorage.setItem(`custom_agents_all`, JSON.stringify(agents));
-      
-      // Also update user-specific storage
-      const userId = agent.userId;
-      const userAgents = await this.getAllAgents(userId);
-      const userAgent = userAgents.find(a => a.id === agentId);
-      if (userAgent) {
-        userAgent.status = 'active';
-        userAgent.updatedAt = new Date();
-        localStorage.setItem(`custom_agents_${userId}`, JSON.stringify(userAgents));
-      }
-    }
+    await this.updateAgent(agentId, { status: 'active' });
   }
 
   // Disable an agent
   async disableAgent(agentId: string): Promise<void> {
-    const agents = JSON.parse(localStorage.getItem(`custom_agents_all`) || '[]');
-    const agent = agents.find((a: CustomAgent) => a.id === agentId);
-    if (agent) {
-      agent.status = 'paused';
-      agent.updatedAt = new Date();
-      localStorage.setItem(`custom_agents_all`, JSON.stringify(agents));
-      
-      // Also update user-specific storage
-      const userId = agent.userId;
-      const userAgents = await this.getAllAgents(userId);
-      const userAgent = userAgents.find(a => a.id === agentId);
-      if (userAgent) {
-        userAgent.status = 'paused';
-        userAgent.updatedAt = new Date();
-        localStorage.setItem(`custom_agents_${userId}`, JSON.stringify(userAgents));
-      }
-    }
+    await this.updateAgent(agentId, { status: 'paused' });
   }
 
   private async saveExecution(execution: AgentExecution): Promise<void> {
@@ -956,11 +1344,525 @@ Return JSON with:
     localStorage.setItem(`agent_executions_${execution.userId}`, JSON.stringify(executions.slice(0, 100)));
   }
 
+  private async replaceExecution(execution: AgentExecution): Promise<void> {
+    const executions: AgentExecution[] = JSON.parse(localStorage.getItem(`agent_executions_${execution.userId}`) || '[]');
+    const index = executions.findIndex(e => e.id === execution.id);
+    if (index >= 0) {
+      executions[index] = execution;
+      localStorage.setItem(`agent_executions_${execution.userId}`, JSON.stringify(executions));
+    } else {
+      await this.saveExecution(execution);
+    }
+  }
+
   async getExecutions(userId: string, agentId?: string): Promise<AgentExecution[]> {
     const executions = JSON.parse(localStorage.getItem(`agent_executions_${userId}`) || '[]');
     return agentId ? executions.filter((e: AgentExecution) => e.agentId === agentId) : executions;
   }
 
+  // ==================== CONFIRMATION QUEUE ====================
+
+  private async queuePendingTransfer(
+    agent: CustomAgent,
+    execution: AgentExecution,
+    action: AgentAction,
+    result: { amount: number; from: string; to: string; memo: string },
+    triggerData: unknown,
+    remaining: AgentAction[]
+  ): Promise<PendingTransfer> {
+    const createdAt = new Date();
+    const pending: PendingTransfer = {
+      id: `PTX_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId: agent.userId,
+      agentId: agent.id,
+      agentName: agent.name,
+      executionId: execution.id,
+      actionId: action.id,
+      amount: result.amount,
+      from: result.from,
+      to: result.to,
+      memo: result.memo,
+      triggerData,
+      action,
+      remainingActions: remaining,
+      status: 'pending',
+      createdAt,
+      expiresAt: new Date(createdAt.getTime() + CONFIRMATION_EXPIRY_HOURS * 3600000),
+    };
+
+    const queue = this.loadPendingTransfers(agent.userId);
+    queue.unshift(pending);
+    this.savePendingTransfers(agent.userId, queue);
+
+    console.log(`⏸️ Transfer of ₹${pending.amount} by ${agent.name} awaiting confirmation`);
+    return pending;
+  }
+
+  /**
+   * Transfers awaiting confirmation (expired ones are marked and dropped)
+   */
+  async getPendingTransfers(userId: string): Promise<PendingTransfer[]> {
+    const queue = this.loadPendingTransfers(userId);
+    const now = Date.now();
+    let changed = false;
+
+    for (const item of queue) {
+      if (item.status === 'pending' && new Date(item.expiresAt).getTime() <= now) {
+        item.status = 'expired';
+        item.resolvedAt = new Date();
+        changed = true;
+        await this.closeExpiredExecution(item);
+      }
+    }
+
+    if (changed) {
+      this.savePendingTransfers(userId, queue);
+    }
+
+    return queue.filter(item => item.status === 'pending');
+  }
+
+  /**
+   * Approve a held transfer: complete it, then run the execution's remaining actions
+   */
+  async approvePendingTransfer(userId: string, transferId: string): Promise<AgentExecution> {
+    return this.resumePendingTransfer(userId, transferId, 'approved');
+  }
+
+  /**
+   * Reject a held transfer: skip it, then run the execution's remaining actions
+   */
+  async rejectPendingTransfer(userId: string, transferId: string): Promise<AgentExecution> {
+    return this.resumePendingTransfer(userId, transferId, 'rejected');
+  }
+
+  private async resumePendingTransfer(
+    userId: string,
+    transferId: string,
+    decision: 'approved' | 'rejected'
+  ): Promise<AgentExecution> {
+    await this.getPendingTransfers(userId); // Expire stale entries first
+
+    const queue = this.loadPendingTransfers(userId);
+    const pending = queue.find(item => item.id === transferId);
+    if (!pending) {
+      throw new Error('Pending transfer not found');
+    }
+    if (pending.status !== 'pending') {
+      throw new Error(`Transfer is already ${pending.status}`);
+    }
+    if (decision === 'approved') {
+      stepUpAuthService.requireStepUp(userId, `approve ₹${pending.amount.toLocaleString('en-IN')} transfer`, pending.amount);
+    }
+
+    const agent = await this.getAgent(pending.agentId);
+    if (!agent) {
+      throw new Error('Agent not found');
+    }
+
+    // The queued actions travel with the transfer, so a trimmed execution log doesn't block resuming
+    const execution = await this.findOrRebuildExecution(agent, pending.executionId, pending.triggerData);
+
+    // Resolve first so a double click cannot approve twice
+    pending.status = decision;
+    pending.resolvedAt = new Date();
+    this.savePendingTransfers(userId, queue);
+
+    const impactBefore = execution.impact;
+
+    if (decision === 'approved' && !agent.permissions.canTransferMoney) {
+      execution.actionsExecuted.push({
+        actionId: pending.actionId,
+        status: 'failed',
+        result: null,
+        error: 'Agent no longer has permission to transfer money',
+        timestamp: new Date(),
+      });
+    } else if (decision === 'approved' && pending.amount > agent.permissions.maxTransactionAmount) {
+      // The limit may have been lowered while the transfer waited
+      const error = new TransferLimitError(pending.amount, agent.permissions.maxTransactionAmount);
+      execution.actionsExecuted.push({
+        actionId: pending.actionId,
+        status: 'failed',
+        result: { amount: error.amount, limit: error.limit },
+        error: error.message,
+        timestamp: new Date(),
+      });
+    } else if (decision === 'approved') {
+      console.log(`💸 Executing confirmed transfer: ₹${pending.amount} from ${pending.from} to ${pending.to}`);
+
+      // TODO: Integrate with actual transfer service (send idempotencyKey so it drops repeats)
+      const idempotencyKey = `${pending.executionId}:${pending.actionId}`;
+      const result = {
+        status: 'completed',
+        amount: pending.amount,
+        from: pending.from,
+        to: pending.to,
+        memo: pending.memo,
+        timestamp: new Date(),
+        confirmedTransferId: pending.id,
+        idempotencyKey,
+      };
+      this.recordCompletedTransfer(userId, idempotencyKey, result);
+      execution.actionsExecuted.push({
+        actionId: pending.actionId,
+        status: 'success',
+        result,
+        timestamp: new Date(),
+      });
+    } else {
+      execution.actionsExecuted.push({
+        actionId: pending.actionId,
+        status: 'skipped',
+        result: { status: 'rejected', amount: pending.amount, pendingTransferId: pending.id },
+        timestamp: new Date(),
+      });
+    }
+
+    // Current configuration of each waiting action, or the queued copy if it was removed since
+    const remaining = pending.remainingActions.map(queued => agent.actions.find(a => a.id === queued.id) || queued);
+
+    let results: ActionResult[] = [];
+    if (remaining.length > 0) {
+      // Keep the original order; priorities are rewritten so executeActions doesn't reshuffle them
+      results = await this.executeActions(
+        remaining.map((a, i) => ({ ...a, priority: i })),
+        pending.triggerData,
+        agent,
+        execution
+      );
+      execution.actionsExecuted.push(...results);
+    }
+
+    execution.status = this.getExecutionStatus(execution.actionsExecuted);
+    execution.impact = this.calculateImpact(execution.actionsExecuted);
+
+    await this.deadLetterExhaustedActions(agent, execution, results, pending.triggerData);
+    await this.replaceExecution(execution);
+
+    // Count the outcome now that the execution has finished
+    if (execution.status === 'success') {
+      agent.stats.successfulExecutions++;
+    } else if (execution.status !== 'pending_confirmation') {
+      agent.stats.failedExecutions++;
+    }
+    agent.stats.totalImpact += execution.impact - impactBefore;
+    await this.saveAgent(agent);
+
+    console.log(`✅ Transfer ${decision}; execution ${execution.id} is now ${execution.status}`);
+    return execution;
+  }
+
+  /**
+   * Record an expired confirmation on its execution; remaining actions are not run
+   */
+  private async closeExpiredExecution(pending: PendingTransfer): Promise<void> {
+    const executions = await this.getExecutions(pending.userId);
+    const execution = executions.find(e => e.id === pending.executionId);
+    if (!execution) return;
+
+    execution.actionsExecuted.push({
+      actionId: pending.actionId,
+      status: 'failed',
+      result: { status: 'expired', pendingTransferId: pending.id },
+      error: 'Confirmation expired',
+      timestamp: new Date(),
+    });
+    execution.status = this.getExecutionStatus(execution.actionsExecuted);
+    await this.replaceExecution(execution);
+  }
+
+  private loadPendingTransfers(userId: string): PendingTransfer[] {
+    return JSON.parse(localStorage.getItem(`agent_pending_transfers_${userId}`) || '[]');
+  }
+
+  private savePendingTransfers(userId: string, queue: PendingTransfer[]): void {
+    // Keep every pending item; trim resolved history
+    const pending = queue.filter(item => item.status === 'pending');
+    const resolved = queue.filter(item => item.status !== 'pending').slice(0, 50);
+    localStorage.setItem(`agent_pending_transfers_${userId}`, JSON.stringify([...pending, ...resolved]));
+  }
+
+  // ==================== RETRY QUEUE ====================
+
+  /**
+   * Queue the next attempt of a failed action after its backoff delay
+   */
+  private scheduleRetry(
+    agent: CustomAgent,
+    executionId: string,
+    action: AgentAction,
+    triggerData: unknown,
+    failedAttempt: number,
+    lastError: string
+  ): ScheduledRetry {
+    const delayMs = this.getRetryDelayMs(action, failedAttempt);
+    const retry: ScheduledRetry = {
+      id: `RTY_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId: agent.userId,
+      agentId: agent.id,
+      executionId,
+      action,
+      triggerData,
+      attempt: failedAttempt + 1,
+      lastError,
+      dueAt: new Date(Date.now() + delayMs),
+    };
+
+    const queue = this.loadRetryQueue(agent.userId);
+    queue.push(retry);
+    this.saveRetryQueue(agent.userId, queue);
+
+    console.log(`🔁 Retrying action ${action.id} in ${Math.round(delayMs / 1000)}s`);
+
+    // Run on time while the app is open; the scheduler tick picks it up after a reload
+    setTimeout(() => {
+      this.processDueRetries(agent.userId).catch(error => console.error('Error running agent retries:', error));
+    }, delayMs);
+
+    return retry;
+  }
+
+  /**
+   * Run every queued retry that is due
+   */
+  async processDueRetries(userId: string, now: Date = new Date()): Promise<void> {
+    const queue = this.loadRetryQueue(userId);
+    const due = queue.filter(retry => new Date(retry.dueAt).getTime() <= now.getTime());
+    if (due.length === 0) return;
+
+    // Take them off the queue before running so an overlapping call cannot run them twice
+    this.saveRetryQueue(userId, queue.filter(retry => !due.includes(retry)));
+
+    for (const retry of due) {
+      try {
+        await this.runScheduledRetry(retry);
+      } catch (error) {
+        console.error(`Error retrying action ${retry.action.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Run one queued attempt and fold its outcome into the original execution
+   */
+  private async runScheduledRetry(retry: ScheduledRetry): Promise<void> {
+    const agent = await this.getAgent(retry.agentId);
+    if (!agent) {
+      console.warn(`⚠️ Dropping retry of ${retry.action.id}: agent ${retry.agentId} no longer exists`);
+      return;
+    }
+
+    const execution = await this.findOrRebuildExecution(agent, retry.executionId, retry.triggerData);
+    const statusBefore = execution.status;
+    const impactBefore = execution.impact;
+    const action = agent.actions.find(a => a.id === retry.action.id) || retry.action;
+
+    let results: ActionResult[];
+    if (agent.status !== 'active') {
+      // Paused agents don't act; keep the action for a manual re-run instead
+      results = [{
+        actionId: action.id,
+        status: 'failed',
+        result: null,
+        error: `Agent is ${agent.status}; retry not run`,
+        timestamp: new Date(),
+        attempt: retry.attempt,
+        deadLettered: true,
+      }];
+    } else {
+      results = await this.executeActions(
+        [{ ...action, enabled: true, priority: 0 }],
+        retry.triggerData,
+        agent,
+        execution,
+        {},
+        { attempt: retry.attempt, idempotencyScope: retry.executionId }
+      );
+    }
+    execution.actionsExecuted.push(...results);
+
+    execution.status = this.getExecutionStatus(execution.actionsExecuted);
+    execution.impact = this.calculateImpact(execution.actionsExecuted);
+
+    await this.deadLetterExhaustedActions(agent, execution, results, retry.triggerData);
+    await this.replaceExecution(execution);
+
+    // Move the execution's count if the retry changed its outcome
+    if (statusBefore !== execution.status) {
+      if (statusBefore === 'success') agent.stats.successfulExecutions--;
+      else if (statusBefore !== 'pending_confirmation') agent.stats.failedExecutions--;
+      if (execution.status === 'success') agent.stats.successfulExecutions++;
+      else if (execution.status !== 'pending_confirmation') agent.stats.failedExecutions++;
+    }
+    agent.stats.totalImpact += execution.impact - impactBefore;
+    await this.saveAgent(agent);
+  }
+
+  /**
+   * The stored execution, or a stand-in when it has been trimmed from the log
+   */
+  private async findOrRebuildExecution(agent: CustomAgent, executionId: string, triggerData: unknown): Promise<AgentExecution> {
+    const executions = await this.getExecutions(agent.userId);
+    const stored = executions.find(e => e.id === executionId);
+    if (stored) return stored;
+
+    const trigger = (triggerData ?? {}) as { type?: string; id?: string };
+
+    return {
+      id: executionId,
+      agentId: agent.id,
+      userId: agent.userId,
+      triggeredBy: {
+        triggerType: trigger.type || 'manual',
+        triggerId: trigger.id || 'manual',
+        timestamp: new Date(),
+        data: triggerData,
+      },
+      conditionsEvaluated: [],
+      actionsExecuted: [],
+      status: 'failed',
+      executionTime: 0,
+      impact: 0,
+      aiInteractions: [],
+      createdAt: new Date(),
+    };
+  }
+
+  private loadRetryQueue(userId: string): ScheduledRetry[] {
+    return JSON.parse(localStorage.getItem(`agent_retry_queue_${userId}`) || '[]');
+  }
+
+  private saveRetryQueue(userId: string, queue: ScheduledRetry[]): void {
+    localStorage.setItem(`agent_retry_queue_${userId}`, JSON.stringify(queue));
+  }
+
+  // ==================== DEAD-LETTER LIST ====================
+
+  /**
+   * Move actions from this pass that failed every retry attempt to the
+   * user's dead-letter list. Earlier passes of the execution were listed then.
+   */
+  private async deadLetterExhaustedActions(
+    agent: CustomAgent,
+    execution: AgentExecution,
+    results: ActionResult[],
+    triggerData: unknown
+  ): Promise<void> {
+    const exhausted = results.filter(a => a.deadLettered);
+    if (exhausted.length === 0) return;
+
+    const entries = await this.getDeadLetters(agent.userId);
+
+    for (const failure of exhausted) {
+      const action = agent.actions.find(a => a.id === failure.actionId);
+      if (!action) continue;
+      // One entry per action and execution, however many passes exhaust it
+      if (entries.some(e => e.executionId === execution.id && e.action.id === action.id)) continue;
+
+      entries.unshift({
+        id: `DLQ_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        userId: agent.userId,
+        agentId: agent.id,
+        agentName: agent.name,
+        executionId: execution.id,
+        action,
+        triggerData,
+        attempts: failure.attempt || 1,
+        lastError: failure.error || 'Unknown error',
+        failedAt: new Date(),
+      });
+
+      console.warn(`📥 Action ${action.id} of ${agent.name} moved to dead-letter list`);
+    }
+
+    this.saveDeadLetters(agent.userId, entries);
+  }
+
+  async getDeadLetters(userId: string): Promise<DeadLetterEntry[]> {
+    return JSON.parse(localStorage.getItem(`agent_dead_letters_${userId}`) || '[]');
+  }
+
+  /**
+   * Re-run a dead-lettered action once, using the agent's current configuration.
+   * Removed from the list on success or when the transfer is held for confirmation
+   * (status 'pending_confirmation'); otherwise the attempt count and error are updated.
+   */
+  async retryDeadLetter(userId: string, entryId: string): Promise<AgentExecution> {
+    const startTime = Date.now();
+    const entries = await this.getDeadLetters(userId);
+    const entry = entries.find(e => e.id === entryId);
+    if (!entry) {
+      throw new Error('Dead-letter entry not found');
+    }
+
+    const agent = await this.getAgent(entry.agentId);
+    if (!agent) {
+      throw new Error('Agent not found');
+    }
+
+    const action = agent.actions.find(a => a.id === entry.action.id) || entry.action;
+
+    const execution: AgentExecution = {
+      id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentId: agent.id,
+      userId: agent.userId,
+      triggeredBy: {
+        triggerType: 'dead_letter_retry',
+        triggerId: entry.id,
+        timestamp: new Date(),
+        data: entry.triggerData,
+      },
+      conditionsEvaluated: [],
+      actionsExecuted: [],
+      status: 'success',
+      executionTime: 0,
+      impact: 0,
+      aiInteractions: [],
+      createdAt: new Date(),
+    };
+
+    // Single manual attempt: no automatic retries, no new dead-letter entry.
+    // Transfers keep the original execution's key so one that did go through is not repeated.
+    execution.actionsExecuted = await this.executeActions(
+      [{ ...action, enabled: true, retry: undefined }],
+      entry.triggerData,
+      agent,
+      execution,
+      {},
+      { idempotencyScope: entry.executionId }
+    );
+
+    const outcome = execution.actionsExecuted[execution.actionsExecuted.length - 1];
+    execution.status = this.getExecutionStatus(execution.actionsExecuted);
+    execution.impact = this.calculateImpact(execution.actionsExecuted);
+    execution.executionTime = Date.now() - startTime;
+
+    // A transfer now waiting for confirmation is tracked by the confirmation queue instead
+    if (execution.status === 'success' || execution.status === 'pending_confirmation') {
+      this.saveDeadLetters(userId, entries.filter(e => e.id !== entryId));
+    } else {
+      entry.attempts++;
+      entry.lastError = outcome?.error || 'Unknown error';
+      entry.failedAt = new Date();
+      this.saveDeadLetters(userId, entries);
+    }
+
+    await this.updateAgentStats(agent, execution);
+    await this.saveExecution(execution);
+
+    return execution;
+  }
+
+  async discardDeadLetter(userId: string, entryId: string): Promise<void> {
+    const entries = await this.getDeadLetters(userId);
+    this.saveDeadLetters(userId, entries.filter(e => e.id !== entryId));
+  }
+
+  private saveDeadLetters(userId: string, entries: DeadLetterEntry[]): void {
+    localStorage.setItem(`agent_dead_letters_${userId}`, JSON.stringify(entries.slice(0, 100)));
+  }
+
   // ==================== AGENT TEMPLATES ====================
 
   getAgentTemplates(): AgentTemplate[] {
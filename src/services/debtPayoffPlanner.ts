@@ -0,0 +1,373 @@
+/**
+ * Debt Payoff Planner
+ *
+ * Plans the order in which to clear loans and credit cards with a fixed
+ * monthly budget, and compares the strategies against paying minimums only
+ *
+ * Features:
+ * - Avalanche (highest rate first), snowball (smallest balance first) and custom order
+ * - Minimums on every debt; the extra budget and freed-up minimums go to the target debt
+ * - Payoff date and interest for each debt, and a month-by-month plan
+ * - Debt-free goal for the Financial Goals page
+ */
+
+import { userProfileService, type CreditCardDebt, type LoanDetails } from './userProfileService';
+import { accountAggregatorService } from './accountAggregator';
+import { addMonths, buildAmortizationSchedule, loanPositionAt } from './loanAmortization';
+
+// ==================== TYPES ====================
+
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'custom';
+
+export interface Debt {
+  id: string;
+  name: string;
+  kind: 'loan' | 'credit_card';
+  balance: number;
+  annualRate: number; // percent
+  minimumPayment: number; // EMI for loans
+  originalAmount: number;
+}
+
+export interface DebtPayment {
+  debtId: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number;
+}
+
+export interface PayoffMonth {
+  month: number; // 1-based
+  date: Date;
+  payments: DebtPayment[];
+  extraApplied: number; // Paid above the minimums
+  totalBalance: number;
+}
+
+export interface DebtPayoff {
+  debtId: string;
+  name: string;
+  payoffMonth: number;
+  payoffDate: Date;
+  interestPaid: number;
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy | 'minimum';
+  order: string[]; // Debt ids in the order they are targeted
+  monthlyBudget: number;
+  months: PayoffMonth[];
+  debts: DebtPayoff[];
+  totalInterest: number;
+  monthsToDebtFree: number;
+  debtFreeDate: Date;
+  interestSaved: number; // Against paying minimums only
+  monthsSaved: number;
+}
+
+export interface PayoffSettings {
+  strategy: PayoffStrategy;
+  extraPayment: number; // Monthly, on top of the minimums
+  customOrder: string[];
+}
+
+export interface PayoffComparison {
+  debts: Debt[];
+  settings: PayoffSettings;
+  minimumOnly: PayoffPlan;
+  avalanche: PayoffPlan;
+  snowball: PayoffPlan;
+  custom: PayoffPlan;
+  selected: PayoffPlan;
+}
+
+export interface DebtFreeGoal {
+  id: string;
+  title: string;
+  description: string;
+  targetAmount: number;
+  currentAmount: number;
+  deadline: string;
+  category: 'debt';
+  priority: 'high';
+  monthlyContribution: number;
+}
+
+// ==================== CONSTANTS ====================
+
+const MAX_MONTHS = 600;
+const DEFAULT_CARD_RATE = 42; // Typical Indian credit card APR
+const CARD_MINIMUM_SHARE = 0.05; // Minimum due is usually 5% of the balance
+const CARD_MINIMUM_FLOOR = 200;
+
+const DEFAULT_SETTINGS: PayoffSettings = {
+  strategy: 'avalanche',
+  extraPayment: 0,
+  customOrder: [],
+};
+
+// ==================== PLANNING ====================
+
+/**
+ * Minimum due on a card; fixed at the current amount so that it rolls over
+ * once the card is cleared
+ */
+export function cardMinimumPayment(outstanding: number): number {
+  return Math.max(CARD_MINIMUM_FLOOR, Math.round(outstanding * CARD_MINIMUM_SHARE));
+}
+
+/**
+ * Order in which debts are targeted with the extra payment. Custom order
+ * falls back to avalanche for debts the user has not placed.
+ */
+export function orderDebts(debts: Debt[], strategy: PayoffStrategy, customOrder: string[] = []): Debt[] {
+  const avalanche = [...debts].sort((a, b) => b.annualRate - a.annualRate || a.balance - b.balance);
+
+  if (strategy === 'snowball') {
+    return [...debts].sort((a, b) => a.balance - b.balance || b.annualRate - a.annualRate);
+  }
+  if (strategy === 'custom') {
+    const placed = customOrder
+      .map(id => debts.find(d => d.id === id))
+      .filter((d): d is Debt => d !== undefined);
+    return [...placed, ...avalanche.filter(d => !placed.includes(d))];
+  }
+  return avalanche;
+}
+
+/**
+ * Month-by-month simulation. Every debt gets its minimum; whatever is left
+ * of the budget goes to the first unpaid debt in order, then the next.
+ * With rollover off, each debt only ever gets its own minimum.
+ */
+export function simulatePayoff(
+  debts: Debt[],
+  order: Debt[],
+  monthlyBudget: number,
+  startDate: Date = new Date(),
+  rollover: boolean = true
+): Omit<PayoffPlan, 'strategy' | 'interestSaved' | 'monthsSaved'> {
+  const balances = new Map(debts.map(d => [d.id, d.balance]));
+  const interestPaid = new Map(debts.map(d => [d.id, 0]));
+  const payoffMonth = new Map<string, number>();
+  const months: PayoffMonth[] = [];
+
+  for (let month = 1; month <= MAX_MONTHS && [...balances.values()].some(b => b > 0.5); month++) {
+    const payments = new Map<string, DebtPayment>();
+    let available = monthlyBudget;
+
+    for (const debt of debts) {
+      const balance = balances.get(debt.id) ?? 0;
+      if (balance <= 0.5) continue;
+
+      const interest = balance * (debt.annualRate / 12 / 100);
+      const payment = Math.min(debt.minimumPayment, balance + interest, Math.max(0, available));
+      available -= payment;
+      payments.set(debt.id, { debtId: debt.id, payment, interest, principal: payment - interest, balance: 0 });
+      interestPaid.set(debt.id, (interestPaid.get(debt.id) ?? 0) + interest);
+    }
+
+    let extraApplied = 0;
+    if (rollover) {
+      for (const debt of order) {
+        if (available <= 0.5) break;
+        const entry = payments.get(debt.id);
+        if (!entry) continue;
+        const owed = (balances.get(debt.id) ?? 0) + entry.interest - entry.payment;
+        const extra = Math.min(available, Math.max(0, owed));
+        entry.payment += extra;
+        entry.principal += extra;
+        available -= extra;
+        extraApplied += extra;
+      }
+    }
+
+    for (const entry of payments.values()) {
+      const balance = Math.max(0, (balances.get(entry.debtId) ?? 0) - entry.principal);
+      entry.balance = balance;
+      balances.set(entry.debtId, balance);
+      if (balance <= 0.5 && !payoffMonth.has(entry.debtId)) payoffMonth.set(entry.debtId, month);
+    }
+
+    months.push({
+      month,
+      date: addMonths(startDate, month),
+      payments: [...payments.values()].map(p => ({
+        ...p,
+        payment: Math.round(p.payment),
+        interest: Math.round(p.interest),
+        principal: Math.round(p.principal),
+        balance: Math.round(p.balance),
+      })),
+      extraApplied: Math.round(extraApplied),
+      totalBalance: Math.round([...balances.values()].reduce((sum, b) => sum + b, 0)),
+    });
+  }
+
+  const monthsToDebtFree = months.length;
+  return {
+    order: order.map(d => d.id),
+    monthlyBudget,
+    months,
+    debts: debts.map(d => {
+      const paidOff = payoffMonth.get(d.id) ?? monthsToDebtFree;
+      return {
+        debtId: d.id,
+        name: d.name,
+        payoffMonth: paidOff,
+        payoffDate: addMonths(startDate, paidOff),
+        interestPaid: Math.round(interestPaid.get(d.id) ?? 0),
+      };
+    }),
+    totalInterest: Math.round([...interestPaid.values()].reduce((sum, i) => sum + i, 0)),
+    monthsToDebtFree,
+    debtFreeDate: addMonths(startDate, monthsToDebtFree),
+  };
+}
+
+/**
+ * All strategies for a budget of the minimums plus the extra payment
+ */
+export function comparePayoffStrategies(
+  debts: Debt[],
+  settings: PayoffSettings,
+  startDate: Date = new Date()
+): PayoffComparison {
+  const minimums = debts.reduce((sum, d) => sum + d.minimumPayment, 0);
+  const budget = minimums + Math.max(0, settings.extraPayment);
+
+  const baseline = simulatePayoff(debts, debts, minimums, startDate, false);
+  const minimumOnly: PayoffPlan = { ...baseline, strategy: 'minimum', interestSaved: 0, monthsSaved: 0 };
+
+  const plan = (strategy: PayoffStrategy): PayoffPlan => {
+    const result = simulatePayoff(debts, orderDebts(debts, strategy, settings.customOrder), budget, startDate);
+    return {
+      ...result,
+      strategy,
+      interestSaved: baseline.totalInterest - result.totalInterest,
+      monthsSaved: baseline.monthsToDebtFree - result.monthsToDebtFree,
+    };
+  };
+
+  const avalanche = plan('avalanche');
+  const snowball = plan('snowball');
+  const custom = plan('custom');
+  const selected = { avalanche, snowball, custom }[settings.strategy];
+
+  return { debts, settings, minimumOnly, avalanche, snowball, custom, selected };
+}
+
+/**
+ * Debt-free goal for the Financial Goals page. Progress is principal repaid
+ * against the amount originally borrowed.
+ */
+export function buildDebtFreeGoal(comparison: PayoffComparison): DebtFreeGoal | null {
+  const { debts, selected } = comparison;
+  if (debts.length === 0) return null;
+
+  const targetAmount = Math.round(debts.reduce((sum, d) => sum + Math.max(d.originalAmount, d.balance), 0));
+  const outstanding = debts.reduce((sum, d) => sum + d.balance, 0);
+  const currentAmount = Math.round(targetAmount - outstanding);
+  const strategyName = { avalanche: 'Avalanche', snowball: 'Snowball', custom: 'Custom order' }[
+    comparison.settings.strategy
+  ];
+
+  return {
+    id: 'debt-free',
+    title: 'Debt-Free',
+    description:
+      `${strategyName} plan · ₹${selected.monthlyBudget.toLocaleString('en-IN')}/month · ` +
+      `saves ₹${selected.interestSaved.toLocaleString('en-IN')} interest`,
+    targetAmount,
+    currentAmount,
+    deadline: selected.debtFreeDate.toISOString().slice(0, 10),
+    category: 'debt',
+    priority: 'high',
+    // Principal cleared per month, so time to goal matches the plan
+    monthlyContribution: Math.ceil(outstanding / Math.max(1, selected.monthsToDebtFree)),
+  };
+}
+
+// ==================== SERVICE CLASS ====================
+
+export class DebtPayoffPlanner {
+  /**
+   * Loans from the profile at today's balance and rate, and credit cards from
+   * the profile or, failing that, linked credit card accounts
+   */
+  async getDebts(userId: string): Promise<Debt[]> {
+    const profile = await userProfileService.getProfile(userId);
+    if (!profile) return [];
+
+    const loans = [...profile.deductions.homeLoan, ...profile.deductions.otherLoans]
+      .map(loan => this.loanDebt(loan))
+      .filter((d): d is Debt => d !== null);
+
+    let cards: CreditCardDebt[] = profile.creditCards ?? [];
+    if (cards.length === 0) {
+      const accounts = await accountAggregatorService.getUserAccounts(userId);
+      cards = accounts
+        .filter(a => a.accountType === 'credit_card' && a.balance < 0)
+        .map(a => ({
+          id: a.id,
+          issuer: `${a.institutionName} ${a.accountNumber}`,
+          outstanding: -a.balance,
+          annualRate: DEFAULT_CARD_RATE,
+          minimumPayment: cardMinimumPayment(-a.balance),
+        }));
+    }
+
+    return [
+      ...loans,
+      ...cards
+        .filter(card => card.outstanding > 0)
+        .map(card => ({
+          id: `card-${card.id}`,
+          name: card.issuer,
+          kind: 'credit_card' as const,
+          balance: card.outstanding,
+          annualRate: card.annualRate || DEFAULT_CARD_RATE,
+          minimumPayment: card.minimumPayment || cardMinimumPayment(card.outstanding),
+          originalAmount: card.outstanding,
+        })),
+    ];
+  }
+
+  getSettings(userId: string): PayoffSettings {
+    const stored = localStorage.getItem(`debt_payoff_${userId}`);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : { ...DEFAULT_SETTINGS };
+  }
+
+  saveSettings(userId: string, settings: PayoffSettings): void {
+    localStorage.setItem(`debt_payoff_${userId}`, JSON.stringify(settings));
+  }
+
+  /**
+   * Compare strategies with the saved settings, or the ones given
+   */
+  async getPlan(userId: string, settings?: PayoffSettings): Promise<PayoffComparison> {
+    const debts = await this.getDebts(userId);
+    return comparePayoffStrategies(debts, settings ?? this.getSettings(userId));
+  }
+
+  private loanDebt(loan: LoanDetails): Debt | null {
+    const schedule = buildAmortizationSchedule(loan);
+    const position = loanPositionAt(schedule);
+    if (position.outstanding <= 0) return null;
+
+    const next = schedule.rows[schedule.months - position.remainingMonths];
+    return {
+      id: `loan-${loan.id}`,
+      name: `${loan.loanType} · ${loan.bankName}`,
+      kind: 'loan',
+      balance: position.outstanding,
+      annualRate: next?.annualRate ?? loan.interestRate,
+      minimumPayment: Math.round(next?.emi ?? loan.emi),
+      originalAmount: loan.principalAmount,
+    };
+  }
+}
+
+// Export singleton instance
+export const debtPayoffPlanner = new DebtPayoffPlanner();
@@ -0,0 +1,271 @@
+/**
+ * Dividend Reinvestment Agent Executor
+ *
+ * Turns dividends credited by the corporate actions service into buy
+ * proposals for the paying security, with user consent based on agent
+ * configuration
+ *
+ * Features:
+ * - Reinvests the net dividend (after TDS) at the latest known price
+ * - Skips dividends below the configured minimum
+ * - Whole units for exchange-traded securities, fractional for mutual funds
+ * - Honors the agent's execution mode (notify, ask permission, auto)
+ */
+
+import {
+  createAgentExecution,
+  getUserAgents,
+  getApprovedExecutions,
+  completeExecution,
+  type Agent,
+} from './agentMarketplace';
+import { sendAgentApprovalEmail } from './emailService';
+import { logActivity, ActivityType } from './activityLogger';
+import { holdingsLedger } from './holdingsLedger';
+import { marketDataService } from './marketDataProvider';
+import type { CorporateActionRecord } from './corporateActionsService';
+import type { AssetType } from './portfolioService';
+
+// ==================== TYPES ====================
+
+export interface ReinvestmentProposal {
+  symbol: string;
+  assetType: AssetType;
+  dividendRecordId: string;
+  cash: number; // net dividend
+  price: number;
+  quantity: number;
+  leftover: number; // cash left after buying whole units
+}
+
+// ==================== CONFIGURATION ====================
+
+const DEFAULT_MIN_AMOUNT = 500;
+
+// Assets bought in fractional units
+const FRACTIONAL_TYPES: AssetType[] = ['mutual_funds', 'crypto'];
+
+// ==================== PLANNING ====================
+
+/**
+ * Reinvestment proposals for credited dividends. Dividends without a known
+ * price or too small to buy a unit are left as cash.
+ */
+export function buildReinvestmentProposals(
+  dividends: CorporateActionRecord[],
+  prices: Record<string, number>,
+  minAmount: number = DEFAULT_MIN_AMOUNT
+): ReinvestmentProposal[] {
+  return dividends.flatMap(record => {
+    const cash = record.netAmount ?? 0;
+    const price = prices[record.symbol];
+    if (record.type !== 'dividend' || cash < minAmount || !(price > 0)) return [];
+
+    const units = cash / price;
+    const quantity = FRACTIONAL_TYPES.includes(record.assetType)
+      ? Math.floor(units * 1000) / 1000
+      : Math.floor(units);
+    if (quantity <= 0) return [];
+
+    return [{
+      symbol: record.symbol,
+      assetType: record.assetType,
+      dividendRecordId: record.id,
+      cash,
+      price,
+      quantity,
+      leftover: Math.round((cash - quantity * price) * 100) / 100,
+    }];
+  });
+}
+
+// ==================== EXECUTION ====================
+
+/**
+ * Execute Dividend Reinvestment Agent logic
+ * Runs approved reinvestments, then proposes new ones for the given dividends
+ */
+export async function executeDividendReinvestmentAgent(
+  userId: string,
+  agent: Agent,
+  dividends: CorporateActionRecord[]
+): Promise<void> {
+  try {
+    console.log(`🤖 Executing Dividend Reinvestment Agent for user ${userId}`);
+
+    await runApprovedReinvestments(userId, agent);
+
+    const prices = await getPrices(dividends.map(d => d.symbol));
+    const proposals = buildReinvestmentProposals(
+      dividends,
+      prices,
+      agent.config.reinvestMinAmount ?? DEFAULT_MIN_AMOUNT
+    );
+
+    if (proposals.length === 0) {
+      console.log('No dividends large enough to reinvest');
+      return;
+    }
+
+    const amount = Math.round(proposals.reduce((sum, p) => sum + p.quantity * p.price, 0));
+    const action = `Reinvest ₹${amount.toLocaleString('en-IN')} of dividends in ${describeSymbols(proposals)}`;
+    const details = proposals
+      .map(p =>
+        `Buy ${p.quantity} ${p.symbol} @ ₹${p.price.toLocaleString('en-IN')} ` +
+        `from a ₹${p.cash.toLocaleString('en-IN')} dividend`
+      )
+      .join('\n');
+    const recommendation =
+      'Reinvesting dividends compounds returns. Any amount too small for a whole unit stays as cash.';
+    const metadata = { amount, proposals };
+
+    if (agent.executionMode === 'notify') {
+      const execution = await createAgentExecution(
+        agent.id, userId, 'dividend_reinvestment', action, details, recommendation, false, metadata
+      );
+      await completeExecution(execution.id, 'completed', { notified: true });
+
+      await logActivity({
+        userId,
+        type: ActivityType.AI_RECOMMENDATION_RECEIVED,
+        description: `Dividends of ₹${amount.toLocaleString('en-IN')} can be reinvested in ${describeSymbols(proposals)}`,
+        severity: 'low',
+        metadata: { agentId: agent.id, executionId: execution.id, ...metadata },
+      });
+    } else if (agent.executionMode === 'ask_permission') {
+      const execution = await createAgentExecution(
+        agent.id, userId, 'dividend_reinvestment', action, details, recommendation, true, metadata
+      );
+
+      await sendAgentApprovalEmail(
+        userId,
+        agent.name,
+        action,
+        details,
+        recommendation,
+        `${window.location.origin}/agents/approvals`
+      );
+
+      await logActivity({
+        userId,
+        type: ActivityType.AI_RECOMMENDATION_RECEIVED,
+        description: `Approval requested for reinvesting dividends in ${describeSymbols(proposals)}`,
+        severity: 'low',
+        metadata: { agentId: agent.id, executionId: execution.id },
+      });
+    } else if (agent.executionMode === 'auto') {
+      const execution = await createAgentExecution(
+        agent.id, userId, 'dividend_reinvestment', action, details, recommendation, false, metadata
+      );
+      await runReinvestment(userId, agent, execution.id, proposals);
+    }
+  } catch (error) {
+    console.error('Error executing Dividend Reinvestment Agent:', error);
+  }
+}
+
+/**
+ * Run the user's Dividend Reinvestment Agent if one is active
+ */
+export async function checkAndExecuteDividendReinvestmentAgent(
+  userId: string,
+  dividends: CorporateActionRecord[]
+): Promise<void> {
+  try {
+    const agents = await getUserAgents(userId);
+    const dividendAgent = agents.find(
+      agent => agent.type === 'dividend_reinvestment' && agent.status === 'active'
+    );
+
+    if (!dividendAgent) {
+      console.log('No active Dividend Reinvestment Agent found');
+      return;
+    }
+
+    await executeDividendReinvestmentAgent(userId, dividendAgent, dividends);
+  } catch (error) {
+    console.error('Error executing dividend reinvestment agent:', error);
+  }
+}
+
+/**
+ * Run reinvestments the user approved since the last run
+ */
+async function runApprovedReinvestments(userId: string, agent: Agent): Promise<void> {
+  const approved = await getApprovedExecutions(userId, 'dividend_reinvestment');
+  for (const execution of approved.filter(e => e.agentId === agent.id)) {
+    const proposals = (execution.metadata?.proposals ?? []) as ReinvestmentProposal[];
+    await runReinvestment(userId, agent, execution.id, proposals);
+  }
+}
+
+/**
+ * Buy the proposed units at the proposal price
+ */
+async function runReinvestment(
+  userId: string,
+  agent: Agent,
+  executionId: string,
+  proposals: ReinvestmentProposal[]
+): Promise<void> {
+  const bought: Array<{ symbol: string; quantity: number; price: number }> = [];
+
+  try {
+    for (const proposal of proposals) {
+      await holdingsLedger.recordBuy(userId, {
+        symbol: proposal.symbol,
+        assetType: proposal.assetType,
+        quantity: proposal.quantity,
+        price: proposal.price,
+        source: 'dividend_reinvestment',
+      });
+      bought.push({ symbol: proposal.symbol, quantity: proposal.quantity, price: proposal.price });
+    }
+
+    await completeExecution(executionId, 'completed', { bought });
+
+    await logActivity({
+      userId,
+      type: ActivityType.AGENT_EXECUTED,
+      description: `Reinvested dividends in ${describeSymbols(proposals)}`,
+      severity: 'low',
+      metadata: { agentId: agent.id, executionId, bought },
+    });
+
+    console.log(`✅ Dividend reinvestment completed for ${describeSymbols(proposals)}`);
+  } catch (error) {
+    console.error('Error running dividend reinvestment:', error);
+    await completeExecution(
+      executionId,
+      'failed',
+      { bought },
+      error instanceof Error ? error.message : 'Reinvestment failed'
+    );
+  }
+}
+
+/**
+ * Latest known prices, falling back to a live quote
+ */
+async function getPrices(symbols: string[]): Promise<Record<string, number>> {
+  const prices: Record<string, number> = {};
+  const lastPrices = holdingsLedger.getLastPrices();
+
+  for (const symbol of new Set(symbols)) {
+    if (lastPrices[symbol]) {
+      prices[symbol] = lastPrices[symbol];
+      continue;
+    }
+    const quote = await marketDataService.getQuote(symbol, 'stock');
+    if (quote) {
+      prices[symbol] = quote.price;
+      holdingsLedger.setLastPrices({ [symbol]: quote.price });
+    }
+  }
+
+  return prices;
+}
+
+function describeSymbols(proposals: ReinvestmentProposal[]): string {
+  return [...new Set(proposals.map(p => p.symbol))].join(', ');
+}
@@ -622,9 +622,11 @@ Be informative, unbiased, and focused on long-term wealth creation.`,
           id: 'has_surplus',
           type: 'simple',
           simple: {
-            field: 'monthlyIncome',
+            // Expenses aren't readable by agent expressions; the savings-rate
+            // trigger covers spending, this checks income covers the budget
+            field: 'income.monthlySalary',
             operator: '>',
-            value: 'monthlyExpenses',
+            value: config.monthlyInvestmentBudget || 0,
           },
         },
         {
@@ -0,0 +1,749 @@
+/**
+ * Holdings Ledger Service
+ *
+ * Lot-level record of every buy and sell; the single source of holdings for
+ * the portfolio page, the stock monitoring agent and the auto-sell agent
+ *
+ * Features:
+ * - Buy/sell transactions with date, price, quantity and fees
+ * - Splits and bonus issues adjust lots in place
+ * - FIFO or specific-lot matching on sells
+ * - Realized P&L per matched lot, unrealized P&L on open lots
+ * - Realized capital gain lots recorded for every sell
+ * - Last known market prices shared across agents
+ * - One-time import of the older averaged-price holdings
+ * - Firestore persistence with LocalStorage fallback
+ */
+
+import { collection, doc, setDoc, getDocs, deleteDoc, query, where, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { AssetType } from './portfolioService';
+import { capitalGainsService, classifyAsset, type CapitalAssetClass, type SaleSource } from './capitalGainsService';
+
+// ==================== TYPES ====================
+
+export type LedgerSide = 'buy' | 'sell' | 'split' | 'bonus';
+
+export type LedgerSource = SaleSource | 'stock_monitor' | 'import' | 'corporate_action' | 'dividend_reinvestment';
+
+export interface LotSelection {
+  lotId: string; // ID of the buy transaction that opened the lot
+  quantity: number;
+}
+
+export interface LedgerTransaction {
+  id: string;
+  userId: string;
+  symbol: string;
+  name: string;
+  assetType: AssetType;
+  exchange?: string;
+  side: LedgerSide;
+  quantity: number; // units added by a split or bonus when recorded; replay derives them from the ratio
+  price: number; // per unit
+  fees: number; // total for the transaction
+  date: Date;
+  dateUnknown?: boolean; // imported without a purchase date; `date` is only an upper bound
+  lotSelections?: LotSelection[]; // specific-lot sells; FIFO when absent
+  ratio?: number; // split: new units per old unit; bonus: bonus units per unit held
+  corporateActionId?: string;
+  source: LedgerSource;
+  tradeId?: string;
+  createdAt: Date;
+}
+
+export interface Lot {
+  id: string;
+  symbol: string;
+  name: string;
+  assetType: AssetType;
+  exchange?: string;
+  acquiredAt: Date;
+  acquiredAtUnknown?: boolean;
+  quantity: number; // bought
+  remaining: number;
+  price: number;
+  fees: number; // buy fees for the whole lot
+}
+
+export interface LotMatch {
+  lotId: string;
+  quantity: number;
+  acquiredAt: Date;
+  buyPrice: number;
+  buyFees: number; // pro-rata share of the lot's fees
+  sellPrice: number;
+  sellFees: number; // pro-rata share of the sell fees
+  realizedPnl: number;
+}
+
+export interface RealizedTrade {
+  transactionId: string;
+  symbol: string;
+  name: string;
+  assetType: AssetType;
+  soldAt: Date;
+  quantity: number;
+  price: number;
+  fees: number;
+  matches: LotMatch[];
+  realizedPnl: number;
+}
+
+export interface LedgerHolding {
+  symbol: string;
+  name: string;
+  assetType: AssetType;
+  exchange?: string;
+  quantity: number;
+  averageCost: number; // per unit incl. buy fees, open lots only
+  invested: number;
+  firstAcquiredAt: Date;
+  openLots: Lot[];
+  currentPrice: number | null;
+  marketValue: number | null;
+  unrealizedPnl: number | null;
+  unrealizedPnlPercent: number | null;
+  realizedPnl: number;
+}
+
+export interface BuyInput {
+  symbol: string;
+  name?: string;
+  assetType: AssetType;
+  exchange?: string;
+  quantity: number;
+  price: number;
+  fees?: number;
+  date?: Date;
+  source?: LedgerSource;
+}
+
+export interface CorporateActionInput {
+  symbol: string;
+  kind: 'split' | 'bonus';
+  ratio: number;
+  date: Date; // ex-date; lots acquired before it are adjusted
+  corporateActionId: string;
+}
+
+export interface SellInput {
+  symbol: string;
+  quantity: number;
+  price: number;
+  fees?: number;
+  date?: Date;
+  lotSelections?: LotSelection[];
+  source?: SaleSource;
+  tradeId?: string;
+}
+
+export class HoldingsLedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HoldingsLedgerError';
+  }
+}
+
+// ==================== CONSTANTS ====================
+
+const LEDGER_COLLECTION = 'holdings_ledger';
+const LAST_PRICES_KEY = 'holdings_last_prices';
+const QUANTITY_EPSILON = 1e-9;
+
+// ==================== MATCHING ====================
+
+export function normalizeSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase();
+}
+
+function unitCost(lot: Lot): number {
+  return lot.price + (lot.quantity > 0 ? lot.fees / lot.quantity : 0);
+}
+
+/**
+ * Pick the lots a sell consumes: the listed lots for a specific-lot sell,
+ * otherwise oldest first. Does not modify the lots.
+ */
+export function matchLots(
+  openLots: Lot[],
+  sell: { quantity: number; price: number; fees?: number; lotSelections?: LotSelection[] }
+): LotMatch[] {
+  const picks: Array<{ lot: Lot; quantity: number }> = [];
+
+  if (sell.lotSelections && sell.lotSelections.length > 0) {
+    const selected = sell.lotSelections.reduce((sum, s) => sum + s.quantity, 0);
+    if (Math.abs(selected - sell.quantity) > QUANTITY_EPSILON) {
+      throw new HoldingsLedgerError(`Selected lots add up to ${selected}, not the ${sell.quantity} being sold`);
+    }
+    for (const selection of sell.lotSelections) {
+      const lot = openLots.find(l => l.id === selection.lotId);
+      if (!lot) throw new HoldingsLedgerError(`Lot ${selection.lotId} is not open for this holding`);
+      if (selection.quantity > lot.remaining + QUANTITY_EPSILON) {
+        throw new HoldingsLedgerError(`Lot ${selection.lotId} only has ${lot.remaining} left`);
+      }
+      picks.push({ lot, quantity: selection.quantity });
+    }
+  } else {
+    let left = sell.quantity;
+    const fifo = [...openLots].sort((a, b) => a.acquiredAt.getTime() - b.acquiredAt.getTime());
+    for (const lot of fifo) {
+      if (left <= QUANTITY_EPSILON) break;
+      const quantity = Math.min(left, lot.remaining);
+      if (quantity > 0) picks.push({ lot, quantity });
+      left -= quantity;
+    }
+    if (left > QUANTITY_EPSILON) {
+      const held = openLots.reduce((sum, l) => sum + l.remaining, 0);
+      throw new HoldingsLedgerError(`Cannot sell ${sell.quantity}; only ${held} held`);
+    }
+  }
+
+  const sellFees = sell.fees ?? 0;
+  return picks.map(({ lot, quantity }) => {
+    const buyFees = lot.quantity > 0 ? (lot.fees * quantity) / lot.quantity : 0;
+    const feeShare = sell.quantity > 0 ? (sellFees * quantity) / sell.quantity : 0;
+    return {
+      lotId: lot.id,
+      quantity,
+      acquiredAt: lot.acquiredAt,
+      buyPrice: lot.price,
+      buyFees,
+      sellPrice: sell.price,
+      sellFees: feeShare,
+      realizedPnl: quantity * (sell.price - lot.price) - buyFees - feeShare,
+    };
+  });
+}
+
+/**
+ * Replay transactions in date order into lots and realized trades
+ */
+export function replayLedger(transactions: LedgerTransaction[]): { lots: Lot[]; realized: RealizedTrade[] } {
+  const ordered = [...transactions].sort(
+    (a, b) => a.date.getTime() - b.date.getTime() || a.createdAt.getTime() - b.createdAt.getTime()
+  );
+  const lots: Lot[] = [];
+  const realized: RealizedTrade[] = [];
+
+  for (const tx of ordered) {
+    if (tx.side === 'split') {
+      // Same cost and acquisition date spread over more units
+      for (const lot of lots) {
+        if (lot.symbol !== tx.symbol || lot.acquiredAt >= tx.date) continue;
+        const ratio = tx.ratio ?? 1;
+        lot.quantity *= ratio;
+        lot.remaining *= ratio;
+        lot.price /= ratio;
+      }
+      continue;
+    }
+
+    if (tx.side === 'bonus') {
+      // Bonus units are a new lot at zero cost, acquired on the allotment date.
+      // Like splits, they follow from what is held at that point of the replay,
+      // so a backdated buy or sell changes them.
+      const held = lots
+        .filter(l => l.symbol === tx.symbol && l.acquiredAt < tx.date)
+        .reduce((sum, l) => sum + l.remaining, 0);
+      const quantity = tx.ratio !== undefined ? Math.floor(held * tx.ratio + QUANTITY_EPSILON) : tx.quantity;
+      if (quantity > 0) {
+        lots.push({
+          id: tx.id,
+          symbol: tx.symbol,
+          name: tx.name,
+          assetType: tx.assetType,
+          exchange: tx.exchange,
+          acquiredAt: tx.date,
+          quantity,
+          remaining: quantity,
+          price: 0,
+          fees: 0,
+        });
+      }
+      continue;
+    }
+
+    if (tx.side === 'buy') {
+      lots.push({
+        id: tx.id,
+        symbol: tx.symbol,
+        name: tx.name,
+        assetType: tx.assetType,
+        exchange: tx.exchange,
+        acquiredAt: tx.date,
+        acquiredAtUnknown: tx.dateUnknown,
+        quantity: tx.quantity,
+        remaining: tx.quantity,
+        price: tx.price,
+        fees: tx.fees,
+      });
+      continue;
+    }
+
+    const openLots = lots.filter(l => l.symbol === tx.symbol && l.remaining > QUANTITY_EPSILON);
+    const matches = matchLots(openLots, tx);
+    for (const match of matches) {
+      const lot = lots.find(l => l.id === match.lotId)!;
+      lot.remaining -= match.quantity;
+    }
+
+    realized.push({
+      transactionId: tx.id,
+      symbol: tx.symbol,
+      name: tx.name,
+      assetType: tx.assetType,
+      soldAt: tx.date,
+      quantity: tx.quantity,
+      price: tx.price,
+      fees: tx.fees,
+      matches,
+      realizedPnl: matches.reduce((sum, m) => sum + m.realizedPnl, 0),
+    });
+  }
+
+  return { lots, realized };
+}
+
+/**
+ * Units of a symbol held just before a date (e.g. a corporate action's ex-date)
+ */
+export function quantityHeldBefore(transactions: LedgerTransaction[], symbol: string, date: Date): number {
+  const key = normalizeSymbol(symbol);
+  const { lots } = replayLedger(transactions.filter(t => t.date < date));
+  return lots.filter(l => l.symbol === key).reduce((sum, l) => sum + l.remaining, 0);
+}
+
+/**
+ * Aggregate open lots into holdings, valued at the given prices
+ */
+export function buildHoldings(
+  lots: Lot[],
+  realized: RealizedTrade[],
+  prices: Record<string, number> = {}
+): LedgerHolding[] {
+  const bySymbol = new Map<string, Lot[]>();
+  for (const lot of lots) {
+    if (lot.remaining <= QUANTITY_EPSILON) continue;
+    bySymbol.set(lot.symbol, [...(bySymbol.get(lot.symbol) ?? []), lot]);
+  }
+
+  return [...bySymbol.entries()].map(([symbol, openLots]) => {
+    const quantity = openLots.reduce((sum, l) => sum + l.remaining, 0);
+    const invested = openLots.reduce((sum, l) => sum + l.remaining * unitCost(l), 0);
+    const latest = openLots[openLots.length - 1];
+    const currentPrice = prices[symbol] ?? null;
+    const marketValue = currentPrice !== null ? quantity * currentPrice : null;
+    const unrealizedPnl = marketValue !== null ? marketValue - invested : null;
+
+    return {
+      symbol,
+      name: latest.name,
+      assetType: latest.assetType,
+      exchange: latest.exchange,
+      quantity,
+      averageCost: quantity > 0 ? invested / quantity : 0,
+      invested,
+      firstAcquiredAt: openLots.reduce((min, l) => (l.acquiredAt < min ? l.acquiredAt : min), openLots[0].acquiredAt),
+      openLots,
+      currentPrice,
+      marketValue,
+      unrealizedPnl,
+      unrealizedPnlPercent: unrealizedPnl !== null && invested > 0 ? (unrealizedPnl / invested) * 100 : null,
+      realizedPnl: realized.filter(r => r.symbol === symbol).reduce((sum, r) => sum + r.realizedPnl, 0),
+    };
+  });
+}
+
+/**
+ * Union of two transaction lists by ID; the first list wins on conflicts
+ */
+export function mergeTransactions(primary: LedgerTransaction[], secondary: LedgerTransaction[]): LedgerTransaction[] {
+  const ids = new Set(primary.map(t => t.id));
+  return [...primary, ...secondary.filter(t => !ids.has(t.id))];
+}
+
+/**
+ * Capital gains class of a lot; foreign-listed shares are taxed as unlisted
+ */
+function capitalAssetClassFor(assetType: AssetType, exchange?: string): CapitalAssetClass | null {
+  if (assetType === 'stocks' && (exchange === 'NASDAQ' || exchange === 'NYSE')) return 'unlisted_equity';
+  return classifyAsset(assetType);
+}
+
+// ==================== SERVICE CLASS ====================
+
+export class HoldingsLedgerService {
+  /**
+   * Every ledger transaction for the user, oldest first. Transactions that
+   * only reached local storage (a failed Firestore write) are kept.
+   */
+  async getTransactions(userId: string): Promise<LedgerTransaction[]> {
+    await this.ensureMigrated(userId);
+
+    const local = this.getLocalTransactions(userId);
+    let transactions = local;
+    try {
+      const q = query(collection(db, LEDGER_COLLECTION), where('userId', '==', userId));
+      const snapshot = await getDocs(q);
+      if (!snapshot.empty) {
+        const remote = snapshot.docs.map(d => {
+          const data = d.data();
+          return {
+            ...data,
+            id: d.id,
+            date: data.date?.toDate() || new Date(),
+            createdAt: data.createdAt?.toDate() || new Date(),
+          } as LedgerTransaction;
+        });
+        transactions = mergeTransactions(remote, local);
+        // Sync local storage
+        localStorage.setItem(`holdings_ledger_${userId}`, JSON.stringify(transactions));
+      }
+    } catch (error) {
+      console.warn('Firestore ledger fetch failed, using local fallback:', error);
+    }
+
+    return transactions.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Record a purchase as a new lot
+   */
+  async recordBuy(userId: string, input: BuyInput): Promise<LedgerTransaction> {
+    if (input.quantity <= 0 || input.price < 0) {
+      throw new HoldingsLedgerError('Quantity must be positive and price cannot be negative');
+    }
+
+    await this.ensureMigrated(userId);
+
+    const symbol = normalizeSymbol(input.symbol);
+    const tx = this.createTransaction(userId, {
+      symbol,
+      name: input.name || symbol,
+      assetType: input.assetType,
+      exchange: input.exchange,
+      side: 'buy',
+      quantity: input.quantity,
+      price: input.price,
+      fees: input.fees ?? 0,
+      date: input.date ?? new Date(),
+      source: input.source ?? 'manual',
+    });
+
+    await this.saveTransactions(userId, [tx]);
+    console.log(`📗 Ledger: bought ${tx.quantity} ${symbol} @ ₹${tx.price}`);
+    return tx;
+  }
+
+  /**
+   * Record a sale, matching lots FIFO or by the given selections, and store
+   * the realized capital gain of every matched lot. A sale with a trade ID
+   * already in the ledger returns the recorded trade.
+   */
+  async recordSell(userId: string, input: SellInput): Promise<RealizedTrade> {
+    if (input.quantity <= 0 || input.price < 0) {
+      throw new HoldingsLedgerError('Quantity must be positive and price cannot be negative');
+    }
+
+    const symbol = normalizeSymbol(input.symbol);
+    const transactions = await this.getTransactions(userId);
+    const { lots, realized: previous } = replayLedger(transactions);
+
+    // A retried broker trade is recorded once
+    const recorded = input.tradeId
+      ? transactions.find(t => t.side === 'sell' && t.tradeId === input.tradeId)
+      : undefined;
+    const recordedTrade = recorded && previous.find(r => r.transactionId === recorded.id);
+    if (recordedTrade) return recordedTrade;
+
+    const holdingLot = [...lots].reverse().find(l => l.symbol === symbol);
+    if (!holdingLot) {
+      throw new HoldingsLedgerError(`No holding found for ${symbol}`);
+    }
+
+    const tx = this.createTransaction(userId, {
+      symbol,
+      name: holdingLot.name,
+      assetType: holdingLot.assetType,
+      exchange: holdingLot.exchange,
+      side: 'sell',
+      quantity: input.quantity,
+      price: input.price,
+      fees: input.fees ?? 0,
+      date: input.date ?? new Date(),
+      lotSelections: input.lotSelections,
+      source: input.source ?? 'manual',
+      tradeId: input.tradeId,
+    });
+
+    // Replaying with the new sell validates quantities and lot selections
+    const { realized } = replayLedger([...transactions, tx]);
+    const trade = realized.find(r => r.transactionId === tx.id)!;
+
+    await this.saveTransactions(userId, [tx]);
+
+    const assetClass = capitalAssetClassFor(tx.assetType, tx.exchange);
+    if (assetClass) {
+      for (const match of trade.matches) {
+        await capitalGainsService.recordSale(
+          userId,
+          {
+            assetName: tx.name,
+            ticker: symbol,
+            assetClass,
+            quantity: match.quantity,
+            buyPrice: match.buyPrice,
+            sellPrice: match.sellPrice,
+            acquiredAt: match.acquiredAt,
+            soldAt: tx.date,
+            buyFees: match.buyFees,
+            sellFees: match.sellFees,
+          },
+          input.source ?? 'manual',
+          input.tradeId
+        );
+      }
+    }
+
+    console.log(`📕 Ledger: sold ${tx.quantity} ${symbol} @ ₹${tx.price}, realized ₹${Math.round(trade.realizedPnl)}`);
+    return trade;
+  }
+
+  /**
+   * Apply a split or bonus issue to the lots held before its ex-date. Returns
+   * null when nothing was held or the action was already applied.
+   */
+  async recordCorporateAction(userId: string, input: CorporateActionInput): Promise<LedgerTransaction | null> {
+    const symbol = normalizeSymbol(input.symbol);
+    const transactions = await this.getTransactions(userId);
+    if (transactions.some(t => t.corporateActionId === input.corporateActionId)) return null;
+
+    const held = quantityHeldBefore(transactions, symbol, input.date);
+    if (held <= 0) return null;
+
+    const lastLot = [...replayLedger(transactions).lots].reverse().find(l => l.symbol === symbol)!;
+    const added = input.kind === 'split' ? held * (input.ratio - 1) : Math.floor(held * input.ratio);
+    const tx = this.createTransaction(userId, {
+      symbol,
+      name: lastLot.name,
+      assetType: lastLot.assetType,
+      exchange: lastLot.exchange,
+      side: input.kind,
+      quantity: added,
+      price: 0,
+      fees: 0,
+      date: input.date,
+      ratio: input.ratio,
+      corporateActionId: input.corporateActionId,
+      source: 'corporate_action',
+    });
+
+    await this.saveTransactions(userId, [tx]);
+
+    console.log(`🔀 Ledger: ${input.kind} ${input.ratio} for ${symbol}, ${added} units added`);
+    return tx;
+  }
+
+  /**
+   * Remove every transaction of a symbol (for correcting data entry)
+   */
+  async removeSymbol(userId: string, symbol: string): Promise<void> {
+    const key = normalizeSymbol(symbol);
+    const transactions = await this.getTransactions(userId);
+    const removed = transactions.filter(t => t.symbol === key);
+
+    localStorage.setItem(
+      `holdings_ledger_${userId}`,
+      JSON.stringify(this.getLocalTransactions(userId).filter(t => t.symbol !== key))
+    );
+
+    for (const tx of removed) {
+      try {
+        await deleteDoc(doc(db, LEDGER_COLLECTION, tx.id));
+      } catch (error) {
+        console.warn('Firestore ledger delete failed, but removed locally:', error);
+      }
+    }
+  }
+
+  /**
+   * Current holdings, valued at the last known prices
+   */
+  async getHoldings(userId: string): Promise<LedgerHolding[]> {
+    const { lots, realized } = replayLedger(await this.getTransactions(userId));
+    return buildHoldings(lots, realized, this.getLastPrices());
+  }
+
+  async getHolding(userId: string, symbol: string): Promise<LedgerHolding | null> {
+    const key = normalizeSymbol(symbol);
+    return (await this.getHoldings(userId)).find(h => h.symbol === key) ?? null;
+  }
+
+  /**
+   * Open lots of a symbol, oldest first
+   */
+  async getOpenLots(userId: string, symbol: string): Promise<Lot[]> {
+    return (await this.getHolding(userId, symbol))?.openLots ?? [];
+  }
+
+  async getRealizedTrades(userId: string): Promise<RealizedTrade[]> {
+    return replayLedger(await this.getTransactions(userId)).realized;
+  }
+
+  /**
+   * Remember the latest market prices so every agent values holdings alike
+   */
+  setLastPrices(prices: Record<string, number>): void {
+    const merged = { ...this.getLastPrices() };
+    for (const [symbol, price] of Object.entries(prices)) {
+      if (Number.isFinite(price) && price > 0) merged[normalizeSymbol(symbol)] = price;
+    }
+    localStorage.setItem(LAST_PRICES_KEY, JSON.stringify(merged));
+  }
+
+  getLastPrices(): Record<string, number> {
+    return JSON.parse(localStorage.getItem(LAST_PRICES_KEY) || '{}');
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  private createTransaction(
+    userId: string,
+    fields: Omit<LedgerTransaction, 'id' | 'userId' | 'createdAt'>
+  ): LedgerTransaction {
+    return {
+      ...fields,
+      id: `ledger_${userId}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      userId,
+      createdAt: new Date(),
+    };
+  }
+
+  private getLocalTransactions(userId: string): LedgerTransaction[] {
+    const items: LedgerTransaction[] = JSON.parse(localStorage.getItem(`holdings_ledger_${userId}`) || '[]');
+    return items.map(t => ({ ...t, date: new Date(t.date), createdAt: new Date(t.createdAt) }));
+  }
+
+  private async saveTransactions(userId: string, transactions: LedgerTransaction[]): Promise<void> {
+    // 1. Save to LocalStorage first
+    const local = this.getLocalTransactions(userId);
+    local.push(...transactions);
+    localStorage.setItem(`holdings_ledger_${userId}`, JSON.stringify(local));
+
+    // 2. Try Firestore (it rejects undefined fields)
+    for (const tx of transactions) {
+      try {
+        const data = Object.fromEntries(Object.entries(tx).filter(([, value]) => value !== undefined));
+        await setDoc(doc(db, LEDGER_COLLECTION, tx.id), {
+          ...data,
+          date: Timestamp.fromDate(tx.date),
+          createdAt: Timestamp.fromDate(tx.createdAt),
+        });
+      } catch (error) {
+        console.warn('Firestore ledger save failed, but saved locally:', error);
+      }
+    }
+  }
+
+  /**
+   * Import the averaged-price holdings kept before the ledger existed, once
+   * per user. Each becomes a single lot; a symbol is taken from the first
+   * store that has it. Items without a purchase date are dated when they were
+   * added to the old store (or now) and flagged as undated.
+   */
+  private async ensureMigrated(userId: string): Promise<void> {
+    const flagKey = `holdings_ledger_migrated_${userId}`;
+    if (localStorage.getItem(flagKey)) return;
+    localStorage.setItem(flagKey, new Date().toISOString());
+
+    const legacy = await this.loadLegacyHoldings(userId);
+    const seen = new Set(this.getLocalTransactions(userId).map(t => t.symbol));
+    const imported: LedgerTransaction[] = [];
+
+    for (const item of legacy) {
+      const symbol = normalizeSymbol(item.symbol || '');
+      if (!symbol || seen.has(symbol) || !(item.quantity > 0)) continue;
+      seen.add(symbol);
+      imported.push(
+        this.createTransaction(userId, {
+          symbol,
+          name: item.name || symbol,
+          assetType: item.assetType,
+          exchange: item.exchange,
+          side: 'buy',
+          quantity: item.quantity,
+          price: item.price,
+          fees: 0,
+          date: item.date ?? item.addedAt ?? new Date(),
+          dateUnknown: item.date ? undefined : true,
+          source: 'import',
+        })
+      );
+    }
+
+    if (imported.length > 0) {
+      await this.saveTransactions(userId, imported);
+      console.log(`📦 Imported ${imported.length} existing holding(s) into the ledger`);
+    }
+  }
+
+  private async loadLegacyHoldings(
+    userId: string
+  ): Promise<Array<Omit<BuyInput, 'fees' | 'source'> & { addedAt?: Date }>> {
+    const readStore = async (collectionName: string, localKey: string): Promise<Record<string, unknown>[]> => {
+      try {
+        const snapshot = await getDocs(query(collection(db, collectionName), where('userId', '==', userId)));
+        if (!snapshot.empty) return snapshot.docs.map(d => d.data());
+      } catch (error) {
+        console.warn(`Legacy ${collectionName} read failed, using local copy:`, error);
+      }
+      return JSON.parse(localStorage.getItem(localKey) || '[]');
+    };
+    const toDate = (value: unknown): Date | undefined => {
+      if (!value) return undefined;
+      if (value instanceof Timestamp) return value.toDate();
+      const date = new Date(value as string);
+      return Number.isNaN(date.getTime()) ? undefined : date;
+    };
+
+    // InvestmentPortfolio (portfolioService)
+    const investments = (await readStore('portfolio', `manual_portfolio_${userId}`)).map(inv => ({
+      symbol: String(inv.symbol ?? inv.name ?? ''),
+      name: String(inv.name ?? ''),
+      assetType: (inv.type as AssetType) || 'stocks',
+      quantity: Number(inv.quantity),
+      price: Number(inv.buyPrice),
+      date: toDate(inv.purchaseDate),
+      addedAt: toDate(inv.createdAt),
+    }));
+
+    // Stock monitoring positions (watchlistService)
+    const positions = (await readStore('portfolios', `portfolio_positions_${userId}`)).map(pos => ({
+      symbol: String(pos.symbol ?? ''),
+      name: String(pos.symbol ?? ''),
+      assetType: (pos.assetType === 'crypto' ? 'crypto' : 'stocks') as AssetType,
+      quantity: Number(pos.quantity),
+      price: Number(pos.boughtPrice),
+      date: toDate(pos.boughtAt),
+      addedAt: toDate(pos.createdAt),
+    }));
+
+    // Auto-sell agent holdings
+    const holdings = (await readStore('portfolio_investments', `portfolio_${userId}`)).map(h => ({
+      symbol: String(h.symbol ?? ''),
+      name: String(h.name ?? h.symbol ?? ''),
+      assetType: 'stocks' as AssetType,
+      exchange: typeof h.exchange === 'string' ? h.exchange : undefined,
+      quantity: Number(h.quantity),
+      price: Number(h.purchasePrice),
+      date: toDate(h.purchaseDate),
+      addedAt: toDate(h.createdAt),
+    }));
+
+    return [...investments, ...positions, ...holdings];
+  }
+}
+
+// Export singleton instance
+export const holdingsLedger = new HoldingsLedgerService();
@@ -0,0 +1,169 @@
+/**
+ * HRA Exemption Service
+ *
+ * House rent allowance exemption under Section 10(13A) and Rule 2A, worked
+ * out month by month from the salary structure and rent payments
+ *
+ * Features:
+ * - Least of actual HRA, rent paid minus 10% of salary, and 50% (metro) or 40% of salary
+ * - Salary is basic plus dearness allowance forming part of retirement benefits
+ * - Salary revisions and rent changes take effect from the month they happen
+ * - Rent detected from profile transactions in the Rent category
+ */
+
+import { userProfileService, type RecordedTransaction, type SalaryStructure } from './userProfileService';
+import { getFinancialYear, getFinancialYearDates } from './taxEngine';
+
+// ==================== TYPES ====================
+
+export interface HraMonth {
+  month: string; // 'YYYY-MM'
+  salary: number; // basic + DA
+  hraReceived: number;
+  rentPaid: number;
+  isMetro: boolean;
+  limits: {
+    actualHra: number;
+    rentOverTenPercent: number; // rent paid minus 10% of salary
+    percentOfSalary: number; // 50% metro, 40% elsewhere
+  };
+  exempt: number;
+  taxable: number;
+}
+
+export interface HraComputation {
+  financialYear: string;
+  months: HraMonth[];
+  totalHraReceived: number;
+  totalRentPaid: number;
+  totalExempt: number;
+  totalTaxable: number;
+  hasSalaryStructure: boolean;
+}
+
+// ==================== CONSTANTS ====================
+
+const RENT_CATEGORY = 'rent';
+const RENT_SALARY_SHARE = 0.1;
+const METRO_SHARE = 0.5;
+const NON_METRO_SHARE = 0.4;
+
+// ==================== CALCULATIONS ====================
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Months of a financial year as 'YYYY-MM', April first
+ */
+function financialYearMonths(financialYear: string): string[] {
+  const start = getFinancialYearDates(financialYear).start;
+  return Array.from({ length: 12 }, (_, i) => monthKey(new Date(start.getFullYear(), start.getMonth() + i, 1)));
+}
+
+/**
+ * Rent paid per month of the financial year, from Rent expense transactions
+ */
+export function rentPaidByMonth(
+  transactions: Pick<RecordedTransaction, 'amount' | 'type' | 'category' | 'date'>[],
+  financialYear: string
+): Record<string, number> {
+  const { start, end } = getFinancialYearDates(financialYear);
+  const rent: Record<string, number> = {};
+
+  for (const tx of transactions) {
+    if (tx.type !== 'expense' || tx.category?.toLowerCase() !== RENT_CATEGORY) continue;
+    const date = new Date(tx.date);
+    if (isNaN(date.getTime()) || date < start || date > end) continue;
+    const key = monthKey(date);
+    rent[key] = (rent[key] ?? 0) + Math.abs(tx.amount);
+  }
+
+  return rent;
+}
+
+/**
+ * Salary structure in force for a month: the latest revision effective on or before it
+ */
+function structureFor(revisions: SalaryStructure[], month: string): SalaryStructure | undefined {
+  return [...revisions]
+    .sort((a, b) => new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime())
+    .filter(s => monthKey(new Date(s.effectiveFrom)) <= month)
+    .pop();
+}
+
+/**
+ * Section 10(13A) exemption, computed for each month with that month's
+ * salary, HRA, rent and city
+ */
+export function calculateHraExemption(
+  revisions: SalaryStructure[],
+  rentByMonth: Record<string, number>,
+  financialYear: string = getFinancialYear()
+): HraComputation {
+  const months: HraMonth[] = [];
+
+  for (const month of financialYearMonths(financialYear)) {
+    const structure = structureFor(revisions, month);
+    if (!structure) continue;
+
+    const salary = structure.basicMonthly + (structure.daMonthly ?? 0);
+    const hraReceived = structure.hraMonthly;
+    const rentPaid = rentByMonth[month] ?? 0;
+    const limits = {
+      actualHra: hraReceived,
+      rentOverTenPercent: Math.max(0, rentPaid - salary * RENT_SALARY_SHARE),
+      percentOfSalary: salary * (structure.isMetro ? METRO_SHARE : NON_METRO_SHARE),
+    };
+    const exempt = rentPaid > 0
+      ? Math.round(Math.min(limits.actualHra, limits.rentOverTenPercent, limits.percentOfSalary))
+      : 0;
+
+    months.push({
+      month,
+      salary,
+      hraReceived,
+      rentPaid,
+      isMetro: structure.isMetro,
+      limits,
+      exempt,
+      taxable: hraReceived - exempt,
+    });
+  }
+
+  return {
+    financialYear,
+    months,
+    totalHraReceived: months.reduce((sum, m) => sum + m.hraReceived, 0),
+    totalRentPaid: months.reduce((sum, m) => sum + m.rentPaid, 0),
+    totalExempt: months.reduce((sum, m) => sum + m.exempt, 0),
+    totalTaxable: months.reduce((sum, m) => sum + m.taxable, 0),
+    hasSalaryStructure: revisions.length > 0,
+  };
+}
+
+// ==================== SERVICE CLASS ====================
+
+export class HraExemptionService {
+  /**
+   * HRA exemption for a financial year from the profile's salary structure
+   * and the user's rent transactions
+   */
+  async getHraExemption(userId: string, financialYear: string = getFinancialYear()): Promise<HraComputation> {
+    const profile = await userProfileService.getProfile(userId);
+    const revisions = profile?.income.salaryStructure ?? [];
+
+    let transactions: RecordedTransaction[] = [];
+    try {
+      transactions = await userProfileService.getTransactions(userId);
+    } catch (error) {
+      console.warn('Could not load transactions for HRA exemption:', error);
+    }
+
+    return calculateHraExemption(revisions, rentPaidByMonth(transactions, financialYear), financialYear);
+  }
+}
+
+// Export singleton instance
+export const hraExemptionService = new HraExemptionService();
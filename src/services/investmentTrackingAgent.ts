@@ -3,8 +3,9 @@
  * Monitors investment performance and alerts users about potential losses
  */
 
-import { collection, addDoc, query, where, getDocs, Timestamp, updateDoc, doc } from 'firebase/firestore';
+import { collection, addDoc, query, where, getDocs, getDoc, Timestamp, updateDoc, doc } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import { stepUpAuthService } from './stepUpAuthService';
 
 export interface TrackedInvestment {
   id: string;
@@ -19,7 +20,6 @@ export interface TrackedInvestment {
   performancePercent: number;
   alerts: InvestmentAlert[];
   autoTrackingEnabled: boolean;
-  password?: string; // Encrypted password for auto-actions
 }
 
 export interface InvestmentAlert {
@@ -43,7 +43,7 @@ export interface InvestmentPerformance {
 
 export class InvestmentTrackingAgent {
   /**
-   * Activate investment tracking with password protection
+   * Activate investment tracking (stopping it later requires step-up verification)
    */
   async activateTracking(
     userId: string,
@@ -51,13 +51,9 @@ export class InvestmentTrackingAgent {
       name: string;
       type: string;
       amount: number;
-    },
-    password: string
+    }
   ): Promise<TrackedInvestment> {
     try {
-      // Encrypt password (in production, use proper encryption)
-      const encryptedPassword = btoa(password);
-
       const investment: Omit<TrackedInvestment, 'id'> = {
         userId,
         schemeName: scheme.name,
@@ -70,7 +66,6 @@ export class InvestmentTrackingAgent {
         performancePercent: 0,
         alerts: [],
         autoTrackingEnabled: true,
-        password: encryptedPassword,
       };
 
       const docRef = await addDoc(collection(db, 'tracked_investments'), {
@@ -278,19 +273,22 @@ export class InvestmentTrackingAgent {
   }
 
   /**
-   * Stop tracking an investment
+   * Stop tracking an investment. The password is checked through step-up
+   * verification for the investment's owner.
    */
   async stopTracking(investmentId: string, password: string): Promise<boolean> {
     try {
-      const investments = await this.getUserInvestments('current-user');
-      const investment = investments.find(inv => inv.id === investmentId);
-      
-      if (!investment) return false;
-
-      // Verify password
-      const decryptedPassword = atob(investment.password || '');
-      if (decryptedPassword !== password) {
-        throw new Error('Invalid password');
+      const snapshot = await getDoc(doc(db, 'tracked_investments', investmentId));
+      if (!snapshot.exists()) return false;
+      const investment = snapshot.data() as Omit<TrackedInvestment, 'id'>;
+
+      const verification = await stepUpAuthService.verify(
+        investment.userId,
+        { method: 'password', password },
+        `stop tracking ${investment.schemeName}`
+      );
+      if (!verification.success) {
+        throw new Error(verification.message);
       }
 
       // Update status
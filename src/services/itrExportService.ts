@@ -0,0 +1,731 @@
+/**
+ * ITR Export Service
+ *
+ * Builds an income tax return bundle from the financial profile, realized
+ * capital gains and tax history, for filing or handing to a CA
+ *
+ * Features:
+ * - Picks ITR-1 (Sahaj) or ITR-2 from the sources of income
+ * - JSON laid out like the e-filing utility (CreationInfo, PersonalInfo, schedules, Part B)
+ * - Salary, house property, other sources and capital gains by section and rate
+ * - Chapter VI-A deductions (80C, 80D, 80CCD(1B), 80E) and home loan interest
+ * - HRA exempt under Section 10(13A), from the salary structure and rent paid
+ * - Taxes paid from TDS, advance tax and self-assessment payments, with 234B/234C interest
+ * - Plain-text summary of the return
+ * - Validation errors for missing mandatory fields
+ */
+
+import { userProfileService, type UserFinancialProfile } from './userProfileService';
+import { getUserProfile } from './authService';
+import { getTaxHistory, type TaxOptimizationHistory } from './profileService';
+import {
+  calculateIncomeTax,
+  getAssessmentYear,
+  getFinancialYear,
+  type TaxComputation,
+  type TaxDeductions,
+} from './taxEngine';
+import { capitalGainsService, summarizeCapitalGains, type CapitalGainsSummary } from './capitalGainsService';
+import { advanceTaxPlanner, type AdvanceTaxPlan } from './advanceTaxPlanner';
+import { hraExemptionService, type HraComputation } from './hraExemption';
+import { logActivity, ActivityType } from './activityLogger';
+
+// ==================== TYPES ====================
+
+export type ItrForm = 'ITR-1' | 'ITR-2';
+
+export interface ItrPersonalDetails {
+  dateOfBirth?: string; // YYYY-MM-DD
+  email?: string;
+  mobile?: string;
+  address?: {
+    line1: string;
+    city: string;
+    state: string;
+    pinCode: string;
+  };
+}
+
+export interface ItrExportOptions extends ItrPersonalDetails {
+  financialYear?: string; // Defaults to the last completed year
+}
+
+export interface ItrValidationIssue {
+  field: string; // Path in the ITR JSON
+  message: string;
+}
+
+export interface ItrSourceData {
+  financialYear: string;
+  profile: UserFinancialProfile;
+  personal: ItrPersonalDetails;
+  taxHistory?: TaxOptimizationHistory;
+  capitalGains: CapitalGainsSummary;
+  advanceTax: AdvanceTaxPlan | null;
+  hra?: HraComputation;
+}
+
+export interface ItrComputation {
+  form: ItrForm;
+  salary: number;
+  hraExempt: number; // Section 10(13A)
+  standardDeduction: number;
+  houseProperty: number;
+  otherSources: number;
+  dividends: number;
+  capitalGains: number; // taxable, after set-off and exemption
+  grossTotalIncome: number;
+  chapterVIA: number;
+  totalIncome: number;
+  slabTax: TaxComputation;
+  capitalGainsTax: number;
+  grossTaxLiability: number;
+  interest234B: number;
+  interest234C: number;
+  tds: number;
+  advanceTax: number;
+  selfAssessmentTax: number;
+  balancePayable: number;
+  refund: number;
+}
+
+export interface ItrExportBundle {
+  form: ItrForm;
+  financialYear: string;
+  assessmentYear: string;
+  json: Record<string, unknown>; // ITR utility structure
+  summary: string;
+  computation: ItrComputation;
+  generatedAt: Date;
+}
+
+export class ItrValidationError extends Error {
+  issues: ItrValidationIssue[];
+
+  constructor(issues: ItrValidationIssue[]) {
+    super(`ITR export has ${issues.length} missing or invalid field(s): ${issues.map(i => i.field).join(', ')}`);
+    this.name = 'ItrValidationError';
+    this.issues = issues;
+  }
+}
+
+// ==================== CONSTANTS ====================
+
+const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+const PIN_PATTERN = /^[1-9][0-9]{5}$/;
+const MOBILE_PATTERN = /^[6-9][0-9]{9}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const ITR1_INCOME_LIMIT = 5000000;
+const ITR1_LTCG_LIMIT = 125000; // Section 112A gains allowed in ITR-1 from AY2025-26
+const ITR1_LTCG_FROM = 'FY2024-25';
+const HOUSE_PROPERTY_STANDARD_DEDUCTION = 0.3; // Section 24(a)
+
+const SCHEMA_VERSION = 'Ver1.0';
+const SOFTWARE_ID = 'SW10000001';
+
+// ==================== COMPUTATION ====================
+
+function deductionsFor(
+  profile: UserFinancialProfile,
+  financialYear: string,
+  history?: TaxOptimizationHistory,
+  hra?: HraComputation
+): TaxDeductions {
+  const totals = userProfileService.getTotalDeductions(profile, financialYear);
+  const declared = history?.investments;
+
+  // Tax history fills sections the profile has no entries for
+  return {
+    section80C: totals.section80C || declared?.section80C || 0,
+    section80D: totals.section80D || declared?.section80D || 0,
+    section80CCD1B: totals.section80CCD1B || declared?.nps || 0,
+    homeLoanInterest: totals.homeLoanInterest || declared?.section24 || 0,
+    educationLoanInterest: totals.educationLoanInterest,
+    hra: hra?.totalExempt ?? 0,
+  };
+}
+
+function allowedFor(computation: TaxComputation, section: string): number {
+  return computation.deductions.find(d => d.section === section)?.allowed ?? 0;
+}
+
+/**
+ * ITR-1 unless income or gains need the fuller ITR-2
+ */
+export function chooseItrForm(data: ItrSourceData, totalIncome: number): ItrForm {
+  const gains = data.capitalGains;
+  const onlySmall112A =
+    gains.buckets.every(b => b.section === '112A') &&
+    gains.longTermGain <= ITR1_LTCG_LIMIT &&
+    gains.lossCarriedForward.shortTerm === 0 &&
+    gains.lossCarriedForward.longTerm === 0 &&
+    data.financialYear >= ITR1_LTCG_FROM;
+
+  if (totalIncome > ITR1_INCOME_LIMIT) return 'ITR-2';
+  if (gains.lotCount > 0 && !onlySmall112A) return 'ITR-2';
+  return 'ITR-1';
+}
+
+/**
+ * Income heads, deductions and tax for the return
+ */
+export function computeItr(data: ItrSourceData): ItrComputation {
+  const { profile, financialYear } = data;
+  const regime = profile.taxRegime;
+  const deductions = deductionsFor(profile, financialYear, data.taxHistory, data.hra);
+
+  const salary = profile.income.annualSalary;
+  const dividends = data.advanceTax?.income.dividendIncome ?? 0;
+  const rentalNet = Math.round(profile.income.rentalIncome * (1 - HOUSE_PROPERTY_STANDARD_DEDUCTION));
+  const otherSources = profile.income.otherIncome + dividends;
+
+  const slabTax = calculateIncomeTax({
+    grossIncome: salary + rentalNet + otherSources,
+    regime,
+    financialYear,
+    age: profile.personalInfo.age,
+    salaried: salary > 0,
+    deductions,
+  });
+
+  // In the return, exempt HRA reduces salary and home loan interest is a
+  // loss under house property; neither is a Chapter VI-A deduction
+  const hraExempt = allowedFor(slabTax, '10(13A) HRA');
+  const homeLoanInterest = allowedFor(slabTax, '24(b)');
+  const houseProperty = rentalNet - homeLoanInterest;
+  const chapterVIA = slabTax.totalDeductions - slabTax.standardDeduction - homeLoanInterest - hraExempt;
+  const capitalGains = Math.round(data.capitalGains.buckets.reduce((sum, b) => sum + b.taxable, 0));
+
+  const grossTotalIncome =
+    salary - hraExempt - slabTax.standardDeduction + houseProperty + otherSources + capitalGains;
+  const totalIncome = Math.max(0, grossTotalIncome - chapterVIA);
+  const capitalGainsTax = data.capitalGains.totalTax;
+  const grossTaxLiability = slabTax.totalTax + capitalGainsTax;
+
+  const plan = data.advanceTax;
+  // Salary TDS as reported by the employer, else the planner's estimate
+  const reportedTds = userProfileService.getReportedSalaryTds(profile, financialYear);
+  const tds = (reportedTds ?? plan?.tdsOnSalary ?? 0) + (plan?.tdsOnDividends ?? 0);
+  const advanceTax = plan?.advanceTaxPaid ?? 0;
+  const selfAssessmentTax = plan?.selfAssessmentPaid ?? 0;
+  const interest234B = plan?.interest234B ?? 0;
+  const interest234C = plan?.interest234C ?? 0;
+  const net = grossTaxLiability + interest234B + interest234C - tds - advanceTax - selfAssessmentTax;
+
+  return {
+    form: chooseItrForm(data, totalIncome),
+    salary,
+    hraExempt,
+    standardDeduction: slabTax.standardDeduction,
+    houseProperty,
+    otherSources,
+    dividends,
+    capitalGains,
+    grossTotalIncome,
+    chapterVIA,
+    totalIncome,
+    slabTax,
+    capitalGainsTax,
+    grossTaxLiability,
+    interest234B,
+    interest234C,
+    tds,
+    advanceTax,
+    selfAssessmentTax,
+    balancePayable: Math.max(0, net),
+    refund: Math.max(0, -net),
+  };
+}
+
+// ==================== VALIDATION ====================
+
+/**
+ * Missing or invalid fields the e-filing utility would reject
+ */
+export function validateItrData(data: ItrSourceData): ItrValidationIssue[] {
+  const issues: ItrValidationIssue[] = [];
+  const { profile, personal } = data;
+  const pan = profile.personalInfo.pan?.toUpperCase();
+
+  if (!profile.personalInfo.name?.trim()) {
+    issues.push({ field: 'PersonalInfo.AssesseeName', message: 'Name is required' });
+  }
+  if (!pan) {
+    issues.push({ field: 'PersonalInfo.PAN', message: 'PAN is required' });
+  } else if (!PAN_PATTERN.test(pan)) {
+    issues.push({ field: 'PersonalInfo.PAN', message: `PAN "${pan}" is not in the format ABCDE1234F` });
+  }
+  if (!personal.dateOfBirth || isNaN(new Date(personal.dateOfBirth).getTime())) {
+    issues.push({ field: 'PersonalInfo.DOB', message: 'Date of birth is required' });
+  }
+  if (!personal.address?.line1?.trim() || !personal.address.city?.trim() || !personal.address.state?.trim()) {
+    issues.push({ field: 'PersonalInfo.Address', message: 'Address, city and state are required' });
+  }
+  if (!personal.address?.pinCode || !PIN_PATTERN.test(personal.address.pinCode)) {
+    issues.push({ field: 'PersonalInfo.Address.PinCode', message: 'A 6-digit PIN code is required' });
+  }
+  if (!personal.mobile || !MOBILE_PATTERN.test(personal.mobile.replace(/^\+?91/, ''))) {
+    issues.push({ field: 'PersonalInfo.Address.MobileNo', message: 'A 10-digit mobile number is required' });
+  }
+  if (!personal.email || !EMAIL_PATTERN.test(personal.email)) {
+    issues.push({ field: 'PersonalInfo.Address.EmailAddress', message: 'A valid email address is required' });
+  }
+
+  const refundAccount = profile.bankAccounts?.find(a => a.isPrimary) ?? profile.bankAccounts?.[0];
+  if (!refundAccount?.accountNumber) {
+    issues.push({ field: 'Refund.BankAccountDtls', message: 'At least one bank account is required' });
+  } else if (!IFSC_PATTERN.test(refundAccount.ifscCode?.toUpperCase() ?? '')) {
+    issues.push({ field: 'Refund.BankAccountDtls.IFSCCode', message: `IFSC of ${refundAccount.bankName} is invalid` });
+  }
+
+  const income = profile.income;
+  if (income.annualSalary + income.otherIncome + income.rentalIncome + income.businessIncome <= 0 &&
+    data.capitalGains.lotCount === 0) {
+    issues.push({ field: 'Income', message: 'No income recorded for the year' });
+  }
+  if (income.businessIncome > 0) {
+    issues.push({
+      field: 'Income.BusinessIncome',
+      message: 'Business income is filed in ITR-3 or ITR-4, which this export does not produce',
+    });
+  }
+
+  return issues;
+}
+
+// ==================== ITR JSON ====================
+
+function personalInfo(data: ItrSourceData) {
+  const { profile, personal } = data;
+  const [firstName, ...rest] = profile.personalInfo.name.trim().split(/\s+/);
+
+  return {
+    AssesseeName: rest.length > 0
+      ? { FirstName: firstName, SurNameOrOrgName: rest.join(' ') }
+      : { SurNameOrOrgName: firstName },
+    PAN: profile.personalInfo.pan?.toUpperCase(),
+    Address: {
+      ResidenceNo: personal.address?.line1,
+      CityOrTownOrDistrict: personal.address?.city,
+      StateCode: personal.address?.state,
+      CountryCode: '91',
+      PinCode: Number(personal.address?.pinCode),
+      CountryCodeMobile: 91,
+      MobileNo: Number(personal.mobile?.replace(/^\+?91/, '')),
+      EmailAddress: personal.email,
+    },
+    DOB: personal.dateOfBirth,
+    EmployerCategory: profile.income.annualSalary > 0 ? 'OTH' : 'NA',
+  };
+}
+
+function bankDetails(profile: UserFinancialProfile) {
+  return {
+    AddtnlBankDetails: profile.bankAccounts.map(account => ({
+      IFSCCode: account.ifscCode.toUpperCase(),
+      BankName: account.bankName,
+      BankAccountNo: account.accountNumber,
+      AccountType: account.accountType === 'current' ? 'CA' : 'SB',
+      UseForRefund: account.isPrimary ? 'true' : 'false',
+    })),
+  };
+}
+
+function chapterVIA(c: ItrComputation) {
+  return {
+    Section80C: allowedFor(c.slabTax, '80C'),
+    Section80D: allowedFor(c.slabTax, '80D'),
+    Section80CCD1B: allowedFor(c.slabTax, '80CCD(1B)'),
+    Section80E: allowedFor(c.slabTax, '80E'),
+    TotalChapVIADeductions: c.chapterVIA,
+  };
+}
+
+function taxesPaid(c: ItrComputation) {
+  return {
+    TaxesPaid: {
+      AdvanceTax: c.advanceTax,
+      TDS: c.tds,
+      TCS: 0,
+      SelfAssessmentTax: c.selfAssessmentTax,
+      TotalTaxesPaid: c.tds + c.advanceTax + c.selfAssessmentTax,
+    },
+    BalTaxPayable: c.balancePayable,
+  };
+}
+
+function creationInfo(data: ItrSourceData, form: ItrForm) {
+  const assessmentYear = getAssessmentYear(data.financialYear);
+  return {
+    CreationInfo: {
+      SWVersionNo: '1.0',
+      SWCreatedBy: SOFTWARE_ID,
+      JSONCreatedBy: SOFTWARE_ID,
+      JSONCreationDate: new Date().toISOString().slice(0, 10),
+      IntermediaryCity: data.personal.address?.city ?? '',
+      Digest: '-',
+    },
+    [`Form_${form.replace('-', '')}`]: {
+      FormName: form,
+      Description: form === 'ITR-1'
+        ? 'For resident individuals with income from salary, one house property and other sources'
+        : 'For individuals and HUFs not having income from business or profession',
+      AssessmentYear: assessmentYear.slice(2, 6),
+      SchemaVer: SCHEMA_VERSION,
+      FormVer: SCHEMA_VERSION,
+    },
+  };
+}
+
+function filingStatus(data: ItrSourceData) {
+  return {
+    ReturnFileSec: 11, // On or before the due date under 139(1)
+    OptOutNewTaxRegime: data.profile.taxRegime === 'old' ? 'Y' : 'N',
+    ResidentialStatus: 'RES',
+  };
+}
+
+// Capital gains by rate, e.g. ShortTerm20Per, LongTerm12_5Per, ShortTermAppRate
+function capitalGainsByRate(summary: CapitalGainsSummary) {
+  const byRate: Record<string, number> = {};
+  for (const bucket of summary.buckets) {
+    const term = bucket.term === 'short' ? 'ShortTerm' : 'LongTerm';
+    const rate = bucket.rate === 'slab' ? 'AppRate' : `${String(bucket.rate).replace('.', '_')}Per`;
+    byRate[term + rate] = (byRate[term + rate] ?? 0) + Math.round(bucket.taxable);
+  }
+  return byRate;
+}
+
+function buildItr1(data: ItrSourceData, c: ItrComputation) {
+  const tax = c.slabTax;
+  const ltcg112A = Math.round(data.capitalGains.buckets.reduce((sum, b) => sum + b.gains, 0));
+
+  return {
+    ITR: {
+      ITR1: {
+        ...creationInfo(data, 'ITR-1'),
+        PersonalInfo: personalInfo(data),
+        FilingStatus: filingStatus(data),
+        ITR1_IncomeDeductions: {
+          GrossSalary: c.salary,
+          Salary: c.salary,
+          AllwncExemptUs10: {
+            AllwncExemptUs10Dtls: c.hraExempt > 0 ? [{ SalNatureDesc: '10(13A)', SalOthAmount: c.hraExempt }] : [],
+            TotalAllwncExemptUs10: c.hraExempt,
+          },
+          NetSalary: c.salary - c.hraExempt,
+          DeductionUs16: c.standardDeduction,
+          DeductionUs16ia: c.standardDeduction,
+          IncomeFromSal: c.salary - c.hraExempt - c.standardDeduction,
+          GrossRentReceived: data.profile.income.rentalIncome,
+          AnnualValue: data.profile.income.rentalIncome,
+          StandardDeduction: Math.round(data.profile.income.rentalIncome * HOUSE_PROPERTY_STANDARD_DEDUCTION),
+          InterestPayable: allowedFor(tax, '24(b)'),
+          TotalIncomeOfHP: c.houseProperty,
+          IncomeOthSrc: c.otherSources,
+          OthersInc: {
+            OthersIncDtlsOthSrc: [
+              ...(c.dividends > 0 ? [{ OthSrcNatureDesc: 'DIV', OthSrcOthAmount: c.dividends }] : []),
+              ...(c.otherSources - c.dividends > 0
+                ? [{ OthSrcNatureDesc: 'OTH', OthSrcOthAmount: c.otherSources - c.dividends }]
+                : []),
+            ],
+          },
+          ...(ltcg112A > 0 ? { LTCG112A: { TotSaleCnsdrn: 0, TotCstAcqisn: 0, LongCap112A: ltcg112A } } : {}),
+          GrossTotIncome: c.grossTotalIncome,
+          DeductUndChapVIA: chapterVIA(c),
+          UsrDeductUndChapVIA: chapterVIA(c),
+          TotalIncome: c.totalIncome,
+        },
+        ITR1_TaxComputation: {
+          TotalTaxPayable: tax.taxBeforeRebate,
+          Rebate87A: tax.rebate,
+          TaxPayableOnRebate: tax.taxAfterRebate,
+          EducationCess: tax.cess,
+          GrossTaxLiability: c.grossTaxLiability,
+          Section89: 0,
+          NetTaxLiability: c.grossTaxLiability,
+          TotalIntrstPay: c.interest234B + c.interest234C,
+          IntrstPay: {
+            IntrstPayUs234A: 0,
+            IntrstPayUs234B: c.interest234B,
+            IntrstPayUs234C: c.interest234C,
+            LateFilingFee234F: 0,
+          },
+          TotTaxPlusIntrstPay: c.grossTaxLiability + c.interest234B + c.interest234C,
+        },
+        TaxPaid: taxesPaid(c),
+        Refund: {
+          RefundDue: c.refund,
+          BankAccountDtls: bankDetails(data.profile),
+        },
+        Verification: verification(data),
+      },
+    },
+  };
+}
+
+function buildItr2(data: ItrSourceData, c: ItrComputation) {
+  const tax = c.slabTax;
+  const gains = data.capitalGains;
+  const byRate = capitalGainsByRate(gains);
+  const sumOf = (prefix: string) =>
+    Object.entries(byRate).filter(([key]) => key.startsWith(prefix)).reduce((sum, [, v]) => sum + v, 0);
+
+  return {
+    ITR: {
+      ITR2: {
+        ...creationInfo(data, 'ITR-2'),
+        PartA_GEN1: {
+          PersonalInfo: personalInfo(data),
+          FilingStatus: filingStatus(data),
+        },
+        ScheduleS: {
+          TotalGrossSalary: c.salary,
+          AllwncExtentExemptUs10: c.hraExempt,
+          NetSalary: c.salary - c.hraExempt,
+          DeductionUS16ia: c.standardDeduction,
+          TotIncUnderHeadSalaries: c.salary - c.hraExempt - c.standardDeduction,
+        },
+        ScheduleHP: {
+          GrossRentReceived: data.profile.income.rentalIncome,
+          ThirtyPercentOfBalance: Math.round(data.profile.income.rentalIncome * HOUSE_PROPERTY_STANDARD_DEDUCTION),
+          IntOnBorwCap: allowedFor(tax, '24(b)'),
+          TotalIncomeChargeableUnHP: c.houseProperty,
+        },
+        ScheduleCGFor23: {
+          ShortTermCapGainFor23: {
+            TotalSTCG: Math.round(gains.buckets.filter(b => b.term === 'short').reduce((s, b) => s + b.taxable, 0)),
+          },
+          LongTermCapGain23: {
+            TotalLTCG: Math.round(gains.buckets.filter(b => b.term === 'long').reduce((s, b) => s + b.taxable, 0)),
+            LTCG112AExemption: Math.round(gains.ltcgExemptionUsed),
+          },
+          CurrYrLosses: {
+            ShortTermLossCF: Math.round(gains.lossCarriedForward.shortTerm),
+            LongTermLossCF: Math.round(gains.lossCarriedForward.longTerm),
+          },
+          SumOfCGIncm: c.capitalGains,
+        },
+        ScheduleOS: {
+          IncOthThanOwnRaceHorse: {
+            DividendGross: c.dividends,
+            AnyOtherIncome: c.otherSources - c.dividends,
+          },
+          IncChargeable: c.otherSources,
+        },
+        ScheduleVIA: {
+          DeductUndChapVIA: chapterVIA(c),
+        },
+        'PartB-TI': {
+          Salaries: c.salary - c.hraExempt - c.standardDeduction,
+          IncomeFromHP: c.houseProperty,
+          CapGain: {
+            ShortTerm: {
+              ...Object.fromEntries(Object.entries(byRate).filter(([key]) => key.startsWith('ShortTerm'))),
+              TotalShortTerm: sumOf('ShortTerm'),
+            },
+            LongTerm: {
+              ...Object.fromEntries(Object.entries(byRate).filter(([key]) => key.startsWith('LongTerm'))),
+              TotalLongTerm: sumOf('LongTerm'),
+            },
+            TotalCapGains: c.capitalGains,
+          },
+          IncFromOS: { TotIncFromOS: c.otherSources },
+          GrossTotalIncome: c.grossTotalIncome,
+          DeductionsUnderScheduleVIA: c.chapterVIA,
+          TotalIncome: c.totalIncome,
+        },
+        PartB_TTI: {
+          ComputationOfTaxLiability: {
+            TaxPayableOnTI: {
+              TaxAtNormalRatesOnAggrInc: tax.taxBeforeRebate,
+              TaxAtSpecialRates: Math.round(gains.specialRateTax),
+            },
+            Rebate87A: tax.rebate,
+            Surcharge: tax.surcharge,
+            EducationCess: tax.cess,
+            GrossTaxLiability: c.grossTaxLiability,
+            NetTaxLiability: c.grossTaxLiability,
+            IntrstPay: {
+              IntrstPayUs234A: 0,
+              IntrstPayUs234B: c.interest234B,
+              IntrstPayUs234C: c.interest234C,
+              LateFilingFee234F: 0,
+            },
+            AggregateTaxInterestLiability: c.grossTaxLiability + c.interest234B + c.interest234C,
+          },
+          TaxPaid: taxesPaid(c),
+          Refund: {
+            RefundDue: c.refund,
+            BankAccountDtls: bankDetails(data.profile),
+          },
+        },
+        Verification: verification(data),
+      },
+    },
+  };
+}
+
+function verification(data: ItrSourceData) {
+  return {
+    Declaration: {
+      AssesseeVerName: data.profile.personalInfo.name,
+      FatherName: '',
+      AssesseeVerPAN: data.profile.personalInfo.pan?.toUpperCase(),
+    },
+    Capacity: 'S',
+    Place: data.personal.address?.city ?? '',
+  };
+}
+
+// ==================== SUMMARY ====================
+
+const inr = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+/**
+ * Plain-text summary of the return for the user or their CA
+ */
+export function buildItrSummary(data: ItrSourceData, c: ItrComputation): string {
+  const lines = [
+    `${c.form} for ${getAssessmentYear(data.financialYear)} (${data.financialYear})`,
+    `${data.profile.personalInfo.name} · PAN ${data.profile.personalInfo.pan?.toUpperCase() ?? '-'} · ` +
+      `${data.profile.taxRegime === 'old' ? 'Old' : 'New'} regime`,
+    '',
+    'Income',
+    `  Salary ${inr(c.salary)} less standard deduction ${inr(c.standardDeduction)}` +
+      (c.hraExempt > 0 ? ` and exempt HRA ${inr(c.hraExempt)}` : ''),
+    `  House property ${inr(c.houseProperty)}`,
+    `  Other sources ${inr(c.otherSources)}${c.dividends > 0 ? ` (dividends ${inr(c.dividends)})` : ''}`,
+    `  Capital gains ${inr(c.capitalGains)}`,
+    `  Gross total income ${inr(c.grossTotalIncome)}`,
+    '',
+    'Deductions (Chapter VI-A)',
+    ...c.slabTax.deductions
+      .filter(d => d.section !== '24(b)' && d.section !== '10(13A) HRA' && d.allowed > 0)
+      .map(d => `  ${d.section} ${inr(d.allowed)}${d.claimed > d.allowed ? ` (claimed ${inr(d.claimed)})` : ''}`),
+    `  Total ${inr(c.chapterVIA)}`,
+    `Total income ${inr(c.totalIncome)}`,
+    '',
+    'Tax',
+    `  On slab income ${inr(c.slabTax.totalTax)} (rebate ${inr(c.slabTax.rebate)}, cess ${inr(c.slabTax.cess)})`,
+    `  On capital gains ${inr(c.capitalGainsTax)}`,
+    ...(c.interest234B + c.interest234C > 0
+      ? [`  Interest 234B ${inr(c.interest234B)}, 234C ${inr(c.interest234C)}`]
+      : []),
+    `  TDS ${inr(c.tds)} · Advance tax ${inr(c.advanceTax)} · Self-assessment ${inr(c.selfAssessmentTax)}`,
+    c.refund > 0 ? `Refund due ${inr(c.refund)}` : `Balance payable ${inr(c.balancePayable)}`,
+  ];
+
+  const gains = data.capitalGains;
+  if (gains.lossCarriedForward.shortTerm > 0 || gains.lossCarriedForward.longTerm > 0) {
+    lines.push(
+      '',
+      `Losses carried forward: short-term ${inr(gains.lossCarriedForward.shortTerm)}, ` +
+        `long-term ${inr(gains.lossCarriedForward.longTerm)}`
+    );
+  }
+  const reportedTds = userProfileService.getReportedSalaryTds(data.profile, data.financialYear);
+  if (data.profile.income.annualSalary > 0 && reportedTds === null) {
+    lines.push('', 'TDS on salary is estimated; check it against Form 16 and Form 26AS before filing.');
+  }
+
+  return lines.join('\n');
+}
+
+// ==================== SERVICE CLASS ====================
+
+export class ItrExportService {
+  /**
+   * Gather the year's data, validate it and build the return.
+   * Throws ItrValidationError listing every missing mandatory field.
+   */
+  async generateExport(userId: string, options: ItrExportOptions = {}): Promise<ItrExportBundle> {
+    const data = await this.getSourceData(userId, options);
+
+    const issues = validateItrData(data);
+    if (issues.length > 0) {
+      throw new ItrValidationError(issues);
+    }
+
+    const computation = computeItr(data);
+    const json = computation.form === 'ITR-1' ? buildItr1(data, computation) : buildItr2(data, computation);
+    const bundle: ItrExportBundle = {
+      form: computation.form,
+      financialYear: data.financialYear,
+      assessmentYear: getAssessmentYear(data.financialYear),
+      json,
+      summary: buildItrSummary(data, computation),
+      computation,
+      generatedAt: new Date(),
+    };
+
+    await logActivity({
+      userId,
+      type: ActivityType.DATA_EXPORTED,
+      description: `${bundle.form} export generated for ${bundle.assessmentYear}`,
+      metadata: { form: bundle.form, financialYear: bundle.financialYear },
+    });
+
+    return bundle;
+  }
+
+  /**
+   * Details the user has already given, to prefill the export form
+   */
+  async getKnownPersonalDetails(userId: string): Promise<ItrPersonalDetails> {
+    try {
+      const account = await getUserProfile(userId);
+      return { email: account.email, mobile: account.phoneNumber };
+    } catch (error) {
+      console.warn('Could not load account details for ITR export:', error);
+      return {};
+    }
+  }
+
+  private async getSourceData(userId: string, options: ItrExportOptions): Promise<ItrSourceData> {
+    const lastYear = new Date();
+    lastYear.setFullYear(lastYear.getFullYear() - 1);
+    const financialYear = options.financialYear ?? getFinancialYear(lastYear);
+
+    const profile = await userProfileService.getProfile(userId);
+    if (!profile) {
+      throw new ItrValidationError([{ field: 'Profile', message: 'Complete your financial profile first' }]);
+    }
+
+    const known = await this.getKnownPersonalDetails(userId);
+    const history = await getTaxHistory(userId);
+    const advanceTax = await advanceTaxPlanner.getPlan(userId, financialYear);
+    const hra = await hraExemptionService.getHraExemption(userId, financialYear);
+    const lots = await capitalGainsService.getRealizedGains(userId, financialYear);
+    const baseIncome = advanceTax
+      ? advanceTax.income.salary + advanceTax.income.otherIncome + advanceTax.income.rentalIncome +
+        advanceTax.income.dividendIncome
+      : profile.income.annualSalary + profile.income.otherIncome;
+
+    return {
+      financialYear,
+      profile,
+      personal: {
+        dateOfBirth: options.dateOfBirth,
+        email: options.email || known.email,
+        mobile: options.mobile || known.mobile,
+        address: options.address,
+      },
+      // Tax history stores years as '2024-25'
+      taxHistory: history.find(h => h.financialYear === financialYear || `FY${h.financialYear}` === financialYear),
+      capitalGains: summarizeCapitalGains(lots, financialYear, {
+        regime: profile.taxRegime,
+        baseIncome,
+        age: profile.personalInfo.age,
+      }),
+      advanceTax,
+      hra,
+    };
+  }
+}
+
+// Export singleton instance
+export const itrExportService = new ItrExportService();
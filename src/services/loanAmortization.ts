@@ -0,0 +1,343 @@
+/**
+ * Loan Amortization Engine
+ *
+ * Month-by-month schedule of interest, principal and balance for a loan,
+ * and the yearly split that drives its tax benefits
+ *
+ * Features:
+ * - Reducing-balance EMI schedule from disbursement to closure
+ * - Floating-rate resets that change either the EMI or the tenure
+ * - One-time and recurring prepayments that reduce the EMI or the tenure
+ * - Financial-year split of interest and principal for Sections 24(b), 80C and 80E
+ * - Scenario comparison for prepayment and rate-change simulations
+ */
+
+import type { LoanDetails } from './userProfileService';
+import { getFinancialYear } from './taxEngine';
+
+// ==================== TYPES ====================
+
+export interface RateChange {
+  effectiveFrom: Date;
+  annualRate: number; // percent
+  adjust: 'emi' | 'tenure'; // What the lender changes; banks usually keep the EMI
+}
+
+export interface Prepayment {
+  date: Date; // First (or only) payment
+  amount: number;
+  frequency: 'once' | 'monthly' | 'quarterly' | 'yearly';
+  until: Date | null; // Last date for recurring prepayments
+  strategy: 'reduce_emi' | 'reduce_tenure';
+}
+
+export type LoanScheduleInput = Pick<LoanDetails, 'principalAmount' | 'interestRate' | 'tenure' | 'startDate'> &
+  Partial<Pick<LoanDetails, 'emi' | 'rateChanges' | 'prepayments'>>;
+
+export interface AmortizationRow {
+  period: number; // 1-based EMI number
+  date: Date;
+  annualRate: number;
+  openingBalance: number;
+  emi: number;
+  interest: number;
+  principal: number;
+  prepayment: number;
+  closingBalance: number;
+}
+
+export interface AmortizationSchedule {
+  rows: AmortizationRow[];
+  totalInterest: number;
+  totalPrincipal: number; // Including prepayments
+  totalPrepaid: number;
+  months: number;
+  endDate: Date;
+}
+
+export interface YearlyLoanSplit {
+  financialYear: string;
+  interest: number;
+  principal: number; // Scheduled principal plus prepayments
+  prepaid: number;
+  closingBalance: number;
+}
+
+export interface LoanTaxDeduction {
+  financialYear: string;
+  section: '24(b)' | '80C' | '80E';
+  amount: number; // Eligible amount before the section's overall cap
+}
+
+export interface LoanPosition {
+  outstanding: number;
+  principalPaid: number;
+  interestPaid: number;
+  remainingMonths: number;
+}
+
+export interface ScenarioComparison {
+  interestSaved: number;
+  monthsSaved: number;
+  baseEndDate: Date;
+  scenarioEndDate: Date;
+}
+
+// ==================== CONSTANTS ====================
+
+const MAX_MONTHS = 600; // 50 years, guards against an EMI that never repays
+const EDUCATION_LOAN_YEARS = 8; // 80E: year repayment starts and the seven after
+
+const PREPAYMENT_INTERVAL: Record<Prepayment['frequency'], number> = {
+  once: 0,
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+// ==================== CALCULATIONS ====================
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Same day of the month `months` later, clamped to the last day of shorter
+ * months (31 January + 1 month is 28/29 February, not 2 March)
+ */
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, lastDay));
+  return result;
+}
+
+function monthIndex(date: Date): number {
+  return date.getFullYear() * 12 + date.getMonth();
+}
+
+/**
+ * Equated monthly instalment for a reducing-balance loan
+ */
+export function calculateEmi(principal: number, annualRate: number, months: number): number {
+  if (principal <= 0 || months <= 0) return 0;
+  const r = annualRate / 12 / 100;
+  if (r === 0) return principal / months;
+  const factor = Math.pow(1 + r, months);
+  return (principal * r * factor) / (factor - 1);
+}
+
+/**
+ * Months needed to repay a balance at a given EMI, or Infinity if the EMI
+ * does not cover the interest
+ */
+export function monthsToRepay(balance: number, annualRate: number, emi: number): number {
+  if (balance <= 0) return 0;
+  const r = annualRate / 12 / 100;
+  if (r === 0) return Math.ceil(balance / emi);
+  if (emi <= balance * r) return Infinity;
+  return Math.ceil(-Math.log(1 - (balance * r) / emi) / Math.log(1 + r));
+}
+
+function prepaymentFor(prepayments: Prepayment[], date: Date): { amount: number; reduceEmi: boolean } {
+  let amount = 0;
+  let reduceEmi = false;
+
+  for (const p of prepayments) {
+    const first = monthIndex(new Date(p.date));
+    const current = monthIndex(date);
+    const interval = PREPAYMENT_INTERVAL[p.frequency];
+    const last = p.frequency === 'once' ? first : p.until ? monthIndex(new Date(p.until)) : Infinity;
+
+    if (current < first || current > last) continue;
+    if (interval === 0 ? current !== first : (current - first) % interval !== 0) continue;
+
+    amount += p.amount;
+    reduceEmi = reduceEmi || p.strategy === 'reduce_emi';
+  }
+
+  return { amount, reduceEmi };
+}
+
+function rateFor(loan: LoanScheduleInput, date: Date): RateChange | null {
+  return [...(loan.rateChanges ?? [])]
+    .sort((a, b) => new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime())
+    .filter(c => monthIndex(new Date(c.effectiveFrom)) <= monthIndex(date))
+    .pop() ?? null;
+}
+
+/**
+ * Full schedule from the first EMI, one month after disbursement, to the
+ * month the balance reaches zero. Rate changes apply from the EMI due in
+ * their month; prepayments are made after that month's EMI.
+ */
+export function buildAmortizationSchedule(loan: LoanScheduleInput): AmortizationSchedule {
+  const start = new Date(loan.startDate);
+  let balance = loan.principalAmount;
+  let annualRate = loan.interestRate;
+  let emi = loan.emi && loan.emi > 0 ? loan.emi : calculateEmi(balance, annualRate, loan.tenure);
+  if (monthsToRepay(balance, annualRate, emi) === Infinity) {
+    emi = calculateEmi(balance, annualRate, loan.tenure);
+  }
+  let lastPeriod = loan.tenure;
+  let appliedChange: RateChange | null = null;
+  const rows: AmortizationRow[] = [];
+
+  for (let period = 1; balance > 0.5 && period <= MAX_MONTHS; period++) {
+    const date = addMonths(start, period);
+    const openingBalance = balance;
+
+    const change = rateFor(loan, date);
+    if (change && change !== appliedChange) {
+      appliedChange = change;
+      annualRate = change.annualRate;
+      const remaining = Math.max(1, lastPeriod - period + 1);
+      if (change.adjust === 'emi' || monthsToRepay(balance, annualRate, emi) === Infinity) {
+        emi = calculateEmi(balance, annualRate, remaining);
+      } else {
+        lastPeriod = period - 1 + monthsToRepay(balance, annualRate, emi);
+      }
+    }
+
+    const interest = balance * (annualRate / 12 / 100);
+    const principal = Math.min(Math.max(0, emi - interest), balance);
+    balance -= principal;
+
+    const due = prepaymentFor(loan.prepayments ?? [], date);
+    const prepayment = Math.min(due.amount, balance);
+    balance -= prepayment;
+
+    if (prepayment > 0 && balance > 0.5) {
+      if (due.reduceEmi) {
+        emi = calculateEmi(balance, annualRate, Math.max(1, lastPeriod - period));
+      } else {
+        lastPeriod = period + monthsToRepay(balance, annualRate, emi);
+      }
+    }
+
+    rows.push({
+      period,
+      date,
+      annualRate,
+      openingBalance: round2(openingBalance),
+      emi: round2(interest + principal),
+      interest: round2(interest),
+      principal: round2(principal),
+      prepayment: round2(prepayment),
+      closingBalance: round2(Math.max(0, balance)),
+    });
+  }
+
+  return {
+    rows,
+    totalInterest: Math.round(rows.reduce((sum, r) => sum + r.interest, 0)),
+    totalPrincipal: Math.round(rows.reduce((sum, r) => sum + r.principal + r.prepayment, 0)),
+    totalPrepaid: Math.round(rows.reduce((sum, r) => sum + r.prepayment, 0)),
+    months: rows.length,
+    endDate: rows.length > 0 ? rows[rows.length - 1].date : start,
+  };
+}
+
+/**
+ * Interest and principal repaid in each financial year of the schedule
+ */
+export function splitByFinancialYear(schedule: AmortizationSchedule): YearlyLoanSplit[] {
+  const years = new Map<string, YearlyLoanSplit>();
+
+  for (const row of schedule.rows) {
+    const financialYear = getFinancialYear(row.date);
+    const year = years.get(financialYear) ?? { financialYear, interest: 0, principal: 0, prepaid: 0, closingBalance: 0 };
+    year.interest += row.interest;
+    year.principal += row.principal + row.prepayment;
+    year.prepaid += row.prepayment;
+    year.closingBalance = row.closingBalance;
+    years.set(financialYear, year);
+  }
+
+  return [...years.values()].map(y => ({
+    ...y,
+    interest: Math.round(y.interest),
+    principal: Math.round(y.principal),
+    prepaid: Math.round(y.prepaid),
+  }));
+}
+
+/**
+ * Deductions a loan's schedule supports in each financial year. Home loans
+ * give 24(b) on interest and 80C on principal; education loans give 80E on
+ * interest for the year repayment starts and the seven after it.
+ */
+export function loanTaxDeductions(
+  loanType: LoanDetails['loanType'],
+  split: YearlyLoanSplit[]
+): LoanTaxDeduction[] {
+  if (loanType === 'Home Loan') {
+    return split.flatMap(y => [
+      { financialYear: y.financialYear, section: '24(b)' as const, amount: y.interest },
+      { financialYear: y.financialYear, section: '80C' as const, amount: y.principal },
+    ]);
+  }
+  if (loanType === 'Education Loan') {
+    return split
+      .slice(0, EDUCATION_LOAN_YEARS)
+      .map(y => ({ financialYear: y.financialYear, section: '80E' as const, amount: y.interest }));
+  }
+  return [];
+}
+
+/**
+ * Where the loan stands on a date: outstanding balance, amounts repaid and
+ * EMIs left
+ */
+export function loanPositionAt(schedule: AmortizationSchedule, date: Date = new Date()): LoanPosition {
+  const paid = schedule.rows.filter(r => r.date <= date);
+  const last = paid[paid.length - 1];
+  const principalPaid = paid.reduce((sum, r) => sum + r.principal + r.prepayment, 0);
+
+  return {
+    outstanding: Math.round(last ? last.closingBalance : schedule.rows[0]?.openingBalance ?? 0),
+    principalPaid: Math.round(principalPaid),
+    interestPaid: Math.round(paid.reduce((sum, r) => sum + r.interest, 0)),
+    remainingMonths: schedule.months - paid.length,
+  };
+}
+
+/**
+ * Interest and months saved by a scenario (prepayments, a rate change)
+ * against the loan as it stands
+ */
+export function compareScenario(
+  loan: LoanScheduleInput,
+  scenario: Pick<LoanScheduleInput, 'rateChanges' | 'prepayments'>
+): ScenarioComparison {
+  const base = buildAmortizationSchedule(loan);
+  const simulated = buildAmortizationSchedule({
+    ...loan,
+    rateChanges: [...(loan.rateChanges ?? []), ...(scenario.rateChanges ?? [])],
+    prepayments: [...(loan.prepayments ?? []), ...(scenario.prepayments ?? [])],
+  });
+
+  return {
+    interestSaved: base.totalInterest - simulated.totalInterest,
+    monthsSaved: base.months - simulated.months,
+    baseEndDate: base.endDate,
+    scenarioEndDate: simulated.endDate,
+  };
+}
+
+/**
+ * Deductible amount for one section and financial year across loans
+ */
+export function loanDeductionForYear(
+  loans: Array<LoanScheduleInput & Pick<LoanDetails, 'loanType'>>,
+  section: LoanTaxDeduction['section'],
+  financialYear: string = getFinancialYear()
+): number {
+  return loans
+    .flatMap(loan => loanTaxDeductions(loan.loanType, splitByFinancialYear(buildAmortizationSchedule(loan))))
+    .filter(d => d.section === section && d.financialYear === financialYear)
+    .reduce((sum, d) => sum + d.amount, 0);
+}
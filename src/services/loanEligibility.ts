@@ -0,0 +1,445 @@
+/**
+ * Loan Eligibility Engine
+ *
+ * How much a user can borrow, and for how long, under each lender's FOIR
+ * (fixed obligations to income ratio) and income-multiple limits
+ *
+ * Features:
+ * - FOIR from loan EMIs, credit card minimums and recurring obligations found in transactions
+ * - Maximum tenure capped by the age each loan type must be repaid by
+ * - Lender-specific FOIR ceilings and income multipliers
+ * - Maximum eligible amount and tenure per loan type from the most generous lender
+ * - Feasibility check for a chosen amount, with the reason it fails
+ * - Top-up eligibility at lenders' top-up rates and limits
+ */
+
+import {
+  LENDER_OFFERS,
+  MAX_AGE_AT_MATURITY,
+  type LenderOffer,
+  type OfferLoanType,
+} from '../config/lenderOffers';
+import { userProfileService, type RecordedTransaction, type UserFinancialProfile } from './userProfileService';
+import { buildAmortizationSchedule, calculateEmi, loanPositionAt } from './loanAmortization';
+
+// ==================== TYPES ====================
+
+export interface RecurringObligation {
+  description: string;
+  category: string | null;
+  monthlyAmount: number;
+  months: number; // Distinct months it was paid in
+  lastPaid: Date;
+}
+
+export interface FoirSummary {
+  monthlyIncome: number;
+  loanEmis: number;
+  cardMinimums: number;
+  recurringObligations: number;
+  totalObligations: number;
+  foirPercent: number; // Current obligations as a share of income
+}
+
+export interface LenderEligibility {
+  lender: string;
+  rate: number;
+  maxFoirPercent: number;
+  maxEmi: number;
+  maxTenureMonths: number;
+  incomeCap: number | null; // Income multiplier applied to monthly income
+  amountCap: number | null; // Largest amount the lender offers (top-ups)
+  maxAmount: number;
+  limitedBy: 'foir' | 'income_multiple' | 'lender_limit';
+}
+
+export interface LoanEligibility {
+  loanType: OfferLoanType;
+  eligible: boolean;
+  maxAmount: number;
+  maxTenureMonths: number;
+  maxEmi: number;
+  rate: number;
+  lender: string | null; // Lender offering the largest amount
+  lenders: LenderEligibility[]; // Largest amount first
+  reason: string;
+}
+
+export interface EligibilityReport {
+  age: number;
+  foir: FoirSummary;
+  obligations: RecurringObligation[];
+  loans: LoanEligibility[];
+}
+
+export interface AffordabilityCheck {
+  loanType: OfferLoanType;
+  feasible: boolean;
+  amount: number;
+  tenureMonths: number;
+  emi: number;
+  lender: string | null;
+  foirAfterPercent: number;
+  reason: string;
+}
+
+export class LoanEligibilityError extends Error {
+  check: AffordabilityCheck;
+
+  constructor(check: AffordabilityCheck) {
+    super(check.reason);
+    this.name = 'LoanEligibilityError';
+    this.check = check;
+  }
+}
+
+// ==================== CONSTANTS ====================
+
+const LOAN_TYPES: OfferLoanType[] = ['Home Loan', 'Education Loan', 'Personal Loan', 'Car Loan', 'Business Loan'];
+const LOOKBACK_MONTHS = 6;
+const MIN_OBLIGATION_MONTHS = 3; // Paid in at least this many of the lookback months
+const AMOUNT_TOLERANCE = 0.1; // Monthly amounts within 10% count as the same payment
+const OBLIGATION_PATTERN = /\b(emi|loan|rent|lease|insurance|premium)\b/i;
+const MIN_TENURE_MONTHS = 12;
+
+// ==================== OBLIGATIONS ====================
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function normalizeDescription(description: string): string {
+  return description.toLowerCase().replace(/[^a-z\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * EMI due on each loan that still has instalments left
+ */
+function currentLoanEmis(profile: UserFinancialProfile, asOf: Date): number[] {
+  return [...profile.deductions.homeLoan, ...profile.deductions.otherLoans].flatMap(loan => {
+    const schedule = buildAmortizationSchedule(loan);
+    const position = loanPositionAt(schedule, asOf);
+    if (position.remainingMonths <= 0) return [];
+    return [schedule.rows[schedule.months - position.remainingMonths].emi];
+  });
+}
+
+/**
+ * EMIs, rent, insurance premiums and similar payments made every month for
+ * the last few months. Payments matching an EMI already on the profile are
+ * left out so they are not counted twice.
+ */
+export function detectRecurringObligations(
+  transactions: Pick<RecordedTransaction, 'amount' | 'type' | 'category' | 'description' | 'date'>[],
+  knownEmis: number[] = [],
+  asOf: Date = new Date()
+): RecurringObligation[] {
+  const since = new Date(asOf.getFullYear(), asOf.getMonth() - LOOKBACK_MONTHS, 1);
+  const groups = new Map<string, { category: string | null; byMonth: Map<string, number>; lastPaid: Date }>();
+
+  for (const tx of transactions) {
+    if (tx.type !== 'expense') continue;
+    if (!OBLIGATION_PATTERN.test(tx.category ?? '') && !OBLIGATION_PATTERN.test(tx.description)) continue;
+    const date = new Date(tx.date);
+    if (isNaN(date.getTime()) || date < since || date > asOf) continue;
+
+    const key = normalizeDescription(tx.description) || tx.category?.toLowerCase() || 'obligation';
+    const group = groups.get(key) ?? { category: tx.category, byMonth: new Map(), lastPaid: date };
+    const month = monthKey(date);
+    group.byMonth.set(month, (group.byMonth.get(month) ?? 0) + Math.abs(tx.amount));
+    if (date > group.lastPaid) group.lastPaid = date;
+    groups.set(key, group);
+  }
+
+  const obligations: RecurringObligation[] = [];
+  for (const [description, group] of groups) {
+    if (group.byMonth.size < MIN_OBLIGATION_MONTHS) continue;
+
+    const monthlyAmount = median([...group.byMonth.values()]);
+    const steady = [...group.byMonth.values()].filter(
+      amount => Math.abs(amount - monthlyAmount) <= monthlyAmount * AMOUNT_TOLERANCE
+    );
+    if (steady.length < MIN_OBLIGATION_MONTHS) continue;
+    if (knownEmis.some(emi => Math.abs(emi - monthlyAmount) <= emi * AMOUNT_TOLERANCE)) continue;
+
+    obligations.push({
+      description,
+      category: group.category,
+      monthlyAmount: Math.round(monthlyAmount),
+      months: group.byMonth.size,
+      lastPaid: group.lastPaid,
+    });
+  }
+
+  return obligations.sort((a, b) => b.monthlyAmount - a.monthlyAmount);
+}
+
+/**
+ * Fixed monthly obligations against monthly income
+ */
+export function calculateFoir(
+  profile: UserFinancialProfile,
+  obligations: RecurringObligation[],
+  asOf: Date = new Date()
+): FoirSummary {
+  const monthlyIncome = Math.round(profile.income.monthlySalary + profile.income.businessIncome / 12);
+  const loanEmis = Math.round(currentLoanEmis(profile, asOf).reduce((sum, emi) => sum + emi, 0));
+  const cardMinimums = Math.round(
+    (profile.creditCards ?? []).filter(c => c.outstanding > 0).reduce((sum, c) => sum + c.minimumPayment, 0)
+  );
+  const recurringObligations = obligations.reduce((sum, o) => sum + o.monthlyAmount, 0);
+  const totalObligations = loanEmis + cardMinimums + recurringObligations;
+
+  return {
+    monthlyIncome,
+    loanEmis,
+    cardMinimums,
+    recurringObligations,
+    totalObligations,
+    foirPercent: monthlyIncome > 0 ? Math.round((totalObligations / monthlyIncome) * 1000) / 10 : 0,
+  };
+}
+
+// ==================== ELIGIBILITY ====================
+
+/**
+ * Longest tenure a lender allows, cut short so the loan is repaid by the
+ * loan type's maximum age. An unknown age (0) leaves only the lender's cap.
+ */
+export function maxTenureForAge(offer: Pick<LenderOffer, 'loanType' | 'maxTenureMonths'>, age: number): number {
+  if (age <= 0) return offer.maxTenureMonths;
+  return Math.max(0, Math.min(offer.maxTenureMonths, (MAX_AGE_AT_MATURITY[offer.loanType] - age) * 12));
+}
+
+function lenderEligibility(
+  offer: LenderOffer,
+  foir: FoirSummary,
+  age: number,
+  amountCap: number | null = null
+): LenderEligibility {
+  const maxTenureMonths = maxTenureForAge(offer, age);
+  const maxEmi = Math.max(0, Math.floor((foir.monthlyIncome * offer.maxFoirPercent) / 100 - foir.totalObligations));
+  const incomeCap = offer.incomeMultiplier !== null ? foir.monthlyIncome * offer.incomeMultiplier : null;
+  const foirAmount = maxTenureMonths >= MIN_TENURE_MONTHS ? maxEmi / calculateEmi(1, offer.rate, maxTenureMonths) : 0;
+  const limit = Math.min(incomeCap ?? Infinity, amountCap ?? Infinity);
+  const limitedBy = limit >= foirAmount ? 'foir' : limit === amountCap ? 'lender_limit' : 'income_multiple';
+
+  return {
+    lender: offer.lender,
+    rate: offer.rate,
+    maxFoirPercent: offer.maxFoirPercent,
+    maxEmi,
+    maxTenureMonths,
+    incomeCap,
+    amountCap,
+    maxAmount: Math.floor(Math.min(foirAmount, limit) / 10000) * 10000,
+    limitedBy,
+  };
+}
+
+function assessLoanType(
+  loanType: OfferLoanType,
+  foir: FoirSummary,
+  age: number,
+  offers: LenderOffer[],
+  topUp = false
+): LoanEligibility {
+  const lenders = offers
+    .filter(o => o.loanType === loanType)
+    .flatMap(o => {
+      if (!topUp) return [lenderEligibility(o, foir, age)];
+      return o.topUp ? [lenderEligibility({ ...o, rate: o.topUp.rate }, foir, age, o.topUp.maxAmount)] : [];
+    })
+    .sort((a, b) => b.maxAmount - a.maxAmount);
+  const best = lenders[0];
+
+  const result: LoanEligibility = {
+    loanType,
+    eligible: false,
+    maxAmount: best?.maxAmount ?? 0,
+    maxTenureMonths: best?.maxTenureMonths ?? 0,
+    maxEmi: best?.maxEmi ?? 0,
+    rate: best?.rate ?? 0,
+    lender: best?.lender ?? null,
+    lenders,
+    reason: '',
+  };
+
+  if (!best) {
+    result.reason = topUp ? `No lender offers top-ups on a ${loanType}` : `No lender offers for ${loanType}`;
+  } else if (foir.monthlyIncome <= 0) {
+    result.reason = 'No income on record to assess eligibility';
+  } else if (best.maxTenureMonths < MIN_TENURE_MONTHS) {
+    result.reason = `At ${age}, you are past the age by which a ${loanType} must be repaid (${MAX_AGE_AT_MATURITY[loanType]})`;
+  } else if (best.maxEmi <= 0) {
+    const ceiling = Math.max(...lenders.map(l => l.maxFoirPercent));
+    result.reason = `Existing obligations already take ${foir.foirPercent}% of income; lenders allow up to ${ceiling}%`;
+  } else {
+    result.eligible = best.maxAmount > 0;
+    result.reason = `Up to ₹${best.maxAmount.toLocaleString('en-IN')} over ${best.maxTenureMonths} months at ${best.rate}% with ${best.lender}` +
+      (best.limitedBy === 'income_multiple' ? ' (limited by income multiple)' : '') +
+      (best.limitedBy === 'lender_limit' ? ` (${best.lender}'s largest ${topUp ? 'top-up' : 'loan'})` : '');
+  }
+
+  return result;
+}
+
+/**
+ * FOIR and the maximum amount and tenure for each loan type
+ */
+export function assessEligibility(
+  profile: UserFinancialProfile,
+  transactions: RecordedTransaction[],
+  asOf: Date = new Date(),
+  offers: LenderOffer[] = LENDER_OFFERS
+): EligibilityReport {
+  const obligations = detectRecurringObligations(transactions, currentLoanEmis(profile, asOf), asOf);
+  const foir = calculateFoir(profile, obligations, asOf);
+  const age = profile.personalInfo.age || 0;
+
+  return {
+    age,
+    foir,
+    obligations,
+    loans: LOAN_TYPES.map(loanType => assessLoanType(loanType, foir, age, offers)),
+  };
+}
+
+export function eligibilityFor(report: EligibilityReport, loanType: OfferLoanType): LoanEligibility {
+  const eligibility = report.loans.find(l => l.loanType === loanType);
+  if (!eligibility) throw new Error(`No eligibility assessed for ${loanType}`);
+  return eligibility;
+}
+
+/**
+ * Maximum top-up on an existing home loan, from lenders that offer top-ups,
+ * at their top-up rates and within their top-up limits
+ */
+export function topUpEligibility(report: EligibilityReport, offers: LenderOffer[] = LENDER_OFFERS): LoanEligibility {
+  return assessLoanType('Home Loan', report.foir, report.age, offers, true);
+}
+
+/**
+ * Whether any lender would lend this amount over this tenure, and if not,
+ * why the closest lender would refuse
+ */
+export function checkAffordability(
+  report: EligibilityReport,
+  loanType: OfferLoanType,
+  amount: number,
+  tenureMonths?: number
+): AffordabilityCheck {
+  return checkEligibility(report.foir, eligibilityFor(report, loanType), amount, tenureMonths);
+}
+
+/**
+ * Whether a lender would top up an existing home loan by this amount over
+ * the loan's remaining tenure
+ */
+export function checkTopUpAffordability(
+  report: EligibilityReport,
+  amount: number,
+  tenureMonths: number,
+  offers: LenderOffer[] = LENDER_OFFERS
+): AffordabilityCheck {
+  return checkEligibility(report.foir, topUpEligibility(report, offers), amount, tenureMonths);
+}
+
+function checkEligibility(
+  foir: FoirSummary,
+  eligibility: LoanEligibility,
+  amount: number,
+  tenureMonths?: number
+): AffordabilityCheck {
+  const { loanType } = eligibility;
+  const tenure = tenureMonths ?? eligibility.maxTenureMonths;
+  const foirAfter = (emi: number) =>
+    foir.monthlyIncome > 0 ? Math.round(((foir.totalObligations + emi) / foir.monthlyIncome) * 1000) / 10 : 0;
+
+  const bestEmi = calculateEmi(amount, eligibility.rate, tenure);
+
+  const check: AffordabilityCheck = {
+    loanType,
+    feasible: false,
+    amount,
+    tenureMonths: tenure,
+    emi: Math.round(bestEmi),
+    lender: eligibility.lender,
+    foirAfterPercent: foirAfter(bestEmi),
+    reason: eligibility.reason,
+  };
+
+  if (amount <= 0) {
+    check.reason = 'Enter an amount to borrow';
+    return check;
+  }
+  if (!eligibility.eligible) return check;
+
+  const verdicts = eligibility.lenders.map(lender => {
+    const emi = calculateEmi(amount, lender.rate, tenure);
+    let reason = '';
+    if (tenure > lender.maxTenureMonths) {
+      reason = `${lender.lender} lends for at most ${lender.maxTenureMonths} months at your age`;
+    } else if (emi > lender.maxEmi) {
+      reason = `EMI of ₹${Math.round(emi).toLocaleString('en-IN')} would take FOIR to ${foirAfter(emi)}%, above ${lender.lender}'s ${lender.maxFoirPercent}% limit`;
+    } else if (lender.incomeCap !== null && amount > lender.incomeCap) {
+      reason = `Above ${lender.lender}'s limit of ₹${lender.incomeCap.toLocaleString('en-IN')} for your income`;
+    } else if (lender.amountCap !== null && amount > lender.amountCap) {
+      reason = `Above ${lender.lender}'s largest offer of ₹${lender.amountCap.toLocaleString('en-IN')}`;
+    }
+    return { lender, emi, reason };
+  });
+
+  const approved = verdicts.find(v => !v.reason);
+  if (approved) {
+    return {
+      ...check,
+      feasible: true,
+      emi: Math.round(approved.emi),
+      lender: approved.lender.lender,
+      foirAfterPercent: foirAfter(approved.emi),
+      reason: `${approved.lender.lender} can lend ₹${amount.toLocaleString('en-IN')} at ${approved.lender.rate}% for ${tenure} months`,
+    };
+  }
+
+  check.reason = `${verdicts[0].reason}. The most you can borrow is ₹${eligibility.maxAmount.toLocaleString('en-IN')}`;
+  return check;
+}
+
+// ==================== SERVICE CLASS ====================
+
+export class LoanEligibilityEngine {
+  /**
+   * Eligibility report from the user's profile and transactions
+   */
+  async getReport(userId: string): Promise<EligibilityReport> {
+    const profile = await userProfileService.getProfile(userId);
+    if (!profile) throw new Error('Profile not found');
+
+    return assessEligibility(profile, await userProfileService.getTransactions(userId));
+  }
+
+  /**
+   * Check a loan amount, throwing LoanEligibilityError with the reason when
+   * no lender would approve it
+   */
+  async assertAffordable(
+    userId: string,
+    loanType: OfferLoanType,
+    amount: number,
+    tenureMonths?: number
+  ): Promise<AffordabilityCheck> {
+    const check = checkAffordability(await this.getReport(userId), loanType, amount, tenureMonths);
+    if (!check.feasible) throw new LoanEligibilityError(check);
+    return check;
+  }
+}
+
+// Export singleton instance
+export const loanEligibilityEngine = new LoanEligibilityEngine();
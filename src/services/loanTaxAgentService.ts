@@ -3,8 +3,22 @@
  * AI-powered agent for loan recommendations and tax optimization strategies
  */
 
-import type { UserFinancialProfile } from './userProfileService';
-import { taxService } from './taxService';
+import { userProfileService, type UserFinancialProfile } from './userProfileService';
+import { estimateDeductionSaving, type TaxInput } from './taxEngine';
+import { analyzeRefinance, taxInputWithoutLoan, type RefinanceOption, type TopUpQuote } from './refinanceAnalyzer';
+import { buildAmortizationSchedule, calculateEmi, loanPositionAt } from './loanAmortization';
+import { LENDER_OFFERS } from '../config/lenderOffers';
+import {
+  assessEligibility,
+  checkAffordability,
+  checkTopUpAffordability,
+  eligibilityFor,
+  LoanEligibilityError,
+  topUpEligibility,
+  type AffordabilityCheck,
+  type LoanEligibility,
+} from './loanEligibility';
+import { stepUpAuthService, StepUpError } from './stepUpAuthService';
 import axios from 'axios';
 
 const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
@@ -90,34 +104,39 @@ export class LoanTaxAgentService {
   async getLoanRecommendations(profile: UserFinancialProfile): Promise<LoanRecommendation[]> {
     const recommendations: LoanRecommendation[] = [];
 
-    // Calculate affordability
+    // Calculate affordability from FOIR, lender limits and age
     const monthlyIncome = profile.income.monthlySalary;
-    const maxEMI = monthlyIncome * 0.40; // 40% of income for EMI
-
-    // Calculate current EMI commitments
-    const currentEMI = [...profile.deductions.homeLoan, ...profile.deductions.otherLoans]
-      .reduce((sum, loan) => sum + loan.emi, 0);
-
-    const availableEMI = maxEMI - currentEMI;
+    const eligibility = assessEligibility(profile, await userProfileService.getTransactions(profile.userId));
+    const homeLoan = eligibilityFor(eligibility, 'Home Loan');
+    const educationLoan = eligibilityFor(eligibility, 'Education Loan');
+    const personalLoan = eligibilityFor(eligibility, 'Personal Loan');
+    const taxInput = this.getTaxInput(profile);
 
     // Home Loan Recommendation (if user doesn't have one)
-    if (profile.deductions.homeLoan.length === 0 && monthlyIncome >= 30000) {
-      const homeLoanRec = this.calculateHomeLoanRecommendation(monthlyIncome, availableEMI);
+    if (profile.deductions.homeLoan.length === 0 && monthlyIncome >= 30000 && homeLoan.eligible) {
+      const homeLoanRec = this.calculateHomeLoanRecommendation(monthlyIncome, homeLoan, taxInput);
       recommendations.push(homeLoanRec);
     }
 
     // Education Loan (if user has children or wants to upskill)
-    if (profile.personalInfo.age < 50) {
-      const eduLoanRec = this.calculateEducationLoanRecommendation(monthlyIncome, availableEMI);
+    if (profile.personalInfo.age < 50 && educationLoan.eligible) {
+      const eduLoanRec = this.calculateEducationLoanRecommendation(monthlyIncome, educationLoan, taxInput);
       recommendations.push(eduLoanRec);
     }
 
     // Personal Loan for Tax Planning (Short-term)
-    if (availableEMI > 5000) {
-      const personalLoanRec = this.calculatePersonalLoanForTax(monthlyIncome, availableEMI);
+    if (personalLoan.eligible && personalLoan.maxEmi > 5000) {
+      const personalLoanRec = this.calculatePersonalLoanForTax(monthlyIncome, personalLoan, taxInput);
       recommendations.push(personalLoanRec);
     }
 
+    // Top-up on an existing home loan, priced against balance-transfer offers
+    const topUp = topUpEligibility(eligibility);
+    if (profile.deductions.homeLoan.length > 0 && topUp.eligible && topUp.maxEmi > 5000) {
+      const topUpRec = this.calculateTopUpRecommendation(profile, topUp, taxInput);
+      if (topUpRec) recommendations.push(topUpRec);
+    }
+
     // Get AI insights for each recommendation
     for (const rec of recommendations) {
       rec.aiReasoning = await this.getAIInsights(rec, profile);
@@ -126,18 +145,44 @@ export class LoanTaxAgentService {
     return recommendations;
   }
 
+  /**
+   * Tax engine input for the profile's current claims. Loan and investment
+   * deductions only count under the old regime, so savings are measured there.
+   */
+  private getTaxInput(profile: UserFinancialProfile): TaxInput {
+    const totals = userProfileService.getTotalDeductions(profile);
+
+    return {
+      grossIncome: profile.income.annualSalary,
+      regime: 'old',
+      age: profile.personalInfo.age,
+      deductions: {
+        section80C: totals.section80C,
+        section80D: totals.section80D,
+        section80CCD1B: totals.section80CCD1B,
+        homeLoanInterest: totals.homeLoanInterest,
+        educationLoanInterest: totals.educationLoanInterest,
+      },
+    };
+  }
+
   /**
    * Calculate Home Loan Recommendation with real-time data
    */
-  private calculateHomeLoanRecommendation(monthlyIncome: number, availableEMI: number): LoanRecommendation {
-    // Assume 20-year tenure, 8.5% interest
+  private calculateHomeLoanRecommendation(
+    monthlyIncome: number,
+    eligibility: LoanEligibility,
+    taxInput: TaxInput
+  ): LoanRecommendation {
+    // Assume 20-year tenure (shorter if age requires), 8.5% interest
     const interestRate = 8.5;
-    const tenure = 20 * 12; // 240 months
+    const tenure = Math.min(20 * 12, eligibility.maxTenureMonths);
+    const years = tenure / 12;
     
-    // Calculate max loan amount based on available EMI
+    // Calculate max loan amount based on the EMI lenders allow, within the eligible amount
     const monthlyRate = interestRate / 12 / 100;
-    const loanAmount = (availableEMI * (Math.pow(1 + monthlyRate, tenure) - 1)) / (monthlyRate * Math.pow(1 + monthlyRate, tenure));
-    const recommendedAmount = Math.floor(loanAmount / 100000) * 100000; // Round to lakhs
+    const loanAmount = (eligibility.maxEmi * (Math.pow(1 + monthlyRate, tenure) - 1)) / (monthlyRate * Math.pow(1 + monthlyRate, tenure));
+    const recommendedAmount = Math.floor(Math.min(loanAmount, eligibility.maxAmount) / 100000) * 100000; // Round to lakhs
 
     // Calculate EMI for recommended amount
     const emi = (recommendedAmount * monthlyRate * Math.pow(1 + monthlyRate, tenure)) / (Math.pow(1 + monthlyRate, tenure) - 1);
@@ -146,12 +191,15 @@ export class LoanTaxAgentService {
     const totalInterest = totalPayment - recommendedAmount;
 
     // Tax benefits
-    const annualInterest = totalInterest / 20; // Average per year
-    const annualPrincipal = recommendedAmount / 20;
+    const annualInterest = totalInterest / years; // Average per year
+    const annualPrincipal = recommendedAmount / years;
     const interestDeduction = Math.min(annualInterest, 200000); // Section 24(b) limit
     const principalDeduction = Math.min(annualPrincipal, 150000); // Section 80C limit
-    const annualTaxSaving = (interestDeduction + principalDeduction) * 0.30; // 30% tax bracket
-    const lifeTimeTaxSaving = annualTaxSaving * 20;
+    const annualTaxSaving = estimateDeductionSaving(taxInput, {
+      homeLoanInterest: interestDeduction,
+      section80C: principalDeduction,
+    });
+    const lifeTimeTaxSaving = annualTaxSaving * years;
 
     const effectiveCost = totalPayment - lifeTimeTaxSaving;
 
@@ -204,10 +252,16 @@ export class LoanTaxAgentService {
   /**
    * Calculate Education Loan Recommendation
    */
-  private calculateEducationLoanRecommendation(monthlyIncome: number, _availableEMI: number): LoanRecommendation {
+  private calculateEducationLoanRecommendation(
+    monthlyIncome: number,
+    eligibility: LoanEligibility,
+    taxInput: TaxInput
+  ): LoanRecommendation {
     const interestRate = 9.5; // Education loan rate
-    const tenure = 10 * 12; // 10 years
-    const recommendedAmount = Math.min(1000000, monthlyIncome * 40); // Max 10L or 40x monthly income
+    const tenure = Math.min(10 * 12, eligibility.maxTenureMonths); // 10 years
+    const years = tenure / 12;
+    const affordable = Math.min(eligibility.maxAmount, eligibility.maxEmi / calculateEmi(1, interestRate, tenure));
+    const recommendedAmount = Math.floor(Math.min(1000000, monthlyIncome * 40, affordable) / 10000) * 10000; // Max 10L or 40x monthly income
 
     const monthlyRate = interestRate / 12 / 100;
     const emi = (recommendedAmount * monthlyRate * Math.pow(1 + monthlyRate, tenure)) / (Math.pow(1 + monthlyRate, tenure) - 1);
@@ -216,8 +270,8 @@ export class LoanTaxAgentService {
     const totalInterest = totalPayment - recommendedAmount;
 
     // Education loan: Full interest deduction under Section 80E (no limit!)
-    const annualTaxSaving = (totalInterest / 10) * 0.30;
-    const lifeTimeTaxSaving = annualTaxSaving * 10;
+    const annualTaxSaving = estimateDeductionSaving(taxInput, { educationLoanInterest: totalInterest / years });
+    const lifeTimeTaxSaving = annualTaxSaving * years;
 
     return {
       loanType: 'Education Loan',
@@ -268,16 +322,22 @@ export class LoanTaxAgentService {
   /**
    * Calculate Personal Loan for Tax Planning
    */
-  private calculatePersonalLoanForTax(_monthlyIncome: number, availableEMI: number): LoanRecommendation {
+  private calculatePersonalLoanForTax(
+    _monthlyIncome: number,
+    eligibility: LoanEligibility,
+    taxInput: TaxInput
+  ): LoanRecommendation {
     const interestRate = 11.5;
-    const tenure = 3 * 12; // 3 years
-    const recommendedAmount = Math.min(300000, availableEMI * 30);
+    const tenure = Math.min(3 * 12, eligibility.maxTenureMonths); // 3 years
+    const affordable = Math.min(eligibility.maxAmount, eligibility.maxEmi / calculateEmi(1, interestRate, tenure));
+    const recommendedAmount = Math.floor(Math.min(300000, affordable) / 10000) * 10000;
 
     const monthlyRate = interestRate / 12 / 100;
     const emi = (recommendedAmount * monthlyRate * Math.pow(1 + monthlyRate, tenure)) / (Math.pow(1 + monthlyRate, tenure) - 1);
     
     const totalPayment = emi * tenure;
     const totalInterest = totalPayment - recommendedAmount;
+    const annualTaxSaving = estimateDeductionSaving(taxInput, { section80C: recommendedAmount }); // If invested in 80C
 
     return {
       loanType: 'Personal Loan',
@@ -285,8 +345,8 @@ export class LoanTaxAgentService {
       purpose: 'Short-term liquidity for tax-saving investments (80C, 80CCD1B)',
       taxBenefit: {
         section: 'Indirect (via 80C investments)',
-        annualSaving: Math.round(recommendedAmount * 0.30), // If invested in 80C
-        lifeTimeSaving: Math.round(recommendedAmount * 0.30 * 3),
+        annualSaving: Math.round(annualTaxSaving),
+        lifeTimeSaving: Math.round(annualTaxSaving * 3),
       },
       bestBanks: [
         {
@@ -315,7 +375,7 @@ export class LoanTaxAgentService {
         monthlyEMI: Math.round(emi),
         totalInterest: Math.round(totalInterest),
         totalPayment: Math.round(totalPayment),
-        effectiveCost: Math.round(totalPayment - (recommendedAmount * 0.30)), // After tax benefit
+        effectiveCost: Math.round(totalPayment - annualTaxSaving), // After tax benefit
         breakEvenPeriod: 12,
       },
       aiReasoning: '',
@@ -325,6 +385,94 @@ export class LoanTaxAgentService {
     };
   }
 
+  /**
+   * Home loan with the largest outstanding balance, if any EMIs are left on it
+   */
+  private largestHomeLoan(profile: UserFinancialProfile) {
+    const positions = profile.deductions.homeLoan.map(loan => ({
+      loan,
+      position: loanPositionAt(buildAmortizationSchedule(loan)),
+    }));
+    const largest = positions.sort((a, b) => b.position.outstanding - a.position.outstanding)[0];
+    return largest && largest.position.remainingMonths > 0 ? largest : null;
+  }
+
+  /**
+   * Calculate a top-up on the user's largest home loan. The top-up comes with
+   * a balance transfer, so each lender's quote includes its switching costs.
+   */
+  private calculateTopUpRecommendation(
+    profile: UserFinancialProfile,
+    eligibility: LoanEligibility,
+    taxInput: TaxInput,
+    customAmount?: number
+  ): LoanRecommendation | null {
+    const largest = this.largestHomeLoan(profile);
+    if (!largest) return null;
+
+    const { loan } = largest;
+    const cheapestTopUp = LENDER_OFFERS
+      .flatMap(o => (o.loanType === 'Home Loan' && o.topUp ? [o.topUp] : []))
+      .sort((a, b) => a.rate - b.rate)[0];
+    if (!cheapestTopUp) return null;
+
+    // Size the top-up to the EMI headroom over the remaining tenure
+    const months = Math.min(largest.position.remainingMonths, eligibility.maxTenureMonths);
+    const affordable = Math.min(eligibility.maxAmount, eligibility.maxEmi / calculateEmi(1, cheapestTopUp.rate, months));
+    const recommendedAmount = customAmount ?? Math.min(
+      Math.floor(affordable / 100000) * 100000,
+      cheapestTopUp.maxAmount
+    );
+    if (recommendedAmount <= 0 || (customAmount === undefined && recommendedAmount < 100000)) return null;
+
+    const analysis = analyzeRefinance(loan, taxInputWithoutLoan(profile, loan.id), { topUpAmount: recommendedAmount });
+    const quotes = analysis.options
+      .filter((o): o is RefinanceOption & { topUp: TopUpQuote } => o.topUp !== null)
+      .sort((a, b) => a.topUp.rate - b.topUp.rate);
+    const best = quotes[0]?.topUp;
+    if (!best) return null;
+
+    // Interest on a top-up spent on repairing the house counts under 24(b), up to ₹30,000
+    const years = best.months / 12;
+    const annualTaxSaving = estimateDeductionSaving(taxInput, {
+      homeLoanInterest: Math.min(best.totalInterest / years, 30000),
+    });
+    const totalPayment = best.emi * best.months;
+    const transfer = analysis.best;
+
+    return {
+      loanType: 'Top-up Loan',
+      recommendedAmount: best.amount,
+      ...(customAmount !== undefined && { customAmount }),
+      purpose: transfer
+        ? `Move your ${loan.bankName} home loan to ${transfer.lender} and borrow more at home-loan rates`
+        : `Borrow more against your home loan at home-loan rates for repairs or other needs`,
+      taxBenefit: {
+        section: '24(b) (repair or renovation)',
+        annualSaving: Math.round(annualTaxSaving),
+        lifeTimeSaving: Math.round(annualTaxSaving * years),
+      },
+      bestBanks: quotes.map(o => ({
+        name: `${o.lender} Balance Transfer + Top-up`,
+        interestRate: o.topUp.rate,
+        processingFee: o.costs.processingFee,
+        emi: o.topUp.emi,
+        specialFeatures: [...o.features, o.reason],
+      })),
+      realTimeCalculations: {
+        monthlyEMI: best.emi,
+        totalInterest: best.totalInterest,
+        totalPayment: Math.round(totalPayment),
+        effectiveCost: Math.round(totalPayment - annualTaxSaving * years),
+        breakEvenPeriod: quotes[0].breakEvenMonth ?? best.months,
+      },
+      aiReasoning: '',
+      riskAssessment: best.emi <= eligibility.maxEmi / 2 ? 'Low Risk' : best.emi <= eligibility.maxEmi ? 'Medium Risk' : 'High Risk',
+      recommendation: transfer ? 'Recommended' : 'Consider Alternatives',
+      allowCustomAmount: true,
+    };
+  }
+
   /**
    * Get AI insights using Gemini API
    */
@@ -398,8 +546,8 @@ Provide a 2-sentence personalized insight on why this loan makes sense (or doesn
     const strategies: TaxOptimizationStrategy[] = [];
 
     const annualIncome = profile.income.annualSalary;
-    // Calculate tax to determine potential savings
-    taxService.calculateNewRegime(annualIncome);
+    // Savings are measured against what the profile already claims
+    const taxInput = this.getTaxInput(profile);
 
     // Strategy 1: Maximize Section 80C
     if (profile.deductions.section80C.reduce((sum, d) => sum + d.amount, 0) < 150000) {
@@ -411,7 +559,7 @@ Provide a 2-sentence personalized insight on why this loan makes sense (or doesn
           'Or split: ₹75K in PPF (safe) + ₹75K in ELSS (growth)',
           'Allocate EPF contributions to reach the limit',
         ],
-        potentialSaving: Math.round(150000 * 0.30), // ₹45,000
+        potentialSaving: estimateDeductionSaving(taxInput, { section80C: 150000 }),
         implementationDifficulty: 'Easy',
         timeToImplement: '1 day',
         requiredActions: [
@@ -436,7 +584,7 @@ Provide a 2-sentence personalized insight on why this loan makes sense (or doesn
           'Invest ₹50,000 annually',
           'Choose equity-heavy option for better returns',
         ],
-        potentialSaving: Math.round(50000 * 0.30), // ₹15,000
+        potentialSaving: estimateDeductionSaving(taxInput, { section80CCD1B: 50000 }),
         implementationDifficulty: 'Easy',
         timeToImplement: '1 hour',
         requiredActions: [
@@ -460,7 +608,7 @@ Provide a 2-sentence personalized insight on why this loan makes sense (or doesn
           'Premium up to ₹25K qualifies for deduction',
           'Additional ₹25K if parents are above 60',
         ],
-        potentialSaving: Math.round(25000 * 0.30), // ₹7,500
+        potentialSaving: estimateDeductionSaving(taxInput, { section80D: 25000 }),
         implementationDifficulty: 'Medium',
         timeToImplement: '1 week',
         requiredActions: [
@@ -484,7 +632,7 @@ Provide a 2-sentence personalized insight on why this loan makes sense (or doesn
           'Principal repayment: Up to ₹1.5L (under 80C)',
           'Total potential deduction: ₹3.5L annually',
         ],
-        potentialSaving: Math.round(350000 * 0.30), // ₹1,05,000
+        potentialSaving: estimateDeductionSaving(taxInput, { homeLoanInterest: 200000, section80C: 150000 }),
         implementationDifficulty: 'Complex',
         timeToImplement: '1-2 months',
         requiredActions: [
@@ -538,26 +686,54 @@ Provide a 2-sentence personalized insight on why this loan makes sense (or doesn
    * Recalculate loan with custom amount provided by user
    */
   async recalculateWithCustomAmount(
-    loanType: 'Home Loan' | 'Education Loan' | 'Personal Loan',
+    loanType: LoanRecommendation['loanType'],
     customAmount: number,
     profile: UserFinancialProfile
   ): Promise<LoanRecommendation> {
+    // Reject amounts no lender would approve, with the reason. A top-up runs
+    // for what is left of the home loan, at the lenders' top-up rates.
+    const report = assessEligibility(profile, await userProfileService.getTransactions(profile.userId));
+    let eligibility: LoanEligibility;
+    let tenure: number;
+    let check: AffordabilityCheck;
+    if (loanType === 'Top-up Loan') {
+      const largest = this.largestHomeLoan(profile);
+      if (!largest) throw new Error('A top-up needs an existing home loan with EMIs left to pay');
+      eligibility = topUpEligibility(report);
+      tenure = largest.position.remainingMonths;
+      check = checkTopUpAffordability(report, customAmount, tenure);
+    } else {
+      eligibility = eligibilityFor(report, loanType);
+      tenure = Math.min(
+        { 'Home Loan': 20 * 12, 'Education Loan': 10 * 12, 'Personal Loan': 3 * 12 }[loanType],
+        eligibility.maxTenureMonths
+      );
+      check = checkAffordability(report, loanType, customAmount, tenure);
+    }
+    if (!check.feasible) throw new LoanEligibilityError(check);
+
     // Get the appropriate calculation method based on loan type
     let recommendation: LoanRecommendation;
+    const taxInput = this.getTaxInput(profile);
 
     if (loanType === 'Home Loan') {
-      recommendation = this.calculateCustomHomeLoan(customAmount, profile.income.monthlySalary);
+      recommendation = this.calculateCustomHomeLoan(customAmount, tenure, profile.income.monthlySalary, taxInput);
     } else if (loanType === 'Education Loan') {
-      recommendation = this.calculateCustomEducationLoan(customAmount);
+      recommendation = this.calculateCustomEducationLoan(customAmount, tenure, taxInput);
+    } else if (loanType === 'Top-up Loan') {
+      const topUp = this.calculateTopUpRecommendation(profile, eligibility, taxInput, customAmount);
+      if (!topUp) throw new Error('A top-up needs an existing home loan with a lender offering top-ups');
+      recommendation = topUp;
     } else {
-      recommendation = this.calculateCustomPersonalLoan(customAmount);
+      recommendation = this.calculateCustomPersonalLoan(customAmount, tenure, taxInput);
     }
 
     // Get AI insights for custom amount
     recommendation.aiReasoning = await this.getAIInsightsForCustomAmount(
       recommendation,
       profile,
-      customAmount
+      customAmount,
+      eligibility.maxAmount
     );
 
     return recommendation;
@@ -566,9 +742,14 @@ Provide a 2-sentence personalized insight on why this loan makes sense (or doesn
   /**
    * Calculate custom home loan
    */
-  private calculateCustomHomeLoan(customAmount: number, monthlyIncome: number): LoanRecommendation {
+  private calculateCustomHomeLoan(
+    customAmount: number,
+    tenure: number,
+    monthlyIncome: number,
+    taxInput: TaxInput
+  ): LoanRecommendation {
     const interestRate = 8.5;
-    const tenure = 20 * 12;
+    const years = tenure / 12;
     
     const monthlyRate = interestRate / 12 / 100;
     const emi = (customAmount * monthlyRate * Math.pow(1 + monthlyRate, tenure)) / (Math.pow(1 + monthlyRate, tenure) - 1);
@@ -576,12 +757,15 @@ Provide a 2-sentence personalized insight on why this loan makes sense (or doesn
     const totalPayment = emi * tenure;
     const totalInterest = totalPayment - customAmount;
 
-    const annualInterest = totalInterest / 20;
-    const annualPrincipal = customAmount / 20;
+    const annualInterest = totalInterest / years;
+    const annualPrincipal = customAmount / years;
     const interestDeduction = Math.min(annualInterest, 200000);
     const principalDeduction = Math.min(annualPrincipal, 150000);
-    const annualTaxSaving = (interestDeduction + principalDeduction) * 0.30;
-    const lifeTimeTaxSaving = annualTaxSaving * 20;
+    const annualTaxSaving = estimateDeductionSaving(taxInput, {
+      homeLoanInterest: interestDeduction,
+      section80C: principalDeduction,
+    });
+    const lifeTimeTaxSaving = annualTaxSaving * years;
 
     const effectiveCost = totalPayment - lifeTimeTaxSaving;
     const affordability = (emi / monthlyIncome) * 100;
@@ -636,17 +820,17 @@ Provide a 2-sentence personalized insight on why this loan makes sense (or doesn
   /**
    * Calculate custom education loan
    */
-  private calculateCustomEducationLoan(customAmount: number): LoanRecommendation {
+  private calculateCustomEducationLoan(customAmount: number, tenure: number, taxInput: TaxInput): LoanRecommendation {
     const interestRate = 9.5;
-    const tenure = 10 * 12;
+    const years = tenure / 12;
 
     const monthlyRate = interestRate / 12 / 100;
     const emi = (customAmount * monthlyRate * Math.pow(1 + monthlyRate, tenure)) / (Math.pow(1 + monthlyRate, tenure) - 1);
     
     const totalPayment = emi * tenure;
     const totalInterest = totalPayment - customAmount;
-    const annualTaxSaving = (totalInterest / 10) * 0.30;
-    const lifeTimeTaxSaving = annualTaxSaving * 10;
+    const annualTaxSaving = estimateDeductionSaving(taxInput, { educationLoanInterest: totalInterest / years });
+    const lifeTimeTaxSaving = annualTaxSaving * years;
 
     return {
       loanType: 'Education Loan',
@@ -698,15 +882,15 @@ Provide a 2-sentence personalized insight on why this loan makes sense (or doesn
   /**
    * Calculate custom personal loan
    */
-  private calculateCustomPersonalLoan(customAmount: number): LoanRecommendation {
+  private calculateCustomPersonalLoan(customAmount: number, tenure: number, taxInput: TaxInput): LoanRecommendation {
     const interestRate = 11.5;
-    const tenure = 3 * 12;
 
     const monthlyRate = interestRate / 12 / 100;
     const emi = (customAmount * monthlyRate * Math.pow(1 + monthlyRate, tenure)) / (Math.pow(1 + monthlyRate, tenure) - 1);
     
     const totalPayment = emi * tenure;
     const totalInterest = totalPayment - customAmount;
+    const annualTaxSaving = estimateDeductionSaving(taxInput, { section80C: customAmount }); // If invested in 80C
 
     return {
       loanType: 'Personal Loan',
@@ -715,8 +899,8 @@ Provide a 2-sentence personalized insight on why this loan makes sense (or doesn
       purpose: 'Short-term liquidity for tax-saving investments (80C, 80CCD1B)',
       taxBenefit: {
         section: 'Indirect (via 80C investments)',
-        annualSaving: Math.round(customAmount * 0.30),
-        lifeTimeSaving: Math.round(customAmount * 0.30 * 3),
+        annualSaving: Math.round(annualTaxSaving),
+        lifeTimeSaving: Math.round(annualTaxSaving * (tenure / 12)),
       },
       bestBanks: [
         {
@@ -745,7 +929,7 @@ Provide a 2-sentence personalized insight on why this loan makes sense (or doesn
         monthlyEMI: Math.round(emi),
         totalInterest: Math.round(totalInterest),
         totalPayment: Math.round(totalPayment),
-        effectiveCost: Math.round(totalPayment - (customAmount * 0.30)),
+        effectiveCost: Math.round(totalPayment - annualTaxSaving),
         breakEvenPeriod: 12,
       },
       aiReasoning: '',
@@ -761,11 +945,12 @@ Provide a 2-sentence personalized insight on why this loan makes sense (or doesn
   private async getAIInsightsForCustomAmount(
     recommendation: LoanRecommendation,
     profile: UserFinancialProfile,
-    customAmount: number
+    customAmount: number,
+    maxAmount: number
   ): Promise<string> {
     try {
       if (!GEMINI_API_KEY || GEMINI_API_KEY.includes('your_')) {
-        return this.getFallbackInsightsForCustom(recommendation, profile, customAmount);
+        return this.getFallbackInsightsForCustom(recommendation, profile, customAmount, maxAmount);
       }
 
       const prompt = `
@@ -798,20 +983,22 @@ Provide a 2-sentence analysis: Is this custom amount suitable for the user? Why
       );
 
       const output = response.data.candidates?.[0]?.output || response.data.candidates?.[0]?.text;
-      return output || this.getFallbackInsightsForCustom(recommendation, profile, customAmount);
+      return output || this.getFallbackInsightsForCustom(recommendation, profile, customAmount, maxAmount);
     } catch (error) {
       console.error('Error getting AI insights:', error);
-      return this.getFallbackInsightsForCustom(recommendation, profile, customAmount);
+      return this.getFallbackInsightsForCustom(recommendation, profile, customAmount, maxAmount);
     }
   }
 
   /**
-   * Fallback insights for custom amount
+   * Fallback insights for custom amount, pointing at the eligible maximum
+   * when the EMI is too high
    */
   private getFallbackInsightsForCustom(
     recommendation: LoanRecommendation,
     profile: UserFinancialProfile,
-    customAmount: number
+    customAmount: number,
+    maxAmount: number
   ): string {
     const emiPercent = (recommendation.realTimeCalculations.monthlyEMI / profile.income.monthlySalary) * 100;
 
@@ -822,7 +1009,7 @@ Provide a 2-sentence analysis: Is this custom amount suitable for the user? Why
     } else if (emiPercent <= 50) {
       return `⚠️ The EMI of ₹${recommendation.realTimeCalculations.monthlyEMI.toLocaleString()} (${emiPercent.toFixed(1)}% of income) is high. Consider reducing the loan amount to ₹${Math.round(customAmount * 0.7 / 100000) * 100000} for better financial health.`;
     } else {
-      return `❌ The custom amount of ₹${customAmount.toLocaleString()} is NOT RECOMMENDED. EMI would be ${emiPercent.toFixed(1)}% of your income, leaving insufficient funds for other expenses. Maximum recommended: ₹${Math.round((profile.income.monthlySalary * 0.40 * 240) / 100000) * 100000}.`;
+      return `❌ The custom amount of ₹${customAmount.toLocaleString()} is NOT RECOMMENDED. EMI would be ${emiPercent.toFixed(1)}% of your income, leaving insufficient funds for other expenses. Maximum you are eligible for: ₹${maxAmount.toLocaleString()}.`;
     }
   }
 
@@ -907,6 +1094,12 @@ Provide a 2-sentence analysis: Is this custom amount suitable for the user? Why
 
       const confirmation = confirmations[confirmationIndex];
 
+      stepUpAuthService.requireStepUp(
+        confirmation.userId,
+        `confirm a ₹${confirmation.amount.toLocaleString('en-IN')} ${confirmation.loanType}`,
+        confirmation.amount
+      );
+
       // Update status
       confirmation.status = 'Confirmed';
       confirmation.notification.requiresAction = false;
@@ -939,6 +1132,12 @@ Provide a 2-sentence analysis: Is this custom amount suitable for the user? Why
         ],
       };
     } catch (error) {
+      if (error instanceof StepUpError) {
+        return {
+          status: 'error',
+          message: error.message,
+        };
+      }
       console.error('Error confirming payment:', error);
       return {
         status: 'error',
@@ -982,3 +1181,6 @@ Provide a 2-sentence analysis: Is this custom amount suitable for the user? Why
     return today;
   }
 }
+
+// Export singleton instance
+export const loanTaxAgentService = new LoanTaxAgentService();
@@ -0,0 +1,691 @@
+/**
+ * Market Data Provider Layer
+ *
+ * Features:
+ * - Single MarketDataProvider interface (quote, OHLC candles, historical range)
+ * - Finnhub provider for stocks and crypto (BINANCE: prefixed symbols)
+ * - Binance public API provider for crypto
+ * - File-backed replay provider (CSV/JSON) for running offline against recorded market days
+ * - Provider chains per asset type with fallback (e.g. Finnhub → Binance for crypto)
+ * - Market clock so downstream agents use replay time instead of wall-clock time
+ */
+
+import axios from 'axios';
+import type { AssetType } from './stockMonitoringAgent';
+
+// ==================== TYPES ====================
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '1d';
+
+export interface Quote {
+  symbol: string;
+  price: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  previousClose?: number;
+  timestamp: Date;
+  source: string; // Provider name that served the quote
+}
+
+export interface Candle {
+  timestamp: Date; // Candle open time
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface PricePoint {
+  price: number;
+  timestamp: Date;
+}
+
+export interface MarketDataProvider {
+  readonly name: string;
+  supports(assetType: AssetType): boolean;
+  getQuote(symbol: string, assetType: AssetType): Promise<Quote | null>;
+  getCandles(
+    symbol: string,
+    assetType: AssetType,
+    interval: CandleInterval,
+    from: Date,
+    to: Date
+  ): Promise<Candle[]>;
+  getHistoricalRange(symbol: string, assetType: AssetType, from: Date, to: Date): Promise<PricePoint[]>;
+  now(): Date; // Current market time as seen by this provider
+}
+
+export interface ReplayRecord {
+  symbol: string;
+  assetType?: AssetType;
+  timestamp: string | number | Date;
+  open?: number;
+  high?: number;
+  low?: number;
+  close: number;
+  volume?: number;
+}
+
+export interface ReplayOptions {
+  speed?: number; // Market milliseconds per wall-clock millisecond (default 1)
+  startAt?: Date; // Market time to start replay at (default: first recorded candle)
+  loop?: boolean; // Restart from the beginning once the recording is exhausted
+}
+
+// ==================== CONFIGURATION ====================
+
+const FINNHUB_API_KEY = import.meta.env.VITE_FINNHUB_API_KEY || 'demo';
+const FINNHUB_BASE_URL = 'https://finnhub.io/api/v1';
+const BINANCE_BASE_URL = 'https://api.binance.com/api/v3';
+const MARKET_DATA_SOURCE = import.meta.env.VITE_MARKET_DATA_SOURCE || 'live'; // 'live' | 'replay'
+const MARKET_DATA_REPLAY_URL = import.meta.env.VITE_MARKET_DATA_REPLAY_URL || '/market-data/sample-replay.csv';
+const MARKET_DATA_REPLAY_SPEED = Number(import.meta.env.VITE_MARKET_DATA_REPLAY_SPEED || 60);
+const REQUEST_TIMEOUT = 5000;
+
+const INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+const FINNHUB_RESOLUTION: Record<CandleInterval, string> = {
+  '1m': '1',
+  '5m': '5',
+  '15m': '15',
+  '1h': '60',
+  '1d': 'D',
+};
+
+/**
+ * Pick the finest candle interval that keeps a range under ~500 candles
+ */
+function intervalForRange(from: Date, to: Date): CandleInterval {
+  const span = Math.max(0, to.getTime() - from.getTime());
+  const intervals: CandleInterval[] = ['1m', '5m', '15m', '1h', '1d'];
+  return intervals.find(interval => span / INTERVAL_MS[interval] <= 500) || '1d';
+}
+
+function candlesToRange(candles: Candle[]): PricePoint[] {
+  return candles.map(candle => ({ price: candle.close, timestamp: candle.timestamp }));
+}
+
+// ==================== LIVE PROVIDERS ====================
+
+/**
+ * Finnhub provider - stocks via /quote and /stock/candle, crypto via BINANCE: symbols
+ */
+export class FinnhubMarketDataProvider implements MarketDataProvider {
+  readonly name = 'finnhub';
+
+  supports(): boolean {
+    return true;
+  }
+
+  now(): Date {
+    return new Date();
+  }
+
+  private toFinnhubSymbol(symbol: string, assetType: AssetType): string {
+    const upperSymbol = symbol.toUpperCase();
+    return assetType === 'crypto' && !upperSymbol.includes(':') ? `BINANCE:${upperSymbol}` : upperSymbol;
+  }
+
+  async getQuote(symbol: string, assetType: AssetType): Promise<Quote | null> {
+    try {
+      const response = await axios.get(`${FINNHUB_BASE_URL}/quote`, {
+        params: {
+          symbol: this.toFinnhubSymbol(symbol, assetType),
+          token: FINNHUB_API_KEY,
+        },
+        timeout: REQUEST_TIMEOUT,
+      });
+
+      const data = response.data;
+
+      // Finnhub returns { c: currentPrice, h: high, l: low, o: open, pc: previousClose, t: timestamp }
+      if (data.c && data.c > 0) {
+        return {
+          symbol: symbol.toUpperCase(),
+          price: data.c,
+          open: data.o,
+          high: data.h,
+          low: data.l,
+          previousClose: data.pc,
+          timestamp: data.t ? new Date(data.t * 1000) : new Date(),
+          source: this.name,
+        };
+      }
+
+      console.warn(`⚠️ Invalid Finnhub quote for ${symbol}:`, data);
+      return null;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        console.error(`❌ Finnhub quote failed for ${symbol}:`, error.message);
+      }
+      return null;
+    }
+  }
+
+  async getCandles(
+    symbol: string,
+    assetType: AssetType,
+    interval: CandleInterval,
+    from: Date,
+    to: Date
+  ): Promise<Candle[]> {
+    try {
+      const endpoint = assetType === 'crypto' ? 'crypto/candle' : 'stock/candle';
+      const response = await axios.get(`${FINNHUB_BASE_URL}/${endpoint}`, {
+        params: {
+          symbol: this.toFinnhubSymbol(symbol, assetType),
+          resolution: FINNHUB_RESOLUTION[interval],
+          from: Math.floor(from.getTime() / 1000),
+          to: Math.floor(to.getTime() / 1000),
+          token: FINNHUB_API_KEY,
+        },
+        timeout: REQUEST_TIMEOUT,
+      });
+
+      const data = response.data;
+
+      // Finnhub returns parallel arrays { c, h, l, o, t, v, s: 'ok' | 'no_data' }
+      if (data.s !== 'ok' || !Array.isArray(data.t)) {
+        return [];
+      }
+
+      return data.t.map((t: number, i: number) => ({
+        timestamp: new Date(t * 1000),
+        open: data.o[i],
+        high: data.h[i],
+        low: data.l[i],
+        close: data.c[i],
+        volume: data.v?.[i] ?? 0,
+      }));
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        console.error(`❌ Finnhub candles failed for ${symbol}:`, error.message);
+      }
+      return [];
+    }
+  }
+
+  async getHistoricalRange(symbol: string, assetType: AssetType, from: Date, to: Date): Promise<PricePoint[]> {
+    const candles = await this.getCandles(symbol, assetType, intervalForRange(from, to), from, to);
+    return candlesToRange(candles);
+  }
+}
+
+/**
+ * Binance public API provider (crypto only, no auth required)
+ */
+export class BinanceMarketDataProvider implements MarketDataProvider {
+  readonly name = 'binance';
+
+  supports(assetType: AssetType): boolean {
+    return assetType === 'crypto';
+  }
+
+  now(): Date {
+    return new Date();
+  }
+
+  async getQuote(symbol: string): Promise<Quote | null> {
+    try {
+      // Binance API expects format like BTCUSDT
+      const response = await axios.get(`${BINANCE_BASE_URL}/ticker/price`, {
+        params: { symbol: symbol.toUpperCase() },
+        timeout: REQUEST_TIMEOUT,
+      });
+
+      const data = response.data;
+
+      // Binance returns { symbol: "BTCUSDT", price: "50000.00" }
+      if (data.price && parseFloat(data.price) > 0) {
+        return {
+          symbol: symbol.toUpperCase(),
+          price: parseFloat(data.price),
+          timestamp: new Date(),
+          source: this.name,
+        };
+      }
+
+      console.warn(`⚠️ Invalid Binance quote for ${symbol}:`, data);
+      return null;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        console.error(`❌ Binance quote failed for ${symbol}:`, error.message);
+      }
+      return null;
+    }
+  }
+
+  async getCandles(
+    symbol: string,
+    assetType: AssetType,
+    interval: CandleInterval,
+    from: Date,
+    to: Date
+  ): Promise<Candle[]> {
+    if (!this.supports(assetType)) return [];
+
+    try {
+      const response = await axios.get(`${BINANCE_BASE_URL}/klines`, {
+        params: {
+          symbol: symbol.toUpperCase(),
+          interval,
+          startTime: from.getTime(),
+          endTime: to.getTime(),
+          limit: 1000,
+        },
+        timeout: REQUEST_TIMEOUT,
+      });
+
+      // Binance returns [openTime, open, high, low, close, volume, closeTime, ...]
+      return (response.data as Array<Array<string | number>>).map(kline => ({
+        timestamp: new Date(Number(kline[0])),
+        open: parseFloat(String(kline[1])),
+        high: parseFloat(String(kline[2])),
+        low: parseFloat(String(kline[3])),
+        close: parseFloat(String(kline[4])),
+        volume: parseFloat(String(kline[5])),
+      }));
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        console.error(`❌ Binance candles failed for ${symbol}:`, error.message);
+      }
+      return [];
+    }
+  }
+
+  async getHistoricalRange(symbol: string, assetType: AssetType, from: Date, to: Date): Promise<PricePoint[]> {
+    const candles = await this.getCandles(symbol, assetType, intervalForRange(from, to), from, to);
+    return candlesToRange(candles);
+  }
+}
+
+// ==================== REPLAY PROVIDER ====================
+
+/**
+ * Replays recorded candles from a CSV or JSON file.
+ *
+ * CSV header: symbol,timestamp,open,high,low,close,volume (assetType column optional)
+ * JSON: an array of ReplayRecord, or { "candles": ReplayRecord[] }
+ *
+ * Market time starts at the first recorded candle (or options.startAt) and advances
+ * at `speed` times wall-clock time. Quotes return the last candle closed at or
+ * before the current market time, so a 10s polling loop at speed 60 walks through
+ * a recorded day ten market-minutes at a time.
+ */
+export class ReplayMarketDataProvider implements MarketDataProvider {
+  readonly name = 'replay';
+
+  private series: Map<string, Candle[]> = new Map();
+  private assetTypes: Map<string, AssetType> = new Map();
+  private speed: number;
+  private loop: boolean;
+  private startAt: Date | null;
+  private marketStart = 0;
+  private marketEnd = 0;
+  private wallClockStart = Date.now();
+
+  constructor(options: ReplayOptions = {}) {
+    this.speed = options.speed ?? 1;
+    this.loop = options.loop ?? false;
+    this.startAt = options.startAt ?? null;
+  }
+
+  /**
+   * Load a recording from a URL (e.g. a file under /public)
+   */
+  async loadFromUrl(url: string): Promise<void> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load replay data from ${url}: ${response.status}`);
+    }
+    const text = await response.text();
+    this.loadFromText(text, url.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+  }
+
+  /**
+   * Load a recording from a user-selected file
+   */
+  async loadFromFile(file: File): Promise<void> {
+    const text = await file.text();
+    this.loadFromText(text, file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+  }
+
+  /**
+   * Load a recording from raw CSV/JSON text
+   */
+  loadFromText(text: string, format: 'csv' | 'json'): void {
+    const records = format === 'json' ? this.parseJson(text) : this.parseCsv(text);
+    this.loadRecords(records);
+  }
+
+  /**
+   * Load already-parsed records (replaces any previous recording)
+   */
+  loadRecords(records: ReplayRecord[]): void {
+    this.series.clear();
+    this.assetTypes.clear();
+
+    for (const record of records) {
+      const symbol = record.symbol.toUpperCase();
+      const timestamp = new Date(record.timestamp);
+      if (isNaN(timestamp.getTime()) || !(record.close > 0)) continue;
+
+      const candles = this.series.get(symbol) || [];
+      candles.push({
+        timestamp,
+        open: record.open ?? record.close,
+        high: record.high ?? record.close,
+        low: record.low ?? record.close,
+        close: record.close,
+        volume: record.volume ?? 0,
+      });
+      this.series.set(symbol, candles);
+      if (record.assetType) this.assetTypes.set(symbol, record.assetType);
+    }
+
+    let first = Infinity;
+    let last = -Infinity;
+    this.series.forEach(candles => {
+      candles.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      first = Math.min(first, candles[0].timestamp.getTime());
+      last = Math.max(last, candles[candles.length - 1].timestamp.getTime());
+    });
+
+    if (this.series.size === 0) {
+      throw new Error('Replay data contains no valid candles');
+    }
+
+    this.marketStart = this.startAt ? this.startAt.getTime() : first;
+    this.marketEnd = last;
+    this.wallClockStart = Date.now();
+
+    console.log(`📼 Replay loaded: ${this.series.size} symbols, ${new Date(first).toLocaleString()} → ${new Date(last).toLocaleString()}`);
+  }
+
+  /**
+   * Jump the replay clock to a market time
+   */
+  seek(marketTime: Date): void {
+    this.marketStart = marketTime.getTime();
+    this.wallClockStart = Date.now();
+  }
+
+  /**
+   * Change playback speed without jumping the clock
+   */
+  setSpeed(speed: number): void {
+    this.seek(this.now());
+    this.speed = speed;
+  }
+
+  getSymbols(): string[] {
+    return Array.from(this.series.keys());
+  }
+
+  isLoaded(): boolean {
+    return this.series.size > 0;
+  }
+
+  supports(): boolean {
+    return true;
+  }
+
+  now(): Date {
+    let marketTime = this.marketStart + (Date.now() - this.wallClockStart) * this.speed;
+    if (this.loop && this.marketEnd > this.marketStart && marketTime > this.marketEnd) {
+      marketTime = this.marketStart + ((marketTime - this.marketStart) % (this.marketEnd - this.marketStart));
+    }
+    return new Date(marketTime);
+  }
+
+  async getQuote(symbol: string, assetType: AssetType): Promise<Quote | null> {
+    const candles = this.getSeries(symbol, assetType);
+    if (candles.length === 0) return null;
+
+    const now = this.now().getTime();
+    const index = this.lastIndexAtOrBefore(candles, now);
+    if (index < 0) return null;
+
+    const candle = candles[index];
+    return {
+      symbol: symbol.toUpperCase(),
+      price: candle.close,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      previousClose: index > 0 ? candles[index - 1].close : undefined,
+      timestamp: candle.timestamp,
+      source: this.name,
+    };
+  }
+
+  async getCandles(
+    symbol: string,
+    assetType: AssetType,
+    interval: CandleInterval,
+    from: Date,
+    to: Date
+  ): Promise<Candle[]> {
+    const candles = this.getSeries(symbol, assetType).filter(
+      candle => candle.timestamp >= from && candle.timestamp <= to
+    );
+    return this.aggregate(candles, interval);
+  }
+
+  async getHistoricalRange(symbol: string, assetType: AssetType, from: Date, to: Date): Promise<PricePoint[]> {
+    const candles = this.getSeries(symbol, assetType).filter(
+      candle => candle.timestamp >= from && candle.timestamp <= to
+    );
+    return candlesToRange(candles);
+  }
+
+  private getSeries(symbol: string, assetType: AssetType): Candle[] {
+    const upperSymbol = symbol.toUpperCase();
+    const recordedType = this.assetTypes.get(upperSymbol);
+    if (recordedType && recordedType !== assetType) return [];
+    return this.series.get(upperSymbol) || [];
+  }
+
+  private lastIndexAtOrBefore(candles: Candle[], time: number): number {
+    let low = 0;
+    let high = candles.length - 1;
+    let result = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (candles[mid].timestamp.getTime() <= time) {
+        result = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Roll recorded candles up into a coarser interval
+   */
+  private aggregate(candles: Candle[], interval: CandleInterval): Candle[] {
+    const bucketMs = INTERVAL_MS[interval];
+    const buckets: Map<number, Candle> = new Map();
+
+    for (const candle of candles) {
+      const bucket = Math.floor(candle.timestamp.getTime() / bucketMs) * bucketMs;
+      const existing = buckets.get(bucket);
+      if (!existing) {
+        buckets.set(bucket, { ...candle, timestamp: new Date(bucket) });
+      } else {
+        existing.high = Math.max(existing.high, candle.high);
+        existing.low = Math.min(existing.low, candle.low);
+        existing.close = candle.close;
+        existing.volume += candle.volume;
+      }
+    }
+
+    return Array.from(buckets.values());
+  }
+
+  private parseJson(text: string): ReplayRecord[] {
+    const parsed = JSON.parse(text);
+    const records = Array.isArray(parsed) ? parsed : parsed.candles;
+    if (!Array.isArray(records)) {
+      throw new Error('Replay JSON must be an array of candles or { "candles": [...] }');
+    }
+    return records as ReplayRecord[];
+  }
+
+  private parseCsv(text: string): ReplayRecord[] {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+    if (lines.length < 2) return [];
+
+    const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+    const column = (name: string) => header.indexOf(name);
+    const timeColumn = column('timestamp') >= 0 ? column('timestamp') : column('date');
+
+    if (column('symbol') < 0 || timeColumn < 0 || column('close') < 0) {
+      throw new Error('Replay CSV needs at least symbol, timestamp (or date) and close columns');
+    }
+
+    const numberAt = (cells: string[], name: string): number | undefined => {
+      const index = column(name);
+      if (index < 0 || cells[index] === undefined || cells[index] === '') return undefined;
+      return Number(cells[index]);
+    };
+
+    return lines.slice(1).map(line => {
+      const cells = line.split(',').map(cell => cell.trim());
+      const assetType = column('assettype') >= 0 ? (cells[column('assettype')] as AssetType) : undefined;
+      return {
+        symbol: cells[column('symbol')],
+        assetType: assetType || undefined,
+        timestamp: cells[timeColumn],
+        open: numberAt(cells, 'open'),
+        high: numberAt(cells, 'high'),
+        low: numberAt(cells, 'low'),
+        close: Number(cells[column('close')]),
+        volume: numberAt(cells, 'volume'),
+      };
+    });
+  }
+}
+
+// ==================== SERVICE ====================
+
+/**
+ * Routes market data requests to a chain of providers per asset type.
+ * The first provider returning data wins, so crypto keeps the Finnhub → Binance fallback.
+ */
+export class MarketDataService {
+  private chains: Record<AssetType, MarketDataProvider[]>;
+  private clockProvider: MarketDataProvider;
+  private replayReady: Promise<void> | null = null;
+
+  constructor() {
+    const finnhub = new FinnhubMarketDataProvider();
+    const binance = new BinanceMarketDataProvider();
+    this.chains = {
+      stock: [finnhub],
+      crypto: [finnhub, binance],
+    };
+    this.clockProvider = finnhub;
+  }
+
+  /**
+   * Replace the provider chain for one asset type, or for all of them
+   */
+  setProviders(providers: MarketDataProvider[], assetType?: AssetType): void {
+    if (assetType) {
+      this.chains[assetType] = providers;
+    } else {
+      this.chains = { stock: providers, crypto: providers };
+    }
+    this.clockProvider = providers[0] || this.clockProvider;
+    console.log(`🔌 Market data providers set to ${providers.map(p => p.name).join(' → ')}${assetType ? ` for ${assetType}` : ''}`);
+  }
+
+  /**
+   * Route every request to a replay recording (offline mode)
+   */
+  useReplay(provider: ReplayMarketDataProvider): void {
+    this.setProviders([provider]);
+  }
+
+  /**
+   * Configure from environment: VITE_MARKET_DATA_SOURCE=replay loads VITE_MARKET_DATA_REPLAY_URL
+   */
+  initFromEnv(): Promise<void> {
+    if (MARKET_DATA_SOURCE !== 'replay') return Promise.resolve();
+    if (!this.replayReady) {
+      const replay = new ReplayMarketDataProvider({ speed: MARKET_DATA_REPLAY_SPEED, loop: true });
+      this.replayReady = replay
+        .loadFromUrl(MARKET_DATA_REPLAY_URL)
+        .then(() => this.useReplay(replay))
+        .catch(error => console.error('❌ Failed to start market data replay, staying live:', error));
+    }
+    return this.replayReady;
+  }
+
+  /**
+   * Current market time (replay time when replaying, wall-clock otherwise)
+   */
+  now(): Date {
+    return this.clockProvider.now();
+  }
+
+  async getQuote(symbol: string, assetType: AssetType): Promise<Quote | null> {
+    await this.initFromEnv();
+    for (const provider of this.providersFor(assetType)) {
+      const quote = await provider.getQuote(symbol, assetType);
+      if (quote) return quote;
+      console.warn(`⚠️ ${provider.name} has no quote for ${symbol}, trying next provider...`);
+    }
+    return null;
+  }
+
+  /**
+   * Convenience wrapper returning only the latest price
+   */
+  async getPrice(symbol: string, assetType: AssetType): Promise<number | null> {
+    const quote = await this.getQuote(symbol, assetType);
+    return quote ? quote.price : null;
+  }
+
+  async getCandles(
+    symbol: string,
+    assetType: AssetType,
+    interval: CandleInterval,
+    from: Date,
+    to: Date
+  ): Promise<Candle[]> {
+    await this.initFromEnv();
+    for (const provider of this.providersFor(assetType)) {
+      const candles = await provider.getCandles(symbol, assetType, interval, from, to);
+      if (candles.length > 0) return candles;
+    }
+    return [];
+  }
+
+  async getHistoricalRange(symbol: string, assetType: AssetType, from: Date, to: Date): Promise<PricePoint[]> {
+    await this.initFromEnv();
+    for (const provider of this.providersFor(assetType)) {
+      const points = await provider.getHistoricalRange(symbol, assetType, from, to);
+      if (points.length > 0) return points;
+    }
+    return [];
+  }
+
+  private providersFor(assetType: AssetType): MarketDataProvider[] {
+    return this.chains[assetType].filter(provider => provider.supports(assetType));
+  }
+}
+
+// Export singleton instance
+export const marketDataService = new MarketDataService();
@@ -1,26 +1,15 @@
 /**
  * Portfolio Service
- * Manages user investment portfolio with Firestore persistence and LocalStorage fallback
+ * Manages user investment portfolio on top of the lot-level holdings ledger
  * 
  * Features:
- * - Add/Remove/Update investments
- * - Real-time P/L calculations
+ * - Add/Sell/Remove investments
+ * - Real-time P/L calculations, realized P/L from matched lots
  * - Asset allocation tracking
  * - LocalStorage sync for resilience
  */
 
-import {
-  collection,
-  doc,
-  setDoc,
-  getDocs,
-  deleteDoc,
-  query,
-  where,
-  serverTimestamp,
-  Timestamp,
-} from 'firebase/firestore';
-import { db } from '../config/firebase';
+import { holdingsLedger, type LedgerHolding, type Lot, type LotSelection, type RealizedTrade } from './holdingsLedger';
 
 export type AssetType = 
   | 'stocks'
@@ -35,6 +24,7 @@ export type AssetType =
 export interface Investment {
   id: string;
   userId: string;
+  symbol?: string; // ticker or scheme code; required for listed assets when adding
   name: string;
   type: AssetType;
   quantity: number;
@@ -45,12 +35,22 @@ export interface Investment {
   returns?: number;
   returnsPercentage?: number;
   allocation?: number;
-  purchaseDate: Date;
+  purchaseDate: Date; // earliest open lot
+  fees?: number; // buy fees, only used when adding
+  realizedReturns?: number; // from lots already sold
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface SellInvestmentInput {
+  quantity: number;
+  price: number;
+  fees?: number;
+  date?: Date;
+  lotSelections?: LotSelection[]; // specific lots; FIFO when absent
+}
+
 export interface PortfolioSummary {
   totalInvested: number;
   totalCurrentValue: number;
@@ -62,124 +62,101 @@ export interface PortfolioSummary {
   worstPerformer: Investment | null;
 }
 
-const PORTFOLIO_COLLECTION = 'portfolio';
-
 /**
- * Add a new investment
+ * Investments are the ledger holdings; the ID is the holding's symbol
  */
-export async function addInvestment(
-  userId: string,
-  investment: Omit<Investment, 'id' | 'userId' | 'createdAt' | 'updatedAt'>
-): Promise<Investment> {
-  const investmentId = `inv_${userId}_${Date.now()}`;
+function toInvestment(userId: string, holding: LedgerHolding): Investment {
+  // Simulate market fluctuation (between -5% and +10%) until a market price is known
+  const currentPrice = holding.currentPrice ?? holding.averageCost * (1 + (Math.random() * 0.15 - 0.05));
+  const currentValue = holding.quantity * currentPrice;
+  const returns = currentValue - holding.invested;
 
-  const newInvestment: Investment = {
-    ...investment,
-    id: investmentId,
+  return {
+    id: holding.symbol,
     userId,
-    currentPrice: investment.buyPrice,
-    currentValue: investment.amount,
-    returns: 0,
-    returnsPercentage: 0,
-    createdAt: new Date(),
+    symbol: holding.symbol,
+    name: holding.name,
+    type: holding.assetType,
+    quantity: holding.quantity,
+    buyPrice: holding.averageCost,
+    currentPrice,
+    amount: holding.invested,
+    currentValue,
+    returns,
+    returnsPercentage: holding.invested > 0 ? (returns / holding.invested) * 100 : 0,
+    purchaseDate: holding.firstAcquiredAt,
+    realizedReturns: holding.realizedPnl,
+    createdAt: holding.firstAcquiredAt,
     updatedAt: new Date(),
   };
+}
 
-  // 1. Save to LocalStorage first
-  const localKey = `manual_portfolio_${userId}`;
-  const localData = localStorage.getItem(localKey);
-  let portfolio: Investment[] = localData ? JSON.parse(localData) : [];
-  portfolio.push(newInvestment);
-  localStorage.setItem(localKey, JSON.stringify(portfolio));
+/**
+ * Asset types traded under a ticker; holdings without one (FDs, property)
+ * are keyed by name
+ */
+export function requiresSymbol(type: AssetType): boolean {
+  return type === 'stocks' || type === 'etf' || type === 'crypto';
+}
 
-  try {
-    // 2. Try Firestore
-    await setDoc(doc(db, PORTFOLIO_COLLECTION, investmentId), {
-      ...newInvestment,
-      purchaseDate: Timestamp.fromDate(new Date(investment.purchaseDate)),
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp(),
-    });
-    console.log(`✅ Added investment to Firestore: ${investment.name}`);
-  } catch (error) {
-    console.warn('Firestore add failed, but saved locally:', error);
+/**
+ * Add a new investment (a buy lot in the holdings ledger)
+ */
+export async function addInvestment(
+  userId: string,
+  investment: Omit<Investment, 'id' | 'userId' | 'createdAt' | 'updatedAt'>
+): Promise<Investment> {
+  const symbol = investment.symbol?.trim();
+  if (!symbol && requiresSymbol(investment.type)) {
+    throw new Error(`A ticker symbol is needed to add ${investment.name}`);
   }
 
-  return newInvestment;
+  const tx = await holdingsLedger.recordBuy(userId, {
+    symbol: symbol || investment.name,
+    name: investment.name,
+    assetType: investment.type,
+    quantity: investment.quantity,
+    price: investment.buyPrice,
+    fees: investment.fees,
+    date: new Date(investment.purchaseDate),
+    source: 'manual',
+  });
+  console.log(`✅ Added investment: ${investment.name}`);
+
+  const holding = await holdingsLedger.getHolding(userId, tx.symbol);
+  return holding
+    ? toInvestment(userId, holding)
+    : { ...investment, id: tx.symbol, userId, createdAt: tx.createdAt, updatedAt: tx.createdAt };
 }
 
 /**
- * Get all investments
+ * Sell part or all of an investment and return the realized P/L per lot
  */
-export async function getUserInvestments(userId: string): Promise<Investment[]> {
-  try {
-    // Try Firestore first
-    const q = query(
-      collection(db, PORTFOLIO_COLLECTION),
-      where('userId', '==', userId)
-    );
-
-    const snapshot = await getDocs(q);
-    
-    if (!snapshot.empty) {
-      const investments: Investment[] = [];
-      snapshot.forEach((doc) => {
-        const data = doc.data();
-        // Simulate market fluctuation (between -5% and +10%)
-        const fluctuation = 1 + (Math.random() * 0.15 - 0.05);
-        const currentPrice = (data.currentPrice || data.buyPrice) * fluctuation;
-        const currentValue = data.quantity * currentPrice;
-        const returns = currentValue - data.amount;
-        const returnsPercentage = (returns / data.amount) * 100;
-
-        investments.push({
-          ...data,
-          id: doc.id,
-          currentPrice,
-          currentValue,
-          returns,
-          returnsPercentage,
-          purchaseDate: data.purchaseDate?.toDate() || new Date(),
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date(),
-        } as Investment);
-      });
-      // Sync local storage
-      localStorage.setItem(`manual_portfolio_${userId}`, JSON.stringify(investments));
-      return investments;
-    }
-  } catch (e) {
-    console.warn('Firestore portfolio fetch failed, using local fallback:', e);
-  }
+export async function sellInvestment(
+  userId: string,
+  investmentId: string,
+  sale: SellInvestmentInput
+): Promise<RealizedTrade> {
+  return holdingsLedger.recordSell(userId, { symbol: investmentId, ...sale, source: 'manual' });
+}
 
-  // Fallback to localStorage
-  const localKey = `manual_portfolio_${userId}`;
-  const localData = localStorage.getItem(localKey);
-  if (localData) {
-    const items = JSON.parse(localData);
-    return items.map((i: any) => {
-      // Re-calculate simulation for local items too
-      const fluctuation = 1 + (Math.random() * 0.15 - 0.05);
-      const currentPrice = (i.currentPrice || i.buyPrice) * fluctuation;
-      const currentValue = i.quantity * currentPrice;
-      const returns = currentValue - i.amount;
-      const returnsPercentage = (returns / i.amount) * 100;
+/**
+ * Open lots of an investment, oldest first
+ */
+export async function getInvestmentLots(userId: string, investmentId: string): Promise<Lot[]> {
+  return holdingsLedger.getOpenLots(userId, investmentId);
+}
 
-      return { 
-        ...i, 
-        currentPrice,
-        currentValue,
-        returns,
-        returnsPercentage,
-        purchaseDate: new Date(i.purchaseDate),
-        createdAt: new Date(i.createdAt),
-        updatedAt: new Date(i.updatedAt)
-      };
-    });
+/**
+ * Get all investments
+ */
+export async function getUserInvestments(userId: string): Promise<Investment[]> {
+  const holdings = await holdingsLedger.getHoldings(userId);
+  if (holdings.length > 0) {
+    return holdings.map(h => toInvestment(userId, h));
   }
 
-
-  // Demo data if and only if no local or firestore data exists
+  // Demo data if and only if the ledger is empty
   if (userId.startsWith('demo-')) {
     return [
       {
@@ -206,24 +183,10 @@ export async function getUserInvestments(userId: string): Promise<Investment[]>
 }
 
 /**
- * Delete an investment
+ * Delete an investment and all its ledger entries
  */
 export async function deleteInvestment(userId: string, investmentId: string): Promise<void> {
-  // 1. Update LocalStorage
-  const localKey = `manual_portfolio_${userId}`;
-  const localData = localStorage.getItem(localKey);
-  if (localData) {
-    let portfolio: Investment[] = JSON.parse(localData);
-    portfolio = portfolio.filter(i => i.id !== investmentId);
-    localStorage.setItem(localKey, JSON.stringify(portfolio));
-  }
-
-  // 2. Try Firestore
-  try {
-    await deleteDoc(doc(db, PORTFOLIO_COLLECTION, investmentId));
-  } catch (error) {
-    console.warn('Firestore delete failed, but removed locally:', error);
-  }
+  await holdingsLedger.removeSymbol(userId, investmentId);
 }
 
 /**
@@ -0,0 +1,335 @@
+/**
+ * Refinance Analyzer
+ *
+ * Compares keeping an existing loan with moving it to another lender
+ * (balance transfer), optionally with a top-up on the new loan
+ *
+ * Features:
+ * - Lender offers from a local table (rate, processing fee, foreclosure charge)
+ * - Interest saved over the remaining tenure, with planned prepayments on both sides
+ * - Tax-benefit change under Sections 24(b), 80C and 80E from both schedules
+ * - Net savings after switching costs, and the month the costs are recovered
+ * - Flags offers worth switching to; quotes top-up amounts where offered
+ */
+
+import {
+  LENDER_OFFERS,
+  DEFAULT_FORECLOSURE_CHARGE_PERCENT,
+  type LenderOffer,
+} from '../config/lenderOffers';
+import { userProfileService, type LoanDetails, type UserFinancialProfile } from './userProfileService';
+import { estimateDeductionSaving, getFinancialYear, type TaxDeductions, type TaxInput } from './taxEngine';
+import {
+  buildAmortizationSchedule,
+  calculateEmi,
+  loanPositionAt,
+  loanTaxDeductions,
+  splitByFinancialYear,
+  type AmortizationRow,
+} from './loanAmortization';
+
+// ==================== TYPES ====================
+
+export interface SwitchingCosts {
+  processingFee: number;
+  foreclosureCharge: number; // Charged by the current lender
+  total: number;
+}
+
+export interface TopUpQuote {
+  amount: number;
+  rate: number;
+  emi: number;
+  months: number;
+  totalInterest: number;
+}
+
+export interface RefinanceOption {
+  lender: string;
+  rate: number;
+  features: string[];
+  newEmi: number;
+  months: number;
+  costs: SwitchingCosts;
+  interestSaved: number;
+  taxBenefitChange: number; // Tax saved on the new loan minus on the current one
+  netSavings: number;
+  breakEvenMonth: number | null; // Null when costs are never recovered
+  worthSwitching: boolean;
+  reason: string;
+  topUp: TopUpQuote | null;
+}
+
+export interface RefinanceAnalysis {
+  loanId: string;
+  loanName: string;
+  outstanding: number;
+  currentRate: number;
+  currentEmi: number;
+  remainingMonths: number;
+  remainingInterest: number;
+  options: RefinanceOption[]; // Best net savings first
+  best: RefinanceOption | null; // Best offer worth switching to
+}
+
+export interface RefinanceRequest {
+  topUpAmount?: number;
+  asOf?: Date;
+  offers?: LenderOffer[];
+}
+
+// ==================== CONSTANTS ====================
+
+const MIN_NET_SAVINGS = 25000; // Below this the paperwork is not worth it
+const MAX_BREAK_EVEN_MONTHS = 24;
+
+// ==================== ANALYSIS ====================
+
+function isSameLender(offer: LenderOffer, bankName: string): boolean {
+  const bank = bankName.toLowerCase();
+  const lender = offer.lender.toLowerCase();
+  return bank.includes(lender) || lender.includes(bank);
+}
+
+/**
+ * Tax saved in each financial year by a loan's remaining schedule, limited
+ * to the years the original loan qualifies in (80E runs for eight years)
+ */
+function taxSavedByYear(
+  loanType: LoanDetails['loanType'],
+  rows: AmortizationRow[],
+  eligibleYears: Set<string>,
+  taxInput: TaxInput
+): Map<string, number> {
+  const split = splitByFinancialYear({
+    rows,
+    totalInterest: 0,
+    totalPrincipal: 0,
+    totalPrepaid: 0,
+    months: rows.length,
+    endDate: rows[rows.length - 1]?.date ?? new Date(),
+  });
+  const byYear = new Map<string, TaxDeductions>();
+
+  for (const d of loanTaxDeductions(loanType, split)) {
+    if (!eligibleYears.has(d.financialYear)) continue;
+    const year = byYear.get(d.financialYear) ?? {};
+    if (d.section === '24(b)') year.homeLoanInterest = d.amount;
+    if (d.section === '80C') year.section80C = d.amount;
+    if (d.section === '80E') year.educationLoanInterest = d.amount;
+    byYear.set(d.financialYear, year);
+  }
+
+  const saved = new Map<string, number>();
+  for (const [financialYear, deductions] of byYear) {
+    saved.set(financialYear, estimateDeductionSaving(taxInput, deductions));
+  }
+  return saved;
+}
+
+/**
+ * First month in which payments saved, plus the tax change settled at each
+ * March, cover the switching costs
+ */
+function findBreakEvenMonth(
+  current: AmortizationRow[],
+  proposed: AmortizationRow[],
+  costs: number,
+  taxChangeByYear: Map<string, number>
+): number | null {
+  let cumulative = -costs;
+  const months = Math.max(current.length, proposed.length);
+
+  for (let i = 0; i < months; i++) {
+    const paidNow = current[i] ? current[i].emi + current[i].prepayment : 0;
+    const paidNew = proposed[i] ? proposed[i].emi + proposed[i].prepayment : 0;
+    cumulative += paidNow - paidNew;
+
+    const date = (current[i] ?? proposed[i]).date;
+    if (date.getMonth() === 2) cumulative += taxChangeByYear.get(getFinancialYear(date)) ?? 0;
+
+    if (cumulative >= 0) return i + 1;
+  }
+  return null;
+}
+
+function switchingReason(option: Omit<RefinanceOption, 'worthSwitching' | 'reason'>, currentRate: number): string {
+  if (option.rate >= currentRate) {
+    return `Rate is not lower than your current ${currentRate}%`;
+  }
+  if (option.netSavings <= 0) {
+    return 'Fees and the lower tax benefit outweigh the interest saved';
+  }
+  if (option.breakEvenMonth === null || option.breakEvenMonth > MAX_BREAK_EVEN_MONTHS) {
+    return `Takes ${option.breakEvenMonth ?? option.months} months to recover the switching costs`;
+  }
+  if (option.netSavings < MIN_NET_SAVINGS) {
+    return `Saves only ₹${option.netSavings.toLocaleString('en-IN')}, too little to justify switching`;
+  }
+  return `Saves ₹${option.netSavings.toLocaleString('en-IN')} after fees; costs recovered in ${option.breakEvenMonth} months`;
+}
+
+/**
+ * Compare an existing loan with each lender's balance-transfer offer for
+ * the same loan type. Tax figures use the given input, which should carry
+ * the user's other deductions but not this loan's.
+ */
+export function analyzeRefinance(
+  loan: LoanDetails,
+  taxInput: TaxInput,
+  request: RefinanceRequest = {}
+): RefinanceAnalysis {
+  const asOf = request.asOf ?? new Date();
+  const offers = request.offers ?? LENDER_OFFERS;
+  const schedule = buildAmortizationSchedule(loan);
+  const position = loanPositionAt(schedule, asOf);
+  const remaining = schedule.rows.slice(schedule.months - position.remainingMonths);
+  const next = remaining[0];
+
+  const analysis: RefinanceAnalysis = {
+    loanId: loan.id,
+    loanName: `${loan.loanType} · ${loan.bankName}`,
+    outstanding: position.outstanding,
+    currentRate: next?.annualRate ?? loan.interestRate,
+    currentEmi: Math.round(next?.emi ?? loan.emi),
+    remainingMonths: position.remainingMonths,
+    remainingInterest: Math.round(remaining.reduce((sum, r) => sum + r.interest, 0)),
+    options: [],
+    best: null,
+  };
+  if (position.outstanding <= 0 || remaining.length === 0) return analysis;
+
+  const currentLender = offers.find(o => o.loanType === loan.loanType && isSameLender(o, loan.bankName));
+  const foreclosurePercent =
+    currentLender?.foreclosureChargePercent ?? DEFAULT_FORECLOSURE_CHARGE_PERCENT[loan.loanType];
+  const foreclosureCharge = Math.round(position.outstanding * foreclosurePercent / 100);
+
+  const eligibleYears = new Set(
+    loanTaxDeductions(loan.loanType, splitByFinancialYear(schedule)).map(d => d.financialYear)
+  );
+  const taxNow = taxSavedByYear(loan.loanType, remaining, eligibleYears, taxInput);
+  const futurePrepayments = (loan.prepayments ?? []).filter(
+    p => new Date(p.date) > asOf || (p.frequency !== 'once' && (!p.until || new Date(p.until) > asOf))
+  );
+
+  for (const offer of offers) {
+    if (offer.loanType !== loan.loanType || isSameLender(offer, loan.bankName)) continue;
+
+    const months = Math.min(position.remainingMonths, offer.maxTenureMonths);
+    const proposed = buildAmortizationSchedule({
+      principalAmount: position.outstanding,
+      interestRate: offer.rate,
+      tenure: months,
+      startDate: asOf,
+      prepayments: futurePrepayments,
+    });
+
+    const processingFee = Math.round(
+      Math.min(position.outstanding * offer.processingFeePercent / 100, offer.processingFeeCap ?? Infinity)
+    );
+    const costs = { processingFee, foreclosureCharge, total: processingFee + foreclosureCharge };
+
+    const taxNew = taxSavedByYear(loan.loanType, proposed.rows, eligibleYears, taxInput);
+    const taxChangeByYear = new Map<string, number>();
+    for (const year of new Set([...taxNow.keys(), ...taxNew.keys()])) {
+      taxChangeByYear.set(year, (taxNew.get(year) ?? 0) - (taxNow.get(year) ?? 0));
+    }
+    const taxBenefitChange = Math.round([...taxChangeByYear.values()].reduce((sum, v) => sum + v, 0));
+    const interestSaved = analysis.remainingInterest - proposed.totalInterest;
+
+    let topUp: TopUpQuote | null = null;
+    if (request.topUpAmount && request.topUpAmount > 0 && offer.topUp) {
+      const amount = Math.min(request.topUpAmount, offer.topUp.maxAmount);
+      const emi = calculateEmi(amount, offer.topUp.rate, months);
+      topUp = {
+        amount,
+        rate: offer.topUp.rate,
+        emi: Math.round(emi),
+        months,
+        totalInterest: Math.round(emi * months - amount),
+      };
+    }
+
+    const option = {
+      lender: offer.lender,
+      rate: offer.rate,
+      features: offer.features,
+      newEmi: Math.round(proposed.rows[0]?.emi ?? 0),
+      months,
+      costs,
+      interestSaved,
+      taxBenefitChange,
+      netSavings: interestSaved + taxBenefitChange - costs.total,
+      breakEvenMonth: findBreakEvenMonth(remaining, proposed.rows, costs.total, taxChangeByYear),
+      topUp,
+    };
+    const worthSwitching =
+      option.rate < analysis.currentRate &&
+      option.netSavings >= MIN_NET_SAVINGS &&
+      option.breakEvenMonth !== null &&
+      option.breakEvenMonth <= MAX_BREAK_EVEN_MONTHS;
+
+    analysis.options.push({ ...option, worthSwitching, reason: switchingReason(option, analysis.currentRate) });
+  }
+
+  analysis.options.sort((a, b) => b.netSavings - a.netSavings);
+  analysis.best = analysis.options.find(o => o.worthSwitching) ?? null;
+  return analysis;
+}
+
+/**
+ * Tax input for the profile with one loan left out, so the loan's own
+ * benefit can be measured on top of everything else
+ */
+export function taxInputWithoutLoan(profile: UserFinancialProfile, loanId: string): TaxInput {
+  const totals = userProfileService.getTotalDeductions({
+    ...profile,
+    deductions: {
+      ...profile.deductions,
+      homeLoan: profile.deductions.homeLoan.filter(l => l.id !== loanId),
+      otherLoans: profile.deductions.otherLoans.filter(l => l.id !== loanId),
+    },
+  });
+
+  return {
+    grossIncome: profile.income.annualSalary + profile.income.otherIncome + profile.income.businessIncome,
+    regime: profile.taxRegime,
+    age: profile.personalInfo.age || undefined,
+    deductions: {
+      section80C: totals.section80C,
+      section80D: totals.section80D,
+      section80CCD1B: totals.section80CCD1B,
+      homeLoanInterest: totals.homeLoanInterest,
+      educationLoanInterest: totals.educationLoanInterest,
+    },
+  };
+}
+
+// ==================== SERVICE CLASS ====================
+
+export class RefinanceAnalyzer {
+  /**
+   * Refinance options for one of the user's loans
+   */
+  async analyzeLoan(userId: string, loanId: string, request: RefinanceRequest = {}): Promise<RefinanceAnalysis> {
+    const profile = await userProfileService.getProfile(userId);
+    if (!profile) throw new Error('Profile not found');
+
+    const loan = [...profile.deductions.homeLoan, ...profile.deductions.otherLoans].find(l => l.id === loanId);
+    if (!loan) throw new Error('Loan not found');
+
+    return analyzeRefinance(loan, taxInputWithoutLoan(profile, loanId), request);
+  }
+
+  /**
+   * Refinance options for every loan in the profile
+   */
+  analyzeProfile(profile: UserFinancialProfile, request: RefinanceRequest = {}): RefinanceAnalysis[] {
+    return [...profile.deductions.homeLoan, ...profile.deductions.otherLoans]
+      .map(loan => analyzeRefinance(loan, taxInputWithoutLoan(profile, loan.id), request))
+      .filter(analysis => analysis.outstanding > 0);
+  }
+}
+
+// Export singleton instance
+export const refinanceAnalyzer = new RefinanceAnalyzer();
@@ -5,11 +5,10 @@
  * with user consent based on agent configuration
  */
 
-import { getPortfolioPositions } from './watchlistService';
 import { createAgentExecution } from './agentMarketplace';
 import { sendRiskAlertEmail, sendAutoSellEmail, sendAgentApprovalEmail } from './emailService';
 import { logActivity, ActivityType } from './activityLogger';
-import type { PortfolioPosition } from './stockMonitoringAgent';
+import { stockMonitoringAgent, type PortfolioPosition } from './stockMonitoringAgent';
 import type { Agent } from './agentMarketplace';
 
 /**
@@ -21,7 +20,7 @@ export async function executeRiskAndSellAgent(userId: string, agent: Agent): Pro
     console.log(`🤖 Executing Risk & Sell Agent for user ${userId}`);
 
     // Get user's portfolio
-    const portfolio = await getPortfolioPositions(userId);
+    const portfolio = await stockMonitoringAgent.getPortfolio(userId);
 
     if (portfolio.length === 0) {
       console.log('No portfolio positions to monitor');
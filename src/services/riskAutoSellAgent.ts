@@ -2,18 +2,22 @@
  * Risk & Auto-Sell Agent Service
  * 
  * Features:
- * - Real-time price monitoring for all holdings
+ * - Real-time price monitoring for all holdings (via the market data provider layer)
  * - Automatic stop-loss trigger detection
  * - Email + in-app notifications with action links
  * - Two-step confirmation for high-value securities
  * - Time-based confirmation (sustained drop detection)
  * - Whitelist/blacklist for auto-sell
  * - Comprehensive logging and audit trail
+ * - Ledger updates after a sale are retried until recorded
  * - Edge case handling (market closed, partial fills, slippage)
  */
 
 import { collection, addDoc, query, where, getDocs, Timestamp } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import { marketDataService } from './marketDataProvider';
+import { stepUpAuthService } from './stepUpAuthService';
+import { holdingsLedger, HoldingsLedgerError, type SellInput } from './holdingsLedger';
 
 // ==================== TYPES ====================
 
@@ -30,6 +34,7 @@ export interface Holding {
   profitLossPercent: number;
   sector: string;
   exchange: 'NSE' | 'BSE' | 'NASDAQ' | 'NYSE';
+  purchaseDate?: Date;
   lastUpdated: Date;
 }
 
@@ -123,13 +128,25 @@ export interface TradeExecution {
   slippage?: number; // Difference between expected and actual price
   error?: string;
   retryable?: boolean;
+  ledgerError?: string; // trade went through but holdings were not updated
+}
+
+interface LedgerRetry {
+  orderId: string;
+  ticker: string;
+  sell: SellInput;
+  attempts: number;
+  lastError: string;
 }
 
 // ==================== SERVICE CLASS ====================
 
 export class RiskAutoSellAgentService {
-  private monitoringInterval: number | null = null;
+  private monitoringInterval: ReturnType<typeof setInterval> | null = null;
   private readonly MONITORING_INTERVAL_MS = 60000; // Check every 1 minute
+  private readonly MIN_SUSTAINED_POINTS = 3; // Prices needed before a drop counts as sustained
+  private readonly MAX_LEDGER_RETRIES = 5; // Monitoring cycles to keep retrying a missed ledger write
+  private priceTicks = new Map<string, Array<{ price: number; at: Date }>>(); // Quotes seen while monitoring
 
   /**
    * Start real-time monitoring for a user's holdings
@@ -169,7 +186,10 @@ export class RiskAutoSellAgentService {
    */
   private async checkAllHoldings(userId: string): Promise<void> {
     try {
-      const [holdings, stopLossConfigs, riskProfile] = await Promise.all([
+      // Sales the ledger missed must land before holdings are read
+      await this.processLedgerRetries(userId);
+
+      const [storedHoldings, stopLossConfigs, riskProfile] = await Promise.all([
         this.getUserHoldings(userId),
         this.getStopLossConfigs(userId),
         this.getUserRiskProfile(userId),
@@ -180,6 +200,8 @@ export class RiskAutoSellAgentService {
         return;
       }
 
+      const holdings = await this.refreshHoldingPrices(storedHoldings);
+
       console.log(`🔍 Checking ${holdings.length} holdings for stop-loss triggers...`);
 
       for (const holding of holdings) {
@@ -236,7 +258,9 @@ export class RiskAutoSellAgentService {
   }
 
   /**
-   * Check if price drop is sustained over N minutes
+   * Check if price drop is sustained over N minutes. Uses provider history for
+   * the window, falling back to quotes recorded while monitoring. Too few
+   * prices, or a failed lookup, never count as sustained.
    */
   private async checkSustainedDrop(
     ticker: string,
@@ -244,18 +268,47 @@ export class RiskAutoSellAgentService {
     minutes: number
   ): Promise<boolean> {
     try {
-      // Fetch historical prices for last N minutes
-      const historicalPrices = await this.getHistoricalPrices(ticker, minutes);
+      const to = marketDataService.now();
+      const from = new Date(to.getTime() - minutes * 60 * 1000);
 
-      // Check if ALL prices in the time window are below stop-loss
-      const allBelowStopLoss = historicalPrices.every((price) => price <= stopLossPrice);
+      let prices = await this.getHistoricalPrices(ticker, from, to);
+      if (prices.length < this.MIN_SUSTAINED_POINTS) {
+        prices = this.getRecordedPrices(ticker, from);
+      }
 
-      return allBelowStopLoss;
+      if (prices.length < this.MIN_SUSTAINED_POINTS) {
+        console.log(`⏳ Only ${prices.length} price(s) for ${ticker} in the last ${minutes} min, not enough to confirm the drop`);
+        return false;
+      }
+
+      // Check if ALL prices in the time window are below stop-loss
+      return prices.every((price) => price <= stopLossPrice);
     } catch (error) {
       console.error('Error checking sustained drop:', error);
-      // On error, proceed with trigger to be safe
-      return true;
+      return false;
+    }
+  }
+
+  /**
+   * Quotes recorded while monitoring since the window start. Empty unless
+   * monitoring was already running when the window began.
+   */
+  private getRecordedPrices(ticker: string, from: Date): number[] {
+    const ticks = this.priceTicks.get(ticker) ?? [];
+    if (ticks.length === 0 || ticks[0].at.getTime() > from.getTime() + this.MONITORING_INTERVAL_MS) {
+      return [];
     }
+    return ticks.filter((tick) => tick.at >= from).map((tick) => tick.price);
+  }
+
+  /**
+   * Remember a quote for the sustained drop fallback, keeping a day of ticks
+   */
+  private recordPriceTick(ticker: string, price: number, at: Date): void {
+    const cutoff = at.getTime() - 24 * 60 * 60 * 1000;
+    const ticks = (this.priceTicks.get(ticker) ?? []).filter((tick) => tick.at.getTime() >= cutoff);
+    ticks.push({ price, at });
+    this.priceTicks.set(ticker, ticks);
   }
 
   /**
@@ -657,8 +710,8 @@ ${order.requiresTwoStepConfirmation ? `
         userAction,
       });
 
-      // Update user holdings (remove sold stock)
-      await this.updateUserHoldings(userId, order.ticker, -order.quantity);
+      // Update user holdings and record the realized gain for the tax year
+      const ledgerError = await this.recordSellInLedger(userId, order, tradeResult);
 
       // Send success notification
       await this.sendInAppNotification(userId, {
@@ -670,7 +723,7 @@ ${order.requiresTwoStepConfirmation ? `
 
       console.log(`✅ Order ${orderId} executed successfully. Trade ID: ${tradeResult.tradeId}`);
 
-      return tradeResult;
+      return ledgerError ? { ...tradeResult, ledgerError } : tradeResult;
     } catch (error: any) {
       console.error('Error executing sell order:', error);
 
@@ -701,6 +754,14 @@ ${order.requiresTwoStepConfirmation ? `
         return { success: false, message: `Order already ${order.status}` };
       }
 
+      // Two-step (high-value) orders always need step-up; others only above the amount threshold
+      const purpose = `sell ${order.quantity} ${order.ticker}`;
+      if (order.requiresTwoStepConfirmation) {
+        stepUpAuthService.requireStepUp(userId, purpose);
+      } else {
+        stepUpAuthService.requireStepUp(userId, purpose, order.quantity * order.currentPrice);
+      }
+
       // Update to confirmed status
       await this.updateOrderStatus(orderId, 'confirmed', {
         confirmedAt: new Date(),
@@ -768,55 +829,38 @@ ${order.requiresTwoStepConfirmation ? `
   // ==================== HELPER METHODS ====================
 
   /**
-   * Get user holdings from portfolio
+   * Get user holdings from the holdings ledger
    */
   private async getUserHoldings(userId: string): Promise<Holding[]> {
     try {
-      const q = query(collection(db, 'portfolio_investments'), where('userId', '==', userId));
-      const snapshot = await getDocs(q);
-
-      const holdings: Holding[] = [];
-
-      snapshot.forEach((doc) => {
-        const data = doc.data();
-        holdings.push({
-          id: doc.id,
-          userId: data.userId,
-          ticker: data.symbol,
-          companyName: data.name,
-          quantity: data.quantity,
-          purchasePrice: data.purchasePrice,
-          currentPrice: data.currentPrice,
-          marketValue: data.currentValue,
-          profitLoss: data.profitLoss,
-          profitLossPercent: data.profitLossPercent,
-          sector: data.sector || 'Unknown',
-          exchange: data.exchange || 'NSE',
-          lastUpdated: data.lastUpdated?.toDate() || new Date(),
+      const holdings = await holdingsLedger.getHoldings(userId);
+
+      return holdings
+        .filter((h) => h.assetType === 'stocks' || h.assetType === 'etf')
+        .map((h) => {
+          const currentPrice = h.currentPrice ?? h.averageCost;
+          const marketValue = h.marketValue ?? h.invested;
+          const profitLoss = h.unrealizedPnl ?? 0;
+          return {
+            id: h.symbol,
+            userId,
+            ticker: h.symbol,
+            companyName: h.name,
+            quantity: h.quantity,
+            purchasePrice: h.averageCost,
+            currentPrice,
+            marketValue,
+            profitLoss,
+            profitLossPercent: h.unrealizedPnlPercent ?? 0,
+            sector: 'Unknown',
+            exchange: (h.exchange as Holding['exchange']) || 'NSE',
+            purchaseDate: h.firstAcquiredAt,
+            lastUpdated: new Date(),
+          };
         });
-      });
-
-      return holdings;
     } catch (error) {
       console.error('Error fetching holdings:', error);
-      
-      // Fallback to localStorage
-      const portfolio = JSON.parse(localStorage.getItem(`portfolio_${userId}`) || '[]');
-      return portfolio.map((inv: any) => ({
-        id: inv.id,
-        userId,
-        ticker: inv.symbol,
-        companyName: inv.name,
-        quantity: inv.quantity,
-        purchasePrice: inv.purchasePrice,
-        currentPrice: inv.currentPrice,
-        marketValue: inv.currentValue,
-        profitLoss: inv.profitLoss,
-        profitLossPercent: inv.profitLossPercent,
-        sector: 'Unknown',
-        exchange: 'NSE',
-        lastUpdated: new Date(),
-      }));
+      return [];
     }
   }
 
@@ -896,24 +940,44 @@ ${order.requiresTwoStepConfirmation ? `
   /**
    * Get historical prices for sustained drop check
    */
-  private async getHistoricalPrices(_ticker: string, minutes: number): Promise<number[]> {
+  private async getHistoricalPrices(ticker: string, from: Date, to: Date): Promise<number[]> {
     try {
-      // TODO: Integrate with real-time market data API
-      // For now, simulate with random prices
-      const prices: number[] = [];
-      const basePrice = 100;
-      
-      for (let i = 0; i < minutes; i++) {
-        prices.push(basePrice - i * 0.5); // Simulating gradual drop
-      }
-
-      return prices;
+      const points = await marketDataService.getHistoricalRange(ticker, 'stock', from, to);
+      return points.map((point) => point.price);
     } catch (error) {
       console.error('Error fetching historical prices:', error);
       return [];
     }
   }
 
+  /**
+   * Refresh holding prices from the market data providers
+   */
+  private async refreshHoldingPrices(holdings: Holding[]): Promise<Holding[]> {
+    const quotes = await Promise.all(
+      holdings.map((holding) => marketDataService.getQuote(holding.ticker, 'stock'))
+    );
+
+    return holdings.map((holding, index) => {
+      const quote = quotes[index];
+      if (!quote) return holding; // Keep last stored price if no provider has the ticker
+
+      holdingsLedger.setLastPrices({ [holding.ticker]: quote.price });
+      this.recordPriceTick(holding.ticker, quote.price, new Date(quote.timestamp));
+
+      const marketValue = holding.quantity * quote.price;
+      const invested = holding.quantity * holding.purchasePrice;
+      return {
+        ...holding,
+        currentPrice: quote.price,
+        marketValue,
+        profitLoss: marketValue - invested,
+        profitLossPercent: invested > 0 ? ((marketValue - invested) / invested) * 100 : 0,
+        lastUpdated: quote.timestamp,
+      };
+    });
+  }
+
   /**
    * Get pending sell orders for user
    */
@@ -1032,8 +1096,8 @@ ${order.requiresTwoStepConfirmation ? `
   private async checkMarketStatus(_ticker: string): Promise<MarketStatus> {
     try {
       // TODO: Integrate with real market status API
-      // For now, simulate based on time
-      const now = new Date();
+      // For now, simulate based on market time (replay time when replaying recorded days)
+      const now = marketDataService.now();
       const hour = now.getHours();
       const day = now.getDay();
 
@@ -1122,28 +1186,99 @@ ${order.requiresTwoStepConfirmation ? `
   }
 
   /**
-   * Update user holdings after trade
+   * Record an executed sell order in the holdings ledger. Lots are matched
+   * FIFO and the ledger records the realized capital gain of each. A failed
+   * write is queued for the next monitoring cycle and the user is told;
+   * returns the error.
    */
-  private async updateUserHoldings(userId: string, ticker: string, quantityChange: number): Promise<void> {
+  private async recordSellInLedger(
+    userId: string,
+    order: PendingSellOrder,
+    trade: TradeExecution
+  ): Promise<string | undefined> {
+    const sell: SellInput = {
+      symbol: order.ticker,
+      quantity: trade.executedQuantity ?? order.quantity,
+      price: trade.executedPrice ?? order.currentPrice,
+      date: trade.executedAt ? new Date(trade.executedAt) : new Date(),
+      source: 'risk_auto_sell',
+      tradeId: trade.tradeId,
+    };
+
     try {
-      const portfolio = JSON.parse(localStorage.getItem(`portfolio_${userId}`) || '[]');
-      const holdingIndex = portfolio.findIndex((inv: any) => inv.symbol === ticker);
+      await holdingsLedger.recordSell(userId, sell);
+      console.log(`✅ Holdings updated for ${order.ticker}: -${sell.quantity} shares`);
+      return undefined;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Error updating holdings:', error);
 
-      if (holdingIndex >= 0) {
-        portfolio[holdingIndex].quantity += quantityChange;
+      if (error instanceof HoldingsLedgerError) {
+        // The ledger rejected the sale itself; retrying cannot fix that
+        await this.notifyLedgerFailure(userId, order.ticker, order.id, message, false);
+      } else {
+        const queue = this.loadLedgerRetries(userId);
+        queue.push({ orderId: order.id, ticker: order.ticker, sell, attempts: 1, lastError: message });
+        this.saveLedgerRetries(userId, queue);
+        await this.notifyLedgerFailure(userId, order.ticker, order.id, message, true);
+      }
+      return message;
+    }
+  }
 
-        if (portfolio[holdingIndex].quantity <= 0) {
-          // Remove holding if sold completely
-          portfolio.splice(holdingIndex, 1);
-        }
+  /**
+   * Retry ledger writes for sales that already executed
+   */
+  private async processLedgerRetries(userId: string): Promise<void> {
+    const queue = this.loadLedgerRetries(userId);
+    if (queue.length === 0) return;
 
-        localStorage.setItem(`portfolio_${userId}`, JSON.stringify(portfolio));
+    const remaining: LedgerRetry[] = [];
+    for (const entry of queue) {
+      try {
+        await holdingsLedger.recordSell(userId, {
+          ...entry.sell,
+          date: entry.sell.date ? new Date(entry.sell.date) : undefined,
+        });
+        console.log(`✅ Holdings updated for ${entry.ticker} on retry ${entry.attempts}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (error instanceof HoldingsLedgerError || entry.attempts >= this.MAX_LEDGER_RETRIES) {
+          await this.notifyLedgerFailure(userId, entry.ticker, entry.orderId, message, false);
+        } else {
+          remaining.push({ ...entry, attempts: entry.attempts + 1, lastError: message });
+        }
       }
-
-      console.log(`✅ Holdings updated for ${ticker}: ${quantityChange > 0 ? '+' : ''}${quantityChange} shares`);
-    } catch (error) {
-      console.error('Error updating holdings:', error);
     }
+    this.saveLedgerRetries(userId, remaining);
+  }
+
+  private async notifyLedgerFailure(
+    userId: string,
+    ticker: string,
+    orderId: string,
+    reason: string,
+    willRetry: boolean
+  ): Promise<void> {
+    await this.sendInAppNotification(userId, {
+      title: `⚠️ Holdings Not Updated: ${ticker}`,
+      message: willRetry
+        ? `The sale went through but your holdings could not be updated (${reason}). It will be retried automatically.`
+        : `The sale went through but could not be recorded in your holdings (${reason}). Please record it manually.`,
+      priority: 'high',
+      actionButtons: [],
+    });
+    await this.logAutoSellAction(userId, ticker, orderId, 'failed', {
+      reason: `Ledger update failed: ${reason}`,
+    });
+  }
+
+  private loadLedgerRetries(userId: string): LedgerRetry[] {
+    return JSON.parse(localStorage.getItem(`auto_sell_ledger_retries_${userId}`) || '[]');
+  }
+
+  private saveLedgerRetries(userId: string, queue: LedgerRetry[]): void {
+    localStorage.setItem(`auto_sell_ledger_retries_${userId}`, JSON.stringify(queue));
   }
 
   /**
@@ -0,0 +1,539 @@
+/**
+ * Salary Document Import Service
+ *
+ * Reads Form 16 Part B and monthly salary slips from text (typed, pasted or
+ * extracted from a PDF) and turns them into profile updates the user
+ * reviews before anything is written
+ *
+ * Features:
+ * - Gross salary, section 10 exemptions, Chapter VI-A deductions and TDS from Form 16
+ * - Basic, DA, HRA, provident fund and TDS from salary slips, annualised
+ * - Field-by-field diff against the current profile
+ * - Writes only the changes the user keeps; existing entries are never removed
+ */
+
+import {
+  userProfileService,
+  type CustomDeduction,
+  type SalaryStructure,
+  type UserFinancialProfile,
+} from './userProfileService';
+import { hraExemptionService, type HraComputation } from './hraExemption';
+import { getFinancialYear } from './taxEngine';
+
+// ==================== TYPES ====================
+
+export type SalaryDocumentType = 'form16' | 'salary_slip';
+
+export interface ChapterVIADeductions {
+  section80C: number; // 80C, 80CCC and 80CCD(1)
+  section80CCD1B: number;
+  section80D: number;
+  section80E: number;
+  section80G: number;
+  section80TTA: number; // 80TTA or 80TTB
+  total: number;
+}
+
+export interface ParsedSalaryDocument {
+  documentType: SalaryDocumentType;
+  financialYear: string;
+  employer: string;
+  grossSalary: number; // Annual
+  exemptions: {
+    hra: number;
+    lta: number;
+    other: number;
+    total: number;
+  };
+  standardDeduction: number;
+  professionalTax: number;
+  chapterVIA: ChapterVIADeductions;
+  tds: number; // Annual
+  salarySlip?: {
+    month: string; // 'YYYY-MM'
+    basicMonthly: number;
+    daMonthly: number;
+    hraMonthly: number;
+    grossMonthly: number;
+    tdsMonthly: number;
+  };
+  warnings: string[];
+}
+
+export type ProfileChangeKey =
+  | 'annualSalary'
+  | 'salaryStructure'
+  | 'section80C'
+  | 'section80CCD1B'
+  | 'section80D'
+  | 'otherDeductions'
+  | 'exemptions'
+  | 'tds';
+
+export interface ProfileChange {
+  key: ProfileChangeKey;
+  label: string;
+  current: number;
+  imported: number;
+  changed: boolean;
+  writable: boolean;
+  apply: boolean;
+  note?: string;
+}
+
+export interface SalaryImportPreview {
+  parsed: ParsedSalaryDocument;
+  changes: ProfileChange[];
+}
+
+export class SalaryDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SalaryDocumentError';
+  }
+}
+
+// ==================== PARSING ====================
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Indian (12,34,567.00) and western (1,234,567.00) grouping
+const AMOUNT_PATTERN = /(?:₹|Rs\.?|INR)?\s*(\d{1,3}(?:,\d{2,3})+(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)/gi;
+
+/**
+ * Amounts in a fragment of text, ignoring bracketed references such as [1(d)-2(h)]
+ */
+function amountsIn(text: string): number[] {
+  const cleaned = text.replace(/\[[^\]]*\]/g, ' ').replace(/\([^)]*\)/g, ' ');
+  return [...cleaned.matchAll(AMOUNT_PATTERN)].map(m => parseFloat(m[1].replace(/,/g, '')));
+}
+
+/**
+ * Amount on the first line matching one of the labels. Form 16 puts the
+ * total in the last column; salary slips put the current month first.
+ * PDF extraction sometimes moves the amount to the following line.
+ */
+function findAmount(lines: string[], labels: RegExp[], pick: 'first' | 'last'): number | null {
+  for (const label of labels) {
+    for (let i = 0; i < lines.length; i++) {
+      const match = label.exec(lines[i]);
+      if (!match) continue;
+
+      let amounts = amountsIn(lines[i].slice(match.index + match[0].length));
+      if (amounts.length === 0 && i + 1 < lines.length && /^[\s₹Rs.,\d]+$/i.test(lines[i + 1])) {
+        amounts = amountsIn(lines[i + 1]);
+      }
+      if (amounts.length > 0) {
+        return Math.round(pick === 'first' ? amounts[0] : amounts[amounts.length - 1]);
+      }
+    }
+  }
+  return null;
+}
+
+function findEmployer(lines: string[]): string {
+  for (let i = 0; i < lines.length; i++) {
+    const match =
+      /(?:name\s+(?:and\s+address\s+)?of\s+the\s+employer\s*[:-]?|(?:employer|company)(?:\s+name)?\s*:)\s*(.*)$/i
+        .exec(lines[i]);
+    if (!match) continue;
+
+    // Two-column headers put the employee's label beside the employer's
+    const firstColumn = (line: string) => line.trim().split(/\s{2,}|,/)[0].trim();
+    let name = firstColumn(match[1]);
+    if (!name || /employee|address/i.test(name)) name = firstColumn(lines[i + 1] ?? '');
+    if (name) return name;
+  }
+  return '';
+}
+
+/**
+ * Financial year from the assessment year, the financial year or a period
+ */
+function findFinancialYear(text: string): string | null {
+  const assessmentYear = /assessment\s+year\s*[:-]?\s*(\d{4})\s*-\s*(\d{2,4})/i.exec(text);
+  if (assessmentYear) {
+    const start = parseInt(assessmentYear[1], 10) - 1;
+    return `FY${start}-${String(start + 1).slice(-2)}`;
+  }
+  const financialYear = /financial\s+year\s*[:-]?\s*(\d{4})\s*-\s*(\d{2,4})/i.exec(text);
+  if (financialYear) {
+    const start = parseInt(financialYear[1], 10);
+    return `FY${start}-${String(start + 1).slice(-2)}`;
+  }
+  return null;
+}
+
+/**
+ * Pay month of a salary slip as 'YYYY-MM', preferring the slip's title line
+ * over other dates such as the joining date
+ */
+function findPayMonth(lines: string[]): string | null {
+  const titleLines = lines.filter(line => /pay\s*slip|salary\s*slip|month|period/i.test(line));
+
+  for (const text of [...titleLines, lines.join('\n')]) {
+    const named = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*[\s,'-]*(\d{4})\b/i.exec(text);
+    if (named) {
+      const month = MONTHS.indexOf(named[1].toLowerCase()) + 1;
+      return `${named[2]}-${String(month).padStart(2, '0')}`;
+    }
+    const numeric = /\b(0?[1-9]|1[0-2])[/-](\d{4})\b/.exec(text);
+    if (numeric) return `${numeric[2]}-${numeric[1].padStart(2, '0')}`;
+  }
+  return null;
+}
+
+export function detectDocumentType(text: string): SalaryDocumentType | null {
+  if (/form\s*(?:no\.?\s*)?16\b|section\s*17\s*\(\s*1\s*\)|chapter\s*VI-?A/i.test(text)) return 'form16';
+  if (/pay\s*slip|salary\s*slip|payslip|earnings|net\s+pay/i.test(text)) return 'salary_slip';
+  return null;
+}
+
+/**
+ * Form 16 Part B: annual figures as certified by the employer
+ */
+export function parseForm16(text: string): ParsedSalaryDocument {
+  const lines = text.split(/\r?\n/);
+  const find = (...labels: RegExp[]) => findAmount(lines, labels, 'last');
+  const warnings: string[] = [];
+
+  const salary171 = find(/section\s*17\s*\(\s*1\s*\)/i);
+  const grossSalary = salary171 !== null
+    ? salary171 + (find(/section\s*17\s*\(\s*2\s*\)/i) ?? 0) + (find(/section\s*17\s*\(\s*3\s*\)/i) ?? 0)
+    : find(/gross\s+salary/i, /gross\s+total/i);
+  if (!grossSalary) {
+    throw new SalaryDocumentError('Could not find the gross salary in this Form 16');
+  }
+
+  const hra = find(/10\s*\(\s*13A\s*\)/i, /house\s+rent\s+allowance/i) ?? 0;
+  const lta = find(/10\s*\(\s*5\s*\)/i, /travel\s+concession/i) ?? 0;
+  const totalExempt = find(/total\s+amount\s+of\s+exemption/i, /allowances?\s+to\s+the\s+extent\s+exempt/i) ?? hra + lta;
+
+  const chapterVIA: ChapterVIADeductions = {
+    section80C: find(/80C\s*,\s*80CCC\s+and\s+80CCD\s*\(\s*1\s*\)/i, /section\s*80C\b/i) ?? 0,
+    section80CCD1B: find(/80CCD\s*\(\s*1B\s*\)/i) ?? 0,
+    section80D: find(/section\s*80D\b/i) ?? 0,
+    section80E: find(/section\s*80E\b/i) ?? 0,
+    section80G: find(/section\s*80G\b/i) ?? 0,
+    section80TTA: find(/section\s*80TT[AB]\b/i) ?? 0,
+    total: 0,
+  };
+  chapterVIA.total =
+    find(/aggregate\s+of\s+deductible\s+amount/i, /total\s+deductions?\s+under\s+chapter\s*VI-?A/i) ??
+    chapterVIA.section80C + chapterVIA.section80CCD1B + chapterVIA.section80D +
+      chapterVIA.section80E + chapterVIA.section80G + chapterVIA.section80TTA;
+
+  const tds = find(/total\s+tax\s+deducted/i, /amount\s+of\s+tax\s+deducted/i, /tax\s+deducted\s+at\s+source/i);
+  if (tds === null) warnings.push('TDS not found; check Part A of the Form 16');
+
+  let financialYear = findFinancialYear(text);
+  if (!financialYear) {
+    financialYear = getFinancialYear();
+    warnings.push(`Financial year not found; assumed ${financialYear}`);
+  }
+
+  return {
+    documentType: 'form16',
+    financialYear,
+    employer: findEmployer(lines),
+    grossSalary,
+    exemptions: { hra, lta, other: Math.max(0, totalExempt - hra - lta), total: totalExempt },
+    standardDeduction: find(/standard\s+deduction/i) ?? 0,
+    professionalTax: find(/tax\s+on\s+employment/i, /professional\s+tax/i) ?? 0,
+    chapterVIA,
+    tds: tds ?? 0,
+    warnings,
+  };
+}
+
+/**
+ * Monthly salary slip, annualised for the profile
+ */
+export function parseSalarySlip(text: string): ParsedSalaryDocument {
+  const lines = text.split(/\r?\n/);
+  const find = (...labels: RegExp[]) => findAmount(lines, labels, 'first');
+  const warnings: string[] = [];
+
+  const basicMonthly = find(/\bbasic(?:\s+(?:pay|salary))?\b/i);
+  if (!basicMonthly) {
+    throw new SalaryDocumentError('Could not find the basic pay in this salary slip');
+  }
+  const daMonthly = find(/dearness\s+allowance/i, /\bDA\b/) ?? 0;
+  const hraMonthly = find(/house\s+rent\s+allowance/i, /\bHRA\b/) ?? 0;
+  const grossMonthly = find(/gross\s+(?:earnings|salary|pay)/i, /total\s+earnings/i) ?? basicMonthly + daMonthly + hraMonthly;
+  const pfMonthly =
+    (find(/(?<!voluntary\s)provident\s+fund/i, /\bE?PF\b/) ?? 0) + (find(/voluntary\s+provident/i, /\bVPF\b/) ?? 0);
+  const tdsMonthly = find(/income\s+tax/i, /\bTDS\b/) ?? 0;
+
+  let month = findPayMonth(lines);
+  if (!month) {
+    const now = new Date();
+    month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+    warnings.push('Pay month not found; assumed the current month');
+  }
+  const [year, monthNumber] = month.split('-').map(Number);
+
+  return {
+    documentType: 'salary_slip',
+    financialYear: getFinancialYear(new Date(year, monthNumber - 1, 1)),
+    employer: findEmployer(lines),
+    grossSalary: grossMonthly * 12,
+    exemptions: { hra: 0, lta: 0, other: 0, total: 0 },
+    standardDeduction: 0,
+    professionalTax: (find(/professional\s+tax/i, /\bP\.?\s?T\b/) ?? 0) * 12,
+    chapterVIA: {
+      section80C: pfMonthly * 12,
+      section80CCD1B: 0,
+      section80D: 0,
+      section80E: 0,
+      section80G: 0,
+      section80TTA: 0,
+      total: pfMonthly * 12,
+    },
+    tds: tdsMonthly * 12,
+    salarySlip: { month, basicMonthly, daMonthly, hraMonthly, grossMonthly, tdsMonthly },
+    warnings,
+  };
+}
+
+/**
+ * Parse a Form 16 or salary slip, detecting which it is
+ */
+export function parseSalaryDocument(text: string, documentType?: SalaryDocumentType): ParsedSalaryDocument {
+  const type = documentType ?? detectDocumentType(text);
+  if (!type) {
+    throw new SalaryDocumentError('Could not tell whether this is a Form 16 or a salary slip');
+  }
+  return type === 'form16' ? parseForm16(text) : parseSalarySlip(text);
+}
+
+// ==================== DIFF ====================
+
+function sum(deductions: CustomDeduction[]): number {
+  return deductions.reduce((total, d) => total + d.amount, 0);
+}
+
+function currentStructure(profile: UserFinancialProfile, month: string): SalaryStructure | undefined {
+  return (profile.income.salaryStructure ?? [])
+    .filter(s => {
+      const date = new Date(s.effectiveFrom);
+      return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}` <= month;
+    })
+    .pop();
+}
+
+/**
+ * Field-by-field comparison of the document with the profile. Deductions are
+ * only ever topped up, so a lower imported figure is shown but not applied.
+ */
+export function buildImportDiff(
+  profile: UserFinancialProfile,
+  parsed: ParsedSalaryDocument,
+  hra?: HraComputation
+): ProfileChange[] {
+  const changes: ProfileChange[] = [];
+  const add = (change: Omit<ProfileChange, 'changed' | 'apply'>, applyByDefault: boolean) => {
+    const changed = Math.round(change.current) !== Math.round(change.imported);
+    changes.push({ ...change, changed, apply: change.writable && changed && applyByDefault });
+  };
+  const isSlip = parsed.documentType === 'salary_slip';
+
+  add({
+    key: 'annualSalary',
+    label: 'Annual salary',
+    current: profile.income.annualSalary,
+    imported: parsed.grossSalary,
+    writable: true,
+    note: isSlip ? '12 × monthly gross' : undefined,
+  }, true);
+
+  if (parsed.salarySlip) {
+    const slip = parsed.salarySlip;
+    const structure = currentStructure(profile, slip.month);
+    add({
+      key: 'salaryStructure',
+      label: `Monthly basic + DA + HRA from ${slip.month}`,
+      current: structure ? structure.basicMonthly + (structure.daMonthly ?? 0) + structure.hraMonthly : 0,
+      imported: slip.basicMonthly + slip.daMonthly + slip.hraMonthly,
+      writable: true,
+      note: `Basic ₹${slip.basicMonthly.toLocaleString('en-IN')} · DA ₹${slip.daMonthly.toLocaleString('en-IN')} · ` +
+        `HRA ₹${slip.hraMonthly.toLocaleString('en-IN')}`,
+    }, true);
+  }
+
+  const deductions = profile.deductions;
+  const section80C = sum(deductions.section80C);
+  add({
+    key: 'section80C',
+    label: isSlip ? '80C (12 × provident fund)' : '80C, 80CCC and 80CCD(1)',
+    current: section80C,
+    imported: parsed.chapterVIA.section80C,
+    writable: true,
+  }, parsed.chapterVIA.section80C > section80C);
+
+  const section80CCD1B = sum(deductions.section80CCD1B);
+  add({
+    key: 'section80CCD1B',
+    label: '80CCD(1B) NPS',
+    current: section80CCD1B,
+    imported: parsed.chapterVIA.section80CCD1B,
+    writable: true,
+  }, parsed.chapterVIA.section80CCD1B > section80CCD1B);
+
+  const section80D = sum(deductions.section80D);
+  add({
+    key: 'section80D',
+    label: '80D health insurance',
+    current: section80D,
+    imported: parsed.chapterVIA.section80D,
+    writable: true,
+  }, parsed.chapterVIA.section80D > section80D);
+
+  const other = sum(deductions.customDeductions);
+  const { section80E, section80G, section80TTA } = parsed.chapterVIA;
+  const importedOther = section80E + section80G + section80TTA;
+  add({
+    key: 'otherDeductions',
+    label: 'Other Chapter VI-A (80E, 80G, 80TTA)',
+    current: other,
+    imported: importedOther,
+    writable: true,
+  }, importedOther > other);
+
+  if (!isSlip) {
+    add({
+      key: 'exemptions',
+      label: 'Section 10 exemptions',
+      current: hra?.totalExempt ?? 0,
+      imported: parsed.exemptions.total,
+      writable: false,
+      note: 'HRA exemption is worked out from your salary structure and rent; the Form 16 figure is kept for reference',
+    }, false);
+  }
+
+  const reportedTds = userProfileService.getReportedSalaryTds(profile, parsed.financialYear);
+  add({
+    key: 'tds',
+    label: `TDS on salary (${parsed.financialYear})`,
+    current: reportedTds ?? 0,
+    imported: parsed.tds,
+    writable: parsed.tds > 0,
+    note: isSlip ? '12 × monthly income tax; kept as an estimate until a Form 16 is imported' : undefined,
+  }, true);
+
+  return changes;
+}
+
+// ==================== SERVICE CLASS ====================
+
+export class SalaryDocumentImportService {
+  /**
+   * Parse a document and compare it with the user's profile
+   */
+  async previewImport(
+    userId: string,
+    text: string,
+    documentType?: SalaryDocumentType
+  ): Promise<SalaryImportPreview> {
+    const parsed = parseSalaryDocument(text, documentType);
+    const profile = await userProfileService.getProfile(userId);
+    if (!profile) throw new SalaryDocumentError('Profile not found');
+
+    const hra = await hraExemptionService.getHraExemption(userId, parsed.financialYear);
+    return { parsed, changes: buildImportDiff(profile, parsed, hra) };
+  }
+
+  /**
+   * Text of an uploaded document. PDFs need their text extracted first.
+   */
+  async readFile(file: File): Promise<string> {
+    if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+      throw new SalaryDocumentError('Paste the text copied from the PDF, or upload it as a .txt file');
+    }
+    return file.text();
+  }
+
+  /**
+   * Write the changes the user kept. Returns the keys that were applied.
+   */
+  async applyImport(
+    userId: string,
+    parsed: ParsedSalaryDocument,
+    changes: ProfileChange[]
+  ): Promise<ProfileChangeKey[]> {
+    const profile = await userProfileService.getProfile(userId);
+    if (!profile) throw new SalaryDocumentError('Profile not found');
+
+    const applied: ProfileChangeKey[] = [];
+    const source = parsed.documentType === 'form16' ? 'Form 16' : `salary slip (${parsed.salarySlip?.month})`;
+    const employer = parsed.employer || 'Employer';
+
+    for (const change of changes.filter(c => c.apply && c.writable)) {
+      const topUp = Math.round(change.imported - change.current);
+
+      switch (change.key) {
+        case 'annualSalary':
+          await userProfileService.updateSalary(userId, Math.round(parsed.grossSalary / 12));
+          break;
+        case 'salaryStructure': {
+          const slip = parsed.salarySlip;
+          if (!slip) continue;
+          const [year, month] = slip.month.split('-').map(Number);
+          await userProfileService.updateSalaryStructure(userId, {
+            effectiveFrom: new Date(year, month - 1, 1),
+            basicMonthly: slip.basicMonthly,
+            daMonthly: slip.daMonthly,
+            hraMonthly: slip.hraMonthly,
+            isMetro: currentStructure(profile, slip.month)?.isMetro ?? false,
+          });
+          break;
+        }
+        case 'section80C':
+        case 'section80CCD1B':
+        case 'section80D':
+        case 'otherDeductions': {
+          if (topUp <= 0) continue;
+          const { category, type } = {
+            section80C: { category: '80C', type: parsed.salarySlip ? 'EPF' : 'Custom' },
+            section80CCD1B: { category: '80CCD1B', type: 'NPS' },
+            section80D: { category: '80D', type: 'Health Insurance' },
+            otherDeductions: { category: 'Custom', type: 'Custom' },
+          }[change.key] as Pick<CustomDeduction, 'category' | 'type'>;
+
+          await userProfileService.addCustomDeduction(userId, {
+            name: `${employer} ${change.label}`,
+            category,
+            amount: topUp,
+            type,
+            description: `Imported from ${source} for ${parsed.financialYear}`,
+            startDate: new Date(),
+            isRecurring: false,
+            verified: parsed.documentType === 'form16',
+          });
+          break;
+        }
+        case 'tds':
+          await userProfileService.recordTaxStatement(userId, {
+            financialYear: parsed.financialYear,
+            employer,
+            source: parsed.documentType,
+            grossSalary: parsed.grossSalary,
+            exemptAllowances: parsed.exemptions.total,
+            chapterVIADeductions: parsed.chapterVIA.total,
+            tds: parsed.tds,
+            importedAt: new Date(),
+          });
+          break;
+        default:
+          continue;
+      }
+      applied.push(change.key);
+    }
+
+    return applied;
+  }
+}
+
+// Export singleton instance
+export const salaryDocumentImportService = new SalaryDocumentImportService();
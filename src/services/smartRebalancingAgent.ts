@@ -0,0 +1,621 @@
+/**
+ * Smart Rebalancing Agent Executor
+ *
+ * Keeps the portfolio at the agent's target allocation with the fewest
+ * trades, with user consent based on agent configuration
+ *
+ * Features:
+ * - Current weights across the targeted, tradable ledger holdings at the last known prices
+ * - Drift detection against rebalanceThreshold, for target symbols only
+ * - Minimal trade list: only out-of-band positions are traded
+ * - New cash is put to work before anything is sold
+ * - Sells pick losing and long-term lots first and skip short-term gains
+ * - Trades are submitted as approvals and run once approved, at fresh quotes
+ * - Stale trades are re-planned or skipped and reported, never left half-run
+ * - One run per user at a time
+ */
+
+import {
+  createAgentExecution,
+  getUserAgents,
+  getPendingExecutions,
+  getApprovedExecutions,
+  completeExecution,
+  type Agent,
+  type AgentConfig,
+} from './agentMarketplace';
+import { sendAgentApprovalEmail } from './emailService';
+import { logActivity, ActivityType } from './activityLogger';
+import { holdingsLedger, type LedgerHolding, type LotSelection } from './holdingsLedger';
+import { classifyAsset, computeGain, type GainTerm } from './capitalGainsService';
+import { marketDataService } from './marketDataProvider';
+import type { AssetType } from './portfolioService';
+
+// ==================== TYPES ====================
+
+export interface PositionWeight {
+  symbol: string;
+  value: number;
+  weight: number; // percent of portfolio value
+}
+
+export interface AllocationDrift {
+  symbol: string;
+  current: number; // percent
+  target: number; // percent
+  drift: number; // current - target
+  outOfBand: boolean;
+}
+
+export interface RebalanceTrade {
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  amount: number;
+  lotSelections?: LotSelection[]; // sells only
+  realizedGain?: number; // sells only, estimated
+  gainTerm?: GainTerm; // sells only, the shortest term of the lots sold
+}
+
+export interface RebalanceOptions {
+  threshold: number; // percent drift that triggers a trade
+  newCash?: number; // cash to invest before selling anything
+  avoidShortTermGains?: boolean; // never sell lots with a short-term gain
+  prices?: Record<string, number>; // for target symbols not yet held
+  now?: Date;
+}
+
+export interface RebalancePlan {
+  totalValue: number; // holdings plus new cash
+  weights: PositionWeight[];
+  drift: AllocationDrift[];
+  needsRebalance: boolean;
+  trades: RebalanceTrade[];
+  cashUsed: number;
+  cashLeft: number;
+  blockedByTax: string[]; // symbols that could not be trimmed without short-term gains
+  estimatedRealizedGain: number;
+}
+
+// ==================== CONSTANTS ====================
+
+const DEFAULT_THRESHOLD = 5;
+const MIN_TRADE_AMOUNT = 500; // Skip trades too small to be worth the charges
+
+// Assets traded in whole units
+const WHOLE_UNIT_TYPES: AssetType[] = ['stocks', 'etf', 'bonds', 'gold', 'real_estate'];
+
+// Holdings the agent cannot buy or sell on an exchange
+const NON_TRADABLE_TYPES: AssetType[] = ['fixed_deposit', 'real_estate', 'gold'];
+
+// Runs in progress, so overlapping triggers share one run per user
+const activeRuns = new Map<string, Promise<void>>();
+
+// ==================== PLANNING ====================
+
+function roundQuantity(quantity: number, assetType: AssetType): number {
+  if (WHOLE_UNIT_TYPES.includes(assetType)) return Math.floor(quantity);
+  return Math.floor(quantity * 1000) / 1000;
+}
+
+function holdingValue(holding: LedgerHolding): number {
+  return holding.marketValue ?? holding.invested;
+}
+
+function holdingPrice(holding: LedgerHolding): number {
+  return holding.currentPrice ?? holding.averageCost;
+}
+
+/**
+ * Portfolio weights by market value, falling back to cost when no price is known
+ */
+export function computeWeights(holdings: LedgerHolding[]): PositionWeight[] {
+  const total = holdings.reduce((sum, h) => sum + holdingValue(h), 0);
+  return holdings.map(h => ({
+    symbol: h.symbol,
+    value: holdingValue(h),
+    weight: total > 0 ? (holdingValue(h) / total) * 100 : 0,
+  }));
+}
+
+/**
+ * Drift of every targeted symbol. Holdings outside the target allocation
+ * are left alone.
+ */
+export function detectDrift(
+  current: Record<string, number>,
+  target: Record<string, number>,
+  threshold: number
+): AllocationDrift[] {
+  return Object.keys(target).map(symbol => {
+    const drift = (current[symbol] ?? 0) - (target[symbol] ?? 0);
+    return {
+      symbol,
+      current: current[symbol] ?? 0,
+      target: target[symbol] ?? 0,
+      drift,
+      outOfBand: Math.abs(drift) > threshold,
+    };
+  });
+}
+
+/**
+ * Lots to sell for an amount: losing lots first, then long-term gains, then
+ * short-term gains unless avoided. Returns what could be sold.
+ */
+function selectSellLots(
+  holding: LedgerHolding,
+  amount: number,
+  price: number,
+  avoidShortTermGains: boolean,
+  now: Date
+): { quantity: number; selections: LotSelection[]; realizedGain: number; term?: GainTerm; blocked: boolean } {
+  const assetClass = classifyAsset(holding.assetType);
+  const lots = holding.openLots.map(lot => {
+    const costPerUnit = lot.price + (lot.quantity > 0 ? lot.fees / lot.quantity : 0);
+    const term: GainTerm = assetClass
+      ? computeGain({
+          assetName: holding.name,
+          assetClass,
+          quantity: lot.remaining,
+          buyPrice: costPerUnit,
+          sellPrice: price,
+          acquiredAt: lot.acquiredAt,
+          soldAt: now,
+        }).term
+      : 'long';
+    const gainPerUnit = price - costPerUnit;
+    const rank = gainPerUnit <= 0 ? 0 : term === 'long' ? 1 : 2;
+    return { lot, term, gainPerUnit, rank };
+  });
+  lots.sort((a, b) => a.rank - b.rank || a.gainPerUnit - b.gainPerUnit);
+
+  let remaining = roundQuantity(amount / price, holding.assetType);
+  const selections: LotSelection[] = [];
+  let realizedGain = 0;
+  let term: GainTerm | undefined;
+  let blocked = false;
+
+  for (const { lot, term: lotTerm, gainPerUnit, rank } of lots) {
+    if (remaining <= 0) break;
+    if (rank === 2 && avoidShortTermGains) {
+      blocked = true;
+      break;
+    }
+    const quantity = Math.min(remaining, lot.remaining);
+    if (quantity <= 0) continue;
+    selections.push({ lotId: lot.id, quantity });
+    realizedGain += quantity * gainPerUnit;
+    if (term !== 'short') term = lotTerm;
+    remaining -= quantity;
+  }
+
+  const quantity = selections.reduce((sum, s) => sum + s.quantity, 0);
+  return { quantity, selections, realizedGain, term, blocked };
+}
+
+/**
+ * Minimal trade list that brings out-of-band positions back to target.
+ * Only tradable holdings named in the target allocation are weighed and
+ * traded. New cash goes to underweight positions first; sells only fund
+ * what cash cannot, and trim overweight positions beyond the band.
+ */
+export function buildRebalancePlan(
+  allHoldings: LedgerHolding[],
+  targetAllocation: Record<string, number>,
+  options: RebalanceOptions
+): RebalancePlan {
+  const now = options.now ?? new Date();
+  const newCash = Math.max(0, options.newCash ?? 0);
+
+  const targetTotal = Object.values(targetAllocation).reduce((sum, w) => sum + w, 0);
+  const target = Object.fromEntries(
+    Object.entries(targetAllocation).map(([symbol, weight]) => [
+      symbol.toUpperCase(),
+      targetTotal > 0 ? (weight / targetTotal) * 100 : 0,
+    ])
+  );
+
+  const holdings = allHoldings.filter(h => h.symbol in target && !NON_TRADABLE_TYPES.includes(h.assetType));
+  const weights = computeWeights(holdings);
+  const holdingsValue = weights.reduce((sum, w) => sum + w.value, 0);
+  const totalValue = holdingsValue + newCash;
+
+  // Drift is measured as if the new cash were already invested
+  const current = Object.fromEntries(weights.map(w => [w.symbol, totalValue > 0 ? (w.value / totalValue) * 100 : 0]));
+  const drift = detectDrift(current, target, options.threshold);
+  const bySymbol = new Map(holdings.map(h => [h.symbol, h]));
+  const valueOf = (symbol: string) => weights.find(w => w.symbol === symbol)?.value ?? 0;
+  const desiredOf = (symbol: string) => ((target[symbol] ?? 0) / 100) * totalValue;
+
+  const deficits = new Map<string, number>();
+  for (const d of drift) {
+    const deficit = desiredOf(d.symbol) - valueOf(d.symbol);
+    if (deficit > 0) deficits.set(d.symbol, deficit);
+  }
+
+  // 1. New cash: out-of-band deficits first, the rest in proportion to deficits
+  const buys = new Map<string, number>();
+  let cash = newCash;
+  const fund = (symbols: string[]) => {
+    const need = symbols.reduce((sum, s) => sum + (deficits.get(s) ?? 0), 0);
+    if (need <= 0 || cash <= 0) return;
+    const share = Math.min(1, cash / need);
+    for (const symbol of symbols) {
+      const amount = (deficits.get(symbol) ?? 0) * share;
+      buys.set(symbol, (buys.get(symbol) ?? 0) + amount);
+      deficits.set(symbol, (deficits.get(symbol) ?? 0) - amount);
+      cash -= amount;
+    }
+  };
+  const outOfBand = new Set(drift.filter(d => d.outOfBand).map(d => d.symbol));
+  fund([...deficits.keys()].filter(s => outOfBand.has(s)));
+  fund([...deficits.keys()]);
+
+  // 2. Sells: trim out-of-band overweights, then fund remaining out-of-band deficits
+  const trades: RebalanceTrade[] = [];
+  const blockedByTax: string[] = [];
+  const stillUnderweight = () =>
+    [...deficits.entries()].filter(([s, need]) => outOfBand.has(s) && need > MIN_TRADE_AMOUNT);
+  const overweights = drift
+    .map(d => ({ ...d, excess: valueOf(d.symbol) - desiredOf(d.symbol) }))
+    .filter(d => d.excess > 0 && bySymbol.has(d.symbol))
+    .sort((a, b) => Number(b.outOfBand) - Number(a.outOfBand) || b.excess - a.excess);
+
+  let proceeds = 0;
+  for (const over of overweights) {
+    const fundingNeed = stillUnderweight().reduce((sum, [, need]) => sum + need, 0) - proceeds;
+    const amount = over.outOfBand ? over.excess : Math.min(over.excess, Math.max(0, fundingNeed));
+    if (amount < MIN_TRADE_AMOUNT) continue;
+
+    const holding = bySymbol.get(over.symbol)!;
+    const price = holdingPrice(holding);
+    const sale = selectSellLots(holding, amount, price, options.avoidShortTermGains ?? true, now);
+    if (sale.blocked) blockedByTax.push(over.symbol);
+    if (sale.quantity <= 0) continue;
+
+    trades.push({
+      symbol: over.symbol,
+      side: 'sell',
+      quantity: sale.quantity,
+      price,
+      amount: sale.quantity * price,
+      lotSelections: sale.selections,
+      realizedGain: sale.realizedGain,
+      gainTerm: sale.term,
+    });
+    proceeds += sale.quantity * price;
+  }
+
+  // 3. Sale proceeds go to the remaining deficits, out-of-band first
+  cash += proceeds;
+  fund([...deficits.keys()].filter(s => outOfBand.has(s)));
+  fund([...deficits.keys()]);
+
+  for (const [symbol, amount] of buys) {
+    const holding = bySymbol.get(symbol);
+    const price = holding ? holdingPrice(holding) : options.prices?.[symbol];
+    if (!price || amount < MIN_TRADE_AMOUNT) continue;
+    const quantity = roundQuantity(amount / price, holding?.assetType ?? 'stocks');
+    if (quantity <= 0) continue;
+    trades.push({ symbol, side: 'buy', quantity, price, amount: quantity * price });
+  }
+
+  const spent = trades.filter(t => t.side === 'buy').reduce((sum, t) => sum + t.amount, 0);
+  const cashUsed = Math.min(newCash, spent);
+
+  return {
+    totalValue,
+    weights,
+    drift,
+    needsRebalance: drift.some(d => d.outOfBand),
+    trades,
+    cashUsed,
+    cashLeft: newCash + proceeds - spent,
+    blockedByTax,
+    estimatedRealizedGain: trades.reduce((sum, t) => sum + (t.realizedGain ?? 0), 0),
+  };
+}
+
+/**
+ * Rebalance plan for a user's ledger holdings
+ */
+export async function planRebalance(
+  userId: string,
+  config: Pick<AgentConfig, 'targetAllocation' | 'rebalanceThreshold' | 'newCashAmount' | 'avoidShortTermGains'>
+): Promise<RebalancePlan> {
+  const holdings = await holdingsLedger.getHoldings(userId);
+  const targetAllocation = config.targetAllocation ?? {};
+
+  // Prices for target symbols the user does not hold yet
+  const held = new Set(holdings.map(h => h.symbol));
+  const prices: Record<string, number> = { ...holdingsLedger.getLastPrices() };
+  for (const symbol of Object.keys(targetAllocation).map(s => s.toUpperCase())) {
+    if (held.has(symbol) || prices[symbol]) continue;
+    const quote = await marketDataService.getQuote(symbol, 'stock');
+    if (quote) prices[symbol] = quote.price;
+  }
+
+  return buildRebalancePlan(holdings, targetAllocation, {
+    threshold: config.rebalanceThreshold ?? DEFAULT_THRESHOLD,
+    newCash: config.newCashAmount,
+    avoidShortTermGains: config.avoidShortTermGains,
+    prices,
+  });
+}
+
+// ==================== EXECUTION ====================
+
+/**
+ * Execute Smart Rebalancing Agent logic
+ * Runs approved rebalances, then proposes a new one if the portfolio drifted
+ */
+export async function executeSmartRebalancingAgent(userId: string, agent: Agent): Promise<void> {
+  try {
+    console.log(`🤖 Executing Smart Rebalancing Agent for user ${userId}`);
+
+    await runApprovedRebalances(userId, agent);
+
+    if (!agent.config.targetAllocation || Object.keys(agent.config.targetAllocation).length === 0) {
+      console.log('No target allocation configured');
+      return;
+    }
+
+    const pending = await getPendingExecutions(userId);
+    if (pending.some(execution => execution.agentId === agent.id)) {
+      console.log('A rebalance is already awaiting approval');
+      return;
+    }
+
+    const plan = await planRebalance(userId, agent.config);
+    if (!plan.needsRebalance || plan.trades.length === 0) {
+      console.log('Portfolio is within the rebalance band');
+      return;
+    }
+
+    const action = `Rebalance portfolio: ${plan.trades.map(t => `${t.side} ${t.quantity} ${t.symbol}`).join(', ')}`;
+    const details = buildDetails(plan);
+    const recommendation = buildRecommendation(plan);
+    const metadata = {
+      amount: Math.round(plan.trades.reduce((sum, t) => sum + t.amount, 0)),
+      cashUsed: Math.round(plan.cashUsed),
+      estimatedRealizedGain: Math.round(plan.estimatedRealizedGain),
+      blockedByTax: plan.blockedByTax,
+      drift: plan.drift.filter(d => d.outOfBand),
+      trades: plan.trades.map(t => JSON.parse(JSON.stringify(t))), // drop undefined fields for Firestore
+    };
+
+    if (agent.executionMode === 'notify') {
+      const execution = await createAgentExecution(
+        agent.id, userId, 'smart_rebalancing', action, details, recommendation, false, metadata
+      );
+      await completeExecution(execution.id, 'completed', { notified: true });
+
+      await logActivity({
+        userId,
+        type: ActivityType.AI_RECOMMENDATION_RECEIVED,
+        description: `Portfolio drifted from target allocation (${plan.trades.length} trades suggested)`,
+        severity: 'medium',
+        metadata: { agentId: agent.id, executionId: execution.id },
+      });
+    } else if (agent.executionMode === 'ask_permission') {
+      const execution = await createAgentExecution(
+        agent.id, userId, 'smart_rebalancing', action, details, recommendation, true, metadata
+      );
+
+      await sendAgentApprovalEmail(
+        userId,
+        agent.name,
+        action,
+        details,
+        recommendation,
+        `${window.location.origin}/agents/approvals`
+      );
+
+      await logActivity({
+        userId,
+        type: ActivityType.AI_RECOMMENDATION_RECEIVED,
+        description: `Approval requested for ${plan.trades.length} rebalancing trades`,
+        severity: 'medium',
+        metadata: { agentId: agent.id, executionId: execution.id },
+      });
+    } else if (agent.executionMode === 'auto') {
+      const execution = await createAgentExecution(
+        agent.id, userId, 'smart_rebalancing', action, details, recommendation, false, metadata
+      );
+      await runRebalance(userId, agent, execution.id, plan.trades);
+    }
+  } catch (error) {
+    console.error('Error executing Smart Rebalancing Agent:', error);
+  }
+}
+
+/**
+ * Run the user's Smart Rebalancing Agent if one is active. A call while a
+ * run is in progress waits for that run instead of starting another.
+ */
+export function checkAndExecuteSmartRebalancingAgent(userId: string): Promise<void> {
+  const active = activeRuns.get(userId);
+  if (active) return active;
+
+  const run = checkAndExecute(userId).finally(() => activeRuns.delete(userId));
+  activeRuns.set(userId, run);
+  return run;
+}
+
+async function checkAndExecute(userId: string): Promise<void> {
+  try {
+    const agents = await getUserAgents(userId);
+    const rebalancingAgent = agents.find(
+      agent => agent.type === 'smart_rebalancing' && agent.status === 'active'
+    );
+
+    if (!rebalancingAgent) {
+      console.log('No active Smart Rebalancing Agent found');
+      return;
+    }
+
+    await executeSmartRebalancingAgent(userId, rebalancingAgent);
+  } catch (error) {
+    console.error('Error executing smart rebalancing agent:', error);
+  }
+}
+
+/**
+ * Run rebalances the user approved since the last run
+ */
+async function runApprovedRebalances(userId: string, agent: Agent): Promise<void> {
+  const approved = await getApprovedExecutions(userId, 'smart_rebalancing');
+  for (const execution of approved.filter(e => e.agentId === agent.id)) {
+    const trades = (execution.metadata?.trades ?? []) as RebalanceTrade[];
+    await runRebalance(userId, agent, execution.id, trades);
+  }
+}
+
+/**
+ * Sells first so their proceeds can fund the buys. Each trade runs at a fresh
+ * quote; a sell whose chosen lots were sold or changed since approval is
+ * re-planned from the lots held now. Trades that cannot run are skipped and
+ * reported, and buys shrink by any proceeds the skipped sells did not raise.
+ */
+async function runRebalance(userId: string, agent: Agent, executionId: string, trades: RebalanceTrade[]): Promise<void> {
+  const completed: Array<{ symbol: string; side: string; quantity: number; price: number; realizedPnl?: number }> = [];
+  const skipped: Array<{ symbol: string; side: string; reason: string }> = [];
+  const ordered = [...trades].sort((a, b) => Number(a.side === 'buy') - Number(b.side === 'buy'));
+  let shortfall = 0; // Planned sale proceeds that were not raised
+
+  try {
+    for (const trade of ordered) {
+      const skip = (reason: string) => {
+        skipped.push({ symbol: trade.symbol, side: trade.side, reason });
+        if (trade.side === 'sell') shortfall += trade.amount;
+      };
+
+      const quote = await marketDataService.getQuote(trade.symbol, 'stock');
+      if (!quote) {
+        skip('No current quote');
+        continue;
+      }
+      holdingsLedger.setLastPrices({ [trade.symbol]: quote.price });
+      const price = quote.price;
+      const holding = await holdingsLedger.getHolding(userId, trade.symbol);
+
+      try {
+        if (trade.side === 'sell') {
+          if (!holding) {
+            skip('No longer held');
+            continue;
+          }
+          const sale = currentSale(holding, trade, price, agent.config.avoidShortTermGains ?? true);
+          if (sale.quantity <= 0) {
+            skip(sale.blocked ? 'Only short-term gain lots are left' : 'Lots are no longer held');
+            continue;
+          }
+
+          const sold = await holdingsLedger.recordSell(userId, {
+            symbol: trade.symbol,
+            quantity: sale.quantity,
+            price,
+            lotSelections: sale.selections,
+            source: 'rebalance',
+          });
+          shortfall += trade.amount - sale.quantity * price;
+          completed.push({ symbol: trade.symbol, side: 'sell', quantity: sale.quantity, price, realizedPnl: Math.round(sold.realizedPnl) });
+        } else {
+          const budget = Math.max(0, trade.amount - Math.max(0, shortfall));
+          const quantity = roundQuantity(budget / price, holding?.assetType ?? 'stocks');
+          shortfall -= trade.amount - budget;
+          if (quantity <= 0) {
+            skip('The sales funding it did not go through');
+            continue;
+          }
+
+          await holdingsLedger.recordBuy(userId, {
+            symbol: trade.symbol,
+            name: holding?.name,
+            assetType: holding?.assetType ?? 'stocks',
+            exchange: holding?.exchange,
+            quantity,
+            price,
+            source: 'rebalance',
+          });
+          completed.push({ symbol: trade.symbol, side: 'buy', quantity, price });
+        }
+      } catch (error) {
+        skip(error instanceof Error ? error.message : 'Trade failed');
+      }
+    }
+
+    await completeExecution(executionId, 'completed', { trades: completed, skipped });
+
+    if (skipped.length > 0) {
+      console.log(`⏭️ Skipped ${skipped.length} rebalance trade(s):`, skipped);
+    }
+
+    await logActivity({
+      userId,
+      type: ActivityType.PORTFOLIO_UPDATED,
+      description: `Rebalanced portfolio with ${completed.length} trades` +
+        (skipped.length > 0 ? ` (${skipped.length} skipped)` : ''),
+      severity: 'medium',
+      metadata: { agentId: agent.id, executionId, trades: completed, skipped },
+    });
+
+    console.log(`✅ Rebalance completed with ${completed.length} trades`);
+  } catch (error) {
+    console.error('Error running rebalance:', error);
+    await completeExecution(
+      executionId,
+      'failed',
+      { trades: completed, skipped },
+      error instanceof Error ? error.message : 'Rebalance failed'
+    );
+  }
+}
+
+/**
+ * The approved lots if they are all still open, otherwise the same quantity
+ * picked again from the lots held now
+ */
+function currentSale(
+  holding: LedgerHolding,
+  trade: RebalanceTrade,
+  price: number,
+  avoidShortTermGains: boolean
+): { quantity: number; selections: LotSelection[]; blocked: boolean } {
+  const selections = trade.lotSelections ?? [];
+  const stillOpen = selections.length > 0 && selections.every(selection => {
+    const lot = holding.openLots.find(l => l.id === selection.lotId);
+    return lot !== undefined && lot.remaining >= selection.quantity;
+  });
+  if (stillOpen) {
+    return { quantity: selections.reduce((sum, s) => sum + s.quantity, 0), selections, blocked: false };
+  }
+
+  return selectSellLots(holding, trade.quantity * price, price, avoidShortTermGains, new Date());
+}
+
+function buildDetails(plan: RebalancePlan): string {
+  const drifted = plan.drift
+    .filter(d => d.outOfBand)
+    .map(d => `${d.symbol} ${d.current.toFixed(1)}% vs ${d.target.toFixed(1)}% target`);
+  const trades = plan.trades.map(
+    t => `${t.side === 'buy' ? 'Buy' : 'Sell'} ${t.quantity} ${t.symbol} @ ₹${t.price.toLocaleString('en-IN')}`
+  );
+  return `Drifted: ${drifted.join(', ')}. Trades: ${trades.join('; ')}.`;
+}
+
+function buildRecommendation(plan: RebalancePlan): string {
+  const parts = ['Rebalancing brings your portfolio back to its target risk.'];
+  if (plan.cashUsed > 0) {
+    parts.push(`₹${Math.round(plan.cashUsed).toLocaleString('en-IN')} of new cash is used before selling anything.`);
+  }
+  if (plan.estimatedRealizedGain !== 0) {
+    parts.push(`Sales realize an estimated ₹${Math.round(plan.estimatedRealizedGain).toLocaleString('en-IN')} of gains, from losing or long-term lots first.`);
+  }
+  if (plan.blockedByTax.length > 0) {
+    parts.push(`${plan.blockedByTax.join(', ')} were only partly trimmed to avoid short-term capital gains.`);
+  }
+  return parts.join(' ');
+}
@@ -0,0 +1,472 @@
+/**
+ * Step-Up Authentication Service
+ *
+ * Re-verifies the user before money moves
+ *
+ * Features:
+ * - TOTP second factor (RFC 6238, 30s / 6 digits) with enrollment, tied to TWO_FACTOR_ENABLED
+ * - Re-authentication against Firebase Auth (password or Google popup)
+ * - Attempt limiting: repeated failures lock step-up for a cool-down period
+ * - Short-lived verification grant so one check covers a batch of approvals
+ * - requireStepUp() guard for every high-value approval path
+ */
+
+import {
+  EmailAuthProvider,
+  GoogleAuthProvider,
+  reauthenticateWithCredential,
+  reauthenticateWithPopup,
+} from 'firebase/auth';
+import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import CryptoJS from 'crypto-js';
+import { auth, db } from '../config/firebase';
+import { encryptData, decryptData } from './encryptionService';
+import { logActivity, logSecurityAlert, ActivityType } from './activityLogger';
+
+// ==================== TYPES ====================
+
+export type StepUpMethod = 'totp' | 'password' | 'google';
+
+export type StepUpCredential =
+  | { method: 'totp'; code: string }
+  | { method: 'password'; password: string }
+  | { method: 'google' };
+
+export interface StepUpResult {
+  success: boolean;
+  message: string;
+  attemptsRemaining?: number;
+  lockedUntil?: Date;
+}
+
+export interface TotpEnrollment {
+  secret: string; // Base32, for manual entry
+  otpauthUri: string; // For QR codes
+}
+
+interface AttemptState {
+  failures: string[]; // ISO timestamps of recent failed attempts
+  lockedUntil?: string;
+  lastTotpCounter?: number; // Last accepted time step, so a code cannot be replayed
+}
+
+interface TotpRecord {
+  encryptedSecret: string;
+  enabled: boolean;
+  enrolledAt: string;
+}
+
+/**
+ * Thrown by requireStepUp when a high-value action has not been re-verified
+ */
+export class StepUpError extends Error {
+  reason: 'required' | 'locked';
+  lockedUntil?: Date;
+
+  constructor(reason: 'required' | 'locked', message: string, lockedUntil?: Date) {
+    super(message);
+    this.name = 'StepUpError';
+    this.reason = reason;
+    this.lockedUntil = lockedUntil;
+  }
+}
+
+// ==================== CONSTANTS ====================
+
+export const HIGH_VALUE_AMOUNT = 50000; // ₹ at or above which approvals need step-up
+const MAX_FAILED_ATTEMPTS = 5;
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000; // Failures older than this are forgotten
+const LOCKOUT_MS = 15 * 60 * 1000;
+const GRANT_TTL_MS = 5 * 60 * 1000; // One verification covers approvals for 5 minutes
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_DRIFT_STEPS = 1; // Accept the previous/next code for clock drift
+const TOTP_ISSUER = 'FinanceAI';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// ==================== TOTP HELPERS ====================
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function toWordArray(bytes: Uint8Array): CryptoJS.lib.WordArray {
+  const words: number[] = [];
+  bytes.forEach((byte, i) => {
+    words[i >>> 2] |= byte << (24 - (i % 4) * 8);
+  });
+  return CryptoJS.lib.WordArray.create(words, bytes.length);
+}
+
+/**
+ * HOTP value (RFC 4226) for one counter
+ */
+function hotp(secret: string, counter: number): string {
+  const counterBytes = new Uint8Array(8);
+  let remaining = counter;
+  for (let i = 7; i >= 0; i--) {
+    counterBytes[i] = remaining & 0xff;
+    remaining = Math.floor(remaining / 256);
+  }
+
+  const hmac = CryptoJS.HmacSHA1(toWordArray(counterBytes), toWordArray(base32Decode(secret)));
+  const byteAt = (i: number) => (hmac.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+
+  const offset = byteAt(19) & 0x0f;
+  const binary =
+    ((byteAt(offset) & 0x7f) << 24) |
+    (byteAt(offset + 1) << 16) |
+    (byteAt(offset + 2) << 8) |
+    byteAt(offset + 3);
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+// ==================== STEP-UP AUTH SERVICE ====================
+
+export class StepUpAuthService {
+  private grants = new Map<string, number>(); // userId -> grant expiry (ms), memory only
+  private pendingEnrollments = new Map<string, string>(); // userId -> unconfirmed secret
+
+  /**
+   * Whether an amount is large enough to need step-up
+   */
+  isHighValue(amount: number): boolean {
+    return amount >= HIGH_VALUE_AMOUNT;
+  }
+
+  /**
+   * Verification methods available to the user, strongest first
+   */
+  async getAvailableMethods(userId: string): Promise<StepUpMethod[]> {
+    const methods: StepUpMethod[] = [];
+    if (await this.isTotpEnabled(userId)) {
+      methods.push('totp');
+    }
+
+    const user = auth.currentUser;
+    if (user && user.uid === userId) {
+      const providers = user.providerData.map(p => p.providerId);
+      if (providers.includes('password')) methods.push('password');
+      if (providers.includes('google.com')) methods.push('google');
+    }
+
+    return methods;
+  }
+
+  /**
+   * Verify the user. Success grants step-up for a few minutes; failures count toward lockout.
+   */
+  async verify(userId: string, credential: StepUpCredential, purpose: string): Promise<StepUpResult> {
+    const lockedUntil = this.getLockout(userId);
+    if (lockedUntil) {
+      return {
+        success: false,
+        message: `Too many failed attempts. Try again after ${lockedUntil.toLocaleTimeString()}.`,
+        attemptsRemaining: 0,
+        lockedUntil,
+      };
+    }
+
+    let verified = false;
+    try {
+      verified = await this.checkCredential(userId, credential);
+    } catch (error) {
+      console.warn('Step-up verification error:', error instanceof Error ? error.message : error);
+      verified = false;
+    }
+
+    if (!verified) {
+      return this.recordFailure(userId, credential.method, purpose);
+    }
+
+    const state = this.loadAttempts(userId);
+    state.failures = [];
+    delete state.lockedUntil;
+    this.saveAttempts(userId, state);
+    this.grants.set(userId, Date.now() + GRANT_TTL_MS);
+
+    await logActivity({
+      userId,
+      type: ActivityType.SENSITIVE_DATA_ACCESSED,
+      description: `Step-up verification passed (${credential.method}) for ${purpose}`,
+      metadata: { method: credential.method, purpose },
+    });
+
+    return { success: true, message: 'Verified' };
+  }
+
+  /**
+   * Whether the user passed step-up within the grant window
+   */
+  hasRecentVerification(userId: string): boolean {
+    const expiresAt = this.grants.get(userId);
+    if (!expiresAt) return false;
+    if (expiresAt <= Date.now()) {
+      this.grants.delete(userId);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Drop the grant, e.g. on logout
+   */
+  clearVerification(userId: string): void {
+    this.grants.delete(userId);
+  }
+
+  /**
+   * Guard for money-moving approvals. Without an amount the action always needs step-up.
+   * Throws StepUpError when the user has not verified recently or is locked out.
+   */
+  requireStepUp(userId: string, purpose: string, amount?: number): void {
+    if (amount !== undefined && !this.isHighValue(amount)) return;
+
+    const lockedUntil = this.getLockout(userId);
+    if (lockedUntil) {
+      throw new StepUpError('locked', `Verification locked until ${lockedUntil.toLocaleTimeString()}`, lockedUntil);
+    }
+    if (!this.hasRecentVerification(userId)) {
+      throw new StepUpError('required', `Verify your identity to ${purpose}`);
+    }
+  }
+
+  /**
+   * End of the current lockout, or null when not locked
+   */
+  getLockout(userId: string): Date | null {
+    const state = this.loadAttempts(userId);
+    if (!state.lockedUntil) return null;
+
+    const lockedUntil = new Date(state.lockedUntil);
+    if (lockedUntil.getTime() <= Date.now()) {
+      delete state.lockedUntil;
+      state.failures = [];
+      this.saveAttempts(userId, state);
+      return null;
+    }
+    return lockedUntil;
+  }
+
+  // ==================== TOTP ENROLLMENT ====================
+
+  async isTotpEnabled(userId: string): Promise<boolean> {
+    return (await this.loadTotpRecord(userId))?.enabled ?? false;
+  }
+
+  /**
+   * Start TOTP enrollment; the secret is only stored once a code is confirmed
+   */
+  beginTotpEnrollment(userId: string, accountName: string): TotpEnrollment {
+    const secret = base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+    this.pendingEnrollments.set(userId, secret);
+
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+    return {
+      secret,
+      otpauthUri: `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`,
+    };
+  }
+
+  /**
+   * Finish enrollment with a code from the authenticator app
+   */
+  async confirmTotpEnrollment(userId: string, code: string): Promise<StepUpResult> {
+    const secret = this.pendingEnrollments.get(userId);
+    if (!secret) {
+      return { success: false, message: 'Start enrollment again' };
+    }
+    if (this.matchTotp(secret, code, Date.now()) === null) {
+      return { success: false, message: 'Code did not match. Check the time on your device and try again.' };
+    }
+
+    this.pendingEnrollments.delete(userId);
+    await this.saveTotpRecord(userId, {
+      encryptedSecret: encryptData(secret),
+      enabled: true,
+      enrolledAt: new Date().toISOString(),
+    });
+    await this.setTwoFactorPreference(userId, true);
+
+    await logActivity({
+      userId,
+      type: ActivityType.TWO_FACTOR_ENABLED,
+      description: 'Authenticator app enabled for step-up verification',
+      severity: 'medium',
+    });
+
+    return { success: true, message: 'Two-factor authentication enabled' };
+  }
+
+  /**
+   * Turn TOTP off; needs a recent step-up verification
+   */
+  async disableTotp(userId: string): Promise<StepUpResult> {
+    this.requireStepUp(userId, 'disable two-factor authentication');
+
+    await this.saveTotpRecord(userId, { encryptedSecret: '', enabled: false, enrolledAt: new Date().toISOString() });
+    await this.setTwoFactorPreference(userId, false);
+
+    await logActivity({
+      userId,
+      type: ActivityType.TWO_FACTOR_DISABLED,
+      description: 'Authenticator app disabled',
+      severity: 'high',
+    });
+
+    return { success: true, message: 'Two-factor authentication disabled' };
+  }
+
+  // ==================== HELPER METHODS ====================
+
+  private async checkCredential(userId: string, credential: StepUpCredential): Promise<boolean> {
+    if (credential.method === 'totp') {
+      const record = await this.loadTotpRecord(userId);
+      if (!record?.enabled) return false;
+
+      const counter = this.matchTotp(decryptData(record.encryptedSecret), credential.code, Date.now());
+      const state = this.loadAttempts(userId);
+      if (counter === null || (state.lastTotpCounter !== undefined && counter <= state.lastTotpCounter)) {
+        return false;
+      }
+      state.lastTotpCounter = counter;
+      this.saveAttempts(userId, state);
+      return true;
+    }
+
+    const user = auth.currentUser;
+    if (!user || user.uid !== userId) return false;
+
+    if (credential.method === 'password') {
+      if (!user.email) return false;
+      await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, credential.password));
+      return true;
+    }
+
+    const result = await reauthenticateWithPopup(user, new GoogleAuthProvider());
+    return result.user.uid === userId;
+  }
+
+  /**
+   * Time step the code belongs to (within the drift window), or null
+   */
+  private matchTotp(secret: string, code: string, now: number): number | null {
+    const clean = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(clean)) return null;
+
+    const current = Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+    for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+      if (hotp(secret, current + drift) === clean) {
+        return current + drift;
+      }
+    }
+    return null;
+  }
+
+  private async recordFailure(userId: string, method: StepUpMethod, purpose: string): Promise<StepUpResult> {
+    const now = Date.now();
+    const state = this.loadAttempts(userId);
+    state.failures = state.failures.filter(f => now - new Date(f).getTime() < ATTEMPT_WINDOW_MS);
+    state.failures.push(new Date(now).toISOString());
+
+    const attemptsRemaining = Math.max(0, MAX_FAILED_ATTEMPTS - state.failures.length);
+    if (attemptsRemaining === 0) {
+      const lockedUntil = new Date(now + LOCKOUT_MS);
+      state.lockedUntil = lockedUntil.toISOString();
+      this.saveAttempts(userId, state);
+      this.grants.delete(userId);
+
+      await logSecurityAlert(userId, 'step_up_lockout', { method, purpose, failures: state.failures.length });
+
+      return {
+        success: false,
+        message: `Too many failed attempts. Verification is locked until ${lockedUntil.toLocaleTimeString()}.`,
+        attemptsRemaining,
+        lockedUntil,
+      };
+    }
+
+    this.saveAttempts(userId, state);
+    return {
+      success: false,
+      message: `Verification failed. ${attemptsRemaining} attempt(s) left.`,
+      attemptsRemaining,
+    };
+  }
+
+  private async setTwoFactorPreference(userId: string, enabled: boolean): Promise<void> {
+    try {
+      await updateDoc(doc(db, 'users', userId), { 'preferences.twoFactorEnabled': enabled });
+    } catch (error) {
+      console.warn('Could not update 2FA preference:', error);
+    }
+  }
+
+  // ==================== STORAGE METHODS ====================
+
+  private async loadTotpRecord(userId: string): Promise<TotpRecord | null> {
+    try {
+      const snapshot = await getDoc(doc(db, 'step_up_auth', userId));
+      if (snapshot.exists()) {
+        return snapshot.data() as TotpRecord;
+      }
+    } catch (error) {
+      console.warn('Loading 2FA settings from localStorage:', error);
+    }
+    const local = localStorage.getItem(`step_up_totp_${userId}`);
+    return local ? (JSON.parse(local) as TotpRecord) : null;
+  }
+
+  private async saveTotpRecord(userId: string, record: TotpRecord): Promise<void> {
+    localStorage.setItem(`step_up_totp_${userId}`, JSON.stringify(record));
+    try {
+      await setDoc(doc(db, 'step_up_auth', userId), record);
+    } catch (error) {
+      console.warn('2FA settings saved locally only:', error);
+    }
+  }
+
+  private loadAttempts(userId: string): AttemptState {
+    return JSON.parse(localStorage.getItem(`step_up_attempts_${userId}`) || '{"failures":[]}');
+  }
+
+  private saveAttempts(userId: string, state: AttemptState): void {
+    localStorage.setItem(`step_up_attempts_${userId}`, JSON.stringify(state));
+  }
+}
+
+// Export singleton instance
+export const stepUpAuthService = new StepUpAuthService();
@@ -3,10 +3,11 @@
  * 
  * Features:
  * - Add stocks to watchlist with price change thresholds
- * - Poll stock prices from Finnhub API
+ * - Poll stock & crypto prices through the market data provider layer (Finnhub, Binance or replay)
  * - Detect price changes and trigger alerts
  * - WebSocket/Socket.IO for real-time notifications
  * - Persistent storage with Firestore
+ * - Portfolio positions come from the lot-level holdings ledger
  */
 
 import axios from 'axios';
@@ -15,11 +16,11 @@ import {
   removeWatchlistItem,
   getWatchlistItems,
   updateWatchlistPrices,
-  addPortfolioPosition,
-  getPortfolioPositions,
-  updatePortfolioPosition,
   isSymbolInWatchlist,
 } from './watchlistService';
+import { holdingsLedger, type LedgerHolding } from './holdingsLedger';
+import { marketDataService } from './marketDataProvider';
+import { agentEventBus } from './agentEventBus';
 
 // Types
 export type AssetType = 'stock' | 'crypto';
@@ -30,8 +31,8 @@ export interface PortfolioPosition {
   symbol: string;
   assetType: AssetType;
   quantity: number; // Number of shares/coins owned
-  boughtPrice: number; // Average buy price
-  boughtAt: Date; // Purchase date
+  boughtPrice: number; // Average cost of the open lots
+  boughtAt: Date; // Earliest open lot's purchase date
   currentPrice: number | null; // Live price
   currentValue: number | null; // quantity * currentPrice
   profitLoss: number | null; // currentValue - invested
@@ -88,9 +89,6 @@ const priceCache: Map<string, number> = new Map();
 const historicalData: Map<string, { price: number; timestamp: Date }[]> = new Map();
 const activeUserIds: Set<string> = new Set(); // Track users with active monitoring
 
-// Finnhub API configuration
-const FINNHUB_API_KEY = import.meta.env.VITE_FINNHUB_API_KEY || 'demo';
-const FINNHUB_BASE_URL = 'https://finnhub.io/api/v1';
 const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
 const POLL_INTERVAL = 10000; // 10 seconds
 
@@ -103,7 +101,7 @@ const riskAlertListeners: Map<string, RiskAlertCallback[]> = new Map();
 // ==================== WATCHLIST MANAGEMENT ====================
 
 export class StockMonitoringAgent {
-  private pollingInterval: number | null = null;
+  private pollingInterval: ReturnType<typeof setInterval> | null = null;
   private isRunning = false;
 
   /**
@@ -114,7 +112,7 @@ export class StockMonitoringAgent {
     symbol: string,
     threshold: number,
     assetType?: AssetType, // Auto-detect if not provided
-    portfolioData?: { quantity: number; boughtPrice: number } // Optional: track investment
+    portfolioData?: { quantity: number; boughtPrice: number; boughtAt?: Date; fees?: number } // Optional: track investment
   ): Promise<WatchlistItem> {
     // Auto-detect asset type if not provided
     const detectedType = assetType || this.detectAssetType(symbol);
@@ -146,20 +144,21 @@ export class StockMonitoringAgent {
     // Add to Firestore
     await addWatchlistItem(userId, item);
 
-    // Add portfolio position if provided
+    // Record the purchase in the holdings ledger if provided
     if (portfolioData) {
-      const portfolio = this.createPortfolioPosition(
-        userId,
-        symbol.toUpperCase(),
-        detectedType,
-        portfolioData.quantity,
-        portfolioData.boughtPrice,
-        currentPrice
-      );
-      item.portfolio = portfolio;
-      
-      // Store in Firestore
-      await addPortfolioPosition(userId, portfolio);
+      await holdingsLedger.recordBuy(userId, {
+        symbol: item.symbol,
+        assetType: detectedType === 'crypto' ? 'crypto' : 'stocks',
+        quantity: portfolioData.quantity,
+        price: portfolioData.boughtPrice,
+        fees: portfolioData.fees,
+        date: portfolioData.boughtAt,
+        source: 'stock_monitor',
+      });
+      holdingsLedger.setLastPrices({ [item.symbol]: currentPrice });
+
+      const holding = await holdingsLedger.getHolding(userId, item.symbol);
+      if (holding) item.portfolio = this.toPortfolioPosition(userId, holding);
     }
 
     console.log(`✅ Added ${symbol} to watchlist for user ${userId} (threshold: ${threshold}%)`);
@@ -176,36 +175,24 @@ export class StockMonitoringAgent {
   }
 
   /**
-   * Create portfolio position
+   * Convert a ledger holding into a monitored portfolio position
    */
-  private createPortfolioPosition(
-    userId: string,
-    symbol: string,
-    assetType: AssetType,
-    quantity: number,
-    boughtPrice: number,
-    currentPrice: number
-  ): PortfolioPosition {
-    const invested = quantity * boughtPrice;
-    const currentValue = quantity * currentPrice;
-    const profitLoss = currentValue - invested;
-    const profitLossPercent = (profitLoss / invested) * 100;
-    
-    // Calculate risk score
-    const { riskLevel, riskScore } = this.calculateRisk(profitLossPercent, assetType);
+  private toPortfolioPosition(userId: string, holding: LedgerHolding): PortfolioPosition {
+    const assetType: AssetType = holding.assetType === 'crypto' ? 'crypto' : 'stock';
+    const { riskLevel, riskScore } = this.calculateRisk(holding.unrealizedPnlPercent ?? 0, assetType);
 
     return {
-      id: `portfolio_${userId}_${symbol}_${Date.now()}`,
-      symbol,
+      id: `portfolio_${userId}_${holding.symbol}`,
+      symbol: holding.symbol,
       assetType,
-      quantity,
-      boughtPrice,
-      boughtAt: new Date(),
-      currentPrice,
-      currentValue,
-      profitLoss,
-      profitLossPercent,
-      invested,
+      quantity: holding.quantity,
+      boughtPrice: holding.averageCost,
+      boughtAt: holding.firstAcquiredAt,
+      currentPrice: holding.currentPrice,
+      currentValue: holding.marketValue,
+      profitLoss: holding.unrealizedPnl,
+      profitLossPercent: holding.unrealizedPnlPercent,
+      invested: holding.invested,
       riskLevel,
       riskScore,
       userId,
@@ -298,7 +285,10 @@ export class StockMonitoringAgent {
    * Get user's portfolio
    */
   async getPortfolio(userId: string): Promise<PortfolioPosition[]> {
-    return await getPortfolioPositions(userId);
+    const holdings = await holdingsLedger.getHoldings(userId);
+    return holdings
+      .filter(h => h.assetType === 'stocks' || h.assetType === 'etf' || h.assetType === 'crypto')
+      .map(h => this.toPortfolioPosition(userId, h));
   }
 
   /**
@@ -312,7 +302,7 @@ export class StockMonitoringAgent {
     positions: number;
     highRiskCount: number;
   }> {
-    const userPortfolio = await getPortfolioPositions(userId);
+    const userPortfolio = await this.getPortfolio(userId);
     
     const totalInvested = userPortfolio.reduce((sum, p) => sum + p.invested, 0);
     const totalCurrentValue = userPortfolio.reduce((sum, p) => sum + (p.currentValue || 0), 0);
@@ -367,7 +357,7 @@ export class StockMonitoringAgent {
    */
   private async reloadUserData(userId: string): Promise<void> {
     const watchlist = await getWatchlistItems(userId);
-    const portfolio = await getPortfolioPositions(userId);
+    const portfolio = await this.getPortfolio(userId);
     
     watchlistCache.set(userId, watchlist);
     portfolioCache.set(userId, portfolio);
@@ -457,9 +447,9 @@ export class StockMonitoringAgent {
    * Also update portfolio positions and check for risk alerts
    */
   private updatePriceAndCheckAlerts(symbol: string, newPrice: number): void {
-    // Store historical data
+    // Store historical data (market time, so replays record replay timestamps)
     const history = historicalData.get(symbol) || [];
-    history.push({ price: newPrice, timestamp: new Date() });
+    history.push({ price: newPrice, timestamp: marketDataService.now() });
     // Keep last 100 data points
     if (history.length > 100) history.shift();
     historicalData.set(symbol, history);
@@ -494,6 +484,16 @@ export class StockMonitoringAgent {
               // Emit alert to user
               this.emitAlert(userId, alert);
 
+              // Wake agents watching this symbol
+              agentEventBus
+                .publish(
+                  'market_change',
+                  userId,
+                  { symbol, assetType: item.assetType, market: { ...alert, assetType: item.assetType } },
+                  'stockMonitoringAgent.updatePriceAndCheckAlerts'
+                )
+                .catch(err => console.error('Error publishing market event:', err));
+
               // Update last price in Firestore to avoid duplicate alerts
               item.lastPrice = newPrice;
               updateWatchlistPrices(item.id, newPrice, newPrice).catch(err => 
@@ -540,16 +540,8 @@ export class StockMonitoringAgent {
     position.riskLevel = riskLevel;
     position.riskScore = riskScore;
 
-    // Update position in Firestore
-    await updatePortfolioPosition(
-      position.id,
-      newPrice,
-      position.currentValue,
-      position.profitLoss,
-      position.profitLossPercent,
-      riskLevel,
-      riskScore
-    ).catch(err => console.error('Error updating portfolio position:', err));
+    // Share the price with the ledger so every view values the holding alike
+    holdingsLedger.setLastPrices({ [position.symbol]: newPrice });
 
     // Check if risk level increased to high or critical
     const shouldAlert = (riskLevel === 'high' || riskLevel === 'critical') && 
@@ -736,114 +728,10 @@ Keep it concise and actionable.`;
   }
 
   /**
-   * Fetch price for stock or crypto
+   * Fetch price for stock or crypto from the configured market data providers
    */
   private async fetchPrice(symbol: string, assetType: AssetType): Promise<number | null> {
-    if (assetType === 'crypto') {
-      return this.fetchCryptoPrice(symbol);
-    } else {
-      return this.fetchStockPrice(symbol);
-    }
-  }
-
-  /**
-   * Fetch stock price from Finnhub API
-   */
-  private async fetchStockPrice(symbol: string): Promise<number | null> {
-    try {
-      const response = await axios.get(`${FINNHUB_BASE_URL}/quote`, {
-        params: {
-          symbol: symbol.toUpperCase(),
-          token: FINNHUB_API_KEY,
-        },
-        timeout: 5000,
-      });
-
-      const data = response.data;
-      
-      // Finnhub returns { c: currentPrice, h: high, l: low, o: open, pc: previousClose, t: timestamp }
-      if (data.c && data.c > 0) {
-        return data.c;
-      }
-
-      console.warn(`⚠️ Invalid price data for ${symbol}:`, data);
-      return null;
-
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        console.error(`❌ Error fetching price for ${symbol}:`, error.message);
-      }
-      return null;
-    }
-  }
-
-  /**
-   * Fetch crypto price from Finnhub Crypto API
-   * Endpoint: /crypto/candle or /forex/candle
-   * For simplicity, we'll use Binance API as fallback (free and reliable)
-   */
-  private async fetchCryptoPrice(symbol: string): Promise<number | null> {
-    try {
-      // Try Finnhub crypto endpoint first
-      // Format: BINANCE:BTCUSDT
-      const finnhubSymbol = `BINANCE:${symbol.toUpperCase()}`;
-      
-      const response = await axios.get(`${FINNHUB_BASE_URL}/quote`, {
-        params: {
-          symbol: finnhubSymbol,
-          token: FINNHUB_API_KEY,
-        },
-        timeout: 5000,
-      });
-
-      const data = response.data;
-      
-      if (data.c && data.c > 0) {
-        return data.c;
-      }
-
-      console.warn(`⚠️ Finnhub crypto API returned invalid data, trying Binance API...`);
-      
-      // Fallback to Binance public API (no auth required)
-      return this.fetchCryptoPriceFromBinance(symbol);
-
-    } catch (error) {
-      console.warn(`⚠️ Finnhub crypto API failed, trying Binance API...`);
-      return this.fetchCryptoPriceFromBinance(symbol);
-    }
-  }
-
-  /**
-   * Fetch crypto price from Binance public API (fallback)
-   */
-  private async fetchCryptoPriceFromBinance(symbol: string): Promise<number | null> {
-    try {
-      // Binance API expects format like BTCUSDT
-      const binanceSymbol = symbol.toUpperCase();
-      
-      const response = await axios.get(`https://api.binance.com/api/v3/ticker/price`, {
-        params: {
-          symbol: binanceSymbol,
-        },
-        timeout: 5000,
-      });
-
-      const data = response.data;
-      
-      // Binance returns { symbol: "BTCUSDT", price: "50000.00" }
-      if (data.price && parseFloat(data.price) > 0) {
-        return parseFloat(data.price);
-      }
-
-      console.warn(`⚠️ Invalid crypto price data for ${symbol}:`, data);
-      return null;
-
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        console.error(`❌ Error fetching crypto price for ${symbol}:`, error.message);
-      }
-      return null;
-    }
+    return marketDataService.getPrice(symbol, assetType);
   }
 
   /**
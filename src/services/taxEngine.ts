@@ -0,0 +1,357 @@
+/**
+ * Income Tax Engine
+ *
+ * Single place where Indian income tax is computed, driven by the versioned
+ * rule tables in config/taxRules
+ *
+ * Features:
+ * - Financial-year aware slabs for both regimes (FY2023-24 onward)
+ * - Old-regime slabs by age (below 60, senior, super senior)
+ * - Standard deduction and per-section Chapter VI-A caps
+ * - Section 87A rebate with marginal relief
+ * - Surcharge bands with marginal relief at each threshold
+ * - Health & education cess, rounding under sections 288A/288B
+ * - Years newer than the latest table fall back to it and are flagged provisional
+ */
+
+import {
+  TAX_RULES,
+  type AgeCategory,
+  type FinancialYearTaxRules,
+  type RegimeRules,
+  type TaxRegime,
+  type TaxSlabRule,
+} from '../config/taxRules';
+
+export type { TaxRegime, AgeCategory } from '../config/taxRules';
+
+// ==================== TYPES ====================
+
+/**
+ * Amounts claimed by the taxpayer. Caps are applied by the engine, and only
+ * the old regime honours them.
+ */
+export interface TaxDeductions {
+  section80C?: number;
+  section80D?: number; // Self and family health insurance
+  section80CCD1B?: number; // Additional NPS contribution
+  homeLoanInterest?: number; // Section 24(b), self-occupied
+  educationLoanInterest?: number; // Section 80E, no upper limit
+  savingsInterest?: number; // 80TTA, or 80TTB for senior citizens
+  hra?: number; // Exempt HRA, already computed
+  lta?: number; // Exempt LTA, already computed
+  other?: number; // Any other deduction, taken as-is
+}
+
+export interface TaxInput {
+  grossIncome: number;
+  regime: TaxRegime;
+  financialYear?: string; // 'FY2024-25'; defaults to the current year
+  age?: number;
+  salaried?: boolean; // Standard deduction applies (default true)
+  deductions?: TaxDeductions;
+}
+
+export interface AppliedDeduction {
+  section: string;
+  claimed: number;
+  allowed: number;
+}
+
+export interface SlabTax {
+  from: number;
+  to: number | null;
+  rate: number;
+  taxableAmount: number;
+  tax: number;
+}
+
+export interface TaxComputation {
+  financialYear: string;
+  assessmentYear: string;
+  rulesYear: string; // Table actually used
+  provisional: boolean; // No table for this year yet; latest rules applied
+  regime: TaxRegime;
+  ageCategory: AgeCategory;
+  grossIncome: number;
+  standardDeduction: number;
+  deductions: AppliedDeduction[];
+  totalDeductions: number; // Includes the standard deduction
+  taxableIncome: number;
+  taxBeforeRebate: number;
+  rebate: number;
+  taxAfterRebate: number;
+  surcharge: number;
+  surchargeRelief: number;
+  cess: number;
+  totalTax: number;
+  effectiveRate: number; // Percent of gross income
+  marginalRate: number; // Slab rate on the next rupee, 0 while the rebate wipes out tax
+  slabBreakdown: SlabTax[];
+}
+
+export interface RegimeComparison {
+  old: TaxComputation;
+  new: TaxComputation;
+  recommendation: TaxRegime;
+  savings: number;
+}
+
+// ==================== FINANCIAL YEARS ====================
+
+const FY_PATTERN = /^FY(\d{4})-(\d{2})$/;
+
+function parseFinancialYear(financialYear: string): number {
+  const match = FY_PATTERN.exec(financialYear);
+  if (!match) {
+    throw new Error(`Invalid financial year "${financialYear}", expected e.g. FY2024-25`);
+  }
+  const startYear = Number(match[1]);
+  if ((startYear + 1) % 100 !== Number(match[2])) {
+    throw new Error(`Invalid financial year "${financialYear}"`);
+  }
+  return startYear;
+}
+
+function formatFinancialYear(startYear: number, prefix: 'FY' | 'AY' = 'FY'): string {
+  return `${prefix}${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Financial year (April to March) containing the given date
+ */
+export function getFinancialYear(date: Date = new Date()): string {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return formatFinancialYear(startYear);
+}
+
+export function getAssessmentYear(financialYear: string): string {
+  return formatFinancialYear(parseFinancialYear(financialYear) + 1, 'AY');
+}
+
+/**
+ * First and last day of a financial year (1 April to 31 March)
+ */
+export function getFinancialYearDates(financialYear: string): { start: Date; end: Date } {
+  const startYear = parseFinancialYear(financialYear);
+  return {
+    start: new Date(startYear, 3, 1),
+    end: new Date(startYear + 1, 2, 31, 23, 59, 59, 999),
+  };
+}
+
+export function getSupportedFinancialYears(): string[] {
+  return TAX_RULES.map(rules => rules.financialYear);
+}
+
+/**
+ * Rule table for a financial year. Years after the latest table use it and
+ * are marked provisional; years before the first table are not supported.
+ */
+export function getTaxRules(financialYear: string = getFinancialYear()): {
+  rules: FinancialYearTaxRules;
+  provisional: boolean;
+} {
+  const exact = TAX_RULES.find(rules => rules.financialYear === financialYear);
+  if (exact) return { rules: exact, provisional: false };
+
+  const startYear = parseFinancialYear(financialYear);
+  const latest = TAX_RULES[TAX_RULES.length - 1];
+  if (startYear > parseFinancialYear(latest.financialYear)) {
+    return { rules: latest, provisional: true };
+  }
+
+  throw new Error(`Tax rules are not available for ${financialYear} (earliest is ${TAX_RULES[0].financialYear})`);
+}
+
+export function getAgeCategory(age?: number): AgeCategory {
+  if (age === undefined) return 'below60';
+  if (age >= 80) return 'superSenior';
+  if (age >= 60) return 'senior';
+  return 'below60';
+}
+
+// ==================== COMPUTATION ====================
+
+function roundToTen(amount: number): number {
+  return Math.round(amount / 10) * 10;
+}
+
+function computeSlabTax(taxableIncome: number, slabs: TaxSlabRule[]): { tax: number; breakdown: SlabTax[] } {
+  const breakdown: SlabTax[] = [];
+  let tax = 0;
+  let from = 0;
+
+  for (const slab of slabs) {
+    const upper = slab.upTo ?? Infinity;
+    const taxableAmount = Math.max(0, Math.min(taxableIncome, upper) - from);
+    const slabTax = (taxableAmount * slab.rate) / 100;
+    breakdown.push({ from, to: slab.upTo, rate: slab.rate, taxableAmount, tax: slabTax });
+    tax += slabTax;
+    if (taxableIncome <= upper) break;
+    from = upper;
+  }
+
+  return { tax, breakdown };
+}
+
+function computeRebate(taxableIncome: number, tax: number, regimeRules: RegimeRules): number {
+  const { incomeLimit, maxRebate, marginalRelief } = regimeRules.rebate;
+  if (taxableIncome <= incomeLimit) return Math.min(tax, maxRebate);
+
+  // Marginal relief: tax just above the limit is capped at the income above it
+  if (marginalRelief) {
+    const excess = taxableIncome - incomeLimit;
+    if (tax > excess) return tax - excess;
+  }
+  return 0;
+}
+
+function surchargeRateFor(taxableIncome: number, regimeRules: RegimeRules): number {
+  let rate = 0;
+  for (const band of regimeRules.surcharge) {
+    if (taxableIncome > band.above) rate = band.rate;
+  }
+  return rate;
+}
+
+/**
+ * Surcharge with marginal relief: tax plus surcharge may not exceed the tax
+ * payable at the band threshold plus the income earned above that threshold.
+ */
+function computeSurcharge(
+  taxableIncome: number,
+  tax: number,
+  slabs: TaxSlabRule[],
+  regimeRules: RegimeRules
+): { surcharge: number; relief: number } {
+  const rate = surchargeRateFor(taxableIncome, regimeRules);
+  if (rate === 0) return { surcharge: 0, relief: 0 };
+
+  const surcharge = (tax * rate) / 100;
+  const threshold = [...regimeRules.surcharge].reverse().find(band => taxableIncome > band.above)!.above;
+  const thresholdTax = computeSlabTax(threshold, slabs).tax;
+  const thresholdRate = surchargeRateFor(threshold, regimeRules);
+  const ceiling = thresholdTax * (1 + thresholdRate / 100) + (taxableIncome - threshold);
+
+  const relief = Math.min(surcharge, Math.max(0, tax + surcharge - ceiling));
+  return { surcharge: surcharge - relief, relief };
+}
+
+function applyDeductions(
+  deductions: TaxDeductions,
+  rules: FinancialYearTaxRules,
+  regimeRules: RegimeRules,
+  ageCategory: AgeCategory
+): AppliedDeduction[] {
+  const limits = rules.deductionLimits;
+  const senior = ageCategory !== 'below60';
+
+  const entries: Array<[string, number | undefined, number]> = [
+    ['80C', deductions.section80C, limits.section80C],
+    ['80D', deductions.section80D, senior ? limits.section80DSenior : limits.section80D],
+    ['80CCD(1B)', deductions.section80CCD1B, limits.section80CCD1B],
+    ['24(b)', deductions.homeLoanInterest, limits.section24b],
+    ['80E', deductions.educationLoanInterest, Infinity],
+    [senior ? '80TTB' : '80TTA', deductions.savingsInterest, senior ? limits.section80TTB : limits.section80TTA],
+    ['10(13A) HRA', deductions.hra, Infinity],
+    ['10(5) LTA', deductions.lta, Infinity],
+    ['Other', deductions.other, Infinity],
+  ];
+
+  return entries
+    .filter(([, claimed]) => (claimed ?? 0) > 0)
+    .map(([section, claimed, limit]) => ({
+      section,
+      claimed: claimed!,
+      allowed: regimeRules.allowsChapterVIA ? Math.min(claimed!, limit) : 0,
+    }));
+}
+
+/**
+ * Compute income tax for one financial year and regime
+ */
+export function calculateIncomeTax(input: TaxInput): TaxComputation {
+  const financialYear = input.financialYear ?? getFinancialYear();
+  const { rules, provisional } = getTaxRules(financialYear);
+  const regimeRules = rules[input.regime];
+  const ageCategory = getAgeCategory(input.age);
+  const slabs = regimeRules.slabs[ageCategory];
+  const grossIncome = Math.max(0, input.grossIncome);
+
+  const standardDeduction = input.salaried === false ? 0 : Math.min(grossIncome, regimeRules.standardDeduction);
+  const deductions = applyDeductions(input.deductions ?? {}, rules, regimeRules, ageCategory);
+  const totalDeductions = standardDeduction + deductions.reduce((sum, d) => sum + d.allowed, 0);
+  const taxableIncome = roundToTen(Math.max(0, grossIncome - totalDeductions));
+
+  const { tax: taxBeforeRebate, breakdown } = computeSlabTax(taxableIncome, slabs);
+  const rebate = computeRebate(taxableIncome, taxBeforeRebate, regimeRules);
+  const taxAfterRebate = taxBeforeRebate - rebate;
+  const { surcharge, relief } = computeSurcharge(taxableIncome, taxAfterRebate, slabs, regimeRules);
+  const cess = ((taxAfterRebate + surcharge) * rules.cessRate) / 100;
+  const totalTax = roundToTen(taxAfterRebate + surcharge + cess);
+
+  const currentSlab = breakdown[breakdown.length - 1];
+
+  return {
+    financialYear,
+    assessmentYear: getAssessmentYear(financialYear),
+    rulesYear: rules.financialYear,
+    provisional,
+    regime: input.regime,
+    ageCategory,
+    grossIncome,
+    standardDeduction,
+    deductions,
+    totalDeductions,
+    taxableIncome,
+    taxBeforeRebate: Math.round(taxBeforeRebate),
+    rebate: Math.round(rebate),
+    taxAfterRebate: Math.round(taxAfterRebate),
+    surcharge: Math.round(surcharge),
+    surchargeRelief: Math.round(relief),
+    cess: Math.round(cess),
+    totalTax,
+    effectiveRate: grossIncome > 0 ? (totalTax / grossIncome) * 100 : 0,
+    marginalRate: taxAfterRebate > 0 && currentSlab ? currentSlab.rate : 0,
+    slabBreakdown: breakdown.filter(slab => slab.taxableAmount > 0),
+  };
+}
+
+/**
+ * Compute both regimes for the same income and recommend the cheaper one
+ */
+export function compareRegimes(input: Omit<TaxInput, 'regime'>): RegimeComparison {
+  const oldRegime = calculateIncomeTax({ ...input, regime: 'old' });
+  const newRegime = calculateIncomeTax({ ...input, regime: 'new' });
+
+  return {
+    old: oldRegime,
+    new: newRegime,
+    recommendation: newRegime.totalTax <= oldRegime.totalTax ? 'new' : 'old',
+    savings: Math.abs(newRegime.totalTax - oldRegime.totalTax),
+  };
+}
+
+/**
+ * Slab rate (percent) that applies to the next rupee of income
+ */
+export function getMarginalRate(input: TaxInput): number {
+  return calculateIncomeTax(input).marginalRate;
+}
+
+/**
+ * Tax saved by claiming additional deductions on top of the current ones.
+ * Respects section caps, the rebate and the regime (new regime saves nothing).
+ */
+export function estimateDeductionSaving(input: TaxInput, additional: TaxDeductions): number {
+  const current = input.deductions ?? {};
+  const combined: TaxDeductions = { ...current };
+  for (const key of Object.keys(additional) as Array<keyof TaxDeductions>) {
+    combined[key] = (current[key] ?? 0) + (additional[key] ?? 0);
+  }
+
+  const before = calculateIncomeTax(input);
+  const after = calculateIncomeTax({ ...input, deductions: combined });
+  return Math.max(0, before.totalTax - after.totalTax);
+}
@@ -0,0 +1,502 @@
+/**
+ * Tax Loss Harvesting Agent Executor
+ *
+ * Scans open lots for unrealized losses near financial year end and books
+ * the ones that offset this year's realized gains, with user consent based
+ * on agent configuration
+ *
+ * Features:
+ * - Lot-level loss scan from the holdings ledger
+ * - Tax saved per lot against realized gains, after set-off rules
+ * - Sell-and-replace pairs in a similar asset to keep market exposure
+ * - Honors the agent's execution mode (notify, ask permission, auto)
+ */
+
+import {
+  createAgentExecution,
+  getUserAgents,
+  getPendingExecutions,
+  getApprovedExecutions,
+  completeExecution,
+  type Agent,
+  type AgentConfig,
+} from './agentMarketplace';
+import { sendAgentApprovalEmail } from './emailService';
+import { logActivity, ActivityType } from './activityLogger';
+import { holdingsLedger, type LedgerHolding, type Lot } from './holdingsLedger';
+import {
+  capitalGainsService,
+  classifyAsset,
+  computeGain,
+  getCapitalGainsRules,
+  summarizeCapitalGains,
+  type CapitalAssetClass,
+  type GainTerm,
+  type RealizedGainLot,
+  type SummaryOptions,
+} from './capitalGainsService';
+import { getFinancialYear, getFinancialYearDates } from './taxEngine';
+import { marketDataService } from './marketDataProvider';
+import { userProfileService } from './userProfileService';
+import type { AssetType } from './portfolioService';
+
+// ==================== TYPES ====================
+
+export interface HarvestCandidate {
+  symbol: string;
+  name: string;
+  assetType: AssetType;
+  assetClass: CapitalAssetClass;
+  lotId: string;
+  acquiredAt: Date;
+  quantity: number;
+  costPerUnit: number; // incl. buy fees
+  currentPrice: number;
+  unrealizedLoss: number; // positive amount
+  lossPercent: number;
+  term: GainTerm;
+  estimatedTaxSaved: number; // against this year's realized gains
+  replacement: string | null; // similar asset to buy back into
+}
+
+export interface HarvestPlan {
+  financialYear: string;
+  yearEnd: Date;
+  daysToYearEnd: number;
+  inWindow: boolean;
+  candidates: HarvestCandidate[]; // worth harvesting, largest loss first
+  totalHarvestableLoss: number;
+  taxBefore: number; // capital gains tax on realized sales so far
+  taxAfter: number; // if every candidate is harvested
+  estimatedTaxSaved: number;
+}
+
+export interface HarvestTrade {
+  symbol: string;
+  name: string;
+  lotId: string;
+  quantity: number;
+  price: number;
+  replacement: string | null;
+}
+
+// ==================== CONSTANTS ====================
+
+const DEFAULT_MIN_LOSS_PERCENT = 3;
+const DEFAULT_WINDOW_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Close substitutes with similar risk and returns. India has no wash-sale
+// rule, so these only keep exposure while the loss is booked.
+const SIMILAR_ASSETS: Record<string, string> = {
+  NIFTYBEES: 'SETFNIF50',
+  SETFNIF50: 'NIFTYBEES',
+  BANKBEES: 'SETFNIFBK',
+  SETFNIFBK: 'BANKBEES',
+  HDFCBANK: 'ICICIBANK',
+  ICICIBANK: 'HDFCBANK',
+  KOTAKBANK: 'AXISBANK',
+  AXISBANK: 'KOTAKBANK',
+  TCS: 'INFY',
+  INFY: 'TCS',
+  HCLTECH: 'WIPRO',
+  WIPRO: 'HCLTECH',
+  MARUTI: 'M&M',
+  'M&M': 'MARUTI',
+  HINDUNILVR: 'NESTLEIND',
+  NESTLEIND: 'HINDUNILVR',
+};
+
+// Broad-market fallback per asset type
+const DEFAULT_REPLACEMENTS: Partial<Record<AssetType, string>> = {
+  stocks: 'NIFTYBEES',
+  etf: 'NIFTYBEES',
+  gold: 'GOLDBEES',
+};
+
+// ==================== PLANNING ====================
+
+/**
+ * Similar asset to buy back into after harvesting, or null when none is known
+ */
+export function getReplacement(symbol: string, assetType: AssetType): string | null {
+  const replacement = SIMILAR_ASSETS[symbol] ?? DEFAULT_REPLACEMENTS[assetType] ?? null;
+  return replacement === symbol ? null : replacement;
+}
+
+function lotCostPerUnit(lot: Lot): number {
+  return lot.price + (lot.quantity > 0 ? lot.fees / lot.quantity : 0);
+}
+
+function toHypotheticalLot(candidate: HarvestCandidate, soldAt: Date, userId: string): RealizedGainLot {
+  const sale = {
+    assetName: candidate.name,
+    ticker: candidate.symbol,
+    assetClass: candidate.assetClass,
+    quantity: candidate.quantity,
+    buyPrice: candidate.costPerUnit,
+    sellPrice: candidate.currentPrice,
+    acquiredAt: candidate.acquiredAt,
+    soldAt,
+  };
+  return {
+    ...sale,
+    ...computeGain(sale),
+    id: `harvest_${candidate.lotId}`,
+    userId,
+    financialYear: getFinancialYear(soldAt),
+    source: 'tax_loss_harvest',
+    createdAt: soldAt,
+  };
+}
+
+/**
+ * Open lots whose loss is at least minLossPercent and can be set off against
+ * gains. Crypto losses are excluded since they cannot be set off.
+ */
+export function findHarvestCandidates(
+  holdings: LedgerHolding[],
+  minLossPercent: number,
+  soldAt: Date = new Date()
+): HarvestCandidate[] {
+  const candidates: HarvestCandidate[] = [];
+
+  for (const holding of holdings) {
+    const assetClass = classifyAsset(holding.assetType);
+    if (!assetClass || holding.currentPrice === null) continue;
+    if (!getCapitalGainsRules(soldAt).assetClasses[assetClass].lossSetOff) continue;
+
+    for (const lot of holding.openLots) {
+      const costPerUnit = lotCostPerUnit(lot);
+      const lossPercent = costPerUnit > 0 ? ((costPerUnit - holding.currentPrice) / costPerUnit) * 100 : 0;
+      if (lossPercent < minLossPercent) continue;
+
+      const { term } = computeGain({
+        assetName: holding.name,
+        assetClass,
+        quantity: lot.remaining,
+        buyPrice: costPerUnit,
+        sellPrice: holding.currentPrice,
+        acquiredAt: lot.acquiredAt,
+        soldAt,
+      });
+
+      candidates.push({
+        symbol: holding.symbol,
+        name: holding.name,
+        assetType: holding.assetType,
+        assetClass,
+        lotId: lot.id,
+        acquiredAt: lot.acquiredAt,
+        quantity: lot.remaining,
+        costPerUnit,
+        currentPrice: holding.currentPrice,
+        unrealizedLoss: lot.remaining * (costPerUnit - holding.currentPrice),
+        lossPercent,
+        term,
+        estimatedTaxSaved: 0,
+        replacement: getReplacement(holding.symbol, holding.assetType),
+      });
+    }
+  }
+
+  return candidates.sort((a, b) => b.unrealizedLoss - a.unrealizedLoss);
+}
+
+/**
+ * Harvest plan for the current financial year. Each candidate's saving is
+ * its marginal effect on capital gains tax, taking the largest losses first;
+ * losses that would only be carried forward are left out.
+ */
+export async function planTaxLossHarvest(
+  userId: string,
+  config: Pick<AgentConfig, 'minLossForHarvest' | 'harvestWindowDays'> = {},
+  options: SummaryOptions = {},
+  now: Date = new Date()
+): Promise<HarvestPlan> {
+  const financialYear = getFinancialYear(now);
+  const { end: yearEnd } = getFinancialYearDates(financialYear);
+  const daysToYearEnd = Math.max(0, Math.ceil((yearEnd.getTime() - now.getTime()) / DAY_MS));
+  const inWindow = daysToYearEnd <= (config.harvestWindowDays ?? DEFAULT_WINDOW_DAYS);
+
+  const [holdings, realized] = await Promise.all([
+    holdingsLedger.getHoldings(userId),
+    capitalGainsService.getRealizedGains(userId, financialYear),
+  ]);
+
+  const taxBefore = summarizeCapitalGains(realized, financialYear, options).totalTax;
+  const candidates: HarvestCandidate[] = [];
+  const lots = [...realized];
+  let taxAfter = taxBefore;
+
+  for (const candidate of findHarvestCandidates(holdings, config.minLossForHarvest ?? DEFAULT_MIN_LOSS_PERCENT, now)) {
+    if (taxAfter <= 0) break;
+    const withLot = [...lots, toHypotheticalLot(candidate, now, userId)];
+    const tax = summarizeCapitalGains(withLot, financialYear, options).totalTax;
+    if (tax >= taxAfter) continue;
+
+    candidates.push({ ...candidate, estimatedTaxSaved: taxAfter - tax });
+    lots.push(withLot[withLot.length - 1]);
+    taxAfter = tax;
+  }
+
+  return {
+    financialYear,
+    yearEnd,
+    daysToYearEnd,
+    inWindow,
+    candidates,
+    totalHarvestableLoss: candidates.reduce((sum, c) => sum + c.unrealizedLoss, 0),
+    taxBefore,
+    taxAfter,
+    estimatedTaxSaved: taxBefore - taxAfter,
+  };
+}
+
+// ==================== EXECUTION ====================
+
+/**
+ * Execute Tax Loss Harvesting Agent logic
+ * Runs approved harvests, then proposes new ones based on agent config
+ */
+export async function executeTaxLossHarvestingAgent(userId: string, agent: Agent): Promise<void> {
+  try {
+    console.log(`🤖 Executing Tax Loss Harvesting Agent for user ${userId}`);
+
+    await runApprovedHarvests(userId, agent);
+
+    const pending = await getPendingExecutions(userId);
+    if (pending.some(execution => execution.agentId === agent.id)) {
+      console.log('A harvest proposal is already awaiting approval');
+      return;
+    }
+
+    const profile = await userProfileService.getProfile(userId);
+    const plan = await planTaxLossHarvest(userId, agent.config, {
+      regime: profile?.taxRegime,
+      baseIncome: profile?.income.annualSalary,
+      age: profile?.personalInfo.age,
+    });
+
+    if (!plan.inWindow) {
+      console.log(`Outside the harvest window (${plan.daysToYearEnd} days to year end)`);
+      return;
+    }
+
+    if (plan.candidates.length === 0) {
+      console.log('No losses worth harvesting against this year\'s gains');
+      return;
+    }
+
+    const trades: HarvestTrade[] = plan.candidates.map(c => ({
+      symbol: c.symbol,
+      name: c.name,
+      lotId: c.lotId,
+      quantity: c.quantity,
+      price: c.currentPrice,
+      replacement: agent.config.reinvestInSimilar ? c.replacement : null,
+    }));
+    const action = `Harvest ₹${Math.round(plan.totalHarvestableLoss).toLocaleString('en-IN')} of losses in ${describeSymbols(trades)}`;
+    const details = buildDetails(plan, trades);
+    const recommendation = buildRecommendation(plan);
+    const metadata = {
+      financialYear: plan.financialYear,
+      amount: Math.round(trades.reduce((sum, t) => sum + t.quantity * t.price, 0)),
+      estimatedTaxSaved: plan.estimatedTaxSaved,
+      harvestableLoss: Math.round(plan.totalHarvestableLoss),
+      trades,
+    };
+
+    if (agent.executionMode === 'notify') {
+      const execution = await createAgentExecution(
+        agent.id, userId, 'tax_loss_harvesting', action, details, recommendation, false, metadata
+      );
+      await completeExecution(execution.id, 'completed', { notified: true });
+
+      await logActivity({
+        userId,
+        type: ActivityType.AI_RECOMMENDATION_RECEIVED,
+        description: `Tax loss harvesting could save ₹${plan.estimatedTaxSaved.toLocaleString('en-IN')}`,
+        severity: 'medium',
+        metadata: { agentId: agent.id, executionId: execution.id, ...metadata },
+      });
+    } else if (agent.executionMode === 'ask_permission') {
+      const execution = await createAgentExecution(
+        agent.id, userId, 'tax_loss_harvesting', action, details, recommendation, true, metadata
+      );
+
+      await sendAgentApprovalEmail(
+        userId,
+        agent.name,
+        action,
+        details,
+        recommendation,
+        `${window.location.origin}/agents/approvals`
+      );
+
+      await logActivity({
+        userId,
+        type: ActivityType.AI_RECOMMENDATION_RECEIVED,
+        description: `Approval requested for harvesting losses in ${describeSymbols(trades)}`,
+        severity: 'medium',
+        metadata: { agentId: agent.id, executionId: execution.id },
+      });
+    } else if (agent.executionMode === 'auto') {
+      const execution = await createAgentExecution(
+        agent.id, userId, 'tax_loss_harvesting', action, details, recommendation, false, metadata
+      );
+      await runHarvest(userId, agent, execution.id, trades);
+    }
+  } catch (error) {
+    console.error('Error executing Tax Loss Harvesting Agent:', error);
+  }
+}
+
+/**
+ * Run the user's Tax Loss Harvesting Agent if one is active
+ */
+export async function checkAndExecuteTaxLossHarvestingAgent(userId: string): Promise<void> {
+  try {
+    const agents = await getUserAgents(userId);
+    const harvestAgent = agents.find(
+      agent => agent.type === 'tax_loss_harvesting' && agent.status === 'active'
+    );
+
+    if (!harvestAgent) {
+      console.log('No active Tax Loss Harvesting Agent found');
+      return;
+    }
+
+    await executeTaxLossHarvestingAgent(userId, harvestAgent);
+  } catch (error) {
+    console.error('Error executing tax loss harvesting agent:', error);
+  }
+}
+
+/**
+ * Run harvests the user approved since the last run
+ */
+async function runApprovedHarvests(userId: string, agent: Agent): Promise<void> {
+  const approved = await getApprovedExecutions(userId, 'tax_loss_harvesting');
+  for (const execution of approved.filter(e => e.agentId === agent.id)) {
+    const trades = (execution.metadata?.trades ?? []) as HarvestTrade[];
+    await runHarvest(userId, agent, execution.id, trades);
+  }
+}
+
+/**
+ * Sell the harvested lots at a fresh quote and buy the replacements. Prices
+ * may have recovered since approval, so lots that are no longer open or no
+ * longer at a loss are skipped.
+ */
+async function runHarvest(userId: string, agent: Agent, executionId: string, trades: HarvestTrade[]): Promise<void> {
+  const results: Array<{ symbol: string; realizedPnl: number; replacement: string | null; replacementQuantity: number }> = [];
+  const skipped: Array<{ symbol: string; lotId: string; reason: string }> = [];
+  const harvested: HarvestTrade[] = [];
+
+  try {
+    for (const trade of trades) {
+      const lot = (await holdingsLedger.getOpenLots(userId, trade.symbol)).find(l => l.id === trade.lotId);
+      if (!lot || lot.remaining < trade.quantity) {
+        skipped.push({ symbol: trade.symbol, lotId: trade.lotId, reason: 'Lot is no longer held' });
+        continue;
+      }
+
+      const current = await marketDataService.getQuote(trade.symbol, 'stock');
+      if (!current) {
+        skipped.push({ symbol: trade.symbol, lotId: trade.lotId, reason: 'No current quote' });
+        continue;
+      }
+      holdingsLedger.setLastPrices({ [trade.symbol]: current.price });
+
+      const price = current.price;
+      if (price >= lotCostPerUnit(lot)) {
+        skipped.push({ symbol: trade.symbol, lotId: trade.lotId, reason: 'No longer at a loss' });
+        continue;
+      }
+
+      const sold = await holdingsLedger.recordSell(userId, {
+        symbol: trade.symbol,
+        quantity: trade.quantity,
+        price,
+        lotSelections: [{ lotId: trade.lotId, quantity: trade.quantity }],
+        source: 'tax_loss_harvest',
+      });
+
+      let replacementQuantity = 0;
+      if (trade.replacement) {
+        const quote = await marketDataService.getQuote(trade.replacement, 'stock');
+        replacementQuantity = quote ? Math.floor((trade.quantity * price) / quote.price) : 0;
+        if (quote && replacementQuantity > 0) {
+          await holdingsLedger.recordBuy(userId, {
+            symbol: trade.replacement,
+            assetType: sold.assetType === 'etf' ? 'etf' : 'stocks',
+            quantity: replacementQuantity,
+            price: quote.price,
+            source: 'tax_loss_harvest',
+          });
+          holdingsLedger.setLastPrices({ [trade.replacement]: quote.price });
+        } else {
+          console.warn(`⚠️ No quote for ${trade.replacement}; proceeds of ${trade.symbol} left in cash`);
+        }
+      }
+
+      harvested.push(trade);
+      results.push({
+        symbol: trade.symbol,
+        realizedPnl: Math.round(sold.realizedPnl),
+        replacement: trade.replacement,
+        replacementQuantity,
+      });
+    }
+
+    await completeExecution(executionId, 'completed', { trades: results, skipped });
+
+    if (skipped.length > 0) {
+      console.log(`⏭️ Skipped ${skipped.length} harvest lot(s):`, skipped);
+    }
+    if (harvested.length === 0) return;
+
+    await logActivity({
+      userId,
+      type: ActivityType.AGENT_EXECUTED,
+      description: `Harvested losses in ${describeSymbols(harvested)}`,
+      severity: 'medium',
+      metadata: { agentId: agent.id, executionId, trades: results, skipped },
+    });
+
+    console.log(`✅ Tax loss harvest completed for ${describeSymbols(harvested)}`);
+  } catch (error) {
+    console.error('Error running tax loss harvest:', error);
+    await completeExecution(
+      executionId,
+      'failed',
+      { trades: results, skipped },
+      error instanceof Error ? error.message : 'Harvest failed'
+    );
+  }
+}
+
+function describeSymbols(trades: HarvestTrade[]): string {
+  return [...new Set(trades.map(t => t.symbol))].join(', ');
+}
+
+function buildDetails(plan: HarvestPlan, trades: HarvestTrade[]): string {
+  const lines = trades.map(t =>
+    `Sell ${t.quantity} ${t.symbol} @ ₹${t.price.toLocaleString('en-IN')}` +
+    (t.replacement ? ` and buy ${t.replacement}` : '')
+  );
+  return (
+    `${lines.join('; ')}. ` +
+    `Capital gains tax for ${plan.financialYear} drops from ₹${plan.taxBefore.toLocaleString('en-IN')} ` +
+    `to ₹${plan.taxAfter.toLocaleString('en-IN')}, ${plan.daysToYearEnd} days before year end.`
+  );
+}
+
+function buildRecommendation(plan: HarvestPlan): string {
+  return (
+    `Booking these losses saves an estimated ₹${plan.estimatedTaxSaved.toLocaleString('en-IN')} in tax this year. ` +
+    'Short-term losses offset both short and long-term gains; replacements keep your market exposure. ' +
+    `Sell before ${plan.yearEnd.toLocaleDateString('en-IN')} for the loss to count in ${plan.financialYear}.`
+  );
+}
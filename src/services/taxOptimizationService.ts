@@ -7,33 +7,25 @@
 
 import { getUserProfile } from './authService';
 import type { UserProfile } from './authService';
-
-// Tax Slabs for Old Regime (FY 2024-25)
-const OLD_REGIME_SLABS = [
-  { min: 0, max: 250000, rate: 0 },
-  { min: 250001, max: 500000, rate: 5 },
-  { min: 500001, max: 1000000, rate: 20 },
-  { min: 1000001, max: Infinity, rate: 30 },
-];
-
-// Tax Slabs for New Regime (FY 2024-25)
-const NEW_REGIME_SLABS = [
-  { min: 0, max: 300000, rate: 0 },
-  { min: 300001, max: 600000, rate: 5 },
-  { min: 600001, max: 900000, rate: 10 },
-  { min: 900001, max: 1200000, rate: 15 },
-  { min: 1200001, max: 1500000, rate: 20 },
-  { min: 1500001, max: Infinity, rate: 30 },
-];
+import {
+  calculateIncomeTax,
+  estimateDeductionSaving,
+  getTaxRules,
+  type TaxDeductions,
+  type TaxInput,
+} from './taxEngine';
+import { capitalGainsService, type CapitalGainsSummary } from './capitalGainsService';
 
 export interface TaxCalculation {
   regime: 'old' | 'new';
+  financialYear: string;
   grossIncome: number;
   taxableIncome: number;
   totalDeductions: number;
   taxBeforeRebate: number;
   rebate: number;
   taxAfterRebate: number;
+  surcharge: number;
   cess: number;
   totalTaxLiability: number;
   effectiveTaxRate: number;
@@ -67,56 +59,43 @@ export interface TaxOptimizationReport {
   savingsPercentage: number;
   recommendations: TaxSavingScheme[];
   actionPlan: string[];
+  capitalGains: CapitalGainsSummary; // Realized gains this financial year
+  totalTaxWithCapitalGains: number; // currentTax plus capital gains tax
 }
 
 /**
- * Calculate tax based on income and regime
+ * Calculate tax based on income and regime. The standard deduction and
+ * section caps are applied by the tax engine.
  */
-export function calculateTax(income: number, regime: 'old' | 'new', deductions: number = 0): TaxCalculation {
-  const slabs = regime === 'old' ? OLD_REGIME_SLABS : NEW_REGIME_SLABS;
-  const taxableIncome = Math.max(0, income - deductions);
-  
-  let taxBeforeRebate = 0;
-  const slabWiseBreakdown: Array<{ slab: string; amount: number; tax: number }> = [];
-
-  for (const slab of slabs) {
-    if (taxableIncome > slab.min) {
-      const taxableInSlab = Math.min(taxableIncome, slab.max) - slab.min;
-      const taxInSlab = (taxableInSlab * slab.rate) / 100;
-      taxBeforeRebate += taxInSlab;
-
-      if (taxInSlab > 0) {
-        slabWiseBreakdown.push({
-          slab: `₹${slab.min.toLocaleString('en-IN')} - ₹${slab.max === Infinity ? 'Above' : slab.max.toLocaleString('en-IN')}`,
-          amount: taxableInSlab,
-          tax: taxInSlab,
-        });
-      }
-    }
-  }
-
-  // Rebate u/s 87A (for income up to 7 lakhs in new regime, 5 lakhs in old)
-  const rebateLimit = regime === 'new' ? 700000 : 500000;
-  const rebateAmount = regime === 'new' ? 25000 : 12500;
-  const rebate = taxableIncome <= rebateLimit ? Math.min(taxBeforeRebate, rebateAmount) : 0;
-
-  const taxAfterRebate = taxBeforeRebate - rebate;
-  const cess = taxAfterRebate * 0.04; // 4% Health and Education Cess
-  const totalTaxLiability = taxAfterRebate + cess;
-  const effectiveTaxRate = income > 0 ? (totalTaxLiability / income) * 100 : 0;
+export function calculateTax(
+  income: number,
+  regime: 'old' | 'new',
+  deductions: TaxDeductions = {},
+  financialYear?: string,
+  age?: number
+): TaxCalculation {
+  const result = calculateIncomeTax({ grossIncome: income, regime, deductions, financialYear, age });
 
   return {
     regime,
-    grossIncome: income,
-    taxableIncome,
-    totalDeductions: deductions,
-    taxBeforeRebate,
-    rebate,
-    taxAfterRebate,
-    cess,
-    totalTaxLiability,
-    effectiveTaxRate,
-    slabWiseBreakdown,
+    financialYear: result.financialYear,
+    grossIncome: result.grossIncome,
+    taxableIncome: result.taxableIncome,
+    totalDeductions: result.totalDeductions,
+    taxBeforeRebate: result.taxBeforeRebate,
+    rebate: result.rebate,
+    taxAfterRebate: result.taxAfterRebate,
+    surcharge: result.surcharge,
+    cess: result.cess,
+    totalTaxLiability: result.totalTax,
+    effectiveTaxRate: result.effectiveRate,
+    slabWiseBreakdown: result.slabBreakdown
+      .filter(slab => slab.tax > 0)
+      .map(slab => ({
+        slab: `₹${slab.from.toLocaleString('en-IN')} - ₹${slab.to === null ? 'Above' : slab.to.toLocaleString('en-IN')}`,
+        amount: slab.taxableAmount,
+        tax: slab.tax,
+      })),
   };
 }
 
@@ -128,6 +107,13 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
   const hasHomeLoan = userProfile.financialInfo?.hasHomeLoan || false;
   const hasEducationLoan = userProfile.financialInfo?.hasEducationLoan || false;
   const age = userProfile.financialInfo?.age || 30;
+  const regime = userProfile.financialInfo?.taxRegime || 'new';
+  const { rules } = getTaxRules();
+  const limits = rules.deductionLimits;
+
+  // Deductions only reduce tax under the old regime, so savings are measured there
+  const baseInput: TaxInput = { grossIncome: salary, regime: 'old', age };
+  const savingFor = (additional: TaxDeductions) => estimateDeductionSaving(baseInput, additional);
 
   const schemes: TaxSavingScheme[] = [];
 
@@ -137,7 +123,7 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
     name: 'Public Provident Fund (PPF)',
     category: 'savings',
     section: '80C',
-    maxLimit: 150000,
+    maxLimit: limits.section80C,
     description: 'Long-term savings scheme with guaranteed returns and tax benefits',
     eligibility: 'All Indian citizens',
     benefits: [
@@ -147,7 +133,7 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
       'Compounding interest',
     ],
     recommended: salary >= 500000,
-    potentialSaving: Math.min(150000, salary * 0.10) * 0.30, // Assuming 30% tax bracket
+    potentialSaving: savingFor({ section80C: Math.min(limits.section80C, salary * 0.10) }),
     lockInPeriod: '15 years',
     returns: '7-8% annually',
     risk: 'low',
@@ -158,7 +144,7 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
     name: 'Equity Linked Savings Scheme (ELSS)',
     category: 'investment',
     section: '80C',
-    maxLimit: 150000,
+    maxLimit: limits.section80C,
     description: 'Mutual funds with shortest lock-in period and potential for high returns',
     eligibility: 'All taxpayers',
     benefits: [
@@ -168,7 +154,7 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
       'Tax deduction up to ₹1.5L',
     ],
     recommended: salary >= 600000 && age < 50,
-    potentialSaving: Math.min(150000, salary * 0.15) * 0.30,
+    potentialSaving: savingFor({ section80C: Math.min(limits.section80C, salary * 0.15) }),
     lockInPeriod: '3 years',
     returns: '12-15% annually',
     risk: 'high',
@@ -189,7 +175,7 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
       'Tax-efficient retirement corpus',
     ],
     recommended: salary >= 800000,
-    potentialSaving: 200000 * 0.30,
+    potentialSaving: savingFor({ section80C: limits.section80C, section80CCD1B: limits.section80CCD1B }),
     lockInPeriod: 'Till retirement (60 years)',
     returns: '9-12% annually',
     risk: 'medium',
@@ -201,7 +187,7 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
     name: 'Health Insurance Premium',
     category: 'insurance',
     section: '80D',
-    maxLimit: age >= 60 ? 50000 : 25000,
+    maxLimit: age >= 60 ? limits.section80DSenior : limits.section80D,
     description: 'Deduction for health insurance premiums for self and family',
     eligibility: 'All taxpayers',
     benefits: [
@@ -211,7 +197,7 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
       'Preventive health check-up: ₹5,000',
     ],
     recommended: true,
-    potentialSaving: (age >= 60 ? 50000 : 25000) * 0.30,
+    potentialSaving: savingFor({ section80D: age >= 60 ? limits.section80DSenior : limits.section80D }),
     risk: 'low',
   });
 
@@ -222,7 +208,7 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
       name: 'Home Loan Interest Deduction',
       category: 'loan',
       section: '24(b)',
-      maxLimit: 200000,
+      maxLimit: limits.section24b,
       description: 'Deduction on interest paid for home loan',
       eligibility: 'Home loan borrowers',
       benefits: [
@@ -232,7 +218,7 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
         'Stamp duty and registration under 80C',
       ],
       recommended: true,
-      potentialSaving: 200000 * 0.30,
+      potentialSaving: savingFor({ homeLoanInterest: limits.section24b }),
       risk: 'low',
     });
   }
@@ -254,7 +240,7 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
         'For self, spouse, or children',
       ],
       recommended: true,
-      potentialSaving: 50000 * 0.30, // Estimated
+      potentialSaving: savingFor({ educationLoanInterest: 50000 }), // Estimated
       risk: 'low',
     });
   }
@@ -275,7 +261,7 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
       'Tax certificate from institution',
     ],
     recommended: salary >= 1000000,
-    potentialSaving: 50000 * 0.30, // Estimated
+    potentialSaving: savingFor({ other: 50000 }), // Estimated
     risk: 'low',
   });
 
@@ -285,7 +271,7 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
     name: 'Interest on Savings Account',
     category: 'savings',
     section: age >= 60 ? '80TTB' : '80TTA',
-    maxLimit: age >= 60 ? 50000 : 10000,
+    maxLimit: age >= 60 ? limits.section80TTB : limits.section80TTA,
     description: `Deduction on interest earned from savings account`,
     eligibility: age >= 60 ? 'Senior citizens' : 'All individuals below 60',
     benefits: [
@@ -295,7 +281,7 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
       'Easy to claim',
     ],
     recommended: true,
-    potentialSaving: (age >= 60 ? 50000 : 10000) * 0.30,
+    potentialSaving: savingFor({ savingsInterest: age >= 60 ? limits.section80TTB : limits.section80TTA }),
     risk: 'low',
   });
 
@@ -316,28 +302,31 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
         'Significant tax saving potential',
       ],
       recommended: true,
-      potentialSaving: Math.min(salary * 0.30, 200000) * 0.30,
+      potentialSaving: savingFor({ hra: Math.min(salary * 0.30, 200000) }),
       risk: 'low',
     });
   }
 
   // Standard Deduction
+  const standardDeduction = rules[regime].standardDeduction;
+  const withoutStandardDeduction = calculateIncomeTax({ grossIncome: salary, regime, age, salaried: false });
+  const withStandardDeduction = calculateIncomeTax({ grossIncome: salary, regime, age });
   schemes.push({
     id: 'standard_deduction',
     name: 'Standard Deduction',
     category: 'savings',
     section: 'Section 16',
-    maxLimit: 50000,
+    maxLimit: standardDeduction,
     description: 'Flat deduction for salaried individuals',
     eligibility: 'All salaried/pensioners',
     benefits: [
-      'Automatic ₹50,000 deduction',
+      `Automatic ₹${standardDeduction.toLocaleString('en-IN')} deduction (${regime} regime)`,
       'No documentation required',
       'Available in both tax regimes',
       'Replaces transport and medical allowances',
     ],
     recommended: true,
-    potentialSaving: 50000 * 0.30,
+    potentialSaving: withoutStandardDeduction.totalTax - withStandardDeduction.totalTax,
     risk: 'low',
   });
 
@@ -358,7 +347,7 @@ export function getTaxSavingSchemes(userProfile: UserProfile): TaxSavingScheme[]
         'Requires travel tickets',
       ],
       recommended: true,
-      potentialSaving: 30000 * 0.30, // Estimated
+      potentialSaving: savingFor({ lta: 30000 }), // Estimated
       risk: 'low',
     });
   }
@@ -379,33 +368,40 @@ export async function generateTaxOptimizationReport(userId: string): Promise<Tax
   const salary = userProfile.financialInfo.annualSalary;
   const regime = userProfile.financialInfo.taxRegime || 'new';
 
-  // Calculate current tax (with minimal deductions)
-  const standardDeduction = 50000;
-  const currentTax = calculateTax(salary, regime, standardDeduction);
+  const age = userProfile.financialInfo.age;
+
+  // Calculate current tax (standard deduction only)
+  const currentTax = calculateTax(salary, regime, {}, undefined, age);
 
   // Get all applicable schemes
   const allSchemes = getTaxSavingSchemes(userProfile);
   const recommendedSchemes = allSchemes.filter(s => s.recommended);
 
-  // Calculate optimized tax (with maximum deductions)
-  let maxDeductions = standardDeduction;
-  
-  if (regime === 'old') {
-    // Old regime allows these deductions
-    maxDeductions += 150000; // 80C
-    maxDeductions += 50000; // 80CCD(1B) for NPS
-    maxDeductions += (userProfile.financialInfo.age && userProfile.financialInfo.age >= 60 ? 50000 : 25000); // 80D
-    
-    if (userProfile.financialInfo.hasHomeLoan) {
-      maxDeductions += 200000; // 24(b)
-    }
-    
-    if (userProfile.financialInfo.hasEducationLoan) {
-      maxDeductions += 50000; // 80E (estimated)
-    }
+  // Calculate optimized tax (with maximum deductions). The engine ignores
+  // these under the new regime and caps each section under the old one.
+  const { rules } = getTaxRules();
+  const maxDeductions: TaxDeductions = {
+    section80C: rules.deductionLimits.section80C,
+    section80CCD1B: rules.deductionLimits.section80CCD1B,
+    section80D: age && age >= 60 ? rules.deductionLimits.section80DSenior : rules.deductionLimits.section80D,
+  };
+
+  if (userProfile.financialInfo.hasHomeLoan) {
+    maxDeductions.homeLoanInterest = rules.deductionLimits.section24b;
   }
 
-  const optimizedTax = calculateTax(salary, regime, maxDeductions);
+  if (userProfile.financialInfo.hasEducationLoan) {
+    maxDeductions.educationLoanInterest = 50000; // 80E (estimated)
+  }
+
+  const optimizedTax = calculateTax(salary, regime, maxDeductions, undefined, age);
+
+  // Realized capital gains for the year, slab-rate gains stacked on the salary
+  const capitalGains = await capitalGainsService.getYearlySummary(userId, currentTax.financialYear, {
+    regime,
+    baseIncome: salary,
+    age,
+  });
 
   const totalSavings = currentTax.totalTaxLiability - optimizedTax.totalTaxLiability;
   const savingsPercentage = currentTax.totalTaxLiability > 0 
@@ -431,6 +427,12 @@ export async function generateTaxOptimizationReport(userId: string): Promise<Tax
     actionPlan.push('Submit investment declarations to employer for TDS optimization');
   }
 
+  if (capitalGains.totalTax > 0) {
+    actionPlan.push(
+      `Set aside ₹${capitalGains.totalTax.toLocaleString('en-IN')} for capital gains tax on this year's sales`
+    );
+  }
+
   return {
     currentTax,
     optimizedTax,
@@ -438,20 +440,22 @@ export async function generateTaxOptimizationReport(userId: string): Promise<Tax
     savingsPercentage,
     recommendations: recommendedSchemes,
     actionPlan,
+    capitalGains,
+    totalTaxWithCapitalGains: currentTax.totalTaxLiability + capitalGains.totalTax,
   };
 }
 
 /**
  * Compare Old vs New Tax Regime
  */
-export function compareregimes(salary: number, deductions: number = 0): {
+export function compareregimes(salary: number, deductions: TaxDeductions = {}, financialYear?: string): {
   oldRegime: TaxCalculation;
   newRegime: TaxCalculation;
   recommendation: 'old' | 'new';
   savingsDifference: number;
 } {
-  const oldRegimeTax = calculateTax(salary, 'old', deductions);
-  const newRegimeTax = calculateTax(salary, 'new', 0); // New regime doesn't allow most deductions
+  const oldRegimeTax = calculateTax(salary, 'old', deductions, financialYear);
+  const newRegimeTax = calculateTax(salary, 'new', {}, financialYear); // New regime doesn't allow most deductions
 
   const savingsDifference = oldRegimeTax.totalTaxLiability - newRegimeTax.totalTaxLiability;
   const recommendation = savingsDifference > 0 ? 'new' : 'old';
@@ -1,13 +1,9 @@
 /**
- * Tax Service - Calculate tax based on latest Indian tax slabs (FY 2024-25)
+ * Tax Service - Calculate tax for the current financial year via the tax engine
  * Provides tax optimization strategies and investment recommendations
  */
 
-export interface TaxSlab {
-  min: number;
-  max: number | null;
-  rate: number;
-}
+import { calculateIncomeTax, type TaxComputation } from './taxEngine';
 
 export interface TaxCalculation {
   grossIncome: number;
@@ -44,138 +40,47 @@ export interface InvestmentPlan {
   netCost: number;
 }
 
-// New Tax Regime Slabs (FY 2024-25) - Default
-const NEW_TAX_SLABS: TaxSlab[] = [
-  { min: 0, max: 300000, rate: 0 },
-  { min: 300001, max: 600000, rate: 5 },
-  { min: 600001, max: 900000, rate: 10 },
-  { min: 900001, max: 1200000, rate: 15 },
-  { min: 1200001, max: 1500000, rate: 20 },
-  { min: 1500001, max: null, rate: 30 },
-];
-
-// Old Tax Regime Slabs
-const OLD_TAX_SLABS: TaxSlab[] = [
-  { min: 0, max: 250000, rate: 0 },
-  { min: 250001, max: 500000, rate: 5 },
-  { min: 500001, max: 1000000, rate: 20 },
-  { min: 1000001, max: null, rate: 30 },
-];
+export interface OldRegimeDeductions {
+  section80C?: number;
+  section80D?: number;
+  section80CCD1B?: number;
+  homeLoanInterest?: number;
+  hra?: number;
+  lta?: number;
+}
 
 export class TaxService {
   /**
    * Calculate tax for New Tax Regime
    */
-  calculateNewRegime(income: number): TaxCalculation {
-    const standardDeduction = 50000; // Standard deduction for salaried
-    const taxableIncome = Math.max(0, income - standardDeduction);
-    
-    let tax = 0;
-    for (const slab of NEW_TAX_SLABS) {
-      if (taxableIncome > slab.min) {
-        const upperLimit = slab.max || taxableIncome;
-        const taxableAmount = Math.min(taxableIncome, upperLimit) - slab.min;
-        tax += (taxableAmount * slab.rate) / 100;
-      }
-    }
-
-    // Rebate under Section 87A (if income <= 7 lakhs)
-    const rebate = taxableIncome <= 700000 ? Math.min(tax, 25000) : 0;
-    const taxAfterRebate = Math.max(0, tax - rebate);
-
-    // Surcharge (if applicable)
-    const surcharge = this.calculateSurcharge(income, taxAfterRebate);
-    
-    // Health & Education Cess (4%)
-    const cess = (taxAfterRebate + surcharge) * 0.04;
-    
-    const totalTax = Math.round(taxAfterRebate + surcharge + cess);
-
-    return {
-      grossIncome: income,
-      standardDeduction,
-      totalDeductions: standardDeduction,
-      taxableIncome,
-      taxBeforeRebate: Math.round(tax),
-      rebate: Math.round(rebate),
-      surcharge: Math.round(surcharge),
-      cess: Math.round(cess),
-      totalTax,
-      effectiveRate: income > 0 ? (totalTax / income) * 100 : 0,
-    };
+  calculateNewRegime(income: number, financialYear?: string): TaxCalculation {
+    return this.toTaxCalculation(calculateIncomeTax({ grossIncome: income, regime: 'new', financialYear }));
   }
 
   /**
-   * Calculate tax for Old Tax Regime with deductions
+   * Calculate tax for Old Tax Regime with deductions. Exempt HRA comes from
+   * hraExemptionService.
    */
-  calculateOldRegime(
-    income: number,
-    deductions: {
-      section80C?: number;
-      section80D?: number;
-      section80CCD1B?: number;
-      homeLoanInterest?: number;
-      hra?: number;
-      lta?: number;
-    } = {}
-  ): TaxCalculation {
-    const standardDeduction = 50000;
-    
-    // Calculate total deductions
-    const sec80C = Math.min(deductions.section80C || 0, 150000);
-    const sec80D = Math.min(deductions.section80D || 0, 25000);
-    const sec80CCD1B = Math.min(deductions.section80CCD1B || 0, 50000);
-    const homeLoan = Math.min(deductions.homeLoanInterest || 0, 200000);
-    const hra = deductions.hra || 0;
-    const lta = deductions.lta || 0;
-    
-    const totalDeductions = standardDeduction + sec80C + sec80D + sec80CCD1B + homeLoan + hra + lta;
-    const taxableIncome = Math.max(0, income - totalDeductions);
-    
-    let tax = 0;
-    for (const slab of OLD_TAX_SLABS) {
-      if (taxableIncome > slab.min) {
-        const upperLimit = slab.max || taxableIncome;
-        const taxableAmount = Math.min(taxableIncome, upperLimit) - slab.min;
-        tax += (taxableAmount * slab.rate) / 100;
-      }
-    }
-
-    // Rebate under Section 87A
-    const rebate = taxableIncome <= 500000 ? Math.min(tax, 12500) : 0;
-    const taxAfterRebate = Math.max(0, tax - rebate);
-
-    // Surcharge
-    const surcharge = this.calculateSurcharge(income, taxAfterRebate);
-    
-    // Cess
-    const cess = (taxAfterRebate + surcharge) * 0.04;
-    
-    const totalTax = Math.round(taxAfterRebate + surcharge + cess);
-
-    return {
-      grossIncome: income,
-      standardDeduction,
-      totalDeductions,
-      taxableIncome,
-      taxBeforeRebate: Math.round(tax),
-      rebate: Math.round(rebate),
-      surcharge: Math.round(surcharge),
-      cess: Math.round(cess),
-      totalTax,
-      effectiveRate: income > 0 ? (totalTax / income) * 100 : 0,
-    };
+  calculateOldRegime(income: number, deductions: OldRegimeDeductions = {}, financialYear?: string): TaxCalculation {
+    return this.toTaxCalculation(calculateIncomeTax({ grossIncome: income, regime: 'old', financialYear, deductions }));
   }
 
   /**
-   * Calculate surcharge based on income
+   * Map an engine result to the summary shape used by this service
    */
-  private calculateSurcharge(income: number, tax: number): number {
-    if (income <= 5000000) return 0;
-    if (income <= 10000000) return tax * 0.10;
-    if (income <= 20000000) return tax * 0.15;
-    if (income <= 50000000) return tax * 0.25;
-    return tax * 0.37;
+  private toTaxCalculation(result: TaxComputation): TaxCalculation {
+    return {
+      grossIncome: result.grossIncome,
+      standardDeduction: result.standardDeduction,
+      totalDeductions: result.totalDeductions,
+      taxableIncome: result.taxableIncome,
+      taxBeforeRebate: result.taxBeforeRebate,
+      rebate: result.rebate,
+      surcharge: result.surcharge,
+      cess: result.cess,
+      totalTax: result.totalTax,
+      effectiveRate: result.effectiveRate,
+    };
   }
 
   /**
@@ -331,15 +236,11 @@ export class TaxService {
   }
 
   /**
-   * Get tax bracket percentage
+   * Get tax bracket percentage. Deduction-based schemes only pay off under
+   * the old regime, so the bracket is read from it.
    */
   private getTaxBracket(income: number): number {
-    if (income <= 300000) return 0;
-    if (income <= 600000) return 5;
-    if (income <= 900000) return 10;
-    if (income <= 1200000) return 15;
-    if (income <= 1500000) return 20;
-    return 30;
+    return calculateIncomeTax({ grossIncome: income, regime: 'old' }).marginalRate;
   }
 
   /**
@@ -347,20 +248,16 @@ export class TaxService {
    */
   compareTaxRegimes(
     income: number,
-    deductions: {
-      section80C?: number;
-      section80D?: number;
-      section80CCD1B?: number;
-      homeLoanInterest?: number;
-    } = {}
+    deductions: OldRegimeDeductions = {},
+    financialYear?: string
   ): {
     newRegime: TaxCalculation;
     oldRegime: TaxCalculation;
     recommendation: 'new' | 'old';
     savings: number;
   } {
-    const newRegime = this.calculateNewRegime(income);
-    const oldRegime = this.calculateOldRegime(income, deductions);
+    const newRegime = this.calculateNewRegime(income, financialYear);
+    const oldRegime = this.calculateOldRegime(income, deductions, financialYear);
 
     const recommendation = newRegime.totalTax < oldRegime.totalTax ? 'new' : 'old';
     const savings = Math.abs(newRegime.totalTax - oldRegime.totalTax);
@@ -3,9 +3,20 @@
  * Manages user financial profile including salary, deductions, and custom properties
  */
 
-import { doc, setDoc, getDoc, updateDoc } from 'firebase/firestore';
+import { doc, setDoc, getDoc, updateDoc, type Timestamp } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import type { BankAccountFormData } from '../types/bank';
+import { agentEventBus } from './agentEventBus';
+import { estimateDeductionSaving, getFinancialYear, type TaxDeductions } from './taxEngine';
+import {
+  buildAmortizationSchedule,
+  loanDeductionForYear,
+  loanPositionAt,
+  loanTaxDeductions,
+  splitByFinancialYear,
+  type Prepayment,
+  type RateChange,
+} from './loanAmortization';
 
 
 export interface UserFinancialProfile {
@@ -22,6 +33,8 @@ export interface UserFinancialProfile {
     otherIncome: number;
     rentalIncome: number;
     businessIncome: number;
+    salaryStructure?: SalaryStructure[]; // Revisions, oldest first
+    taxStatements?: EmployerTaxStatement[]; // Imported Form 16s and salary slips
     lastUpdated: Date;
   };
   deductions: {
@@ -37,12 +50,36 @@ export interface UserFinancialProfile {
     planned: Investment[];
   };
   bankAccounts: BankAccountFormData[];
+  creditCards?: CreditCardDebt[];
   taxRegime: 'old' | 'new';
   createdAt: Date;
   updatedAt: Date;
 }
 
 
+/**
+ * Monthly salary components from a revision onward. Basic plus DA is the
+ * "salary" HRA exemption is measured against.
+ */
+export interface SalaryStructure {
+  effectiveFrom: Date;
+  basicMonthly: number;
+  daMonthly?: number; // Dearness allowance forming part of retirement benefits
+  hraMonthly: number;
+  isMetro: boolean; // Rented home in Delhi, Mumbai, Kolkata or Chennai
+}
+
+export interface EmployerTaxStatement {
+  financialYear: string; // 'FY2024-25'
+  employer: string;
+  source: 'form16' | 'salary_slip';
+  grossSalary: number;
+  exemptAllowances: number; // Section 10
+  chapterVIADeductions: number;
+  tds: number; // Salary slips are annualised
+  importedAt: Date;
+}
+
 export interface CustomDeduction {
   id: string;
   name: string;
@@ -69,6 +106,8 @@ export interface LoanDetails {
   tenure: number; // in months
   startDate: Date;
   endDate: Date;
+  rateChanges?: RateChange[]; // Floating-rate resets
+  prepayments?: Prepayment[];
   taxBenefit: {
     section: string;
     maxDeduction: number;
@@ -82,6 +121,14 @@ export interface LoanDetails {
   };
 }
 
+export interface CreditCardDebt {
+  id: string;
+  issuer: string;
+  outstanding: number;
+  annualRate: number; // percent, typically 36-45%
+  minimumPayment: number; // Monthly
+}
+
 export interface Investment {
   id: string;
   name: string;
@@ -93,6 +140,45 @@ export interface Investment {
   taxBenefit?: string;
 }
 
+/**
+ * Transaction recorded in-app (ManualTransactionModal) and stored on the profile
+ */
+export interface RecordedTransaction {
+  id: string;
+  amount: number;
+  type: 'income' | 'expense' | 'investment';
+  category: string | null; // null until classified
+  description: string;
+  date: string; // ISO
+  bankName?: string;
+  status: 'classified' | 'pending_classification';
+  createdAt: string; // ISO
+}
+
+// Loan as stored in Firestore, with Timestamps in place of Dates
+type StoredLoan = Omit<LoanDetails, 'startDate' | 'endDate' | 'rateChanges' | 'prepayments'> & {
+  startDate?: Timestamp;
+  endDate?: Timestamp;
+  rateChanges?: Array<Omit<RateChange, 'effectiveFrom'> & { effectiveFrom: Timestamp }>;
+  prepayments?: Array<Omit<Prepayment, 'date' | 'until'> & { date: Timestamp; until: Timestamp | null }>;
+};
+
+function loanFromFirestore(loan: StoredLoan): LoanDetails {
+  const { startDate, endDate, rateChanges, prepayments, ...rest } = loan;
+  return {
+    ...rest,
+    startDate: startDate?.toDate() || new Date(),
+    endDate: endDate?.toDate() || new Date(),
+    // Firestore rejects undefined, so absent lists stay absent
+    ...(rateChanges && {
+      rateChanges: rateChanges.map(c => ({ ...c, effectiveFrom: c.effectiveFrom.toDate() })),
+    }),
+    ...(prepayments && {
+      prepayments: prepayments.map(p => ({ ...p, date: p.date.toDate(), until: p.until?.toDate() ?? null })),
+    }),
+  };
+}
+
 export class UserProfileService {
   /**
    * Get user financial profile
@@ -115,6 +201,14 @@ export class UserProfileService {
             otherIncome: 25000,
             rentalIncome: 15000,
             businessIncome: 0,
+            salaryStructure: [
+              {
+                effectiveFrom: new Date(Date.now() - 365 * 86400000),
+                basicMonthly: 60000,
+                hraMonthly: 30000,
+                isMetro: true,
+              }
+            ],
             lastUpdated: new Date(),
           },
           deductions: {
@@ -216,6 +310,23 @@ export class UserProfileService {
           ...data,
           income: {
             ...data.income,
+            // Firestore rejects undefined, so absent lists stay absent
+            ...(data.income.salaryStructure && {
+              salaryStructure: data.income.salaryStructure.map(
+                (s: Omit<SalaryStructure, 'effectiveFrom'> & { effectiveFrom?: Timestamp }) => ({
+                  ...s,
+                  effectiveFrom: s.effectiveFrom?.toDate() || new Date(),
+                })
+              ),
+            }),
+            ...(data.income.taxStatements && {
+              taxStatements: data.income.taxStatements.map(
+                (t: Omit<EmployerTaxStatement, 'importedAt'> & { importedAt?: Timestamp }) => ({
+                  ...t,
+                  importedAt: t.importedAt?.toDate() || new Date(),
+                })
+              ),
+            }),
             lastUpdated: data.income.lastUpdated?.toDate() || new Date(),
           },
           deductions: {
@@ -235,16 +346,8 @@ export class UserProfileService {
               startDate: d.startDate?.toDate() || new Date(),
               endDate: d.endDate?.toDate(),
             })) || [],
-            homeLoan: data.deductions.homeLoan?.map((l: any) => ({
-              ...l,
-              startDate: l.startDate?.toDate() || new Date(),
-              endDate: l.endDate?.toDate() || new Date(),
-            })) || [],
-            otherLoans: data.deductions.otherLoans?.map((l: any) => ({
-              ...l,
-              startDate: l.startDate?.toDate() || new Date(),
-              endDate: l.endDate?.toDate() || new Date(),
-            })) || [],
+            homeLoan: data.deductions.homeLoan?.map(loanFromFirestore) || [],
+            otherLoans: data.deductions.otherLoans?.map(loanFromFirestore) || [],
             customDeductions: data.deductions.customDeductions || [],
           },
           bankAccounts: data.bankAccounts || [],
@@ -326,6 +429,99 @@ export class UserProfileService {
     }
   }
 
+  /**
+   * Add a salary structure revision. A revision from the same month replaces
+   * the earlier one.
+   */
+  async updateSalaryStructure(userId: string, structure: SalaryStructure): Promise<SalaryStructure[]> {
+    const profile = await this.getProfile(userId);
+    if (!profile) throw new Error('Profile not found');
+
+    const monthOf = (date: Date) => date.getFullYear() * 12 + date.getMonth();
+    const revisions = [
+      ...(profile.income.salaryStructure ?? []).filter(
+        s => monthOf(new Date(s.effectiveFrom)) !== monthOf(structure.effectiveFrom)
+      ),
+      structure,
+    ].sort((a, b) => new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime());
+
+    try {
+      const docRef = doc(db, 'user_profiles', userId);
+      await updateDoc(docRef, {
+        'income.salaryStructure': revisions.map(s => ({
+          effectiveFrom: new Date(s.effectiveFrom),
+          basicMonthly: s.basicMonthly,
+          daMonthly: s.daMonthly ?? 0,
+          hraMonthly: s.hraMonthly,
+          isMetro: s.isMetro,
+        })),
+        'income.lastUpdated': new Date(),
+        updatedAt: new Date(),
+      });
+
+      console.log('✅ Salary structure updated successfully');
+    } catch (error) {
+      console.error('Error updating salary structure:', error);
+
+      // Fallback to localStorage
+      profile.income.salaryStructure = revisions;
+      profile.income.lastUpdated = new Date();
+      localStorage.setItem(`profile_${userId}`, JSON.stringify(profile));
+    }
+
+    return revisions;
+  }
+
+  /**
+   * Record an employer's tax statement. A Form 16 replaces anything imported
+   * for the same employer and year; a salary slip never replaces a Form 16.
+   */
+  async recordTaxStatement(userId: string, statement: EmployerTaxStatement): Promise<EmployerTaxStatement[]> {
+    const profile = await this.getProfile(userId);
+    if (!profile) throw new Error('Profile not found');
+
+    const existing = profile.income.taxStatements ?? [];
+    const sameEmployer = (t: EmployerTaxStatement) =>
+      t.financialYear === statement.financialYear &&
+      t.employer.toLowerCase() === statement.employer.toLowerCase();
+
+    if (statement.source === 'salary_slip' && existing.some(t => sameEmployer(t) && t.source === 'form16')) {
+      return existing;
+    }
+    const statements = [...existing.filter(t => !sameEmployer(t)), statement];
+
+    try {
+      const docRef = doc(db, 'user_profiles', userId);
+      await updateDoc(docRef, {
+        'income.taxStatements': statements.map(t => ({ ...t, importedAt: new Date(t.importedAt) })),
+        updatedAt: new Date(),
+      });
+
+      console.log('✅ Tax statement recorded for', statement.financialYear);
+    } catch (error) {
+      console.error('Error recording tax statement:', error);
+
+      // Fallback to localStorage
+      profile.income.taxStatements = statements;
+      localStorage.setItem(`profile_${userId}`, JSON.stringify(profile));
+    }
+
+    return statements;
+  }
+
+  /**
+   * TDS on salary reported in employers' Form 16s for a financial year, or
+   * null when none has been imported. Salary slips only annualise one month,
+   * so they never count as reported TDS.
+   */
+  getReportedSalaryTds(profile: UserFinancialProfile, financialYear: string): number | null {
+    const statements = (profile.income.taxStatements ?? []).filter(
+      t => t.financialYear === financialYear && t.source === 'form16'
+    );
+    if (statements.length === 0) return null;
+    return statements.reduce((sum, t) => sum + t.tds, 0);
+  }
+
   /**
    * Add custom deduction
    */
@@ -371,20 +567,19 @@ export class UserProfileService {
    */
   async addLoan(userId: string, loan: Omit<LoanDetails, 'id' | 'calculatedData'>): Promise<LoanDetails> {
     try {
-      // Calculate loan details in real-time
-      const calculatedData = this.calculateLoanDetails(loan);
+      const profile = await this.getProfile(userId);
+      if (!profile) {
+        throw new Error('Profile not found');
+      }
 
+      // Calculate loan details in real-time
       const newLoan: LoanDetails = {
         ...loan,
         id: Date.now().toString(),
-        calculatedData,
+        taxBenefit: this.currentYearBenefit(loan),
+        calculatedData: this.calculateLoanDetails(loan, profile),
       };
 
-      const profile = await this.getProfile(userId);
-      if (!profile) {
-        throw new Error('Profile not found');
-      }
-
       if (loan.loanType === 'Home Loan') {
         profile.deductions.homeLoan.push(newLoan);
       } else {
@@ -406,46 +601,110 @@ export class UserProfileService {
   }
 
   /**
-   * Calculate real-time loan details
+   * Update a loan's rate, EMI, rate resets or prepayments and recalculate it
+   */
+  async updateLoan(
+    userId: string,
+    loanId: string,
+    changes: Partial<Pick<LoanDetails, 'interestRate' | 'emi' | 'rateChanges' | 'prepayments'>>
+  ): Promise<LoanDetails> {
+    const profile = await this.getProfile(userId);
+    if (!profile) throw new Error('Profile not found');
+
+    const list = profile.deductions.homeLoan.some(l => l.id === loanId)
+      ? profile.deductions.homeLoan
+      : profile.deductions.otherLoans;
+    const index = list.findIndex(l => l.id === loanId);
+    if (index === -1) throw new Error('Loan not found');
+
+    const loan = { ...list[index], ...changes };
+
+    // Tax saved is measured against the user's other deductions, so the loan
+    // is taken out while it is recalculated
+    list.splice(index, 1);
+    const updated: LoanDetails = {
+      ...loan,
+      taxBenefit: this.currentYearBenefit(loan),
+      calculatedData: this.calculateLoanDetails(loan, profile),
+    };
+    list.splice(index, 0, updated);
+    profile.updatedAt = new Date();
+
+    try {
+      const docRef = doc(db, 'user_profiles', userId);
+      await setDoc(docRef, profile);
+      console.log('✅ Loan updated:', updated.loanType);
+    } catch (error) {
+      console.error('Error updating loan:', error);
+
+      // Fallback to localStorage
+      localStorage.setItem(`profile_${userId}`, JSON.stringify(profile));
+    }
+
+    return updated;
+  }
+
+  /**
+   * Lifetime figures from the loan's amortization schedule. Tax saved is
+   * worked out year by year at the user's own slab rate and regime, on top
+   * of their other deductions.
    */
-  private calculateLoanDetails(loan: Omit<LoanDetails, 'id' | 'calculatedData'>): LoanDetails['calculatedData'] {
-    const monthlyInterestRate = loan.interestRate / 12 / 100;
-    const numberOfPayments = loan.tenure;
-
-    // Calculate total interest
-    const totalAmount = loan.emi * numberOfPayments;
-    const totalInterestPaid = totalAmount - loan.principalAmount;
-    const principalPaid = loan.principalAmount - loan.outstandingAmount;
-
-    // Calculate remaining tenure
-    const monthsElapsed = Math.ceil(principalPaid / (loan.emi - (loan.outstandingAmount * monthlyInterestRate)));
-    const remainingTenure = numberOfPayments - monthsElapsed;
-
-    // Calculate tax saved based on loan type
-    let totalTaxSaved = 0;
-    if (loan.loanType === 'Home Loan') {
-      // Home loan interest: Up to ₹2L under Section 24(b)
-      // Principal: Up to ₹1.5L under Section 80C
-      const interestDeduction = Math.min(totalInterestPaid, 200000);
-      const principalDeduction = Math.min(principalPaid, 150000);
-      totalTaxSaved = (interestDeduction + principalDeduction) * 0.30; // Assuming 30% tax bracket
-    } else if (loan.loanType === 'Education Loan') {
-      // Education loan: Full interest deduction under Section 80E
-      totalTaxSaved = totalInterestPaid * 0.30;
+  private calculateLoanDetails(
+    loan: Omit<LoanDetails, 'id' | 'calculatedData'>,
+    profile: UserFinancialProfile
+  ): LoanDetails['calculatedData'] {
+    const schedule = buildAmortizationSchedule(loan);
+    const position = loanPositionAt(schedule);
+    const deductionsByYear = new Map<string, TaxDeductions>();
+
+    for (const d of loanTaxDeductions(loan.loanType, splitByFinancialYear(schedule))) {
+      const year = deductionsByYear.get(d.financialYear) ?? {};
+      if (d.section === '24(b)') year.homeLoanInterest = d.amount;
+      if (d.section === '80C') year.section80C = d.amount;
+      if (d.section === '80E') year.educationLoanInterest = d.amount;
+      deductionsByYear.set(d.financialYear, year);
     }
 
+    const totals = this.getTotalDeductions(profile);
+    const taxInput = {
+      grossIncome: profile.income.annualSalary + profile.income.otherIncome + profile.income.businessIncome,
+      regime: profile.taxRegime,
+      age: profile.personalInfo.age || undefined,
+      deductions: {
+        section80C: totals.section80C,
+        section80D: totals.section80D,
+        section80CCD1B: totals.section80CCD1B,
+        homeLoanInterest: totals.homeLoanInterest,
+        educationLoanInterest: totals.educationLoanInterest,
+      },
+    };
+    const totalTaxSaved = [...deductionsByYear.values()]
+      .reduce((sum, additional) => sum + estimateDeductionSaving(taxInput, additional), 0);
+
     return {
-      totalInterestPaid: Math.round(totalInterestPaid),
-      principalPaid: Math.round(principalPaid),
-      remainingTenure,
+      totalInterestPaid: schedule.totalInterest,
+      principalPaid: position.principalPaid,
+      remainingTenure: position.remainingMonths,
       totalTaxSaved: Math.round(totalTaxSaved),
     };
   }
 
   /**
-   * Get total deductions for tax calculation
+   * This financial year's deduction under the loan's main section, from its schedule
+   */
+  private currentYearBenefit(loan: Omit<LoanDetails, 'id' | 'calculatedData'>): LoanDetails['taxBenefit'] {
+    const section = loan.loanType === 'Home Loan' ? '24(b)' : loan.loanType === 'Education Loan' ? '80E' : null;
+    const amount = section ? loanDeductionForYear([loan], section) : 0;
+    const cap = loan.taxBenefit.maxDeduction > 0 ? loan.taxBenefit.maxDeduction : Infinity;
+
+    return { ...loan.taxBenefit, currentYearBenefit: Math.round(Math.min(amount, cap)) };
+  }
+
+  /**
+   * Get total deductions for tax calculation. Loan interest and home loan
+   * principal (80C) come from each loan's schedule for the financial year.
    */
-  getTotalDeductions(profile: UserFinancialProfile): {
+  getTotalDeductions(profile: UserFinancialProfile, financialYear: string = getFinancialYear()): {
     section80C: number;
     section80D: number;
     section80CCD1B: number;
@@ -453,25 +712,20 @@ export class UserProfileService {
     educationLoanInterest: number;
     total: number;
   } {
-    const section80C = profile.deductions.section80C.reduce((sum, d) => sum + d.amount, 0);
+    const homeLoanPrincipal = loanDeductionForYear(profile.deductions.homeLoan, '80C', financialYear);
+    const section80C = profile.deductions.section80C.reduce((sum, d) => sum + d.amount, 0) + homeLoanPrincipal;
     const section80D = profile.deductions.section80D.reduce((sum, d) => sum + d.amount, 0);
     const section80CCD1B = profile.deductions.section80CCD1B.reduce((sum, d) => sum + d.amount, 0);
-    
-    // Home loan interest
-    const homeLoanInterest = profile.deductions.homeLoan.reduce((sum, loan) => {
-      const monthlyInterestRate = loan.interestRate / 12 / 100;
-      const monthlyInterest = loan.outstandingAmount * monthlyInterestRate;
-      return sum + (monthlyInterest * 12); // Annual interest
-    }, 0);
-
-    // Education loan interest
-    const educationLoanInterest = profile.deductions.otherLoans
-      .filter(loan => loan.loanType === 'Education Loan')
-      .reduce((sum, loan) => {
-        const monthlyInterestRate = loan.interestRate / 12 / 100;
-        const monthlyInterest = loan.outstandingAmount * monthlyInterestRate;
-        return sum + (monthlyInterest * 12);
-      }, 0);
+
+    // Home loan interest, Section 24(b)
+    const homeLoanInterest = loanDeductionForYear(profile.deductions.homeLoan, '24(b)', financialYear);
+
+    // Education loan interest, Section 80E
+    const educationLoanInterest = loanDeductionForYear(
+      profile.deductions.otherLoans.filter(loan => loan.loanType === 'Education Loan'),
+      '80E',
+      financialYear
+    );
 
     const total = section80C + section80D + section80CCD1B + homeLoanInterest + educationLoanInterest;
 
@@ -479,9 +733,9 @@ export class UserProfileService {
       section80C: Math.min(section80C, 150000), // Max limit
       section80D: Math.min(section80D, 25000),
       section80CCD1B: Math.min(section80CCD1B, 50000),
-      homeLoanInterest: Math.min(homeLoanInterest, 200000),
-      educationLoanInterest, // No limit
-      total,
+      homeLoanInterest: Math.min(Math.round(homeLoanInterest), 200000),
+      educationLoanInterest: Math.round(educationLoanInterest), // No limit
+      total: Math.round(total),
     };
   }
 
@@ -535,6 +789,30 @@ export class UserProfileService {
     return profile;
   }
 
+  /**
+   * Replace the user's credit card balances
+   */
+  async updateCreditCards(userId: string, cards: CreditCardDebt[]): Promise<void> {
+    try {
+      const docRef = doc(db, 'user_profiles', userId);
+      await updateDoc(docRef, {
+        creditCards: cards,
+        updatedAt: new Date(),
+      });
+
+      console.log('✅ Credit cards updated');
+    } catch (error) {
+      console.error('Error updating credit cards:', error);
+
+      // Fallback to localStorage
+      const profile = await this.getProfile(userId);
+      if (profile) {
+        profile.creditCards = cards;
+        localStorage.setItem(`profile_${userId}`, JSON.stringify(profile));
+      }
+    }
+  }
+
   /**
    * Delete custom deduction
    */
@@ -617,17 +895,45 @@ export class UserProfileService {
     if (userDoc.exists()) {
       const data = userDoc.data() as UserFinancialProfile;
       const transactions = (data as any).transactions || [];
-      transactions.push({
+      const category = transactionData.category || null;
+      const transaction = {
         ...transactionData,
+        category,
+        // Uncategorized transactions are picked up by expense-classification agents
+        status: category ? 'classified' : 'pending_classification',
         id: Math.random().toString(36).substr(2, 9),
         createdAt: new Date().toISOString()
-      });
+      };
+      transactions.push(transaction);
       await updateDoc(userRef, { transactions });
+      localStorage.setItem(`transactions_${userId}`, JSON.stringify(transactions));
       console.log('✅ Transaction added:', transactionData.description);
+
+      agentEventBus
+        .publish('transaction', userId, { transaction }, 'userProfileService.addTransaction')
+        .catch(err => console.error('Error publishing transaction event:', err));
     } else {
       throw new Error('Profile not found');
     }
   }
+
+  /**
+   * Get transactions recorded on the profile (newest last)
+   */
+  async getTransactions(userId: string): Promise<RecordedTransaction[]> {
+    try {
+      const userDoc = await getDoc(doc(db, 'user_profiles', userId));
+      if (userDoc.exists()) {
+        const transactions: RecordedTransaction[] = userDoc.data().transactions || [];
+        localStorage.setItem(`transactions_${userId}`, JSON.stringify(transactions));
+        return transactions;
+      }
+    } catch (error) {
+      console.warn('Firestore transactions fetch failed, using local fallback:', error);
+    }
+
+    return JSON.parse(localStorage.getItem(`transactions_${userId}`) || '[]');
+  }
 }
 
 
@@ -0,0 +1,89 @@
+/**
+ * Unit Test: Advance Tax Planner
+ *
+ * Installment schedule with Section 234C interest and Section 234B interest
+ * on a shortfall in advance tax
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { buildInstallmentSchedule, calculateInterest234B, getInstallmentDueDates } from '../services/advanceTaxPlanner';
+
+vi.mock('../config/firebase', () => ({ db: {} }));
+
+const FY = 'FY2024-25';
+const BASES: [number, number, number, number] = [100000, 100000, 100000, 100000];
+
+describe('getInstallmentDueDates', () => {
+  it('falls on 15 June, September, December and March', () => {
+    const dates = getInstallmentDueDates(FY).map(d => [d.getFullYear(), d.getMonth() + 1, d.getDate()]);
+
+    expect(dates).toEqual([[2024, 6, 15], [2024, 9, 15], [2024, 12, 15], [2025, 3, 15]]);
+  });
+});
+
+describe('buildInstallmentSchedule', () => {
+  it('charges 234C interest for three months per missed installment and one month for March', () => {
+    const schedule = buildInstallmentSchedule({ financialYear: FY, installmentBases: BASES, payments: [], asOf: new Date(2025, 3, 1) });
+
+    expect(schedule.map(i => i.shortfall)).toEqual([15000, 45000, 75000, 100000]);
+    expect(schedule.map(i => i.interest234C)).toEqual([450, 1350, 2250, 1000]);
+    expect(schedule.every(i => i.status === 'short')).toBe(true);
+  });
+
+  it('waives interest when the relaxed 12% and 36% are paid on time', () => {
+    const schedule = buildInstallmentSchedule({
+      financialYear: FY,
+      installmentBases: BASES,
+      payments: [{ amount: 12000, paidOn: new Date(2024, 5, 10) }],
+      asOf: new Date(2024, 9, 1),
+    });
+
+    expect(schedule[0].interest234C).toBe(0);
+    expect(schedule[1].shortfall).toBe(33000);
+    expect(schedule[1].interest234C).toBe(990);
+  });
+
+  it('rolls missed amounts into the next installment', () => {
+    const schedule = buildInstallmentSchedule({
+      financialYear: FY,
+      installmentBases: BASES,
+      payments: [],
+      asOf: new Date(2024, 6, 1),
+    });
+
+    expect(schedule[0].amountDue).toBe(0);
+    expect(schedule[1].amountDue).toBe(45000);
+    expect(schedule[1].status).toBe('upcoming');
+  });
+
+  it('flags an installment due within a week', () => {
+    const schedule = buildInstallmentSchedule({
+      financialYear: FY,
+      installmentBases: BASES,
+      payments: [{ amount: 5000, paidOn: new Date(2024, 4, 1) }],
+      asOf: new Date(2024, 5, 10),
+    });
+
+    expect(schedule[0].status).toBe('due_soon');
+    expect(schedule[0].amountDue).toBe(10000);
+  });
+});
+
+describe('calculateInterest234B', () => {
+  it('charges nothing when 90% was paid as advance tax or the tax is under ₹10,000', () => {
+    const asOf = new Date(2025, 6, 31);
+
+    expect(calculateInterest234B(FY, 100000, [{ amount: 90000, paidOn: new Date(2025, 2, 10) }], asOf)).toBe(0);
+    expect(calculateInterest234B(FY, 9000, [], asOf)).toBe(0);
+  });
+
+  it('charges 1% a month from April on the unpaid balance, rounded down to the hundred', () => {
+    expect(calculateInterest234B(FY, 100050, [], new Date(2025, 6, 31))).toBe(4000);
+  });
+
+  it('reduces the balance from the month after self-assessment tax is paid', () => {
+    const payments = [{ amount: 50000, paidOn: new Date(2025, 4, 20) }];
+
+    expect(calculateInterest234B(FY, 100000, payments, new Date(2025, 6, 31))).toBe(3000);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Unit Test: Agent Expression Language
+ *
+ * Parsing and precedence, static type checks, the variable and function
+ * whitelists, error messages, and the built-in agent templates passing
+ * save-time validation
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  compileExpression,
+  evaluateExpression,
+  ExpressionError,
+  validateExpression,
+  type ExpressionScope,
+} from '../services/agentExpression';
+import { customAgentBuilder, type CustomAgent } from '../services/customAgentBuilder';
+import { dynamicAgentFactory } from '../services/dynamicAgents';
+
+vi.mock('../config/firebase', () => ({ db: {} }));
+
+const SCOPE: ExpressionScope = {
+  transaction: { amount: 50000, category: 'income', description: 'Salary' },
+  account: { id: 'acc-1', balance: 120000 },
+  accounts: { checking: { balance: 80000 }, 'acc-1': { balance: 120000 } },
+  income: { monthlySalary: 100000 },
+};
+
+function errorFor(source: string, expectedType?: 'number' | 'boolean'): ExpressionError {
+  const error = validateExpression(source, expectedType);
+  if (!error) throw new Error(`"${source}" was expected to be invalid`);
+  return error;
+}
+
+describe('parsing and evaluation', () => {
+  it('applies arithmetic precedence and parentheses', () => {
+    expect(evaluateExpression('2 + 3 * 4', SCOPE)).toBe(14);
+    expect(evaluateExpression('(2 + 3) * 4', SCOPE)).toBe(20);
+    expect(evaluateExpression('-2 * 3 + 10 % 4', SCOPE)).toBe(-4);
+    expect(evaluateExpression('1.5e3 + .5', SCOPE)).toBe(1500.5);
+  });
+
+  it('reads dotted and bracketed variables', () => {
+    expect(evaluateExpression('transaction.amount', SCOPE)).toBe(50000);
+    expect(evaluateExpression('accounts["acc-1"].balance - accounts.checking.balance', SCOPE)).toBe(40000);
+    expect(evaluateExpression("transaction.category == 'income'", SCOPE)).toBe(true);
+  });
+
+  it('supports word operators, conditionals and functions', () => {
+    expect(evaluateExpression('account.balance > 5000 and not (transaction.amount < 100)', SCOPE)).toBe(true);
+    expect(evaluateExpression('transaction.amount > 100000 ? 1 : 2', SCOPE)).toBe(2);
+    expect(evaluateExpression('min(percent(transaction.amount, 10), accounts.checking.balance - 5000)', SCOPE)).toBe(5000);
+    expect(evaluateExpression('clamp(round(1234.567, 1), 0, 1000)', SCOPE)).toBe(1000);
+  });
+
+  it('reads missing data as null', () => {
+    expect(evaluateExpression('transaction.merchant', SCOPE)).toBeNull();
+    expect(evaluateExpression('transaction.merchant == null', SCOPE)).toBe(true);
+  });
+});
+
+describe('type inference', () => {
+  it('infers the result type statically', () => {
+    expect(compileExpression('transaction.amount * 0.1').type).toBe('number');
+    expect(compileExpression('account.balance > 5000').type).toBe('boolean');
+    expect(compileExpression('transaction.amount').type).toBe('any');
+    expect(compileExpression("true ? 'a' : 'b'").type).toBe('string');
+  });
+
+  it('rejects operands of the wrong type', () => {
+    expect(errorFor('1 + true').message).toBe('Operator "+" expects number, got boolean (at position 5)');
+    expect(errorFor('!5').kind).toBe('type');
+    expect(errorFor("min('a', 2)").message).toBe('min() expects number, got string (at position 5)');
+  });
+
+  it('checks the expected result type', () => {
+    expect(errorFor('account.balance > 0', 'number').message).toBe(
+      'Expression must produce a number, but produces a boolean (at position 1)'
+    );
+    expect(() => compileExpression("transaction.category", 'number').evaluate(SCOPE)).toThrow(
+      'Expression must produce a number, got string'
+    );
+  });
+});
+
+describe('whitelists', () => {
+  it('only resolves the scope roots', () => {
+    const error = errorFor('monthlyIncome > 0');
+
+    expect(error.kind).toBe('unknown_variable');
+    expect(error.message).toBe('Unknown variable "monthlyIncome". Allowed: transaction, account, accounts, income (at position 1)');
+  });
+
+  it('blocks globals and anything that is not a listed function', () => {
+    expect(errorFor('window.location').kind).toBe('unknown_variable');
+    expect(errorFor('constructor.constructor').kind).toBe('unknown_variable');
+    expect(errorFor('eval(1)').message).toBe(
+      'Unknown function "eval". Allowed: min, max, round, floor, ceil, abs, clamp, percent (at position 1)'
+    );
+  });
+
+  it('does not read inherited properties', () => {
+    expect(evaluateExpression('transaction.constructor', SCOPE)).toBeNull();
+    expect(evaluateExpression('income.toString', SCOPE)).toBeNull();
+  });
+
+  it('checks function argument counts', () => {
+    expect(errorFor('clamp(1, 2)').message).toBe('clamp() takes 3 argument(s), got 2 (at position 1)');
+    expect(errorFor('round(1, 2, 3)').message).toBe('round() takes 1-2 argument(s), got 3 (at position 1)');
+    expect(errorFor('max()').message).toBe('max() takes at least 1 argument(s), got 0 (at position 1)');
+  });
+});
+
+describe('error messages', () => {
+  it('reports syntax errors with their position', () => {
+    expect(errorFor('').message).toBe('Expression is empty');
+    expect(errorFor("'open").message).toBe('Unterminated string (at position 1)');
+    expect(errorFor('1 $ 2').message).toBe('Unexpected character "$" (at position 3)');
+    expect(errorFor('min(1, 2').message).toBe('Expected ")" but found "end of expression" (at position 9)');
+    expect(errorFor('1 2').message).toBe('Unexpected "2" (at position 3)');
+    expect(errorFor('account.').message).toBe('Expected property name after "." (at position 9)');
+  });
+
+  it('rejects overly long or deeply nested expressions', () => {
+    expect(errorFor('1+'.repeat(300) + '1').message).toBe('Expression is longer than 500 characters');
+    expect(errorFor('-'.repeat(40) + '1').message).toContain('Expression is nested too deeply');
+  });
+
+  it('raises runtime errors for null comparisons and division by zero', () => {
+    expect(() => evaluateExpression('transaction.merchant > 5', SCOPE)).toThrow('Cannot compare null with number');
+    expect(() => evaluateExpression('transaction.amount / 0', SCOPE)).toThrow('Division by zero (at position 20)');
+  });
+});
+
+describe('built-in agent templates', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('pass save-time expression validation', async () => {
+    const configs: Partial<CustomAgent>[] = [];
+    vi.spyOn(customAgentBuilder, 'createAgent').mockImplementation(async (_userId, config) => {
+      configs.push(config);
+      return config as CustomAgent;
+    });
+    const channels: ('in_app')[] = ['in_app'];
+
+    await dynamicAgentFactory.createRiskAutoSellAgent('user', {
+      holdings: [{ symbol: 'INFY', quantity: 10, purchasePrice: 1500, stopLossPercentage: 5 }],
+      notificationChannels: channels,
+      requireConfirmation: true,
+      confirmationTimeoutMinutes: 30,
+    });
+    await dynamicAgentFactory.createAutoSavingsAgent('user', {
+      fromAccount: 'checking',
+      toAccount: 'savings',
+      savingsRule: 'percentage',
+      percentage: 10,
+      notificationChannels: channels,
+    });
+    await dynamicAgentFactory.createExpenseClassificationAgent('user', {
+      categories: ['rent', 'other'],
+      autoApply: false,
+      confidenceThreshold: 0.8,
+      notificationChannels: channels,
+    });
+    await dynamicAgentFactory.createOpportunityRecommendationAgent('user', {
+      riskProfile: 'moderate',
+      investmentHorizon: 'long',
+      monthlyInvestmentBudget: 20000,
+      preferences: { equity: true, debt: true, mutualFunds: true, gold: false, realEstate: false, crypto: false },
+      notificationChannels: channels,
+      recommendationFrequency: 'weekly',
+    });
+    configs.push(...customAgentBuilder.getAgentTemplates().map(t => t.template));
+
+    expect(configs).toHaveLength(4 + customAgentBuilder.getAgentTemplates().length);
+    for (const config of configs) {
+      expect(customAgentBuilder.validateAgent(config).map(e => e.message)).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit Test: Capital Gains
+ *
+ * Holding periods, rates by sale date, grandfathered indexation and
+ * loss set-off with the Section 112A exemption
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { computeGain, summarizeCapitalGains, type RealizedGainLot, type SaleInput } from '../services/capitalGainsService';
+import { getFinancialYear } from '../services/taxEngine';
+
+vi.mock('../config/firebase', () => ({ db: {} }));
+
+function sale(overrides: Partial<SaleInput>): SaleInput {
+  return {
+    assetName: 'TEST',
+    assetClass: 'listed_equity',
+    quantity: 1,
+    buyPrice: 100,
+    sellPrice: 100,
+    acquiredAt: new Date(2023, 5, 1),
+    soldAt: new Date(2024, 9, 1),
+    ...overrides,
+  };
+}
+
+function lot(overrides: Partial<SaleInput>): RealizedGainLot {
+  const input = sale(overrides);
+  return {
+    ...input,
+    ...computeGain(input),
+    id: Math.random().toString(36),
+    userId: 'user',
+    financialYear: getFinancialYear(input.soldAt),
+    source: 'manual',
+    createdAt: new Date(),
+  };
+}
+
+describe('computeGain', () => {
+  it('taxes listed equity at the rates in force on the sale date', () => {
+    const longBefore = computeGain(sale({ acquiredAt: new Date(2023, 0, 1), soldAt: new Date(2024, 5, 1), sellPrice: 150 }));
+    const longAfter = computeGain(sale({ acquiredAt: new Date(2023, 0, 1), soldAt: new Date(2024, 8, 1), sellPrice: 150 }));
+    const shortAfter = computeGain(sale({ acquiredAt: new Date(2024, 0, 1), soldAt: new Date(2024, 8, 1), sellPrice: 150 }));
+
+    expect([longBefore.term, longBefore.section, longBefore.rate]).toEqual(['long', '112A', 10]);
+    expect([longAfter.term, longAfter.section, longAfter.rate]).toEqual(['long', '112A', 12.5]);
+    expect([shortAfter.term, shortAfter.section, shortAfter.rate]).toEqual(['short', '111A', 20]);
+    expect(longAfter.gain).toBe(50);
+  });
+
+  it('needs more than twelve months for long-term equity', () => {
+    const exactlyTwelve = computeGain(sale({ acquiredAt: new Date(2023, 8, 1), soldAt: new Date(2024, 8, 1) }));
+    const oneDayMore = computeGain(sale({ acquiredAt: new Date(2023, 8, 1), soldAt: new Date(2024, 8, 2) }));
+
+    expect(exactlyTwelve.term).toBe('short');
+    expect(oneDayMore.term).toBe('long');
+  });
+
+  it('includes fees in cost and proceeds', () => {
+    const result = computeGain(sale({ quantity: 10, buyPrice: 100, sellPrice: 120, buyFees: 20, sellFees: 30 }));
+
+    expect(result.costBasis).toBe(1020);
+    expect(result.saleProceeds).toBe(1170);
+    expect(result.gain).toBe(150);
+  });
+
+  it('treats debt fund units bought from April 2023 as slab-rate under Section 50AA', () => {
+    const result = computeGain(sale({ assetClass: 'debt_mf', acquiredAt: new Date(2023, 3, 1), soldAt: new Date(2026, 3, 1) }));
+
+    expect(result.term).toBe('short');
+    expect(result.rate).toBe('slab');
+    expect(result.section).toBe('50AA');
+  });
+
+  it('lets grandfathered real estate pick indexed cost at 20% when that is cheaper', () => {
+    const result = computeGain(sale({
+      assetClass: 'real_estate',
+      buyPrice: 1000000,
+      sellPrice: 2000000,
+      acquiredAt: new Date(2010, 5, 1),
+      soldAt: new Date(2024, 9, 1),
+    }));
+
+    expect(result.rate).toBe(20);
+    expect(result.indexedCost).toBeCloseTo(1000000 * (363 / 167));
+    expect(result.taxableGain).toBeLessThan(0);
+  });
+});
+
+describe('summarizeCapitalGains', () => {
+  const lots = [
+    lot({ acquiredAt: new Date(2023, 0, 1), buyPrice: 100000, sellPrice: 400000 }), // LTCG 3,00,000
+    lot({ acquiredAt: new Date(2024, 5, 1), buyPrice: 100000, sellPrice: 150000 }), // STCG 50,000
+    lot({ acquiredAt: new Date(2024, 5, 1), buyPrice: 180000, sellPrice: 100000 }), // STCL 80,000
+    lot({ acquiredAt: new Date(2023, 0, 1), buyPrice: 130000, sellPrice: 100000 }), // LTCL 30,000
+    lot({ assetClass: 'crypto', buyPrice: 120000, sellPrice: 100000 }), // Crypto loss 20,000
+  ];
+  const summary = summarizeCapitalGains(lots, 'FY2024-25');
+
+  it('sets short-term losses off against short-term gains first, then long-term gains', () => {
+    const stcg = summary.buckets.find(b => b.section === '111A')!;
+    const ltcg = summary.buckets.find(b => b.section === '112A')!;
+
+    expect(stcg.lossSetOff).toBe(50000);
+    expect(ltcg.lossSetOff).toBe(60000); // 30,000 long-term loss + 30,000 left of the short-term loss
+    expect(summary.shortTermGain).toBe(0);
+    expect(summary.longTermGain).toBe(240000);
+  });
+
+  it('applies the ₹1.25 lakh 112A exemption after set-off', () => {
+    const ltcg = summary.buckets.find(b => b.section === '112A')!;
+
+    expect(summary.ltcgExemptionUsed).toBe(125000);
+    expect(ltcg.taxable).toBe(115000);
+    expect(summary.totalTax).toBe(14950); // 12.5% plus 4% cess
+  });
+
+  it('never sets off or carries forward crypto losses', () => {
+    expect(summary.disallowedLosses).toBe(20000);
+    expect(summary.lossCarriedForward).toEqual({ shortTerm: 0, longTerm: 0 });
+  });
+
+  it('carries forward long-term losses that long-term gains cannot absorb', () => {
+    const result = summarizeCapitalGains(
+      [
+        lot({ acquiredAt: new Date(2024, 5, 1), buyPrice: 100000, sellPrice: 150000 }),
+        lot({ acquiredAt: new Date(2023, 0, 1), buyPrice: 140000, sellPrice: 100000 }),
+      ],
+      'FY2024-25'
+    );
+
+    expect(result.shortTermGain).toBe(50000);
+    expect(result.lossCarriedForward).toEqual({ shortTerm: 0, longTerm: 40000 });
+  });
+});
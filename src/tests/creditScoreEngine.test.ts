@@ -0,0 +1,117 @@
+/**
+ * Unit Test: Credit Score Engine
+ *
+ * Factor scores, the score as 300 plus the factors' points, what-if
+ * simulations and the on-time payment timeline
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  estimateCreditScore,
+  improvementTimeline,
+  simulateWhatIf,
+} from '../services/creditScoreEngine';
+import type { CreditAccount, CreditReport } from '../services/creditReportImport';
+
+vi.mock('../config/firebase', () => ({ db: {} }));
+
+const REPORT_DATE = new Date(2025, 5, 15);
+
+function account(overrides: Partial<CreditAccount>): CreditAccount {
+  return {
+    id: 'card',
+    lender: 'HDFC Bank',
+    type: 'credit_card',
+    ownership: 'individual',
+    opened: new Date(2019, 5, 1),
+    closed: null,
+    sanctionedAmount: 0,
+    creditLimit: 100000,
+    currentBalance: 50000,
+    overdue: 0,
+    status: 'active',
+    payments: Array.from({ length: 12 }, (_, i) => {
+      const month = new Date(2025, 5 - i, 1);
+      return { month: `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, '0')}`, daysPastDue: 0 };
+    }),
+    ...overrides,
+  };
+}
+
+function report(overrides: Partial<CreditReport> = {}): CreditReport {
+  return {
+    bureau: 'CIBIL',
+    reportDate: REPORT_DATE,
+    bureauScore: 760,
+    accounts: [
+      account({}),
+      account({ id: 'home', lender: 'SBI', type: 'home_loan', creditLimit: null, sanctionedAmount: 3000000, currentBalance: 2500000 }),
+    ],
+    enquiries: [{ date: new Date(2025, 3, 1), lender: 'ICICI', purpose: 'Credit card', amount: null }],
+    ...overrides,
+  };
+}
+
+describe('estimateCreditScore', () => {
+  it('scores each factor from the report', () => {
+    const estimate = estimateCreditScore(report());
+    const scores = Object.fromEntries(estimate.factors.map(f => [f.key, f.score]));
+
+    expect(scores).toMatchObject({ payment_history: 100, utilization: 60, credit_mix: 75, enquiries: 90 });
+    expect(estimate.utilizationPercent).toBe(50);
+  });
+
+  it('adds up to 300 plus the points shown for each factor', () => {
+    const estimate = estimateCreditScore(report());
+
+    expect(estimate.score).toBe(300 + estimate.factors.reduce((sum, f) => sum + f.points, 0));
+    expect(estimate.factors.find(f => f.key === 'utilization')?.points).toBe(108);
+  });
+
+  it('weights late payments in the last year more heavily', () => {
+    const late = (month: string) => report({
+      accounts: [account({ payments: [{ month, daysPastDue: 30 }] })],
+    });
+
+    const recent = estimateCreditScore(late('2025-03')).factors[0];
+    const older = estimateCreditScore(late('2023-09')).factors[0];
+
+    expect(recent.score).toBe(94);
+    expect(older.score).toBe(96);
+    expect(recent.detail).toBe('1 late payment in the last 3 years');
+  });
+});
+
+describe('simulateWhatIf', () => {
+  it('raises the score when a card is paid down and says what it costs', () => {
+    const result = simulateWhatIf(report(), { kind: 'pay_down_card', accountId: 'card', targetUtilizationPercent: 10 });
+
+    expect(result.paymentRequired).toBe(40000);
+    expect(result.change).toBe(result.after - result.before);
+    expect(result.change).toBeGreaterThan(0);
+    expect(result.factorChanges).toEqual([{ key: 'utilization', label: 'Credit Utilization', before: 60, after: 100 }]);
+  });
+
+  it('lowers the score for new credit applications', () => {
+    const result = simulateWhatIf(report(), { kind: 'new_enquiries', count: 3 });
+
+    expect(result.change).toBeLessThan(0);
+  });
+});
+
+describe('improvementTimeline', () => {
+  it('estimates the score after one, three and six months of on-time payments', () => {
+    const timeline = improvementTimeline(report());
+    const current = estimateCreditScore(report()).score;
+
+    expect(timeline.map(p => p.months)).toEqual([1, 3, 6]);
+    expect(timeline.every(p => p.score === current + p.change)).toBe(true);
+    expect(timeline[2].score).toBeGreaterThanOrEqual(timeline[0].score);
+  });
+
+  it('is empty when no account is active', () => {
+    const closed = report({ accounts: [account({ status: 'closed', closed: new Date(2024, 0, 1) })] });
+
+    expect(improvementTimeline(closed)).toEqual([]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit Test: Holdings Ledger
+ *
+ * FIFO and specific-lot matching, split and bonus replay, and merging the
+ * Firestore and local copies of the ledger
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  HoldingsLedgerError,
+  buildHoldings,
+  matchLots,
+  mergeTransactions,
+  quantityHeldBefore,
+  replayLedger,
+  type LedgerTransaction,
+} from '../services/holdingsLedger';
+
+vi.mock('../config/firebase', () => ({ db: {} }));
+
+let sequence = 0;
+
+function tx(overrides: Partial<LedgerTransaction>): LedgerTransaction {
+  sequence += 1;
+  return {
+    id: `tx${sequence}`,
+    userId: 'user',
+    symbol: 'INFY',
+    name: 'Infosys',
+    assetType: 'stocks',
+    side: 'buy',
+    quantity: 10,
+    price: 100,
+    fees: 0,
+    date: new Date(2024, 0, 1),
+    source: 'manual',
+    createdAt: new Date(2024, 0, 1, 0, 0, sequence),
+    ...overrides,
+  };
+}
+
+describe('replayLedger', () => {
+  it('sells the oldest lots first and spreads fees pro rata', () => {
+    const first = tx({ quantity: 10, price: 100, fees: 10, date: new Date(2024, 0, 1) });
+    const second = tx({ quantity: 10, price: 150, date: new Date(2024, 2, 1) });
+    const sell = tx({ side: 'sell', quantity: 15, price: 200, fees: 30, date: new Date(2024, 5, 1) });
+
+    const { lots, realized } = replayLedger([sell, second, first]);
+
+    expect(realized[0].matches.map(m => [m.lotId, m.quantity])).toEqual([[first.id, 10], [second.id, 5]]);
+    expect(realized[0].matches[0].realizedPnl).toBe(10 * 100 - 10 - 20);
+    expect(realized[0].realizedPnl).toBe(10 * 100 - 10 - 20 + 5 * 50 - 10);
+    expect(lots.find(l => l.id === second.id)?.remaining).toBe(5);
+  });
+
+  it('sells the chosen lots for a specific-lot sale', () => {
+    const first = tx({ price: 100, date: new Date(2024, 0, 1) });
+    const second = tx({ price: 150, date: new Date(2024, 2, 1) });
+    const sell = tx({
+      side: 'sell',
+      quantity: 4,
+      price: 120,
+      date: new Date(2024, 5, 1),
+      lotSelections: [{ lotId: second.id, quantity: 4 }],
+    });
+
+    const { lots, realized } = replayLedger([first, second, sell]);
+
+    expect(realized[0].realizedPnl).toBe(4 * -30);
+    expect(lots.map(l => l.remaining)).toEqual([10, 6]);
+  });
+
+  it('rejects selling more than is held', () => {
+    const buy = tx({ quantity: 5 });
+    const sell = tx({ side: 'sell', quantity: 6, date: new Date(2024, 5, 1) });
+
+    expect(() => replayLedger([buy, sell])).toThrow(HoldingsLedgerError);
+  });
+
+  it('applies a split only to lots bought before its ex-date', () => {
+    const before = tx({ quantity: 10, price: 100, date: new Date(2024, 0, 1) });
+    const split = tx({ side: 'split', quantity: 10, price: 0, ratio: 2, date: new Date(2024, 3, 1) });
+    const after = tx({ quantity: 10, price: 60, date: new Date(2024, 4, 1) });
+
+    const { lots } = replayLedger([before, split, after]);
+
+    expect(lots[0]).toMatchObject({ quantity: 20, remaining: 20, price: 50, acquiredAt: before.date });
+    expect(lots[1]).toMatchObject({ quantity: 10, price: 60 });
+  });
+
+  it('matches sells after a split against the adjusted lots', () => {
+    const buy = tx({ quantity: 10, price: 100, date: new Date(2024, 0, 1) });
+    const split = tx({ side: 'split', quantity: 40, price: 0, ratio: 5, date: new Date(2024, 3, 1) });
+    const sell = tx({ side: 'sell', quantity: 25, price: 30, date: new Date(2024, 5, 1) });
+
+    const { realized } = replayLedger([buy, split, sell]);
+
+    expect(realized[0].matches[0].buyPrice).toBe(20);
+    expect(realized[0].realizedPnl).toBe(25 * 10);
+  });
+
+  it('adds bonus units as a zero-cost lot dated on allotment', () => {
+    const buy = tx({ quantity: 10, price: 100, date: new Date(2024, 0, 1) });
+    const bonus = tx({ side: 'bonus', quantity: 10, price: 0, ratio: 1, date: new Date(2024, 3, 1) });
+
+    const { lots, realized } = replayLedger([buy, bonus]);
+    const [holding] = buildHoldings(lots, realized, { INFY: 80 });
+
+    expect(lots[1]).toMatchObject({ price: 0, remaining: 10, acquiredAt: bonus.date });
+    expect(holding.quantity).toBe(20);
+    expect(holding.averageCost).toBe(50);
+    expect(holding.unrealizedPnl).toBe(600);
+  });
+
+  it('derives bonus units from the holding at replay time', () => {
+    const buy = tx({ quantity: 10, date: new Date(2024, 0, 1) });
+    const bonus = tx({ side: 'bonus', quantity: 5, price: 0, ratio: 0.5, date: new Date(2024, 3, 1) });
+    const backdated = tx({ quantity: 7, date: new Date(2024, 1, 1), createdAt: new Date(2024, 6, 1) });
+
+    const { lots } = replayLedger([buy, bonus, backdated]);
+
+    expect(lots.find(l => l.id === bonus.id)?.quantity).toBe(8);
+  });
+});
+
+describe('quantityHeldBefore', () => {
+  it('counts only units held before the date', () => {
+    const transactions = [
+      tx({ quantity: 10, date: new Date(2024, 0, 1) }),
+      tx({ side: 'sell', quantity: 4, date: new Date(2024, 1, 1) }),
+      tx({ quantity: 10, date: new Date(2024, 5, 1) }),
+    ];
+
+    expect(quantityHeldBefore(transactions, 'infy', new Date(2024, 3, 1))).toBe(6);
+  });
+});
+
+describe('matchLots', () => {
+  it('rejects lot selections that do not add up to the quantity sold', () => {
+    const { lots } = replayLedger([tx({ quantity: 10 })]);
+
+    expect(() =>
+      matchLots(lots, { quantity: 5, price: 100, lotSelections: [{ lotId: lots[0].id, quantity: 3 }] })
+    ).toThrow('Selected lots add up to 3');
+  });
+});
+
+describe('mergeTransactions', () => {
+  it('keeps local-only transactions and prefers the first copy of shared ones', () => {
+    const shared = tx({ price: 100 });
+    const remote = [shared];
+    const local = [{ ...shared, price: 999 }, tx({ quantity: 3 })];
+
+    const merged = mergeTransactions(remote, local);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0].price).toBe(100);
+    expect(merged[1].quantity).toBe(3);
+  });
+});
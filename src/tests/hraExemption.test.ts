@@ -0,0 +1,113 @@
+/**
+ * Unit Test: HRA Exemption
+ *
+ * Section 10(13A) month by month: metro and non-metro limits, rent below 10%
+ * of salary, months without rent, part-year salary, and rent detection
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { calculateHraExemption, rentPaidByMonth } from '../services/hraExemption';
+import type { RecordedTransaction, SalaryStructure } from '../services/userProfileService';
+
+vi.mock('../config/firebase', () => ({ db: {} }));
+
+const FY = 'FY2024-25';
+
+function structure(overrides: Partial<SalaryStructure> = {}): SalaryStructure {
+  return { effectiveFrom: new Date(2024, 3, 1), basicMonthly: 50000, hraMonthly: 25000, isMetro: true, ...overrides };
+}
+
+function rentEveryMonth(amount: number): Record<string, number> {
+  const rent: Record<string, number> = {};
+  for (let i = 0; i < 12; i++) {
+    const date = new Date(2024, 3 + i, 1);
+    rent[`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`] = amount;
+  }
+  return rent;
+}
+
+function tx(overrides: Partial<RecordedTransaction>): RecordedTransaction {
+  const date = new Date(2024, 5, 5).toISOString();
+  return { id: 'tx', amount: 20000, type: 'expense', category: 'Rent', description: 'Rent', date, status: 'classified', createdAt: date, ...overrides };
+}
+
+describe('calculateHraExemption', () => {
+  it('allows 50% of salary in a metro and 40% elsewhere', () => {
+    const metro = calculateHraExemption([structure()], rentEveryMonth(30000), FY);
+    const nonMetro = calculateHraExemption([structure({ isMetro: false })], rentEveryMonth(30000), FY);
+
+    expect(metro.months[0].limits).toEqual({ actualHra: 25000, rentOverTenPercent: 25000, percentOfSalary: 25000 });
+    expect(metro.totalExempt).toBe(300000);
+    expect(metro.totalTaxable).toBe(0);
+    expect(nonMetro.months[0].exempt).toBe(20000);
+    expect(nonMetro.totalExempt).toBe(240000);
+    expect(nonMetro.totalTaxable).toBe(60000);
+  });
+
+  it('counts dearness allowance as salary', () => {
+    const result = calculateHraExemption([structure({ isMetro: false, daMonthly: 10000 })], rentEveryMonth(30000), FY);
+
+    expect(result.months[0].salary).toBe(60000);
+    expect(result.months[0].limits).toMatchObject({ rentOverTenPercent: 24000, percentOfSalary: 24000 });
+    expect(result.months[0].exempt).toBe(24000);
+  });
+
+  it('exempts nothing when rent is below 10% of salary', () => {
+    const result = calculateHraExemption([structure()], rentEveryMonth(4000), FY);
+
+    expect(result.months[0].limits.rentOverTenPercent).toBe(0);
+    expect(result.totalExempt).toBe(0);
+    expect(result.totalTaxable).toBe(300000);
+  });
+
+  it('exempts nothing in months without rent', () => {
+    const result = calculateHraExemption([structure()], { '2024-04': 30000, '2024-05': 30000 }, FY);
+
+    expect(result.months.map(m => m.exempt)).toEqual([25000, 25000, ...Array(10).fill(0)]);
+    expect(result.totalRentPaid).toBe(60000);
+    expect(result.totalTaxable).toBe(250000);
+  });
+
+  it('covers only the months from the first salary structure and applies revisions from their month', () => {
+    const result = calculateHraExemption(
+      [
+        structure({ effectiveFrom: new Date(2025, 0, 1), basicMonthly: 60000, hraMonthly: 30000 }),
+        structure({ effectiveFrom: new Date(2024, 9, 15) }),
+      ],
+      rentEveryMonth(40000),
+      FY
+    );
+
+    expect(result.months.map(m => m.month)).toEqual(['2024-10', '2024-11', '2024-12', '2025-01', '2025-02', '2025-03']);
+    expect(result.months.map(m => m.exempt)).toEqual([25000, 25000, 25000, 30000, 30000, 30000]);
+    expect(result.totalHraReceived).toBe(165000);
+    expect(result.hasSalaryStructure).toBe(true);
+  });
+
+  it('is empty without a salary structure', () => {
+    const result = calculateHraExemption([], rentEveryMonth(30000), FY);
+
+    expect(result.months).toEqual([]);
+    expect(result.hasSalaryStructure).toBe(false);
+  });
+});
+
+describe('rentPaidByMonth', () => {
+  it('adds up Rent expenses by month within the financial year', () => {
+    const rent = rentPaidByMonth(
+      [
+        tx({}),
+        tx({ amount: -5000, category: 'rent', date: new Date(2024, 5, 20).toISOString() }),
+        tx({ date: new Date(2025, 2, 5).toISOString() }),
+        tx({ type: 'income', date: new Date(2024, 6, 5).toISOString() }),
+        tx({ category: 'Groceries', date: new Date(2024, 6, 5).toISOString() }),
+        tx({ category: null, date: new Date(2024, 6, 5).toISOString() }),
+        tx({ date: new Date(2024, 2, 5).toISOString() }),
+        tx({ date: 'not a date' }),
+      ],
+      FY
+    );
+
+    expect(rent).toEqual({ '2024-06': 25000, '2025-03': 20000 });
+  });
+});
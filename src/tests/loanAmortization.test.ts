@@ -0,0 +1,102 @@
+/**
+ * Unit Test: Loan Amortization
+ *
+ * EMI maths, month-end dates, rate resets, prepayments and the
+ * financial-year split used for loan deductions
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  addMonths,
+  buildAmortizationSchedule,
+  calculateEmi,
+  compareScenario,
+  loanTaxDeductions,
+  monthsToRepay,
+  splitByFinancialYear,
+} from '../services/loanAmortization';
+
+const HOME_LOAN = { principalAmount: 1000000, interestRate: 9, tenure: 120, startDate: new Date(2024, 0, 15) };
+
+describe('addMonths', () => {
+  it('clamps to the last day of shorter months', () => {
+    expect(addMonths(new Date(2024, 0, 31), 1)).toEqual(new Date(2024, 1, 29));
+    expect(addMonths(new Date(2025, 0, 31), 1)).toEqual(new Date(2025, 1, 28));
+    expect(addMonths(new Date(2024, 2, 31), 1)).toEqual(new Date(2024, 3, 30));
+    expect(addMonths(new Date(2024, 2, 31), -1)).toEqual(new Date(2024, 1, 29));
+  });
+
+  it('keeps the original day when counting from the start date', () => {
+    expect(addMonths(new Date(2024, 0, 31), 2)).toEqual(new Date(2024, 2, 31));
+    expect(addMonths(new Date(2024, 11, 15), 1)).toEqual(new Date(2025, 0, 15));
+  });
+});
+
+describe('calculateEmi', () => {
+  it('uses the reducing-balance formula', () => {
+    expect(calculateEmi(100000, 12, 12)).toBeCloseTo(8884.88, 2);
+    expect(calculateEmi(120000, 0, 12)).toBe(10000);
+  });
+
+  it('cannot repay when the EMI only covers the interest', () => {
+    expect(monthsToRepay(100000, 12, 1000)).toBe(Infinity);
+    expect(monthsToRepay(100000, 12, 8884.88)).toBe(12);
+  });
+});
+
+describe('buildAmortizationSchedule', () => {
+  it('repays the loan over the tenure with EMIs on month-end dates', () => {
+    const schedule = buildAmortizationSchedule({ principalAmount: 100000, interestRate: 12, tenure: 12, startDate: new Date(2024, 0, 31) });
+
+    expect(schedule.months).toBe(12);
+    expect(schedule.totalInterest).toBe(6619);
+    expect(schedule.rows[0]).toMatchObject({ interest: 1000, principal: 7884.88, closingBalance: 92115.12 });
+    expect(schedule.rows.slice(0, 3).map(r => r.date)).toEqual([
+      new Date(2024, 1, 29),
+      new Date(2024, 2, 31),
+      new Date(2024, 3, 30),
+    ]);
+    expect(schedule.rows[11].closingBalance).toBe(0);
+  });
+
+  it('raises the EMI or extends the tenure on a rate reset', () => {
+    const rateChanges = (adjust: 'emi' | 'tenure') => [{ effectiveFrom: new Date(2025, 0, 1), annualRate: 10, adjust }];
+    const newEmi = buildAmortizationSchedule({ ...HOME_LOAN, rateChanges: rateChanges('emi') });
+    const newTenure = buildAmortizationSchedule({ ...HOME_LOAN, rateChanges: rateChanges('tenure') });
+
+    expect(newEmi.months).toBe(120);
+    expect(newEmi.rows[20].emi).toBeGreaterThan(newEmi.rows[0].emi);
+    expect(newTenure.months).toBe(128);
+    expect(newTenure.rows[20].emi).toBe(newTenure.rows[0].emi);
+  });
+});
+
+describe('compareScenario', () => {
+  it('shortens the loan when a prepayment reduces the tenure', () => {
+    const result = compareScenario(HOME_LOAN, {
+      prepayments: [{ date: new Date(2025, 0, 15), amount: 200000, frequency: 'once', until: null, strategy: 'reduce_tenure' }],
+    });
+
+    expect(result.monthsSaved).toBe(31);
+    expect(result.interestSaved).toBe(199020);
+  });
+});
+
+describe('splitByFinancialYear', () => {
+  it('splits interest and principal at 31 March', () => {
+    const schedule = buildAmortizationSchedule({ principalAmount: 100000, interestRate: 12, tenure: 12, startDate: new Date(2024, 0, 31) });
+    const split = splitByFinancialYear(schedule);
+
+    expect(split.map(y => y.financialYear)).toEqual(['FY2023-24', 'FY2024-25']);
+    expect(split[0]).toMatchObject({ interest: 1921, principal: 15849 });
+    expect(split[1].closingBalance).toBe(0);
+  });
+
+  it('gives 80E interest for eight years of an education loan only', () => {
+    const schedule = buildAmortizationSchedule({ ...HOME_LOAN, tenure: 144 });
+    const deductions = loanTaxDeductions('Education Loan', splitByFinancialYear(schedule));
+
+    expect(deductions).toHaveLength(8);
+    expect(deductions.every(d => d.section === '80E')).toBe(true);
+  });
+});
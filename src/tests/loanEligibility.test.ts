@@ -0,0 +1,181 @@
+/**
+ * Unit Test: Loan Eligibility
+ *
+ * FOIR from EMIs, card minimums and recurring payments, lender limits by
+ * FOIR, income multiple and age, and top-ups at top-up rates
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  assessEligibility,
+  calculateFoir,
+  checkAffordability,
+  checkTopUpAffordability,
+  detectRecurringObligations,
+  eligibilityFor,
+  maxTenureForAge,
+  topUpEligibility,
+} from '../services/loanEligibility';
+import { calculateEmi } from '../services/loanAmortization';
+import type { LenderOffer } from '../config/lenderOffers';
+import type { RecordedTransaction, UserFinancialProfile } from '../services/userProfileService';
+
+vi.mock('../config/firebase', () => ({ db: {} }));
+
+const AS_OF = new Date(2025, 5, 15);
+
+function offer(overrides: Partial<LenderOffer>): LenderOffer {
+  return {
+    lender: 'Bank',
+    loanType: 'Home Loan',
+    rate: 9,
+    processingFeePercent: 0.5,
+    processingFeeCap: null,
+    foreclosureChargePercent: 0,
+    maxTenureMonths: 240,
+    maxFoirPercent: 50,
+    incomeMultiplier: null,
+    topUp: null,
+    features: [],
+    ...overrides,
+  };
+}
+
+const OFFERS = [
+  offer({ lender: 'Generous', maxFoirPercent: 50, topUp: { rate: 10, maxAmount: 1000000 } }),
+  offer({ lender: 'Strict', rate: 8.5, maxFoirPercent: 40, incomeMultiplier: 30 }),
+];
+
+function profile(overrides: Partial<UserFinancialProfile> = {}): UserFinancialProfile {
+  return {
+    userId: 'user',
+    personalInfo: { name: 'Test', age: 35, occupation: 'Engineer' },
+    income: {
+      monthlySalary: 100000,
+      annualSalary: 1200000,
+      otherIncome: 0,
+      rentalIncome: 0,
+      businessIncome: 0,
+      lastUpdated: AS_OF,
+    },
+    deductions: { section80C: [], section80D: [], section80CCD1B: [], homeLoan: [], otherLoans: [], customDeductions: [] },
+    investments: { active: [], planned: [] },
+    bankAccounts: [],
+    taxRegime: 'old',
+    createdAt: AS_OF,
+    updatedAt: AS_OF,
+    ...overrides,
+  };
+}
+
+function payment(description: string, amount: number, month: number): RecordedTransaction {
+  const date = new Date(2025, month, 5).toISOString();
+  return { id: `${description}${month}`, amount, type: 'expense', category: null, description, date, status: 'classified', createdAt: date };
+}
+
+describe('detectRecurringObligations', () => {
+  it('counts payments made in at least three months and skips EMIs already on the profile', () => {
+    const transactions = [
+      ...[1, 2, 3, 4].map(m => payment('House rent', 20000, m)),
+      ...[1, 2, 3].map(m => payment('Car loan EMI', 12000, m)),
+      ...[3, 4].map(m => payment('Insurance premium', 5000, m)),
+    ];
+
+    const obligations = detectRecurringObligations(transactions, [12000], AS_OF);
+
+    expect(obligations.map(o => [o.description, o.monthlyAmount, o.months])).toEqual([['house rent', 20000, 4]]);
+  });
+});
+
+describe('calculateFoir', () => {
+  it('adds card minimums and recurring payments to loan EMIs', () => {
+    const foir = calculateFoir(
+      profile({ creditCards: [{ id: 'c', issuer: 'Card', outstanding: 50000, annualRate: 42, minimumPayment: 2500 }] }),
+      [{ description: 'rent', category: null, monthlyAmount: 20000, months: 4, lastPaid: AS_OF }],
+      AS_OF
+    );
+
+    expect(foir).toMatchObject({ monthlyIncome: 100000, cardMinimums: 2500, totalObligations: 22500, foirPercent: 22.5 });
+  });
+});
+
+describe('maxTenureForAge', () => {
+  it('ends the loan by the maximum age at maturity', () => {
+    expect(maxTenureForAge({ loanType: 'Home Loan', maxTenureMonths: 360 }, 55)).toBe(180);
+    expect(maxTenureForAge({ loanType: 'Home Loan', maxTenureMonths: 360 }, 0)).toBe(360);
+    expect(maxTenureForAge({ loanType: 'Personal Loan', maxTenureMonths: 60 }, 61)).toBe(0);
+  });
+});
+
+describe('assessEligibility', () => {
+  it('takes the largest amount across lenders, capped by FOIR or income multiple', () => {
+    const report = assessEligibility(profile(), [], AS_OF, OFFERS);
+    const home = eligibilityFor(report, 'Home Loan');
+
+    expect(home.lender).toBe('Generous');
+    expect(home.maxEmi).toBe(50000);
+    expect(home.maxAmount).toBe(Math.floor(50000 / calculateEmi(1, 9, 240) / 10000) * 10000);
+    expect(home.lenders[1]).toMatchObject({ lender: 'Strict', maxAmount: 3000000, limitedBy: 'income_multiple' });
+  });
+
+  it('explains why a user with obligations above every FOIR ceiling cannot borrow', () => {
+    const report = assessEligibility(
+      profile({ creditCards: [{ id: 'c', issuer: 'Card', outstanding: 900000, annualRate: 42, minimumPayment: 60000 }] }),
+      [],
+      AS_OF,
+      OFFERS
+    );
+    const home = eligibilityFor(report, 'Home Loan');
+
+    expect(home.eligible).toBe(false);
+    expect(home.reason).toBe('Existing obligations already take 60% of income; lenders allow up to 50%');
+  });
+
+  it('throws for a loan type that was not assessed', () => {
+    const report = assessEligibility(profile(), [], AS_OF, OFFERS);
+
+    expect(() => eligibilityFor({ ...report, loans: [] }, 'Car Loan')).toThrow('No eligibility assessed for Car Loan');
+  });
+});
+
+describe('checkAffordability', () => {
+  const report = assessEligibility(profile(), [], AS_OF, OFFERS);
+
+  it('approves an amount any lender would lend', () => {
+    const check = checkAffordability(report, 'Home Loan', 4000000, 240);
+
+    expect(check.feasible).toBe(true);
+    expect(check.lender).toBe('Generous');
+    expect(check.emi).toBe(Math.round(calculateEmi(4000000, 9, 240)));
+  });
+
+  it('gives the FOIR the EMI would reach when no lender can lend', () => {
+    const check = checkAffordability(report, 'Home Loan', 8000000, 240);
+
+    expect(check.feasible).toBe(false);
+    expect(check.reason).toContain("above Generous's 50% limit");
+    expect(check.reason).toContain(`The most you can borrow is ₹${eligibilityFor(report, 'Home Loan').maxAmount.toLocaleString('en-IN')}`);
+  });
+});
+
+describe('topUpEligibility', () => {
+  const report = assessEligibility(profile(), [], AS_OF, OFFERS);
+
+  it('uses only lenders offering top-ups, at their top-up rate and limit', () => {
+    const topUp = topUpEligibility(report, OFFERS);
+
+    expect(topUp.lenders.map(l => l.lender)).toEqual(['Generous']);
+    expect(topUp).toMatchObject({ rate: 10, maxAmount: 1000000 });
+    expect(topUp.lenders[0].limitedBy).toBe('lender_limit');
+  });
+
+  it('checks a top-up over the remaining tenure at the top-up rate', () => {
+    const check = checkTopUpAffordability(report, 800000, 120, OFFERS);
+    const tooLarge = checkTopUpAffordability(report, 1500000, 120, OFFERS);
+
+    expect(check.feasible).toBe(true);
+    expect(check.emi).toBe(Math.round(calculateEmi(800000, 10, 120)));
+    expect(tooLarge.feasible).toBe(false);
+    expect(tooLarge.reason).toContain("Above Generous's largest offer of ₹10,00,000");
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Unit Test: Salary Document Import
+ *
+ * Form 16 and salary slip parsing, the field-by-field diff against the
+ * profile, and applying only the changes the user keeps
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildImportDiff,
+  detectDocumentType,
+  parseForm16,
+  parseSalarySlip,
+  salaryDocumentImportService,
+  type ProfileChange,
+} from '../services/salaryDocumentImport';
+import { userProfileService, type CustomDeduction, type UserFinancialProfile } from '../services/userProfileService';
+
+vi.mock('../config/firebase', () => ({ db: {} }));
+
+const FORM_16 = `
+FORM NO. 16
+PART A
+Name and address of the Employer          Name and address of the Employee
+Acme Technologies Pvt Ltd                  Ravi Kumar
+Assessment Year: 2025-26
+Total tax deducted                                      1,85,000
+
+PART B
+1. Gross Salary
+(a) Salary as per provisions contained in section 17(1)          15,00,000
+(b) Value of perquisites under section 17(2)                        20,000
+(c) Profits in lieu of salary under section 17(3)                        0
+2. Less: Allowances to the extent exempt under section 10
+(a) Travel concession or assistance under section 10(5)             30,000
+(e) House rent allowance under section 10(13A)                    1,80,000
+Total amount of exemption claimed under section 10                2,10,000
+4. Deductions under section 16
+(a) Standard deduction under section 16(ia)                         50,000
+(c) Tax on employment under section 16(iii)                          2,500
+10. Deductions under Chapter VI-A
+(a) Deduction in respect of life insurance premia, provident fund etc. under section 80C   1,50,000
+(d) Contribution by taxpayer to pension scheme under section 80CCD (1B)   50,000
+(e) Deduction in respect of health insurance premia under section 80D    25,000
+(k) Aggregate of deductible amount under Chapter VI-A             2,25,000
+`;
+
+const SALARY_SLIP = `
+Acme Technologies Pvt Ltd
+Payslip for the month of June 2024
+Employee Name: Ravi Kumar        Date of Joining: 01/03/2021
+Company: Acme Technologies Pvt Ltd
+Earnings                 Amount      YTD
+Basic Salary             50,000      1,50,000
+House Rent Allowance     25,000        75,000
+Dearness Allowance        5,000        15,000
+Special Allowance        20,000        60,000
+Gross Earnings         1,00,000      3,00,000
+Deductions
+Provident Fund            6,000        18,000
+Professional Tax            200           600
+Income Tax               12,000        36,000
+Net Pay                  81,800
+`;
+
+function deduction(category: string, amount: number): CustomDeduction {
+  return {
+    id: category,
+    name: category,
+    category,
+    amount,
+    type: 'Custom',
+    description: '',
+    startDate: new Date(2024, 3, 1),
+    isRecurring: false,
+    verified: false,
+  };
+}
+
+function profile(overrides: Partial<UserFinancialProfile> = {}): UserFinancialProfile {
+  const now = new Date(2024, 6, 1);
+  return {
+    userId: 'user',
+    personalInfo: { name: 'Ravi Kumar', age: 30, occupation: 'Engineer' },
+    income: {
+      monthlySalary: 100000,
+      annualSalary: 1200000,
+      otherIncome: 0,
+      rentalIncome: 0,
+      businessIncome: 0,
+      lastUpdated: now,
+      salaryStructure: [
+        { effectiveFrom: new Date(2024, 3, 1), basicMonthly: 50000, daMonthly: 5000, hraMonthly: 25000, isMetro: true },
+      ],
+    },
+    deductions: {
+      section80C: [deduction('80C', 100000)],
+      section80D: [],
+      section80CCD1B: [],
+      homeLoan: [],
+      otherLoans: [],
+      customDeductions: [],
+    },
+    investments: { active: [], planned: [] },
+    bankAccounts: [],
+    taxRegime: 'old',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+function change(changes: ProfileChange[], key: ProfileChange['key']): ProfileChange {
+  const found = changes.find(c => c.key === key);
+  if (!found) throw new Error(`No ${key} change`);
+  return found;
+}
+
+describe('parseForm16', () => {
+  it('reads the annual figures from Parts A and B', () => {
+    const parsed = parseForm16(FORM_16);
+
+    expect(detectDocumentType(FORM_16)).toBe('form16');
+    expect(parsed).toMatchObject({
+      documentType: 'form16',
+      financialYear: 'FY2024-25',
+      employer: 'Acme Technologies Pvt Ltd',
+      grossSalary: 1520000,
+      exemptions: { hra: 180000, lta: 30000, other: 0, total: 210000 },
+      standardDeduction: 50000,
+      professionalTax: 2500,
+      tds: 185000,
+      warnings: [],
+    });
+    expect(parsed.chapterVIA).toMatchObject({ section80C: 150000, section80CCD1B: 50000, section80D: 25000, total: 225000 });
+  });
+
+  it('warns when TDS is missing and fails without a gross salary', () => {
+    const withoutTds = FORM_16.replace(/^Total tax deducted.*$/m, '');
+
+    expect(parseForm16(withoutTds).warnings).toEqual(['TDS not found; check Part A of the Form 16']);
+    expect(() => parseForm16('FORM NO. 16\nAssessment Year: 2025-26')).toThrow(
+      'Could not find the gross salary in this Form 16'
+    );
+  });
+});
+
+describe('parseSalarySlip', () => {
+  it('reads the pay month and monthly components, annualised', () => {
+    const parsed = parseSalarySlip(SALARY_SLIP);
+
+    expect(detectDocumentType(SALARY_SLIP)).toBe('salary_slip');
+    expect(parsed.salarySlip).toEqual({
+      month: '2024-06',
+      basicMonthly: 50000,
+      daMonthly: 5000,
+      hraMonthly: 25000,
+      grossMonthly: 100000,
+      tdsMonthly: 12000,
+    });
+    expect(parsed).toMatchObject({
+      financialYear: 'FY2024-25',
+      employer: 'Acme Technologies Pvt Ltd',
+      grossSalary: 1200000,
+      professionalTax: 2400,
+      tds: 144000,
+    });
+    expect(parsed.chapterVIA).toMatchObject({ section80C: 72000, total: 72000 });
+  });
+
+  it('fails without a basic pay', () => {
+    expect(() => parseSalarySlip('Payslip for June 2024\nNet Pay 50,000')).toThrow(
+      'Could not find the basic pay in this salary slip'
+    );
+  });
+});
+
+describe('buildImportDiff', () => {
+  it('marks matching fields unchanged and never lowers a deduction', () => {
+    const changes = buildImportDiff(profile(), parseSalarySlip(SALARY_SLIP));
+
+    expect(change(changes, 'annualSalary')).toMatchObject({ changed: false, apply: false });
+    expect(change(changes, 'salaryStructure')).toMatchObject({ current: 80000, imported: 80000, changed: false, apply: false });
+    expect(change(changes, 'section80C')).toMatchObject({ current: 100000, imported: 72000, changed: true, apply: false });
+    expect(change(changes, 'section80D')).toMatchObject({ changed: false, apply: false });
+    expect(change(changes, 'tds')).toMatchObject({ current: 0, imported: 144000, changed: true, apply: true });
+    expect(changes.some(c => c.key === 'exemptions')).toBe(false);
+  });
+
+  it('tops up deductions and keeps Form 16 exemptions for reference only', () => {
+    const changes = buildImportDiff(profile(), parseForm16(FORM_16));
+
+    expect(change(changes, 'annualSalary')).toMatchObject({ current: 1200000, imported: 1520000, apply: true });
+    expect(change(changes, 'section80C')).toMatchObject({ current: 100000, imported: 150000, apply: true });
+    expect(change(changes, 'section80CCD1B')).toMatchObject({ current: 0, imported: 50000, apply: true });
+    expect(change(changes, 'exemptions')).toMatchObject({ imported: 210000, writable: false, apply: false });
+    expect(change(changes, 'otherDeductions')).toMatchObject({ changed: false, apply: false });
+  });
+});
+
+describe('applyImport', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function spyOnWrites(current: UserFinancialProfile) {
+    vi.spyOn(userProfileService, 'getProfile').mockResolvedValue(current);
+    return {
+      updateSalary: vi.spyOn(userProfileService, 'updateSalary').mockResolvedValue(),
+      updateSalaryStructure: vi.spyOn(userProfileService, 'updateSalaryStructure').mockResolvedValue([]),
+      addCustomDeduction: vi.spyOn(userProfileService, 'addCustomDeduction').mockImplementation(
+        async (_userId, d) => ({ ...d, id: 'new' })
+      ),
+      recordTaxStatement: vi.spyOn(userProfileService, 'recordTaxStatement').mockResolvedValue([]),
+    };
+  }
+
+  it('writes only the changed fields from a salary slip', async () => {
+    const current = profile();
+    const writes = spyOnWrites(current);
+    const parsed = parseSalarySlip(SALARY_SLIP);
+
+    const applied = await salaryDocumentImportService.applyImport('user', parsed, buildImportDiff(current, parsed));
+
+    expect(applied).toEqual(['tds']);
+    expect(writes.updateSalary).not.toHaveBeenCalled();
+    expect(writes.updateSalaryStructure).not.toHaveBeenCalled();
+    expect(writes.addCustomDeduction).not.toHaveBeenCalled();
+    expect(writes.recordTaxStatement).toHaveBeenCalledWith('user', expect.objectContaining({
+      financialYear: 'FY2024-25',
+      employer: 'Acme Technologies Pvt Ltd',
+      source: 'salary_slip',
+      tds: 144000,
+    }));
+  });
+
+  it('adds only the top-up for deductions and skips changes the user unticked', async () => {
+    const current = profile();
+    const writes = spyOnWrites(current);
+    const parsed = parseForm16(FORM_16);
+    const changes = buildImportDiff(current, parsed).map(c => (c.key === 'annualSalary' ? { ...c, apply: false } : c));
+
+    const applied = await salaryDocumentImportService.applyImport('user', parsed, changes);
+
+    expect(applied).toEqual(['section80C', 'section80CCD1B', 'section80D', 'tds']);
+    expect(writes.updateSalary).not.toHaveBeenCalled();
+    expect(writes.addCustomDeduction.mock.calls.map(([, d]) => [d.category, d.type, d.amount, d.verified])).toEqual([
+      ['80C', 'Custom', 50000, true],
+      ['80CCD1B', 'NPS', 50000, true],
+      ['80D', 'Health Insurance', 25000, true],
+    ]);
+    expect(writes.recordTaxStatement).toHaveBeenCalledWith('user', expect.objectContaining({
+      source: 'form16',
+      grossSalary: 1520000,
+      exemptAllowances: 210000,
+      chapterVIADeductions: 225000,
+      tds: 185000,
+    }));
+  });
+});
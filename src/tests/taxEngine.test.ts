@@ -0,0 +1,87 @@
+/**
+ * Unit Test: Income Tax Engine
+ *
+ * Slabs, Section 87A rebate with marginal relief, surcharge relief and
+ * deduction caps for each regime
+ */
+
+import { describe, expect, it } from 'vitest';
+import { calculateIncomeTax, compareRegimes, getFinancialYear, getTaxRules } from '../services/taxEngine';
+
+describe('calculateIncomeTax', () => {
+  it('wipes out tax up to ₹12 lakh taxable under the FY2025-26 new regime', () => {
+    const result = calculateIncomeTax({ grossIncome: 1275000, regime: 'new', financialYear: 'FY2025-26' });
+
+    expect(result.taxableIncome).toBe(1200000);
+    expect(result.taxBeforeRebate).toBe(60000);
+    expect(result.rebate).toBe(60000);
+    expect(result.totalTax).toBe(0);
+    expect(result.marginalRate).toBe(0);
+  });
+
+  it('caps tax just above the rebate limit at the income above it', () => {
+    const result = calculateIncomeTax({ grossIncome: 1285000, regime: 'new', financialYear: 'FY2025-26' });
+
+    expect(result.taxableIncome).toBe(1210000);
+    expect(result.taxBeforeRebate).toBe(61500);
+    expect(result.taxAfterRebate).toBe(10000);
+    expect(result.totalTax).toBe(10400);
+  });
+
+  it('gives the old-regime rebate without marginal relief', () => {
+    expect(calculateIncomeTax({ grossIncome: 550000, regime: 'old', financialYear: 'FY2024-25' }).totalTax).toBe(0);
+    expect(calculateIncomeTax({ grossIncome: 560000, regime: 'old', financialYear: 'FY2024-25' }).totalTax).toBe(15080);
+  });
+
+  it('caps 80C and ignores Chapter VI-A deductions in the new regime', () => {
+    const deductions = { section80C: 200000 };
+    const oldRegime = calculateIncomeTax({ grossIncome: 1000000, regime: 'old', financialYear: 'FY2024-25', deductions });
+    const newRegime = calculateIncomeTax({ grossIncome: 1000000, regime: 'new', financialYear: 'FY2024-25', deductions });
+
+    expect(oldRegime.deductions).toEqual([{ section: '80C', claimed: 200000, allowed: 150000 }]);
+    expect(oldRegime.taxableIncome).toBe(800000);
+    expect(oldRegime.totalTax).toBe(75400);
+    expect(newRegime.deductions[0].allowed).toBe(0);
+    expect(newRegime.taxableIncome).toBe(925000);
+  });
+
+  it('uses the senior citizen exemption limit in the old regime', () => {
+    const result = calculateIncomeTax({ grossIncome: 650000, regime: 'old', financialYear: 'FY2024-25', age: 65 });
+
+    expect(result.ageCategory).toBe('senior');
+    expect(result.taxBeforeRebate).toBe(30000);
+  });
+
+  it('applies marginal relief on surcharge just above ₹50 lakh', () => {
+    const result = calculateIncomeTax({ grossIncome: 5085000, regime: 'new', financialYear: 'FY2024-25' });
+
+    expect(result.taxableIncome).toBe(5010000);
+    expect(result.taxAfterRebate).toBe(1193000);
+    expect(result.surcharge).toBe(7000);
+    expect(result.surchargeRelief).toBe(112300);
+    expect(result.totalTax).toBe(1248000);
+  });
+
+  it('falls back to the latest table for future years and flags it', () => {
+    const result = calculateIncomeTax({ grossIncome: 1000000, regime: 'new', financialYear: 'FY2030-31' });
+
+    expect(result.provisional).toBe(true);
+    expect(result.rulesYear).toBe(getTaxRules('FY2030-31').rules.financialYear);
+  });
+});
+
+describe('compareRegimes', () => {
+  it('recommends the cheaper regime and reports the difference', () => {
+    const comparison = compareRegimes({ grossIncome: 1500000, financialYear: 'FY2025-26' });
+
+    expect(comparison.recommendation).toBe('new');
+    expect(comparison.savings).toBe(comparison.old.totalTax - comparison.new.totalTax);
+  });
+});
+
+describe('getFinancialYear', () => {
+  it('starts the financial year in April', () => {
+    expect(getFinancialYear(new Date(2025, 2, 31))).toBe('FY2024-25');
+    expect(getFinancialYear(new Date(2025, 3, 1))).toBe('FY2025-26');
+  });
+});
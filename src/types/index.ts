@@ -13,7 +13,7 @@ export interface User {
 export interface FinancialAccount {
   id: string;
   userId: string;
-  accountType: 'bank' | 'mutual_fund' | 'epf' | 'insurance' | 'stocks' | 'crypto' | 'real_estate';
+  accountType: 'bank' | 'mutual_fund' | 'epf' | 'insurance' | 'stocks' | 'crypto' | 'real_estate' | 'credit_card';
   institutionName: string;
   accountNumber: string;
   balance: number;